@@ -0,0 +1,140 @@
+/**
+ * Campaign Cron Route Tests
+ * GET /api/campaigns/cron against a temporary run queue, with the queue
+ * worker replaced by one that leases an item and is still running it.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('zustand/middleware', () => ({
+    ...jest.requireActual('zustand/middleware'),
+    persist: <T>(fn: () => T) => fn,
+}));
+
+// jsdom has no fetch Request/Response for next/server to build on
+jest.mock('next/server', () => ({
+    NextResponse: {
+        json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+    },
+}));
+
+jest.mock('@/features/campaigns/lib/pipeline/queueWorker', () => ({
+    ...jest.requireActual('@/features/campaigns/lib/pipeline/queueWorker'),
+    processRunQueue: jest.fn(async () => {
+        const { leaseNextRunItem } = await import('@/lib/db/pipelineRunStore');
+        await leaseNextRunItem('busy_worker', 10 * 60 * 1000);
+        return { processed: 0, succeeded: 0, failed: 0, resumed: 0 };
+    }),
+}));
+
+import { GET } from '@/app/api/campaigns/cron/route';
+import { processRunQueue } from '@/features/campaigns/lib/pipeline/queueWorker';
+import { useCampaignStore } from '@/features/campaigns/model/campaignStore';
+import { useWPSitesStore } from '@/features/wordpress/model/wpSiteStore';
+import { leaseNextRunItem, listRunQueue } from '@/lib/db/pipelineRunStore';
+import type { Campaign, ManualSourceConfig, PipelineContext } from '@/features/campaigns/model/types';
+
+describe('GET /api/campaigns/cron', () => {
+    let tmpDir: string;
+    let campaign: Campaign;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ifrit-cron-'));
+        jest.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+
+        useCampaignStore.setState({ campaigns: [], runHistory: [], activeCampaignId: null });
+        useWPSitesStore.setState({ sites: {}, articles: {}, activeSiteId: null });
+
+        const site = useWPSitesStore.getState().addSite({
+            name: 'Test Blog',
+            url: 'https://testblog.com',
+            username: 'admin',
+            appPassword: 'xxxx',
+            status: 'connected',
+        });
+        campaign = useCampaignStore.getState().createCampaign({
+            name: 'Cluster',
+            description: '',
+            status: 'active',
+            targetSiteId: site.id,
+            postStatus: 'draft',
+            source: {
+                type: 'manual',
+                config: {
+                    type: 'manual',
+                    topics: [
+                        { id: 'topic_a', topic: 'Topic A', status: 'pending' },
+                        { id: 'topic_b', topic: 'Topic B', status: 'pending' },
+                    ],
+                },
+            },
+            aiConfig: {
+                provider: 'gemini',
+                articleType: 'cluster',
+                tone: 'professional',
+                targetLength: 1500,
+                useResearch: false,
+                includeImages: false,
+                optimizeForSEO: true,
+                includeSchema: false,
+                includeFAQ: false,
+            },
+            schedule: { type: 'interval', intervalHours: 1, maxPostsPerRun: 1, pauseOnError: false },
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should not enqueue a manual topic again while it is still in the run queue', async () => {
+        await GET();
+
+        // Next window comes round before the worker has finished topic A
+        useCampaignStore.getState().updateSchedule(campaign.id, { nextRunAt: Date.now() - 1000 });
+        const response = await GET();
+        const body = await response.json();
+
+        expect(body.success).toBe(true);
+        const entries = listRunQueue({ campaignId: campaign.id });
+        expect(entries.map(e => [e.sourceItem.id, e.status])).toEqual([
+            ['topic_a', 'leased'],
+            ['topic_b', 'leased'],
+        ]);
+    });
+
+    it('should skip the campaign once every due topic is in flight', async () => {
+        useCampaignStore.getState().updateSchedule(campaign.id, { maxPostsPerRun: 2 });
+        await GET();
+
+        useCampaignStore.getState().updateSchedule(campaign.id, { nextRunAt: Date.now() - 1000 });
+        const body = await (await GET()).json();
+
+        expect(listRunQueue({ campaignId: campaign.id })).toHaveLength(2);
+        expect(body.results).toEqual([
+            expect.objectContaining({ campaignId: campaign.id, status: 'skipped', error: 'No source items available' }),
+        ]);
+    });
+
+    it('should record worker outcomes on the campaign through the shared store callbacks', async () => {
+        jest.mocked(processRunQueue).mockImplementationOnce(async (options) => {
+            const entry = (await leaseNextRunItem('worker_1', 60 * 1000))!;
+            options.onItemComplete?.(entry, { wpResult: { postId: 7, postUrl: 'https://testblog.com/topic-a/' } } as PipelineContext);
+            return { processed: 1, succeeded: 1, failed: 0, resumed: 0 };
+        });
+
+        await GET();
+
+        const updated = useCampaignStore.getState().getCampaign(campaign.id)!;
+        expect(updated.stats.totalPublished).toBe(1);
+        expect((updated.source.config as ManualSourceConfig).topics[0]).toMatchObject({
+            id: 'topic_a',
+            status: 'published',
+            postId: 7,
+            postUrl: 'https://testblog.com/topic-a/',
+        });
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * Performance Learning Cron Tests
+ * GET /api/cron/performance-learning against a temporary review store: the
+ * publish links recorded through the publication route are joined with
+ * Plausible traffic fetched by the cron.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('zustand/middleware', () => ({
+    ...jest.requireActual('zustand/middleware'),
+    persist: <T>(fn: () => T) => fn,
+}));
+
+// jsdom has no fetch Request/Response for next/server to build on
+jest.mock('next/server', () => ({
+    NextResponse: {
+        json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+    },
+}));
+
+import type { NextRequest } from 'next/server';
+import { GET } from '@/app/api/cron/performance-learning/route';
+import { POST as recordPublication } from '@/app/api/editorial/reviews/[id]/publication/route';
+import { resetLearningState } from '@/features/editorial/lib/smartReview';
+import { getReviewDetail, importReviewItem } from '@/features/editorial/lib/reviewService';
+import type { ReviewItem } from '@/features/editorial/model/reviewTypes';
+
+function makeItem(n: number, topic: string, tone: string): ReviewItem {
+    return {
+        id: `review_${n}`,
+        campaignId: 'camp_1',
+        siteId: 'site_1',
+        title: `${topic} ${n}`,
+        content: '<p>Body</p>',
+        wordCount: 1,
+        topic,
+        overallQualityScore: 85,
+        status: 'pending_review',
+        priority: 'low',
+        riskLevel: 'standard',
+        checklist: [],
+        checklistComplete: false,
+        changeRequests: [],
+        generation: { settings: { tone, articleType: 'how-to' }, promptAdditions: [] },
+        autoApprovalEligible: false,
+        createdAt: 0,
+        updatedAt: 0,
+    } as unknown as ReviewItem;
+}
+
+// 3 popular coffee posts, 6 middling, 3 travel posts nobody reads
+const ITEMS = [
+    ...[1, 2, 3].map(n => makeItem(n, 'coffee gear', 'conversational')),
+    ...[4, 5, 6, 7, 8, 9].map(n => makeItem(n, 'misc', 'professional')),
+    ...[10, 11, 12].map(n => makeItem(n, 'budget travel', 'professional')),
+];
+const PAGEVIEWS: Record<number, number> = { 1: 2000, 2: 2100, 3: 2200, 10: 10, 11: 11, 12: 12 };
+
+const cronRequest = (token: string) =>
+    ({ headers: new Headers({ authorization: `Bearer ${token}` }) }) as unknown as NextRequest;
+
+describe('GET /api/cron/performance-learning', () => {
+    let tmpDir: string;
+    let plausibleUrls: string[];
+
+    beforeEach(async () => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ifrit-learning-'));
+        jest.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        localStorage.clear();
+        resetLearningState();
+        process.env.CRON_SECRET = 'cron-secret';
+        process.env.PLAUSIBLE_API_KEY = 'plausible-key';
+
+        plausibleUrls = [];
+        global.fetch = jest.fn(async (url: RequestInfo | URL) => {
+            plausibleUrls.push(String(url));
+            const results = [...ITEMS.keys()].map(i => ({
+                page: `/post-${i + 1}/`,
+                visitors: 1,
+                pageviews: PAGEVIEWS[i + 1] ?? 500 + i,
+                bounce_rate: 50,
+            }));
+            return { ok: true, json: async () => ({ results: [...results, { page: '/', visitors: 9, pageviews: 9999, bounce_rate: 10 }] }) } as Response;
+        }) as unknown as typeof fetch;
+
+        for (const [i, item] of ITEMS.entries()) {
+            importReviewItem(item);
+            await recordPublication(
+                { json: async () => ({ postId: 100 + i, url: `https://www.blog.example.com/post-${i + 1}/` }) } as unknown as NextRequest,
+                { params: Promise.resolve({ id: item.id }) }
+            );
+        }
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete process.env.CRON_SECRET;
+        delete process.env.PLAUSIBLE_API_KEY;
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should record the publish link on the server review item', () => {
+        const { item, audit } = getReviewDetail('review_1');
+
+        expect(item).toMatchObject({ publishedPostId: 100, publishedUrl: 'https://www.blog.example.com/post-1/' });
+        expect(audit.map(e => e.action)).toEqual(['created', 'published']);
+    });
+
+    it('should learn from the traffic of the published posts', async () => {
+        const response = await GET(cronRequest('cron-secret'));
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(plausibleUrls).toHaveLength(1);
+        expect(plausibleUrls[0]).toContain('site_id=blog.example.com');
+        expect(body).toMatchObject({ success: true, posts: 12, unmatched: 0, winners: 3, losers: 3 });
+        expect(body.correlations[0]).toMatchObject({ setting: 'tone', value: 'conversational', winners: 3 });
+    });
+
+    it('should reject requests without the cron secret', async () => {
+        const response = await GET(cronRequest('wrong'));
+
+        expect(response.status).toBe(401);
+        expect(plausibleUrls).toHaveLength(0);
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * A/B Testing Engine Tests
+ * @jest-environment jsdom
+ */
+
+const mockUpdatePost = jest.fn();
+jest.mock('@/features/wordpress/api/wordpressApi', () => ({
+    updatePost: (...args: unknown[]) => mockUpdatePost(...args),
+    uploadMedia: jest.fn(),
+}));
+
+import {
+    createABTest,
+    evaluateExperiment,
+    determineWinner,
+    probabilityToBeBest,
+    sequentialPValue,
+    requiredSampleSize,
+    assignVariant,
+    recordEvents,
+    concludeExperiment,
+    type ABTest,
+    type ABVariant,
+} from '@/features/campaigns/lib/abTesting';
+import type { WPSite } from '@/features/wordpress';
+
+const site = { id: 'site_1', url: 'https://example.com', username: 'admin', appPassword: 'secret' } as WPSite;
+
+function variant(id: string, impressions: number, clicks: number): ABVariant {
+    return { id, type: 'title', content: `Title ${id}`, impressions, clicks, conversions: 0 };
+}
+
+function testWith(variants: ABVariant[], overrides: Partial<ABTest> = {}): ABTest {
+    return { ...createABTest('Test', 42, 'site_1', []), id: 'ab_fixed', variants, ...overrides };
+}
+
+describe('abTesting engine', () => {
+    beforeEach(() => {
+        mockUpdatePost.mockReset();
+    });
+
+    describe('probabilityToBeBest', () => {
+        it('sums to one and favours the better variant', () => {
+            const probabilities = probabilityToBeBest([variant('a', 1000, 50), variant('b', 1000, 80)]);
+
+            expect(probabilities.a + probabilities.b).toBeCloseTo(1);
+            expect(probabilities.b).toBeGreaterThan(0.99);
+        });
+
+        it('is close to even for identical data', () => {
+            const probabilities = probabilityToBeBest([variant('a', 500, 25), variant('b', 500, 25)]);
+
+            expect(probabilities.a).toBeGreaterThan(0.4);
+            expect(probabilities.a).toBeLessThan(0.6);
+        });
+    });
+
+    describe('sequentialPValue', () => {
+        it('is small for a large, well-sampled difference', () => {
+            expect(sequentialPValue(variant('a', 5000, 500), variant('b', 5000, 350))).toBeLessThan(0.01);
+        });
+
+        it('is 1 without data and large for tiny samples', () => {
+            expect(sequentialPValue(variant('a', 0, 0), variant('b', 100, 10))).toBe(1);
+            expect(sequentialPValue(variant('a', 50, 6), variant('b', 50, 4))).toBeGreaterThan(0.5);
+        });
+    });
+
+    describe('requiredSampleSize', () => {
+        it('matches the textbook estimate for a 20% lift on a 10% CTR', () => {
+            const n = requiredSampleSize(0.1);
+
+            expect(n).toBeGreaterThan(3700);
+            expect(n).toBeLessThan(3900);
+        });
+
+        it('has no estimate without a baseline', () => {
+            expect(requiredSampleSize(0)).toBe(0);
+        });
+    });
+
+    describe('evaluateExperiment', () => {
+        it('waits for the minimum sample size', () => {
+            const evaluation = evaluateExperiment(testWith([variant('a', 90, 2), variant('b', 90, 30)]));
+
+            expect(evaluation.ready).toBe(false);
+            expect(evaluation.winnerId).toBeUndefined();
+            expect(evaluation.leaderId).toBe('b');
+        });
+
+        it('declares a Bayesian winner once probable enough', () => {
+            const evaluation = evaluateExperiment(testWith([variant('a', 2000, 100), variant('b', 2000, 160)]));
+
+            expect(evaluation.ready).toBe(true);
+            expect(evaluation.winnerId).toBe('b');
+            expect(evaluation.confidence).toBeGreaterThan(0.95);
+            expect(evaluation.improvement).toBe(60);
+        });
+
+        it('is stricter in sequential mode than the Bayesian default', () => {
+            const test = testWith([variant('a', 400, 40), variant('b', 400, 58)]);
+
+            expect(evaluateExperiment(test, { method: 'bayesian' }).winnerId).toBe('b');
+            expect(evaluateExperiment(test, { method: 'sequential' }).winnerId).toBeUndefined();
+        });
+
+        it('uses the test\'s own evaluation settings', () => {
+            const test = testWith([variant('a', 150, 10), variant('b', 150, 30)], { evaluation: { minImpressions: 200 } });
+
+            expect(evaluateExperiment(test).ready).toBe(false);
+        });
+
+        it('keeps determineWinner returning null without enough data', () => {
+            expect(determineWinner(testWith([variant('a', 10, 1), variant('b', 10, 2)]))).toBeNull();
+            expect(determineWinner(testWith([variant('a', 2000, 100), variant('b', 2000, 160)]))).toMatchObject({
+                winnerId: 'b',
+                improvement: 60,
+            });
+        });
+    });
+
+    describe('assignVariant', () => {
+        const test = testWith([variant('a', 0, 0), variant('b', 0, 0)]);
+
+        it('is sticky per visitor and spreads visitors over variants', () => {
+            const first = assignVariant(test, 'visitor-1');
+            expect(assignVariant(test, 'visitor-1')).toBe(first);
+
+            const counts: Record<string, number> = { a: 0, b: 0 };
+            for (let i = 0; i < 1000; i++) counts[assignVariant(test, `v${i}`)!.id]++;
+            expect(counts.a).toBeGreaterThan(400);
+            expect(counts.b).toBeGreaterThan(400);
+        });
+
+        it('serves the winner of completed tests and nothing for paused ones', () => {
+            expect(assignVariant({ ...test, status: 'completed', winnerId: 'b' }, 'x')?.id).toBe('b');
+            expect(assignVariant({ ...test, status: 'paused' }, 'x')).toBeNull();
+        });
+    });
+
+    describe('recordEvents', () => {
+        it('adds batched counts to one variant', () => {
+            const updated = recordEvents(testWith([variant('a', 10, 1), variant('b', 10, 1)]), 'a', { impressions: 5, clicks: 2 });
+
+            expect(updated.variants[0]).toMatchObject({ impressions: 15, clicks: 3 });
+            expect(updated.variants[1]).toMatchObject({ impressions: 10, clicks: 1 });
+        });
+
+        it('ignores non-numeric, negative and non-finite counts from payloads', () => {
+            const counts = { impressions: 'lots', clicks: -3, conversions: Infinity } as unknown as Parameters<typeof recordEvents>[2];
+            const updated = recordEvents(testWith([variant('a', 10, 1)]), 'a', counts);
+            const coerced = recordEvents(updated, 'a', { impressions: '4' as unknown as number });
+
+            expect(updated.variants[0]).toMatchObject({ impressions: 10, clicks: 1, conversions: 0 });
+            expect(coerced.variants[0].impressions).toBe(14);
+        });
+    });
+
+    describe('concludeExperiment', () => {
+        const decided = [variant('a', 2000, 100), variant('b', 2000, 160)];
+
+        it('completes the test and applies the winning title', async () => {
+            mockUpdatePost.mockResolvedValue({ success: true });
+
+            const { test } = await concludeExperiment(testWith(decided, { autoApply: true }), site);
+
+            expect(test).toMatchObject({ status: 'completed', winnerId: 'b' });
+            expect(test.appliedAt).toBeDefined();
+            expect(mockUpdatePost).toHaveBeenCalledWith(site, 42, { title: 'Title b' });
+        });
+
+        it('records apply failures without reopening the test', async () => {
+            mockUpdatePost.mockResolvedValue({ success: false, error: 'HTTP 401' });
+
+            const { test } = await concludeExperiment(testWith(decided, { autoApply: true }), site);
+
+            expect(test.status).toBe('completed');
+            expect(test.applyError).toBe('HTTP 401');
+        });
+
+        it('keeps autoApply tests running until the site is known', async () => {
+            const { test, evaluation } = await concludeExperiment(testWith(decided, { autoApply: true }));
+
+            expect(evaluation.winnerId).toBe('b');
+            expect(test.status).toBe('running');
+            expect(test.winnerId).toBeUndefined();
+            expect(mockUpdatePost).not.toHaveBeenCalled();
+        });
+
+        it('leaves the post alone without autoApply or a decision', async () => {
+            const manual = await concludeExperiment(testWith(decided, { autoApply: false }), site);
+            const undecided = await concludeExperiment(testWith([variant('a', 50, 5), variant('b', 50, 6)], { autoApply: true }), site);
+
+            expect(manual.test.status).toBe('completed');
+            expect(undecided.test.status).toBe('running');
+            expect(mockUpdatePost).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * Topical Cluster Planner Tests
+ * @jest-environment jsdom
+ */
+
+import {
+    allocateSpokeCategories,
+    planContentClusters,
+    materializeClusterPlan,
+    getDueManualItems,
+    resolvePlannedLinks,
+    injectPlannedLinks,
+} from '@/features/campaigns/lib/clusterPlanner';
+import type { AIConfig, Campaign, ManualSourceConfig } from '@/features/campaigns/model/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 5);
+
+const aiConfig = { provider: 'gemini', articleType: 'cluster', tone: 'professional', targetLength: 1500 } as unknown as AIConfig;
+
+describe('clusterPlanner', () => {
+    describe('allocateSpokeCategories', () => {
+        it('splits slots in proportion to the mix', () => {
+            const slots = allocateSpokeCategories({ tofu: 40, tactical: 40, seasonal: 20, pillar: 0, cluster: 0 }, 8);
+            const count = (c: string) => slots.filter(s => s === c).length;
+
+            expect(slots).toHaveLength(8);
+            expect(count('tofu')).toBe(3);
+            expect(count('tactical')).toBe(3);
+            expect(count('seasonal')).toBe(2);
+        });
+
+        it('interleaves categories and falls back to cluster for an empty mix', () => {
+            expect(allocateSpokeCategories({ tofu: 50, tactical: 50, seasonal: 0, pillar: 0, cluster: 0 }, 4))
+                .toEqual(['tofu', 'tactical', 'tofu', 'tactical']);
+            expect(allocateSpokeCategories({ tofu: 0, tactical: 0, seasonal: 0, pillar: 100, cluster: 0 }, 2))
+                .toEqual(['cluster', 'cluster']);
+        });
+    });
+
+    describe('planContentClusters', () => {
+        const plan = planContentClusters(['home espresso', 'pour over coffee'], {
+            relatedKeywords: [
+                'best home espresso machine',
+                'home espresso grind size',
+                'pour over coffee ratio',
+                'medieval castle architecture',
+            ],
+            spokesPerPillar: 4,
+            startDate: START,
+        });
+
+        it('creates one pillar per seed and groups related keywords under their seed', () => {
+            expect(plan.clusters).toHaveLength(2);
+            expect(plan.articles.filter(a => a.role === 'pillar').map(a => a.keyword))
+                .toEqual(['home espresso', 'pour over coffee']);
+
+            const espresso = plan.clusters[0];
+            const spokeKeywords = plan.articles.filter(a => a.clusterId === espresso.id && a.role === 'spoke').map(a => a.keyword);
+            expect(spokeKeywords).toEqual(expect.arrayContaining(['best home espresso machine', 'home espresso grind size']));
+            expect(plan.unassignedKeywords).toContain('medieval castle architecture');
+        });
+
+        it('sizes pillars longer than spokes and records intent', () => {
+            const pillar = plan.articles.find(a => a.role === 'pillar')!;
+            const spoke = plan.articles.find(a => a.keyword === 'best home espresso machine')!;
+
+            expect(pillar.title).toBe('Home Espresso: The Complete Guide');
+            expect(pillar.targetWordCount).toBeGreaterThan(spoke.targetWordCount);
+            expect(spoke.intent).toBe('commercial');
+        });
+
+        it('links the pillar to its spokes and each spoke back to the pillar and its neighbours', () => {
+            const cluster = plan.clusters[0];
+            const pillar = plan.articles.find(a => a.id === cluster.pillarId)!;
+            const [first, second] = cluster.spokeIds.map(id => plan.articles.find(a => a.id === id)!);
+
+            expect(pillar.linksTo).toEqual(cluster.spokeIds);
+            expect(first.linksTo).toEqual([pillar.id, second.id]);
+            expect(second.linksTo[0]).toBe(pillar.id);
+        });
+
+        it('schedules pillars first at the planned cadence and seasonal spokes with a lead', () => {
+            const byId = new Map(plan.articles.map(a => [a.id, a]));
+            const pillars = plan.clusters.map(c => byId.get(c.pillarId)!);
+            const firstSpoke = byId.get(plan.clusters[0].spokeIds[0])!;
+
+            expect(pillars[0].publishAt).toBe(START);
+            expect(pillars[1].publishAt).toBe(START + Math.round(7 * DAY / 3));
+            expect(firstSpoke.publishAt).toBeGreaterThan(pillars[1].publishAt);
+
+            for (const seasonal of plan.articles.filter(a => a.category === 'seasonal')) {
+                expect(seasonal.publishAt).toBeGreaterThanOrEqual(START + 60 * DAY);
+            }
+            expect(plan.articles.map(a => a.publishAt)).toEqual([...plan.articles.map(a => a.publishAt)].sort((a, b) => a - b));
+        });
+    });
+
+    describe('materializeClusterPlan', () => {
+        it('produces a manual campaign with one planned topic per article', () => {
+            const plan = planContentClusters(['home espresso'], { spokesPerPillar: 3, postsPerWeek: 2, startDate: START });
+            const campaign = materializeClusterPlan(plan, { name: 'Espresso', targetSiteId: 'site_1', aiConfig });
+            const config = campaign.source.config as ManualSourceConfig;
+
+            expect(campaign.source.type).toBe('manual');
+            expect(campaign.schedule).toMatchObject({ type: 'interval', intervalHours: 84, maxPostsPerRun: 1 });
+            expect(config.topics).toHaveLength(plan.articles.length);
+            expect(config.topics[0]).toMatchObject({ role: 'pillar', status: 'pending', publishAt: START });
+            expect(config.topics.every(t => t.linksTo && t.linksTo.length > 0)).toBe(true);
+        });
+    });
+
+    describe('pipeline helpers', () => {
+        const config: ManualSourceConfig = {
+            type: 'manual',
+            topics: [
+                { id: 'pillar', topic: 'Home Espresso: The Complete Guide', status: 'published', role: 'pillar', keyword: 'home espresso', postUrl: 'https://example.com/espresso/' },
+                { id: 'later', topic: 'Espresso Trends', status: 'pending', role: 'spoke', publishAt: START + 10 * DAY },
+                { id: 'due', topic: 'Espresso Grind Size', status: 'pending', role: 'spoke', publishAt: START - DAY, linksTo: ['pillar', 'later'], targetWordCount: 1200 },
+                { id: 'plain', topic: 'Unplanned topic', status: 'pending' },
+            ],
+        };
+        const campaign = { source: { type: 'manual', config } } as unknown as Campaign;
+
+        it('returns only pending topics that are due, with plan metadata', () => {
+            const items = getDueManualItems(config, START);
+
+            expect(items.map(i => i.id)).toEqual(['plain', 'due']);
+            expect(items[0].metadata).toBeUndefined();
+            expect(items[1].metadata).toMatchObject({ role: 'spoke', targetWordCount: 1200, linksTo: ['pillar', 'later'] });
+        });
+
+        it('resolves only planned targets that are already published', () => {
+            const [, item] = getDueManualItems(config, START);
+
+            expect(resolvePlannedLinks(campaign, item)).toEqual([
+                { title: 'Home Espresso: The Complete Guide', keyword: 'home espresso', url: 'https://example.com/espresso/' },
+            ]);
+        });
+
+        it('links the first natural mention and lists the rest as related reading', () => {
+            const targets = [
+                { title: 'Home Espresso: The Complete Guide', keyword: 'home espresso', url: 'https://example.com/espresso/' },
+                { title: 'Latte Art Basics', url: 'https://example.com/latte/' },
+            ];
+            const { content, linksAdded } = injectPlannedLinks('<p>Dialling in home espresso takes patience.</p>', targets);
+
+            expect(linksAdded).toBe(2);
+            expect(content).toContain('<a href="https://example.com/espresso/">home espresso</a>');
+            expect(content).toContain('Related reading:</strong> <a href="https://example.com/latte/">Latte Art Basics</a>');
+        });
+
+        it('skips targets the content already links to', () => {
+            const body = '<p>See <a href="https://example.com/espresso/">our guide</a>.</p>';
+
+            expect(injectPlannedLinks(body, [{ title: 'Guide', url: 'https://example.com/espresso/' }]))
+                .toEqual({ content: body, linksAdded: 0 });
+        });
+    });
+});
@@ -0,0 +1,254 @@
+/**
+ * Content Refresh Pipeline Tests
+ * @jest-environment jsdom
+ */
+
+jest.mock('zustand/middleware', () => ({
+    persist: <T>(fn: () => T) => fn,
+}));
+
+const mockGetPost = jest.fn();
+const mockUpdatePost = jest.fn();
+jest.mock('@/features/wordpress/api/wordpressApi', () => ({
+    getPost: (...args: unknown[]) => mockGetPost(...args),
+    updatePost: (...args: unknown[]) => mockUpdatePost(...args),
+}));
+
+const mockResearch = jest.fn();
+jest.mock('@/features/campaigns/lib/researchService', () => ({
+    performResearchRich: (...args: unknown[]) => mockResearch(...args),
+}));
+
+const mockGenerateContent = jest.fn();
+jest.mock('@/features/campaigns/lib/contentGenerator', () => ({
+    generateContent: (...args: unknown[]) => mockGenerateContent(...args),
+}));
+
+const mockMarkAsUpdated = jest.fn();
+jest.mock('@/lib/seo/contentFreshnessManager', () => ({
+    markAsUpdated: (...args: unknown[]) => mockMarkAsUpdated(...args),
+}));
+
+import {
+    splitSections,
+    findOutdatedSections,
+    refreshTitleYear,
+    stampModifiedDate,
+    collectInternalLinks,
+    parseFreshnessContentId,
+    runRefreshPipeline,
+    publishRefresh,
+} from '@/features/campaigns/lib/contentRefresh';
+import { diffParagraphs, useReviewStore } from '@/features/editorial';
+import type { Campaign } from '@/features/campaigns/model/types';
+import type { WPSite } from '@/features/wordpress';
+
+const site = { id: 'site_1', url: 'https://example.com', username: 'admin', appPassword: 'secret' } as WPSite;
+const campaign = {
+    id: 'camp_1',
+    name: 'Coffee',
+    aiConfig: { articleType: 'pillar', tone: 'friendly', targetLength: 1500, useResearch: true },
+} as unknown as Campaign;
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const POST_BODY = [
+    '<p>Espresso at home is easier than ever.</p>\n',
+    '<h2>Best Machines</h2>\n<p>In 2023 the best value pick was the Classic, see our <a href="https://example.com/grinders/">grinder guide</a>.</p>\n',
+    '<h2>Technique</h2>\n<p>Use a fine grind and a 1:2 ratio.</p>\n',
+].join('');
+
+function mockPost(body = POST_BODY) {
+    mockGetPost.mockResolvedValue({
+        success: true,
+        data: {
+            id: 42,
+            link: 'https://example.com/home-espresso/',
+            slug: 'home-espresso',
+            status: 'publish',
+            title: { rendered: 'Best Home Espresso Machines 2024' },
+            content: { rendered: body },
+        },
+    });
+}
+
+function mockSectionRewrite(html: string) {
+    global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, text: html }),
+    }) as unknown as typeof fetch;
+}
+
+describe('contentRefresh', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        useReviewStore.setState({ items: [] });
+        mockResearch.mockResolvedValue({ success: true, text: 'The Classic was replaced by the Classic Pro in 2025.' });
+    });
+
+    describe('helpers', () => {
+        it('splits at h2 headings and finds sections citing past years', () => {
+            const sections = splitSections(POST_BODY);
+
+            expect(sections.map(s => s.heading)).toEqual([undefined, 'Best Machines', 'Technique']);
+            expect(findOutdatedSections(sections, 2026)).toEqual([1]);
+            expect(findOutdatedSections(splitSections('<p>See <a href="/2019/post">this</a>.</p>'), 2026)).toEqual([]);
+        });
+
+        it('bumps only recent edition years in titles', () => {
+            expect(refreshTitleYear('Best Home Espresso Machines 2024', 2026)).toBe('Best Home Espresso Machines 2026');
+            expect(refreshTitleYear('What Changed Since 2008', 2026)).toBe('What Changed Since 2008');
+        });
+
+        it('stamps dateModified and the visible last-updated line', () => {
+            const withMarkers = '<p><strong>Last updated:</strong> May 1, 2024</p><script type="application/ld+json">{"dateModified": "2024-05-01"}</script>';
+            const stamped = stampModifiedDate(withMarkers, NOW);
+
+            expect(stamped).toContain('<strong>Last updated:</strong> March 1, 2026</p>');
+            expect(stamped).toContain(`"dateModified": "${NOW.toISOString()}"`);
+            expect(stampModifiedDate('<p>Body</p>', NOW)).toMatch(/^<p class="last-updated"><em>Last updated: March 1, 2026<\/em><\/p>/);
+        });
+
+        it('collects internal links only and parses freshness IDs', () => {
+            const links = collectInternalLinks(
+                '<a href="https://example.com/a/">Guide A</a> <a href="https://other.com/">Elsewhere</a> <a href="/b/">Guide B</a>',
+                site.url
+            );
+
+            expect(links.map(l => l.url)).toEqual(['https://example.com/a/', '/b/']);
+            expect(parseFreshnessContentId('wp:site_1:42')).toEqual({ siteId: 'site_1', postId: 42 });
+            expect(parseFreshnessContentId('article-7')).toBeNull();
+        });
+
+        it('diffs paragraphs by text', () => {
+            const diff = diffParagraphs('<p>One</p><p>Two</p><p>Three</p>', '<p>One</p><p>Two, updated</p><p>Three</p><p>Four</p>');
+
+            expect(diff).toMatchObject({ added: 2, removed: 1, unchanged: 2 });
+            expect(diff.changes.map(c => c.type)).toEqual(['unchanged', 'added', 'removed', 'unchanged', 'added']);
+        });
+    });
+
+    describe('runRefreshPipeline', () => {
+        it('patches outdated sections, restores dropped links and queues the diff for review', async () => {
+            mockPost();
+            mockSectionRewrite('<h2>Best Machines</h2>\n<p>In 2026 the best value pick is the Classic Pro.</p>');
+
+            const result = await runRefreshPipeline({ site, postId: 42, action: 'minor_update', campaign, now: NOW });
+
+            expect(result.status).toBe('pending_review');
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+
+            const item = result.reviewItem!;
+            expect(item.title).toBe('Best Home Espresso Machines 2026');
+            expect(item.slug).toBe('home-espresso');
+            expect(item.content).toContain('Classic Pro');
+            expect(item.content).toContain('Use a fine grind');
+            expect(item.content).toContain('href="https://example.com/grinders/"');
+            expect(item.content).toContain('Last updated: March 1, 2026');
+            expect(item.refresh).toMatchObject({
+                postId: 42,
+                action: 'minor_update',
+                refreshedSections: ['Best Machines'],
+                preservedLinks: 1,
+            });
+            expect(item.refresh!.before.content).toBe(POST_BODY);
+            expect(item.refresh!.diff.removed).toBeGreaterThan(0);
+            expect(useReviewStore.getState().items).toHaveLength(1);
+            expect(mockUpdatePost).not.toHaveBeenCalled();
+        });
+
+        it('regenerates the whole body for a major rewrite', async () => {
+            mockPost();
+            mockGenerateContent.mockResolvedValue({ title: 'New', body: '<h2>Basics</h2><p>Start with our grinder guide before buying.</p>', excerpt: '', slug: 'new' });
+
+            const result = await runRefreshPipeline({ site, postId: 42, action: 'major_rewrite', campaign, now: NOW });
+
+            expect(mockGenerateContent).toHaveBeenCalled();
+            expect(result.reviewItem!.slug).toBe('home-espresso');
+            expect(result.reviewItem!.content).toContain('our <a href="https://example.com/grinders/">grinder guide</a> before');
+        });
+
+        it('only restamps the date when republishing, and skips other actions', async () => {
+            mockPost();
+            global.fetch = jest.fn() as unknown as typeof fetch;
+
+            const republished = await runRefreshPipeline({ site, postId: 42, action: 'republish', campaign, now: NOW });
+            const archived = await runRefreshPipeline({ site, postId: 42, action: 'archive', campaign, now: NOW });
+
+            expect(global.fetch).not.toHaveBeenCalled();
+            expect(mockResearch).not.toHaveBeenCalled();
+            expect(republished.reviewItem!.refresh!.diff.added).toBe(1);
+            expect(archived.status).toBe('skipped');
+        });
+
+        it('refreshes the raw post so blocks, shortcodes and entities survive republishing', async () => {
+            const raw = '<!-- wp:paragraph -->\n<p>Grinders compared.</p>\n<!-- /wp:paragraph -->\n[gallery ids="1,2"]\n';
+            mockGetPost.mockResolvedValue({
+                success: true,
+                data: {
+                    id: 42,
+                    link: 'https://example.com/home-espresso/',
+                    slug: 'home-espresso',
+                    status: 'publish',
+                    title: { raw: 'Tips & Tricks 2024', rendered: 'Tips &#038; Tricks 2024' },
+                    content: { raw, rendered: '<p>Grinders compared.</p>\n<div class="gallery"><img src="/1.jpg"></div>\n' },
+                },
+            });
+            mockUpdatePost.mockResolvedValue({ success: true });
+
+            const { reviewItem } = await runRefreshPipeline({ site, postId: 42, action: 'republish', campaign, now: NOW });
+            useReviewStore.getState().submitDecision(reviewItem!.id, { status: 'approved' });
+            await publishRefresh(useReviewStore.getState().getReviewItem(reviewItem!.id)!, site, NOW);
+
+            expect(mockGetPost).toHaveBeenCalledWith(site, 42, 'edit');
+            expect(reviewItem!.refresh!.before.content).toBe(raw);
+            const [, , updates] = mockUpdatePost.mock.calls[0];
+            expect(updates.title).toBe('Tips & Tricks 2026');
+            expect(updates.content).toContain(raw);
+            expect(updates.content).not.toContain('class="gallery"');
+        });
+
+        it('fails cleanly when the post cannot be fetched', async () => {
+            mockGetPost.mockResolvedValue({ success: false, error: 'HTTP 404' });
+
+            const result = await runRefreshPipeline({ site, postId: 99, action: 'minor_update', campaign, now: NOW });
+
+            expect(result).toMatchObject({ success: false, status: 'failed' });
+            expect(result.error).toContain('HTTP 404');
+        });
+    });
+
+    describe('publishRefresh', () => {
+        it('republishes approved refreshes without touching slug or author', async () => {
+            mockPost();
+            mockSectionRewrite('<h2>Best Machines</h2>\n<p>Updated.</p>');
+            mockUpdatePost.mockResolvedValue({ success: true });
+
+            const { reviewItem } = await runRefreshPipeline({ site, postId: 42, action: 'minor_update', campaign, now: NOW });
+            expect((await publishRefresh(reviewItem!, site, NOW)).success).toBe(false);
+
+            useReviewStore.getState().submitDecision(reviewItem!.id, { status: 'approved' });
+            const approved = useReviewStore.getState().getReviewItem(reviewItem!.id)!;
+            const result = await publishRefresh(approved, site, NOW);
+
+            expect(result.success).toBe(true);
+            const [, postId, updates] = mockUpdatePost.mock.calls[0];
+            expect(postId).toBe(42);
+            expect(Object.keys(updates).sort()).toEqual(['content', 'title']);
+            expect(useReviewStore.getState().getReviewItem(reviewItem!.id)!.refresh!.republishedAt).toBe(NOW.getTime());
+            expect(mockMarkAsUpdated).toHaveBeenCalledWith('wp:site_1:42');
+        });
+
+        it('records republish failures on the review item', async () => {
+            mockPost();
+            mockSectionRewrite('<h2>Best Machines</h2>\n<p>Updated.</p>');
+            mockUpdatePost.mockResolvedValue({ success: false, error: 'HTTP 401' });
+
+            const { reviewItem } = await runRefreshPipeline({ site, postId: 42, action: 'minor_update', campaign, now: NOW });
+            useReviewStore.getState().submitDecision(reviewItem!.id, { status: 'approved' });
+            const result = await publishRefresh(useReviewStore.getState().getReviewItem(reviewItem!.id)!, site, NOW);
+
+            expect(result).toEqual({ success: false, error: 'HTTP 401' });
+            expect(useReviewStore.getState().getReviewItem(reviewItem!.id)!.refresh!.republishError).toBe('HTTP 401');
+        });
+    });
+});
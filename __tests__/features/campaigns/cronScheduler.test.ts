@@ -0,0 +1,163 @@
+/**
+ * Cron Scheduler Tests
+ * Cron parsing, time zones / DST, missed-window policy and post caps
+ */
+
+import {
+    parseCronExpression,
+    getNextCronRun,
+    evaluateSchedule,
+    computePostAllowance,
+    countSitePostsSince,
+    validateSchedule,
+} from '@/features/campaigns/lib/scheduler';
+import type { CampaignRun, ScheduleConfig } from '@/features/campaigns/model/types';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('Cron Scheduler', () => {
+    describe('parseCronExpression', () => {
+        it('should parse steps, ranges and names', () => {
+            const cron = parseCronExpression('*/15 9-17 * * mon-fri');
+            expect(cron.minutes).toEqual([0, 15, 30, 45]);
+            expect(cron.hours).toHaveLength(9);
+            expect(cron.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+        });
+
+        it('should expand macros and normalize Sunday', () => {
+            expect(parseCronExpression('@daily').minutes).toEqual([0]);
+            expect(parseCronExpression('0 0 * * 7').daysOfWeek).toEqual([0]);
+        });
+
+        it('should reject malformed expressions', () => {
+            expect(() => parseCronExpression('61 * * * *')).toThrow(/minute/);
+            expect(() => parseCronExpression('* * *')).toThrow(/5 fields/);
+            expect(() => parseCronExpression('0 0 * * 5-1')).toThrow(/reversed/);
+        });
+    });
+
+    describe('getNextCronRun', () => {
+        it('should find the next window in UTC', () => {
+            expect(getNextCronRun('*/15 * * * *', at('2024-01-01T09:07:30Z')))
+                .toBe(at('2024-01-01T09:15:00Z'));
+        });
+
+        it('should evaluate the expression in the given time zone', () => {
+            expect(getNextCronRun('0 9 * * *', at('2024-01-15T00:00:00Z'), 'America/New_York'))
+                .toBe(at('2024-01-15T14:00:00Z'));
+            expect(getNextCronRun('0 9 * * *', at('2024-07-15T00:00:00Z'), 'America/New_York'))
+                .toBe(at('2024-07-15T13:00:00Z'));
+        });
+
+        it('should shift windows in the spring-forward gap past the transition', () => {
+            expect(getNextCronRun('30 2 * * *', at('2024-03-10T05:00:00Z'), 'America/New_York'))
+                .toBe(at('2024-03-10T07:30:00Z'));
+        });
+
+        it('should run a window in the repeated fall-back hour once', () => {
+            const first = getNextCronRun('30 1 * * *', at('2024-11-03T04:00:00Z'), 'America/New_York');
+            expect(first).toBe(at('2024-11-03T05:30:00Z'));
+            expect(getNextCronRun('30 1 * * *', first, 'America/New_York')).toBe(at('2024-11-04T06:30:00Z'));
+        });
+
+        it('should match either day field when both are restricted', () => {
+            expect(getNextCronRun('0 0 13 * 5', at('2024-09-01T00:00:00Z')))
+                .toBe(at('2024-09-06T00:00:00Z'));
+        });
+    });
+
+    describe('evaluateSchedule', () => {
+        const now = at('2024-05-01T12:00:00Z');
+        const cron = (overrides: Partial<ScheduleConfig>): ScheduleConfig => ({
+            type: 'cron',
+            cronExpression: '0 * * * *',
+            maxPostsPerRun: 2,
+            pauseOnError: true,
+            ...overrides,
+        });
+        const campaign = (schedule: ScheduleConfig) => ({ status: 'active' as const, schedule, createdAt: 0 });
+
+        it('should not run before the next window', () => {
+            const decision = evaluateSchedule(campaign(cron({ nextRunAt: now + 1000 })), now);
+            expect(decision).toMatchObject({ due: false, reason: 'not_due', nextRunAt: now + 1000 });
+        });
+
+        it('should catch up missed windows up to the limit', () => {
+            const decision = evaluateSchedule(campaign(cron({
+                nextRunAt: at('2024-05-01T07:00:00Z'),
+                missedRunPolicy: 'catch_up',
+                maxCatchUpRuns: 3,
+            })), now);
+
+            expect(decision).toMatchObject({ due: true, runs: 3, missedWindows: 6, skippedWindows: 3 });
+            expect(decision.nextRunAt).toBe(at('2024-05-01T13:00:00Z'));
+        });
+
+        it('should skip windows older than the grace period', () => {
+            const decision = evaluateSchedule(campaign(cron({
+                cronExpression: '0 9 * * *',
+                nextRunAt: at('2024-05-01T09:00:00Z'),
+                missedRunPolicy: 'skip',
+            })), now);
+
+            expect(decision).toMatchObject({ due: false, reason: 'missed_window_skipped', skippedWindows: 1 });
+            expect(decision.nextRunAt).toBe(at('2024-05-02T09:00:00Z'));
+        });
+
+        it('should still run a slightly late window under the skip policy', () => {
+            const decision = evaluateSchedule(campaign(cron({
+                nextRunAt: at('2024-05-01T11:00:00Z'),
+                missedRunPolicy: 'skip',
+            })), now + 10 * 60 * 1000);
+
+            expect(decision).toMatchObject({ due: true, runs: 1, missedWindows: 2, skippedWindows: 1 });
+        });
+
+        it('should report invalid cron schedules instead of throwing', () => {
+            const decision = evaluateSchedule(campaign(cron({ cronExpression: 'every day' })), now);
+            expect(decision.reason).toBe('invalid_schedule');
+            expect(validateSchedule(cron({ timezone: 'Mars/Olympus' })).errors).toContain('Unknown time zone: Mars/Olympus');
+        });
+
+        it('should keep never-run interval campaigns due immediately', () => {
+            const decision = evaluateSchedule(campaign({ type: 'interval', intervalHours: 6, maxPostsPerRun: 1, pauseOnError: true }), now);
+            expect(decision).toMatchObject({ due: true, runs: 1, nextRunAt: now + 6 * 60 * 60 * 1000 });
+        });
+    });
+
+    describe('post caps', () => {
+        const schedule: ScheduleConfig = { type: 'cron', maxPostsPerRun: 2, maxPostsPerSitePerDay: 5, pauseOnError: true };
+
+        it('should allow maxPostsPerRun per executed window', () => {
+            expect(computePostAllowance({ schedule, runs: 2, availableItems: 10, sitePostsToday: 0 }))
+                .toEqual({ allowed: 4, limitedBy: 'maxPostsPerRun' });
+        });
+
+        it('should stop at the site daily cap', () => {
+            expect(computePostAllowance({ schedule, runs: 2, availableItems: 10, sitePostsToday: 4 }))
+                .toEqual({ allowed: 1, limitedBy: 'siteDailyCap' });
+            expect(computePostAllowance({ schedule, runs: 1, availableItems: 10, sitePostsToday: 7 }).allowed).toBe(0);
+        });
+
+        it('should count published posts for the site campaigns only', () => {
+            const run = (campaignId: string, completedAt: number): CampaignRun => ({
+                id: `run_${campaignId}_${completedAt}`,
+                campaignId,
+                startedAt: completedAt,
+                status: 'completed',
+                postsGenerated: 2,
+                postsPublished: 1,
+                errors: [],
+                items: [
+                    { id: 'a', topic: 'A', status: 'done', wpPostId: 1, startedAt: completedAt, completedAt },
+                    { id: 'b', topic: 'B', status: 'failed', startedAt: completedAt },
+                ],
+            });
+
+            const since = at('2024-05-01T00:00:00Z');
+            const runs = [run('c1', since + 1000), run('c2', since + 2000), run('c1', since - 1000), run('other', since + 1000)];
+
+            expect(countSitePostsSince(runs, ['c1', 'c2'], since)).toBe(2);
+        });
+    });
+});
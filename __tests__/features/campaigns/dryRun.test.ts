@@ -0,0 +1,195 @@
+/**
+ * Pipeline Dry-Run Tests
+ * Preview report building and JSON-LD extraction
+ */
+
+jest.mock('@/features/editorial/lib/smartReview', () => ({
+    ...jest.requireActual('@/features/editorial/lib/smartReview'),
+    makeAutoReviewDecision: jest.fn(),
+}));
+
+jest.mock('@/features/campaigns/lib/imageGenerator', () => ({
+    generateImagesEnhanced: jest.fn(async () => ({
+        cover: { url: 'https://img.example.com/cover.jpg', alt: 'Cover' },
+        inline: [],
+        allAssets: [],
+        metadata: { totalCollected: 1, sourceCounts: { ai: 1 }, aiSuccess: true, searchSuccess: false },
+    })),
+}));
+
+jest.mock('@/features/campaigns/lib/mediaAssetLibrary', () => ({
+    ...jest.requireActual('@/features/campaigns/lib/mediaAssetLibrary'),
+    persistPipelineAssets: jest.fn(),
+}));
+
+import { buildDryRunReport, extractSchemaBlocks } from '@/features/campaigns/lib/pipeline/dryRun';
+import { enhancementStages } from '@/features/campaigns/lib/pipeline/stages/04-enhancement';
+import { qualityStages } from '@/features/campaigns/lib/pipeline/stages/05-quality';
+import { publishStages } from '@/features/campaigns/lib/pipeline/stages/07-publish';
+import { persistPipelineAssets } from '@/features/campaigns/lib/mediaAssetLibrary';
+import { makeAutoReviewDecision, useReviewStore } from '@/features/editorial';
+import type { Campaign, PipelineContext } from '@/features/campaigns/model/types';
+import type { WPSite } from '@/features/wordpress';
+
+describe('Pipeline Dry-Run', () => {
+    const campaign = { id: 'camp_1' } as Campaign;
+    const sourceItem = { id: 'item_1', topic: 'best trail shoes', sourceType: 'keywords' as const };
+
+    describe('extractSchemaBlocks', () => {
+        it('should split JSON-LD out of the body', () => {
+            const html = '<p>Intro</p><script type="application/ld+json">{"@type":"Article"}</script>';
+            const result = extractSchemaBlocks(html);
+
+            expect(result.html).toBe('<p>Intro</p>');
+            expect(result.schema).toEqual([{ '@type': 'Article' }]);
+        });
+
+        it('should drop malformed blocks without throwing', () => {
+            const html = '<p>A</p><script type="application/ld+json">{broken</script>';
+            expect(extractSchemaBlocks(html)).toEqual({ html: '<p>A</p>', schema: [] });
+        });
+    });
+
+    describe('buildDryRunReport', () => {
+        it('should collect content, intents and compliance from the context', () => {
+            const ctx: PipelineContext = {
+                campaign,
+                sourceItem,
+                status: 'done',
+                dryRun: true,
+                content: { title: 'Trail Shoes', body: '<p>one two three</p>', excerpt: 'E', slug: 'trail-shoes' },
+                complianceReport: { score: 90, isCompliant: true, issues: [] },
+                dryRunIntents: [
+                    { stageId: 'publish_wp', action: 'publish_post', target: 'https://example.com', summary: 'Publish' },
+                ],
+            };
+
+            const report = buildDryRunReport(ctx, { campaign, sourceItem, stages: {}, startedAt: Date.now() });
+
+            expect(report.status).toBe('done');
+            expect(report.content?.wordCount).toBe(3);
+            expect(report.compliance?.score).toBe(90);
+            expect(report.intents).toHaveLength(1);
+        });
+
+        it('should report a failure when the pipeline threw', () => {
+            const report = buildDryRunReport(null, {
+                campaign, sourceItem, stages: {}, startedAt: Date.now(), error: 'Invalid pipeline definition',
+            });
+
+            expect(report.status).toBe('failed');
+            expect(report.error).toBe('Invalid pipeline definition');
+            expect(report.intents).toEqual([]);
+        });
+    });
+
+    describe('smart_review preview', () => {
+        const stage = qualityStages.stages.find(s => s.id === 'smart_review')!;
+        const reviewCampaign = {
+            id: 'camp_1',
+            targetSiteId: 'site_1',
+            postStatus: 'publish',
+            aiConfig: { qualityGateEnabled: true },
+        } as unknown as Campaign;
+        const wpSite = { id: 'site_1', url: 'https://example.com' } as WPSite;
+
+        const makeContext = (): PipelineContext => ({
+            campaign: reviewCampaign,
+            sourceItem,
+            status: 'generating',
+            dryRun: true,
+            content: { title: 'Trail Shoes', body: '<p>Trail shoes grip wet rock.</p>', excerpt: '', slug: 'trail-shoes' },
+            qualityScore: { eeat: 65, experience: 60, expertise: 60, authoritativeness: 60, trustworthiness: 60 },
+        });
+
+        const decide = (action: 'approve' | 'flag' | 'retry') => {
+            (makeAutoReviewDecision as jest.Mock).mockReturnValue({
+                action,
+                confidence: 70,
+                reasons: [`Decided ${action}`],
+                adjustments: [],
+                shouldRetryGeneration: action === 'retry',
+            });
+        };
+
+        beforeEach(() => {
+            useReviewStore.setState({ items: [] });
+        });
+
+        it('should predict a draft for flagged content without queueing a review', async () => {
+            decide('flag');
+            const ctx = makeContext();
+
+            const [intent] = await stage.dryRun!(ctx, reviewCampaign, wpSite);
+
+            expect(ctx.needsManualReview).toBe(true);
+            expect(ctx.reviewItemId).toBeUndefined();
+            expect(intent.payload).toMatchObject({ decision: 'flag', needsManualReview: true, postStatus: 'draft' });
+            expect(useReviewStore.getState().items).toEqual([]);
+
+            const [publishIntent] = await publishStages.stages[0].dryRun!(ctx, reviewCampaign, wpSite);
+            expect(publishIntent.payload?.status).toBe('draft');
+        });
+
+        it('should predict the campaign status for approved content', async () => {
+            decide('approve');
+            const processAutoApproval = jest.spyOn(useReviewStore.getState(), 'processAutoApproval');
+            const ctx = makeContext();
+
+            const [intent] = await stage.dryRun!(ctx, reviewCampaign, wpSite);
+
+            expect(ctx.autoApproved).toBe(true);
+            expect(ctx.needsManualReview).toBe(false);
+            expect(intent.payload).toMatchObject({ decision: 'approve', postStatus: 'publish' });
+            expect(processAutoApproval).not.toHaveBeenCalled();
+            expect(useReviewStore.getState().items).toEqual([]);
+        });
+
+        it('should fail the preview like a real run when quality is too low', async () => {
+            decide('retry');
+
+            await expect(stage.dryRun!(makeContext(), reviewCampaign, wpSite)).rejects.toThrow('Quality too low: Decided retry');
+            expect(useReviewStore.getState().items).toEqual([]);
+        });
+    });
+
+    describe('publish-dependent stages', () => {
+        const seoCampaign = {
+            id: 'camp_1',
+            aiConfig: { optimizeForSEO: true, includeImages: true },
+        } as unknown as Campaign;
+
+        const makeContext = (dryRun: boolean): PipelineContext => ({
+            campaign: seoCampaign,
+            sourceItem,
+            status: 'generating',
+            dryRun,
+            content: { title: 'Trail Shoes', body: '<p>Trail shoes grip wet rock.</p>', excerpt: '', slug: 'trail-shoes' },
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should preview backlinks before the post exists', () => {
+            const backlinks = publishStages.stages.find(s => s.id === 'backlinks')!;
+
+            expect(backlinks.condition!(makeContext(true), seoCampaign)).toBe(true);
+            expect(backlinks.condition!(makeContext(false), seoCampaign)).toBe(false);
+        });
+
+        it('should keep preview images out of the asset library', async () => {
+            jest.spyOn(console, 'log').mockImplementation(() => {});
+            const images = enhancementStages.stages.find(s => s.id === 'images')!;
+            const ctx = makeContext(true);
+
+            await images.execute(ctx, seoCampaign, {} as WPSite);
+
+            expect(ctx.images?.cover?.url).toBe('https://img.example.com/cover.jpg');
+            expect(persistPipelineAssets).not.toHaveBeenCalled();
+
+            await images.execute(makeContext(false), seoCampaign, {} as WPSite);
+            expect(persistPipelineAssets).toHaveBeenCalledTimes(1);
+        });
+    });
+});
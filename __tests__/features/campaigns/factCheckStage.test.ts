@@ -0,0 +1,191 @@
+/**
+ * Claim-Level Fact Check Tests
+ * @jest-environment jsdom
+ */
+
+jest.mock('zustand/middleware', () => ({
+    persist: <T>(fn: () => T) => fn,
+}));
+
+import {
+    extractAtomicClaims,
+    buildEvidencePassages,
+    verifyClaims,
+    applyClaimRepairs,
+} from '@/lib/contentQuality';
+import { runClaimFactCheck } from '@/features/campaigns/lib/factCheckStage';
+import { createReviewItemFromContext } from '@/features/campaigns/lib/qualityScoreStage';
+import { useReviewStore } from '@/features/editorial';
+import { getDefaultPipelineDefinition, resolvePipeline } from '@/features/campaigns/lib/pipeline/composition';
+import type { Campaign, PipelineContext } from '@/features/campaigns/model/types';
+import type { WPSite } from '@/features/wordpress';
+
+const RESEARCH = {
+    text: 'A 2024 survey found that 62% of home baristas use a burr grinder.[1] Espresso machines need at least 9 bars of pressure to brew properly.[2] Descaling every month prevents limescale buildup.[2]',
+    citations: ['https://coffee-survey.org/2024', 'https://espresso-science.edu/pressure'],
+};
+
+const BODY = [
+    '<h2>Gear</h2>',
+    '<p>Most people start with a blade grinder. A 2024 survey found that <strong>62%</strong> of home baristas use a burr grinder.</p>',
+    '<p>Espresso machines need at least 15 bars of pressure to brew properly. Pick one you like.</p>',
+    '<p>According to research, cold brew cures insomnia in adults.</p>',
+].join('\n');
+
+const campaign = { id: 'camp_1', targetSiteId: 'site_1', aiConfig: { provider: 'gemini', factCheckClaims: true } } as unknown as Campaign;
+
+function makeContext(body = BODY): PipelineContext {
+    return {
+        campaign,
+        sourceItem: { id: 'item_1', topic: 'home espresso', sourceType: 'keywords' },
+        research: { ...RESEARCH },
+        content: { title: 'Home Espresso Guide', body, excerpt: '', slug: 'home-espresso' },
+        status: 'generating',
+    };
+}
+
+function mockRewrite(response: { ok: boolean; text?: string }) {
+    global.fetch = jest.fn().mockResolvedValue({
+        ok: response.ok,
+        json: async () => ({ success: !!response.text, text: response.text }),
+    }) as unknown as typeof fetch;
+}
+
+describe('claim verification', () => {
+    it('extracts sentence-level claims and ignores plain prose', () => {
+        const claims = extractAtomicClaims(BODY);
+
+        expect(claims.map(c => c.text)).toEqual([
+            'A 2024 survey found that 62% of home baristas use a burr grinder.',
+            'Espresso machines need at least 15 bars of pressure to brew properly.',
+            'According to research, cold brew cures insomnia in adults.',
+        ]);
+        expect(claims.every(c => !c.hasCitation)).toBe(true);
+    });
+
+    it('attributes research sentences to their citation markers', () => {
+        const passages = buildEvidencePassages(RESEARCH.text, RESEARCH.citations);
+
+        expect(passages).toHaveLength(3);
+        expect(passages[0]).toEqual({
+            text: 'A 2024 survey found that 62% of home baristas use a burr grinder.',
+            sourceUrl: 'https://coffee-survey.org/2024',
+            sourceIndex: 1,
+        });
+        expect(passages[2].sourceIndex).toBe(2);
+    });
+
+    it('labels claims supported, contradicted on conflicting numbers, or unverifiable', () => {
+        const checks = verifyClaims(BODY, RESEARCH);
+
+        expect(checks.map(c => c.verdict)).toEqual(['supported', 'contradicted', 'unverifiable']);
+        expect(checks[1].reason).toContain('9');
+        expect(checks[1].evidence?.sourceUrl).toBe('https://espresso-science.edu/pressure');
+    });
+
+    it('flags a negated claim the research states positively', () => {
+        const [check] = verifyClaims(
+            '<p>Descaling every month does not prevent limescale buildup.</p>',
+            RESEARCH
+        );
+
+        expect(check.verdict).toBe('contradicted');
+    });
+
+    it('cites supported claims, rewrites or removes contradicted ones', () => {
+        const checks = verifyClaims(BODY, RESEARCH);
+        const rewritten = applyClaimRepairs(BODY, checks.map(c =>
+            c.verdict === 'contradicted' ? { ...c, revisedText: 'Espresso machines need at least 9 bars of pressure.' } : c
+        ));
+
+        expect(rewritten.content).toContain('<strong>62%</strong> of home baristas use a burr grinder.<sup class="claim-citation"><a href="https://coffee-survey.org/2024"');
+        expect(rewritten.content).toContain('<p>Espresso machines need at least 9 bars of pressure. Pick one you like.</p>');
+        expect(rewritten.checks.map(c => c.resolution)).toEqual(['cited', 'rewritten', 'kept']);
+
+        const removed = applyClaimRepairs(BODY, checks);
+        expect(removed.content).toContain('<p>Pick one you like.</p>');
+        expect(removed.checks[1].resolution).toBe('removed');
+    });
+
+    it('does not add citations to paragraphs that already link a source', () => {
+        const body = '<p>A 2024 survey found that 62% of home baristas use a burr grinder (<a href="https://example.org/s">source</a>).</p>';
+        const { content, checks } = applyClaimRepairs(body, verifyClaims(body, RESEARCH));
+
+        expect(checks[0]).toMatchObject({ verdict: 'supported', hadCitation: true, resolution: 'kept' });
+        expect(content).toBe(body);
+    });
+});
+
+describe('runClaimFactCheck', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        useReviewStore.setState({ items: [] });
+    });
+
+    it('repairs the body, records the report and attaches it to the review item', async () => {
+        mockRewrite({ ok: true, text: '"Espresso machines need at least 9 bars of pressure to brew properly."' });
+        const ctx = makeContext();
+
+        const report = await runClaimFactCheck(ctx, campaign);
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(report).toMatchObject({ supported: 1, contradicted: 1, unverifiable: 1, citationsAdded: 1, rewritten: 1, removed: 0, passagesSearched: 3 });
+        expect(ctx.content!.body).toContain('at least 9 bars');
+        expect(ctx.content!.body).not.toContain('15 bars');
+        expect(ctx.factCheckReport).toBe(report);
+
+        const item = useReviewStore.getState().createReviewItem(createReviewItemFromContext(ctx));
+        expect(item.claimChecks?.checks).toHaveLength(3);
+    });
+
+    it('removes contradicted claims when the rewrite fails and blocks auto-approval', async () => {
+        mockRewrite({ ok: false });
+        const ctx = makeContext();
+
+        const report = await runClaimFactCheck(ctx, campaign);
+
+        expect(report!.removed).toBe(1);
+        expect(ctx.content!.body).not.toContain('bars of pressure');
+
+        useReviewStore.setState({
+            policy: { ...useReviewStore.getState().policy, autoApproveAboveScore: 0, autoApproveRequiresCitations: false },
+        });
+        const item = useReviewStore.getState().createReviewItem(createReviewItemFromContext(ctx));
+        expect(item.autoApprovalEligible).toBe(false);
+        expect(item.autoApprovalBlocked).toBe('1 contradicted claim(s) removed by fact check');
+    });
+
+    it('skips content without research', async () => {
+        const ctx = { ...makeContext(), research: undefined };
+
+        expect(await runClaimFactCheck(ctx, campaign)).toBeNull();
+        expect(ctx.factCheckReport).toBeUndefined();
+    });
+});
+
+describe('fact_check stage in saved pipelines', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        useReviewStore.setState({ items: [] });
+    });
+
+    it('runs for a campaign whose pipeline was saved before the stage existed', async () => {
+        const saved = getDefaultPipelineDefinition();
+        const savedQuality = saved.groups.find(g => g.id === 'quality')!;
+        savedQuality.stages = savedQuality.stages.filter(s => s.id !== 'fact_check');
+
+        const quality = resolvePipeline({ pipeline: saved }).find(g => g.id === 'quality')!;
+        const stage = quality.stages.find(s => s.id === 'fact_check');
+        expect(quality.stages[0].id).toBe('fact_check');
+
+        mockRewrite({ ok: true, text: '"Espresso machines need at least 9 bars of pressure to brew properly."' });
+        const ctx = makeContext();
+        const savedCampaign = { ...campaign, pipeline: saved };
+
+        expect(stage!.condition!(ctx, savedCampaign)).toBe(true);
+        await stage!.execute(ctx, savedCampaign, {} as WPSite);
+
+        expect(ctx.factCheckReport).toMatchObject({ contradicted: 1, rewritten: 1 });
+        expect(ctx.content!.body).toContain('at least 9 bars');
+    });
+});
@@ -0,0 +1,48 @@
+/**
+ * Keyword Opportunity Source Tests
+ * Trend matching and ranking a keyword source before a run
+ */
+
+import { rankKeywordSourceItems, trendSignalsFor } from '@/features/campaigns/lib/keywordOpportunity';
+import type { KeywordSourceConfig } from '@/features/campaigns/model/types';
+
+const NOW = Date.UTC(2026, 9, 1, 12);
+
+describe('trendSignalsFor', () => {
+    it('should borrow volume and freshness from matching trending topics', () => {
+        const signals = trendSignalsFor(['Home Insurance Quotes', 'crochet blanket ideas'], [
+            { title: 'Storm season', relatedQueries: ['home insurance quotes'], searchVolume: '100K+', publishedAt: NOW - 5 * 3_600_000 },
+            { title: 'Election results' },
+        ], NOW);
+
+        expect(signals).toEqual({ 'home insurance quotes': { searchVolume: 75, freshness: 90 } });
+    });
+});
+
+describe('rankKeywordSourceItems', () => {
+    const config: KeywordSourceConfig = {
+        type: 'keywords',
+        keywords: ['crochet blanket ideas', 'home insurance quotes', 'best credit card rewards'],
+        rotateMode: 'opportunity',
+        currentIndex: 0,
+        skipUsed: false,
+    };
+
+    it('should order source items by opportunity and attach the selection reason', () => {
+        const items = rankKeywordSourceItems(config, {});
+        const scores = items.map(item => item.metadata!.opportunityScore as number);
+
+        expect(items).toHaveLength(3);
+        expect(scores).toEqual([...scores].sort((a, b) => b - a));
+        expect(items[0].sourceType).toBe('keywords');
+        expect(items[0].metadata!.selectionReason).toMatch(/^Opportunity \d+\/100, rank 1 of 3: CPC/);
+    });
+
+    it('should drop keywords the site already covers when skipping used keywords', () => {
+        const context = { coverage: [{ title: 'Crochet blanket ideas', topic: 'crochet blanket ideas' }] };
+
+        expect(rankKeywordSourceItems(config, context).map(i => i.topic)).toContain('crochet blanket ideas');
+        expect(rankKeywordSourceItems({ ...config, skipUsed: true }, context).map(i => i.topic))
+            .not.toContain('crochet blanket ideas');
+    });
+});
@@ -13,6 +13,8 @@ import {
     toggleKeyword,
     resetRotator,
     getRotatorStats,
+    rankKeywordsByOpportunity,
+    scoreKeywordOpportunity,
     type KeywordRotator,
 } from '@/features/campaigns/lib/keywordRotation';
 
@@ -341,3 +343,72 @@ describe('Keyword Rotation', () => {
         });
     });
 });
+
+describe('Opportunity Rotation', () => {
+    const keywords = ['crochet blanket ideas', 'best credit card rewards', 'home insurance quotes'];
+
+    it('should pick the highest scoring keyword and explain why', () => {
+        const rotator = createRotator('Test', keywords, 'opportunity');
+
+        const result = getNextKeyword(rotator)!;
+
+        expect(result.keyword.text).not.toBe('crochet blanket ideas');
+        expect(result.reason).toMatch(/^Opportunity \d+\/100 \(rank 1 of 3, next "/);
+        expect(result.reason).toContain('CPC');
+        expect(result.reason).toContain('not covered on the site');
+        expect(result.opportunity!.factors.cpc).toBeGreaterThan(scoreKeywordOpportunity(rotator.keywords[0]).factors.cpc);
+    });
+
+    it('should re-rank on every pick so a used keyword gives way', () => {
+        const rotator = createRotator('Test', ['credit card rewards', 'credit card rewards travel'], 'opportunity');
+
+        const first = getNextKeyword(rotator)!.keyword.text;
+        const second = getNextKeyword(rotator)!.keyword.text;
+
+        expect(second).not.toBe(first);
+    });
+
+    it('should penalise keywords the site already covers', () => {
+        const rotator = createRotator('Test', keywords, 'opportunity');
+        const insurance = rotator.keywords[2];
+
+        const covered = scoreKeywordOpportunity(insurance, {
+            coverage: [{ title: 'How to compare home insurance quotes' }],
+        });
+
+        expect(covered.factors.coverage).toBeLessThan(100);
+        expect(covered.coveredBy?.title).toBe('How to compare home insurance quotes');
+        expect(covered.explanation).toContain('already covered by "How to compare home insurance quotes"');
+        expect(covered.score).toBeLessThan(scoreKeywordOpportunity(insurance).score);
+    });
+
+    it('should reward trend momentum and strong similar posts', () => {
+        const rotator = createRotator('Test', keywords, 'opportunity');
+        const crochet = rotator.keywords[0];
+
+        const boosted = scoreKeywordOpportunity(crochet, {
+            trends: { 'crochet blanket ideas': { searchVolume: 95, freshness: 100 } },
+            performance: [
+                { topic: 'easy crochet blanket', performanceScore: 90 },
+                { topic: 'crochet blanket yarn guide', performanceScore: 80 },
+                { topic: 'sourdough starter', performanceScore: 5 },
+            ],
+        });
+
+        expect(boosted.factors.trend).toBeGreaterThan(scoreKeywordOpportunity(crochet).factors.trend);
+        expect(boosted.factors.performance).toBe(85);
+        expect(boosted.similarPosts).toBe(2);
+        expect(boosted.explanation).toContain('similar posts score 85 (2 posts)');
+    });
+
+    it('should let weights reorder the ranking', () => {
+        const rotator = createRotator('Test', keywords, 'opportunity');
+        const context = {
+            coverage: [{ title: 'Best credit card rewards' }, { title: 'Home insurance quotes compared' }],
+            weights: { cpc: 0, trend: 0, coverage: 1, performance: 0 },
+        };
+
+        expect(rankKeywordsByOpportunity(rotator.keywords, context)[0].keyword.text).toBe('crochet blanket ideas');
+        expect(peekNextKeyword(rotator, context)?.text).toBe('crochet blanket ideas');
+    });
+});
@@ -0,0 +1,189 @@
+/**
+ * Internal Link Graph Tests
+ * @jest-environment jsdom
+ */
+
+const mockUpdatePost = jest.fn();
+jest.mock('@/features/wordpress/api/wordpressApi', () => ({
+    updatePost: (...args: unknown[]) => mockUpdatePost(...args),
+}));
+
+import {
+    extractLinks,
+    normalizeUrl,
+    buildLinkGraph,
+    anchorCandidates,
+    proposeBacklinks,
+    insertLink,
+    applyBacklinks,
+    type GraphPage,
+} from '@/features/campaigns/lib/linkGraph';
+import type { WPSite } from '@/features/wordpress';
+
+const site = { id: 'site_1', url: 'https://example.com', username: 'admin', appPassword: 'secret' } as WPSite;
+
+function page(id: string, content: string, cluster?: string, title = `Page ${id}`): GraphPage {
+    return { id, title, url: `https://example.com/${id}/`, content, cluster };
+}
+
+describe('linkGraph', () => {
+    beforeEach(() => {
+        mockUpdatePost.mockReset();
+    });
+
+    describe('extractLinks', () => {
+        it('finds HTML and Markdown links', () => {
+            const links = extractLinks('<p>See <a class="x" href="/a/">the A page</a> and [B](https://example.com/b).</p>');
+
+            expect(links).toEqual([
+                { href: '/a/', anchor: 'the A page' },
+                { href: 'https://example.com/b', anchor: 'B' },
+            ]);
+        });
+    });
+
+    describe('normalizeUrl', () => {
+        it('maps internal URLs to comparable paths', () => {
+            expect(normalizeUrl('https://www.example.com/Post/', 'https://example.com')).toBe('/post');
+            expect(normalizeUrl('/post?ref=1', 'example.com')).toBe('/post');
+        });
+
+        it('ignores external, anchor and mailto links', () => {
+            expect(normalizeUrl('https://other.com/post', 'https://example.com')).toBeNull();
+            expect(normalizeUrl('#top', 'https://example.com')).toBeNull();
+            expect(normalizeUrl('mailto:me@example.com', 'https://example.com')).toBeNull();
+        });
+    });
+
+    describe('buildLinkGraph', () => {
+        const pages = [
+            page('hub', '<a href="/a/">A</a> <a href="/b/">B</a> <a href="/a/">A again</a>', 'shoes'),
+            page('a', '<a href="/hub/">Hub</a>', 'shoes'),
+            page('b', '<a href="/hub/">Hub</a> <a href="https://other.com/">Elsewhere</a>', 'shoes'),
+            page('lonely', 'No links here.', 'bread'),
+        ];
+
+        it('counts distinct inbound and outbound links', () => {
+            const graph = buildLinkGraph(pages, 'https://example.com');
+            const hub = graph.nodes.find(n => n.id === 'hub')!;
+
+            expect(graph.edges).toHaveLength(4);
+            expect(hub.outbound).toBe(2);
+            expect(hub.inbound).toBe(2);
+        });
+
+        it('detects orphans and cluster hubs', () => {
+            const graph = buildLinkGraph(pages, 'https://example.com');
+
+            expect(graph.orphans).toEqual(['lonely']);
+            expect(graph.hubs).toEqual({ shoes: 'hub' });
+            expect(graph.nodes.find(n => n.id === 'hub')!.isHub).toBe(true);
+        });
+
+        it('gives the most linked-to page the highest authority', () => {
+            const graph = buildLinkGraph(pages, 'https://example.com');
+            const authority = Object.fromEntries(graph.nodes.map(n => [n.id, n.authority]));
+
+            expect(authority.hub).toBe(100);
+            expect(authority.a).toBeLessThan(100);
+            expect(authority.lonely).toBeLessThan(authority.a);
+        });
+    });
+
+    describe('proposeBacklinks', () => {
+        const target = page('new', 'Fresh post.', 'shoes', 'Trail Running Shoes for Wide Feet');
+
+        it('builds anchors from the target title', () => {
+            expect(anchorCandidates(target.title)).toEqual([
+                'trail running shoes for wide feet',
+                'trail running shoes',
+                'running shoes wide',
+                'shoes wide feet',
+                'trail running',
+                'running shoes',
+                'shoes wide',
+                'wide feet',
+            ]);
+        });
+
+        it('proposes plain-text mentions and skips pages that already link', () => {
+            const pages = [
+                target,
+                page('1', '<p>Our guide to trail running shoes covers grip.</p>', 'shoes'),
+                page('2', '<p>Already <a href="/new/">linked trail running shoes</a>.</p>', 'shoes'),
+                page('3', '<h2>Trail running shoes</h2><p>Heading only.</p>', 'shoes'),
+            ];
+            const graph = buildLinkGraph(pages, site.url);
+
+            const proposals = proposeBacklinks(graph, pages, 'new');
+
+            expect(proposals).toHaveLength(1);
+            expect(proposals[0]).toMatchObject({ sourceId: '1', anchor: 'trail running shoes', targetUrl: target.url });
+            expect(proposals[0].context).toContain('Our guide to trail running shoes');
+        });
+
+        it('varies anchor text across sources', () => {
+            const pages = [
+                target,
+                page('1', '<p>Pick trail running shoes for wide feet carefully.</p>', 'shoes'),
+                page('2', '<p>Trail running shoes for wide feet are rare.</p>', 'shoes'),
+                page('3', '<p>Look at trail running shoes with a roomy toe box.</p>', 'shoes'),
+            ];
+            const graph = buildLinkGraph(pages, site.url);
+
+            const anchors = proposeBacklinks(graph, pages, 'new').map(p => p.anchor.toLowerCase());
+
+            expect(anchors).toHaveLength(3);
+            expect(new Set(anchors).size).toBe(3);
+            expect(anchors.filter(a => a === 'trail running shoes for wide feet')).toHaveLength(1);
+        });
+
+        it('respects maxLinks', () => {
+            const pages = [
+                target,
+                page('1', '<p>About running shoes.</p>'),
+                page('2', '<p>About trail running here.</p>'),
+            ];
+            const graph = buildLinkGraph(pages, site.url);
+
+            expect(proposeBacklinks(graph, pages, 'new', { maxLinks: 1 })).toHaveLength(1);
+        });
+    });
+
+    describe('insertLink', () => {
+        it('links the first plain-text occurrence in HTML', () => {
+            expect(insertLink('<p>Buy running shoes today.</p>', 'running shoes', '/new/'))
+                .toBe('<p>Buy <a href="/new/">running shoes</a> today.</p>');
+        });
+
+        it('uses Markdown links for Markdown content', () => {
+            expect(insertLink('Buy Running Shoes today.', 'running shoes', '/new'))
+                .toBe('Buy [Running Shoes](/new) today.');
+        });
+
+        it('returns null when the anchor is gone', () => {
+            expect(insertLink('<p>Nothing relevant.</p>', 'running shoes', '/new/')).toBeNull();
+        });
+    });
+
+    describe('applyBacklinks', () => {
+        it('updates source posts and reports failures', async () => {
+            const pages = [
+                page('1', '<p>Buy running shoes today.</p>'),
+                page('2', '<p>Trail running is fun.</p>'),
+            ];
+            const proposal = { targetId: 'new', targetUrl: '/new/', context: '', score: 1 };
+            mockUpdatePost.mockResolvedValueOnce({ success: true }).mockResolvedValueOnce({ success: false, error: 'HTTP 403' });
+
+            const result = await applyBacklinks(site, pages, [
+                { ...proposal, sourceId: '1', sourceTitle: 'Page 1', anchor: 'running shoes' },
+                { ...proposal, sourceId: '2', sourceTitle: 'Page 2', anchor: 'trail running' },
+                { ...proposal, sourceId: '2', sourceTitle: 'Page 2', anchor: 'marathon' },
+            ]);
+
+            expect(mockUpdatePost).toHaveBeenCalledWith(site, 1, { content: '<p>Buy <a href="/new/">running shoes</a> today.</p>' });
+            expect(result.applied.map(p => p.sourceId)).toEqual(['1']);
+            expect(result.failed.map(f => f.error)).toEqual(['HTTP 403', 'Anchor text no longer found in source post']);
+        });
+    });
+});
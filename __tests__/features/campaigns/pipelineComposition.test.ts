@@ -0,0 +1,215 @@
+/**
+ * Pipeline Composition Tests
+ * Per-campaign pipeline definitions: presets, validation and resolution
+ */
+
+import {
+    PIPELINE_PRESETS,
+    getDefaultPipelineDefinition,
+    validatePipelineDefinition,
+    getPipelineCatalog,
+    getStageOption,
+    setStageOption,
+    resolvePipeline,
+    countResolvedStages,
+    withRegistryStages,
+    isDefaultPipelineDefinition,
+} from '@/features/campaigns/lib/pipeline/composition';
+import { allStages, getTotalStageCount } from '@/features/campaigns/lib/pipeline/stages';
+import type { PipelineDefinition } from '@/features/campaigns/model/types';
+
+describe('Pipeline Composition', () => {
+    describe('default preset', () => {
+        it('should mirror the standard stage order', () => {
+            const definition = getDefaultPipelineDefinition();
+            expect(definition.groups.map(g => g.id)).toEqual(allStages.map(g => g.id));
+            expect(validatePipelineDefinition(definition).valid).toBe(true);
+        });
+
+        it('should resolve every stage when the campaign has no definition', () => {
+            const groups = resolvePipeline({});
+            expect(countResolvedStages(groups)).toBe(getTotalStageCount());
+            expect(groups[0].stages[0].retry).toEqual({ maxAttempts: 1, backoffMs: 0 });
+        });
+
+        it('should keep the minimal preset valid', () => {
+            const definition = PIPELINE_PRESETS.minimal.build();
+            expect(validatePipelineDefinition(definition).valid).toBe(true);
+            expect(resolvePipeline({ pipeline: definition }).map(g => g.id))
+                .toEqual(['validation', 'generation', 'publish']);
+        });
+
+        it('should leave optional stages out of the minimal preset', () => {
+            const publish = resolvePipeline({ pipeline: PIPELINE_PRESETS.minimal.build() })
+                .find(g => g.id === 'publish')!;
+            expect(publish.stages.map(s => s.id)).toEqual(['publish_wp', 'record_dedup']);
+        });
+    });
+
+    describe('validation', () => {
+        it('should reject unknown groups and stages', () => {
+            const definition = getDefaultPipelineDefinition();
+            definition.groups.push({ id: 'teleport', enabled: true, stages: [] });
+            definition.groups[0].stages.push({ id: 'nope', enabled: true });
+
+            const result = validatePipelineDefinition(definition);
+            expect(result.valid).toBe(false);
+            expect(result.errors).toContain('Unknown stage group: teleport');
+            expect(result.errors).toContain('Unknown stage "nope" in group validation');
+        });
+
+        it('should reject disabling a required stage', () => {
+            const definition = getDefaultPipelineDefinition();
+            const generation = definition.groups.find(g => g.id === 'generation')!;
+            generation.stages[0].enabled = false;
+
+            expect(validatePipelineDefinition(definition).errors)
+                .toContain('Required stage cannot be disabled: generation/content');
+        });
+
+        it('should reject publishing before generation', () => {
+            const definition = getDefaultPipelineDefinition();
+            const publishIndex = definition.groups.findIndex(g => g.id === 'publish');
+            const [publish] = definition.groups.splice(publishIndex, 1);
+            definition.groups.splice(1, 0, publish);
+
+            expect(validatePipelineDefinition(definition).errors)
+                .toContain('Stage group publish must run after generation');
+        });
+
+        it('should reject moving a stage ahead of the stage it depends on', () => {
+            const definition = getDefaultPipelineDefinition();
+            const publish = definition.groups.find(g => g.id === 'publish')!;
+            publish.stages = [...publish.stages.slice(1, 3), publish.stages[0], ...publish.stages.slice(3)];
+
+            expect(validatePipelineDefinition(definition).errors).toEqual([
+                'Stage publish/record_dedup must run after publish_wp',
+                'Stage publish/backlinks must run after publish_wp',
+            ]);
+
+            // Disabled stages don't constrain the order
+            publish.stages.find(s => s.id === 'backlinks')!.enabled = false;
+            expect(validatePipelineDefinition(definition).errors).toEqual([
+                'Stage publish/record_dedup must run after publish_wp',
+            ]);
+        });
+
+        it('should check stage options against their fields', () => {
+            const definition = getDefaultPipelineDefinition();
+            const validation = definition.groups.find(g => g.id === 'validation')!;
+            validation.stages[0].options = { thresholds: { title: 1.5, body: 0.5 } };
+            const optimization = definition.groups.find(g => g.id === 'optimization')!;
+            optimization.stages[0].options = { mode: 'extreme' };
+
+            expect(validatePipelineDefinition(definition).errors).toEqual([
+                'validation/dedup: Title similarity must be a number between 0 and 1',
+                'optimization/spinner: Spinning mode must be one of light, moderate, heavy',
+            ]);
+        });
+
+        it('should reject out-of-range retry policies', () => {
+            const definition: PipelineDefinition = {
+                ...getDefaultPipelineDefinition(),
+                retryPolicy: { maxAttempts: 0, backoffMs: -1 },
+            };
+
+            expect(validatePipelineDefinition(definition).errors).toHaveLength(2);
+        });
+    });
+
+    describe('stage options', () => {
+        it('should list the editable options of each stage in the catalog', () => {
+            const quality = getPipelineCatalog().find(g => g.id === 'quality')!;
+            const dedup = quality.stages.find(s => s.id === 'dedup_content')!;
+
+            expect(dedup.optionFields.map(f => f.key)).toEqual([
+                'thresholds.title',
+                'thresholds.body',
+                'thresholds.simHash',
+                'thresholds.embedding',
+            ]);
+            expect(quality.stages.find(s => s.id === 'fact_check')!.optionFields).toEqual([]);
+        });
+
+        it('should set and clear options by dot path', () => {
+            const options = setStageOption({ thresholds: { body: 0.5 } }, 'thresholds.title', 0.8);
+
+            expect(options).toEqual({ thresholds: { body: 0.5, title: 0.8 } });
+            expect(getStageOption(options, 'thresholds.title')).toBe(0.8);
+            expect(setStageOption(options, 'thresholds.body', undefined)).toEqual({ thresholds: { title: 0.8 } });
+            expect(setStageOption({ thresholds: { title: 0.8 } }, 'thresholds.title', undefined)).toBeUndefined();
+        });
+    });
+
+    describe('resolution', () => {
+        it('should apply order, toggles, parallel flag, options and retry overrides', () => {
+            const definition = getDefaultPipelineDefinition();
+            const optimization = definition.groups.find(g => g.id === 'optimization')!;
+            optimization.parallel = true;
+            optimization.stages = [
+                { id: 'readability', enabled: true },
+                { id: 'spinner', enabled: true, options: { mode: 'heavy' }, retry: { maxAttempts: 3, backoffMs: 100 } },
+                { id: 'humanizer', enabled: false },
+            ];
+            definition.groups.find(g => g.id === 'syndication')!.enabled = false;
+
+            const groups = resolvePipeline({ pipeline: definition });
+            const resolved = groups.find(g => g.id === 'optimization')!;
+
+            expect(groups.some(g => g.id === 'syndication')).toBe(false);
+            expect(resolved.parallel).toBe(true);
+            expect(resolved.stages.map(s => s.id)).toEqual(['readability', 'spinner']);
+            expect(resolved.stages[1].options).toEqual({ mode: 'heavy' });
+            expect(resolved.stages[1].retry.maxAttempts).toBe(3);
+        });
+
+        it('should never retry non-idempotent publishing stages', () => {
+            const definition = getDefaultPipelineDefinition();
+            definition.retryPolicy = { maxAttempts: 3, backoffMs: 500 };
+            definition.groups.find(g => g.id === 'publish')!.stages
+                .find(s => s.id === 'publish_wp')!.retry = { maxAttempts: 5, backoffMs: 100 };
+
+            const stages = resolvePipeline({ pipeline: definition }).flatMap(g => g.stages);
+            const retryOf = (id: string) => stages.find(s => s.id === id)!.retry;
+
+            expect(retryOf('publish_wp')).toEqual({ maxAttempts: 1, backoffMs: 0 });
+            expect(retryOf('newsletter_publish')).toEqual({ maxAttempts: 1, backoffMs: 0 });
+            expect(retryOf('content')).toEqual({ maxAttempts: 3, backoffMs: 500 });
+        });
+
+        it('should run stages registered after the definition was saved', () => {
+            // Saved before dedup_content and backlinks existed, and before syndication was a group
+            const saved = getDefaultPipelineDefinition();
+            const quality = saved.groups.find(g => g.id === 'quality')!;
+            quality.stages = quality.stages.filter(s => s.id !== 'dedup_content');
+            const publish = saved.groups.find(g => g.id === 'publish')!;
+            publish.stages = publish.stages.filter(s => s.id !== 'backlinks');
+            saved.groups = saved.groups.filter(g => g.id !== 'syndication');
+            saved.groups.find(g => g.id === 'optimization')!.enabled = false;
+
+            const groups = resolvePipeline({ pipeline: saved });
+            const stageIds = (groupId: string) => groups.find(g => g.id === groupId)?.stages.map(s => s.id);
+
+            expect(stageIds('quality')).toEqual(allStages.find(g => g.id === 'quality')!.stages.map(s => s.id));
+            expect(stageIds('publish')).toEqual(allStages.find(g => g.id === 'publish')!.stages.map(s => s.id));
+            expect(groups.map(g => g.id)).toEqual(allStages.map(g => g.id).filter(id => id !== 'optimization'));
+        });
+
+        it('should treat a full snapshot of the default as the default', () => {
+            const snapshot = getDefaultPipelineDefinition();
+            snapshot.groups.find(g => g.id === 'quality')!.stages.pop();
+            expect(isDefaultPipelineDefinition(snapshot)).toBe(true);
+
+            const customized = withRegistryStages(snapshot);
+            customized.groups.find(g => g.id === 'optimization')!.enabled = false;
+            expect(isDefaultPipelineDefinition(customized)).toBe(false);
+        });
+
+        it('should throw on an invalid definition', () => {
+            const definition = getDefaultPipelineDefinition();
+            definition.groups.find(g => g.id === 'publish')!.enabled = false;
+
+            expect(() => resolvePipeline({ pipeline: definition })).toThrow(/Invalid pipeline definition/);
+        });
+    });
+});
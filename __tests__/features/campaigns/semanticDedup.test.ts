@@ -0,0 +1,168 @@
+/**
+ * Semantic Deduplication Tests
+ * @jest-environment jsdom
+ */
+
+jest.mock('zustand/middleware', () => ({
+    persist: <T>(fn: () => T) => fn,
+}));
+
+const mockExecute = jest.fn();
+const mockGetHandlers = jest.fn(() => [] as Array<{ isAvailable: boolean; capabilities: string[] }>);
+jest.mock('@/lib/ai/services', () => ({
+    aiServices: {
+        initialize: jest.fn().mockResolvedValue(undefined),
+        getHandlers: () => mockGetHandlers(),
+        execute: (...args: unknown[]) => mockExecute(...args),
+    },
+}));
+
+import {
+    tokenize,
+    fingerprintText,
+    minHashSimilarity,
+    simHashSimilarity,
+    findNearestDuplicate,
+    clearSiteIndexCache,
+} from '@/features/campaigns/lib/semanticDedup';
+import { useDeduplicationStore } from '@/features/campaigns/lib/deduplication';
+import type { WPSite } from '@/features/wordpress';
+
+const site = { id: 'site_1', url: 'https://example.com', username: 'admin', appPassword: 'secret' } as WPSite;
+
+const ARTICLE = `Running shoes for people on a budget do not have to fall apart after a month.
+We tested twenty pairs on road and trail, logging cushioning, grip, durability and fit.
+The midsole foam matters most for comfort on long runs, while the outsole rubber decides
+how long the shoe lasts. Look for a wide toe box if your feet swell late in a run, and
+replace your pair every five hundred miles regardless of how the upper looks. Our top pick
+balances weight and stability, the runner-up is softer but heavier, and the trail option
+adds lugs for mud without feeling stiff on pavement.`;
+
+const UNRELATED = `Sourdough starters need flour, water and patience. Feed the starter twice a day,
+keep it somewhere warm, and discard half before each feeding so the yeast stays active.
+After a week it should double within six hours and smell pleasantly sour.`;
+
+function mockSitePosts(posts: Array<{ id: number; title: string; link: string; content: string }>) {
+    global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => posts.map(p => ({ id: p.id, title: { rendered: p.title }, link: p.link, content: { rendered: p.content } })),
+    }) as unknown as typeof fetch;
+}
+
+describe('semanticDedup', () => {
+    beforeEach(() => {
+        clearSiteIndexCache();
+        useDeduplicationStore.getState().clearRecords();
+        mockExecute.mockReset();
+        mockGetHandlers.mockReturnValue([]);
+    });
+
+    describe('tokenize', () => {
+        it('folds synonyms, plurals and years', () => {
+            expect(tokenize('Best budget running shoes 2026')).toEqual(tokenize('Top cheap running shoe this year'));
+        });
+
+        it('strips HTML', () => {
+            expect(tokenize('<p>Hello <strong>world</strong></p>')).toEqual(['hello', 'world']);
+        });
+    });
+
+    describe('fingerprints', () => {
+        it('scores near-identical bodies high and unrelated bodies low', () => {
+            const original = fingerprintText(ARTICLE, 'body');
+            const edited = fingerprintText(ARTICLE.replace('twenty pairs', 'dozens of pairs'), 'body');
+            const other = fingerprintText(UNRELATED, 'body');
+
+            expect(minHashSimilarity(original.minHash, edited.minHash)).toBeGreaterThan(0.7);
+            expect(minHashSimilarity(original.minHash, other.minHash)).toBeLessThan(0.1);
+            expect(simHashSimilarity(original.simHash, edited.simHash)).toBeGreaterThan(simHashSimilarity(original.simHash, other.simHash));
+        });
+
+        it('produces 64-bit SimHashes', () => {
+            expect(fingerprintText(ARTICLE, 'body').simHash).toMatch(/^[0-9a-f]{16}$/);
+        });
+    });
+
+    describe('findNearestDuplicate', () => {
+        it('reports a reworded topic as a duplicate of a published post', async () => {
+            mockSitePosts([
+                { id: 1, title: 'Best Budget Running Shoes 2026', link: 'https://example.com/best-budget-running-shoes/', content: ARTICLE },
+                { id: 2, title: 'Easy Sourdough for Beginners', link: 'https://example.com/sourdough/', content: UNRELATED },
+            ]);
+
+            const report = await findNearestDuplicate({ title: 'Top cheap running shoes this year' }, site);
+
+            expect(report.duplicate).toBe(true);
+            expect(report.checked).toBe(2);
+            expect(report.nearest).toMatchObject({ id: '1', source: 'site', method: 'title', url: 'https://example.com/best-budget-running-shoes/' });
+        });
+
+        it('reports the nearest post without flagging new topics', async () => {
+            mockSitePosts([{ id: 1, title: 'Best Budget Running Shoes 2026', link: 'https://example.com/a/', content: ARTICLE }]);
+
+            const report = await findNearestDuplicate({ title: 'Trail running shoes for wide feet' }, site);
+
+            expect(report.duplicate).toBe(false);
+            expect(report.nearest?.id).toBe('1');
+            expect(report.nearest!.score).toBeGreaterThan(0);
+        });
+
+        it('detects copied article bodies under a new title', async () => {
+            mockSitePosts([{ id: 7, title: 'Running Shoe Buying Guide', link: 'https://example.com/guide/', content: ARTICLE }]);
+
+            const report = await findNearestDuplicate(
+                { title: 'What to look for in road trainers', body: ARTICLE.replace('Our top pick', 'Our favourite') },
+                site
+            );
+
+            expect(report.duplicate).toBe(true);
+            expect(['body', 'simhash']).toContain(report.nearest?.method);
+        });
+
+        it('includes campaign history for the site', async () => {
+            mockSitePosts([]);
+            useDeduplicationStore.getState().addRecord({
+                campaignId: 'camp_1',
+                siteId: 'site_1',
+                topic: 'cheap running shoes',
+                title: 'Cheap Running Shoes',
+                slug: 'cheap-running-shoes',
+            });
+
+            const report = await findNearestDuplicate({ title: 'Affordable running shoes' }, site);
+
+            expect(report.duplicate).toBe(true);
+            expect(report.nearest?.source).toBe('history');
+        });
+
+        it('re-scores close matches with embeddings when an embed handler exists', async () => {
+            mockSitePosts([{ id: 1, title: 'Marathon Training Plan', link: 'https://example.com/plan/', content: ARTICLE }]);
+            mockGetHandlers.mockReturnValue([{ isAvailable: true, capabilities: ['embed'] }]);
+            mockExecute.mockResolvedValue({ success: true, data: [0.1, 0.9, 0.2] });
+
+            const report = await findNearestDuplicate({ title: '26.2 mile race preparation schedule' }, site);
+
+            expect(mockExecute).toHaveBeenCalledWith(expect.objectContaining({ capability: 'embed' }));
+            expect(report.duplicate).toBe(true);
+            expect(report.nearest?.method).toBe('embedding');
+        });
+
+        it('skips embeddings when no handler is configured', async () => {
+            mockSitePosts([{ id: 1, title: 'Marathon Training Plan', link: 'https://example.com/plan/', content: ARTICLE }]);
+
+            const report = await findNearestDuplicate({ title: '26.2 mile race preparation schedule' }, site);
+
+            expect(mockExecute).not.toHaveBeenCalled();
+            expect(report.duplicate).toBe(false);
+        });
+
+        it('treats an unreachable site as having no posts', async () => {
+            global.fetch = jest.fn().mockRejectedValue(new Error('offline')) as unknown as typeof fetch;
+            jest.spyOn(console, 'warn').mockImplementationOnce(() => {});
+
+            const report = await findNearestDuplicate({ title: 'Anything' }, site);
+
+            expect(report).toEqual({ duplicate: false, checked: 0 });
+        });
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Performance Learning Tests
+ * @jest-environment jsdom
+ */
+
+jest.mock('zustand/middleware', () => ({
+    persist: <T>(fn: () => T) => fn,
+}));
+
+import {
+    calculateEffectiveThreshold,
+    getPromptImprovements,
+    joinPostPerformance,
+    resetLearningState,
+    runPerformanceFeedback,
+    scorePerformance,
+} from '@/features/editorial';
+import { snapshotGeneration } from '@/features/campaigns/lib/qualityScoreStage';
+import type { ReviewItem } from '@/features/editorial';
+import type { PostPerformance } from '@/features/campaigns/lib/analytics';
+import type { ContentRevenue } from '@/lib/monetization/types';
+import type { Campaign } from '@/features/campaigns/model/types';
+
+function makeItem(id: string, topic: string, tone: string, overrides: Partial<ReviewItem> = {}): ReviewItem {
+    return {
+        id,
+        campaignId: 'camp_1',
+        siteId: 'site_1',
+        title: `${topic} ${id}`,
+        content: '<p>Body</p>',
+        wordCount: 1,
+        topic,
+        overallQualityScore: 85,
+        status: 'auto_approved',
+        priority: 'low',
+        riskLevel: 'standard',
+        changeRequests: [],
+        generation: { settings: { tone, articleType: 'how-to' }, promptAdditions: [] },
+        publishedPostId: Number(id.replace(/\D/g, '')),
+        publishedUrl: `https://blog.example.com/${id}/`,
+        createdAt: 0,
+        updatedAt: 0,
+        ...overrides,
+    } as ReviewItem;
+}
+
+function revenueFor(item: ReviewItem, pageViews: number, revenue: number): ContentRevenue {
+    return {
+        contentId: `wp:site_1:${item.publishedPostId}`,
+        contentTitle: item.title,
+        contentUrl: '',
+        pageViews,
+        revenue,
+        rpm: (revenue / pageViews) * 1000,
+    };
+}
+
+// 3 earning coffee posts, 6 middling, 3 auto-approved travel posts that flop
+const coffee = [1, 2, 3].map(n => makeItem(`post${n}`, 'coffee gear', 'conversational'));
+const misc = [4, 5, 6, 7, 8, 9].map(n => makeItem(`post${n}`, 'misc', 'professional'));
+const travel = [10, 11, 12].map(n => makeItem(`post${n}`, 'budget travel', 'professional'));
+const ITEMS = [...coffee, ...misc, ...travel];
+const REVENUE = [
+    ...coffee.map((item, i) => revenueFor(item, 2000 + i * 100, 50 + i)),
+    ...misc.map((item, i) => revenueFor(item, 500 + i * 10, 10 + i)),
+    ...travel.map((item, i) => revenueFor(item, 100 + i, 1)),
+];
+
+describe('performance learning', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        resetLearningState();
+    });
+
+    it('joins published items with analytics by URL and revenue by content ID', () => {
+        const performances: PostPerformance[] = [{
+            postId: 999,
+            siteId: 'other',
+            title: 'Coffee',
+            url: 'http://www.blog.example.com/post1',
+            publishedAt: 0,
+            metrics: { pageViews: 2400, avgTimeOnPage: 180 },
+            lastUpdated: 0,
+        }];
+        const unpublished = makeItem('post20', 'draft', 'friendly', { publishedUrl: undefined, publishedPostId: undefined });
+        const orphan = makeItem('post21', 'orphan', 'friendly');
+
+        const { joined, unmatched } = joinPostPerformance([coffee[0], unpublished, orphan], performances, [revenueFor(coffee[0], 2000, 50)]);
+
+        expect(unmatched).toBe(1);
+        expect(joined).toHaveLength(1);
+        expect(joined[0]).toMatchObject({
+            reviewItemId: 'post1',
+            pageViews: 2400,
+            revenue: 50,
+            rpm: 25,
+            avgTimeOnPage: 180,
+            settings: { tone: 'conversational' },
+        });
+    });
+
+    it('bands the top and bottom quarter of posts', () => {
+        const { joined } = joinPostPerformance(ITEMS, [], REVENUE);
+        const samples = scorePerformance(joined);
+        const band = (id: string) => samples.find(s => s.reviewItemId === id)!.band;
+
+        expect(coffee.map(i => band(i.id))).toEqual(['winner', 'winner', 'winner']);
+        expect(travel.map(i => band(i.id))).toEqual(['loser', 'loser', 'loser']);
+        expect(misc.every(i => band(i.id) === 'average')).toBe(true);
+        expect(scorePerformance(joined.slice(0, 3)).every(s => s.band === 'average')).toBe(true);
+    });
+
+    it('reports winning settings and feeds them into thresholds and prompt improvements', () => {
+        const before = calculateEffectiveThreshold('budget travel', false);
+
+        const report = runPerformanceFeedback(ITEMS, [], REVENUE);
+
+        expect(report).toMatchObject({ winners: 3, losers: 3, unmatched: 0 });
+        expect(report.correlations[0]).toMatchObject({ setting: 'tone', value: 'conversational', posts: 3, winners: 3, lift: 4 });
+        expect(report.qualityCorrelation).toBe(0);
+        expect(report.promptSignals).toContain('Write in a conversational tone.');
+        expect(getPromptImprovements()).toContain('Write in a conversational tone.');
+
+        expect(report.thresholdChanges).toEqual(['budget travel: stricter (3/3 auto-approved posts underperform)']);
+        expect(calculateEffectiveThreshold('budget travel', false)).toBe(before + 2);
+        expect(calculateEffectiveThreshold('coffee gear', false)).toBe(before);
+    });
+
+    it('snapshots the generation settings and learned prompt additions of a campaign', () => {
+        runPerformanceFeedback(ITEMS, [], REVENUE);
+        const aiConfig = { provider: 'gemini', articleType: 'review', tone: 'friendly', targetLength: 1500, useResearch: true } as Campaign['aiConfig'];
+
+        expect(snapshotGeneration(aiConfig)).toEqual({
+            settings: { provider: 'gemini', articleType: 'review', tone: 'friendly', targetLength: 1500, useResearch: true },
+            promptAdditions: ['Write in a conversational tone.'],
+        });
+    });
+});
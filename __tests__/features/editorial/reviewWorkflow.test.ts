@@ -0,0 +1,216 @@
+/**
+ * Tests for the server-persisted editorial review workflow:
+ * approval chains, role checks, SLA escalation, comments and the audit log
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('@/features/editorial/model/reviewStore', () => {
+    const actual = jest.requireActual('@/features/editorial/model/reviewStore');
+    return { ...actual, buildReviewItem: jest.fn(actual.buildReviewItem) };
+});
+
+import {
+    addReviewComment,
+    escalateOverdueReviews,
+    getReviewDetail,
+    importReviewItem,
+    performReviewAction,
+    getWorkflowErrorStatus,
+} from '@/features/editorial/lib/reviewService';
+import { saveReviewer, verifyAuditLog } from '@/lib/db/editorialReviewStore';
+import { buildReviewItem } from '@/features/editorial/model/reviewStore';
+import { ReviewWorkflowError, type Reviewer } from '@/features/editorial/model/workflowTypes';
+import type { ReviewItem } from '@/features/editorial/model/reviewTypes';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 5, 1, 9);
+
+const CONTENT = '<p>Index funds track the market.</p><p>Fees compound over decades.</p><p>Rebalance once a year.</p>';
+
+function makeItem(overrides: Partial<ReviewItem> = {}): ReviewItem {
+    return {
+        id: 'review_1',
+        campaignId: 'camp_1',
+        siteId: 'site_1',
+        title: 'Investing Basics',
+        content: CONTENT,
+        wordCount: 13,
+        topic: 'investing basics',
+        overallQualityScore: 72,
+        status: 'pending_review',
+        priority: 'normal',
+        riskLevel: 'ymyl',
+        checklist: [],
+        checklistComplete: false,
+        changeRequests: [],
+        autoApprovalEligible: false,
+        createdAt: T0,
+        updatedAt: T0,
+        ...overrides,
+    } as ReviewItem;
+}
+
+const reviewer = (id: string, roles: Reviewer['roles']): Reviewer => ({ id, name: id, roles, active: true, createdAt: T0 });
+
+describe('editorial review workflow', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ifrit-editorial-'));
+        jest.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+        saveReviewer(reviewer('erin', ['editor']));
+        saveReviewer(reviewer('lee', ['legal']));
+        saveReviewer(reviewer('wes', ['writer']));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('attaches the approval chain for the risk level and starts the SLA clock', () => {
+        const item = importReviewItem(makeItem(), T0);
+
+        expect(item.workflow!.chain.map(s => s.role)).toEqual(['editor', 'legal', 'editor']);
+        expect(item.workflow!.dueAt).toBe(T0 + 48 * HOUR);
+        expect(importReviewItem(makeItem({ title: 'Changed' }), T0 + 1).title).toBe('Investing Basics');
+    });
+
+    it('ignores the workflow and decisions a client submits', () => {
+        const item = importReviewItem(makeItem({
+            status: 'approved',
+            approvedBy: 'mallory',
+            approvedAt: T0,
+            workflow: {
+                chain: [{ role: 'editor', status: 'approved' }],
+                currentStep: 1,
+                dueAt: T0,
+                escalations: 0,
+            },
+        }), T0);
+
+        expect(item.status).toBe('pending_review');
+        expect(item.approvedBy).toBeUndefined();
+        expect(item.workflow).toMatchObject({ currentStep: 0, dueAt: T0 + 48 * HOUR });
+        expect(item.workflow!.chain.map(s => [s.role, s.status])).toEqual([
+            ['editor', 'pending'],
+            ['legal', 'pending'],
+            ['editor', 'pending'],
+        ]);
+    });
+
+    it('keeps an auto-approval only when the server policy accepts the content', () => {
+        const rejected = importReviewItem(makeItem({ status: 'auto_approved', autoApprovalEligible: true }), T0);
+
+        expect(rejected.status).toBe('pending_review');
+        expect(rejected.autoApprovalEligible).toBe(false);
+        expect(rejected.autoApprovalBlocked).toBeDefined();
+        expect(rejected.workflow!.currentStep).toBe(0);
+
+        const actual = jest.requireActual('@/features/editorial/model/reviewStore');
+        jest.mocked(buildReviewItem).mockImplementationOnce((input, policy) => ({
+            ...actual.buildReviewItem(input, policy),
+            autoApprovalEligible: true,
+            autoApprovalBlocked: undefined,
+        }));
+        const accepted = importReviewItem(makeItem({ id: 'review_2', riskLevel: 'standard', status: 'auto_approved' }), T0);
+
+        expect(accepted.status).toBe('auto_approved');
+        expect(accepted.workflow!.currentStep).toBe(accepted.workflow!.chain.length);
+        expect(accepted.workflow!.chain.every(s => s.status === 'approved')).toBe(true);
+    });
+
+    it('walks the chain step by step and only lets the step role decide', () => {
+        importReviewItem(makeItem(), T0);
+
+        expect(() => performReviewAction('review_1', 'lee', { type: 'decide', decision: { status: 'approved' } }, T0 + 1))
+            .toThrow(ReviewWorkflowError);
+
+        let item = performReviewAction('review_1', 'erin', { type: 'decide', decision: { status: 'approved' } }, T0 + 1);
+        expect(item).toMatchObject({ status: 'in_review', workflow: { currentStep: 1 } });
+
+        item = performReviewAction('review_1', 'lee', { type: 'decide', decision: { status: 'approved', notes: 'Disclaimer ok' } }, T0 + 2);
+        item = performReviewAction('review_1', 'erin', { type: 'decide', decision: { status: 'approved' } }, T0 + 3);
+
+        expect(item).toMatchObject({ status: 'approved', approvedBy: 'erin', approvedAt: T0 + 3 });
+        expect(item.workflow!.chain.every(s => s.status === 'approved')).toBe(true);
+        expect(() => performReviewAction('review_1', 'erin', { type: 'decide', decision: { status: 'approved' } }, T0 + 4))
+            .toThrow('already approved');
+    });
+
+    it('routes change requests back through the writer to the same step', () => {
+        importReviewItem(makeItem(), T0);
+        performReviewAction('review_1', 'erin', { type: 'decide', decision: { status: 'approved' } }, T0 + 1);
+
+        let item = performReviewAction('review_1', 'lee', {
+            type: 'decide',
+            decision: { status: 'changes_requested', changeRequest: 'Add a risk disclaimer' },
+        }, T0 + 2);
+        expect(item.status).toBe('changes_requested');
+        expect(item.changeRequests[0]).toMatchObject({ reviewerId: 'lee', changes: 'Add a risk disclaimer', resolved: false });
+
+        expect(() => performReviewAction('review_1', 'wes', { type: 'decide', decision: { status: 'approved' } }, T0 + 3))
+            .toThrow(ReviewWorkflowError);
+
+        performReviewAction('review_1', 'wes', { type: 'edit', content: `<p>Investing carries risk.</p>${CONTENT}` }, T0 + 3);
+        item = performReviewAction('review_1', 'wes', { type: 'resubmit' }, T0 + 4);
+
+        expect(item).toMatchObject({ status: 'in_review', workflow: { currentStep: 1 } });
+        expect(item.workflow!.chain[1].status).toBe('pending');
+        expect(item.changeRequests[0].resolved).toBe(true);
+    });
+
+    it('escalates overdue reviews one priority level and restarts the clock', () => {
+        importReviewItem(makeItem({ priority: 'normal' }), T0);
+
+        expect(escalateOverdueReviews(T0 + 47 * HOUR)).toHaveLength(0);
+        const [escalated] = escalateOverdueReviews(T0 + 49 * HOUR);
+
+        expect(escalated.priority).toBe('high');
+        expect(escalated.workflow).toMatchObject({ escalations: 1, dueAt: T0 + 49 * HOUR + 24 * HOUR });
+        expect(getReviewDetail('review_1').audit.map(e => e.action)).toEqual(['created', 'escalated']);
+    });
+
+    it('anchors comments to paragraphs and follows them across edits', () => {
+        importReviewItem(makeItem(), T0);
+
+        const comment = addReviewComment('review_1', 'lee', 1, 'Cite a source for this', T0 + 1);
+        expect(comment.anchor).toEqual({ paragraphIndex: 1, quote: 'fees compound over decades.' });
+        expect(() => addReviewComment('review_1', 'lee', 9, 'Nowhere', T0 + 1)).toThrow('does not exist');
+
+        performReviewAction('review_1', 'erin', { type: 'edit', content: `<p>New intro.</p>${CONTENT}` }, T0 + 2);
+        expect(getReviewDetail('review_1').comments[0].anchor.paragraphIndex).toBe(2);
+
+        performReviewAction('review_1', 'erin', { type: 'edit', content: '<p>Rewritten entirely.</p>' }, T0 + 3);
+        expect(getReviewDetail('review_1').comments[0].anchor.paragraphIndex).toBe(-1);
+    });
+
+    it('keeps a hash-chained audit log that detects tampering', () => {
+        importReviewItem(makeItem(), T0);
+        performReviewAction('review_1', 'erin', { type: 'decide', decision: { status: 'approved' } }, T0 + 1);
+        addReviewComment('review_1', 'lee', 0, 'Looks fine', T0 + 2);
+
+        const { audit } = getReviewDetail('review_1');
+        expect(audit.map(e => [e.seq, e.action, e.actorId])).toEqual([
+            [1, 'created', 'system'],
+            [2, 'approved', 'erin'],
+            [3, 'commented', 'lee'],
+        ]);
+        expect(audit[1].prevHash).toBe(audit[0].hash);
+        expect(verifyAuditLog()).toEqual({ valid: true, entries: 3 });
+
+        const logPath = path.join(tmpDir, '.data', 'editorial', 'audit.jsonl');
+        fs.writeFileSync(logPath, fs.readFileSync(logPath, 'utf-8').replace('"erin"', '"mallory"'));
+        expect(verifyAuditLog()).toMatchObject({ valid: false, brokenAt: 2 });
+    });
+
+    it('maps workflow errors to HTTP statuses', () => {
+        expect(getWorkflowErrorStatus(new ReviewWorkflowError('x', 'forbidden'))).toBe(403);
+        expect(getWorkflowErrorStatus(new ReviewWorkflowError('x', 'not_found'))).toBe(404);
+        expect(getWorkflowErrorStatus(new ReviewWorkflowError('x', 'invalid_state'))).toBe(409);
+        expect(getWorkflowErrorStatus(new Error('boom'))).toBe(500);
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Revision Editor Tests
+ * Paragraph replacement, AI fix proposals and change-request tracking per revision
+ */
+
+import {
+    applyAcceptedFixes,
+    createRevision,
+    getResolvingRevision,
+    getRevisions,
+    proposeFix,
+    replaceParagraphs,
+} from '@/features/editorial/lib/revisionEditor';
+import { decideReview, editReviewContent, initializeWorkflow, resubmitReview } from '@/features/editorial/lib/reviewWorkflow';
+import type { ProposedFix, ReviewItem } from '@/features/editorial/model/reviewTypes';
+import type { Reviewer } from '@/features/editorial/model/workflowTypes';
+
+const T0 = Date.UTC(2026, 5, 1, 9);
+const CONTENT = '<h2>Basics</h2>\n<p>Index funds track the market.</p>\n<p>Fees compound over decades.</p>';
+
+function makeItem(overrides: Partial<ReviewItem> = {}): ReviewItem {
+    return {
+        id: 'review_1',
+        campaignId: 'camp_1',
+        siteId: 'site_1',
+        title: 'Investing Basics',
+        content: CONTENT,
+        wordCount: 10,
+        topic: 'investing basics',
+        status: 'changes_requested',
+        priority: 'normal',
+        riskLevel: 'standard',
+        changeRequests: [
+            { id: 'cr_1', reviewerId: 'erin', reviewerName: 'Erin', createdAt: T0, changes: 'Cite the fee claim', resolved: false },
+            { id: 'cr_2', reviewerId: 'erin', reviewerName: 'Erin', createdAt: T0, changes: 'Stronger intro', resolved: false },
+        ],
+        createdAt: T0,
+        updatedAt: T0,
+        ...overrides,
+    } as ReviewItem;
+}
+
+const writer: Reviewer = { id: 'wes', name: 'Wes', roles: ['writer'], active: true, createdAt: T0 };
+const editor: Reviewer = { id: 'erin', name: 'Erin', roles: ['editor'], active: true, createdAt: T0 };
+
+describe('replaceParagraphs', () => {
+    it('replaces and removes paragraphs by index and keeps the markup between them', () => {
+        expect(replaceParagraphs(CONTENT, { 2: '<p>Fees compound [1].</p>' }))
+            .toBe('<h2>Basics</h2>\n<p>Index funds track the market.</p>\n<p>Fees compound [1].</p>');
+        expect(replaceParagraphs(CONTENT, { 1: '' })).toBe('<h2>Basics</h2>\n\n<p>Fees compound over decades.</p>');
+    });
+
+    it('applies only accepted fixes', () => {
+        const fix = (paragraphIndex: number, status: ProposedFix['status']): ProposedFix => ({
+            id: `fix_${paragraphIndex}`,
+            kind: 'regenerate_section',
+            paragraphIndex,
+            original: '',
+            proposed: `<p>Fix ${paragraphIndex}</p>`,
+            status,
+            createdAt: T0,
+        });
+
+        expect(applyAcceptedFixes(CONTENT, [fix(1, 'accepted'), fix(2, 'rejected')]))
+            .toBe('<h2>Basics</h2>\n<p>Fix 1</p>\n<p>Fees compound over decades.</p>');
+    });
+});
+
+describe('createRevision', () => {
+    it('seeds the original content as revision 1 and records what the new one resolved', () => {
+        expect(getRevisions(makeItem())).toHaveLength(1);
+
+        const item = createRevision(makeItem(), {
+            content: replaceParagraphs(CONTENT, { 2: '<p>Fees compound over decades <a href="https://sec.gov">[SEC]</a>.</p>' }),
+            authorName: 'Wes',
+            resolvesChangeRequestIds: ['cr_1', 'cr_missing'],
+            appliedFixes: [{ kind: 'add_citation', paragraphIndex: 2, changeRequestId: 'cr_1' }],
+        }, T0 + 1000);
+
+        expect(item.revisions!.map(r => r.number)).toEqual([1, 2]);
+        expect(item.revisions![0].content).toBe(CONTENT);
+        expect(item.revisions![1]).toMatchObject({ resolvedChangeRequestIds: ['cr_1'], authorName: 'Wes' });
+        expect(item.changeRequests[0]).toMatchObject({ resolved: true, resolvedInRevision: 2, resolvedAt: T0 + 1000 });
+        expect(item.changeRequests[1].resolved).toBe(false);
+        expect(getResolvingRevision(item, 'cr_1')?.number).toBe(2);
+        expect(getResolvingRevision(item, 'cr_2')).toBeUndefined();
+    });
+});
+
+describe('proposeFix', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('returns a pending replacement for one paragraph', async () => {
+        const fetchMock = jest.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ success: true, text: '```html\n<p>Fees compound over decades [1].</p>\n```' }),
+        });
+        global.fetch = fetchMock as unknown as typeof fetch;
+
+        const fix = await proposeFix(makeItem(), 2, 'add_citation', { instruction: 'Cite the fee claim', changeRequestId: 'cr_1' });
+
+        expect(fix).toMatchObject({
+            paragraphIndex: 2,
+            original: '<p>Fees compound over decades.</p>',
+            proposed: '<p>Fees compound over decades [1].</p>',
+            changeRequestId: 'cr_1',
+            status: 'pending',
+        });
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.itemType).toBe('review_fix');
+        expect(body.prompt).toContain('Reviewer request: Cite the fee claim');
+    });
+
+    it('rejects paragraphs that do not exist', async () => {
+        await expect(proposeFix(makeItem(), 7, 'regenerate_section')).rejects.toThrow('does not exist');
+    });
+});
+
+describe('workflow revisions', () => {
+    it('audits the revision number and resolved requests, and resubmit credits the latest revision', () => {
+        let item = initializeWorkflow(makeItem({ status: 'pending_review', changeRequests: [] }), { now: T0 });
+        item = decideReview(item, editor, { status: 'changes_requested', changeRequest: 'Cite the fee claim' }, T0 + 1).item;
+        const requestId = item.changeRequests[0].id;
+
+        const edit = editReviewContent(item, writer, { content: `${CONTENT}<p>More.</p>` }, T0 + 2);
+        expect(edit.details).toMatchObject({ revision: 2, resolvedChangeRequests: [] });
+
+        const resubmitted = resubmitReview(edit.item, writer, T0 + 3).item;
+        expect(resubmitted.changeRequests.find(cr => cr.id === requestId)).toMatchObject({ resolved: true, resolvedInRevision: 2 });
+    });
+});
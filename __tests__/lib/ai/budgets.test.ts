@@ -0,0 +1,221 @@
+/**
+ * Tests for AI spend budgets and their enforcement in CapabilityExecutor
+ */
+
+import {
+    createBudgetGuard,
+    createMemoryBudgetStore,
+    estimateCallCost,
+    evaluateBudgets,
+    getBudgetStatuses,
+    getPeriodStart,
+    validateBudgetRule,
+    type BudgetRule,
+    type SpendRecord,
+} from '@/lib/ai/budgets';
+import { CapabilityExecutor } from '@/lib/ai/services/CapabilityExecutor';
+import type { CapabilityHandler, CapabilitiesConfig, ExecuteResult } from '@/lib/ai/services/types';
+
+const NOW = new Date(2026, 2, 15, 12, 0, 0).getTime();
+
+const rule = (overrides: Partial<BudgetRule> = {}): BudgetRule => ({
+    id: 'r1',
+    scope: 'provider',
+    target: 'perplexity',
+    period: 'daily',
+    limitUsd: 1,
+    softLimitPercent: 80,
+    action: 'refuse',
+    enabled: true,
+    ...overrides,
+});
+
+const spend = (costUsd: number, overrides: Partial<SpendRecord> = {}): SpendRecord => ({
+    timestamp: NOW - 60_000,
+    providerId: 'perplexity',
+    handlerId: 'perplexity-api',
+    capability: 'research',
+    costUsd,
+    estimated: false,
+    ...overrides,
+});
+
+const request = (estimatedCostUsd: number, overrides = {}) => ({
+    providerId: 'perplexity',
+    handlerId: 'perplexity-api',
+    capability: 'research',
+    estimatedCostUsd,
+    ...overrides,
+});
+
+describe('budgets', () => {
+    describe('estimateCallCost()', () => {
+        it('prices prompt and requested completion tokens', () => {
+            const cost = estimateCallCost('perplexity', { capability: 'research', prompt: 'x'.repeat(400), maxTokens: 100 });
+            // 100 input + 100 output tokens at $1/M plus the $0.005 request fee
+            expect(cost).toBeCloseTo(0.0052, 6);
+        });
+
+        it('is zero for unpriced and free providers', () => {
+            expect(estimateCallCost('local-handler', { capability: 'generate', prompt: 'hi' })).toBe(0);
+            expect(estimateCallCost('gemini', { capability: 'generate', prompt: 'hi' })).toBe(0);
+        });
+    });
+
+    describe('evaluateBudgets()', () => {
+        it('allows calls under the soft limit without warnings', () => {
+            const result = evaluateBudgets(request(0.1), [rule()], [spend(0.2)], NOW);
+            expect(result.allowed).toBe(true);
+            expect(result.warnings).toHaveLength(0);
+        });
+
+        it('warns past the soft limit but still allows the call', () => {
+            const result = evaluateBudgets(request(0.1), [rule()], [spend(0.8)], NOW);
+            expect(result.allowed).toBe(true);
+            expect(result.warnings[0].state).toBe('warning');
+        });
+
+        it('refuses calls that would cross the hard limit', () => {
+            const result = evaluateBudgets(request(0.1), [rule()], [spend(0.95)], NOW);
+            expect(result.allowed).toBe(false);
+            expect(result.action).toBe('refuse');
+            expect(result.reason).toContain('provider perplexity');
+        });
+
+        it('ignores spend from previous periods and other targets', () => {
+            const yesterday = getPeriodStart('daily', NOW) - 1;
+            const result = evaluateBudgets(
+                request(0.1),
+                [rule()],
+                [spend(5, { timestamp: yesterday }), spend(5, { providerId: 'deepseek' })],
+                NOW
+            );
+            expect(result.allowed).toBe(true);
+        });
+
+        it('matches campaign rules only for attributed calls', () => {
+            const campaignRule = rule({ scope: 'campaign', target: 'camp_1', period: 'monthly' });
+            const records = [spend(2, { campaignId: 'camp_1', timestamp: getPeriodStart('monthly', NOW) })];
+
+            expect(evaluateBudgets(request(0.1, { campaignId: 'camp_1' }), [campaignRule], records, NOW).allowed).toBe(false);
+            expect(evaluateBudgets(request(0.1), [campaignRule], records, NOW).allowed).toBe(true);
+        });
+
+        it('never blocks free calls', () => {
+            const result = evaluateBudgets(request(0), [rule({ target: '*' })], [spend(5)], NOW);
+            expect(result.allowed).toBe(true);
+        });
+    });
+
+    describe('getBudgetStatuses()', () => {
+        it('reports spend for enabled rules only', () => {
+            const statuses = getBudgetStatuses([rule(), rule({ id: 'r2', enabled: false })], [spend(0.5)], NOW);
+            expect(statuses).toHaveLength(1);
+            expect(statuses[0].spentUsd).toBeCloseTo(0.5);
+            expect(statuses[0].remainingUsd).toBeCloseTo(0.5);
+        });
+    });
+
+    describe('validateBudgetRule()', () => {
+        it('rejects empty targets and out-of-range soft limits', () => {
+            expect(validateBudgetRule(rule())).toEqual([]);
+            expect(validateBudgetRule(rule({ target: ' ', softLimitPercent: 0 }))).toHaveLength(2);
+        });
+    });
+});
+
+describe('CapabilityExecutor budget enforcement', () => {
+    const ARTICLE = 'A generated article body that is comfortably longer than fifty characters.';
+
+    const handler = (id: string, providerId: string): CapabilityHandler => ({
+        id,
+        name: id,
+        source: 'ai-provider',
+        providerId,
+        capabilities: ['generate'],
+        priority: 1,
+        isAvailable: true,
+        execute: jest.fn().mockResolvedValue({
+            success: true,
+            data: ARTICLE,
+            text: ARTICLE,
+            handlerUsed: id,
+            source: 'ai-provider',
+            latencyMs: 10,
+            usage: { inputTokens: 100, outputTokens: 200 },
+        } as ExecuteResult),
+    } as unknown as CapabilityHandler);
+
+    const config = {
+        customCapabilities: [],
+        capabilitySettings: {
+            generate: {
+                defaultHandlerId: 'perplexity-api',
+                fallbackHandlerIds: ['openrouter-api', 'deepseek-api'],
+                isEnabled: true,
+            },
+        },
+        preferMCP: false,
+        autoFallback: true,
+        logUsage: false,
+    } as unknown as CapabilitiesConfig;
+
+    const handlers = () => [
+        handler('perplexity-api', 'perplexity'),
+        handler('openrouter-api', 'openrouter'),
+        handler('deepseek-api', 'deepseek'),
+    ];
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('records actual spend after a successful call', async () => {
+        const store = createMemoryBudgetStore([]);
+        const executor = new CapabilityExecutor({ logToConsole: false, budgetGuard: createBudgetGuard(store) });
+
+        const result = await executor.execute(
+            { capability: 'generate', prompt: 'Write', campaignId: 'camp_1' },
+            handlers(),
+            config
+        );
+
+        expect(result.success).toBe(true);
+        expect(store.spend).toHaveLength(1);
+        expect(store.spend[0]).toMatchObject({ providerId: 'perplexity', campaignId: 'camp_1', estimated: false });
+        expect(store.spend[0].costUsd).toBeCloseTo(0.0053, 6);
+    });
+
+    it('refuses the call when a refuse rule is exceeded', async () => {
+        const store = createMemoryBudgetStore([rule({ limitUsd: 0.001 })]);
+        const executor = new CapabilityExecutor({ logToConsole: false, budgetGuard: createBudgetGuard(store) });
+        const list = handlers();
+
+        const result = await executor.execute({ capability: 'generate', prompt: 'Write', useFallback: true }, list, config);
+
+        expect(result.success).toBe(false);
+        expect(result.budgetBlocked).toBe(true);
+        expect(list.every(h => (h.execute as jest.Mock).mock.calls.length === 0)).toBe(true);
+    });
+
+    it('falls back to the cheapest remaining handler when a fallback rule is exceeded', async () => {
+        const store = createMemoryBudgetStore([rule({ limitUsd: 0.001, action: 'fallback' })]);
+        const executor = new CapabilityExecutor({ logToConsole: false, budgetGuard: createBudgetGuard(store) });
+        const list = handlers();
+
+        const result = await executor.execute(
+            { capability: 'generate', prompt: 'Write', useFallback: true, maxRetries: 0 },
+            list,
+            config
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.handlerUsed).toBe('deepseek-api');
+        expect(list[0].execute).not.toHaveBeenCalled();
+        expect(list[1].execute).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for the pluggable AI response cache
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    ResponseCache,
+    MemoryCacheBackend,
+    buildCacheKey,
+    normalizePrompt,
+    DEFAULT_CAPABILITY_TTLS,
+} from '@/lib/ai/cache/responseCache';
+import { FileCacheBackend } from '@/lib/ai/cache/fileCacheBackend';
+import { CapabilityExecutor } from '@/lib/ai/services/CapabilityExecutor';
+import type { CapabilityHandler, CapabilitiesConfig, ExecuteResult } from '@/lib/ai/services/types';
+
+const result = (text: string): ExecuteResult => ({
+    success: true,
+    data: text,
+    text,
+    handlerUsed: 'h1',
+    source: 'ai-provider',
+    latencyMs: 10,
+});
+
+describe('responseCache', () => {
+    describe('keying', () => {
+        it('normalizes whitespace and timestamps but keeps case', () => {
+            expect(normalizePrompt('  Best   Coffee\\nGrinders ')).toBe(normalizePrompt('Best Coffee\\nGrinders'));
+            expect(normalizePrompt('Best Coffee')).not.toBe(normalizePrompt('best coffee'));
+            expect(normalizePrompt('As of 2026-03-01T10:00:00Z list trends'))
+                .toBe(normalizePrompt('As of 2026-04-02T11:30:00Z list trends'));
+        });
+
+        it('separates capability, handler and model', () => {
+            const base = { capability: 'research', handlerId: 'a', model: 'm1', prompt: 'topic' };
+            const key = buildCacheKey(base);
+
+            expect(buildCacheKey({ ...base, prompt: ' topic ' })).toBe(key);
+            expect(buildCacheKey({ ...base, prompt: 'TOPIC' })).not.toBe(key);
+            expect(buildCacheKey({ ...base, handlerId: 'b' })).not.toBe(key);
+            expect(buildCacheKey({ ...base, model: 'm2' })).not.toBe(key);
+            expect(buildCacheKey({ ...base, capability: 'keywords' })).not.toBe(key);
+        });
+
+        it('separates sampling settings', () => {
+            const base = { capability: 'generate', prompt: 'topic' };
+            const key = buildCacheKey(base);
+
+            expect(buildCacheKey({ ...base, temperature: 0.2 })).not.toBe(key);
+            expect(buildCacheKey({ ...base, temperature: 0.2 })).not.toBe(buildCacheKey({ ...base, temperature: 0.9 }));
+            expect(buildCacheKey({ ...base, maxTokens: 500 })).not.toBe(key);
+            expect(buildCacheKey({ ...base, maxTokens: 500 })).not.toBe(buildCacheKey({ ...base, maxTokens: 4000 }));
+        });
+    });
+
+    describe('ResponseCache', () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('applies per-capability TTLs', () => {
+            const now = Date.now();
+            const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+            const cache = new ResponseCache();
+            const parts = { capability: 'research', prompt: 'topic' };
+
+            cache.set(parts, result('research text'));
+            nowSpy.mockReturnValue(now + DEFAULT_CAPABILITY_TTLS.research - 1);
+            expect(cache.get(parts)?.metadata?.fromCache).toBe(true);
+
+            nowSpy.mockReturnValue(now + DEFAULT_CAPABILITY_TTLS.research + 1);
+            expect(cache.get(parts)).toBeNull();
+        });
+
+        it('never caches bypassed capabilities or failures', () => {
+            const cache = new ResponseCache();
+            cache.set({ capability: 'scrape', prompt: 'url' }, result('page'));
+            cache.set({ capability: 'research', prompt: 'x' }, { ...result(''), success: false });
+
+            expect(cache.get({ capability: 'scrape', prompt: 'url' })).toBeNull();
+            expect(cache.get({ capability: 'research', prompt: 'x' })).toBeNull();
+        });
+
+        it('evicts the least recently used entry when full', () => {
+            let now = 1_000;
+            jest.spyOn(Date, 'now').mockImplementation(() => now);
+            const cache = new ResponseCache(new MemoryCacheBackend(), { maxEntries: 2 });
+
+            cache.set({ capability: 'keywords', prompt: 'a' }, result('a'));
+            now += 10;
+            cache.set({ capability: 'keywords', prompt: 'b' }, result('b'));
+            now += 10;
+            cache.get({ capability: 'keywords', prompt: 'a' }); // a is now most recent
+            now += 10;
+            cache.set({ capability: 'keywords', prompt: 'c' }, result('c'));
+
+            expect(cache.get({ capability: 'keywords', prompt: 'a' })).not.toBeNull();
+            expect(cache.get({ capability: 'keywords', prompt: 'b' })).toBeNull();
+            expect(cache.getStats().evictions).toBe(1);
+        });
+
+        it('evicts by total size', () => {
+            const cache = new ResponseCache(new MemoryCacheBackend(), { maxBytes: 400 });
+            cache.set({ capability: 'keywords', prompt: 'a' }, result('x'.repeat(150)));
+            cache.set({ capability: 'keywords', prompt: 'b' }, result('y'.repeat(150)));
+
+            expect(cache.getStats().size).toBe(1);
+        });
+
+        it('tracks hits and misses per capability', () => {
+            const cache = new ResponseCache();
+            cache.set({ capability: 'keywords', prompt: 'a' }, result('a'));
+            cache.get({ capability: 'keywords', prompt: 'a' });
+            cache.get({ capability: 'keywords', prompt: 'missing' });
+
+            const stats = cache.getStats();
+            expect(stats.hits).toBe(1);
+            expect(stats.misses).toBe(1);
+            expect(stats.hitRate).toBe(50);
+            expect(stats.byCapability.keywords).toEqual({ hits: 1, misses: 1 });
+        });
+    });
+
+    describe('FileCacheBackend', () => {
+        let tmpDir: string;
+
+        beforeEach(() => {
+            tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-cache-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        });
+
+        it('persists entries across cache instances', () => {
+            const parts = { capability: 'keywords', handlerId: 'h1', prompt: 'coffee' };
+            new ResponseCache(new FileCacheBackend(tmpDir)).set(parts, result('beans, grinders'));
+
+            const reopened = new ResponseCache(new FileCacheBackend(tmpDir));
+            expect(reopened.get(parts)?.text).toBe('beans, grinders');
+            expect(reopened.get(parts)?.metadata?.cacheBackend).toBe('file');
+        });
+
+        it('removes entry files on clear', () => {
+            const cache = new ResponseCache(new FileCacheBackend(tmpDir));
+            cache.set({ capability: 'keywords', prompt: 'a' }, result('a'));
+            cache.clear();
+
+            expect(cache.getStats().size).toBe(0);
+            expect(fs.existsSync(path.join(tmpDir, 'entries'))).toBe(false);
+        });
+    });
+
+    describe('CapabilityExecutor integration', () => {
+        const RESEARCH = 'Research notes that are comfortably longer than the fifty character minimum.';
+
+        const handler = (): CapabilityHandler => ({
+            id: 'perplexity-api',
+            name: 'Perplexity',
+            source: 'ai-provider',
+            providerId: 'perplexity',
+            capabilities: ['research'],
+            priority: 1,
+            isAvailable: true,
+            execute: jest.fn().mockResolvedValue({ ...result(RESEARCH), handlerUsed: 'perplexity-api' }),
+        } as unknown as CapabilityHandler);
+
+        const config = {
+            customCapabilities: [],
+            capabilitySettings: {},
+            preferMCP: false,
+            autoFallback: true,
+            logUsage: false,
+        } as unknown as CapabilitiesConfig;
+
+        it('serves repeated calls from cache unless bypassed', async () => {
+            const executor = new CapabilityExecutor({ logToConsole: false, responseCache: new ResponseCache() });
+            const h = handler();
+            const options = { capability: 'research', prompt: 'Coffee trends' };
+
+            await executor.execute(options, [h], config);
+            const cached = await executor.execute({ ...options, prompt: 'Coffee  trends' }, [h], config);
+            await executor.execute({ ...options, bypassCache: true }, [h], config);
+
+            expect(cached.success).toBe(true);
+            expect(cached.metadata?.fromCache).toBe(true);
+            expect(h.execute).toHaveBeenCalledTimes(2);
+        });
+
+        it('keys on the model configured in Settings', async () => {
+            const executor = new CapabilityExecutor({ logToConsole: false, responseCache: new ResponseCache() });
+            const h = handler();
+            const options = { capability: 'research', prompt: 'Coffee trends' };
+            const withModel = (model: string) => ({ ...options, context: { selectedModels: { perplexity: model } } });
+
+            await executor.execute(withModel('sonar'), [h], config);
+            const switched = await executor.execute(withModel('sonar-pro'), [h], config);
+            const handlerModel = await executor.execute(
+                withModel('sonar-pro'),
+                [h],
+                { ...config, handlerModels: { 'perplexity-api': 'sonar' } } as CapabilitiesConfig
+            );
+
+            expect(switched.metadata?.fromCache).toBeUndefined();
+            expect(handlerModel.metadata?.fromCache).toBe(true);
+            expect(h.execute).toHaveBeenCalledTimes(2);
+        });
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for AI circuit breakers
+ *
+ * State transitions, cool-down backoff and health scores.
+ */
+
+import { createCircuitBreaker, keyCircuitId } from '@/lib/ai/circuitBreaker';
+
+describe('circuitBreaker', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    const failTimes = (breaker: ReturnType<typeof createCircuitBreaker>, id: string, n: number) => {
+        for (let i = 0; i < n; i++) breaker.recordFailure(id, `error ${i}`);
+    };
+
+    it('stays closed until minCalls are recorded', () => {
+        const breaker = createCircuitBreaker({ minCalls: 3 });
+        failTimes(breaker, 'gemini-generate', 2);
+
+        expect(breaker.getState('gemini-generate')).toBe('closed');
+        expect(breaker.canRequest('gemini-generate')).toBe(true);
+    });
+
+    it('opens when the error rate crosses the threshold', () => {
+        const breaker = createCircuitBreaker({ minCalls: 4, errorRateThreshold: 0.5 });
+        breaker.recordSuccess('h', 100);
+        breaker.recordSuccess('h', 100);
+        breaker.recordFailure('h', 'HTTP 500');
+        expect(breaker.getState('h')).toBe('closed');
+
+        breaker.recordFailure('h', 'HTTP 502');
+        expect(breaker.getState('h')).toBe('open');
+        expect(breaker.canRequest('h')).toBe(false);
+        expect(breaker.acquire('h')).toBe(false);
+        expect(breaker.getSnapshot('h').recentFailures.map(f => f.error)).toEqual(['HTTP 502', 'HTTP 500']);
+    });
+
+    it('opens when most calls are slow', () => {
+        const breaker = createCircuitBreaker({ minCalls: 3, slowCallMs: 1000, slowCallRateThreshold: 0.6 });
+        breaker.recordSuccess('h', 5000);
+        breaker.recordSuccess('h', 5000);
+        breaker.recordSuccess('h', 200);
+
+        expect(breaker.getState('h')).toBe('open');
+    });
+
+    it('allows a single trial call after the cool-down', () => {
+        jest.useFakeTimers();
+        const breaker = createCircuitBreaker({ minCalls: 2, openDurationMs: 1000 });
+        failTimes(breaker, 'h', 2);
+
+        jest.advanceTimersByTime(1000);
+        expect(breaker.canRequest('h')).toBe(true);
+        expect(breaker.acquire('h')).toBe(true);
+        expect(breaker.getState('h')).toBe('half-open');
+        expect(breaker.acquire('h')).toBe(false);
+
+        breaker.recordSuccess('h', 50);
+        expect(breaker.getState('h')).toBe('closed');
+        expect(breaker.getSnapshot('h').calls).toBe(0);
+    });
+
+    it('doubles the cool-down when the trial fails', () => {
+        jest.useFakeTimers();
+        const breaker = createCircuitBreaker({ minCalls: 2, openDurationMs: 1000, maxOpenDurationMs: 3000 });
+        failTimes(breaker, 'h', 2);
+
+        jest.advanceTimersByTime(1000);
+        breaker.acquire('h');
+        breaker.recordFailure('h', 'still down');
+        expect(breaker.getState('h')).toBe('open');
+
+        jest.advanceTimersByTime(1000);
+        expect(breaker.canRequest('h')).toBe(false);
+        jest.advanceTimersByTime(1000);
+        expect(breaker.acquire('h')).toBe(true);
+
+        breaker.recordFailure('h', 'still down');
+        expect(breaker.getSnapshot('h').retryAt! - Date.now()).toBe(3000);
+    });
+
+    it('releases a trial call without an outcome', () => {
+        jest.useFakeTimers();
+        const breaker = createCircuitBreaker({ minCalls: 2, openDurationMs: 1000 });
+        failTimes(breaker, 'h', 2);
+        jest.advanceTimersByTime(1000);
+
+        breaker.acquire('h');
+        breaker.release('h');
+
+        expect(breaker.getState('h')).toBe('half-open');
+        expect(breaker.acquire('h')).toBe(true);
+    });
+
+    it('scores health from error and slow-call rates', () => {
+        const breaker = createCircuitBreaker({ minCalls: 10, slowCallMs: 1000 });
+        breaker.recordSuccess('a', 100);
+        breaker.recordSuccess('b', 100);
+        breaker.recordFailure('b', 'timeout');
+
+        expect(breaker.getHealthScore('unused')).toBe(1);
+        expect(breaker.getHealthScore('a')).toBe(1);
+        expect(breaker.getHealthScore('b')).toBe(0.5);
+    });
+
+    it('resets one or all circuits', () => {
+        const breaker = createCircuitBreaker({ minCalls: 1 });
+        breaker.recordFailure('a', 'x');
+        breaker.recordFailure('b', 'x');
+
+        breaker.reset('a');
+        expect(breaker.getState('a')).toBe('closed');
+        expect(breaker.getState('b')).toBe('open');
+
+        breaker.reset();
+        expect(breaker.list()).toEqual([]);
+    });
+
+    it('derives the provider from key circuit ids without exposing the key', () => {
+        const breaker = createCircuitBreaker();
+        const id = keyCircuitId('gemini', 'AIzaSySecretKey1234');
+        breaker.recordFailure(id, 'Rate limited (429)');
+
+        expect(id).not.toContain('Secret');
+        expect(breaker.getSnapshot(id).provider).toBe('gemini');
+    });
+});
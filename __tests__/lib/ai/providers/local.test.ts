@@ -0,0 +1,161 @@
+/**
+ * Tests for Local (OpenAI-compatible) Provider
+ *
+ * Covers endpoint parsing, model discovery (incl. Ollama fallback),
+ * chat and SSE streaming.
+ */
+
+// Setup fetch mock before imports
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+// jsdom does not expose the encoding API used by stream()
+import { TextEncoder, TextDecoder } from 'util';
+Object.assign(global, { TextEncoder, TextDecoder });
+
+import { LocalProvider, parseLocalEndpoint, DEFAULT_LOCAL_ENDPOINT } from '@/lib/ai/providers/local';
+
+describe('LocalProvider', () => {
+    let provider: LocalProvider;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockFetch.mockReset();
+        provider = new LocalProvider();
+    });
+
+    const createMockResponse = (data: unknown, ok: boolean = true, status: number = 200) => ({
+        ok,
+        status,
+        json: jest.fn().mockResolvedValue(data),
+        text: jest.fn().mockResolvedValue(JSON.stringify(data))
+    });
+
+    const createStreamResponse = (chunks: string[]) => {
+        const encoder = new TextEncoder();
+        let index = 0;
+        return {
+            ok: true,
+            status: 200,
+            body: {
+                getReader: () => ({
+                    read: jest.fn().mockImplementation(async () => (
+                        index < chunks.length
+                            ? { done: false, value: encoder.encode(chunks[index++]) }
+                            : { done: true, value: undefined }
+                    )),
+                    cancel: jest.fn().mockResolvedValue(undefined)
+                })
+            }
+        };
+    };
+
+    describe('parseLocalEndpoint()', () => {
+        it('defaults to Ollama', () => {
+            expect(parseLocalEndpoint('')).toEqual({ baseUrl: DEFAULT_LOCAL_ENDPOINT, apiKey: undefined });
+        });
+
+        it('normalizes bare hosts and chat URLs to /v1', () => {
+            expect(parseLocalEndpoint('http://localhost:8080/').baseUrl).toBe('http://localhost:8080/v1');
+            expect(parseLocalEndpoint('http://gpu:8000/v1/chat/completions').baseUrl).toBe('http://gpu:8000/v1');
+        });
+
+        it('splits an optional bearer token', () => {
+            expect(parseLocalEndpoint('http://gpu:8000/v1|secret')).toEqual({
+                baseUrl: 'http://gpu:8000/v1',
+                apiKey: 'secret'
+            });
+        });
+    });
+
+    describe('testKey()', () => {
+        it('discovers models from /v1/models', async () => {
+            mockFetch.mockResolvedValueOnce(createMockResponse({
+                data: [{ id: 'llama3.1:8b' }, { id: 'deepseek-r1:14b' }, { id: 'qwen2.5-coder' }]
+            }));
+
+            const result = await provider.testKey('http://localhost:11434/v1');
+
+            expect(result.valid).toBe(true);
+            expect(result.models.map(m => m.id)).toEqual(['llama3.1:8b', 'deepseek-r1:14b', 'qwen2.5-coder']);
+            expect(result.models[1].modes).toContain('reason');
+            expect(result.models[2].modes).toContain('code');
+            expect(result.models[0].pricing).toEqual({ input: 0, output: 0 });
+            expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:11434/v1/models');
+        });
+
+        it('falls back to Ollama /api/tags', async () => {
+            mockFetch
+                .mockResolvedValueOnce(createMockResponse({ error: 'not found' }, false, 404))
+                .mockResolvedValueOnce(createMockResponse({ models: [{ name: 'mistral:7b' }] }));
+
+            const result = await provider.testKey('http://localhost:11434');
+
+            expect(result.valid).toBe(true);
+            expect(result.models[0].id).toBe('mistral:7b');
+            expect(mockFetch.mock.calls[1][0]).toBe('http://localhost:11434/api/tags');
+        });
+
+        it('is invalid when no models are installed', async () => {
+            mockFetch.mockResolvedValueOnce(createMockResponse({ data: [] }));
+
+            const result = await provider.testKey('http://localhost:11434/v1');
+
+            expect(result.valid).toBe(false);
+            expect(result.error).toContain('no models');
+        });
+
+        it('reports unreachable servers', async () => {
+            mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+            const result = await provider.testKey('http://localhost:1234/v1');
+
+            expect(result.valid).toBe(false);
+            expect(result.error).toContain('ECONNREFUSED');
+        });
+    });
+
+    describe('chat()', () => {
+        it('posts to chat/completions with the bearer token', async () => {
+            mockFetch.mockResolvedValueOnce(createMockResponse({
+                model: 'llama3.1:8b',
+                choices: [{ message: { content: 'Hello from local' } }],
+                usage: { prompt_tokens: 5, completion_tokens: 3 }
+            }));
+
+            const result = await provider.chat('http://gpu:8000/v1|secret', { prompt: 'Hi', model: 'llama3.1:8b' });
+
+            expect(result.success).toBe(true);
+            expect(result.content).toBe('Hello from local');
+            expect(result.usage).toEqual({ inputTokens: 5, outputTokens: 3 });
+
+            const [url, init] = mockFetch.mock.calls[0];
+            expect(url).toBe('http://gpu:8000/v1/chat/completions');
+            expect(init.headers.Authorization).toBe('Bearer secret');
+        });
+
+        it('requires a model', async () => {
+            const result = await provider.chat('http://localhost:11434/v1', { prompt: 'Hi' });
+
+            expect(result.success).toBe(false);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('stream()', () => {
+        it('yields deltas across split SSE chunks', async () => {
+            mockFetch.mockResolvedValueOnce(createStreamResponse([
+                'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+                'ta":{"content":"lo"}}]}\n\n',
+                'data: [DONE]\n\n'
+            ]));
+
+            const parts: string[] = [];
+            for await (const text of provider.stream('http://localhost:11434/v1', { prompt: 'Hi', model: 'llama3.1' })) {
+                parts.push(text);
+            }
+
+            expect(parts).toEqual(['Hel', 'lo']);
+        });
+    });
+});
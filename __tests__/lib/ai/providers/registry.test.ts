@@ -59,7 +59,7 @@ describe('ProviderRegistry', () => {
         it('should initialize states for all providers', () => {
             const states = registry.getAllStates();
 
-            expect(states.length).toBe(5); // gemini, deepseek, openrouter, perplexity, vercel
+            expect(states.length).toBe(6); // gemini, deepseek, openrouter, perplexity, vercel, local
             expect(states.every(s => s.enabled === false)).toBe(true);
             expect(states.every(s => s.keyValidated === false)).toBe(true);
         });
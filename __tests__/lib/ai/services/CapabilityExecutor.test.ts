@@ -7,8 +7,10 @@
 import {
     CapabilityExecutor,
     getCapabilityExecutor,
-    ProviderDiagnostics
+    ProviderDiagnostics,
+    type StreamEvent
 } from '@/lib/ai/services/CapabilityExecutor';
+import { createCircuitBreaker } from '@/lib/ai/circuitBreaker';
 import type {
     CapabilityHandler,
     CapabilitiesConfig,
@@ -339,6 +341,263 @@ describe('CapabilityExecutor', () => {
         });
     });
 
+    describe('responseSchema', () => {
+        const schema = {
+            type: 'object',
+            properties: { keywords: { type: 'array', items: { type: 'string' }, minItems: 1 } },
+            required: ['keywords'],
+        };
+
+        const textResult = (text: string): ExecuteResult => ({
+            success: true,
+            text,
+            handlerUsed: 'test-handler',
+            source: 'ai-provider',
+            latencyMs: 10,
+        });
+
+        it('should return the parsed JSON as data', async () => {
+            const handler = createMockHandler({
+                execute: jest.fn().mockResolvedValue(textResult('```json\n{"keywords": ["a", "b"]}\n```'))
+            });
+
+            const result = await executor.execute(
+                { capability: 'generate', prompt: 'List keywords', responseSchema: schema },
+                [handler],
+                createMockConfig()
+            );
+
+            expect(result.success).toBe(true);
+            expect(result.data).toEqual({ keywords: ['a', 'b'] });
+        });
+
+        it('should append schema instructions for handlers without native support', async () => {
+            const handler = createMockHandler({
+                execute: jest.fn().mockResolvedValue(textResult('{"keywords": ["a"]}'))
+            });
+
+            await executor.execute(
+                { capability: 'generate', prompt: 'List keywords', responseSchema: schema },
+                [handler],
+                createMockConfig()
+            );
+
+            const sent = (handler.execute as jest.Mock).mock.calls[0][0] as ExecuteOptions;
+            expect(sent.prompt).toContain('List keywords');
+            expect(sent.prompt).toContain('JSON Schema');
+        });
+
+        it('should leave the prompt alone for native structured output handlers', async () => {
+            const handler = createMockHandler({
+                structuredOutput: true,
+                execute: jest.fn().mockResolvedValue(textResult('{"keywords": ["a"]}'))
+            });
+
+            await executor.execute(
+                { capability: 'generate', prompt: 'List keywords', responseSchema: schema },
+                [handler],
+                createMockConfig()
+            );
+
+            expect((handler.execute as jest.Mock).mock.calls[0][0].prompt).toBe('List keywords');
+        });
+
+        it('should re-prompt with validation errors until the output matches', async () => {
+            const handler = createMockHandler({
+                structuredOutput: true,
+                execute: jest.fn()
+                    .mockResolvedValueOnce(textResult('{"keywords": []}'))
+                    .mockResolvedValueOnce(textResult('{"keywords": ["fixed"]}'))
+            });
+
+            const result = await executor.execute(
+                { capability: 'generate', prompt: 'List keywords', responseSchema: schema, maxRetries: 2 },
+                [handler],
+                createMockConfig()
+            );
+
+            expect(result.success).toBe(true);
+            expect(result.data).toEqual({ keywords: ['fixed'] });
+
+            const repair = (handler.execute as jest.Mock).mock.calls[1][0] as ExecuteOptions;
+            expect(repair.prompt).toContain('List keywords');
+            expect(repair.prompt).toContain('{"keywords": []}');
+            expect(repair.prompt).toContain('$.keywords: needs at least 1 items');
+        });
+
+        it('should fail with the schema errors when repair retries run out', async () => {
+            const handler = createMockHandler({
+                execute: jest.fn().mockResolvedValue(textResult('not json'))
+            });
+
+            const result = await executor.execute(
+                { capability: 'generate', prompt: 'List keywords', responseSchema: schema, maxRetries: 1 },
+                [handler],
+                createMockConfig()
+            );
+
+            expect(result.success).toBe(false);
+            expect(handler.execute).toHaveBeenCalledTimes(2);
+            expect(result.error).toContain('does not match schema');
+        });
+    });
+
+    describe('executeStream()', () => {
+        const collect = async (events: AsyncGenerator<StreamEvent>) => {
+            const out: StreamEvent[] = [];
+            for await (const event of events) out.push(event);
+            return out;
+        };
+
+        const streamOf = (parts: string[]) => jest.fn(async function* () {
+            for (const part of parts) yield part;
+        });
+
+        it('should yield chunks then a done result with the full text', async () => {
+            const handler = createMockHandler({ stream: streamOf(['Hello ', 'world']) });
+
+            const events = await collect(executor.executeStream(
+                { capability: 'generate', prompt: 'Test' }, [handler], createMockConfig()
+            ));
+
+            expect(events.map(e => e.type)).toEqual(['start', 'chunk', 'chunk', 'done']);
+            const done = events[3] as Extract<StreamEvent, { type: 'done' }>;
+            expect(done.result.success).toBe(true);
+            expect(done.result.text).toBe('Hello world');
+            expect(handler.execute).not.toHaveBeenCalled();
+        });
+
+        it('should send a non-streaming handler as a single chunk', async () => {
+            const handler = createMockHandler();
+
+            const events = await collect(executor.executeStream(
+                { capability: 'generate', prompt: 'Test' }, [handler], createMockConfig()
+            ));
+
+            const chunks = events.filter(e => e.type === 'chunk');
+            expect(chunks).toEqual([{ type: 'chunk', text: 'Test generated content' }]);
+        });
+
+        it('should fall back when a handler fails before its first chunk', async () => {
+            const primary = createMockHandler({
+                id: 'primary',
+                stream: jest.fn(async function* (): AsyncGenerator<string> {
+                    throw new Error('Connection refused');
+                })
+            });
+            const fallback = createMockHandler({ id: 'fallback', stream: streamOf(['From fallback']) });
+            const config = createMockConfig({
+                capabilitySettings: {
+                    generate: { defaultHandlerId: 'primary', fallbackHandlerIds: ['fallback'], isEnabled: true }
+                }
+            });
+
+            const events = await collect(executor.executeStream(
+                { capability: 'generate', prompt: 'Test' }, [primary, fallback], config
+            ));
+
+            expect(events.filter(e => e.type === 'start')).toHaveLength(2);
+            const done = events[events.length - 1] as Extract<StreamEvent, { type: 'done' }>;
+            expect(done.result.success).toBe(true);
+            expect(done.result.handlerUsed).toBe('fallback');
+        });
+
+        it('should stop with a cancelled result when the signal aborts', async () => {
+            const controller = new AbortController();
+            const handler = createMockHandler({
+                stream: jest.fn(async function* () {
+                    yield 'Partial';
+                    controller.abort();
+                    yield ' never sent';
+                })
+            });
+
+            const events = await collect(executor.executeStream(
+                { capability: 'generate', prompt: 'Test', signal: controller.signal }, [handler], createMockConfig()
+            ));
+
+            const done = events[events.length - 1] as Extract<StreamEvent, { type: 'done' }>;
+            expect(done.result.cancelled).toBe(true);
+            expect(done.result.text).toBe('Partial');
+            expect(events.filter(e => e.type === 'chunk')).toHaveLength(1);
+        });
+    });
+
+    describe('circuit breaker', () => {
+        const failed: ExecuteResult = {
+            success: false,
+            error: 'HTTP 503',
+            handlerUsed: 'primary',
+            source: 'ai-provider',
+            latencyMs: 20,
+        };
+
+        const fallbackConfig = () => createMockConfig({
+            capabilitySettings: {
+                generate: { defaultHandlerId: 'primary', fallbackHandlerIds: ['fallback'], isEnabled: true }
+            }
+        });
+
+        it('should skip handlers whose circuit is open', async () => {
+            const breaker = createCircuitBreaker({ minCalls: 2 });
+            breaker.recordFailure('primary', 'HTTP 503');
+            breaker.recordFailure('primary', 'HTTP 503');
+            executor = new CapabilityExecutor({ logToConsole: false, circuitBreaker: breaker });
+
+            const primary = createMockHandler({ id: 'primary' });
+            const fallback = createMockHandler({ id: 'fallback' });
+
+            const result = await executor.execute(
+                { capability: 'generate', prompt: 'Test', maxRetries: 0 },
+                [primary, fallback],
+                fallbackConfig()
+            );
+
+            expect(result.success).toBe(true);
+            expect(primary.execute).not.toHaveBeenCalled();
+            expect(fallback.execute).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop retrying once the circuit opens', async () => {
+            const breaker = createCircuitBreaker({ minCalls: 2 });
+            executor = new CapabilityExecutor({ logToConsole: false, circuitBreaker: breaker });
+
+            const primary = createMockHandler({ id: 'primary', execute: jest.fn().mockResolvedValue(failed) });
+            const fallback = createMockHandler({ id: 'fallback' });
+
+            const result = await executor.execute(
+                { capability: 'generate', prompt: 'Test', maxRetries: 5 },
+                [primary, fallback],
+                fallbackConfig()
+            );
+
+            expect(result.success).toBe(true);
+            expect(primary.execute).toHaveBeenCalledTimes(2);
+            expect(breaker.getState('primary')).toBe('open');
+            expect(breaker.getSnapshot('primary').provider).toBe('test-provider');
+        });
+
+        it('should try degraded handlers after healthy ones', async () => {
+            const breaker = createCircuitBreaker({ minCalls: 10 });
+            breaker.recordFailure('primary', 'HTTP 503');
+            breaker.recordFailure('primary', 'HTTP 503');
+            breaker.recordSuccess('primary', 10);
+            executor = new CapabilityExecutor({ logToConsole: false, circuitBreaker: breaker });
+
+            const primary = createMockHandler({ id: 'primary' });
+            const fallback = createMockHandler({ id: 'fallback' });
+
+            await executor.execute(
+                { capability: 'generate', prompt: 'Test', maxRetries: 0 },
+                [primary, fallback],
+                fallbackConfig()
+            );
+
+            expect(fallback.execute).toHaveBeenCalledTimes(1);
+            expect(primary.execute).not.toHaveBeenCalled();
+        });
+    });
+
     describe('updateConfig()', () => {
         it('should update executor configuration', () => {
             executor.updateConfig({ defaultMaxRetries: 5 });
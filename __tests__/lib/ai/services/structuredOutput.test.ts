@@ -0,0 +1,102 @@
+/**
+ * Tests for structured output helpers
+ *
+ * JSON extraction, JSON Schema subset validation and zod conversion.
+ */
+
+import { z } from 'zod';
+import {
+    extractJson,
+    parseStructuredOutput,
+    toJsonSchema,
+    validateJsonSchema,
+    buildSchemaInstruction,
+} from '@/lib/ai/services/structuredOutput';
+
+describe('structuredOutput', () => {
+    const keywordSchema = {
+        type: 'object',
+        properties: {
+            niche: { type: 'string', minLength: 1 },
+            keywords: { type: 'array', items: { type: 'string' }, minItems: 2 },
+            intent: { enum: ['commercial', 'informational'] },
+        },
+        required: ['niche', 'keywords'],
+    };
+
+    describe('extractJson()', () => {
+        it('parses plain JSON', () => {
+            expect(extractJson('{"a":1}')).toEqual({ a: 1 });
+        });
+
+        it('unwraps code fences and surrounding prose', () => {
+            expect(extractJson('Here you go:\n```json\n{"a": [1, 2]}\n```')).toEqual({ a: [1, 2] });
+            expect(extractJson('Sure! {"a": true} Hope that helps.')).toEqual({ a: true });
+        });
+
+        it('throws when there is no JSON', () => {
+            expect(() => extractJson('no json here')).toThrow('no JSON');
+        });
+    });
+
+    describe('validateJsonSchema()', () => {
+        it('accepts matching data', () => {
+            expect(validateJsonSchema({ niche: 'Tech', keywords: ['a', 'b'], intent: 'commercial' }, keywordSchema)).toEqual([]);
+        });
+
+        it('reports paths for each violation', () => {
+            const errors = validateJsonSchema({ keywords: ['a', 3], intent: 'other' }, keywordSchema);
+
+            expect(errors).toEqual(expect.arrayContaining([
+                '$.niche: is required',
+                '$.keywords[1]: expected string, got integer',
+                expect.stringContaining('$.intent: must be one of'),
+            ]));
+        });
+
+        it('treats integers as numbers', () => {
+            expect(validateJsonSchema(3, { type: 'number' })).toEqual([]);
+            expect(validateJsonSchema(3.5, { type: 'integer' })).toHaveLength(1);
+        });
+    });
+
+    describe('parseStructuredOutput()', () => {
+        it('validates text output against a JSON Schema', () => {
+            const result = parseStructuredOutput('```json\n{"niche":"Tech","keywords":["a","b"]}\n```', keywordSchema);
+
+            expect(result).toEqual({ ok: true, data: { niche: 'Tech', keywords: ['a', 'b'] } });
+        });
+
+        it('validates with zod and returns the parsed value', () => {
+            const schema = z.object({ count: z.number().min(1) });
+
+            expect(parseStructuredOutput('{"count": 2}', schema)).toEqual({ ok: true, data: { count: 2 } });
+
+            const invalid = parseStructuredOutput('{"count": 0}', schema);
+            expect(invalid.ok).toBe(false);
+            if (!invalid.ok) expect(invalid.errors[0]).toContain('$.count');
+        });
+
+        it('fails on unparseable text', () => {
+            expect(parseStructuredOutput('I cannot help with that', keywordSchema).ok).toBe(false);
+        });
+    });
+
+    describe('toJsonSchema()', () => {
+        it('converts zod schemas without the $schema key', () => {
+            const json = toJsonSchema(z.object({ name: z.string() }));
+
+            expect(json.$schema).toBeUndefined();
+            expect(json.type).toBe('object');
+            expect(json.required).toEqual(['name']);
+        });
+
+        it('passes JSON Schemas through', () => {
+            expect(toJsonSchema(keywordSchema)).toBe(keywordSchema);
+        });
+
+        it('embeds the schema in prompt instructions', () => {
+            expect(buildSchemaInstruction(keywordSchema)).toContain('"minItems": 2');
+        });
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for settingsBackup.ts - Sealed and plain settings exports
+ */
+
+import type { ExportedSettings, UserProfile } from '@/stores/settingsStore';
+
+const exported: ExportedSettings = {
+    version: '4.0.0',
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    app: 'AdSense Ifrit V3',
+    profile: { geminiApiKey: 'gem-key' } as unknown as UserProfile,
+};
+
+jest.mock('@/stores/settingsStore', () => ({
+    useSettingsStore: { getState: () => ({ exportSettings: () => exported }) },
+}));
+
+import { exportEncryptedSettings } from '@/lib/backup/settingsBackup';
+
+describe('settingsBackup', () => {
+    let requests: Array<{ url: string; body?: Record<string, unknown> }>;
+
+    const mockVault = (configured: boolean) => {
+        requests = [];
+        global.fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+            requests.push({ url: String(url), body: init?.body ? JSON.parse(String(init.body)) : undefined });
+            const data = init?.method === 'POST'
+                ? { success: true, sealed: 'v1:sealed' }
+                : { success: true, configured, keyVersion: configured ? 1 : 0 };
+            return { ok: true, json: async () => data } as Response;
+        }) as unknown as typeof fetch;
+    };
+
+    describe('exportEncryptedSettings()', () => {
+        it('should seal the profile when the vault is configured', async () => {
+            mockVault(true);
+
+            const result = await exportEncryptedSettings();
+
+            expect(result.profile).toBeUndefined();
+            expect(result.encrypted).toBe('v1:sealed');
+            expect(result.version).toBe('4.0.0');
+            expect(requests[1].body).toEqual({ action: 'seal', data: JSON.stringify({ profile: exported.profile }) });
+        });
+
+        it('should fall back to a plain export without a master key', async () => {
+            mockVault(false);
+
+            const result = await exportEncryptedSettings();
+
+            expect(result).toEqual(exported);
+            expect(requests.map(r => r.url)).toEqual(['/api/settings/vault']);
+            expect(requests[0].body).toBeUndefined();
+        });
+    });
+});
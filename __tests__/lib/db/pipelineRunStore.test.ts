@@ -0,0 +1,192 @@
+/**
+ * Tests for pipelineRunStore.ts - Durable run history, checkpoints and queue
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+    fileCheckpointStore,
+    saveRunRecord,
+    getRunRecord,
+    upsertRunItem,
+    enqueueRunItems,
+    leaseNextRunItem,
+    renewRunItemLease,
+    completeRunItem,
+    failRunItem,
+    cancelQueuedRunItems,
+    listRunQueue,
+} from '@/lib/db/pipelineRunStore';
+import type { CampaignRun } from '@/features/campaigns/model/types';
+
+describe('pipelineRunStore', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ifrit-runs-'));
+        jest.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    const item = (id: string) => ({ id, topic: `Topic ${id}`, sourceType: 'keywords' as const });
+
+    describe('checkpoints', () => {
+        it('should round-trip a checkpoint through the file store', () => {
+            fileCheckpointStore.save({
+                runId: 'run_1',
+                campaignId: 'camp_1',
+                itemId: 'best running shoes',
+                completedStages: ['dedup', 'research'],
+                currentStage: 'generate',
+                stageData: { dedup: { success: true, duration: 5 } },
+                context: { status: 'generating', content: { title: 'T', body: 'B', excerpt: '', slug: 't' } },
+                createdAt: 1,
+                updatedAt: 2,
+            });
+
+            const loaded = fileCheckpointStore.load('camp_1', 'best running shoes');
+            expect(loaded?.currentStage).toBe('generate');
+            expect(loaded?.context.content?.title).toBe('T');
+            expect(fileCheckpointStore.list()).toHaveLength(1);
+
+            fileCheckpointStore.clear('camp_1', 'best running shoes');
+            expect(fileCheckpointStore.load('camp_1', 'best running shoes')).toBeNull();
+        });
+    });
+
+    describe('run history', () => {
+        it('should upsert run items on a stored run', () => {
+            const run: CampaignRun = {
+                id: 'run_1',
+                campaignId: 'camp_1',
+                startedAt: Date.now(),
+                status: 'running',
+                postsGenerated: 0,
+                postsPublished: 0,
+                errors: [],
+                items: [],
+            };
+            saveRunRecord(run);
+
+            upsertRunItem('run_1', { id: 'a', topic: 'A', status: 'generating', startedAt: 1 });
+            upsertRunItem('run_1', { id: 'a', topic: 'A', status: 'done', startedAt: 1, wpPostId: 42 });
+
+            const stored = getRunRecord('run_1');
+            expect(stored?.items).toHaveLength(1);
+            expect(stored?.items[0]).toMatchObject({ status: 'done', wpPostId: 42 });
+        });
+    });
+
+    describe('queue', () => {
+        it('should lease items in order and not hand out a live lease twice', async () => {
+            await enqueueRunItems('camp_1', 'run_1', [item('a'), item('b')]);
+
+            const first = await leaseNextRunItem('w1', 1000, 0);
+            const second = await leaseNextRunItem('w2', 1000, 0);
+            const third = await leaseNextRunItem('w3', 1000, 0);
+
+            expect(first?.sourceItem.id).toBe('a');
+            expect(second?.sourceItem.id).toBe('b');
+            expect(third).toBeNull();
+        });
+
+        it('should re-lease an item whose worker died', async () => {
+            await enqueueRunItems('camp_1', 'run_1', [item('a')]);
+            await leaseNextRunItem('crashed', 1000, 0);
+
+            expect(await leaseNextRunItem('w2', 1000, 500)).toBeNull();
+
+            const recovered = await leaseNextRunItem('w2', 1000, 1500);
+            expect(recovered?.leaseOwner).toBe('w2');
+            expect(recovered?.attempts).toBe(2);
+            expect(await completeRunItem(recovered!.id, 'crashed')).toBe(false);
+            expect(await completeRunItem(recovered!.id, 'w2')).toBe(true);
+        });
+
+        it('should renew only the owner lease', async () => {
+            const [entry] = await enqueueRunItems('camp_1', 'run_1', [item('a')]);
+            await leaseNextRunItem('w1', 1000, 0);
+
+            expect(await renewRunItemLease(entry.id, 'w2', 1000, 100)).toBe(false);
+            expect(await renewRunItemLease(entry.id, 'w1', 1000, 900)).toBe(true);
+            expect(await leaseNextRunItem('w2', 1000, 1500)).toBeNull();
+        });
+
+        it('should requeue failures until max attempts', async () => {
+            await enqueueRunItems('camp_1', 'run_1', [item('a')], 2);
+
+            const attempt1 = (await leaseNextRunItem('w1'))!;
+            expect((await failRunItem(attempt1.id, 'w1', 'boom', 0))?.status).toBe('queued');
+
+            const attempt2 = (await leaseNextRunItem('w1'))!;
+            expect((await failRunItem(attempt2.id, 'w1', 'boom again', 0))?.status).toBe('failed');
+            expect(await leaseNextRunItem('w1')).toBeNull();
+        });
+
+        it('should hold retries back with a doubling backoff', async () => {
+            await enqueueRunItems('camp_1', 'run_1', [item('a')], 3);
+
+            const attempt1 = (await leaseNextRunItem('w1', 1000, 0))!;
+            expect((await failRunItem(attempt1.id, 'w1', 'boom', 100, 0))?.notBefore).toBe(100);
+            expect(await leaseNextRunItem('w1', 1000, 99)).toBeNull();
+
+            const attempt2 = (await leaseNextRunItem('w1', 1000, 100))!;
+            expect(attempt2.notBefore).toBeUndefined();
+            expect((await failRunItem(attempt2.id, 'w1', 'boom', 100, 100))?.notBefore).toBe(300);
+            expect(await leaseNextRunItem('w1', 1000, 299)).toBeNull();
+            expect((await leaseNextRunItem('w1', 1000, 300))?.attempts).toBe(3);
+        });
+
+        it('should fail an expired lease that used up its attempts', async () => {
+            await enqueueRunItems('camp_1', 'run_1', [item('a')], 1);
+            await enqueueRunItems('camp_1', 'run_1', [item('b')]);
+            await leaseNextRunItem('crashed', 1000, 0);
+
+            const next = await leaseNextRunItem('w2', 1000, 1500);
+
+            expect(next?.sourceItem.id).toBe('b');
+            const [exhausted] = listRunQueue({ status: 'failed' });
+            expect(exhausted.sourceItem.id).toBe('a');
+            expect(exhausted.attempts).toBe(1);
+            expect(exhausted.lastError).toContain('Lease expired');
+        });
+
+        it('should release the queue lock and take over a stale one', async () => {
+            const lockPath = path.join(tmpDir, '.data', 'pipeline', 'queue.json.lock');
+            await enqueueRunItems('camp_1', 'run_1', [item('a')]);
+            expect(fs.existsSync(lockPath)).toBe(false);
+
+            fs.writeFileSync(lockPath, '99999');
+            const stale = (Date.now() - 60_000) / 1000;
+            fs.utimesSync(lockPath, stale, stale);
+
+            expect((await leaseNextRunItem('w1'))?.sourceItem.id).toBe('a');
+            expect(fs.existsSync(lockPath)).toBe(false);
+        });
+
+        it('should wait for a live lock without blocking its holder', async () => {
+            const lockPath = path.join(tmpDir, '.data', 'pipeline', 'queue.json.lock');
+            await enqueueRunItems('camp_1', 'run_1', [item('a')]);
+
+            fs.writeFileSync(lockPath, 'other:1:token');
+            setTimeout(() => fs.rmSync(lockPath), 50);
+
+            expect((await leaseNextRunItem('w1'))?.sourceItem.id).toBe('a');
+            expect(fs.existsSync(lockPath)).toBe(false);
+        });
+
+        it('should cancel waiting items for a campaign', async () => {
+            await enqueueRunItems('camp_1', 'run_1', [item('a'), item('b')]);
+            await enqueueRunItems('camp_2', 'run_2', [item('c')]);
+
+            expect(await cancelQueuedRunItems('camp_1', 'paused')).toBe(2);
+            expect(listRunQueue({ status: 'queued' }).map(e => e.campaignId)).toEqual(['camp_2']);
+        });
+    });
+});
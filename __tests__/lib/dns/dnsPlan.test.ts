@@ -0,0 +1,101 @@
+/**
+ * DNS Plan Tests
+ * Building a desired-state plan, diffing it against a live zone and drift reports
+ */
+
+import { buildDnsPlan, diffDnsPlan, DnsPlanError, toDriftReport } from '@/lib/dns/dnsPlan';
+import { recordSetId } from '@/lib/dns/records';
+import type { DNSRecord } from '@/lib/dns/dnsProviders';
+import type { EmailDNSConfig } from '@/lib/domains/emailDeliverability';
+import type { ManagedDnsRecord } from '@/lib/dns/providers/types';
+
+const managed = (record: DNSRecord): ManagedDnsRecord => ({ ...record, id: recordSetId(record) });
+
+const email: EmailDNSConfig = {
+    domain: 'example.com',
+    score: 90,
+    status: 'partial',
+    recommendations: [],
+    records: [
+        { type: 'MX', name: '@', value: 'mx1.mail.example.net.', priority: 10, purpose: 'mx', required: true },
+        { type: 'TXT', name: '@', value: 'v=spf1 include:_spf.mail.example.net ~all', purpose: 'spf', required: true },
+    ],
+};
+
+describe('buildDnsPlan', () => {
+    it('combines hosting and email records with normalized values', () => {
+        const plan = buildDnsPlan({ domain: 'Example.com', provider: 'cloudflare', hosting: { type: 'vercel' }, email });
+
+        expect(plan.domain).toBe('example.com');
+        expect(plan.records.map(r => `${r.source}:${r.type}:${r.host}:${r.value}`)).toEqual([
+            'hosting:A:@:76.76.21.21',
+            'hosting:CNAME:www:cname.vercel-dns.com',
+            'email:MX:@:mx1.mail.example.net',
+            'email:TXT:@:v=spf1 include:_spf.mail.example.net ~all',
+        ]);
+    });
+
+    it('lets custom records replace conflicting hosting records', () => {
+        const plan = buildDnsPlan({
+            domain: 'example.com',
+            provider: 'cloudflare',
+            hosting: { type: 'vercel' },
+            custom: [{ type: 'CNAME', host: 'www', value: 'proxy.example.net', ttl: 300 }],
+        });
+
+        const www = plan.records.filter(r => r.host === 'www');
+        expect(www).toHaveLength(1);
+        expect(www[0]).toMatchObject({ source: 'custom', value: 'proxy.example.net' });
+    });
+
+    it('keeps creation time from the previous plan and rejects bad hosting targets', () => {
+        const first = buildDnsPlan({ domain: 'example.com', provider: 'godaddy', hosting: { type: 'none' } });
+        const rebuilt = buildDnsPlan({ domain: 'example.com', provider: 'godaddy', hosting: { type: 'none' } }, { ...first, createdAt: 1 });
+        expect(rebuilt.createdAt).toBe(1);
+
+        expect(() => buildDnsPlan({
+            domain: 'example.com',
+            provider: 'hostinger',
+            hosting: { type: 'hostinger', ip: 'not-an-ip' },
+        })).toThrow(DnsPlanError);
+    });
+});
+
+describe('diffDnsPlan', () => {
+    const plan = buildDnsPlan({ domain: 'example.com', provider: 'namecheap', hosting: { type: 'vercel' }, email });
+
+    it('reports adds, changes and conflicting deletes but leaves unrelated records', () => {
+        const live = [
+            managed({ type: 'A', host: '@', value: '192.0.2.1', ttl: 1800 }),
+            managed({ type: 'CNAME', host: 'www', value: 'cname.vercel-dns.com', ttl: 1800 }),
+            managed({ type: 'MX', host: '@', value: 'mx.oldmail.example', priority: 5, ttl: 1800 }),
+            managed({ type: 'TXT', host: 'google._domainkey', value: 'v=DKIM1; k=rsa; p=abc', ttl: 1800 }),
+            managed({ type: 'A', host: 'shop', value: '192.0.2.9', ttl: 1800 }),
+        ];
+
+        const diff = diffDnsPlan(plan, live);
+
+        expect(diff.inSync).toBe(false);
+        expect(diff.unchanged.map(r => r.host)).toEqual(['www']);
+        expect(diff.changes).toHaveLength(1);
+        expect(diff.changes[0].from.value).toBe('192.0.2.1');
+        expect(diff.changes[0].to.value).toBe('76.76.21.21');
+        expect(diff.adds.map(r => r.type)).toEqual(['MX', 'TXT']);
+        expect(diff.deletes.map(r => r.value)).toEqual(['mx.oldmail.example']);
+    });
+
+    it('is in sync once the zone matches, with a fingerprint that tracks the change set', () => {
+        const live = plan.records.map(managed);
+        const synced = diffDnsPlan(plan, live);
+        expect(synced.inSync).toBe(true);
+
+        const drifted = diffDnsPlan(plan, live.filter(r => r.type !== 'MX'));
+        const driftedAgain = diffDnsPlan(plan, live.filter(r => r.type !== 'MX'));
+        expect(drifted.fingerprint).not.toBe(synced.fingerprint);
+        expect(driftedAgain.fingerprint).toBe(drifted.fingerprint);
+
+        const report = toDriftReport(drifted, 1000);
+        expect(report).toMatchObject({ checkedAt: 1000, inSync: false, missing: 1, changed: 0, unexpected: 0 });
+        expect(report.summary).toContain('MX @ 10 mx1.mail.example.net');
+    });
+});
@@ -28,10 +28,29 @@ import {
     type DNSRecord
 } from '@/lib/dns/dnsProviders';
 
+// In-memory stand-in for /api/settings/secrets
+let vault: Record<string, string> = {};
+
+function mockSecretsApi() {
+    global.fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = new URL(String(input), 'http://localhost');
+        const names = (url.searchParams.get('names') || '').split(',').filter(Boolean);
+
+        if (init?.method === 'POST') {
+            Object.assign(vault, JSON.parse(String(init.body)).secrets);
+            return { ok: true, json: async () => ({ success: true }) };
+        }
+        const secrets = Object.fromEntries(names.filter(n => vault[n]).map(n => [n, vault[n]]));
+        return { ok: true, json: async () => ({ success: true, secrets }) };
+    }) as unknown as typeof fetch;
+}
+
 describe('DNS Providers', () => {
     beforeEach(() => {
         jest.clearAllMocks();
         mockLocalStorage.clear();
+        vault = {};
+        mockSecretsApi();
     });
 
     describe('DNS_PROVIDERS constant', () => {
@@ -42,17 +61,18 @@ describe('DNS Providers', () => {
             expect(namecheap?.implemented).toBe(true);
         });
 
-        it('should include cloudflare as not implemented', () => {
-            const cloudflare = DNS_PROVIDERS.find(p => p.id === 'cloudflare');
-
-            expect(cloudflare).toBeDefined();
-            expect(cloudflare?.implemented).toBe(false);
+        it('should implement record management for every registrar', () => {
+            expect(DNS_PROVIDERS.map(p => p.id)).toEqual(['namecheap', 'cloudflare', 'godaddy', 'route53', 'hostinger']);
+            expect(DNS_PROVIDERS.every(p => p.implemented)).toBe(true);
         });
 
         it('should have required fields for each provider', () => {
             DNS_PROVIDERS.forEach(provider => {
                 expect(provider.requiredFields).toBeDefined();
                 expect(provider.requiredFields.length).toBeGreaterThan(0);
+                provider.requiredFields.forEach(field => {
+                    expect(provider.fields.map(f => f.key)).toContain(field);
+                });
             });
         });
     });
@@ -75,42 +95,55 @@ describe('DNS Providers', () => {
     });
 
     describe('getDNSCredentials()', () => {
-        it('should return null when no credentials stored', () => {
-            mockLocalStorage.getItem.mockReturnValue(null);
-
-            const creds = getDNSCredentials('namecheap');
+        it('should return null when no credentials stored', async () => {
+            const creds = await getDNSCredentials('namecheap');
 
             expect(creds).toBeNull();
         });
 
-        it('should return namecheap credentials when stored', () => {
-            mockLocalStorage.getItem.mockImplementation((key: string) => {
-                const values: Record<string, string> = {
-                    'ifrit_namecheap_user': 'test-user',
-                    'ifrit_namecheap_key': 'test-key',
-                    'ifrit_namecheap_username': 'test-username',
-                    'ifrit_namecheap_client_ip': '192.168.1.1'
-                };
-                return values[key] || null;
+        it('should return namecheap credentials from the vault', async () => {
+            Object.assign(vault, {
+                'ifrit_namecheap_user': 'test-user',
+                'ifrit_namecheap_key': 'test-key',
+                'ifrit_namecheap_username': 'test-username',
+                'ifrit_namecheap_client_ip': '192.168.1.1'
             });
 
-            const creds = getDNSCredentials('namecheap');
+            const creds = await getDNSCredentials('namecheap');
 
             expect(creds).not.toBeNull();
             expect(creds?.namecheapApiUser).toBe('test-user');
             expect(creds?.namecheapApiKey).toBe('test-key');
         });
 
-        it('should return null for unimplemented providers', () => {
-            const creds = getDNSCredentials('godaddy');
+        it('should move credentials left in localStorage into the vault', async () => {
+            mockLocalStorage.setItem('ifrit_namecheap_user', 'legacy-user');
+            mockLocalStorage.setItem('ifrit_namecheap_key', 'legacy-key');
 
-            expect(creds).toBeNull();
+            const creds = await getDNSCredentials('namecheap');
+
+            expect(creds?.namecheapApiKey).toBe('legacy-key');
+            expect(vault['ifrit_namecheap_key']).toBe('legacy-key');
+            expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('ifrit_namecheap_key');
+            expect(mockLocalStorage.getItem('ifrit_namecheap_key')).toBeNull();
+        });
+
+        it('should return null until every required field is stored', async () => {
+            vault['ifrit_godaddy_key'] = 'gd-key';
+            expect(await getDNSCredentials('godaddy')).toBeNull();
+
+            vault['ifrit_godaddy_secret'] = 'gd-secret';
+            expect(await getDNSCredentials('godaddy')).toEqual({
+                provider: 'godaddy',
+                godaddyKey: 'gd-key',
+                godaddySecret: 'gd-secret',
+            });
         });
     });
 
     describe('saveDNSCredentials()', () => {
-        it('should save namecheap credentials', () => {
-            saveDNSCredentials({
+        it('should save namecheap credentials to the vault, not localStorage', async () => {
+            await saveDNSCredentials({
                 provider: 'namecheap',
                 namecheapApiUser: 'user',
                 namecheapApiKey: 'key',
@@ -118,55 +151,55 @@ describe('DNS Providers', () => {
                 namecheapClientIp: '1.2.3.4'
             });
 
-            expect(mockLocalStorage.setItem).toHaveBeenCalledWith('ifrit_namecheap_user', 'user');
-            expect(mockLocalStorage.setItem).toHaveBeenCalledWith('ifrit_namecheap_key', 'key');
+            expect(vault['ifrit_namecheap_user']).toBe('user');
+            expect(vault['ifrit_namecheap_key']).toBe('key');
+            expect(mockLocalStorage.setItem).not.toHaveBeenCalled();
         });
 
-        it('should save cloudflare token', () => {
-            saveDNSCredentials({
+        it('should save cloudflare token', async () => {
+            await saveDNSCredentials({
                 provider: 'cloudflare',
                 cloudflareApiToken: 'cf-token'
             });
 
-            expect(mockLocalStorage.setItem).toHaveBeenCalledWith('ifrit_cloudflare_token', 'cf-token');
+            expect(vault['ifrit_cloudflare_token']).toBe('cf-token');
         });
-    });
 
-    describe('isDNSProviderConfigured()', () => {
-        it('should return true when credentials exist', () => {
-            mockLocalStorage.getItem.mockImplementation((key: string) => {
-                if (key === 'ifrit_namecheap_user') return 'user';
-                if (key === 'ifrit_namecheap_key') return 'key';
-                return null;
+        it('should save route53 keys', async () => {
+            await saveDNSCredentials({
+                provider: 'route53',
+                route53AccessKeyId: 'AKIAEXAMPLE',
+                route53SecretAccessKey: 'aws-secret',
             });
 
-            expect(isDNSProviderConfigured('namecheap')).toBe(true);
+            expect(vault['ifrit_route53_access_key_id']).toBe('AKIAEXAMPLE');
+            expect(vault['ifrit_route53_secret_access_key']).toBe('aws-secret');
         });
+    });
+
+    describe('isDNSProviderConfigured()', () => {
+        it('should return true when credentials exist', async () => {
+            Object.assign(vault, { 'ifrit_namecheap_user': 'user', 'ifrit_namecheap_key': 'key' });
 
-        it('should return false when no credentials', () => {
-            mockLocalStorage.getItem.mockReturnValue(null);
+            expect(await isDNSProviderConfigured('namecheap')).toBe(true);
+        });
 
-            expect(isDNSProviderConfigured('namecheap')).toBe(false);
+        it('should return false when no credentials', async () => {
+            expect(await isDNSProviderConfigured('namecheap')).toBe(false);
         });
     });
 
     describe('getConfiguredDNSProvider()', () => {
-        it('should return first configured implemented provider', () => {
-            mockLocalStorage.getItem.mockImplementation((key: string) => {
-                if (key === 'ifrit_namecheap_user') return 'user';
-                if (key === 'ifrit_namecheap_key') return 'key';
-                return null;
-            });
+        it('should return first configured implemented provider', async () => {
+            Object.assign(vault, { 'ifrit_namecheap_user': 'user', 'ifrit_namecheap_key': 'key' });
 
-            const provider = getConfiguredDNSProvider();
+            const provider = await getConfiguredDNSProvider();
 
             expect(provider).toBe('namecheap');
         });
 
-        it('should return null when no provider configured', () => {
-            mockLocalStorage.getItem.mockReturnValue(null);
-
-            const provider = getConfiguredDNSProvider();
+        it('should return null when no provider configured', async () => {
+            const provider = await getConfiguredDNSProvider();
 
             expect(provider).toBeNull();
         });
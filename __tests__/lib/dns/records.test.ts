@@ -0,0 +1,203 @@
+/**
+ * DNS Record Management Tests
+ * Record planning, the record-set adapter and provider wire formats
+ */
+
+import {
+    applyRecords,
+    mergeSpf,
+    normalizeValue,
+    planRecordChanges,
+    recordSetId,
+    toRelativeHost,
+} from '@/lib/dns/records';
+import { createRecordSetProvider } from '@/lib/dns/providers/recordSets';
+import { createNamecheapProvider } from '@/lib/dns/providers/namecheap';
+import { parseRecordSets, signRoute53Request } from '@/lib/dns/providers/route53';
+import { VERCEL_DNS_RECORDS, type DNSRecord } from '@/lib/dns/dnsProviders';
+import type { ManagedDnsRecord } from '@/lib/dns/providers/types';
+
+const managed = (record: DNSRecord): ManagedDnsRecord => ({ ...record, id: recordSetId(record) });
+
+/**
+ * In-memory record-set backend that counts writes
+ */
+function memoryProvider(initial: DNSRecord[]) {
+    let zone = [...initial];
+    const writes: string[] = [];
+    const provider = createRecordSetProvider({
+        id: 'godaddy',
+        getZone: async domain => ({ id: domain, name: domain }),
+        listRecords: async () => [...zone],
+        replaceSet: async (_zone, set, records) => {
+            writes.push(`${set.type} ${set.host} x${records.length}`);
+            zone = [...zone.filter(r => !(r.type === set.type && r.host === set.host)), ...records];
+        },
+    });
+    return { provider, writes, records: () => zone };
+}
+
+describe('record normalization', () => {
+    it('makes hosts relative to the zone and strips provider formatting', () => {
+        expect(toRelativeHost('example.com.', 'example.com')).toBe('@');
+        expect(toRelativeHost('www.Example.com', 'example.com')).toBe('www');
+        expect(toRelativeHost('_dmarc', 'example.com')).toBe('_dmarc');
+
+        expect(normalizeValue('TXT', '"v=spf1 include:a.com " "~all"')).toBe('v=spf1 include:a.com ~all');
+        expect(normalizeValue('CNAME', 'cname.vercel-dns.com.')).toBe('cname.vercel-dns.com');
+    });
+});
+
+describe('planRecordChanges', () => {
+    it('keeps matching records, replaces slot owners and merges SPF', () => {
+        const existing = [
+            managed({ type: 'A', host: '@', value: '1.2.3.4' }),
+            managed({ type: 'CNAME', host: 'www', value: 'cname.vercel-dns.com' }),
+            managed({ type: 'TXT', host: '@', value: 'v=spf1 include:_spf.google.com -all' }),
+            managed({ type: 'TXT', host: '@', value: 'google-site-verification=abc' }),
+            managed({ type: 'MX', host: '@', value: 'mx1.improvmx.com', priority: 5 }),
+        ];
+        const desired: DNSRecord[] = [
+            ...VERCEL_DNS_RECORDS,
+            { type: 'TXT', host: '@', value: 'v=spf1 include:spf.improvmx.com ~all' },
+            { type: 'MX', host: '@', value: 'mx1.improvmx.com', priority: 10 },
+            { type: 'MX', host: '@', value: 'mx2.improvmx.com', priority: 20 },
+        ];
+
+        const plan = planRecordChanges(existing, desired);
+
+        expect(plan.map(c => c.action)).toEqual(['update', 'unchanged', 'update', 'update', 'create']);
+        expect(plan[0].existing?.value).toBe('1.2.3.4');
+        expect(plan[2].record.value).toBe('v=spf1 include:_spf.google.com include:spf.improvmx.com -all');
+        expect(mergeSpf('v=spf1 include:a.com ~all', 'v=spf1 include:a.com ~all')).toBe('v=spf1 include:a.com ~all');
+    });
+});
+
+describe('applyRecords', () => {
+    it('applies records through set replacement and is idempotent', async () => {
+        const memory = memoryProvider([
+            { type: 'A', host: '@', value: '9.9.9.9', ttl: 300 },
+            { type: 'MX', host: '@', value: 'mx.mail.com', priority: 10 },
+        ]);
+
+        const first = await applyRecords(memory.provider, 'example.com', VERCEL_DNS_RECORDS);
+
+        expect(first.updated.map(r => r.type)).toEqual(['A']);
+        expect(first.created.map(r => r.type)).toEqual(['CNAME']);
+        expect(memory.records()).toEqual(expect.arrayContaining([
+            expect.objectContaining({ type: 'A', host: '@', value: '76.76.21.21' }),
+            expect.objectContaining({ type: 'MX', value: 'mx.mail.com' }),
+        ]));
+        expect(memory.records()).toHaveLength(3);
+
+        const second = await applyRecords(memory.provider, 'example.com', VERCEL_DNS_RECORDS);
+        expect(second.unchanged).toHaveLength(2);
+        expect(memory.writes).toEqual(['A @ x1', 'CNAME www x1']);
+    });
+});
+
+describe('Namecheap provider', () => {
+    const getHosts = `<?xml version="1.0"?>
+<ApiResponse Status="OK"><CommandResponse Type="namecheap.domains.dns.getHosts">
+<DomainDNSGetHostsResult Domain="example.co.uk" EmailType="MX" IsUsingOurDNS="true">
+<host HostId="1" Name="@" Type="A" Address="1.2.3.4" MXPref="10" TTL="1800" />
+<host HostId="2" Name="@" Type="MX" Address="mx.mail.com." MXPref="10" TTL="1800" />
+<host HostId="3" Name="@" Type="TXT" Address="a=&quot;b&quot;" MXPref="10" TTL="1800" />
+</DomainDNSGetHostsResult></CommandResponse></ApiResponse>`;
+
+    it('rewrites the whole host list with other records preserved', async () => {
+        const bodies: URLSearchParams[] = [];
+        global.fetch = jest.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+            const body = new URLSearchParams(String(init?.body));
+            bodies.push(body);
+            const xml = body.get('Command') === 'namecheap.domains.dns.setHosts'
+                ? '<ApiResponse Status="OK"><DomainDNSSetHostsResult Domain="example.co.uk" IsSuccess="true" /></ApiResponse>'
+                : getHosts;
+            return { text: async () => xml } as Response;
+        }) as unknown as typeof fetch;
+
+        const provider = createNamecheapProvider({ apiUser: 'u', apiKey: 'k', username: 'u', clientIp: '1.1.1.1' });
+        const result = await applyRecords(provider, 'example.co.uk', VERCEL_DNS_RECORDS);
+
+        expect(result.updated).toHaveLength(1);
+        expect(result.created).toHaveLength(1);
+
+        // First write replaces the apex A record and resends everything else
+        const setHosts = bodies.filter(body => body.get('Command') === 'namecheap.domains.dns.setHosts');
+        expect(setHosts).toHaveLength(2);
+        const first = setHosts[0];
+        expect(first.get('SLD')).toBe('example');
+        expect(first.get('TLD')).toBe('co.uk');
+        const hosts = [1, 2, 3].map(i => `${first.get(`RecordType${i}`)} ${first.get(`HostName${i}`)} ${first.get(`Address${i}`)}`);
+        expect(hosts).toEqual(['MX @ mx.mail.com', 'TXT @ a="b"', 'A @ 76.76.21.21']);
+        expect(first.get('HostName4')).toBeNull();
+        expect(first.get('EmailType')).toBe('MX');
+    });
+
+    it('resends redirects, CAA and other unmanaged hosts and keeps the mail mode', async () => {
+        const zone = `<?xml version="1.0"?>
+<ApiResponse Status="OK"><CommandResponse Type="namecheap.domains.dns.getHosts">
+<DomainDNSGetHostsResult Domain="example.com" EmailType="FWD" IsUsingOurDNS="true">
+<host HostId="1" Name="@" Type="A" Address="1.2.3.4" MXPref="10" TTL="1800" />
+<host HostId="2" Name="old" Type="URL301" Address="https://example.com/new" MXPref="10" TTL="300" />
+<host HostId="3" Name="@" Type="CAA" Address="0 issue &quot;letsencrypt.org&quot;" MXPref="10" TTL="1800" />
+</DomainDNSGetHostsResult></CommandResponse></ApiResponse>`;
+        const bodies: URLSearchParams[] = [];
+        global.fetch = jest.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+            const body = new URLSearchParams(String(init?.body));
+            bodies.push(body);
+            const xml = body.get('Command') === 'namecheap.domains.dns.setHosts'
+                ? '<ApiResponse Status="OK"><DomainDNSSetHostsResult Domain="example.com" IsSuccess="true" /></ApiResponse>'
+                : zone;
+            return { text: async () => xml } as Response;
+        }) as unknown as typeof fetch;
+
+        const provider = createNamecheapProvider({ apiUser: 'u', apiKey: 'k', username: 'u', clientIp: '1.1.1.1' });
+        const dnsZone = (await provider.getZone('example.com'))!;
+        const records = await provider.listRecords(dnsZone);
+        expect(records.map(r => r.type)).toEqual(['A']);
+
+        await provider.deleteRecord(dnsZone, records[0].id);
+
+        const [setHosts] = bodies.filter(body => body.get('Command') === 'namecheap.domains.dns.setHosts');
+        const hosts = [1, 2].map(i => [
+            setHosts.get(`RecordType${i}`),
+            setHosts.get(`HostName${i}`),
+            setHosts.get(`Address${i}`),
+            setHosts.get(`TTL${i}`),
+        ]);
+        expect(hosts).toEqual([
+            ['URL301', 'old', 'https://example.com/new', '300'],
+            ['CAA', '@', '0 issue "letsencrypt.org"', '1800'],
+        ]);
+        expect(setHosts.get('HostName3')).toBeNull();
+        expect(setHosts.get('EmailType')).toBe('FWD');
+    });
+});
+
+describe('Route53 provider', () => {
+    it('parses record sets and signs requests with SigV4', () => {
+        const xml = `<ListResourceRecordSetsResponse><ResourceRecordSets>
+<ResourceRecordSet><Name>example.com.</Name><Type>MX</Type><TTL>300</TTL><ResourceRecords>
+<ResourceRecord><Value>10 mx1.improvmx.com.</Value></ResourceRecord>
+<ResourceRecord><Value>20 mx2.improvmx.com.</Value></ResourceRecord></ResourceRecords></ResourceRecordSet>
+<ResourceRecordSet><Name>_dmarc.example.com.</Name><Type>TXT</Type><TTL>300</TTL><ResourceRecords>
+<ResourceRecord><Value>"v=DMARC1; p=none"</Value></ResourceRecord></ResourceRecords></ResourceRecordSet>
+<ResourceRecordSet><Name>www.example.com.</Name><Type>A</Type><AliasTarget><DNSName>d1.cloudfront.net.</DNSName></AliasTarget></ResourceRecordSet>
+</ResourceRecordSets><IsTruncated>false</IsTruncated></ListResourceRecordSetsResponse>`;
+
+        expect(parseRecordSets(xml, 'example.com')).toEqual([
+            { type: 'MX', host: '@', value: 'mx1.improvmx.com', ttl: 300, priority: 10 },
+            { type: 'MX', host: '@', value: 'mx2.improvmx.com', ttl: 300, priority: 20 },
+            { type: 'TXT', host: '_dmarc', value: 'v=DMARC1; p=none', ttl: 300, priority: undefined },
+        ]);
+
+        const now = new Date('2026-01-02T03:04:05.678Z');
+        const headers = signRoute53Request({ accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' }, 'GET', '/2013-04-01/hostedzonesbyname', { dnsname: 'example.com' }, '', now);
+        const again = signRoute53Request({ accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' }, 'GET', '/2013-04-01/hostedzonesbyname', { dnsname: 'example.com' }, '', now);
+
+        expect(headers['X-Amz-Date']).toBe('20260102T030405Z');
+        expect(headers.Authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/20260102\/us-east-1\/route53\/aws4_request, SignedHeaders=host;x-amz-date, Signature=[0-9a-f]{64}$/);
+        expect(again.Authorization).toBe(headers.Authorization);
+    });
+});
@@ -11,7 +11,8 @@ global.fetch = mockFetch;
 // Mock websiteStore functions used by github.ts
 jest.mock('@/lib/websiteStore', () => ({
     getInstalledPlugins: jest.fn().mockReturnValue([]),
-    getTheme: jest.fn().mockReturnValue(null)
+    getTheme: jest.fn().mockReturnValue(null),
+    buildLocaleContentFiles: jest.fn().mockReturnValue({})
 }));
 
 // Mock template generators
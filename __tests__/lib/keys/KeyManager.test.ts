@@ -55,6 +55,7 @@ const mockFetch = jest.fn();
 global.fetch = mockFetch;
 
 import { KeyManager, keyManager, type ProviderId } from '@/lib/keys/KeyManager';
+import { getCircuitBreaker, keyCircuitId } from '@/lib/ai/circuitBreaker';
 
 describe('KeyManager', () => {
     let km: KeyManager;
@@ -192,6 +193,75 @@ describe('KeyManager', () => {
         });
     });
 
+    describe('getAvailableKey()', () => {
+        afterEach(() => {
+            getCircuitBreaker().reset();
+        });
+
+        it('should skip keys with an open circuit', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const circuitId = keyCircuitId('gemini', 'gemini-key-1');
+            for (let i = 0; i < 5; i++) getCircuitBreaker().recordFailure(circuitId, 'HTTP 500');
+
+            km.resetRotation('gemini');
+            expect(km.getAvailableKey('gemini')?.key).toBe('gemini-key-2');
+            warn.mockRestore();
+        });
+
+        it('should trial a cooled-down key and close its circuit once it recovers', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const breaker = getCircuitBreaker();
+            const circuitId = keyCircuitId('gemini', 'gemini-key-1');
+            for (const key of ['gemini-key-1', 'gemini-key-2']) {
+                for (let i = 0; i < 5; i++) breaker.recordFailure(keyCircuitId('gemini', key), 'HTTP 500');
+            }
+            km.resetRotation('gemini');
+            expect(km.getAvailableKey('gemini')).toBeNull();
+
+            const now = Date.now();
+            const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 61000);
+
+            expect(km.getAvailableKey('gemini')?.key).toBe('gemini-key-1');
+            expect(breaker.getState(circuitId)).toBe('half-open');
+            // The trial is claimed: the other key takes the next call
+            expect(km.getAvailableKey('gemini')?.key).toBe('gemini-key-2');
+
+            km.resetRotation('gemini');
+            km.markSuccess('gemini', 200);
+            expect(breaker.getState(circuitId)).toBe('closed');
+            expect(breaker.getHealthScore(circuitId)).toBe(1);
+
+            clock.mockRestore();
+            warn.mockRestore();
+        });
+
+        it('should release an abandoned trial for the next call', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const breaker = getCircuitBreaker();
+            for (let i = 0; i < 5; i++) breaker.recordFailure(keyCircuitId('deepseek', 'deepseek-key-1'), 'HTTP 500');
+
+            const clock = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61000);
+            expect(km.getAvailableKey('deepseek')?.key).toBe('deepseek-key-1');
+            expect(km.getAvailableKey('deepseek')).toBeNull();
+            expect(km.hasWorkingKeys('deepseek')).toBe(false);
+
+            km.releaseKey('deepseek');
+            expect(km.hasWorkingKeys('deepseek')).toBe(true);
+            expect(km.getAvailableKey('deepseek')?.key).toBe('deepseek-key-1');
+
+            clock.mockRestore();
+            warn.mockRestore();
+        });
+
+        it('should prefer the healthiest key', () => {
+            getCircuitBreaker().recordFailure(keyCircuitId('gemini', 'gemini-key-1'), 'HTTP 500');
+            getCircuitBreaker().recordSuccess(keyCircuitId('gemini', 'gemini-key-2'), 100);
+
+            km.resetRotation('gemini');
+            expect(km.getAvailableKey('gemini')?.key).toBe('gemini-key-2');
+        });
+    });
+
     describe('validateKey()', () => {
         it('should reject invalid key format', async () => {
             const result = await km.validateKey('gemini', 'short');
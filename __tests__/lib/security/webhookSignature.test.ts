@@ -0,0 +1,29 @@
+/**
+ * Webhook Signature Tests
+ * HMAC verification of ifrit-connector webhook bodies
+ */
+
+import { signWebhookBody, verifyWebhookSignature } from '@/lib/security/webhookSignature';
+import { connectorTokenSecretName } from '@/lib/security/secretsClient';
+
+describe('webhookSignature', () => {
+    const body = JSON.stringify({ event: 'ab.events', data: { events: [{ post_id: 1, variant_id: 'a', clicks: 1 }] } });
+    const token = 'connector-token-123';
+
+    it('accepts the signature made with the site token', () => {
+        expect(verifyWebhookSignature(body, signWebhookBody(body, token), token)).toBe(true);
+        expect(verifyWebhookSignature(body, signWebhookBody(body, token).toUpperCase(), token)).toBe(true);
+    });
+
+    it('rejects missing, forged and tampered signatures', () => {
+        expect(verifyWebhookSignature(body, null, token)).toBe(false);
+        expect(verifyWebhookSignature(body, 'abc', token)).toBe(false);
+        expect(verifyWebhookSignature(body, signWebhookBody(body, 'other-token'), token)).toBe(false);
+        expect(verifyWebhookSignature(body.replace('"clicks":1', '"clicks":999'), signWebhookBody(body, token), token)).toBe(false);
+    });
+
+    it('names the stored token by normalized site host', () => {
+        expect(connectorTokenSecretName('https://www.Example.com/')).toBe('wp_connector_token:example.com');
+        expect(connectorTokenSecretName('example.com')).toBe('wp_connector_token:example.com');
+    });
+});
@@ -293,6 +293,15 @@ export function createMockPageCrudDeps() {
     };
 }
 
+/**
+ * Create mock dependencies for translationCrud
+ */
+export function createMockTranslationCrudDeps() {
+    return {
+        incrementPendingChanges: jest.fn()
+    };
+}
+
 /**
  * Create mock dependencies for versionControl
  */
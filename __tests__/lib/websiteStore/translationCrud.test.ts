@@ -0,0 +1,147 @@
+/**
+ * Tests for translationCrud.ts - Article Translation Operations
+ */
+
+// Mock fs module
+jest.mock('fs', () => ({
+    existsSync: jest.fn(),
+    readFileSync: jest.fn(),
+    writeFileSync: jest.fn(),
+    mkdirSync: jest.fn(),
+    readdirSync: jest.fn(),
+    unlinkSync: jest.fn(),
+    rmSync: jest.fn()
+}));
+
+import {
+    createMockArticle,
+    createMockArticleCrudDeps,
+    createMockTranslationCrudDeps,
+    setupFsMock
+} from './testUtils';
+
+import { getArticlePath } from '@/lib/websiteStore/paths';
+import { _initArticleCrudDeps, getArticle } from '@/lib/websiteStore/articleCrud';
+import {
+    buildLocaleContentFiles,
+    deleteArticleTranslation,
+    getPendingTranslations,
+    saveArticleTranslation,
+    _initTranslationCrudDeps
+} from '@/lib/websiteStore/translationCrud';
+import type { Article } from '@/lib/websiteStore/types';
+
+const domain = 'test-site.com';
+
+describe('translationCrud.ts', () => {
+    let mockDeps: ReturnType<typeof createMockTranslationCrudDeps>;
+    let virtualFs: Record<string, string>;
+
+    const addArticle = (article: Article) => {
+        virtualFs[getArticlePath(domain, article.id)] = JSON.stringify(article);
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        virtualFs = setupFsMock({});
+        _initArticleCrudDeps(createMockArticleCrudDeps());
+        mockDeps = createMockTranslationCrudDeps();
+        _initTranslationCrudDeps(mockDeps);
+    });
+
+    describe('getPendingTranslations()', () => {
+        it('should list missing and stale translations but skip drafts and pages', () => {
+            addArticle(createMockArticle({ id: 'art_new', slug: 'new', status: 'published', lastModifiedAt: 100 }));
+            addArticle(createMockArticle({
+                id: 'art_done',
+                slug: 'done',
+                status: 'published',
+                lastModifiedAt: 100,
+                translations: {
+                    es: { title: 'Hecho', description: '', content: 'Hola', provider: 'deepl-translate', translatedAt: 150, sourceModifiedAt: 100 },
+                    fr: { title: 'Fait', description: '', content: 'Salut', provider: 'deepl-translate', translatedAt: 50, sourceModifiedAt: 50 }
+                }
+            }));
+            addArticle(createMockArticle({ id: 'art_draft', slug: 'draft', status: 'draft' }));
+            addArticle(createMockArticle({ id: 'page_about', slug: 'about', status: 'published', pageType: 'structural' }));
+
+            const pending = getPendingTranslations(domain, ['es', 'fr', 'Not A Locale']);
+
+            expect(pending.map(p => `${p.articleId}:${p.locale}`).sort()).toEqual([
+                'art_done:fr',
+                'art_new:es',
+                'art_new:fr'
+            ]);
+        });
+    });
+
+    describe('saveArticleTranslation()', () => {
+        it('should store the translation against the source version', () => {
+            addArticle(createMockArticle({ id: 'art_1', status: 'published', lastModifiedAt: 100 }));
+
+            const updated = saveArticleTranslation(domain, 'art_1', 'es', {
+                title: 'Título',
+                description: 'Descripción',
+                content: 'Contenido',
+                provider: 'google-translate'
+            });
+
+            expect(updated?.lastModifiedAt).toBe(100);
+            expect(getArticle(domain, 'art_1')?.translations?.es).toMatchObject({
+                title: 'Título',
+                provider: 'google-translate',
+                sourceModifiedAt: 100
+            });
+            expect(mockDeps.incrementPendingChanges).toHaveBeenCalledWith(domain);
+            expect(getPendingTranslations(domain, ['es'])).toEqual([]);
+        });
+
+        it('should return null for a missing article and reject invalid locales', () => {
+            const translation = { title: 'T', description: '', content: 'C', provider: 'deepl-translate' };
+
+            expect(saveArticleTranslation(domain, 'missing', 'es', translation)).toBeNull();
+            expect(() => saveArticleTranslation(domain, 'missing', '../es', translation)).toThrow('Invalid locale');
+        });
+    });
+
+    describe('deleteArticleTranslation()', () => {
+        it('should remove one locale and report whether it existed', () => {
+            addArticle(createMockArticle({
+                id: 'art_1',
+                translations: {
+                    es: { title: 'T', description: '', content: 'C', provider: 'deepl-translate', translatedAt: 1, sourceModifiedAt: 1 }
+                }
+            }));
+
+            expect(deleteArticleTranslation(domain, 'art_1', 'es')).toBe(true);
+            expect(getArticle(domain, 'art_1')?.translations).toEqual({});
+            expect(deleteArticleTranslation(domain, 'art_1', 'es')).toBe(false);
+        });
+    });
+
+    describe('buildLocaleContentFiles()', () => {
+        it('should write one markdown file per locale and slug', () => {
+            addArticle(createMockArticle({
+                id: 'art_1',
+                slug: 'best-tents',
+                category: 'camping',
+                status: 'published',
+                publishedAt: Date.UTC(2026, 0, 5),
+                translations: {
+                    es: { title: 'Mejores "tiendas"', description: 'Guía', content: '# Hola', provider: 'deepl-translate', translatedAt: Date.UTC(2026, 0, 6), sourceModifiedAt: 1 },
+                    fr: { title: 'Tentes', description: '', content: '# Salut', provider: 'deepl-translate', translatedAt: Date.UTC(2026, 0, 6), sourceModifiedAt: 1 }
+                }
+            }));
+
+            const files = buildLocaleContentFiles(domain, ['es']);
+
+            expect(Object.keys(files)).toEqual(['content/es/best-tents.md']);
+            const file = files['content/es/best-tents.md'];
+            expect(file).toContain('title: "Mejores \\"tiendas\\""');
+            expect(file).toContain('date: "2026-01-05"');
+            expect(file).toContain('updated: "2026-01-06"');
+            expect(file).toContain('locale: "es"');
+            expect(file.trim().endsWith('# Hola')).toBe(true);
+        });
+    });
+});
@@ -52,6 +52,7 @@ describe('Settings Store', () => {
                 openrouter: [],
                 vercel: [],
                 perplexity: [],
+                local: [],
             },
             enabledProviders: ['gemini'],
             selectedModels: {} as Record<ProviderId, string>,
@@ -0,0 +1,188 @@
+/**
+ * Tests for feedFiles.ts - Generated sitemaps and RSS / Atom feeds
+ */
+
+import { generateFeedFiles } from '@/templates/shared/components/feedFiles';
+import { generateLocaleFiles } from '@/templates/shared/components/i18nFiles';
+import { createSiteRoot, loadGeneratedModules, restoreSiteRoot, writeArticle } from './testUtils';
+
+type Feeds = {
+    SITEMAP_PAGE_SIZE: number;
+    getSitemapPages: () => Array<{ id: string; urls: unknown[] }>;
+    renderUrlset: (urls: unknown[]) => string;
+    renderSitemapIndex: () => string;
+    renderNewsSitemap: (now?: Date) => string;
+    renderRss: () => string;
+    renderAtom: () => string;
+};
+
+const config = {
+    siteName: 'Tips & Tricks',
+    tagline: 'Gear <reviews> & "guides"',
+    domain: 'example.com',
+};
+
+function loadFeeds(): Feeds {
+    const files = [
+        ...generateLocaleFiles({ ...config, defaultLocale: 'en', locales: ['en'] }),
+        ...generateFeedFiles(config),
+    ];
+    return loadGeneratedModules(files).feeds as unknown as Feeds;
+}
+
+describe('feedFiles.ts', () => {
+    let root: string;
+    let feeds: Feeds;
+
+    beforeEach(() => {
+        root = createSiteRoot();
+        feeds = loadFeeds();
+    });
+
+    afterEach(() => {
+        restoreSiteRoot(root);
+    });
+
+    describe('sitemaps', () => {
+        it('should serve a single urlset until the URL limit is exceeded', () => {
+            writeArticle(root, 'first', { title: 'First', date: '2026-01-01' });
+
+            const pages = feeds.getSitemapPages();
+
+            expect(pages.map(p => p.id)).toEqual(['1']);
+            // 5 static pages + 1 article
+            expect(pages[0].urls).toHaveLength(6);
+        });
+
+        it('should split into a sitemap index above the URL limit', () => {
+            // The compiled module reads its exported constant through exports
+            feeds.SITEMAP_PAGE_SIZE = 4;
+            for (let i = 1; i <= 4; i++) {
+                writeArticle(root, `post-${i}`, { title: `Post ${i}`, date: `2026-01-0${i}`, updated: `2026-02-0${i}` });
+            }
+
+            const pages = feeds.getSitemapPages();
+            const index = feeds.renderSitemapIndex();
+
+            expect(pages.map(p => [p.id, p.urls.length])).toEqual([['1', 4], ['2', 4], ['3', 1]]);
+            expect(index).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+            expect(index).toContain('<loc>https://example.com/sitemaps/1.xml</loc>');
+            expect(index).toContain('<loc>https://example.com/sitemaps/3.xml</loc>');
+            // Last page holds the oldest article
+            expect(index).toContain('<lastmod>2026-02-01T00:00:00.000Z</lastmod>');
+        });
+
+        it('should write lastmod from the updated date and list article images', () => {
+            writeArticle(
+                root,
+                'best-tents',
+                { title: 'Best Tents', date: '2026-01-05', updated: '2026-01-20', image: '/images/tent.jpg' },
+                'Intro\n\n![Tent in snow](https://cdn.example.com/snow.jpg)\n\n![Dupe](/images/tent.jpg)'
+            );
+
+            const [page] = feeds.getSitemapPages();
+            const xml = feeds.renderUrlset(page.urls);
+            const entry = xml.slice(xml.indexOf('<loc>https://example.com/best-tents</loc>'));
+
+            expect(entry).toMatch(/^<loc>https:\/\/example.com\/best-tents<\/loc>\n\s+<lastmod>2026-01-20T00:00:00.000Z<\/lastmod>/);
+            expect(entry).toContain('<image:loc>https://example.com/images/tent.jpg</image:loc>');
+            expect(entry).toContain('<image:title>Best Tents</image:title>');
+            expect(entry).toContain('<image:loc>https://cdn.example.com/snow.jpg</image:loc>');
+            expect(entry).toContain('<image:title>Tent in snow</image:title>');
+            expect(entry.match(/tent\.jpg<\/image:loc>/g)).toHaveLength(1);
+        });
+
+        it('should list only articles from the last 48 hours in the news sitemap', () => {
+            const now = new Date('2026-03-10T12:00:00Z');
+            writeArticle(root, 'fresh', { title: 'Fresh', date: '2026-03-10T08:00:00Z' });
+            writeArticle(root, 'edge', { title: 'Edge', date: '2026-03-08T12:00:00Z' });
+            writeArticle(root, 'stale', { title: 'Stale', date: '2026-03-08T11:59:00Z' });
+
+            const xml = feeds.renderNewsSitemap(now);
+
+            expect(xml).toContain('<loc>https://example.com/fresh</loc>');
+            expect(xml).toContain('<loc>https://example.com/edge</loc>');
+            expect(xml).not.toContain('stale');
+            expect(xml.indexOf('/fresh')).toBeLessThan(xml.indexOf('/edge'));
+            expect(xml).toContain('<news:publication_date>2026-03-10T08:00:00.000Z</news:publication_date>');
+            expect(xml).toContain('<news:language>en</news:language>');
+        });
+
+        it('should skip drafts and structural pages', () => {
+            writeArticle(root, 'live', { title: 'Live', date: '2026-01-01' });
+            writeArticle(root, 'wip', { title: 'WIP', date: '2026-01-01', draft: true });
+            writeArticle(root, 'about', { title: 'About', date: '2026-01-01' });
+
+            const xml = feeds.renderRss();
+
+            expect(xml).toContain('/live</link>');
+            expect(xml).not.toContain('/wip');
+            expect(xml).not.toContain('<title>About</title>');
+        });
+    });
+
+    describe('XML escaping', () => {
+        const title = 'Salt & Pepper <Grinders> "Tested" \'26';
+        const escapedTitle = 'Salt &amp; Pepper &lt;Grinders&gt; &quot;Tested&quot; &apos;26';
+
+        beforeEach(() => {
+            writeArticle(
+                root,
+                'salt&pepper',
+                {
+                    title,
+                    description: 'Grind <fine> & coarse',
+                    author: 'Ann & Bo',
+                    category: 'Tools & <Gear>',
+                    date: new Date().toISOString(),
+                    image: '/img/a.jpg?w=1&h=2',
+                },
+                '![Cup & "mug"](/img/b.jpg?x=1&y=2)'
+            );
+        });
+
+        it('should escape titles and URLs in sitemaps', () => {
+            const xml = feeds.renderUrlset(feeds.getSitemapPages()[0].urls);
+
+            expect(xml).toContain(`<image:title>${escapedTitle}</image:title>`);
+            expect(xml).toContain('<image:loc>https://example.com/img/a.jpg?w=1&amp;h=2</image:loc>');
+            expect(xml).toContain('<image:title>Cup &amp; &quot;mug&quot;</image:title>');
+            expect(xml).toContain('<loc>https://example.com/salt&amp;pepper</loc>');
+            expect(xml).not.toMatch(/&(?!amp;|lt;|gt;|quot;|apos;)/);
+        });
+
+        it('should escape titles in the news sitemap', () => {
+            const xml = feeds.renderNewsSitemap();
+
+            expect(xml).toContain(`<news:title>${escapedTitle}</news:title>`);
+            expect(xml).toContain('<news:name>Tips &amp; Tricks</news:name>');
+            expect(xml).toContain('<loc>https://example.com/salt&amp;pepper</loc>');
+            expect(xml).not.toMatch(/&(?!amp;|lt;|gt;|quot;|apos;)/);
+        });
+
+        it('should escape the RSS feed', () => {
+            const xml = feeds.renderRss();
+
+            expect(xml).toContain(`<title>${escapedTitle}</title>`);
+            expect(xml).toContain('<title>Tips &amp; Tricks</title>');
+            expect(xml).toContain('<link>https://example.com/salt&amp;pepper</link>');
+            expect(xml).toContain('<guid isPermaLink="true">https://example.com/salt&amp;pepper</guid>');
+            expect(xml).toContain('<description>Gear &lt;reviews&gt; &amp; &quot;guides&quot;</description>');
+            expect(xml).toContain('<description>Grind &lt;fine&gt; &amp; coarse</description>');
+            expect(xml).toContain('<dc:creator>Ann &amp; Bo</dc:creator>');
+            expect(xml).toContain('<category>Tools &amp; &lt;Gear&gt;</category>');
+            expect(xml).not.toMatch(/&(?!amp;|lt;|gt;|quot;|apos;)/);
+        });
+
+        it('should escape the Atom feed', () => {
+            const xml = feeds.renderAtom();
+
+            expect(xml).toContain(`<title>${escapedTitle}</title>`);
+            expect(xml).toContain('<link href="https://example.com/salt&amp;pepper" />');
+            expect(xml).toContain('<subtitle>Gear &lt;reviews&gt; &amp; &quot;guides&quot;</subtitle>');
+            expect(xml).toContain('<author><name>Ann &amp; Bo</name></author>');
+            expect(xml).toContain('<category term="Tools &amp; &lt;Gear&gt;" />');
+            expect(xml).not.toMatch(/&(?!amp;|lt;|gt;|quot;|apos;)/);
+        });
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for i18nFiles.ts - Generated locale routing, hreflang and per-locale sitemaps
+ */
+
+import { generateFeedFiles } from '@/templates/shared/components/feedFiles';
+import { generateLocaleFiles, resolveLocales } from '@/templates/shared/components/i18nFiles';
+import { createSiteRoot, loadGeneratedModules, restoreSiteRoot, writeArticle } from './testUtils';
+
+type I18n = {
+    getLanguageAlternates: (slug?: string) => Record<string, string>;
+    getAlternates: (slug?: string) => { languages?: Record<string, string>; types: Record<string, string> };
+    isRtl: (locale: string) => boolean;
+};
+
+type Feeds = {
+    getSitemapPages: () => Array<{ id: string; urls: Array<{ loc: string; alternates: Record<string, string> }> }>;
+    renderUrlset: (urls: unknown[]) => string;
+};
+
+const site = { siteName: 'Trail Notes', tagline: 'Outdoor gear', domain: 'example.com' };
+
+function generate(locales: string[]) {
+    return [
+        ...generateLocaleFiles({ ...site, ...resolveLocales(locales, locales[0]) }),
+        ...generateFeedFiles(site),
+    ];
+}
+
+function load(locales: string[]) {
+    const modules = loadGeneratedModules(generate(locales));
+    return { i18n: modules.i18n as unknown as I18n, feeds: modules.feeds as unknown as Feeds };
+}
+
+describe('i18nFiles.ts', () => {
+    let root: string;
+
+    beforeEach(() => {
+        root = createSiteRoot();
+    });
+
+    afterEach(() => {
+        restoreSiteRoot(root);
+    });
+
+    describe('hreflang alternates', () => {
+        it('should list every locale that has the page plus x-default', () => {
+            const { i18n } = load(['en', 'es', 'fr']);
+            writeArticle(root, 'tents', { title: 'Tents', date: '2026-01-01' });
+            writeArticle(root, 'tents', { title: 'Tiendas', date: '2026-01-01' }, 'Hola', 'es');
+            writeArticle(root, 'stoves', { title: 'Stoves', date: '2026-01-01' });
+
+            expect(i18n.getLanguageAlternates('tents')).toEqual({
+                en: 'https://example.com/tents',
+                es: 'https://example.com/es/tents',
+                'x-default': 'https://example.com/tents',
+            });
+            expect(i18n.getLanguageAlternates()).toEqual({
+                en: 'https://example.com/',
+                es: 'https://example.com/es',
+                fr: 'https://example.com/fr',
+                'x-default': 'https://example.com/',
+            });
+            // Untranslated pages have nothing to point at
+            expect(i18n.getLanguageAlternates('stoves')).toEqual({});
+            expect(i18n.getAlternates('stoves')).not.toHaveProperty('languages');
+        });
+
+        it('should report no alternates for single-language sites', () => {
+            const { i18n } = load(['en']);
+            writeArticle(root, 'tents', { title: 'Tents', date: '2026-01-01' });
+
+            expect(i18n.getLanguageAlternates('tents')).toEqual({});
+            expect(i18n.getAlternates('tents').types).toEqual({
+                'application/rss+xml': '/feed.xml',
+                'application/atom+xml': '/atom.xml',
+            });
+        });
+    });
+
+    describe('per-locale sitemaps', () => {
+        it('should write one sitemap page per locale with hreflang links', () => {
+            const { feeds } = load(['en', 'es']);
+            writeArticle(root, 'tents', { title: 'Tents', date: '2026-01-01' });
+            writeArticle(root, 'tents', { title: 'Tiendas', date: '2026-01-01' }, 'Hola', 'es');
+            writeArticle(root, 'stoves', { title: 'Stoves', date: '2026-01-01' });
+
+            const pages = feeds.getSitemapPages();
+            const locs = (id: string) => pages.find(p => p.id === id)!.urls.map(u => u.loc);
+
+            expect(pages.map(p => p.id)).toEqual(['en-1', 'es-1']);
+            expect(locs('en-1')).toEqual(expect.arrayContaining([
+                'https://example.com/',
+                'https://example.com/about',
+                'https://example.com/tents',
+                'https://example.com/stoves',
+            ]));
+            // Static pages only exist in the default locale
+            expect(locs('es-1')).toEqual(['https://example.com/es', 'https://example.com/es/tents']);
+
+            const xml = feeds.renderUrlset(pages[1].urls);
+            expect(xml).toContain('<xhtml:link rel="alternate" hreflang="en" href="https://example.com/tents" />');
+            expect(xml).toContain('<xhtml:link rel="alternate" hreflang="es" href="https://example.com/es/tents" />');
+            expect(xml).toContain('<xhtml:link rel="alternate" hreflang="x-default" href="https://example.com/tents" />');
+        });
+    });
+
+    describe('locale routes', () => {
+        it('should render Arabic right to left and other locales left to right', () => {
+            const files = generateLocaleFiles({ ...site, ...resolveLocales(['en', 'ar', 'es'], 'en') });
+            const layout = (locale: string) => files.find(f => f.path === `app/${locale}/layout.tsx`)?.content;
+
+            expect(layout('ar')).toContain('<div lang="ar" dir="rtl">');
+            expect(layout('es')).toContain('<div lang="es" dir="ltr">');
+            expect(layout('en')).toBeUndefined();
+            expect(files.map(f => f.path)).toEqual(expect.arrayContaining([
+                'app/ar/page.tsx',
+                'app/ar/[slug]/page.tsx',
+                'components/LocalePages.tsx',
+            ]));
+
+            const { i18n } = load(['en', 'ar']);
+            expect(i18n.isRtl('ar')).toBe(true);
+            expect(i18n.isRtl('en')).toBe(false);
+        });
+
+        it('should only generate lib/i18n.ts for single-language sites', () => {
+            const files = generateLocaleFiles({ ...site, ...resolveLocales(['en'], 'en') });
+            expect(files.map(f => f.path)).toEqual(['lib/i18n.ts']);
+        });
+    });
+
+    describe('resolveLocales()', () => {
+        it('should put the default first and drop invalid or duplicate codes', () => {
+            expect(resolveLocales(['ES', 'en', 'fr', 'es', '../x', 'pt-BR'], 'en')).toEqual({
+                defaultLocale: 'en',
+                locales: ['en', 'es', 'fr', 'pt-br'],
+            });
+        });
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Test Utilities for Shared Template Generators
+ *
+ * The generators emit TypeScript source for the scaffolded site. These helpers
+ * compile the generated lib/ modules and run them against a temporary
+ * content/ directory, so tests can assert on what the built site would serve.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import type { GeneratedFile } from '@/templates/shared/components/feedFiles';
+
+type ModuleExports = Record<string, unknown>;
+
+/**
+ * Compile and load generated lib/ modules. Imports between them ('./i18n',
+ * '@/lib/i18n') resolve to the other generated files; everything else
+ * (fs, path, gray-matter) comes from the repo's node_modules.
+ */
+export function loadGeneratedModules(files: GeneratedFile[]): Record<string, ModuleExports> {
+    const sources = new Map(
+        files.filter(f => f.path.startsWith('lib/')).map(f => [f.path.replace(/^lib\/|\.ts$/g, ''), f.content])
+    );
+    const loaded: Record<string, ModuleExports> = {};
+
+    const load = (name: string): ModuleExports => {
+        if (loaded[name]) return loaded[name];
+
+        const source = sources.get(name);
+        if (source === undefined) throw new Error(`Generated module not found: lib/${name}.ts`);
+
+        const { outputText } = ts.transpileModule(source, {
+            compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+        });
+
+        const compiled = { exports: {} as ModuleExports };
+        loaded[name] = compiled.exports;
+        const localRequire = (id: string) => {
+            const local = id.match(/^(?:\.\/|@\/lib\/)(.+)$/);
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            return local ? load(local[1]) : require(id);
+        };
+        new Function('require', 'module', 'exports', outputText)(localRequire, compiled, compiled.exports);
+        return compiled.exports;
+    };
+
+    for (const name of sources.keys()) load(name);
+    return loaded;
+}
+
+/**
+ * Temporary site root; process.cwd() points at it until restoreSiteRoot()
+ */
+export function createSiteRoot(): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ifrit-site-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(root);
+    return root;
+}
+
+export function restoreSiteRoot(root: string): void {
+    jest.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+}
+
+/**
+ * Write content/<locale?>/<slug>.md with quoted frontmatter values
+ */
+export function writeArticle(
+    root: string,
+    slug: string,
+    frontmatter: Record<string, string | boolean>,
+    body = 'Article body.',
+    locale?: string
+): void {
+    const dir = locale ? path.join(root, 'content', locale) : path.join(root, 'content');
+    fs.mkdirSync(dir, { recursive: true });
+
+    const yaml = Object.entries(frontmatter)
+        .map(([key, value]) => `${key}: ${typeof value === 'string' ? JSON.stringify(value) : value}`)
+        .join('\n');
+    fs.writeFileSync(path.join(dir, `${slug}.md`), `---\n${yaml}\n---\n\n${body}\n`);
+}
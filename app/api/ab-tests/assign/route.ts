@@ -0,0 +1,165 @@
+/**
+ * A/B Test Assignment API
+ *
+ * Called from published pages (the WordPress connector or a static template
+ * script), so responses allow any origin.
+ *
+ * GET /api/ab-tests/assign?site=<siteUrl>&post=<postId>&visitor=<visitorId>[&track=0]
+ * Returns the visitor's sticky variant and counts an impression for it
+ * (track=0 skips counting, for callers that report impressions via webhook).
+ *
+ * POST /api/ab-tests/assign
+ * Records a click or conversion: { site, post, variant, visitor, event: 'click' | 'conversion' }.
+ * Usable with navigator.sendBeacon.
+ *
+ * Both methods are anonymous, so each visitor counts once per event type and
+ * test, and clients are rate limited. Tests are only evaluated here: signed
+ * webhook events or the dashboard conclude them, where the site is known and
+ * the winner can be applied.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    assignVariant,
+    evaluateExperiment,
+    recordEvents,
+} from '@/features/campaigns/lib/abTesting';
+import { findABTestForPost, saveABTest } from '@/lib/db/abTestStore';
+import { RateLimiter } from '@/lib/utils/performance';
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+// Per-process dedupe of visitor events and per-client rate limits
+const SEEN_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_TRACKED = 50000;
+const seenEvents = new Map<string, number>();
+const clientLimiters = new Map<string, RateLimiter>();
+
+/**
+ * True the first time a visitor reports an event for a test within the TTL
+ */
+function isFirstEvent(testId: string, visitor: string, event: string): boolean {
+    const now = Date.now();
+    if (seenEvents.size >= MAX_TRACKED) {
+        for (const [key, seenAt] of seenEvents) {
+            if (now - seenAt > SEEN_TTL_MS) seenEvents.delete(key);
+        }
+        if (seenEvents.size >= MAX_TRACKED) seenEvents.clear();
+    }
+
+    const key = `${testId}:${visitor}:${event}`;
+    const seenAt = seenEvents.get(key);
+    if (seenAt && now - seenAt < SEEN_TTL_MS) return false;
+    seenEvents.set(key, now);
+    return true;
+}
+
+function isRateLimited(request: NextRequest): boolean {
+    const client = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+        || request.headers.get('x-real-ip')
+        || 'unknown';
+    if (clientLimiters.size >= MAX_TRACKED) clientLimiters.clear();
+
+    let limiter = clientLimiters.get(client);
+    if (!limiter) {
+        limiter = new RateLimiter(30, 60000);
+        clientLimiters.set(client, limiter);
+    }
+    if (!limiter.canMakeRequest()) return true;
+    limiter.recordRequest();
+    return false;
+}
+
+function json(body: unknown, status = 200) {
+    return NextResponse.json(body, { status, headers: CORS_HEADERS });
+}
+
+export async function OPTIONS() {
+    return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const params = request.nextUrl.searchParams;
+        const site = params.get('site');
+        const postId = Number(params.get('post'));
+        const visitor = params.get('visitor');
+
+        if (!site || !postId || !visitor) {
+            return json({ success: false, error: 'site, post and visitor are required' }, 400);
+        }
+
+        const test = findABTestForPost(site, postId);
+        const variant = test ? assignVariant(test, visitor) : null;
+        if (!test || !variant) {
+            return json({ success: true, testId: null, variant: null });
+        }
+
+        if (
+            test.status === 'running' &&
+            params.get('track') !== '0' &&
+            !isRateLimited(request) &&
+            isFirstEvent(test.id, visitor, 'impression')
+        ) {
+            saveABTest(recordEvents(test, variant.id, { impressions: 1 }));
+        }
+
+        return json({
+            success: true,
+            testId: test.id,
+            variant: { id: variant.id, type: variant.type, content: variant.content, imageUrl: variant.imageUrl },
+        });
+    } catch (error) {
+        console.error('[AB Assign] Error:', error);
+        return json({ success: false, error: error instanceof Error ? error.message : 'Failed to assign variant' }, 500);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // sendBeacon posts text/plain
+        let body: { site?: string; post?: number | string; variant?: string; visitor?: string; event?: string };
+        try {
+            body = JSON.parse(await request.text());
+        } catch {
+            return json({ success: false, error: 'Invalid JSON body' }, 400);
+        }
+        const { site, post, variant, visitor, event } = body;
+        if (!visitor || typeof visitor !== 'string') {
+            return json({ success: false, error: 'visitor is required' }, 400);
+        }
+        if (isRateLimited(request)) {
+            return json({ success: false, error: 'Too many events' }, 429);
+        }
+
+        const test = site && post ? findABTestForPost(site, Number(post)) : null;
+
+        if (!test || !variant || !test.variants.some(v => v.id === variant)) {
+            return json({ success: false, error: 'No running test for this post and variant' }, 404);
+        }
+        if (event !== 'click' && event !== 'conversion') {
+            return json({ success: false, error: 'event must be click or conversion' }, 400);
+        }
+        // Only the variant this visitor is actually served can be credited
+        if (test.status !== 'running' || assignVariant(test, visitor)?.id !== variant || !isFirstEvent(test.id, visitor, event)) {
+            return json({ success: true, recorded: false });
+        }
+
+        const updated = recordEvents(test, variant, event === 'click' ? { clicks: 1 } : { conversions: 1 });
+        saveABTest(updated);
+
+        const evaluation = evaluateExperiment(updated);
+        if (evaluation.winnerId) {
+            console.log(`[AB Assign] ${updated.id} is ready to conclude: ${evaluation.reason}`);
+        }
+
+        return json({ success: true, recorded: true });
+    } catch (error) {
+        console.error('[AB Assign] Error:', error);
+        return json({ success: false, error: error instanceof Error ? error.message : 'Failed to record event' }, 500);
+    }
+}
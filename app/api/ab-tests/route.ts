@@ -0,0 +1,144 @@
+/**
+ * A/B Tests API
+ *
+ * GET /api/ab-tests
+ * Returns all experiments with their current evaluation.
+ *
+ * POST /api/ab-tests
+ * Saves an experiment created by the pipeline ({ test }).
+ *
+ * PATCH /api/ab-tests
+ * Pauses/resumes a test ({ id, status }) or declares a winner ({ id, winnerId }),
+ * which is applied to the post when the test has autoApply.
+ *
+ * DELETE /api/ab-tests?id=<testId>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    applyWinner,
+    declareWinner,
+    evaluateExperiment,
+    getTestSite,
+    type ABTest,
+} from '@/features/campaigns/lib/abTesting';
+import { deleteABTest, getABTest, listABTests, saveABTest } from '@/lib/db/abTestStore';
+
+export async function GET() {
+    try {
+        const tests = listABTests();
+        return NextResponse.json({
+            success: true,
+            tests,
+            evaluations: Object.fromEntries(tests.map(t => [t.id, evaluateExperiment(t)])),
+        });
+    } catch (error) {
+        console.error('[AB Tests] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to load A/B tests' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const test: ABTest | undefined = body?.test;
+
+        if (!test?.id || typeof test.postId !== 'number' || !Array.isArray(test.variants)) {
+            return NextResponse.json(
+                { success: false, error: 'test with id, postId and variants is required' },
+                { status: 400 }
+            );
+        }
+        if (test.variants.length < 2) {
+            return NextResponse.json(
+                { success: false, error: 'A/B tests need at least two variants' },
+                { status: 400 }
+            );
+        }
+
+        saveABTest(test);
+        return NextResponse.json({ success: true, test });
+    } catch (error) {
+        console.error('[AB Tests] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save A/B test' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PATCH(request: NextRequest) {
+    try {
+        const { id, status, winnerId } = await request.json();
+        let test = id ? getABTest(id) : null;
+
+        if (!test) {
+            return NextResponse.json(
+                { success: false, error: `A/B test not found: ${id}` },
+                { status: 404 }
+            );
+        }
+
+        if (winnerId) {
+            if (!test.variants.some(v => v.id === winnerId)) {
+                return NextResponse.json(
+                    { success: false, error: `Unknown variant: ${winnerId}` },
+                    { status: 400 }
+                );
+            }
+            test = declareWinner(test, winnerId);
+
+            const site = test.autoApply ? await getTestSite(test) : undefined;
+            if (site) {
+                const applied = await applyWinner(test, site);
+                test = applied.success
+                    ? { ...test, appliedAt: Date.now(), applyError: undefined }
+                    : { ...test, applyError: applied.error };
+            }
+        } else if (status === 'running' || status === 'paused') {
+            if (test.status === 'completed') {
+                return NextResponse.json(
+                    { success: false, error: 'Completed tests cannot be resumed' },
+                    { status: 400 }
+                );
+            }
+            test = { ...test, status };
+        } else {
+            return NextResponse.json(
+                { success: false, error: 'status (running|paused) or winnerId is required' },
+                { status: 400 }
+            );
+        }
+
+        saveABTest(test);
+        return NextResponse.json({ success: true, test, evaluation: evaluateExperiment(test) });
+    } catch (error) {
+        console.error('[AB Tests] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to update A/B test' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const id = request.nextUrl.searchParams.get('id');
+        if (!id || !deleteABTest(id)) {
+            return NextResponse.json(
+                { success: false, error: `A/B test not found: ${id}` },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[AB Tests] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to delete A/B test' },
+            { status: 500 }
+        );
+    }
+}
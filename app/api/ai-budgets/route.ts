@@ -0,0 +1,66 @@
+/**
+ * AI Budgets API
+ *
+ * GET /api/ai-budgets
+ * Returns configured budget rules with current spend per rule.
+ *
+ * PUT /api/ai-budgets
+ * Replaces all budget rules (validated before saving).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBudgetStatuses, getPeriodStart, type BudgetRule } from '@/lib/ai/budgets';
+import { getBudgetRules, listSpendRecords, saveBudgetRules } from '@/lib/db/budgetStore';
+
+export async function GET() {
+    try {
+        const rules = getBudgetRules();
+        const since = Math.min(getPeriodStart('monthly'), getPeriodStart('daily'));
+        const spend = listSpendRecords(since);
+
+        return NextResponse.json({
+            success: true,
+            rules,
+            statuses: getBudgetStatuses(rules, spend),
+            monthSpendUsd: spend
+                .filter(r => r.timestamp >= getPeriodStart('monthly'))
+                .reduce((sum, r) => sum + r.costUsd, 0),
+        });
+    } catch (error) {
+        console.error('[AI Budgets] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to load budgets' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const rules: BudgetRule[] | undefined = body?.rules;
+
+        if (!Array.isArray(rules)) {
+            return NextResponse.json(
+                { success: false, error: 'rules array is required' },
+                { status: 400 }
+            );
+        }
+
+        const result = saveBudgetRules(rules);
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, error: result.errors.join('; '), errors: result.errors },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({ success: true, rules });
+    } catch (error) {
+        console.error('[AI Budgets] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save budgets' },
+            { status: 500 }
+        );
+    }
+}
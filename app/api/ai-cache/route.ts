@@ -0,0 +1,41 @@
+/**
+ * AI Response Cache API
+ *
+ * GET /api/ai-cache
+ * Returns hit/miss statistics and size of the server response cache.
+ *
+ * DELETE /api/ai-cache
+ * Clears all cached responses and resets the counters.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerResponseCache } from '@/lib/ai/cache/serverCache';
+
+export async function GET() {
+    try {
+        const cache = getServerResponseCache();
+        cache.prune();
+        return NextResponse.json({ success: true, stats: cache.getStats() });
+    } catch (error) {
+        console.error('[AI Cache] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to read cache stats' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE() {
+    try {
+        const cache = getServerResponseCache();
+        cache.clear();
+        cache.resetStats();
+        return NextResponse.json({ success: true, stats: cache.getStats() });
+    } catch (error) {
+        console.error('[AI Cache] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to clear cache' },
+            { status: 500 }
+        );
+    }
+}
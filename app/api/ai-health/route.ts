@@ -0,0 +1,39 @@
+/**
+ * AI Provider Health API
+ *
+ * GET /api/ai-health
+ * Returns circuit breaker state per handler/key of the server executor.
+ *
+ * DELETE /api/ai-health?id=<circuitId>
+ * Resets one circuit (or all circuits when no id is given).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCircuitBreaker } from '@/lib/ai/circuitBreaker';
+
+export async function GET() {
+    try {
+        return NextResponse.json({ success: true, circuits: getCircuitBreaker().list() });
+    } catch (error) {
+        console.error('[AI Health] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to read circuit state' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const id = request.nextUrl.searchParams.get('id') || undefined;
+        const breaker = getCircuitBreaker();
+        breaker.reset(id);
+        return NextResponse.json({ success: true, circuits: breaker.list() });
+    } catch (error) {
+        console.error('[AI Health] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to reset circuits' },
+            { status: 500 }
+        );
+    }
+}
@@ -152,5 +152,11 @@ function getTroubleshootingTips(provider: ProviderId, error: string): string[] {
         tips.push('Check your balance at platform.deepseek.com');
     }
 
+    if (provider === 'local') {
+        tips.push('Enter the server URL, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:1234/v1 (LM Studio)');
+        tips.push('Make sure the server is running and has at least one model installed');
+        tips.push('For servers started with an API key use "http://host:port/v1|your-key"');
+    }
+
     return tips;
 }
@@ -2,11 +2,17 @@
  * Campaign Cron API
  * GET /api/campaigns/cron
  * 
- * Checks for due campaigns and executes them.
+ * Asks the campaign scheduler which campaigns are due (cron expressions in
+ * their time zone, interval schedules, missed-window policy), caps each one
+ * by maxPostsPerRun and the target site's daily limit, enqueues their items
+ * in the durable run queue and drains it. Items interrupted by a crashed
+ * process are resumed from their server-side checkpoint.
  * Called by external cron service or manually for testing.
  */
 
 import { NextResponse } from 'next/server';
+import type { Campaign } from '@/features/campaigns';
+import type { ScheduleDecision } from '@/features/campaigns/lib/scheduler';
 
 export const dynamic = 'force-dynamic';
 
@@ -15,6 +21,9 @@ interface CronResult {
     campaignName: string;
     status: 'success' | 'failed' | 'skipped';
     postsGenerated?: number;
+    postsQueued?: number;
+    missedWindows?: number;
+    skippedWindows?: number;
     error?: string;
 }
 
@@ -25,24 +34,73 @@ export async function GET() {
         // Import dynamically to avoid SSR issues with Zustand persist
         const { useCampaignStore } = await import('@/features/campaigns');
         const { useWPSitesStore } = await import('@/features/wordpress/model/wpSiteStore');
-        const { runPipeline, createRun } = await import('@/features/campaigns');
+        const { createRun } = await import('@/features/campaigns');
+        const {
+            evaluateSchedule,
+            computePostAllowance,
+            countSitePostsSince,
+            getStartOfDay,
+        } = await import('@/features/campaigns/lib/scheduler');
+        const { processRunQueue, storeQueueOptions } = await import('@/features/campaigns/lib/pipeline/queueWorker');
+        const {
+            saveRunRecord,
+            getRunRecord,
+            listRunRecords,
+            enqueueRunItems,
+            listRunQueue,
+        } = await import('@/lib/db/pipelineRunStore');
 
         const store = useCampaignStore.getState();
         const wpStore = useWPSitesStore.getState();
+        const now = Date.now();
 
-        // Get all due campaigns
-        const dueCampaigns = store.getDueCampaigns();
+        // Ask the scheduler which campaigns are due
+        const dueCampaigns: Array<ScheduleDecision & { campaign: Campaign }> = [];
+        for (const campaign of store.campaigns) {
+            const decision = evaluateSchedule(campaign, now);
 
-        if (dueCampaigns.length === 0) {
-            return NextResponse.json({
-                success: true,
-                message: 'No due campaigns',
-                results: [],
-            });
+            if (decision.due) {
+                dueCampaigns.push({ campaign, ...decision });
+            } else if (decision.reason === 'missed_window_skipped') {
+                store.updateSchedule(campaign.id, { nextRunAt: decision.nextRunAt });
+                results.push({
+                    campaignId: campaign.id,
+                    campaignName: campaign.name,
+                    status: 'skipped',
+                    missedWindows: decision.missedWindows,
+                    skippedWindows: decision.skippedWindows,
+                    error: 'Missed schedule window skipped',
+                });
+            } else if (decision.reason === 'invalid_schedule') {
+                results.push({
+                    campaignId: campaign.id,
+                    campaignName: campaign.name,
+                    status: 'skipped',
+                    error: decision.error,
+                });
+            }
         }
 
-        // Execute each due campaign
-        for (const campaign of dueCampaigns) {
+        const queuedRuns = new Map<string, Pick<CronResult, 'campaignId' | 'campaignName' | 'postsQueued' | 'missedWindows' | 'skippedWindows'>>();
+        const recentRuns = listRunRecords(undefined, 500);
+        const queuedThisTick = new Map<string, number>();
+
+        // Posts already published, waiting in the queue or queued this tick for the site today
+        const getSitePostsToday = (siteId: string, timeZone?: string): number => {
+            const siteCampaignIds = new Set(
+                store.campaigns.filter(c => c.targetSiteId === siteId).map(c => c.id)
+            );
+            const pending = listRunQueue().filter(e =>
+                siteCampaignIds.has(e.campaignId) && (e.status === 'queued' || e.status === 'leased')
+            ).length;
+
+            return countSitePostsSince(recentRuns, siteCampaignIds, getStartOfDay(now, timeZone))
+                + pending
+                + (queuedThisTick.get(siteId) || 0);
+        };
+
+        // Enqueue items for each due campaign; execution happens in the queue worker below
+        for (const { campaign, runs, missedWindows, skippedWindows } of dueCampaigns) {
             const wpSite = wpStore.getSite(campaign.targetSiteId);
 
             if (!wpSite || wpSite.status !== 'connected') {
@@ -55,8 +113,14 @@ export async function GET() {
                 continue;
             }
 
-            // Get source items based on source type
-            const sourceItems = await getSourceItems(campaign);
+            // Get source items based on source type. Items still queued, leased
+            // or backing off from an earlier tick are not enqueued again.
+            const inFlight = new Set(
+                listRunQueue({ campaignId: campaign.id })
+                    .filter(e => e.status === 'queued' || e.status === 'leased')
+                    .map(e => e.sourceItem.id)
+            );
+            const sourceItems = (await getSourceItems(campaign)).filter(item => !inFlight.has(item.id));
 
             if (sourceItems.length === 0) {
                 results.push({
@@ -68,42 +132,75 @@ export async function GET() {
                 continue;
             }
 
-            // Create run record
+            const allowance = computePostAllowance({
+                schedule: campaign.schedule,
+                runs,
+                availableItems: sourceItems.length,
+                sitePostsToday: campaign.schedule.maxPostsPerSitePerDay !== undefined
+                    ? getSitePostsToday(campaign.targetSiteId, campaign.schedule.timezone)
+                    : 0,
+            });
+
+            // Window is consumed either way; the daily cap resets on the next local day
+            store.updateNextRun(campaign.id);
+
+            if (allowance.allowed === 0) {
+                results.push({
+                    campaignId: campaign.id,
+                    campaignName: campaign.name,
+                    status: 'skipped',
+                    missedWindows,
+                    skippedWindows,
+                    error: 'Daily post cap reached for target site',
+                });
+                continue;
+            }
+
+            // Create run record (server copy is the durable one)
             const run = createRun(campaign.id);
             store.addRunToHistory(run);
+            saveRunRecord(run);
 
-            let postsGenerated = 0;
-            const maxPosts = campaign.schedule.maxPostsPerRun;
-
-            // Process source items up to max
-            for (let i = 0; i < Math.min(sourceItems.length, maxPosts); i++) {
-                try {
-                    await runPipeline(campaign, sourceItems[i], wpSite);
-                    postsGenerated++;
-                    store.incrementPublished(campaign.id);
-                } catch (error) {
-                    store.incrementFailed(campaign.id);
-                    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-                    store.addErrorToRun(run.id, 'generate', errorMsg);
-
-                    if (campaign.schedule.pauseOnError) {
-                        store.pauseCampaign(campaign.id);
-                        break;
-                    }
-                }
-            }
+            await enqueueRunItems(campaign.id, run.id, sourceItems.slice(0, allowance.allowed));
+            queuedThisTick.set(campaign.targetSiteId, (queuedThisTick.get(campaign.targetSiteId) || 0) + allowance.allowed);
+            queuedRuns.set(run.id, {
+                campaignId: campaign.id,
+                campaignName: campaign.name,
+                postsQueued: allowance.allowed,
+                missedWindows,
+                skippedWindows,
+            });
+        }
 
-            // Complete run
-            store.completeRun(run.id, postsGenerated > 0 ? 'completed' : 'failed');
+        // Nothing new and nothing left over from an interrupted worker
+        if (queuedRuns.size === 0 && listRunQueue({ status: 'queued' }).length === 0 &&
+            listRunQueue({ status: 'leased' }).length === 0) {
+            return NextResponse.json({
+                success: true,
+                message: dueCampaigns.length === 0 ? 'No due campaigns' : `Processed ${results.length} campaigns`,
+                results,
+            });
+        }
 
-            // Update next run time
-            store.updateNextRun(campaign.id);
+        // Drain the queue, including items whose previous worker died mid-pipeline
+        const queueResult = await processRunQueue(storeQueueOptions());
+
+        // Mirror durable run state back into the client store
+        for (const [runId, info] of queuedRuns) {
+            const run = getRunRecord(runId);
+            if (run) {
+                store.updateRun(runId, run);
+            }
 
+            const postsGenerated = run?.postsGenerated ?? 0;
             results.push({
-                campaignId: campaign.id,
-                campaignName: campaign.name,
+                campaignId: info.campaignId,
+                campaignName: info.campaignName,
                 status: postsGenerated > 0 ? 'success' : 'failed',
                 postsGenerated,
+                postsQueued: info.postsQueued,
+                missedWindows: info.missedWindows,
+                skippedWindows: info.skippedWindows,
             });
         }
 
@@ -111,6 +208,7 @@ export async function GET() {
             success: true,
             message: `Processed ${results.length} campaigns`,
             results,
+            queue: queueResult,
         });
 
     } catch (error) {
@@ -126,11 +224,18 @@ export async function GET() {
 // Helpers
 // ============================================================================
 
-async function getSourceItems(campaign: { source: { type: string; config: unknown } }) {
+async function getSourceItems(campaign: { id: string; targetSiteId: string; source: { type: string; config: unknown } }) {
     const { source } = campaign;
 
     if (source.type === 'keywords') {
-        const config = source.config as { keywords: string[]; currentIndex?: number };
+        const config = source.config as { keywords: string[]; currentIndex?: number; rotateMode?: string };
+
+        // Re-rank by opportunity before every run
+        if (config.rotateMode === 'opportunity') {
+            const { getOpportunitySourceItems } = await import('@/features/campaigns/lib/keywordOpportunity');
+            return getOpportunitySourceItems(campaign);
+        }
+
         const keywords = config.keywords || [];
         const startIndex = config.currentIndex || 0;
 
@@ -141,6 +246,11 @@ async function getSourceItems(campaign: { source: { type: string; config: unknow
         }));
     }
 
+    if (source.type === 'manual') {
+        const { getDueManualItems } = await import('@/features/campaigns/lib/clusterPlanner');
+        return getDueManualItems(source.config as import('@/features/campaigns/model/types').ManualSourceConfig);
+    }
+
     if (source.type === 'rss') {
         const { fetchFeed } = await import('@/features/campaigns/lib/rssParser');
         const config = source.config as { feedUrls: string[]; aiRewrite?: boolean };
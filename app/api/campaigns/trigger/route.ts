@@ -77,6 +77,7 @@ export async function POST(request: NextRequest) {
 
                 results.push({
                     topic: sourceItems[i].topic,
+                    selectionReason: sourceItems[i].metadata?.selectionReason,
                     status: 'success',
                     postUrl: ctx.wpResult?.postUrl,
                 });
@@ -87,6 +88,7 @@ export async function POST(request: NextRequest) {
 
                 results.push({
                     topic: sourceItems[i].topic,
+                    selectionReason: sourceItems[i].metadata?.selectionReason,
                     status: 'failed',
                     error: errorMsg,
                 });
@@ -136,14 +138,21 @@ type FetchRSSFn = (config: RSSSourceConfig, limit?: number) => Promise<RSSFetchR
 type FetchTrendsFn = (config: TrendsSourceConfig, limit?: number, serpApiKey?: string) => Promise<TrendsFetchResult>;
 
 async function getSourceItems(
-    campaign: { source: { type: string; config: unknown }; schedule: { maxPostsPerRun: number } },
+    campaign: { id: string; targetSiteId: string; source: { type: string; config: unknown }; schedule: { maxPostsPerRun: number } },
     fetchRSS: FetchRSSFn,
     fetchTrends?: FetchTrendsFn
 ): Promise<SourceItem[]> {
     const { source } = campaign;
 
     if (source.type === 'keywords') {
-        const config = source.config as { keywords: string[]; currentIndex?: number };
+        const config = source.config as { keywords: string[]; currentIndex?: number; rotateMode?: string };
+
+        // Re-rank by opportunity before every run
+        if (config.rotateMode === 'opportunity') {
+            const { getOpportunitySourceItems } = await import('@/features/campaigns/lib/keywordOpportunity');
+            return getOpportunitySourceItems(campaign);
+        }
+
         const keywords = config.keywords || [];
         const startIndex = config.currentIndex || 0;
 
@@ -13,8 +13,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { IfritEngine, ServerConfigProvider } from '@/lib/core';
-import { getCapabilityExecutor } from '@/lib/ai/services/CapabilityExecutor';
 import { aiServices } from '@/lib/ai/services';
+import { prepareServerExecution } from '@/lib/ai/serverIntegration';
 import { logUsageServer } from '@/stores/usageStore';
 
 // Estimate token count (approx 4 chars per token for English)
@@ -41,6 +41,9 @@ export async function POST(
             jobId,
             itemType,
             topic,
+            campaignId,
+            bypassCache,
+            responseSchema,  // JSON Schema - response `data` is the validated JSON
         } = body;
 
         if (!prompt) {
@@ -50,8 +53,9 @@ export async function POST(
             );
         }
 
-        // Ensure aiServices is fully initialized (handlers registered)
-        await aiServices.initialize();
+        // Executor wired with budgets, response cache and server-side settings
+        const { executor, handlers, config, providerKeys: serverProviderKeys, selectedModels: serverSelectedModels } =
+            await prepareServerExecution();
 
         // Validate capability exists
         const capabilities = aiServices.getCapabilities();
@@ -66,36 +70,6 @@ export async function POST(
             );
         }
 
-        // Execute via CapabilityExecutor
-        const executor = getCapabilityExecutor();
-        const handlers = aiServices.getHandlers();
-
-        // Get base config and merge with server-side settings (from SQLite DB)
-        // This fixes the client-server settings wiring issue
-        let config = aiServices.getConfig();
-        let serverProviderKeys: Record<string, string> = {};
-        let serverSelectedModels: Record<string, string> = {};
-        try {
-            const { getAllCapabilitySettings, getAllHandlerModels, getAllProviderKeys, getAllSelectedModels } = await import('@/lib/db/settingsDb');
-            const serverCapSettings = getAllCapabilitySettings();
-            const serverHandlerModels = getAllHandlerModels();
-            serverProviderKeys = getAllProviderKeys();
-            serverSelectedModels = getAllSelectedModels();
-
-            // Merge server settings into config
-            config = {
-                ...config,
-                capabilitySettings: {
-                    ...config.capabilitySettings,
-                    ...serverCapSettings,
-                },
-                // Store handler models for handlers to read
-                handlerModels: serverHandlerModels,
-            } as typeof config;
-        } catch (e) {
-            console.warn('[Capability Route] Failed to load server settings, using defaults:', e);
-        }
-
         // Extract integration keys from body for image search handlers
         // SoC: Route merges integration keys into context for handlers
         const { unsplashKey, pexelsKey, serperApiKey, braveApiKey, perplexityApiKey, aggregated } = body;
@@ -123,6 +97,9 @@ export async function POST(
             temperature,
             systemPrompt,
             preferredHandler,
+            campaignId,
+            bypassCache: !!bypassCache,
+            responseSchema,
             context: mergedContext,
         };
 
@@ -149,8 +126,10 @@ export async function POST(
             console.log(`[Capability:${capability}] SUCCESS via ${result.handlerUsed} in ${result.latencyMs}ms`);
         }
 
-        // Log usage for cost tracking
-        if (result.success && result.text) {
+        const fromCache = !!result.metadata?.fromCache;
+
+        // Log usage for cost tracking (cache hits cost nothing)
+        if (result.success && result.text && !fromCache) {
             const inputTokens = estimateTokens(prompt + (systemPrompt || ''));
             const outputTokens = estimateTokens(result.text);
 
@@ -178,6 +157,8 @@ export async function POST(
             fallbacksAttempted: result.fallbacksAttempted,
             model: result.model,
             usage: result.usage,
+            budgetBlocked: result.budgetBlocked,
+            fromCache,
             // Include detailed error for status panel - shows each handler's actual API error
             errorDetails: !result.success ? {
                 source: result.handlerUsed || 'capability-executor',
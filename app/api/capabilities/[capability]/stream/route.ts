@@ -0,0 +1,172 @@
+/**
+ * Capability Stream API - Server-Sent Events for token streaming
+ *
+ * POST /api/capabilities/[capability]/stream
+ *
+ * Same body as POST /api/capabilities/[capability], but the response is an
+ * SSE stream (see app/api/status/stream for the status-event equivalent):
+ *
+ *   event: start   data: { handlerId, handlerName }   (once per handler tried)
+ *   event: chunk   data: { text }                     (token deltas)
+ *   event: done    data: { success, text, data, handlerUsed, cancelled, ... }
+ *
+ * Aborting the request (client fetch AbortController) cancels generation
+ * at the provider; the partial output is still billed and reported.
+ *
+ * @module api/capabilities/[capability]/stream
+ */
+
+import { NextRequest } from 'next/server';
+import { aiServices } from '@/lib/ai/services';
+import { prepareServerExecution } from '@/lib/ai/serverIntegration';
+import { logUsageServer } from '@/stores/usageStore';
+
+export const dynamic = 'force-dynamic';
+
+// Estimate token count (approx 4 chars per token for English)
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ capability: string }> }
+) {
+    const { capability } = await params;
+
+    // Parse errors must come back as JSON - the SSE stream hasn't started yet
+    let body;
+    try {
+        body = await request.json();
+    } catch {
+        return Response.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (!body || typeof body !== 'object') {
+        return Response.json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+
+    const {
+        prompt,
+        model,
+        maxTokens,
+        temperature,
+        systemPrompt,
+        preferredHandler,
+        context,
+        // Tracking metadata
+        jobId,
+        itemType,
+        topic,
+        campaignId,
+        bypassCache,
+        responseSchema,  // JSON Schema - response `data` is the validated JSON
+    } = body;
+
+    if (!prompt) {
+        return Response.json({ success: false, error: 'Prompt is required' }, { status: 400 });
+    }
+
+    const { executor, handlers, config, providerKeys, selectedModels } = await prepareServerExecution();
+
+    if (!aiServices.getCapabilities().some(c => c.id === capability)) {
+        return Response.json({ success: false, error: `Unknown capability: ${capability}` }, { status: 400 });
+    }
+
+    const events = executor.executeStream(
+        {
+            capability,
+            prompt,
+            model,
+            maxTokens,
+            temperature,
+            systemPrompt,
+            preferredHandler,
+            campaignId,
+            bypassCache: !!bypassCache,
+            responseSchema,
+            signal: request.signal,
+            context: {
+                ...context,
+                // Server DB keys win; client keys cover providers not synced yet
+                providerKeys: { ...context?.providerKeys, ...providerKeys },
+                selectedModels,
+            },
+        },
+        handlers,
+        config
+    );
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const encoder = new TextEncoder();
+            const send = (event: string, data: unknown) => {
+                try {
+                    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+                } catch {
+                    // Client disconnected - generation stops via request.signal
+                }
+            };
+
+            try {
+                for await (const event of events) {
+                    if (event.type === 'start') {
+                        send('start', { handlerId: event.handlerId, handlerName: event.handlerName });
+                    } else if (event.type === 'chunk') {
+                        send('chunk', { text: event.text });
+                    } else {
+                        const { result } = event;
+                        const fromCache = !!result.metadata?.fromCache;
+
+                        // Log usage for cost tracking (cache hits cost nothing)
+                        if (result.text && !fromCache) {
+                            logUsageServer(
+                                result.handlerUsed || 'unknown',
+                                estimateTokens(prompt + (systemPrompt || '')),
+                                estimateTokens(result.text),
+                                { model: result.model, jobId, itemType, topic }
+                            );
+                        }
+
+                        console.log(`[CapabilityStream:${capability}] ${result.cancelled ? 'CANCELLED' : result.success ? 'SUCCESS' : 'FAILED'} via ${result.handlerUsed} in ${result.latencyMs}ms`);
+
+                        send('done', {
+                            success: result.success,
+                            text: result.text,
+                            data: result.data,
+                            error: result.error,
+                            cancelled: result.cancelled,
+                            handlerUsed: result.handlerUsed,
+                            source: result.source,
+                            latencyMs: result.latencyMs,
+                            fallbacksAttempted: result.fallbacksAttempted,
+                            model: result.model,
+                            budgetBlocked: result.budgetBlocked,
+                            fromCache,
+                            diagnostics: result.diagnostics,
+                            handlerErrors: result.handlerErrors,
+                        });
+                    }
+                }
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : 'Capability stream failed';
+                console.error('[CapabilityStream] Uncaught exception:', errorMsg);
+                send('done', { success: false, error: errorMsg });
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by client disconnect
+                }
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
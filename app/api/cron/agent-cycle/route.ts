@@ -37,6 +37,9 @@ export async function GET(request: NextRequest) {
         const result = await runAgentCycle(context);
         const pendingDecisions = getPendingDecisions();
 
+        // Resume campaign items left in the run queue by a crashed worker
+        const queue = await resumeRunQueue();
+
         return NextResponse.json({
             success: true,
             analysisResult: {
@@ -47,6 +50,7 @@ export async function GET(request: NextRequest) {
                 staleContentFound: staleContent.length,
                 freshnessSummary,
             },
+            runQueue: queue,
             analyzedAt: new Date().toISOString(),
         });
     } catch (error) {
@@ -58,3 +62,17 @@ export async function GET(request: NextRequest) {
     }
 }
 
+
+/**
+ * Drain leftover run queue items (bounded so the analysis cron stays short).
+ */
+async function resumeRunQueue() {
+    try {
+        const { processRunQueue, storeQueueOptions } = await import('@/features/campaigns/lib/pipeline/queueWorker');
+
+        return await processRunQueue({ ...storeQueueOptions(), maxItems: 5 });
+    } catch (error) {
+        console.error('[Cron: Agent Cycle] Run queue resume failed:', error);
+        return null;
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * Cron: DNS Drift Check
+ * GET /api/cron/dns-drift
+ *
+ * Diffs every stored DNS plan against its live zone and raises an alert in
+ * the unified log when live DNS no longer matches the plan.
+ * Configure in vercel.json: { "path": "/api/cron/dns-drift", "schedule": "0 0,6,12,18 * * *" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    // Verify cron secret for Vercel
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const { checkDnsDrift } = await import('@/lib/dns/dnsPlanService');
+
+        const results = await checkDnsDrift();
+
+        return NextResponse.json({
+            success: true,
+            checked: results.length,
+            drifted: results.filter(r => !r.report.inSync).map(r => ({
+                domain: r.domain,
+                summary: r.report.summary,
+                alerted: r.alerted,
+            })),
+            checkedAt: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Cron: DNS Drift] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Drift check failed' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Cron: Performance Learning
+ * GET /api/cron/performance-learning
+ *
+ * Joins published review items with their traffic (Plausible, when
+ * PLAUSIBLE_API_KEY is set) and revenue (AdSense page earnings with the
+ * ADSENSE_* credentials, plus the revenue tracker), feeds the outcomes into
+ * the smart review learning state (thresholds and prompt improvements) and
+ * reports which generation settings correlate with winners.
+ * Configure in vercel.json: { "path": "/api/cron/performance-learning", "schedule": "0 7 * * *" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    // Verify cron secret for Vercel
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const { loadPerformanceData, runPerformanceFeedback } = await import('@/features/editorial/lib/performanceLearning');
+        const { loadLearningState } = await import('@/features/editorial/lib/smartReview');
+        const { listReviewItems } = await import('@/lib/db/editorialReviewStore');
+        const { getTrackingState } = await import('@/lib/monetization');
+
+        const adsense = {
+            clientId: process.env.ADSENSE_CLIENT_ID || '',
+            clientSecret: process.env.ADSENSE_CLIENT_SECRET || '',
+            refreshToken: process.env.ADSENSE_REFRESH_TOKEN || '',
+        };
+
+        await loadLearningState();
+        const items = listReviewItems();
+        const { performances, revenue } = await loadPerformanceData(items, {
+            plausibleApiKey: process.env.PLAUSIBLE_API_KEY,
+            adsense: adsense.clientId && adsense.clientSecret && adsense.refreshToken ? adsense : undefined,
+        });
+        const report = runPerformanceFeedback(
+            items,
+            performances,
+            [...revenue, ...Object.values(getTrackingState().content)]
+        );
+
+        return NextResponse.json({
+            success: true,
+            posts: report.samples.length,
+            unmatched: report.unmatched,
+            winners: report.winners,
+            losers: report.losers,
+            qualityCorrelation: report.qualityCorrelation,
+            correlations: report.correlations.slice(0, 20),
+            thresholdChanges: report.thresholdChanges,
+            promptSignals: report.promptSignals,
+            learnedAt: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Cron: Performance Learning] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Performance learning failed' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * Cron: Review SLA Escalation
+ * GET /api/cron/review-sla
+ * 
+ * Escalates the priority of editorial reviews whose current approval step
+ * is past its SLA, and checks that the review audit log is intact.
+ * Configure in vercel.json: { "path": "/api/cron/review-sla", "schedule": "0 * * * *" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    // Verify cron secret for Vercel
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const { escalateOverdueReviews } = await import('@/features/editorial/lib/reviewService');
+        const { verifyAuditLog } = await import('@/lib/db/editorialReviewStore');
+
+        const escalated = escalateOverdueReviews();
+        const audit = verifyAuditLog();
+        if (!audit.valid) {
+            console.error(`[Cron: Review SLA] Audit log chain broken at entry ${audit.brokenAt}`);
+        }
+
+        return NextResponse.json({
+            success: true,
+            escalated: escalated.map(item => ({ id: item.id, title: item.title, priority: item.priority })),
+            audit,
+            checkedAt: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Cron: Review SLA] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Escalation failed' },
+            { status: 500 }
+        );
+    }
+}
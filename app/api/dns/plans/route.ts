@@ -0,0 +1,140 @@
+/**
+ * DNS Plans API
+ *
+ * Desired-state DNS per domain: save a plan, diff it against the live zone,
+ * and apply a reviewed diff.
+ *
+ * GET    /api/dns/plans                - List plans
+ * GET    /api/dns/plans?domain=x       - One plan
+ * POST   /api/dns/plans
+ *   { action: 'save',  input }             - Build and store a plan from DnsPlanInput
+ *   { action: 'diff',  domain }            - Diff against the live zone
+ *   { action: 'apply', domain, confirm }   - Apply the diff with this fingerprint
+ * DELETE /api/dns/plans?domain=x       - Remove a plan (DNS is left as is)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { DnsPlanInput } from '@/lib/dns/dnsPlan';
+
+export const dynamic = 'force-dynamic';
+
+interface PlanRequest {
+    action: 'save' | 'diff' | 'apply';
+    input?: DnsPlanInput;
+    domain?: string;
+    confirm?: string;
+}
+
+const PLAN_ERROR_STATUS = {
+    invalid_plan: 400,
+    not_found: 404,
+    stale_confirmation: 409,
+} as const;
+
+const PROVIDER_ERROR_STATUS = {
+    not_configured: 400,
+    zone_not_found: 404,
+    record_not_found: 404,
+    api_error: 502,
+} as const;
+
+async function errorResponse(error: unknown) {
+    const { DnsPlanError } = await import('@/lib/dns/dnsPlan');
+    const { DnsProviderError } = await import('@/lib/dns/providers');
+
+    if (error instanceof DnsPlanError) {
+        return NextResponse.json(
+            { success: false, error: error.message, code: error.code },
+            { status: PLAN_ERROR_STATUS[error.code] }
+        );
+    }
+    if (error instanceof DnsProviderError) {
+        return NextResponse.json(
+            { success: false, error: error.message, code: error.code },
+            { status: PROVIDER_ERROR_STATUS[error.code] }
+        );
+    }
+
+    console.error('[DNS Plans] Error:', error);
+    return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'DNS plan request failed' },
+        { status: 500 }
+    );
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { getDnsPlan, listDnsPlans } = await import('@/lib/db/dnsPlanStore');
+        const domain = request.nextUrl.searchParams.get('domain');
+
+        if (domain) {
+            return NextResponse.json({ success: true, plan: getDnsPlan(domain) });
+        }
+        return NextResponse.json({ success: true, plans: listDnsPlans() });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: PlanRequest = await request.json();
+
+        switch (body.action) {
+            case 'save': {
+                if (!body.input?.domain || !body.input.provider || !body.input.hosting) {
+                    return NextResponse.json(
+                        { success: false, error: 'input with domain, provider and hosting required' },
+                        { status: 400 }
+                    );
+                }
+                const { buildDnsPlan } = await import('@/lib/dns/dnsPlan');
+                const { getDnsPlan, saveDnsPlan } = await import('@/lib/db/dnsPlanStore');
+
+                const plan = buildDnsPlan(body.input, getDnsPlan(body.input.domain));
+                saveDnsPlan(plan);
+                return NextResponse.json({ success: true, plan });
+            }
+
+            case 'diff': {
+                if (!body.domain) {
+                    return NextResponse.json({ success: false, error: 'domain required' }, { status: 400 });
+                }
+                const { previewDnsPlan } = await import('@/lib/dns/dnsPlanService');
+                return NextResponse.json({ success: true, ...(await previewDnsPlan(body.domain)) });
+            }
+
+            case 'apply': {
+                if (!body.domain || !body.confirm) {
+                    return NextResponse.json({ success: false, error: 'domain and confirm required' }, { status: 400 });
+                }
+                const { applyDnsPlan } = await import('@/lib/dns/dnsPlanService');
+                const result = await applyDnsPlan(body.domain, body.confirm);
+                console.log(`[DNS Plans] ${body.domain}: ${result.created} created, ${result.updated} updated, ${result.deleted} deleted`);
+                return NextResponse.json({ success: true, ...result });
+            }
+
+            default:
+                return NextResponse.json({ success: false, error: 'Invalid action' }, { status: 400 });
+        }
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const domain = request.nextUrl.searchParams.get('domain');
+        if (!domain) {
+            return NextResponse.json({ success: false, error: 'domain required' }, { status: 400 });
+        }
+
+        const { deleteDnsPlan } = await import('@/lib/db/dnsPlanStore');
+        if (!deleteDnsPlan(domain)) {
+            return NextResponse.json({ success: false, error: 'Plan not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * DNS Records API
+ *
+ * One endpoint for record management at any supported provider (Namecheap,
+ * Cloudflare, GoDaddy, Route53, Hostinger). Credentials come from the
+ * secrets vault unless a connection test passes them in.
+ *
+ * POST /api/dns
+ *   { action: 'zone',   provider, domain, credentials? } - Look up the zone
+ *   { action: 'list',   provider, domain }               - List records
+ *   { action: 'apply',  provider, domain, records }      - Ensure records exist
+ *   { action: 'create', provider, domain, record }
+ *   { action: 'update', provider, domain, recordId, record }
+ *   { action: 'delete', provider, domain, recordId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { DNSProvider, DNSProviderCredentials, DNSRecord } from '@/lib/dns/dnsProviders';
+
+export const dynamic = 'force-dynamic';
+
+type DnsAction = 'zone' | 'list' | 'apply' | 'create' | 'update' | 'delete';
+
+interface DnsRequest {
+    action: DnsAction;
+    provider: DNSProvider;
+    domain: string;
+    credentials?: DNSProviderCredentials;
+    record?: DNSRecord;
+    records?: DNSRecord[];
+    recordId?: string;
+}
+
+const ERROR_STATUS = {
+    not_configured: 400,
+    zone_not_found: 404,
+    record_not_found: 404,
+    api_error: 502,
+} as const;
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: DnsRequest = await request.json();
+        const { action, provider, domain } = body;
+
+        if (!action || !provider || !domain) {
+            return NextResponse.json(
+                { success: false, error: 'action, provider and domain are required' },
+                { status: 400 }
+            );
+        }
+
+        const { createDnsProvider, createStoredDnsProvider } = await import('@/lib/dns/providers');
+        const { applyRecords } = await import('@/lib/dns/records');
+        const dns = body.credentials?.provider === provider
+            ? createDnsProvider(body.credentials)
+            : await createStoredDnsProvider(provider);
+
+        if (action === 'zone') {
+            return NextResponse.json({ success: true, zone: await dns.getZone(domain) });
+        }
+
+        if (action === 'apply') {
+            if (!Array.isArray(body.records) || body.records.length === 0) {
+                return NextResponse.json({ success: false, error: 'records required' }, { status: 400 });
+            }
+            const result = await applyRecords(dns, domain, body.records);
+            console.log(`[DNS] ${provider} ${domain}: ${result.created.length} created, ${result.updated.length} updated, ${result.unchanged.length} unchanged`);
+            return NextResponse.json({ success: true, result });
+        }
+
+        const zone = await dns.getZone(domain);
+        if (!zone) {
+            return NextResponse.json(
+                { success: false, error: `${domain} has no DNS zone at ${provider}` },
+                { status: 404 }
+            );
+        }
+
+        switch (action) {
+            case 'list':
+                return NextResponse.json({ success: true, zone, records: await dns.listRecords(zone) });
+
+            case 'create':
+                if (!body.record) {
+                    return NextResponse.json({ success: false, error: 'record required' }, { status: 400 });
+                }
+                return NextResponse.json({ success: true, record: await dns.createRecord(zone, body.record) });
+
+            case 'update':
+                if (!body.record || !body.recordId) {
+                    return NextResponse.json({ success: false, error: 'recordId and record required' }, { status: 400 });
+                }
+                return NextResponse.json({ success: true, record: await dns.updateRecord(zone, body.recordId, body.record) });
+
+            case 'delete':
+                if (!body.recordId) {
+                    return NextResponse.json({ success: false, error: 'recordId required' }, { status: 400 });
+                }
+                await dns.deleteRecord(zone, body.recordId);
+                return NextResponse.json({ success: true });
+
+            default:
+                return NextResponse.json({ success: false, error: 'Invalid action' }, { status: 400 });
+        }
+    } catch (error) {
+        const { DnsProviderError } = await import('@/lib/dns/providers');
+        if (error instanceof DnsProviderError) {
+            return NextResponse.json(
+                { success: false, error: error.message, code: error.code },
+                { status: ERROR_STATUS[error.code] }
+            );
+        }
+
+        console.error('[DNS] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'DNS request failed' },
+            { status: 500 }
+        );
+    }
+}
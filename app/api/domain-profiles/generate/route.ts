@@ -10,6 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { IfritEngine } from '@/lib/core';
 import { saveDomainProfile, DomainProfile } from '@/lib/websiteStore';
 import { statusEmitter } from '@/app/api/status/stream/route';
@@ -48,17 +49,20 @@ interface GenerateRequest {
     apiKey?: string;
 }
 
-interface AIKeywordResult {
-    niche: string;
-    nicheDescription: string;
-    primaryKeywords: string[];
-    secondaryKeywords: string[];
-    questionKeywords: string[];
-    suggestedTopics: string[];
-    suggestedCategories: string[];
-    contentAngles: string[];
-    monetizationHints: string[];
-}
+/** Structured output for the 'keywords' capability (enforced by CapabilityExecutor) */
+const AIKeywordResultSchema = z.object({
+    niche: z.string().min(1).describe("One or two word niche (e.g., 'E-commerce Software', 'Outdoor Gear', 'Health Tips')"),
+    nicheDescription: z.string().describe('One sentence describing the niche focus'),
+    primaryKeywords: z.array(z.string()).min(1).describe('5 high-volume commercial intent keywords'),
+    secondaryKeywords: z.array(z.string()).describe('10 long-tail keyword variations'),
+    questionKeywords: z.array(z.string()).describe("5 'how to' or 'what is' style questions"),
+    suggestedTopics: z.array(z.string()).describe('5 article topic ideas with good AdSense potential'),
+    suggestedCategories: z.array(z.string()).describe('3-4 website section/category names'),
+    contentAngles: z.array(z.string()).describe('3 unique content angles or perspectives'),
+    monetizationHints: z.array(z.string()).describe('2-3 AdSense optimization tips for this niche'),
+});
+
+type AIKeywordResult = z.infer<typeof AIKeywordResultSchema>;
 
 // ============================================
 // Domain Name Segmentation
@@ -177,19 +181,6 @@ ${context}${keywordSection}
 Based on the domain name and any available data, generate a comprehensive keyword profile.
 The goal is to identify the most profitable niche and keywords for this domain.
 
-Respond in this exact JSON format:
-{
-  "niche": "One or two word niche (e.g., 'E-commerce Software', 'Outdoor Gear', 'Health Tips')",
-  "nicheDescription": "One sentence describing the niche focus",
-  "primaryKeywords": ["5 high-volume commercial intent keywords"],
-  "secondaryKeywords": ["10 long-tail keyword variations"],
-  "questionKeywords": ["5 'how to' or 'what is' style questions"],
-  "suggestedTopics": ["5 article topic ideas with good AdSense potential"],
-  "suggestedCategories": ["3-4 website section/category names"],
-  "contentAngles": ["3 unique content angles or perspectives"],
-  "monetizationHints": ["2-3 AdSense optimization tips for this niche"]
-}
-
 Focus on keywords with commercial intent that work well with AdSense ads.
 Make suggestions specific to the domain name's implied meaning.`;
 }
@@ -384,9 +375,11 @@ async function generateWithAI(
         // Use CapabilityExecutor like /api/capabilities/[capability] route does
         const { getCapabilityExecutor } = await import('@/lib/ai/services/CapabilityExecutor');
         const { aiServices } = await import('@/lib/ai/services');
+        const { getServerBudgetGuard } = await import('@/lib/db/budgetStore');
         await aiServices.initialize();
 
         const executor = getCapabilityExecutor();
+        executor.updateConfig({ budgetGuard: getServerBudgetGuard() });
         const handlers = aiServices.getHandlers();
         const config = aiServices.getConfig();
 
@@ -397,6 +390,7 @@ async function generateWithAI(
             {
                 capability: 'keywords',
                 prompt,
+                responseSchema: AIKeywordResultSchema,
                 context: { itemType: 'domain-profile', keywordContext, apiKey },  // Pass apiKey in context
             },
             handlers,
@@ -411,29 +405,13 @@ async function generateWithAI(
 
         tracker?.step('Keyword Discovery', 'success', `Handler: ${keywordResult.handlerUsed}`);
 
-        // Parse keywords result
-        let keywordsData: Record<string, unknown> | null = null;
-        if (keywordResult.data && typeof keywordResult.data === 'object') {
-            keywordsData = keywordResult.data as Record<string, unknown>;
-        } else if (keywordResult.text) {
-            const jsonMatch = keywordResult.text.match(/```json\n?([\s\S]*?)\n?```/) || keywordResult.text.match(/\{[\s\S]*\}/);
-            const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : keywordResult.text;
-            try {
-                keywordsData = JSON.parse(jsonStr);
-            } catch {
-                console.warn('[Profile Generate] Failed to parse keywords response');
-            }
-        }
-
-        if (!keywordsData) {
-            console.warn('[Profile Generate] No keywords data returned');
-            return getFallbackResult();
-        }
+        // Already validated against AIKeywordResultSchema by the executor
+        const keywordsData = keywordResult.data as AIKeywordResult;
 
         // Step 2: Use 'keyword-analyze' capability to get CPC/difficulty for discovered keywords
         const discoveredKeywords = [
-            ...(toStringArray(keywordsData.primary_keywords || keywordsData.primaryKeywords)),
-            ...(toStringArray(keywordsData.secondary_keywords || keywordsData.secondaryKeywords)).slice(0, 3)
+            ...keywordsData.primaryKeywords,
+            ...keywordsData.secondaryKeywords.slice(0, 3)
         ].slice(0, 10); // Limit to 10 keywords for analysis
 
         if (discoveredKeywords.length > 0) {
@@ -454,19 +432,12 @@ async function generateWithAI(
             if (analysisResult.success) {
                 console.log('[Profile Generate] Keyword analysis complete');
                 tracker?.step('Keyword Analysis', 'success', `Handler: ${analysisResult.handlerUsed}`);
-                // Merge analysis data into profile if available
-                if (analysisResult.data && typeof analysisResult.data === 'object') {
-                    const analysisData = analysisResult.data as Record<string, unknown>;
-                    // Add analysis metadata to keywordsData
-                    keywordsData.keywordAnalysis = analysisData;
-                }
             } else {
                 tracker?.step('Keyword Analysis', 'warning', 'Skipped - using defaults');
             }
         }
 
-        // Normalize with snake_case support
-        return normalizeAIKeywordResult(keywordsData);
+        return keywordsData;
 
     } catch (error) {
         console.error('[Profile Generate] AI call failed:', error);
@@ -474,30 +445,6 @@ async function generateWithAI(
     }
 }
 
-/**
- * Normalize AI response - handles both snake_case and camelCase fields
- */
-function normalizeAIKeywordResult(raw: Record<string, unknown>): AIKeywordResult {
-    return {
-        niche: String(raw.niche || 'General'),
-        nicheDescription: String(raw.niche_description || raw.nicheDescription || ''),
-        primaryKeywords: toStringArray(raw.primary_keywords || raw.primaryKeywords),
-        secondaryKeywords: toStringArray(raw.secondary_keywords || raw.secondaryKeywords),
-        questionKeywords: toStringArray(raw.question_keywords || raw.questionKeywords),
-        suggestedTopics: toStringArray(raw.suggested_topics || raw.suggestedTopics),
-        suggestedCategories: toStringArray(raw.suggested_categories || raw.suggestedCategories),
-        contentAngles: toStringArray(raw.content_angles || raw.contentAngles),
-        monetizationHints: toStringArray(raw.monetization_hints || raw.monetizationHints),
-    };
-}
-
-function toStringArray(value: unknown): string[] {
-    if (Array.isArray(value)) {
-        return value.map(v => String(v));
-    }
-    return [];
-}
-
 function getFallbackResult(): AIKeywordResult {
     return {
         niche: 'General',
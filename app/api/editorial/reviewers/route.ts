@@ -0,0 +1,61 @@
+/**
+ * Reviewers API
+ *
+ * GET /api/editorial/reviewers
+ * Returns all reviewers and their roles.
+ *
+ * POST /api/editorial/reviewers
+ * Creates or updates a reviewer ({ reviewer }).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewer, listReviewers, saveReviewer } from '@/lib/db/editorialReviewStore';
+import type { Reviewer, ReviewerRole } from '@/features/editorial/model/workflowTypes';
+
+const ROLES: ReviewerRole[] = ['writer', 'editor', 'legal'];
+
+export async function GET() {
+    try {
+        return NextResponse.json({ success: true, reviewers: listReviewers() });
+    } catch (error) {
+        console.error('[Reviewers] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to load reviewers' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const input: Partial<Reviewer> | undefined = body?.reviewer;
+
+        if (!input?.name?.trim() || !Array.isArray(input.roles) || input.roles.length === 0 ||
+            input.roles.some(role => !ROLES.includes(role))) {
+            return NextResponse.json(
+                { success: false, error: `reviewer with name and roles (${ROLES.join('|')}) is required` },
+                { status: 400 }
+            );
+        }
+
+        const existing = input.id ? getReviewer(input.id) : null;
+        const reviewer: Reviewer = {
+            id: existing?.id || input.id || `reviewer_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+            name: input.name.trim(),
+            email: input.email,
+            roles: [...new Set(input.roles)],
+            active: input.active ?? true,
+            createdAt: existing?.createdAt || Date.now(),
+        };
+
+        saveReviewer(reviewer);
+        return NextResponse.json({ success: true, reviewer });
+    } catch (error) {
+        console.error('[Reviewers] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save reviewer' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * Review Comments API
+ *
+ * POST /api/editorial/reviews/[id]/comments
+ * Adds a comment anchored to a paragraph ({ reviewerId, paragraphIndex, body }).
+ *
+ * PATCH /api/editorial/reviews/[id]/comments
+ * Resolves a comment ({ reviewerId, commentId }).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    addReviewComment,
+    getWorkflowErrorStatus,
+    resolveReviewComment,
+} from '@/features/editorial/lib/reviewService';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const { reviewerId, paragraphIndex, body } = await request.json();
+
+        if (!reviewerId || typeof paragraphIndex !== 'number' || !body?.trim()) {
+            return NextResponse.json(
+                { success: false, error: 'reviewerId, paragraphIndex and body are required' },
+                { status: 400 }
+            );
+        }
+
+        const comment = addReviewComment(id, reviewerId, paragraphIndex, body.trim());
+        return NextResponse.json({ success: true, comment });
+    } catch (error) {
+        console.error('[Review Comments] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to add comment' },
+            { status: getWorkflowErrorStatus(error) }
+        );
+    }
+}
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const { reviewerId, commentId } = await request.json();
+
+        if (!reviewerId || !commentId) {
+            return NextResponse.json(
+                { success: false, error: 'reviewerId and commentId are required' },
+                { status: 400 }
+            );
+        }
+
+        const comment = resolveReviewComment(id, commentId, reviewerId);
+        return NextResponse.json({ success: true, comment });
+    } catch (error) {
+        console.error('[Review Comments] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to resolve comment' },
+            { status: getWorkflowErrorStatus(error) }
+        );
+    }
+}
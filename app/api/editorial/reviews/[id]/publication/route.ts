@@ -0,0 +1,43 @@
+/**
+ * Review Publication API
+ *
+ * POST /api/editorial/reviews/[id]/publication
+ * Records the post a review went live as ({ postId, url, publishedAt? }).
+ * Called by the publish stage; the performance-learning cron reads it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getWorkflowErrorStatus,
+    recordReviewPublication,
+} from '@/features/editorial/lib/reviewService';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const { postId, url, publishedAt } = await request.json();
+
+        if (typeof postId !== 'number' || typeof url !== 'string' || !url) {
+            return NextResponse.json(
+                { success: false, error: 'postId and url are required' },
+                { status: 400 }
+            );
+        }
+
+        const item = recordReviewPublication(id, {
+            postId,
+            url,
+            publishedAt: typeof publishedAt === 'number' ? publishedAt : undefined,
+        });
+        return NextResponse.json({ success: true, item });
+    } catch (error) {
+        console.error('[Review Publication] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to record publication' },
+            { status: getWorkflowErrorStatus(error) }
+        );
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * Editorial Review API
+ *
+ * GET /api/editorial/reviews/[id]
+ * Returns the review with its audit trail and anchored comments.
+ *
+ * PATCH /api/editorial/reviews/[id]
+ * Applies a workflow action as a reviewer ({ reviewerId, action }), where
+ * action is decide / edit / resubmit / assign.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getReviewDetail,
+    getWorkflowErrorStatus,
+    performReviewAction,
+} from '@/features/editorial/lib/reviewService';
+import type { ReviewActionRequest } from '@/features/editorial/model/workflowTypes';
+
+const ACTION_TYPES: ReviewActionRequest['type'][] = ['decide', 'edit', 'resubmit', 'assign'];
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        return NextResponse.json({ success: true, ...getReviewDetail(id) });
+    } catch (error) {
+        console.error('[Editorial Review] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to load review' },
+            { status: getWorkflowErrorStatus(error) }
+        );
+    }
+}
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const { reviewerId, action } = await request.json() as { reviewerId?: string; action?: ReviewActionRequest };
+
+        if (!reviewerId || !action || !ACTION_TYPES.includes(action.type)) {
+            return NextResponse.json(
+                { success: false, error: `reviewerId and action (${ACTION_TYPES.join('|')}) are required` },
+                { status: 400 }
+            );
+        }
+
+        const item = performReviewAction(id, reviewerId, action);
+        return NextResponse.json({ success: true, item });
+    } catch (error) {
+        console.error('[Editorial Review] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to update review' },
+            { status: getWorkflowErrorStatus(error) }
+        );
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * Editorial Reviews API
+ *
+ * GET /api/editorial/reviews
+ * Escalates overdue reviews, then returns the server-persisted queue.
+ *
+ * POST /api/editorial/reviews
+ * Stores review items created in the browser or by the pipeline ({ items }).
+ * Items already on the server are left unchanged. Submitted workflows and
+ * decisions are ignored; new items start at the first approval step.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listReviewItems } from '@/lib/db/editorialReviewStore';
+import { escalateOverdueReviews, importReviewItem } from '@/features/editorial/lib/reviewService';
+import type { ReviewItem } from '@/features/editorial/model/reviewTypes';
+
+export async function GET() {
+    try {
+        const escalated = escalateOverdueReviews();
+        return NextResponse.json({
+            success: true,
+            items: listReviewItems(),
+            escalated: escalated.map(i => i.id),
+        });
+    } catch (error) {
+        console.error('[Editorial Reviews] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to load reviews' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const items: ReviewItem[] | undefined = body?.items;
+
+        if (!Array.isArray(items) || items.some(i => !i?.id || typeof i.content !== 'string' || !i.riskLevel)) {
+            return NextResponse.json(
+                { success: false, error: 'items with id, content and riskLevel are required' },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({ success: true, items: items.map(item => importReviewItem(item)) });
+    } catch (error) {
+        console.error('[Editorial Reviews] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save reviews' },
+            { status: 500 }
+        );
+    }
+}
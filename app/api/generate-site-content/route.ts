@@ -126,9 +126,11 @@ export async function POST(request: NextRequest) {
 
         // Use standard CapabilityExecutor pattern
         const { getCapabilityExecutor } = await import('@/lib/ai/services/CapabilityExecutor');
+        const { getServerBudgetGuard } = await import('@/lib/db/budgetStore');
         await aiServices.initialize();
 
         const executor = getCapabilityExecutor();
+        executor.updateConfig({ budgetGuard: getServerBudgetGuard() });
         const handlers = aiServices.getHandlers();
         const config = aiServices.getConfig();
 
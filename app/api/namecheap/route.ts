@@ -15,14 +15,6 @@ interface NamecheapParams {
     domain?: string;  // For setDNS command
 }
 
-interface DNSRecord {
-    type: 'A' | 'CNAME' | 'MX' | 'TXT' | 'AAAA';
-    host: string;
-    value: string;
-    ttl?: number;
-    mxPref?: number;
-}
-
 export async function POST(req: NextRequest) {
     try {
         const params: NamecheapParams = await req.json();
@@ -90,7 +82,7 @@ async function handleGetDomains(params: NamecheapParams) {
 
 /**
  * Set DNS records for a domain to point to Vercel
- * Uses: namecheap.domains.dns.setHosts
+ * Existing records (mail, verification) are kept; see lib/dns/records
  */
 async function handleSetDNS(params: NamecheapParams) {
     if (!params.domain) {
@@ -100,83 +92,40 @@ async function handleSetDNS(params: NamecheapParams) {
         );
     }
 
-    // Split domain into SLD and TLD
-    const domainParts = params.domain.split('.');
-    if (domainParts.length < 2) {
+    const { createNamecheapProvider, splitDomain } = await import('@/lib/dns/providers/namecheap');
+    const { applyRecords } = await import('@/lib/dns/records');
+    const { DnsProviderError } = await import('@/lib/dns/providers/types');
+    const { VERCEL_DNS_RECORDS } = await import('@/lib/dns/dnsProviders');
+
+    if (!splitDomain(params.domain)) {
         return NextResponse.json(
             { success: false, error: 'Invalid domain format' },
             { status: 400 }
         );
     }
 
-    // Handle multi-part TLDs like .co.uk, .com.br
-    let sld: string;
-    let tld: string;
-
-    // Common multi-part TLDs
-    const multiPartTLDs = ['co.uk', 'com.br', 'com.au', 'co.nz', 'co.za'];
-    const lastTwoParts = domainParts.slice(-2).join('.');
-
-    if (multiPartTLDs.includes(lastTwoParts) && domainParts.length >= 3) {
-        sld = domainParts.slice(0, -2).join('.');
-        tld = lastTwoParts;
-    } else {
-        sld = domainParts.slice(0, -1).join('.');
-        tld = domainParts[domainParts.length - 1];
-    }
-
-    // Vercel DNS records
-    const records: DNSRecord[] = [
-        { type: 'A', host: '@', value: '76.76.21.21', ttl: 1800 },
-        { type: 'CNAME', host: 'www', value: 'cname.vercel-dns.com', ttl: 1800 }
-    ];
-
-    const baseUrl = params.sandbox ? SANDBOX_URL : PRODUCTION_URL;
-    const url = new URL(baseUrl);
-    url.searchParams.append('ApiUser', params.apiUser);
-    url.searchParams.append('ApiKey', params.apiKey);
-    url.searchParams.append('UserName', params.username);
-    url.searchParams.append('ClientIp', params.clientIp);
-    url.searchParams.append('Command', 'namecheap.domains.dns.setHosts');
-    url.searchParams.append('SLD', sld);
-    url.searchParams.append('TLD', tld);
-
-    // Add each DNS record
-    records.forEach((record, index) => {
-        const i = index + 1;
-        url.searchParams.append(`HostName${i}`, record.host);
-        url.searchParams.append(`RecordType${i}`, record.type);
-        url.searchParams.append(`Address${i}`, record.value);
-        url.searchParams.append(`TTL${i}`, String(record.ttl || 1800));
-        if (record.type === 'MX' && record.mxPref) {
-            url.searchParams.append(`MXPref${i}`, String(record.mxPref));
-        }
+    const provider = createNamecheapProvider({
+        apiUser: params.apiUser,
+        apiKey: params.apiKey,
+        username: params.username,
+        clientIp: params.clientIp,
+        sandbox: params.sandbox,
     });
 
-    console.log('Namecheap setDNS URL:', url.toString().replace(params.apiKey, '***'));
-
-    const response = await fetch(url.toString());
-    const xmlText = await response.text();
-
-    console.log('Namecheap setDNS response:', xmlText.substring(0, 500));
-
-    // Check for API errors
-    const errorMatch = xmlText.match(/<Error Number="(\d+)">(.*?)<\/Error>/);
-    if (errorMatch) {
+    try {
+        const result = await applyRecords(provider, params.domain, VERCEL_DNS_RECORDS);
         return NextResponse.json({
-            success: false,
-            error: `Namecheap Error ${errorMatch[1]}: ${errorMatch[2]}`
+            success: true,
+            message: `DNS records set for ${params.domain}`,
+            records: VERCEL_DNS_RECORDS.map(r => ({ type: r.type, host: r.host, value: r.value })),
+            result,
         });
+    } catch (error) {
+        if (error instanceof DnsProviderError) {
+            return NextResponse.json({ success: false, error: error.message });
+        }
+        throw error;
     }
-
-    // Check for success
-    const isSuccess = xmlText.includes('IsSuccess="true"') || xmlText.includes('<DomainDNSSetHostsResult');
-
-    return NextResponse.json({
-        success: isSuccess,
-        message: isSuccess ? `DNS records set for ${params.domain}` : 'DNS update failed',
-        records: records.map(r => ({ type: r.type, host: r.host, value: r.value }))
-    });
 }
 
 function parseDomains(xml: string): Array<{
@@ -0,0 +1,58 @@
+/**
+ * Link Graph API
+ *
+ * GET /api/seo/link-graph?domain=example.com[&target=article-id]
+ * Builds the internal link graph for a legacy websiteStore site: inbound and
+ * outbound counts, orphan pages, cluster hubs and authority. With a target,
+ * also proposes backlinks into that article (proposals only - legacy articles
+ * are edited in the website editor, not rewritten here).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listArticles } from '@/lib/websiteStore';
+import { buildLinkGraph, proposeBacklinks, type GraphPage } from '@/features/campaigns/lib/linkGraph';
+
+export async function GET(request: NextRequest) {
+    try {
+        const domain = request.nextUrl.searchParams.get('domain');
+        const target = request.nextUrl.searchParams.get('target');
+
+        if (!domain) {
+            return NextResponse.json({
+                success: false,
+                error: 'Domain is required'
+            }, { status: 400 });
+        }
+
+        const pages: GraphPage[] = listArticles(domain)
+            .filter(a => a.pageType === 'article' || !a.pageType)
+            .map(a => ({
+                id: a.id,
+                title: a.title || a.id,
+                url: `/${a.slug}`,
+                content: a.content,
+                cluster: a.category || undefined,
+            }));
+
+        const graph = buildLinkGraph(pages, domain);
+
+        if (target && !pages.some(p => p.id === target)) {
+            return NextResponse.json({
+                success: false,
+                error: `Article not found: ${target}`
+            }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            graph,
+            proposals: target ? proposeBacklinks(graph, pages, target) : undefined,
+        });
+    } catch (error) {
+        console.error('[Link Graph] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to build link graph' },
+            { status: 500 }
+        );
+    }
+}
@@ -4,6 +4,7 @@
  * Provides server-side persistence for user settings.
  * Settings are backed up to a JSON file on the server.
  * This ensures data survives browser localStorage clearing.
+ * The profile is sealed with the secrets vault when a master key is set.
  * 
  * POST /api/settings/backup - Save settings to server
  * GET /api/settings/backup - Load settings from server
@@ -13,14 +14,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
 import type { UserProfile } from '@/stores/settingsStore';
+import { isVaultConfigured, openSecret, sealSecret } from '@/lib/security/secretsVault';
 
 const BACKUP_DIR = path.join(process.cwd(), 'data');
 const BACKUP_FILE = path.join(BACKUP_DIR, 'user-settings-backup.json');
+const BACKUP_CONTEXT = 'settings_backup';
 
 interface SettingsBackup {
     version: string;
     timestamp: number;
-    profile: UserProfile;
+    profile?: UserProfile;
+    sealedProfile?: string;              // Vault-sealed JSON of the profile
 }
 
 function ensureBackupDir() {
@@ -43,11 +47,9 @@ export async function POST(request: NextRequest) {
 
         ensureBackupDir();
 
-        const backup: SettingsBackup = {
-            version: '4.0.0',
-            timestamp: Date.now(),
-            profile
-        };
+        const backup: SettingsBackup = isVaultConfigured()
+            ? { version: '4.0.0', timestamp: Date.now(), sealedProfile: sealSecret(JSON.stringify(profile), BACKUP_CONTEXT) }
+            : { version: '4.0.0', timestamp: Date.now(), profile };
 
         fs.writeFileSync(BACKUP_FILE, JSON.stringify(backup, null, 2), 'utf-8');
 
@@ -77,7 +79,11 @@ export async function GET() {
         }
 
         const content = fs.readFileSync(BACKUP_FILE, 'utf-8');
-        const backup: SettingsBackup = JSON.parse(content);
+        const stored: SettingsBackup = JSON.parse(content);
+        const { sealedProfile, ...backup } = stored;
+        if (sealedProfile) {
+            backup.profile = JSON.parse(openSecret(sealedProfile, BACKUP_CONTEXT));
+        }
 
         return NextResponse.json({
             success: true,
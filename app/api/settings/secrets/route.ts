@@ -0,0 +1,102 @@
+/**
+ * Integration Secrets API
+ *
+ * Server-held credentials for DNS, registrar and other integrations, sealed
+ * with the secrets vault instead of living in localStorage.
+ *
+ * GET    /api/settings/secrets?names=a,b  - Open the named secrets
+ * GET    /api/settings/secrets            - List stored names (masked values)
+ * POST   /api/settings/secrets            - Store { secrets: { name: value } }
+ * DELETE /api/settings/secrets?names=a,b  - Remove the named secrets
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+function parseNames(request: NextRequest): string[] {
+    return (request.nextUrl.searchParams.get('names') || '')
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean);
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { getIntegrationSecrets, listIntegrationSecretNames } = await import('@/lib/db/settingsDb');
+        const names = parseNames(request);
+
+        if (names.length > 0) {
+            return NextResponse.json({ success: true, secrets: getIntegrationSecrets(names) });
+        }
+
+        const { maskSecret } = await import('@/lib/security/redact');
+        const stored = listIntegrationSecretNames();
+        const values = getIntegrationSecrets(stored);
+        return NextResponse.json({
+            success: true,
+            names: stored,
+            masked: Object.fromEntries(stored.map(name => [name, maskSecret(values[name] || '')])),
+        });
+    } catch (error) {
+        console.error('[Settings Secrets] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to read secrets' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const secrets = body?.secrets as Record<string, unknown> | undefined;
+
+        if (!secrets || typeof secrets !== 'object') {
+            return NextResponse.json(
+                { success: false, error: 'secrets object required' },
+                { status: 400 }
+            );
+        }
+
+        const { setIntegrationSecret, deleteIntegrationSecret } = await import('@/lib/db/settingsDb');
+        let stored = 0;
+        for (const [name, value] of Object.entries(secrets)) {
+            if (typeof value === 'string' && value) {
+                setIntegrationSecret(name, value);
+                stored++;
+            } else if (value === null || value === '') {
+                deleteIntegrationSecret(name);
+            }
+        }
+
+        return NextResponse.json({ success: true, stored });
+    } catch (error) {
+        console.error('[Settings Secrets] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to store secrets' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const names = parseNames(request);
+        if (names.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'names required' },
+                { status: 400 }
+            );
+        }
+
+        const { deleteIntegrationSecret } = await import('@/lib/db/settingsDb');
+        names.forEach(deleteIntegrationSecret);
+
+        return NextResponse.json({ success: true, deleted: names.length });
+    } catch (error) {
+        console.error('[Settings Secrets] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to delete secrets' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Secrets Vault API
+ *
+ * GET  /api/settings/vault - Vault status (configured, current key version)
+ * POST /api/settings/vault - { action: 'seal', data }   Encrypt a settings export
+ *                            { action: 'open', sealed } Decrypt a settings export
+ *                            { action: 'rotate' }       Re-encrypt stored secrets under the current master key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+const EXPORT_CONTEXT = 'settings_export';
+
+export async function GET() {
+    const { getCurrentKeyVersion, isVaultConfigured } = await import('@/lib/security/secretsVault');
+    return NextResponse.json({
+        success: true,
+        configured: isVaultConfigured(),
+        keyVersion: getCurrentKeyVersion(),
+    });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { SecretsVaultError, isVaultConfigured, openSecret, sealSecret } = await import('@/lib/security/secretsVault');
+        const body = await request.json();
+
+        try {
+            switch (body?.action) {
+                case 'seal': {
+                    if (typeof body.data !== 'string') {
+                        return NextResponse.json({ success: false, error: 'data string required' }, { status: 400 });
+                    }
+                    return NextResponse.json({ success: true, sealed: sealSecret(body.data, EXPORT_CONTEXT) });
+                }
+
+                case 'open': {
+                    if (typeof body.sealed !== 'string') {
+                        return NextResponse.json({ success: false, error: 'sealed string required' }, { status: 400 });
+                    }
+                    return NextResponse.json({ success: true, data: openSecret(body.sealed, EXPORT_CONTEXT) });
+                }
+
+                case 'rotate': {
+                    if (!isVaultConfigured()) {
+                        return NextResponse.json({ success: false, error: 'SECRETS_MASTER_KEY is not set' }, { status: 503 });
+                    }
+                    const { migrateSecrets } = await import('@/lib/db/settingsDb');
+                    const result = migrateSecrets();
+                    return NextResponse.json({ success: result.failed.length === 0, ...result });
+                }
+
+                default:
+                    return NextResponse.json({ success: false, error: 'Unknown action' }, { status: 400 });
+            }
+        } catch (error) {
+            if (error instanceof SecretsVaultError) {
+                const status = error.code === 'not_configured' || error.code === 'unknown_key_version' ? 503 : 422;
+                return NextResponse.json({ success: false, error: error.message, code: error.code }, { status });
+            }
+            throw error;
+        }
+    } catch (error) {
+        console.error('[Settings Vault] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Vault request failed' },
+            { status: 500 }
+        );
+    }
+}
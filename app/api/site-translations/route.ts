@@ -0,0 +1,133 @@
+/**
+ * Site Translations API
+ *
+ * Translated article copies for multilingual legacy websiteStore sites.
+ * The translation itself runs in the browser (DeepL / Google keys live in
+ * localStorage); this route only reads what is pending and stores results.
+ *
+ * GET    /api/site-translations?domain=&locales=es,fr  - Articles missing or with stale translations
+ * POST   /api/site-translations                        - Save a translation { domain, articleId, locale, translation }
+ * DELETE /api/site-translations?domain=&articleId=&locale= - Remove a translation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    deleteArticleTranslation,
+    getPendingTranslations,
+    isValidLocale,
+    saveArticleTranslation
+} from '@/lib/websiteStore';
+
+export async function GET(request: NextRequest) {
+    try {
+        const domain = request.nextUrl.searchParams.get('domain');
+        const locales = (request.nextUrl.searchParams.get('locales') || '')
+            .split(',')
+            .map(locale => locale.trim().toLowerCase())
+            .filter(Boolean);
+
+        if (!domain || locales.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Domain and locales are required' },
+                { status: 400 }
+            );
+        }
+
+        const invalid = locales.filter(locale => !isValidLocale(locale));
+        if (invalid.length > 0) {
+            return NextResponse.json(
+                { success: false, error: `Invalid locale: ${invalid.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const pending = getPendingTranslations(domain, locales);
+
+        return NextResponse.json({
+            success: true,
+            pending,
+            count: pending.length
+        });
+    } catch (error) {
+        console.error('[Site Translations] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to list pending translations' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { domain, articleId, locale, translation } = await request.json();
+
+        if (!domain || !articleId || !locale || !translation?.title || !translation?.content) {
+            return NextResponse.json(
+                { success: false, error: 'domain, articleId, locale and translated title and content are required' },
+                { status: 400 }
+            );
+        }
+
+        if (!isValidLocale(locale)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid locale: ${locale}` },
+                { status: 400 }
+            );
+        }
+
+        const article = saveArticleTranslation(domain, articleId, locale, {
+            title: translation.title,
+            description: translation.description || '',
+            content: translation.content,
+            provider: translation.provider || 'unknown',
+        });
+
+        if (!article) {
+            return NextResponse.json(
+                { success: false, error: `Article not found: ${articleId}` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            translation: article.translations?.[locale]
+        });
+    } catch (error) {
+        console.error('[Site Translations] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save translation' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const domain = request.nextUrl.searchParams.get('domain');
+        const articleId = request.nextUrl.searchParams.get('articleId');
+        const locale = request.nextUrl.searchParams.get('locale');
+
+        if (!domain || !articleId || !locale) {
+            return NextResponse.json(
+                { success: false, error: 'domain, articleId and locale are required' },
+                { status: 400 }
+            );
+        }
+
+        if (!deleteArticleTranslation(domain, articleId, locale)) {
+            return NextResponse.json(
+                { success: false, error: 'Translation not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[Site Translations] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to delete translation' },
+            { status: 500 }
+        );
+    }
+}
@@ -3,11 +3,18 @@
  * FSD: app/api/webhooks/wordpress/route.ts
  * 
  * Receives webhook events from ifrit-connector plugin.
- * Events: post.published, post.updated, post.deleted, post.status_changed
+ * Events: post.published, post.updated, post.deleted, post.status_changed,
+ * ab.events (A/B impressions/clicks/conversions, batched)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
+import { concludeExperiment, getTestSite, recordEvents } from '@/features/campaigns/lib/abTesting';
+import { findABTestForPost, saveABTest } from '@/lib/db/abTestStore';
+import { connectorTokenSecretName } from '@/lib/security/secretsClient';
+import { verifyWebhookSignature } from '@/lib/security/webhookSignature';
+
+// Events that change stored data must be signed by a known connector
+const SIGNED_EVENTS = ['ab.events'];
 
 interface WebhookPayload {
     event: string;
@@ -37,15 +44,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         const body = await request.text();
         const payload: WebhookPayload = JSON.parse(body);
 
-        // Verify signature if we have the site's token
-        // TODO: Look up site token from store and verify
-        // const expectedSignature = crypto
-        //     .createHmac('sha256', siteToken)
-        //     .update(body)
-        //     .digest('hex');
-        // if (!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))) {
-        //     return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 401 });
-        // }
+        // Verify the signature against the site's connector token (stored in
+        // the vault when the plugin is connected). Unsigned events from sites
+        // without a token are only accepted when they don't change data.
+        const siteToken = await getConnectorToken(siteUrl);
+        if (siteToken ? !verifyWebhookSignature(body, signature, siteToken) : SIGNED_EVENTS.includes(event)) {
+            console.warn(`[WP Webhook] Rejected ${event} from ${siteUrl}: invalid or unverifiable signature`);
+            return NextResponse.json(
+                { success: false, error: 'Invalid signature' },
+                { status: 401 }
+            );
+        }
 
         console.log(`[WP Webhook] Received ${event} from ${siteUrl}`);
 
@@ -63,6 +72,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
             case 'post.status_changed':
                 await handleStatusChanged(siteUrl, payload.data);
                 break;
+            case 'ab.events':
+                await handleABEvents(siteUrl, payload.data);
+                break;
             case 'test':
                 console.log(`[WP Webhook] Test event from ${payload.site.name}`);
                 break;
@@ -81,6 +93,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 }
 
+async function getConnectorToken(siteUrl: string): Promise<string | undefined> {
+    try {
+        const { getIntegrationSecret } = await import('@/lib/db/settingsDb');
+        return getIntegrationSecret(connectorTokenSecretName(siteUrl));
+    } catch (error) {
+        console.error('[WP Webhook] Failed to load connector token:', error instanceof Error ? error.message : error);
+        return undefined;
+    }
+}
+
 // ============================================================================
 // Event Handlers
 // ============================================================================
@@ -130,11 +152,45 @@ async function handleStatusChanged(
     // TODO: Handle publish→trash transitions
 }
 
+interface ABEventPayload {
+    post_id: number;
+    variant_id: string;
+    impressions?: number;
+    clicks?: number;
+    conversions?: number;
+}
+
+async function handleABEvents(siteUrl: string, data: Record<string, unknown>) {
+    const events = Array.isArray(data.events) ? data.events as ABEventPayload[] : [data as unknown as ABEventPayload];
+
+    // Group by post so each test is evaluated once per batch
+    const byPost = new Map<number, ABEventPayload[]>();
+    for (const event of events) {
+        const postId = Number(event.post_id);
+        if (!postId || !event.variant_id) continue;
+        byPost.set(postId, [...(byPost.get(postId) || []), event]);
+    }
+
+    for (const [postId, postEvents] of byPost) {
+        let test = findABTestForPost(siteUrl, postId);
+        if (!test || test.status !== 'running') continue;
+
+        for (const event of postEvents) {
+            test = recordEvents(test, event.variant_id, event);
+        }
+
+        const { test: concluded, evaluation } = await concludeExperiment(test, await getTestSite(test));
+        saveABTest(concluded);
+
+        console.log(`[WP Webhook] A/B events for post ${postId} on ${siteUrl}: ${evaluation.reason}`);
+    }
+}
+
 // GET for health check
 export async function GET(): Promise<NextResponse> {
     return NextResponse.json({
         status: 'ok',
         endpoint: 'WordPress Webhook Receiver',
-        events: ['post.published', 'post.updated', 'post.deleted', 'post.status_changed', 'test'],
+        events: ['post.published', 'post.updated', 'post.deleted', 'post.status_changed', 'ab.events', 'test'],
     });
 }
@@ -25,76 +25,42 @@ import {
     Target
 } from 'lucide-react';
 
-// Types from abTesting.ts
-interface ABVariant {
-    id: string;
-    type: 'title' | 'excerpt' | 'cta' | 'cover_image' | 'content';
-    content: string;
-    imageUrl?: string;
-    impressions: number;
-    clicks: number;
-    conversions: number;
-}
-
-interface ABTest {
-    id: string;
-    name: string;
-    postId: number;
-    siteId: string;
-    variants: ABVariant[];
-    status: 'running' | 'completed' | 'paused';
-    startedAt: number;
-    completedAt?: number;
-    winnerId?: string;
-}
-
-// Mock data for now - in production, this would come from a store
-const MOCK_TESTS: ABTest[] = [
-    {
-        id: 'ab-001',
-        name: 'Best AI Tools 2026 - Title Test',
-        postId: 123,
-        siteId: 'site-1',
-        status: 'running',
-        startedAt: Date.now() - 7 * 24 * 60 * 60 * 1000,
-        variants: [
-            { id: 'v1', type: 'title', content: '10 Best AI Tools for Developers in 2026', impressions: 1250, clicks: 187, conversions: 24 },
-            { id: 'v2', type: 'title', content: 'Top AI Tools Every Developer Needs (2026 Guide)', impressions: 1180, clicks: 201, conversions: 31 },
-        ],
-    },
-    {
-        id: 'ab-002',
-        name: 'React Tutorial - Cover Image Test',
-        postId: 456,
-        siteId: 'site-1',
-        status: 'completed',
-        startedAt: Date.now() - 14 * 24 * 60 * 60 * 1000,
-        completedAt: Date.now() - 2 * 24 * 60 * 60 * 1000,
-        winnerId: 'v2',
-        variants: [
-            { id: 'v1', type: 'cover_image', content: 'Abstract code pattern', impressions: 2400, clicks: 312, conversions: 45 },
-            { id: 'v2', type: 'cover_image', content: 'Developer at laptop', impressions: 2350, clicks: 398, conversions: 67 },
-        ],
-    },
-];
+import type { ABTest, ABVariant, ABEvaluation } from '@/features/campaigns/lib/abTesting';
 
 export function ABTestingPanel() {
     const [tests, setTests] = useState<ABTest[]>([]);
     const [loading, setLoading] = useState(true);
     const [selectedTest, setSelectedTest] = useState<string | null>(null);
+    const [evaluations, setEvaluations] = useState<Record<string, ABEvaluation>>({});
+    const [error, setError] = useState<string | null>(null);
 
     const loadTests = useCallback(async () => {
         setLoading(true);
         try {
-            // TODO: Implement actual store for A/B tests
-            // For now use mock data
-            await new Promise(r => setTimeout(r, 500));
-            setTests(MOCK_TESTS);
+            const res = await fetch('/api/ab-tests');
+            const data = await res.json();
+            if (!data.success) throw new Error(data.error);
+            setTests(data.tests);
+            setEvaluations(data.evaluations);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load A/B tests');
         } finally {
             setLoading(false);
         }
     }, []);
 
+    const updateTest = async (id: string, changes: { status?: ABTest['status']; winnerId?: string }) => {
+        const res = await fetch('/api/ab-tests', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id, ...changes }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!data.success) setError(data.error || 'Failed to update A/B test');
+        await loadTests();
+    };
+
     useEffect(() => {
         loadTests();
     }, [loadTests]);
@@ -118,7 +84,7 @@ export function ABTestingPanel() {
         }
     };
 
-    const activeTests = tests.filter(t => t.status === 'running');
+    const activeTests = tests.filter(t => t.status !== 'completed');
     const completedTests = tests.filter(t => t.status === 'completed');
 
     if (loading) {
@@ -168,6 +134,10 @@ export function ABTestingPanel() {
                 </div>
             </div>
 
+            {error && (
+                <div className="p-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+            )}
+
             {/* Active Tests */}
             {activeTests.length > 0 && (
                 <div className="space-y-3">
@@ -179,8 +149,10 @@ export function ABTestingPanel() {
                             calculateCTR={calculateCTR}
                             calculateConversionRate={calculateConversionRate}
                             getStatusColor={getStatusColor}
+                            evaluation={evaluations[test.id]}
                             isExpanded={selectedTest === test.id}
                             onToggle={() => setSelectedTest(selectedTest === test.id ? null : test.id)}
+                            onUpdate={(changes) => updateTest(test.id, changes)}
                         />
                     ))}
                 </div>
@@ -197,8 +169,10 @@ export function ABTestingPanel() {
                             calculateCTR={calculateCTR}
                             calculateConversionRate={calculateConversionRate}
                             getStatusColor={getStatusColor}
+                            evaluation={evaluations[test.id]}
                             isExpanded={selectedTest === test.id}
                             onToggle={() => setSelectedTest(selectedTest === test.id ? null : test.id)}
+                            onUpdate={(changes) => updateTest(test.id, changes)}
                         />
                     ))}
                 </div>
@@ -212,13 +186,14 @@ interface TestCardProps {
     calculateCTR: (v: ABVariant) => number;
     calculateConversionRate: (v: ABVariant) => number;
     getStatusColor: (s: string) => string;
+    evaluation?: ABEvaluation;
     isExpanded: boolean;
     onToggle: () => void;
+    onUpdate: (changes: { status?: ABTest['status']; winnerId?: string }) => void;
 }
 
-function TestCard({ test, calculateCTR, calculateConversionRate, getStatusColor, isExpanded, onToggle }: TestCardProps) {
+function TestCard({ test, calculateCTR, calculateConversionRate, getStatusColor, evaluation, isExpanded, onToggle, onUpdate }: TestCardProps) {
     const bestVariant = [...test.variants].sort((a, b) => calculateCTR(b) - calculateCTR(a))[0];
-    const isWinner = test.winnerId === bestVariant?.id;
 
     return (
         <div className="bg-white rounded-lg border border-neutral-200 overflow-hidden">
@@ -284,6 +259,11 @@ function TestCard({ test, calculateCTR, calculateConversionRate, getStatusColor,
                                             </span>
                                         )}
                                     </div>
+                                    {evaluation?.probabilities[variant.id] !== undefined && (
+                                        <span className="text-xs text-neutral-500" title="Probability to be best (Bayesian)">
+                                            {Math.round(evaluation.probabilities[variant.id] * 100)}% best
+                                        </span>
+                                    )}
                                 </div>
                                 <div className="text-sm text-neutral-700 mb-2 truncate">
                                     {variant.content}
@@ -310,13 +290,40 @@ function TestCard({ test, calculateCTR, calculateConversionRate, getStatusColor,
                         );
                     })}
 
+                    {/* Evaluation */}
+                    {evaluation && test.status !== 'completed' && (
+                        <div className="text-xs text-neutral-600">
+                            {evaluation.reason}
+                            {evaluation.requiredImpressions > 0 && ` · ~${evaluation.requiredImpressions.toLocaleString()} impressions per variant to detect a 20% lift`}
+                        </div>
+                    )}
+                    {test.applyError && (
+                        <div className="text-xs text-red-600">Winner not applied: {test.applyError}</div>
+                    )}
+
                     {/* Action Buttons */}
-                    {test.status === 'running' && (
+                    {test.status !== 'completed' && (
                         <div className="flex justify-end gap-2">
-                            <button className="px-3 py-1.5 text-xs text-neutral-600 hover:bg-neutral-200 rounded-lg flex items-center gap-1">
-                                <Pause className="w-3 h-3" /> Pause
-                            </button>
-                            <button className="px-3 py-1.5 text-xs bg-green-600 text-white hover:bg-green-700 rounded-lg flex items-center gap-1">
+                            {test.status === 'running' ? (
+                                <button
+                                    onClick={() => onUpdate({ status: 'paused' })}
+                                    className="px-3 py-1.5 text-xs text-neutral-600 hover:bg-neutral-200 rounded-lg flex items-center gap-1"
+                                >
+                                    <Pause className="w-3 h-3" /> Pause
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={() => onUpdate({ status: 'running' })}
+                                    className="px-3 py-1.5 text-xs text-neutral-600 hover:bg-neutral-200 rounded-lg flex items-center gap-1"
+                                >
+                                    <Play className="w-3 h-3" /> Resume
+                                </button>
+                            )}
+                            <button
+                                onClick={() => bestVariant && onUpdate({ winnerId: bestVariant.id })}
+                                disabled={!bestVariant}
+                                className="px-3 py-1.5 text-xs bg-green-600 text-white hover:bg-green-700 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                            >
                                 <Trophy className="w-3 h-3" /> Declare Winner
                             </button>
                         </div>
@@ -13,6 +13,9 @@ import {
     Calendar, FileText, ChevronRight, Timer
 } from 'lucide-react';
 import type { ContentFreshness } from '@/lib/seo/contentFreshnessManager';
+import { parseFreshnessContentId } from '@/features/campaigns/lib/contentRefresh';
+
+const REFRESHABLE_ACTIONS: ContentFreshness['suggestedAction'][] = ['minor_update', 'major_rewrite', 'republish'];
 
 export function FreshnessPanel() {
     const [staleContent, setStaleContent] = useState<ContentFreshness[]>([]);
@@ -25,6 +28,8 @@ export function FreshnessPanel() {
         avgScore: 0,
     });
     const [loading, setLoading] = useState(true);
+    const [refreshingId, setRefreshingId] = useState<string | null>(null);
+    const [refreshMessage, setRefreshMessage] = useState<string | null>(null);
 
     const loadFreshness = useCallback(async () => {
         setLoading(true);
@@ -51,6 +56,45 @@ export function FreshnessPanel() {
         loadFreshness();
     };
 
+    // Runs the refresh pipeline; the result lands in the editorial review queue
+    const handleRefresh = async (item: ContentFreshness) => {
+        const target = parseFreshnessContentId(item.contentId);
+        if (!target) return;
+
+        const [{ useWPSitesStore }, { useCampaignStore }, { runRefreshPipeline }] = await Promise.all([
+            import('@/features/wordpress/model/wpSiteStore'),
+            import('@/features/campaigns/model/campaignStore'),
+            import('@/features/campaigns/lib/contentRefresh'),
+        ]);
+        const site = useWPSitesStore.getState().getSite(target.siteId);
+        const campaign = useCampaignStore.getState().campaigns.find(c => c.targetSiteId === target.siteId);
+        if (!site || !campaign) {
+            setRefreshMessage('No WordPress site or campaign found for this post');
+            return;
+        }
+
+        setRefreshingId(item.contentId);
+        setRefreshMessage(null);
+        try {
+            const result = await runRefreshPipeline({
+                site,
+                postId: target.postId,
+                action: item.suggestedAction,
+                campaign,
+                topic: item.title,
+                onProgress: setRefreshMessage,
+            });
+            setRefreshMessage(
+                result.status === 'republished' ? `"${item.title}" refreshed and republished`
+                    : result.status === 'pending_review' ? `"${item.title}" refreshed - waiting for editorial review`
+                        : result.error || 'Refresh failed'
+            );
+            loadFreshness();
+        } finally {
+            setRefreshingId(null);
+        }
+    };
+
     useEffect(() => {
         loadFreshness();
     }, [loadFreshness]);
@@ -245,6 +289,9 @@ export function FreshnessPanel() {
                     <AlertTriangle className="w-4 h-4 text-red-600" />
                     Stale Content
                 </h4>
+                {refreshMessage && (
+                    <p className="text-sm text-indigo-700 bg-indigo-50 rounded-lg px-3 py-2 mb-3">{refreshMessage}</p>
+                )}
                 {staleContent.length > 0 ? (
                     <div className="space-y-2">
                         {staleContent.map((item) => (
@@ -264,6 +311,15 @@ export function FreshnessPanel() {
                                     </div>
                                 </div>
                                 {getActionBadge(item.suggestedAction)}
+                                {REFRESHABLE_ACTIONS.includes(item.suggestedAction) && parseFreshnessContentId(item.contentId) && (
+                                    <button
+                                        onClick={() => handleRefresh(item)}
+                                        disabled={refreshingId !== null}
+                                        className="text-xs px-2 py-1 text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 disabled:opacity-50"
+                                    >
+                                        {refreshingId === item.contentId ? 'Refreshing...' : 'Refresh'}
+                                    </button>
+                                )}
                                 <button
                                     onClick={() => handleMarkUpdated(item.contentId)}
                                     className="p-2 hover:bg-white rounded-lg"
@@ -68,11 +68,12 @@ export default function CloudflareManager() {
 
     // Load saved config on mount
     useEffect(() => {
-        const saved = getCloudflareConfig();
-        if (saved) {
-            setConfig(saved);
-            loadDomains(saved);
-        }
+        getCloudflareConfig().then(saved => {
+            if (saved) {
+                setConfig(saved);
+                loadDomains(saved);
+            }
+        });
     }, [loadDomains]);
 
     const handleConnect = async () => {
@@ -91,15 +92,15 @@ export default function CloudflareManager() {
         }
 
         // Save and load domains
-        saveCloudflareConfig(newConfig);
+        await saveCloudflareConfig(newConfig);
         setConfig(newConfig);
         setTokenInput('');
         await loadDomains(newConfig);
         setValidating(false);
     };
 
-    const handleDisconnect = () => {
-        clearCloudflareConfig();
+    const handleDisconnect = async () => {
+        await clearCloudflareConfig();
         setConfig(null);
         setDomains([]);
     };
@@ -0,0 +1,247 @@
+'use client';
+
+/**
+ * AI Budget Panel
+ *
+ * Daily/monthly spend limits per provider, capability or campaign.
+ * Rules and spend live server-side (/api/ai-budgets) because
+ * CapabilityExecutor enforces them in API routes.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Wallet, Plus, Trash2, RefreshCw, Save } from 'lucide-react';
+import { formatCost, PROVIDER_PRICING } from '@/lib/providerPricing';
+import {
+    DEFAULT_SOFT_LIMIT_PERCENT,
+    validateBudgetRule,
+    type BudgetRule,
+    type BudgetStatus,
+} from '@/lib/ai/budgets';
+
+const SCOPE_PLACEHOLDERS: Record<BudgetRule['scope'], string> = {
+    provider: 'gemini, perplexity, * ...',
+    capability: 'generate, research, * ...',
+    campaign: 'campaign id or *',
+};
+
+function newRule(): BudgetRule {
+    return {
+        id: `budget_${Date.now()}`,
+        scope: 'provider',
+        target: '*',
+        period: 'daily',
+        limitUsd: 1,
+        softLimitPercent: DEFAULT_SOFT_LIMIT_PERCENT,
+        action: 'refuse',
+        enabled: true,
+    };
+}
+
+export function BudgetPanel() {
+    const [rules, setRules] = useState<BudgetRule[]>([]);
+    const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+    const [monthSpend, setMonthSpend] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [dirty, setDirty] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadBudgets = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/ai-budgets');
+            const data = await res.json();
+            if (!data.success) throw new Error(data.error);
+            setRules(data.rules);
+            setStatuses(data.statuses);
+            setMonthSpend(data.monthSpendUsd);
+            setDirty(false);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load budgets');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadBudgets();
+    }, [loadBudgets]);
+
+    const updateRule = (id: string, patch: Partial<BudgetRule>) => {
+        setRules(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+        setDirty(true);
+    };
+
+    const removeRule = (id: string) => {
+        setRules(prev => prev.filter(r => r.id !== id));
+        setDirty(true);
+    };
+
+    const handleSave = async () => {
+        const errors = rules.flatMap(validateBudgetRule);
+        if (errors.length > 0) {
+            setError(errors[0]);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const res = await fetch('/api/ai-budgets', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ rules }),
+            });
+            const data = await res.json();
+            if (!data.success) throw new Error(data.error);
+            await loadBudgets();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save budgets');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const statusFor = (id: string) => statuses.find(s => s.rule.id === id);
+
+    return (
+        <div className="space-y-4">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Wallet className="w-5 h-5" />
+                    <h3 className="text-lg font-semibold">Spend Budgets</h3>
+                    <span className="text-xs text-neutral-500">This month: {formatCost(monthSpend)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={loadBudgets} className="p-2 text-gray-500 hover:bg-gray-100 rounded" title="Refresh">
+                        <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                    <button
+                        onClick={() => { setRules(prev => [...prev, newRule()]); setDirty(true); }}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-indigo-600 hover:bg-indigo-50 rounded"
+                    >
+                        <Plus className="w-4 h-4" /> Add budget
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!dirty || saving}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm bg-indigo-600 text-white rounded disabled:opacity-50"
+                    >
+                        <Save className="w-4 h-4" /> {saving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+            )}
+
+            {!loading && rules.length === 0 && (
+                <p className="text-sm text-neutral-500">
+                    No budgets configured. AI calls are not limited by spend.
+                </p>
+            )}
+
+            {/* Rules */}
+            <div className="space-y-3">
+                {rules.map(rule => {
+                    const status = statusFor(rule.id);
+                    const percent = Math.min(100, status?.percentUsed ?? 0);
+                    const barColor = status?.state === 'exceeded'
+                        ? 'bg-red-500'
+                        : status?.state === 'warning' ? 'bg-amber-500' : 'bg-green-500';
+
+                    return (
+                        <div key={rule.id} className="p-3 border border-neutral-200 rounded-lg space-y-2">
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={rule.enabled}
+                                    onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                                    title="Enabled"
+                                />
+                                <select
+                                    value={rule.period}
+                                    onChange={e => updateRule(rule.id, { period: e.target.value as BudgetRule['period'] })}
+                                    className="px-2 py-1 border border-neutral-300 rounded"
+                                >
+                                    <option value="daily">Daily</option>
+                                    <option value="monthly">Monthly</option>
+                                </select>
+                                <select
+                                    value={rule.scope}
+                                    onChange={e => updateRule(rule.id, { scope: e.target.value as BudgetRule['scope'] })}
+                                    className="px-2 py-1 border border-neutral-300 rounded"
+                                >
+                                    <option value="provider">Provider</option>
+                                    <option value="capability">Capability</option>
+                                    <option value="campaign">Campaign</option>
+                                </select>
+                                <input
+                                    value={rule.target}
+                                    onChange={e => updateRule(rule.id, { target: e.target.value })}
+                                    placeholder={SCOPE_PLACEHOLDERS[rule.scope]}
+                                    list={rule.scope === 'provider' ? 'budget-providers' : undefined}
+                                    className="w-36 px-2 py-1 border border-neutral-300 rounded"
+                                />
+                                <span className="text-neutral-500">limit $</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={rule.limitUsd}
+                                    onChange={e => updateRule(rule.id, { limitUsd: parseFloat(e.target.value) || 0 })}
+                                    className="w-20 px-2 py-1 border border-neutral-300 rounded"
+                                />
+                                <span className="text-neutral-500">warn at</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={100}
+                                    value={rule.softLimitPercent}
+                                    onChange={e => updateRule(rule.id, { softLimitPercent: parseInt(e.target.value) || 0 })}
+                                    className="w-16 px-2 py-1 border border-neutral-300 rounded"
+                                />
+                                <span className="text-neutral-500">%</span>
+                                <select
+                                    value={rule.action}
+                                    onChange={e => updateRule(rule.id, { action: e.target.value as BudgetRule['action'] })}
+                                    className="px-2 py-1 border border-neutral-300 rounded"
+                                    title="What happens when the limit is reached"
+                                >
+                                    <option value="refuse">Refuse call</option>
+                                    <option value="fallback">Use cheaper handler</option>
+                                </select>
+                                <button
+                                    onClick={() => removeRule(rule.id)}
+                                    className="ml-auto p-1 text-red-500 hover:bg-red-50 rounded"
+                                    title="Remove"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+
+                            {status && (
+                                <div>
+                                    <div className="h-2 bg-neutral-100 rounded-full overflow-hidden">
+                                        <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+                                    </div>
+                                    <div className="flex justify-between text-xs text-neutral-500 mt-1">
+                                        <span>{formatCost(status.spentUsd)} of {formatCost(rule.limitUsd)} ({Math.round(status.percentUsed)}%)</span>
+                                        <span>{formatCost(status.remainingUsd)} left</span>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <datalist id="budget-providers">
+                <option value="*" />
+                {Object.keys(PROVIDER_PRICING).map(id => <option key={id} value={id} />)}
+            </datalist>
+        </div>
+    );
+}
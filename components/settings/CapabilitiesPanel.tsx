@@ -31,6 +31,7 @@ import {
     Image,
     Brain,
     Code,
+    Binary,
     Zap,
     Check,
     AlertCircle,
@@ -71,6 +72,7 @@ const CAPABILITY_ICONS: Record<string, React.ReactNode> = {
     images: <Image className="w-4 h-4" />,
     reasoning: <Brain className="w-4 h-4" />,
     code: <Code className="w-4 h-4" />,
+    embed: <Binary className="w-4 h-4" />,
     // E-E-A-T & Quality
     'eeat-scoring': <ShieldCheck className="w-4 h-4" />,
     'fact-check': <CheckCircle className="w-4 h-4" />,
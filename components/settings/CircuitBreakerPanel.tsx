@@ -0,0 +1,157 @@
+'use client';
+
+/**
+ * Provider Health Panel
+ *
+ * Circuit breaker state per provider: handler circuits come from the server
+ * executor (/api/ai-health), key circuits from KeyManager rotation in this
+ * browser. Open circuits are skipped by routing until their cool-down ends.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Activity, RefreshCw, RotateCcw } from 'lucide-react';
+import { getCircuitBreaker, type CircuitSnapshot, type CircuitState } from '@/lib/ai/circuitBreaker';
+
+type CircuitRow = CircuitSnapshot & { origin: 'server' | 'browser' };
+
+const STATE_STYLES: Record<CircuitState, string> = {
+    closed: 'bg-green-100 text-green-700',
+    'half-open': 'bg-amber-100 text-amber-700',
+    open: 'bg-red-100 text-red-700',
+};
+
+function formatAgo(timestamp: number): string {
+    const seconds = Math.round((Date.now() - timestamp) / 1000);
+    if (seconds < 60) return `${seconds}s ago`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)}m ago`;
+    return `${Math.round(seconds / 3600)}h ago`;
+}
+
+export function CircuitBreakerPanel() {
+    const [circuits, setCircuits] = useState<CircuitRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadCircuits = useCallback(async () => {
+        setLoading(true);
+        const local: CircuitRow[] = getCircuitBreaker().list().map(c => ({ ...c, origin: 'browser' }));
+        try {
+            const res = await fetch('/api/ai-health');
+            const data = await res.json();
+            if (!data.success) throw new Error(data.error);
+            const server: CircuitRow[] = (data.circuits as CircuitSnapshot[]).map(c => ({ ...c, origin: 'server' }));
+            setCircuits([...server, ...local]);
+            setError(null);
+        } catch (err) {
+            setCircuits(local);
+            setError(err instanceof Error ? err.message : 'Failed to load provider health');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadCircuits();
+    }, [loadCircuits]);
+
+    const handleReset = async (circuit?: CircuitRow) => {
+        if (!circuit || circuit.origin === 'browser') {
+            getCircuitBreaker().reset(circuit?.id);
+        }
+        if (!circuit || circuit.origin === 'server') {
+            const query = circuit ? `?id=${encodeURIComponent(circuit.id)}` : '';
+            await fetch(`/api/ai-health${query}`, { method: 'DELETE' }).catch(() => undefined);
+        }
+        await loadCircuits();
+    };
+
+    const byProvider = circuits.reduce<Record<string, CircuitRow[]>>((groups, circuit) => {
+        const provider = circuit.provider || 'other';
+        (groups[provider] ||= []).push(circuit);
+        return groups;
+    }, {});
+
+    return (
+        <div className="space-y-4">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Activity className="w-5 h-5" />
+                    <h3 className="text-lg font-semibold">Provider Health</h3>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={loadCircuits} className="p-2 text-gray-500 hover:bg-gray-100 rounded" title="Refresh">
+                        <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                    <button
+                        onClick={() => handleReset()}
+                        disabled={circuits.length === 0}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-50"
+                    >
+                        <RotateCcw className="w-4 h-4" /> Reset all
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+            )}
+
+            {!loading && circuits.length === 0 && (
+                <p className="text-sm text-neutral-500">
+                    No calls recorded yet. Circuits appear once providers have been used.
+                </p>
+            )}
+
+            {/* Circuits per provider */}
+            <div className="space-y-3">
+                {Object.entries(byProvider).map(([provider, rows]) => (
+                    <div key={provider} className="border border-neutral-200 rounded-lg overflow-hidden">
+                        <div className="px-3 py-2 bg-neutral-50 border-b border-neutral-200 text-sm font-medium capitalize">
+                            {provider}
+                        </div>
+                        <div className="divide-y divide-neutral-100">
+                            {rows.map(circuit => (
+                                <div key={`${circuit.origin}:${circuit.id}`} className="p-3 space-y-1">
+                                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATE_STYLES[circuit.state]}`}>
+                                            {circuit.state}
+                                        </span>
+                                        <span className="font-medium">{circuit.label || circuit.id}</span>
+                                        <span className="text-xs text-neutral-400">{circuit.id.startsWith('key:') ? 'API key' : 'handler'}</span>
+                                        <span className="text-xs text-neutral-500">
+                                            {circuit.calls} calls · {Math.round(circuit.errorRate * 100)}% errors · {(circuit.avgLatencyMs / 1000).toFixed(1)}s avg
+                                        </span>
+                                        {circuit.retryAt && (
+                                            <span className="text-xs text-red-600">
+                                                retry {circuit.retryAt > Date.now() ? `in ${Math.ceil((circuit.retryAt - Date.now()) / 1000)}s` : 'now'}
+                                            </span>
+                                        )}
+                                        {circuit.state !== 'closed' && (
+                                            <button
+                                                onClick={() => handleReset(circuit)}
+                                                className="ml-auto p-1 text-neutral-500 hover:bg-neutral-100 rounded"
+                                                title="Close circuit"
+                                            >
+                                                <RotateCcw className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                    {circuit.recentFailures.length > 0 && (
+                                        <ul className="text-xs text-neutral-500 space-y-0.5">
+                                            {circuit.recentFailures.map((failure, i) => (
+                                                <li key={i} className="truncate">
+                                                    <span className="text-neutral-400">{formatAgo(failure.timestamp)}</span> {failure.error}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
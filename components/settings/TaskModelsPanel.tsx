@@ -9,7 +9,8 @@ import {
     getTaskModelConfig,
     setTaskModel,
     clearTaskModel,
-    getAllTaskTypes
+    getAllTaskTypes,
+    isCostFreeAssignment
 } from '@/lib/ai/taskModels';
 import { ProviderId } from '@/lib/ai/providers/base';
 
@@ -55,7 +56,8 @@ export function TaskModelsPanel({ availableModels, selectedModels }: TaskModelsP
             deepseek: '#00d4aa',
             openrouter: '#ff6b35',
             vercel: '#000000',
-            perplexity: '#20b2aa'
+            perplexity: '#20b2aa',
+            local: '#6b7280'
         };
         return colors[providerId] || '#666666';
     };
@@ -103,6 +105,7 @@ export function TaskModelsPanel({ availableModels, selectedModels }: TaskModelsP
                                                 style={{ backgroundColor: getProviderColor(assignment.providerId) }}
                                             >
                                                 {assignment.providerId}/{assignment.modelId.split('/').pop()}
+                                                {isCostFreeAssignment(assignment) && ' · free'}
                                             </span>
                                         ) : (
                                             <span className="px-2 py-1 text-xs bg-gray-100 text-gray-500 rounded-full">
@@ -45,7 +45,10 @@ const FEATURE_CATEGORIES = {
             { name: 'Lead Magnet', description: 'Downloadable content gated by email' },
             { name: 'Analytics Integration', description: 'Umami, Google Analytics 4 support' },
             { name: 'SEO Meta Tags', description: 'Open Graph, Twitter Cards, canonical URLs' },
-            { name: 'XML Sitemap', description: 'Auto-generated sitemap for search engines' },
+            { name: 'XML Sitemap', description: 'Built from content with images, split into an index for large sites' },
+            { name: 'News Sitemap', description: 'Google News sitemap for posts from the last two days' },
+            { name: 'RSS & Atom Feeds', description: 'Latest articles for feed readers and syndication' },
+            { name: 'Multilingual Routing', description: 'Per-locale pages and sitemaps with hreflang alternates, RTL for Arabic' },
             { name: 'robots.txt', description: 'Crawler directives configuration' },
             { name: 'Breadcrumbs', description: 'Navigation with structured data' },
             { name: 'Search', description: 'Built-in site search functionality' }
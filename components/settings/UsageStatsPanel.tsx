@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { BarChart3, RefreshCw, Download, Trash2 } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { BarChart3, RefreshCw, Download, Trash2, Database } from 'lucide-react';
 import {
     getAllStats,
     getTotalStats,
@@ -9,6 +9,7 @@ import {
     exportUsageData,
     ProviderStats
 } from '@/lib/ai/usageStats';
+import type { CacheStats } from '@/lib/ai/cache/responseCache';
 
 /**
  * Usage Statistics Panel
@@ -18,19 +19,32 @@ export function UsageStatsPanel() {
     const [stats, setStats] = useState<ProviderStats[]>([]);
     const [total, setTotal] = useState({ totalRequests: 0, totalTokens: 0, totalCostUsd: 0, successRate: 100 });
     const [loading, setLoading] = useState(true);
+    const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
 
-    const loadStats = () => {
+    const loadCacheStats = useCallback(async (method: 'GET' | 'DELETE' = 'GET') => {
+        try {
+            const res = await fetch('/api/ai-cache', { method });
+            const data = await res.json();
+            setCacheStats(data.success ? data.stats : null);
+        } catch {
+            setCacheStats(null);
+        }
+    }, []);
+
+    const loadStats = useCallback(async () => {
         setLoading(true);
-        const allStats = getAllStats();
-        const totalStats = getTotalStats();
-        setStats(allStats.filter(s => s.totalRequests > 0));
-        setTotal(totalStats);
-        setLoading(false);
-    };
+        try {
+            setStats(getAllStats().filter(s => s.totalRequests > 0));
+            setTotal(getTotalStats());
+            await loadCacheStats();
+        } finally {
+            setLoading(false);
+        }
+    }, [loadCacheStats]);
 
     useEffect(() => {
         loadStats();
-    }, []);
+    }, [loadStats]);
 
     const handleExport = () => {
         const data = exportUsageData();
@@ -50,6 +64,12 @@ export function UsageStatsPanel() {
         }
     };
 
+    const handleClearCache = () => {
+        if (confirm('Clear all cached AI responses?')) {
+            loadCacheStats('DELETE');
+        }
+    };
+
     const formatTokens = (tokens: number): string => {
         if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
         if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
@@ -62,7 +82,8 @@ export function UsageStatsPanel() {
             deepseek: '#00d4aa',
             openrouter: '#ff6b35',
             vercel: '#000000',
-            perplexity: '#20b2aa'
+            perplexity: '#20b2aa',
+            local: '#6b7280'
         };
         return colors[providerId] || '#666666';
     };
@@ -157,6 +178,52 @@ export function UsageStatsPanel() {
                     No usage data yet. Stats will appear after you generate content.
                 </div>
             )}
+
+            {/* Response Cache */}
+            {cacheStats && (
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-medium text-gray-600 flex items-center gap-1.5">
+                            <Database className="w-4 h-4" />
+                            Response Cache <span className="text-xs text-gray-400">({cacheStats.backend})</span>
+                        </h4>
+                        <button
+                            onClick={handleClearCache}
+                            className="p-1 text-red-500 hover:bg-red-50 rounded"
+                            title="Clear cache"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="font-semibold">{cacheStats.hitRate}%</div>
+                            <div className="text-xs text-gray-500">Hit rate</div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="font-semibold">{cacheStats.hits} / {cacheStats.misses}</div>
+                            <div className="text-xs text-gray-500">Hits / misses</div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="font-semibold">{cacheStats.size} / {cacheStats.maxSize}</div>
+                            <div className="text-xs text-gray-500">Entries</div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="font-semibold">{(cacheStats.bytes / 1024 / 1024).toFixed(1)} MB</div>
+                            <div className="text-xs text-gray-500">{cacheStats.evictions} evicted</div>
+                        </div>
+                    </div>
+                    {Object.keys(cacheStats.byCapability).length > 0 && (
+                        <div className="flex flex-wrap gap-2 text-xs text-gray-500">
+                            {Object.entries(cacheStats.byCapability).map(([capability, c]) => (
+                                <span key={capability} className="px-2 py-0.5 bg-gray-100 rounded">
+                                    {capability}: {c.hits} hit / {c.misses} miss
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
@@ -3,6 +3,8 @@ export { default as SettingsView } from './SettingsView';
 export { AIKeyManager } from './AIKeyManager';
 export { AIUsagePanel } from './AIUsagePanel';
 export { UsageStatsPanel } from './UsageStatsPanel';
+export { BudgetPanel } from './BudgetPanel';
+export { CircuitBreakerPanel } from './CircuitBreakerPanel';
 
 // Section components (new 6-tab structure)
 export { AIProvidersSection } from './sections/AIProvidersSection';
@@ -15,7 +15,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import {
     Key, Eye, EyeOff, Plus, Trash2, Check, AlertCircle,
-    Zap, Brain, Code, Sparkles, Globe, BarChart3
+    Zap, Brain, Code, Sparkles, Globe, BarChart3, Server
 } from 'lucide-react';
 import {
     useSettingsStore,
@@ -25,6 +25,8 @@ import {
 } from '@/stores/settingsStore';
 import { AIUsagePanel } from '../AIUsagePanel';
 import { UsageStatsPanel } from '../UsageStatsPanel';
+import { BudgetPanel } from '../BudgetPanel';
+import { CircuitBreakerPanel } from '../CircuitBreakerPanel';
 
 type AISubsection = 'providers' | 'usage';
 
@@ -38,6 +40,7 @@ const ProviderIcons: Record<ProviderId, React.ReactNode> = {
     openrouter: <Globe className="w-5 h-5 text-green-500" />,
     vercel: <Zap className="w-5 h-5 text-black" />,
     perplexity: <Code className="w-5 h-5 text-orange-500" />,
+    local: <Server className="w-5 h-5 text-neutral-600" />,
 };
 
 // ============================================================================
@@ -259,7 +262,9 @@ function ProviderCard({ providerId }: ProviderCardProps) {
             {/* Keys */}
             <div className="space-y-2 mb-4">
                 <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium text-neutral-600">API Keys</span>
+                    <span className="text-sm font-medium text-neutral-600">
+                        {providerId === 'local' ? 'Endpoints' : 'API Keys'}
+                    </span>
                     {!hasValidKeys && keys.length === 0 && (
                         <span className="flex items-center gap-1 text-xs text-amber-600">
                             <AlertCircle className="w-3 h-3" />
@@ -281,7 +286,7 @@ function ProviderCard({ providerId }: ProviderCardProps) {
                 {showAdd ? (
                     <div className="flex gap-2">
                         <input
-                            type="password"
+                            type={providerId === 'local' ? 'text' : 'password'}
                             value={newKey}
                             onChange={(e) => setNewKey(e.target.value)}
                             onKeyDown={(e) => e.key === 'Enter' && handleAddKey()}
@@ -459,6 +464,12 @@ export function AIProvidersSection({ onNavigateToCapabilities }: AIProvidersSect
                         Track AI usage, token consumption, and estimated costs across all providers.
                     </p>
                     <AIUsagePanel />
+                    <div className="border-t border-neutral-200 pt-6">
+                        <BudgetPanel />
+                    </div>
+                    <div className="border-t border-neutral-200 pt-6">
+                        <CircuitBreakerPanel />
+                    </div>
                     <div className="border-t border-neutral-200 pt-6">
                         <UsageStatsPanel />
                     </div>
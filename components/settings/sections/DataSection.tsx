@@ -19,11 +19,13 @@ const subsections: { id: DataSubsection; label: string; icon: React.ReactNode }[
 export function DataSection() {
     const [activeSubsection, setActiveSubsection] = useState<DataSubsection>('backup');
 
-    const handleExportSettings = () => {
+    const handleExportSettings = async () => {
         try {
-            downloadSettingsBackup();
+            await downloadSettingsBackup();
         } catch (error) {
-            alert('No settings to export. Please configure some API keys first.');
+            alert(error instanceof Error && error.message !== 'No settings to export'
+                ? `Export failed: ${error.message}`
+                : 'No settings to export. Please configure some API keys first.');
         }
     };
 
@@ -4,7 +4,8 @@
  * DNS Configuration Panel
  * 
  * Component for configuring DNS records for a domain.
- * Supports Namecheap with extensible provider architecture.
+ * Works with every provider in lib/dns/dnsProviders; records are applied
+ * server-side through /api/dns.
  */
 
 import { useState, useEffect } from 'react';
@@ -19,12 +20,17 @@ import {
 } from 'lucide-react';
 import {
     DNS_PROVIDERS,
+    applyDomainRecords,
+    getConfiguredDNSProvider,
     getDNSCredentials,
+    lookupDomainZone,
     saveDNSCredentials,
     VERCEL_DNS_RECORDS,
+    type DNSCredentialField,
     type DNSProvider,
     type DNSProviderCredentials
 } from '@/lib/dns/dnsProviders';
+import type { ApplyRecordsResult } from '@/lib/dns/records';
 
 interface DNSConfigPanelProps {
     domain: string;
@@ -32,40 +38,36 @@ interface DNSConfigPanelProps {
     compact?: boolean;
 }
 
-interface NamecheapDomain {
-    name: string;
-    expires: string;
-    isExpired: boolean;
-}
-
 type ConfigStep = 'select-provider' | 'configure-credentials' | 'select-domain' | 'configure-dns' | 'done';
 
 export default function DNSConfigPanel({ domain, onConfigured, compact = false }: DNSConfigPanelProps) {
     const [step, setStep] = useState<ConfigStep>('select-provider');
     const [selectedProvider, setSelectedProvider] = useState<DNSProvider | null>(null);
     const [credentials, setCredentials] = useState<DNSProviderCredentials | null>(null);
-    const [domains, setDomains] = useState<NamecheapDomain[]>([]);
+    const [zoneFound, setZoneFound] = useState<boolean | null>(null);
+    const [applied, setApplied] = useState<ApplyRecordsResult | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState(false);
 
-    // Namecheap credentials form
-    const [ncApiUser, setNcApiUser] = useState('');
-    const [ncApiKey, setNcApiKey] = useState('');
-    const [ncUsername, setNcUsername] = useState('');
-    const [ncClientIp, setNcClientIp] = useState('');
+    // Credentials form
+    const [values, setValues] = useState<Partial<Record<DNSCredentialField, string>>>({});
+    const setValue = (field: DNSCredentialField, value: string) => setValues(prev => ({ ...prev, [field]: value }));
+    const providerInfo = DNS_PROVIDERS.find(p => p.id === selectedProvider);
 
-    // Load saved credentials on mount
+    // Load the first configured provider on mount
     useEffect(() => {
-        const saved = getDNSCredentials('namecheap');
-        if (saved) {
-            setNcApiUser(saved.namecheapApiUser || '');
-            setNcApiKey(saved.namecheapApiKey || '');
-            setNcUsername(saved.namecheapUsername || '');
-            setNcClientIp(saved.namecheapClientIp || '');
-            setSelectedProvider('namecheap');
-            setCredentials(saved);
-        }
+        getConfiguredDNSProvider()
+            .then(provider => provider ? getDNSCredentials(provider) : null)
+            .then(saved => {
+                if (saved) {
+                    const { provider, ...fields } = saved;
+                    setValues(fields);
+                    setSelectedProvider(provider);
+                    setCredentials(saved);
+                }
+            })
+            .catch(err => console.error('Failed to load DNS credentials:', err));
     }, []);
 
     // Get public IP for Namecheap
@@ -73,16 +75,20 @@ export default function DNSConfigPanel({ domain, onConfigured, compact = false }
         try {
             const res = await fetch('https://api.ipify.org?format=json');
             const data = await res.json();
-            setNcClientIp(data.ip);
+            setValue('namecheapClientIp', data.ip);
         } catch {
             // Fallback - user needs to enter manually
         }
     };
 
-    // Test connection and fetch domains
+    // Test connection by looking up the domain's zone
     const testConnection = async () => {
-        if (!ncApiUser || !ncApiKey) {
-            setError('API User and API Key are required');
+        if (!selectedProvider || !providerInfo) return;
+
+        const missing = providerInfo.requiredFields.filter(field => !values[field]);
+        if (missing.length > 0) {
+            const labels = providerInfo.fields.filter(f => missing.includes(f.key)).map(f => f.label);
+            setError(`${labels.join(' and ')} required`);
             return;
         }
 
@@ -90,38 +96,18 @@ export default function DNSConfigPanel({ domain, onConfigured, compact = false }
         setError(null);
 
         try {
-            const creds: DNSProviderCredentials = {
-                provider: 'namecheap',
-                namecheapApiUser: ncApiUser,
-                namecheapApiKey: ncApiKey,
-                namecheapUsername: ncUsername || ncApiUser,
-                namecheapClientIp: ncClientIp,
-            };
-
-            const res = await fetch('/api/namecheap', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    apiUser: creds.namecheapApiUser,
-                    apiKey: creds.namecheapApiKey,
-                    username: creds.namecheapUsername,
-                    clientIp: creds.namecheapClientIp,
-                    command: 'getDomains',
-                }),
-            });
-
-            const data = await res.json();
-
-            if (data.success) {
-                setDomains(data.domains || []);
-                setCredentials(creds);
-                saveDNSCredentials(creds);
-                setStep('configure-dns');
-            } else {
-                setError(data.error || 'Failed to connect');
+            const creds: DNSProviderCredentials = { ...values, provider: selectedProvider };
+            if (selectedProvider === 'namecheap') {
+                creds.namecheapUsername = creds.namecheapUsername || creds.namecheapApiUser;
             }
+
+            const zone = await lookupDomainZone(selectedProvider, domain, creds);
+            setZoneFound(zone !== null);
+            setCredentials(creds);
+            await saveDNSCredentials(creds);
+            setStep('configure-dns');
         } catch (err) {
-            setError('Connection failed');
+            setError(err instanceof Error ? err.message : 'Connection failed');
         } finally {
             setLoading(false);
         }
@@ -138,38 +124,17 @@ export default function DNSConfigPanel({ domain, onConfigured, compact = false }
         setError(null);
 
         try {
-            const res = await fetch('/api/namecheap', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    apiUser: credentials.namecheapApiUser,
-                    apiKey: credentials.namecheapApiKey,
-                    username: credentials.namecheapUsername,
-                    clientIp: credentials.namecheapClientIp,
-                    command: 'setDNS',
-                    domain,
-                }),
-            });
-
-            const data = await res.json();
-
-            if (data.success) {
-                setSuccess(true);
-                setStep('done');
-                onConfigured?.();
-            } else {
-                setError(data.error || 'DNS configuration failed');
-            }
+            setApplied(await applyDomainRecords(credentials.provider, domain, VERCEL_DNS_RECORDS));
+            setSuccess(true);
+            setStep('done');
+            onConfigured?.();
         } catch (err) {
-            setError('Failed to configure DNS');
+            setError(err instanceof Error ? err.message : 'Failed to configure DNS');
         } finally {
             setLoading(false);
         }
     };
 
-    // Check if domain is in the list
-    const domainInAccount = domains.some(d => d.name.toLowerCase() === domain.toLowerCase());
-
     // Compact view for inline use
     if (compact) {
         return (
@@ -242,6 +207,11 @@ export default function DNSConfigPanel({ domain, onConfigured, compact = false }
                                     <span className="text-neutral-400">{record.value}</span>
                                 </div>
                             ))}
+                            {applied && (
+                                <p className="text-xs text-neutral-500 mt-2">
+                                    {applied.created.length} created, {applied.updated.length} updated, {applied.unchanged.length} already correct
+                                </p>
+                            )}
                         </div>
                     </div>
                 )}
@@ -285,13 +255,13 @@ export default function DNSConfigPanel({ domain, onConfigured, compact = false }
                     </div>
                 )}
 
-                {/* Namecheap Credentials */}
-                {step === 'configure-credentials' && selectedProvider === 'namecheap' && (
+                {/* Provider Credentials */}
+                {step === 'configure-credentials' && providerInfo && (
                     <div className="space-y-4">
                         <div className="flex items-center justify-between">
-                            <h4 className="font-semibold">Connect Namecheap</h4>
+                            <h4 className="font-semibold">Connect {providerInfo.name}</h4>
                             <a
-                                href="https://ap.www.namecheap.com/settings/tools/apiaccess/"
+                                href={providerInfo.setupUrl}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-sm text-indigo-600 hover:underline flex items-center gap-1"
@@ -301,68 +271,38 @@ export default function DNSConfigPanel({ domain, onConfigured, compact = false }
                         </div>
 
                         <div className="grid grid-cols-2 gap-4">
-                            <div>
-                                <label className="block text-sm font-medium text-neutral-700 mb-1">
-                                    API User *
-                                </label>
-                                <input
-                                    type="text"
-                                    value={ncApiUser}
-                                    onChange={e => setNcApiUser(e.target.value)}
-                                    placeholder="Your Namecheap username"
-                                    className="w-full px-3 py-2 border border-neutral-300 rounded-lg"
-                                />
-                            </div>
-                            <div>
-                                <label className="block text-sm font-medium text-neutral-700 mb-1">
-                                    API Key *
-                                </label>
-                                <input
-                                    type="password"
-                                    value={ncApiKey}
-                                    onChange={e => setNcApiKey(e.target.value)}
-                                    placeholder="Your API key"
-                                    className="w-full px-3 py-2 border border-neutral-300 rounded-lg"
-                                />
-                            </div>
-                            <div>
-                                <label className="block text-sm font-medium text-neutral-700 mb-1">
-                                    Username (optional)
-                                </label>
-                                <input
-                                    type="text"
-                                    value={ncUsername}
-                                    onChange={e => setNcUsername(e.target.value)}
-                                    placeholder="Same as API User if blank"
-                                    className="w-full px-3 py-2 border border-neutral-300 rounded-lg"
-                                />
-                            </div>
-                            <div>
-                                <label className="block text-sm font-medium text-neutral-700 mb-1">
-                                    Client IP *
-                                </label>
-                                <div className="flex gap-2">
-                                    <input
-                                        type="text"
-                                        value={ncClientIp}
-                                        onChange={e => setNcClientIp(e.target.value)}
-                                        placeholder="Your whitelisted IP"
-                                        className="flex-1 px-3 py-2 border border-neutral-300 rounded-lg"
-                                    />
-                                    <button
-                                        onClick={fetchPublicIP}
-                                        className="px-3 py-2 border border-neutral-300 rounded-lg hover:bg-neutral-50"
-                                        title="Detect my IP"
-                                    >
-                                        <RefreshCw className="w-4 h-4" />
-                                    </button>
+                            {providerInfo.fields.map(field => (
+                                <div key={field.key}>
+                                    <label className="block text-sm font-medium text-neutral-700 mb-1">
+                                        {field.label}{providerInfo.requiredFields.includes(field.key) ? ' *' : ''}
+                                    </label>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type={field.secret ? 'password' : 'text'}
+                                            value={values[field.key] || ''}
+                                            onChange={e => setValue(field.key, e.target.value)}
+                                            placeholder={field.placeholder}
+                                            className="flex-1 min-w-0 px-3 py-2 border border-neutral-300 rounded-lg"
+                                        />
+                                        {field.key === 'namecheapClientIp' && (
+                                            <button
+                                                onClick={fetchPublicIP}
+                                                className="px-3 py-2 border border-neutral-300 rounded-lg hover:bg-neutral-50"
+                                                title="Detect my IP"
+                                            >
+                                                <RefreshCw className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
                                 </div>
-                            </div>
+                            ))}
                         </div>
 
-                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
-                            <strong>Note:</strong> Your IP must be whitelisted in Namecheap API settings
-                        </div>
+                        {selectedProvider === 'namecheap' && (
+                            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                                <strong>Note:</strong> Your IP must be whitelisted in Namecheap API settings
+                            </div>
+                        )}
 
                         <div className="flex justify-between">
                             <button
@@ -373,7 +313,7 @@ export default function DNSConfigPanel({ domain, onConfigured, compact = false }
                             </button>
                             <button
                                 onClick={testConnection}
-                                disabled={loading || !ncApiUser || !ncApiKey || !ncClientIp}
+                                disabled={loading || providerInfo.requiredFields.some(field => !values[field])}
                                 className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50"
                             >
                                 {loading ? (
@@ -395,14 +335,14 @@ export default function DNSConfigPanel({ domain, onConfigured, compact = false }
                         <h4 className="font-semibold">Configure DNS for {domain}</h4>
 
                         {/* Domain status */}
-                        <div className={`p-4 rounded-lg border ${domainInAccount
+                        <div className={`p-4 rounded-lg border ${zoneFound
                                 ? 'bg-green-50 border-green-200'
                                 : 'bg-amber-50 border-amber-200'
                             }`}>
-                            {domainInAccount ? (
+                            {zoneFound ? (
                                 <div className="flex items-center gap-2 text-green-700">
                                     <CheckCircle className="w-5 h-5" />
-                                    <span><strong>{domain}</strong> found in your Namecheap account</span>
+                                    <span><strong>{domain}</strong> found in your {providerInfo?.name} account</span>
                                 </div>
                             ) : (
                                 <div className="text-amber-700">
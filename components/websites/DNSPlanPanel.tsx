@@ -0,0 +1,260 @@
+'use client';
+
+/**
+ * DNS Plan Panel
+ *
+ * Desired-state DNS for a domain: build the plan from the hosting target and
+ * email setup, review the diff against the live zone, apply it after
+ * confirmation, and see the result of the scheduled drift check.
+ */
+
+import { useState, useEffect } from 'react';
+import {
+    Loader2,
+    CheckCircle,
+    AlertTriangle,
+    ClipboardList,
+    RefreshCw,
+    Play
+} from 'lucide-react';
+import { getConfiguredDNSProvider } from '@/lib/dns/dnsProviders';
+import { getEmailConfig } from '@/lib/domains/emailDeliverability';
+import type { DnsDiff, DnsPlan, HostingTarget } from '@/lib/dns/dnsPlan';
+import {
+    applyDomainPlan,
+    diffDomainPlan,
+    fetchDnsPlan,
+    reportDrift,
+    saveDomainPlan
+} from '@/lib/dns/dnsPlanClient';
+
+interface DNSPlanPanelProps {
+    domain: string;
+    siteId?: string;
+}
+
+type HostingType = HostingTarget['type'];
+
+function formatRecord(record: { type: string; host: string; value: string; priority?: number }): string {
+    return `${record.type} ${record.host}${record.type === 'MX' ? ` ${record.priority ?? 10}` : ''} → ${record.value}`;
+}
+
+export default function DNSPlanPanel({ domain, siteId }: DNSPlanPanelProps) {
+    const [plan, setPlan] = useState<DnsPlan | null>(null);
+    const [diff, setDiff] = useState<DnsDiff | null>(null);
+    const [hostingType, setHostingType] = useState<HostingType>('vercel');
+    const [hostingerIp, setHostingerIp] = useState('');
+    const [loading, setLoading] = useState<'plan' | 'diff' | 'apply' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchDnsPlan(domain)
+            .then(saved => {
+                if (!saved) return;
+                setPlan(saved);
+                setHostingType(saved.hosting.type);
+                if (saved.hosting.type === 'hostinger') setHostingerIp(saved.hosting.ip);
+                reportDrift(saved);
+            })
+            .catch(err => console.error('Failed to load DNS plan:', err));
+    }, [domain]);
+
+    const run = async (action: 'plan' | 'diff' | 'apply', fn: () => Promise<void>) => {
+        setLoading(action);
+        setError(null);
+        setNotice(null);
+        try {
+            await fn();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'DNS plan request failed');
+        } finally {
+            setLoading(null);
+        }
+    };
+
+    // Build the plan from the hosting target and saved email setup
+    const buildPlan = () => run('plan', async () => {
+        const provider = plan?.provider || await getConfiguredDNSProvider();
+        if (!provider) {
+            throw new Error('Connect a DNS provider first');
+        }
+        const hosting: HostingTarget = hostingType === 'hostinger'
+            ? { type: 'hostinger', ip: hostingerIp.trim() }
+            : { type: hostingType };
+
+        setPlan(await saveDomainPlan({
+            domain,
+            siteId,
+            provider,
+            hosting,
+            email: getEmailConfig(domain),
+        }));
+        setDiff(null);
+    });
+
+    const checkLive = () => run('diff', async () => {
+        const result = await diffDomainPlan(domain);
+        setPlan(result.plan);
+        setDiff(result.diff);
+    });
+
+    const applyPlan = () => run('apply', async () => {
+        if (!diff) return;
+        const summary = [
+            diff.adds.length && `create ${diff.adds.length}`,
+            diff.changes.length && `update ${diff.changes.length}`,
+            diff.deletes.length && `delete ${diff.deletes.length}`,
+        ].filter(Boolean).join(', ');
+        if (!window.confirm(`Apply the DNS plan for ${domain}? This will ${summary} record(s) at ${plan?.provider}.`)) {
+            return;
+        }
+
+        try {
+            const result = await applyDomainPlan(domain, diff);
+            setPlan(result.plan);
+            setDiff(result.diff);
+            setNotice(`${result.created} created, ${result.updated} updated, ${result.deleted} deleted`);
+        } catch (err) {
+            // Live DNS changed since the diff was shown: refresh it for review
+            setDiff(null);
+            throw err;
+        }
+    });
+
+    const lastCheck = plan?.lastCheck;
+
+    return (
+        <div className="bg-white rounded-xl border border-neutral-200 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <ClipboardList className="w-5 h-5 text-indigo-600" />
+                    <span className="font-medium">DNS Plan</span>
+                </div>
+                {lastCheck && (
+                    lastCheck.inSync ? (
+                        <span className="flex items-center gap-1 text-green-600 text-sm">
+                            <CheckCircle className="w-4 h-4" />
+                            In sync
+                        </span>
+                    ) : (
+                        <span className="flex items-center gap-1 text-amber-600 text-sm" title={lastCheck.summary}>
+                            <AlertTriangle className="w-4 h-4" />
+                            {lastCheck.error ? 'Check failed' : 'Drift detected'}
+                        </span>
+                    )
+                )}
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    {error}
+                </div>
+            )}
+            {notice && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+                    {notice}
+                </div>
+            )}
+
+            {/* Hosting target */}
+            <div className="flex flex-wrap items-end gap-3">
+                <div>
+                    <label className="block text-sm font-medium text-neutral-700 mb-1">Hosting</label>
+                    <select
+                        value={hostingType}
+                        onChange={e => setHostingType(e.target.value as HostingType)}
+                        className="px-3 py-2 border border-neutral-300 rounded-lg"
+                    >
+                        <option value="vercel">Vercel</option>
+                        <option value="hostinger">Hostinger</option>
+                        <option value="none">None (email only)</option>
+                    </select>
+                </div>
+                {hostingType === 'hostinger' && (
+                    <div>
+                        <label className="block text-sm font-medium text-neutral-700 mb-1">Server IP</label>
+                        <input
+                            type="text"
+                            value={hostingerIp}
+                            onChange={e => setHostingerIp(e.target.value)}
+                            placeholder="203.0.113.10"
+                            className="px-3 py-2 border border-neutral-300 rounded-lg"
+                        />
+                    </div>
+                )}
+                <button
+                    onClick={buildPlan}
+                    disabled={loading !== null}
+                    className="flex items-center gap-2 px-4 py-2 border border-neutral-300 rounded-lg text-sm hover:bg-neutral-50 disabled:opacity-50"
+                >
+                    {loading === 'plan' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                    {plan ? 'Rebuild Plan' : 'Create Plan'}
+                </button>
+            </div>
+
+            {plan && (
+                <>
+                    <div className="bg-neutral-50 rounded-lg p-4">
+                        <h5 className="font-medium text-sm mb-2">
+                            Planned records at {plan.provider} ({plan.records.length})
+                        </h5>
+                        {plan.records.map((record, i) => (
+                            <div key={i} className="text-sm text-neutral-600 flex justify-between gap-4">
+                                <span className="truncate">{formatRecord(record)}</span>
+                                <span className="text-neutral-400 shrink-0">{record.purpose || record.source}</span>
+                            </div>
+                        ))}
+                        {lastCheck && (
+                            <p className="text-xs text-neutral-500 mt-2">
+                                Last checked {new Date(lastCheck.checkedAt).toLocaleString()}: {lastCheck.summary}
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button
+                            onClick={checkLive}
+                            disabled={loading !== null}
+                            className="flex items-center gap-2 px-4 py-2 border border-neutral-300 rounded-lg text-sm hover:bg-neutral-50 disabled:opacity-50"
+                        >
+                            {loading === 'diff' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                            Compare with Live DNS
+                        </button>
+                        {diff && !diff.inSync && (
+                            <button
+                                onClick={applyPlan}
+                                disabled={loading !== null}
+                                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                {loading === 'apply' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                                Apply Plan
+                            </button>
+                        )}
+                    </div>
+
+                    {diff && (
+                        diff.inSync ? (
+                            <p className="text-sm text-green-700">Live DNS matches the plan.</p>
+                        ) : (
+                            <div className="space-y-1 text-sm font-mono">
+                                {diff.adds.map((record, i) => (
+                                    <div key={`add-${i}`} className="text-green-700">+ {formatRecord(record)}</div>
+                                ))}
+                                {diff.changes.map((change, i) => (
+                                    <div key={`change-${i}`} className="text-amber-700">
+                                        ~ {formatRecord(change.from)} ⇒ {change.to.value}
+                                    </div>
+                                ))}
+                                {diff.deletes.map((record, i) => (
+                                    <div key={`delete-${i}`} className="text-red-700">- {formatRecord(record)}</div>
+                                ))}
+                            </div>
+                        )
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -7,7 +7,7 @@
  * Generates SPF, DKIM, DMARC records for various providers.
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
     Mail,
     Shield,
@@ -21,6 +21,7 @@ import {
     ExternalLink,
     Info,
     Loader2,
+    Globe,
 } from 'lucide-react';
 import {
     EMAIL_PROVIDERS,
@@ -29,10 +30,12 @@ import {
     formatRecordForDisplay,
     saveEmailConfig,
     getSavedConfigs,
+    applyEmailConfig,
     type EmailDNSConfig,
     type DNSRecord,
     type EmailProvider,
 } from '@/lib/domains/emailDeliverability';
+import { DNS_PROVIDERS, getConfiguredDNSProvider, type DNSProvider } from '@/lib/dns/dnsProviders';
 
 export default function DNSManager() {
     const [domain, setDomain] = useState('');
@@ -42,6 +45,16 @@ export default function DNSManager() {
     const [savedDomains, setSavedDomains] = useState<string[]>(() => Object.keys(getSavedConfigs()));
     const [copiedRecord, setCopiedRecord] = useState<number | null>(null);
     const [showProviders, setShowProviders] = useState(false);
+    const [dnsProvider, setDnsProvider] = useState<DNSProvider | null>(null);
+    const [applying, setApplying] = useState(false);
+    const [applyMessage, setApplyMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    // Records can be published directly when a DNS provider is connected
+    useEffect(() => {
+        getConfiguredDNSProvider()
+            .then(setDnsProvider)
+            .catch(err => console.error('Failed to load DNS provider:', err));
+    }, []);
 
     const handleGenerate = () => {
         if (!domain.trim()) return;
@@ -52,6 +65,25 @@ export default function DNSManager() {
         });
 
         setConfig(newConfig);
+        setApplyMessage(null);
+    };
+
+    const handleApply = async () => {
+        if (!config || !dnsProvider) return;
+
+        setApplying(true);
+        setApplyMessage(null);
+        try {
+            const result = await applyEmailConfig(config, dnsProvider);
+            setApplyMessage({
+                ok: true,
+                text: `${result.created.length} created, ${result.updated.length} updated, ${result.unchanged.length} already set`,
+            });
+        } catch (err) {
+            setApplyMessage({ ok: false, text: err instanceof Error ? err.message : 'Failed to apply records' });
+        } finally {
+            setApplying(false);
+        }
     };
 
     const handleSave = () => {
@@ -211,7 +243,22 @@ export default function DNSManager() {
                             Save Configuration
                         </button>
                     )}
+                    {config && dnsProvider && (
+                        <button
+                            onClick={handleApply}
+                            disabled={applying}
+                            className="px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 disabled:opacity-50 flex items-center gap-2"
+                        >
+                            {applying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Globe className="w-4 h-4" />}
+                            Apply via {DNS_PROVIDERS.find(p => p.id === dnsProvider)?.name}
+                        </button>
+                    )}
                 </div>
+                {applyMessage && (
+                    <p className={`mt-2 text-sm ${applyMessage.ok ? 'text-green-600' : 'text-red-600'}`}>
+                        {applyMessage.text}
+                    </p>
+                )}
             </div>
 
             {/* Results */}
@@ -0,0 +1,149 @@
+'use client';
+
+/**
+ * Streaming Article Modal
+ *
+ * Writes an article live via /api/capabilities/generate/stream.
+ * The user can stop at any point; finished (or stopped) output is handed
+ * to ArticleEditor for review and saving - nothing is saved from here.
+ */
+
+import { useState } from 'react';
+import { X, Sparkles, Square, Edit, Loader2, AlertTriangle } from 'lucide-react';
+import { useGenerationStream } from '@/lib/shared/hooks/useGenerationStream';
+
+interface StreamingArticleModalProps {
+    niche: string;
+    author: { name: string; role: string };
+    onOpenInEditor: (content: string, topic: string) => void;
+    onClose: () => void;
+}
+
+function buildArticlePrompt(topic: string, niche: string, author: string, wordCount: number): string {
+    const date = new Date().toISOString().split('T')[0];
+    return `Write a ${wordCount}-word blog article about "${topic}" for a ${niche} website.
+
+Output Markdown only, starting with this YAML frontmatter (fill in title, description and tags):
+---
+title: ""
+date: "${date}"
+description: ""
+author: "${author}"
+category: "guides"
+tags: []
+---
+
+Then the article: a hook intro, ## sections with ### subsections where useful,
+bullet lists for scannable points, and a short conclusion. Write naturally,
+speak to the reader as "you", and do not wrap the output in code fences.`;
+}
+
+export default function StreamingArticleModal({ niche, author, onOpenInEditor, onClose }: StreamingArticleModalProps) {
+    const [topic, setTopic] = useState('');
+    const [wordCount, setWordCount] = useState(1500);
+    const { text, status, handlerName, error, start, cancel } = useGenerationStream();
+    const streaming = status === 'streaming';
+
+    const handleGenerate = () => {
+        start({
+            prompt: buildArticlePrompt(topic.trim(), niche, author.name, wordCount),
+            maxTokens: Math.max(4000, Math.ceil(wordCount * 2.5)),
+            temperature: 0.7,
+            topic: topic.trim(),
+            itemType: 'markdown-article',
+            bypassCache: true,
+        });
+    };
+
+    const handleClose = () => {
+        cancel();
+        onClose();
+    };
+
+    const words = text.split(/\s+/).filter(Boolean).length;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col overflow-hidden">
+                {/* Header */}
+                <div className="px-5 py-4 border-b border-neutral-200 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Sparkles className="w-5 h-5 text-indigo-600" />
+                        <h2 className="font-semibold">Generate Article</h2>
+                    </div>
+                    <button onClick={handleClose} className="p-1 hover:bg-neutral-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Controls */}
+                <div className="px-5 py-3 border-b border-neutral-100 flex items-center gap-2">
+                    <input
+                        value={topic}
+                        onChange={e => setTopic(e.target.value)}
+                        placeholder={`Topic for your ${niche} site`}
+                        disabled={streaming}
+                        className="flex-1 px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+                    />
+                    <select
+                        value={wordCount}
+                        onChange={e => setWordCount(parseInt(e.target.value))}
+                        disabled={streaming}
+                        className="px-2 py-2 border border-neutral-300 rounded-lg text-sm"
+                    >
+                        {[800, 1500, 2500, 4000].map(n => <option key={n} value={n}>{n} words</option>)}
+                    </select>
+                    {streaming ? (
+                        <button onClick={cancel} className="flex items-center gap-1 px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700">
+                            <Square className="w-4 h-4" /> Stop
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleGenerate}
+                            disabled={!topic.trim()}
+                            className="flex items-center gap-1 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            <Sparkles className="w-4 h-4" /> Generate
+                        </button>
+                    )}
+                </div>
+
+                {/* Live output */}
+                <div className="flex-1 overflow-y-auto px-5 py-4 min-h-[300px]">
+                    {error && (
+                        <div className="mb-3 p-2 text-sm text-red-700 bg-red-50 rounded flex items-center gap-2">
+                            <AlertTriangle className="w-4 h-4" /> {error}
+                        </div>
+                    )}
+                    {text ? (
+                        <pre className="whitespace-pre-wrap font-sans text-sm text-neutral-800">
+                            {text}
+                            {streaming && <span className="inline-block w-2 h-4 ml-0.5 bg-indigo-500 animate-pulse align-middle" />}
+                        </pre>
+                    ) : streaming ? (
+                        <div className="flex items-center gap-2 text-sm text-neutral-500">
+                            <Loader2 className="w-4 h-4 animate-spin" /> Waiting for the first tokens...
+                        </div>
+                    ) : (
+                        <p className="text-sm text-neutral-400">The article appears here as it is written.</p>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="px-5 py-3 bg-neutral-50 border-t border-neutral-200 flex items-center justify-between text-sm">
+                    <span className="text-neutral-500">
+                        {words} words{handlerName && ` · ${handlerName}`}
+                        {status === 'cancelled' && ' · stopped'}
+                    </span>
+                    <button
+                        onClick={() => onOpenInEditor(text, topic.trim())}
+                        disabled={streaming || !text}
+                        className="flex items-center gap-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    >
+                        <Edit className="w-4 h-4" /> Open in Editor
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -38,8 +38,9 @@ import {
     Send
 } from 'lucide-react';
 import BuildingProgress from './BuildingProgress';
-// GenerateArticleModal removed - called dead /api/generate
+import StreamingArticleModal from './StreamingArticleModal';
 import DNSConfigPanel from './DNSConfigPanel';
+import DNSPlanPanel from './DNSPlanPanel';
 import GenerationHistory, { addToGenerationHistory } from './GenerationHistory';
 import ArticleActionsMenu from './ArticleActionsMenu';
 import SmartDropZone from './SmartDropZone';
@@ -712,6 +713,7 @@ function ContentTab({
     const [showBulkQueue, setShowBulkQueue] = useState(false);
     const [showEditor, setShowEditor] = useState(false);
     const [editingArticle, setEditingArticle] = useState<Article | null>(null);
+    const [generatedContent, setGeneratedContent] = useState('');
     const [showPrompts, setShowPrompts] = useState(false);
     const [showImages, setShowImages] = useState(false);
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -1036,10 +1038,10 @@ function ContentTab({
                     niche={niche}
                     author={author}
                     websiteCategories={DEFAULT_CATEGORIES}
-                    initialContent={editingArticle?.content || ''}
+                    initialContent={editingArticle?.content || generatedContent}
                     articleId={editingArticle?.id}
-                    onSave={() => { setShowEditor(false); setEditingArticle(null); onRefresh(); }}
-                    onClose={() => { setShowEditor(false); setEditingArticle(null); }}
+                    onSave={() => { setShowEditor(false); setEditingArticle(null); setGeneratedContent(''); onRefresh(); }}
+                    onClose={() => { setShowEditor(false); setEditingArticle(null); setGeneratedContent(''); }}
                 />
             )}
 
@@ -1193,7 +1195,30 @@ function ContentTab({
                 <GenerationHistory />
             </div>
 
-            {/* GenerateArticleModal removed - was dead code calling /api/generate */}
+            {/* Streaming Generate Modal - output opens in the editor for review */}
+            {showGenerateModal && (
+                <StreamingArticleModal
+                    niche={niche}
+                    author={author}
+                    onOpenInEditor={(content, topic) => {
+                        const title = content.match(/^title:\s*"?(.+?)"?\s*$/m)?.[1] || topic;
+                        addToGenerationHistory({
+                            keyword: topic,
+                            title,
+                            slug: title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+                            persona: author.name,
+                            template: 'streaming',
+                            cpcScore: 0,
+                            wordCount: content.split(/\s+/).filter(Boolean).length,
+                            trendSource: 'manual',
+                        });
+                        setGeneratedContent(content);
+                        setShowGenerateModal(false);
+                        setShowEditor(true);
+                    }}
+                    onClose={() => setShowGenerateModal(false)}
+                />
+            )}
         </div>
     );
 }
@@ -1555,6 +1580,9 @@ function SettingsTab({ website }: { website: Website }) {
             <div>
                 <h3 className="font-semibold mb-4">DNS Configuration</h3>
                 <DNSConfigPanel domain={website.domain} />
+                <div className="mt-4">
+                    <DNSPlanPanel domain={website.domain} siteId={website.id} />
+                </div>
             </div>
 
             <hr className="border-neutral-200" />
@@ -16,12 +16,20 @@ export type {
     TranslationSourceConfig,
     LanguageMapping,
     AIConfig,
+    PipelineDefinition,
+    PipelineGroupDefinition,
+    PipelineStageDefinition,
+    StageRetryPolicy,
     ScheduleConfig,
+    MissedRunPolicy,
     CampaignStats,
     CampaignRun,
     RunItem,
     RunError,
     PipelineContext,
+    DryRunIntent,
+    DedupMatch,
+    DedupReport,
     SourceItem,
 } from './model/types';
 
@@ -87,6 +95,14 @@ export {
     allStages,
     getTotalStageCount,
     getStageById,
+    PIPELINE_PRESETS,
+    getDefaultPipelineDefinition,
+    getPipelineCatalog,
+    validatePipelineDefinition,
+    previewPipeline,
+    type DryRunReport,
+    type PipelinePresetId,
+    type PipelineCatalogGroup,
     type StageGroup,
     type PipelineStage,
     type StageResult,
@@ -95,6 +111,7 @@ export {
     type ProgressCallback,
     type PipelineOptions,
     type Checkpoint,
+    type CheckpointStore,
 } from './lib/pipeline';
 
 // Pipeline Stage Groups (for customization)
@@ -135,6 +152,24 @@ export {
     type QualityIssue,
 } from './lib/contentQualityScorer';
 
+// Scheduling
+export {
+    parseCronExpression,
+    validateCronExpression,
+    getNextCronRun,
+    getCronRunsBetween,
+    computeNextRunAt,
+    validateSchedule,
+    evaluateSchedule,
+    computePostAllowance,
+    countSitePostsSince,
+    getStartOfDay,
+    isValidTimeZone,
+    type CronSchedule,
+    type ScheduleDecision,
+    type PostAllowance,
+} from './lib/scheduler';
+
 // RSS
 export { fetchFeed, type FeedItem, type ParsedFeed } from './lib/rssParser';
 export { fetchRSSSourceItems, extractArticleContent, type RSSFetchResult } from './lib/rssSource';
@@ -161,6 +196,47 @@ export {
     type LinkSuggestion,
     type LinkingResult
 } from './lib/internalLinking';
+export {
+    loadWPSitePages,
+    buildLinkGraph,
+    proposeBacklinks,
+    applyBacklinks,
+    rebalanceLinksToPost,
+    type GraphPage,
+    type LinkGraph,
+    type LinkGraphNode,
+    type BacklinkProposal,
+    type BacklinkOptions,
+} from './lib/linkGraph';
+export {
+    planContentClusters,
+    allocateSpokeCategories,
+    materializeClusterPlan,
+    createClusterCampaign,
+    getDueManualItems,
+    resolvePlannedLinks,
+    injectPlannedLinks,
+    type ClusterPlan,
+    type ClusterPlanOptions,
+    type PlannedCluster,
+    type PlannedArticle,
+    type PlannedLinkTarget,
+    type ClusterCampaignConfig,
+} from './lib/clusterPlanner';
+export {
+    runRefreshPipeline,
+    publishRefresh,
+    refreshStaleContent,
+    freshnessContentId,
+    parseFreshnessContentId,
+    splitSections,
+    findOutdatedSections,
+    stampModifiedDate,
+    type RefreshAction,
+    type RefreshOptions,
+    type RefreshResult,
+    type ContentSection,
+} from './lib/contentRefresh';
 export {
     generateAltText,
     generateAltTextAI,
@@ -214,10 +290,23 @@ export {
     calculateCTR,
     calculateConversionRate,
     determineWinner,
+    evaluateExperiment,
+    probabilityToBeBest,
+    sequentialPValue,
+    requiredSampleSize,
+    assignVariant,
+    recordEvents,
+    applyWinner,
+    concludeExperiment,
     generateTitleVariations,
+    DEFAULT_AB_EVALUATION,
     type ABTest,
     type ABVariant,
-    type ABResult
+    type ABResult,
+    type ABEvaluation,
+    type ABEvaluationMethod,
+    type ABEvaluationOptions,
+    type ABEventCounts
 } from './lib/abTesting';
 
 // Translation (Multi-Language Publishing)
@@ -305,6 +394,9 @@ export {
     type ReviewDecisionResult,
 } from './lib/qualityScoreStage';
 
+// Claim-Level Fact Check
+export { runClaimFactCheck, getResearchEvidence } from './lib/factCheckStage';
+
 // Phase 2 UI Components
 export { AuthorSelector } from './components/AuthorSelector';
 export { QualityScorePanel } from './components/QualityScorePanel';
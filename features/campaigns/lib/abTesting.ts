@@ -3,8 +3,16 @@
  * FSD: features/campaigns/lib/abTesting.ts
  * 
  * Test different titles/excerpts and track performance.
+ * - Winner evaluation: Bayesian (Beta-Binomial) or sequential frequentist
+ *   (mSPRT), both gated on minimum sample sizes
+ * - Sticky traffic assignment for /api/ab-tests/assign
+ * - Event ingestion and automatic application of the winner via updatePost
+ *
+ * Tests are persisted server-side (lib/db/abTestStore) through /api/ab-tests.
  */
 
+import type { WPSite, WPPostInput } from '@/features/wordpress';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -19,6 +27,12 @@ export interface ABTest {
     startedAt: number;
     completedAt?: number;
     winnerId?: string;
+    siteUrl?: string;               // Matches webhook and assignment requests to the test
+    autoApply?: boolean;            // Push the winning variant to the post via updatePost
+    evaluation?: Partial<ABEvaluationOptions>;
+    updatedAt?: number;
+    appliedAt?: number;
+    applyError?: string;
 }
 
 export interface ABVariant {
@@ -26,6 +40,7 @@ export interface ABVariant {
     type: 'title' | 'excerpt' | 'cta' | 'cover_image' | 'content';
     content: string;
     imageUrl?: string;          // For cover_image variants
+    mediaId?: number;           // WP media ID, if the cover is already uploaded
     impressions: number;
     clicks: number;
     conversions: number;
@@ -40,6 +55,36 @@ export interface ABResult {
     recommendation: string;
 }
 
+export type ABEvaluationMethod = 'bayesian' | 'sequential';
+
+export interface ABEvaluationOptions {
+    method: ABEvaluationMethod;
+    minImpressions: number;         // Per variant before any decision
+    minClicks: number;              // Across all variants
+    probabilityThreshold: number;   // Bayesian: P(best) needed to declare a winner
+    alpha: number;                  // Sequential: false-positive rate, valid under continuous monitoring
+    mixingScale: number;            // Sequential: expected lift relative to the pooled CTR (mSPRT prior)
+}
+
+export interface ABEvaluation {
+    testId: string;
+    method: ABEvaluationMethod;
+    ready: boolean;                 // Minimum sample sizes reached
+    leaderId?: string;
+    winnerId?: string;
+    probabilities: Record<string, number>;  // Bayesian P(best CTR) per variant
+    confidence: number;             // 0-1: P(best) or 1 - always-valid p-value
+    improvement: number;            // % CTR lift of the leader over the runner-up
+    requiredImpressions: number;    // Per variant to detect a 20% lift at 80% power (0 = no estimate yet)
+    reason: string;
+}
+
+export interface ABEventCounts {
+    impressions?: number;
+    clicks?: number;
+    conversions?: number;
+}
+
 // ============================================================================
 // A/B Test Management
 // ============================================================================
@@ -131,75 +176,386 @@ export function calculateConversionRate(variant: ABVariant): number {
     return (variant.conversions / variant.clicks) * 100;
 }
 
+export const DEFAULT_AB_EVALUATION: ABEvaluationOptions = {
+    method: 'bayesian',
+    minImpressions: 100,
+    minClicks: 10,
+    probabilityThreshold: 0.95,
+    alpha: 0.05,
+    mixingScale: 0.2,
+};
+
+const BAYES_SAMPLES = 5000;
+const MIN_DETECTABLE_LIFT = 0.2;
+const TARGET_POWER = 0.8;
+
 /**
- * Determine test winner with statistical significance
+ * FNV-1a hash, used for sticky assignment and to seed the sampler
  */
-export function determineWinner(test: ABTest): ABResult | null {
-    if (test.variants.length < 2) return null;
-
-    // Calculate CTR for each variant
-    const variantStats = test.variants.map(v => ({
-        variant: v,
-        ctr: calculateCTR(v),
-        convRate: calculateConversionRate(v),
-    }));
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
 
-    // Sort by CTR
-    variantStats.sort((a, b) => b.ctr - a.ctr);
+/**
+ * Seeded PRNG (mulberry32) so repeated evaluations of the same data agree
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
 
-    const winner = variantStats[0];
-    const runnerUp = variantStats[1];
+function sampleNormal(random: () => number): number {
+    const u = random() || Number.MIN_VALUE;
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
 
-    // Check if we have enough data
-    const minImpressions = 100;
-    if (winner.variant.impressions < minImpressions) {
-        return null; // Not enough data
+/**
+ * Gamma(shape >= 1) via Marsaglia-Tsang
+ */
+function sampleGamma(shape: number, random: () => number): number {
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+        let x: number;
+        let v: number;
+        do {
+            x = sampleNormal(random);
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = random();
+        if (u < 1 - 0.0331 * x ** 4) return d * v;
+        if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
     }
+}
 
-    // Calculate confidence using simplified z-test
-    const confidence = calculateConfidence(winner.variant, runnerUp.variant);
+function sampleBeta(a: number, b: number, random: () => number): number {
+    const x = sampleGamma(a, random);
+    return x / (x + sampleGamma(b, random));
+}
 
-    if (confidence < 0.95) {
-        return null; // Not statistically significant
+/**
+ * Bayesian probability that each variant has the best CTR.
+ * Beta(1 + clicks, 1 + non-clicks) posteriors, compared by Monte Carlo.
+ */
+export function probabilityToBeBest(
+    variants: ABVariant[],
+    samples: number = BAYES_SAMPLES,
+    seed: number = 1
+): Record<string, number> {
+    const random = createRandom(seed);
+    const wins = variants.map(() => 0);
+
+    for (let i = 0; i < samples; i++) {
+        let best = 0;
+        let bestValue = -1;
+        variants.forEach((v, j) => {
+            const value = sampleBeta(1 + v.clicks, 1 + Math.max(0, v.impressions - v.clicks), random);
+            if (value > bestValue) {
+                bestValue = value;
+                best = j;
+            }
+        });
+        wins[best]++;
     }
 
-    const improvement = runnerUp.ctr > 0
-        ? ((winner.ctr - runnerUp.ctr) / runnerUp.ctr) * 100
+    return Object.fromEntries(variants.map((v, j) => [v.id, wins[j] / samples]));
+}
+
+/**
+ * Always-valid p-value for a CTR difference (mixture SPRT, normal approximation).
+ * Unlike a fixed-horizon z-test it stays valid when checked after every event.
+ */
+export function sequentialPValue(
+    a: ABVariant,
+    b: ABVariant,
+    mixingScale: number = DEFAULT_AB_EVALUATION.mixingScale
+): number {
+    if (a.impressions === 0 || b.impressions === 0) return 1;
+
+    const p1 = a.clicks / a.impressions;
+    const p2 = b.clicks / b.impressions;
+    const variance = p1 * (1 - p1) / a.impressions + p2 * (1 - p2) / b.impressions;
+    const pooled = (a.clicks + b.clicks) / (a.impressions + b.impressions);
+    const tau2 = (mixingScale * pooled) ** 2;
+    if (variance === 0 || tau2 === 0) return 1;
+
+    const diff = p1 - p2;
+    const logLambda = 0.5 * Math.log(variance / (variance + tau2))
+        + (tau2 * diff * diff) / (2 * variance * (variance + tau2));
+    return Math.min(1, Math.exp(-logLambda));
+}
+
+/**
+ * Standard normal quantile (Abramowitz & Stegun 26.2.23, error < 4.5e-4)
+ */
+function normalQuantile(p: number): number {
+    if (p < 0.5) return -normalQuantile(1 - p);
+    const t = Math.sqrt(-2 * Math.log(1 - p));
+    return t - (2.515517 + 0.802853 * t + 0.010328 * t * t)
+        / (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+}
+
+/**
+ * Impressions per variant needed to detect a relative CTR lift.
+ * Returns 0 while there is no baseline CTR to plan from.
+ */
+export function requiredSampleSize(
+    baselineRate: number,
+    relativeLift: number = MIN_DETECTABLE_LIFT,
+    alpha: number = 0.05,
+    power: number = TARGET_POWER
+): number {
+    const p1 = baselineRate;
+    const p2 = Math.min(1, p1 * (1 + relativeLift));
+    if (p1 <= 0 || p2 === p1) return 0;
+
+    const z = normalQuantile(1 - alpha / 2) + normalQuantile(power);
+    return Math.ceil(z * z * (p1 * (1 - p1) + p2 * (1 - p2)) / ((p2 - p1) ** 2));
+}
+
+/**
+ * Evaluate a test: leader, confidence and whether it can be declared the winner
+ */
+export function evaluateExperiment(
+    test: ABTest,
+    options: Partial<ABEvaluationOptions> = {}
+): ABEvaluation {
+    const opts = { ...DEFAULT_AB_EVALUATION, ...test.evaluation, ...options };
+    const ranked = [...test.variants].sort((a, b) => calculateCTR(b) - calculateCTR(a));
+    const [leader, runnerUp] = ranked;
+
+    const impressions = test.variants.reduce((sum, v) => sum + v.impressions, 0);
+    const clicks = test.variants.reduce((sum, v) => sum + v.clicks, 0);
+    const evaluation: ABEvaluation = {
+        testId: test.id,
+        method: opts.method,
+        ready: false,
+        leaderId: leader?.id,
+        probabilities: {},
+        confidence: 0,
+        improvement: 0,
+        requiredImpressions: requiredSampleSize(impressions ? clicks / impressions : 0, MIN_DETECTABLE_LIFT, opts.alpha),
+        reason: '',
+    };
+
+    if (!leader || !runnerUp) {
+        return { ...evaluation, reason: 'Needs at least two variants' };
+    }
+
+    evaluation.probabilities = probabilityToBeBest(test.variants, BAYES_SAMPLES, hashString(test.id));
+    evaluation.improvement = calculateCTR(runnerUp) > 0
+        ? Math.round(((calculateCTR(leader) - calculateCTR(runnerUp)) / calculateCTR(runnerUp)) * 100)
         : 0;
 
+    if (test.variants.some(v => v.impressions < opts.minImpressions) || clicks < opts.minClicks) {
+        return {
+            ...evaluation,
+            reason: `Waiting for ${opts.minImpressions} impressions per variant and ${opts.minClicks} clicks`,
+        };
+    }
+    evaluation.ready = true;
+
+    let threshold: number;
+    if (opts.method === 'bayesian') {
+        evaluation.confidence = evaluation.probabilities[leader.id];
+        threshold = opts.probabilityThreshold;
+    } else {
+        // The leader must beat every other variant; Bonferroni keeps the overall error at alpha
+        const pValue = Math.max(...ranked.slice(1).map(v => sequentialPValue(leader, v, opts.mixingScale)));
+        evaluation.confidence = 1 - Math.min(1, pValue * (ranked.length - 1));
+        threshold = 1 - opts.alpha;
+    }
+
+    const percent = Math.round(evaluation.confidence * 100);
+    const measure = opts.method === 'bayesian' ? 'probability to be best' : 'confidence';
+    if (evaluation.confidence >= threshold && evaluation.improvement > 0) {
+        return { ...evaluation, winnerId: leader.id, reason: `"${leader.content.slice(0, 50)}" wins with ${percent}% ${measure}` };
+    }
+    return { ...evaluation, reason: `No significant difference yet (${percent}% ${measure})` };
+}
+
+/**
+ * Determine test winner with statistical significance
+ */
+export function determineWinner(
+    test: ABTest,
+    options: Partial<ABEvaluationOptions> = {}
+): ABResult | null {
+    const evaluation = evaluateExperiment(test, options);
+    const winner = test.variants.find(v => v.id === evaluation.winnerId);
+    if (!winner) return null;
+
     return {
         testId: test.id,
-        winnerId: winner.variant.id,
-        winnerContent: winner.variant.content,
-        confidence: Math.round(confidence * 100),
-        improvement: Math.round(improvement),
-        recommendation: `Use "${winner.variant.content.slice(0, 50)}..." - ${Math.round(improvement)}% better CTR`,
+        winnerId: winner.id,
+        winnerContent: winner.content,
+        confidence: Math.round(evaluation.confidence * 100),
+        improvement: evaluation.improvement,
+        recommendation: `Use "${winner.content.slice(0, 50)}..." - ${evaluation.improvement}% better CTR`,
     };
 }
 
+// ============================================================================
+// Traffic Assignment & Events
+// ============================================================================
+
+/**
+ * Variant to serve a visitor. Assignment is sticky per visitor; completed
+ * tests serve their winner, paused tests serve nothing (the original post).
+ */
+export function assignVariant(test: ABTest, visitorId: string): ABVariant | null {
+    if (test.status === 'completed') {
+        return test.variants.find(v => v.id === test.winnerId) || null;
+    }
+    if (test.status !== 'running' || test.variants.length === 0) return null;
+    return test.variants[hashString(`${test.id}:${visitorId}`) % test.variants.length];
+}
+
+// Event counts come from webhook payloads: anything not a positive finite number counts as 0
+function eventCount(value: unknown): number {
+    const count = Number(value);
+    return Number.isFinite(count) && count > 0 ? Math.floor(count) : 0;
+}
+
 /**
- * Simplified confidence calculation
+ * Add tracked events for a variant (webhook batches or served impressions)
  */
-function calculateConfidence(winner: ABVariant, loser: ABVariant): number {
-    const p1 = winner.clicks / winner.impressions;
-    const p2 = loser.clicks / loser.impressions;
-    const n1 = winner.impressions;
-    const n2 = loser.impressions;
-
-    // Pooled standard error
-    const pooledP = (winner.clicks + loser.clicks) / (n1 + n2);
-    const se = Math.sqrt(pooledP * (1 - pooledP) * (1 / n1 + 1 / n2));
-
-    if (se === 0) return 0;
-
-    // Z-score
-    const z = Math.abs(p1 - p2) / se;
-
-    // Approximate confidence from z-score
-    if (z >= 2.58) return 0.99;
-    if (z >= 1.96) return 0.95;
-    if (z >= 1.64) return 0.90;
-    return z / 2.58 * 0.90;
+export function recordEvents(test: ABTest, variantId: string, counts: ABEventCounts): ABTest {
+    return {
+        ...test,
+        updatedAt: Date.now(),
+        variants: test.variants.map(v =>
+            v.id === variantId
+                ? {
+                    ...v,
+                    impressions: v.impressions + eventCount(counts.impressions),
+                    clicks: v.clicks + eventCount(counts.clicks),
+                    conversions: v.conversions + eventCount(counts.conversions),
+                }
+                : v
+        ),
+    };
+}
+
+// ============================================================================
+// Winner Application
+// ============================================================================
+
+/**
+ * Mark a variant as the winner and complete the test
+ */
+export function declareWinner(test: ABTest, variantId: string): ABTest {
+    return { ...test, status: 'completed', winnerId: variantId, completedAt: Date.now(), updatedAt: Date.now() };
+}
+
+/**
+ * Write the winning title, excerpt or cover to the post via updatePost
+ */
+export async function applyWinner(test: ABTest, site: WPSite): Promise<{ success: boolean; error?: string }> {
+    const winner = test.variants.find(v => v.id === test.winnerId);
+    if (!winner) return { success: false, error: 'Test has no winner' };
+
+    const { updatePost, uploadMedia } = await import('@/features/wordpress/api/wordpressApi');
+    let updates: Partial<WPPostInput>;
+
+    switch (winner.type) {
+        case 'title':
+            updates = { title: winner.content };
+            break;
+        case 'excerpt':
+            updates = { excerpt: winner.content };
+            break;
+        case 'cover_image': {
+            let mediaId = winner.mediaId;
+            if (!mediaId && winner.imageUrl) {
+                try {
+                    const image = await fetch(winner.imageUrl);
+                    const file = await image.blob();
+                    const upload = await uploadMedia(site, {
+                        file,
+                        filename: `ab-${test.postId}-${winner.id}.${(file.type.split('/')[1] || 'jpg').replace('jpeg', 'jpg')}`,
+                        mimeType: file.type || 'image/jpeg',
+                        alt_text: winner.content,
+                    });
+                    mediaId = upload.data?.id;
+                } catch (error) {
+                    console.warn('[A/B Testing] Cover upload failed:', error);
+                }
+            }
+            if (!mediaId) return { success: false, error: 'Winning cover image could not be uploaded' };
+            updates = { featured_media: mediaId };
+            break;
+        }
+        default:
+            return { success: false, error: `${winner.type} variants must be applied manually` };
+    }
+
+    const response = await updatePost(site, test.postId, updates);
+    return response.success ? { success: true } : { success: false, error: response.error || 'Update failed' };
+}
+
+/**
+ * WP site a test runs on, from the sites store (webhook and API routes
+ * only know the site URL or ID)
+ */
+export async function getTestSite(test: ABTest): Promise<WPSite | undefined> {
+    const { useWPSitesStore } = await import('@/features/wordpress/model/wpSiteStore');
+    return useWPSitesStore.getState().getSite(test.siteId);
+}
+
+/**
+ * Evaluate a running test; when a winner emerges, complete the test and
+ * apply the winner if the test has autoApply. An autoApply test stays
+ * running until it is concluded where its site is known, so the winner is
+ * never declared without being written to the post.
+ */
+export async function concludeExperiment(
+    test: ABTest,
+    site?: WPSite
+): Promise<{ test: ABTest; evaluation: ABEvaluation }> {
+    const evaluation = evaluateExperiment(test);
+    if (test.status !== 'running' || !evaluation.winnerId || (test.autoApply && !site)) {
+        return { test, evaluation };
+    }
+
+    let concluded = declareWinner(test, evaluation.winnerId);
+    console.log(`[A/B Testing] ${test.id}: ${evaluation.reason}`);
+
+    if (test.autoApply && site) {
+        const applied = await applyWinner(concluded, site);
+        concluded = applied.success
+            ? { ...concluded, appliedAt: Date.now(), applyError: undefined }
+            : { ...concluded, applyError: applied.error };
+    }
+
+    return { test: concluded, evaluation };
+}
+
+/**
+ * Persist a new test server-side (pipeline runs in the browser)
+ */
+export async function saveExperiment(test: ABTest): Promise<void> {
+    const response = await fetch('/api/ab-tests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ test }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to save A/B test (HTTP ${response.status})`);
+    }
 }
 
 // ============================================================================
@@ -95,7 +95,8 @@ export async function fetchUmamiAnalytics(
 }
 
 /**
- * Fetch post performance from Plausible analytics
+ * Fetch post performance from Plausible analytics. Plausible reports pages
+ * by path; each row is matched to the post URL with the same path.
  */
 export async function fetchPlausibleAnalytics(
     config: AnalyticsConfig,
@@ -108,7 +109,7 @@ export async function fetchPlausibleAnalytics(
 
     try {
         const response = await fetch(
-            `https://plausible.io/api/v1/stats/breakdown?site_id=${config.siteId}&period=${period}&property=event:page`,
+            `https://plausible.io/api/v1/stats/breakdown?site_id=${config.siteId}&period=${period}&property=event:page&limit=1000`,
             {
                 headers: {
                     'Authorization': `Bearer ${config.apiKey}`,
@@ -119,15 +120,16 @@ export async function fetchPlausibleAnalytics(
         if (!response.ok) return [];
 
         const data = await response.json();
-        const results = data.results || [];
+        const results: Array<{ page: string; visitors: number; pageviews: number; bounce_rate: number }> = data.results || [];
+        const postsByPath = new Map(postUrls.map(url => [pathOf(url), url]));
 
-        return results
-            .filter((r: { page: string }) => postUrls.some(url => url.includes(r.page)))
-            .map((r: { page: string; visitors: number; pageviews: number; bounce_rate: number }) => ({
+        return results.flatMap(r => {
+            const url = postsByPath.get(pathOf(r.page));
+            return url ? [{
                 postId: 0,
                 siteId: config.siteId!,
                 title: r.page,
-                url: r.page,
+                url,
                 publishedAt: Date.now(),
                 metrics: {
                     pageViews: r.pageviews,
@@ -135,12 +137,23 @@ export async function fetchPlausibleAnalytics(
                     bounceRate: r.bounce_rate,
                 },
                 lastUpdated: Date.now(),
-            }));
+            }] : [];
+        });
     } catch {
         return [];
     }
 }
 
+function pathOf(url: string): string {
+    let pathname = url;
+    try {
+        pathname = new URL(url).pathname;
+    } catch {
+        // Already a path
+    }
+    return pathname.replace(/\/+$/, '') || '/';
+}
+
 // ============================================================================
 // Topic Suggestions
 // ============================================================================
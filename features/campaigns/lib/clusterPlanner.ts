@@ -0,0 +1,467 @@
+/**
+ * Topical Cluster Planner
+ * FSD: features/campaigns/lib/clusterPlanner.ts
+ *
+ * Turns seed keywords into a pillar-plus-spokes content map:
+ * - One pillar per seed; spokes from related keywords (grouped with the Hunt
+ *   keyword clusterer), topped up from the content strategy mix
+ * - Target intent, content type and length per article
+ * - Planned internal links (spokes -> pillar and neighbours, pillar -> spokes)
+ * - Publish dates: pillars first, then spokes round-robin across clusters
+ *
+ * The plan is materialized as a `manual` source campaign whose ManualTopics
+ * carry the pillar/spoke relationships; the pipeline reads them back to size
+ * articles and inject the planned links.
+ */
+
+import {
+    DEFAULT_CONTENT_MIX,
+    getContentTypesByCategory,
+    getTargetWordCount,
+    type ContentCategory,
+    type ContentIntent,
+    type ContentStrategyMix,
+} from '@/lib/siteBuilder/contentStrategy';
+import {
+    classifyIntent,
+    clusterKeywords,
+    type EnrichedKeywordInput,
+    type KeywordIntent,
+} from '@/features/hunt/lib/keywordClusterer';
+import { anchorCandidates, insertLink } from './linkGraph';
+import type { AIConfig, Campaign, ManualSourceConfig, ManualTopic, SourceItem } from '../model/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ClusterPlanOptions {
+    relatedKeywords?: Array<string | EnrichedKeywordInput>;  // e.g. from Hunt keyword research
+    mix?: ContentStrategyMix;
+    spokesPerPillar?: number;
+    postsPerWeek?: number;
+    startDate?: number;
+}
+
+export interface PlannedArticle {
+    id: string;
+    clusterId: string;
+    role: 'pillar' | 'spoke';
+    keyword: string;
+    title: string;                   // Working title, used as the campaign topic
+    category: ContentCategory;
+    contentType: string;             // ContentTypeConfig id
+    funnelStage: ContentIntent;
+    intent: KeywordIntent;
+    targetWordCount: number;
+    pillarId?: string;
+    linksTo: string[];
+    publishAt: number;
+}
+
+export interface PlannedCluster {
+    id: string;
+    seed: string;
+    pillarId: string;
+    spokeIds: string[];
+}
+
+export interface ClusterPlan {
+    id: string;
+    seeds: string[];
+    mix: ContentStrategyMix;
+    postsPerWeek: number;
+    clusters: PlannedCluster[];
+    articles: PlannedArticle[];      // In publish order
+    unassignedKeywords: string[];    // Related keywords that matched no seed
+    createdAt: number;
+}
+
+export interface PlannedLinkTarget {
+    title: string;
+    keyword?: string;
+    url: string;
+}
+
+const DEFAULT_SPOKES_PER_PILLAR = 8;
+const DEFAULT_POSTS_PER_WEEK = 3;
+const SEASONAL_LEAD_DAYS = 60;       // Same lead as calculateContentPlan
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SPOKE_CATEGORIES: ContentCategory[] = ['tofu', 'tactical', 'seasonal', 'cluster'];
+
+/** Category a related keyword fits best, by search intent */
+const INTENT_CATEGORY: Record<KeywordIntent, ContentCategory> = {
+    informational: 'tofu',
+    navigational: 'tofu',
+    commercial: 'cluster',
+    transactional: 'tactical',
+};
+
+/** Spoke title templates when there are not enough related keywords */
+const SPOKE_TEMPLATES: Record<ContentCategory, Array<(seed: string, year: number) => string>> = {
+    tofu: [
+        seed => `What Is ${seed}? A Beginner's Explanation`,
+        seed => `${seed} Myths and Facts`,
+        seed => `Common ${seed} Mistakes to Avoid`,
+    ],
+    tactical: [
+        seed => `How to Get Started with ${seed}: Step-by-Step`,
+        seed => `The Complete ${seed} Checklist`,
+        seed => `${seed} Troubleshooting Guide`,
+    ],
+    seasonal: [
+        (seed, year) => `${seed} Trends for ${year + 1}`,
+        seed => `${seed}: Year-End Checklist`,
+    ],
+    cluster: [
+        seed => `${seed} Case Study: What Worked and Why`,
+        seed => `${seed} vs the Alternatives`,
+        seed => `Advanced ${seed} Techniques`,
+    ],
+    pillar: [
+        seed => `${seed}: The Complete Guide`,
+    ],
+};
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+function titleCase(text: string): string {
+    return text.replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/**
+ * Spread spoke slots over categories in proportion to the mix (largest remainder)
+ */
+export function allocateSpokeCategories(mix: ContentStrategyMix, count: number): ContentCategory[] {
+    const total = SPOKE_CATEGORIES.reduce((sum, c) => sum + Math.max(0, mix[c]), 0);
+    if (count <= 0) return [];
+    if (total === 0) return Array(count).fill('cluster');
+
+    const exact = SPOKE_CATEGORIES.map(c => ({ category: c, value: (Math.max(0, mix[c]) / total) * count }));
+    const counts = new Map(exact.map(e => [e.category, Math.floor(e.value)]));
+    let remaining = count - [...counts.values()].reduce((a, b) => a + b, 0);
+    for (const e of [...exact].sort((a, b) => (b.value % 1) - (a.value % 1))) {
+        if (remaining-- <= 0) break;
+        counts.set(e.category, counts.get(e.category)! + 1);
+    }
+
+    // Interleave so early spokes already cover several categories
+    const slots: ContentCategory[] = [];
+    while (slots.length < count) {
+        for (const category of SPOKE_CATEGORIES) {
+            const left = counts.get(category)!;
+            if (left > 0) {
+                slots.push(category);
+                counts.set(category, left - 1);
+            }
+        }
+    }
+    return slots;
+}
+
+/**
+ * Build a pillar/spoke content map from seed keywords
+ */
+export function planContentClusters(seeds: string[], options: ClusterPlanOptions = {}): ClusterPlan {
+    const mix = options.mix || DEFAULT_CONTENT_MIX;
+    const spokesPerPillar = options.spokesPerPillar ?? DEFAULT_SPOKES_PER_PILLAR;
+    const postsPerWeek = Math.max(1, options.postsPerWeek ?? DEFAULT_POSTS_PER_WEEK);
+    const startDate = options.startDate ?? Date.now();
+    const year = new Date(startDate).getFullYear();
+    const planId = `plan_${startDate}_${Math.random().toString(36).substring(2, 6)}`;
+
+    const uniqueSeeds = [...new Set(seeds.map(s => s.trim()).filter(Boolean))];
+    const seedKeys = new Set(uniqueSeeds.map(s => s.toLowerCase()));
+    const related: EnrichedKeywordInput[] = (options.relatedKeywords || [])
+        .map(k => typeof k === 'string' ? { keyword: k } : k)
+        .filter(k => k.keyword.trim() && !seedKeys.has(k.keyword.toLowerCase()));
+
+    // Seeds rank first so each opens its own cluster; related keywords then join the closest seed
+    const grouped = clusterKeywords(
+        [
+            ...uniqueSeeds.map((keyword, i) => ({ keyword, volume: Number.MAX_SAFE_INTEGER - i })),
+            ...related,
+        ],
+        { maxClusters: uniqueSeeds.length }
+    );
+    const keywordsBySeed = new Map(grouped
+        .filter(c => seedKeys.has(c.primaryKeyword.toLowerCase()))
+        .map(c => [c.primaryKeyword.toLowerCase(), c.keywords.filter(k => !k.isHead)]));
+    const unassignedKeywords = grouped
+        .filter(c => !seedKeys.has(c.primaryKeyword.toLowerCase()))
+        .flatMap(c => c.keywords.map(k => k.keyword));
+
+    const clusters: PlannedCluster[] = [];
+    const articles: PlannedArticle[] = [];
+
+    uniqueSeeds.forEach((seed, clusterIndex) => {
+        const clusterId = `${planId}_c${clusterIndex}`;
+        const seedTitle = titleCase(seed);
+        const pillarType = getContentTypesByCategory('pillar')[0];
+        const pillar: PlannedArticle = {
+            id: `${clusterId}_pillar`,
+            clusterId,
+            role: 'pillar',
+            keyword: seed,
+            title: SPOKE_TEMPLATES.pillar[0](seedTitle, year),
+            category: 'pillar',
+            contentType: pillarType.id,
+            funnelStage: pillarType.intent,
+            intent: classifyIntent(seed),
+            targetWordCount: getTargetWordCount(pillarType),
+            linksTo: [],
+            publishAt: 0,
+        };
+
+        // Related keywords take the slot of their preferred category, templates fill the rest
+        const slots = allocateSpokeCategories(mix, spokesPerPillar);
+        const filled: Array<{ category: ContentCategory; keyword?: EnrichedKeywordInput }> = slots.map(category => ({ category }));
+        const relatedKeywords = [...(keywordsBySeed.get(seed.toLowerCase()) || [])]
+            .sort((a, b) => (b.volume || 0) - (a.volume || 0))
+            .slice(0, spokesPerPillar);
+        for (const keyword of relatedKeywords) {
+            const preferred = INTENT_CATEGORY[classifyIntent(keyword.keyword)];
+            const slot = filled.find(f => !f.keyword && f.category === preferred) || filled.find(f => !f.keyword);
+            if (slot) slot.keyword = keyword;
+        }
+
+        const templateUse = new Map<ContentCategory, number>();
+        const spokes: PlannedArticle[] = [];
+        filled.forEach(({ category, keyword }, i) => {
+            const types = getContentTypesByCategory(category);
+            const contentType = types[i % types.length];
+
+            let title: string;
+            if (keyword) {
+                title = titleCase(keyword.keyword);
+            } else {
+                const templates = SPOKE_TEMPLATES[category];
+                const used = templateUse.get(category) || 0;
+                if (used >= templates.length) return;   // Out of distinct ideas for this category
+                templateUse.set(category, used + 1);
+                title = templates[used](seedTitle, year);
+            }
+
+            spokes.push({
+                id: `${clusterId}_s${i}`,
+                clusterId,
+                role: 'spoke',
+                keyword: keyword?.keyword || seed,
+                title,
+                category,
+                contentType: contentType.id,
+                funnelStage: contentType.intent,
+                intent: classifyIntent(keyword?.keyword || title),
+                targetWordCount: getTargetWordCount(contentType),
+                pillarId: pillar.id,
+                linksTo: [],
+                publishAt: 0,
+            });
+        });
+
+        // Hub-and-spoke links plus a chain between neighbouring spokes
+        pillar.linksTo = spokes.map(s => s.id);
+        spokes.forEach((spoke, i) => {
+            spoke.linksTo = [pillar.id, spokes[i - 1]?.id, spokes[i + 1]?.id].filter((id): id is string => !!id);
+        });
+
+        clusters.push({ id: clusterId, seed, pillarId: pillar.id, spokeIds: spokes.map(s => s.id) });
+        articles.push(pillar, ...spokes);
+    });
+
+    return {
+        id: planId,
+        seeds: uniqueSeeds,
+        mix,
+        postsPerWeek,
+        clusters,
+        articles: schedulePlan(articles, clusters, startDate, postsPerWeek),
+        unassignedKeywords,
+        createdAt: startDate,
+    };
+}
+
+/**
+ * Assign publish dates: every pillar first (spokes link up to them), then
+ * spokes round-robin across clusters. Seasonal spokes get a lead time.
+ */
+function schedulePlan(
+    articles: PlannedArticle[],
+    clusters: PlannedCluster[],
+    startDate: number,
+    postsPerWeek: number
+): PlannedArticle[] {
+    const byId = new Map(articles.map(a => [a.id, a]));
+    const order: PlannedArticle[] = clusters.map(c => byId.get(c.pillarId)!);
+
+    const maxSpokes = Math.max(0, ...clusters.map(c => c.spokeIds.length));
+    for (let i = 0; i < maxSpokes; i++) {
+        for (const cluster of clusters) {
+            const spoke = cluster.spokeIds[i];
+            if (spoke) order.push(byId.get(spoke)!);
+        }
+    }
+
+    const interval = (7 * DAY_MS) / postsPerWeek;
+    order.forEach((article, slot) => {
+        const planned = startDate + Math.round(slot * interval);
+        article.publishAt = article.category === 'seasonal'
+            ? Math.max(planned, startDate + SEASONAL_LEAD_DAYS * DAY_MS)
+            : planned;
+    });
+
+    return order.sort((a, b) => a.publishAt - b.publishAt);
+}
+
+// ============================================================================
+// Campaign Materialization
+// ============================================================================
+
+export interface ClusterCampaignConfig {
+    name: string;
+    targetSiteId: string;
+    aiConfig: AIConfig;
+    description?: string;
+    targetCategoryId?: number;
+    postStatus?: Campaign['postStatus'];
+}
+
+/**
+ * Manual-source campaign that publishes the plan: one ManualTopic per article,
+ * one post per run, runs spaced to the planned cadence
+ */
+export function materializeClusterPlan(
+    plan: ClusterPlan,
+    config: ClusterCampaignConfig
+): Omit<Campaign, 'id' | 'createdAt' | 'updatedAt' | 'stats'> {
+    const topics: ManualTopic[] = plan.articles.map(article => ({
+        id: article.id,
+        topic: article.title,
+        status: 'pending',
+        clusterId: article.clusterId,
+        role: article.role,
+        pillarId: article.pillarId,
+        keyword: article.keyword,
+        intent: article.intent,
+        contentType: article.contentType,
+        targetWordCount: article.targetWordCount,
+        linksTo: article.linksTo,
+        publishAt: article.publishAt,
+    }));
+
+    return {
+        name: config.name,
+        description: config.description || `Topical clusters: ${plan.seeds.join(', ')}`,
+        status: 'draft',
+        targetSiteId: config.targetSiteId,
+        targetCategoryId: config.targetCategoryId,
+        postStatus: config.postStatus || 'publish',
+        source: {
+            type: 'manual',
+            config: { type: 'manual', topics } satisfies ManualSourceConfig,
+        },
+        aiConfig: config.aiConfig,
+        schedule: {
+            type: 'interval',
+            intervalHours: Math.max(1, Math.round((7 * 24) / plan.postsPerWeek)),
+            maxPostsPerRun: 1,
+            pauseOnError: false,
+        },
+    };
+}
+
+/**
+ * Plan and create the campaign in one step
+ */
+export async function createClusterCampaign(
+    seeds: string[],
+    config: ClusterCampaignConfig,
+    options: ClusterPlanOptions = {}
+): Promise<{ plan: ClusterPlan; campaign: Campaign }> {
+    const plan = planContentClusters(seeds, options);
+    const { useCampaignStore } = await import('../model/campaignStore');
+    const campaign = useCampaignStore.getState().createCampaign(materializeClusterPlan(plan, config));
+    return { plan, campaign };
+}
+
+// ============================================================================
+// Pipeline Helpers
+// ============================================================================
+
+/**
+ * Pending manual topics that are due, in planned order. Plan fields travel
+ * with the item as metadata.
+ */
+export function getDueManualItems(config: ManualSourceConfig, now: number = Date.now()): SourceItem[] {
+    return config.topics
+        .filter(t => t.status === 'pending' && (!t.publishAt || t.publishAt <= now))
+        .sort((a, b) => (a.publishAt || 0) - (b.publishAt || 0))
+        .map(t => ({
+            id: t.id,
+            topic: t.topic,
+            sourceType: 'manual' as const,
+            metadata: t.role
+                ? {
+                    role: t.role,
+                    clusterId: t.clusterId,
+                    pillarId: t.pillarId,
+                    keyword: t.keyword,
+                    intent: t.intent,
+                    contentType: t.contentType,
+                    targetWordCount: t.targetWordCount,
+                    linksTo: t.linksTo,
+                }
+                : undefined,
+        }));
+}
+
+/**
+ * Published link targets planned for an item, resolved from the campaign's topics
+ */
+export function resolvePlannedLinks(campaign: Campaign, item: SourceItem): PlannedLinkTarget[] {
+    const linksTo = item.metadata?.linksTo;
+    if (campaign.source.type !== 'manual' || !Array.isArray(linksTo)) return [];
+
+    const topics = (campaign.source.config as ManualSourceConfig).topics;
+    return linksTo
+        .map(id => topics.find(t => t.id === id))
+        .filter((t): t is ManualTopic & { postUrl: string } => !!t?.postUrl)
+        .map(t => ({ title: t.topic, keyword: t.keyword, url: t.postUrl }));
+}
+
+/**
+ * Link planned targets at their first natural mention; targets without one
+ * are listed in a closing "Related reading" paragraph
+ */
+export function injectPlannedLinks(
+    content: string,
+    targets: PlannedLinkTarget[]
+): { content: string; linksAdded: number } {
+    let result = content;
+    let linksAdded = 0;
+    const unlinked: PlannedLinkTarget[] = [];
+
+    for (const target of targets) {
+        if (result.includes(`href="${target.url}"`) || result.includes(`](${target.url})`)) continue;
+
+        const phrases = [...new Set([...(target.keyword ? [target.keyword.toLowerCase()] : []), ...anchorCandidates(target.title)])];
+        const linked = phrases.reduce<string | null>((done, phrase) => done ?? insertLink(result, phrase, target.url), null);
+        if (linked) {
+            result = linked;
+            linksAdded++;
+        } else {
+            unlinked.push(target);
+        }
+    }
+
+    if (unlinked.length > 0) {
+        const links = unlinked.map(t => `<a href="${t.url}">${t.title}</a>`).join(' · ');
+        result = `${result}\n<p><strong>Related reading:</strong> ${links}</p>`;
+        linksAdded += unlinked.length;
+    }
+
+    return { content: result, linksAdded };
+}
@@ -58,23 +58,34 @@ export function mapArticleType(type: Campaign['aiConfig']['articleType']): Artic
 // ============================================================================
 
 /**
- * Generate article content as semantic HTML
- * 
- * @param sourceItem - The topic/keyword to generate content for
- * @param campaign - Campaign configuration
- * @param options - Optional research context and progress callback
- * @returns Parsed content with title, body, excerpt, slug
+ * Request body for /api/capabilities/generate (and its /stream variant)
  */
-export async function generateContent(
-    sourceItem: SourceItem,
-    campaign: Campaign,
-    options?: ContentGenerationOptions
-): Promise<ContentGenerationResult> {
+export interface ContentRequest {
+    prompt: string;
+    maxTokens: number;
+    temperature: number;
+    topic: string;
+    itemType: string;
+    campaignId?: string;
+    bypassCache: boolean;
+    preferredHandler?: string;
+    context?: { providerKeys: Record<string, string> };
+}
+
+/**
+ * Build the article generation request for a topic.
+ * Shared by generateContent() and the campaign editor's live preview.
+ */
+export async function buildContentRequest(
+    topic: string,
+    campaign: Pick<Campaign, 'name' | 'aiConfig'> & { id?: string },
+    research?: ContentGenerationOptions['research']
+): Promise<ContentRequest> {
     const { aiConfig } = campaign;
 
     // Build HTML prompt configuration
     const htmlConfig: HtmlPromptConfig = {
-        topic: sourceItem.topic,
+        topic,
         niche: campaign.name || 'general',
         wordCount: aiConfig.targetLength,
         includeFAQ: aiConfig.includeFAQ ?? true,
@@ -86,15 +97,18 @@ export async function generateContent(
     const articleType = mapArticleType(aiConfig.articleType);
     const prompt = buildHtmlPrompt(articleType, htmlConfig);
 
-    // Add research context if available
-    const researchText = typeof options?.research === 'string'
-        ? options.research
-        : options?.research?.text;
-    const fullPrompt = researchText
-        ? `${prompt}\n\nUse this research to inform the content (cite naturally):\n${researchText}`
+    // Guidance learned from review feedback and published performance
+    const { getPromptImprovements } = await import('@/features/editorial');
+    const learned = getPromptImprovements();
+    const guidedPrompt = learned.length > 0
+        ? `${prompt}\n\nEditorial guidance from past results:\n${learned.map(l => `- ${l}`).join('\n')}`
         : prompt;
 
-    options?.onProgress?.('Fetching API keys...');
+    // Add research context if available
+    const researchText = typeof research === 'string' ? research : research?.text;
+    const fullPrompt = researchText
+        ? `${guidedPrompt}\n\nUse this research to inform the content (cite naturally):\n${researchText}`
+        : guidedPrompt;
 
     // Get ALL provider keys from client-side key manager (server can't access Zustand)
     let providerKeys: Record<string, string> = {};
@@ -109,26 +123,49 @@ export async function generateContent(
     const { getGenerateHandler } = await import('./handlerMapping');
     const preferredHandler = getGenerateHandler(aiConfig);
 
-    options?.onProgress?.(`Generating content with AI${preferredHandler ? ` (${preferredHandler})` : ''}...`);
-
     // Calculate generous token limit for complete article generation
     // Full HTML articles with TOC, sections, FAQ, and conclusion need substantial tokens
     // Use 16384 (Gemini Pro max) to ensure no truncation - quality over cost
     const minTokensForQuality = 16384;
 
+    return {
+        prompt: fullPrompt,
+        maxTokens: minTokensForQuality,  // No artificial limits - complete articles only
+        temperature: 0.7,
+        topic,
+        itemType: 'html-article',
+        campaignId: campaign.id,  // Budget attribution
+        bypassCache: true,        // Every article run must produce fresh content
+        preferredHandler,
+        // Pass ALL provider keys so each handler can use its own key
+        context: Object.keys(providerKeys).length > 0 ? { providerKeys } : undefined,
+    };
+}
+
+/**
+ * Generate article content as semantic HTML
+ * 
+ * @param sourceItem - The topic/keyword to generate content for
+ * @param campaign - Campaign configuration
+ * @param options - Optional research context and progress callback
+ * @returns Parsed content with title, body, excerpt, slug
+ */
+export async function generateContent(
+    sourceItem: SourceItem,
+    campaign: Campaign,
+    options?: ContentGenerationOptions
+): Promise<ContentGenerationResult> {
+    options?.onProgress?.('Fetching API keys...');
+
+    const request = await buildContentRequest(sourceItem.topic, campaign, options?.research);
+    const { preferredHandler } = request;
+
+    options?.onProgress?.(`Generating content with AI${preferredHandler ? ` (${preferredHandler})` : ''}...`);
+
     const response = await fetch('/api/capabilities/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            prompt: fullPrompt,
-            maxTokens: minTokensForQuality,  // No artificial limits - complete articles only
-            temperature: 0.7,
-            topic: sourceItem.topic,
-            itemType: 'html-article',
-            preferredHandler,  // ← Now passed to API
-            // Pass ALL provider keys so each handler can use its own key
-            context: Object.keys(providerKeys).length > 0 ? { providerKeys } : undefined,
-        }),
+        body: JSON.stringify(request),
     });
 
     if (!response.ok) {
@@ -0,0 +1,400 @@
+/**
+ * Content Refresh Pipeline
+ * FSD: features/campaigns/lib/contentRefresh.ts
+ *
+ * Performs the SuggestedAction computed by contentFreshnessManager on an
+ * already published WordPress post:
+ * 1. Fetch the live post
+ * 2. Re-research the topic
+ * 3. Patch outdated sections (minor_update) or regenerate the body (major_rewrite)
+ * 4. Carry over internal links; slug, URL and author are never sent back
+ * 5. Record a before/after diff and route it through the editorial review queue
+ * 6. Republish approved refreshes with an updated dateModified
+ */
+
+import type { WPSite } from '@/features/wordpress/model/types';
+import {
+    diffParagraphs,
+    useReviewStore,
+    type ReviewItem,
+    type ReviewRefreshInfo,
+    type RefreshVersion,
+} from '@/features/editorial';
+import type { ContentFreshness, SuggestedAction } from '@/lib/seo/contentFreshnessManager';
+import type { Campaign } from '../model/types';
+import { extractLinks, normalizeUrl } from './linkGraph';
+import { injectPlannedLinks, type PlannedLinkTarget } from './clusterPlanner';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RefreshAction = ReviewRefreshInfo['action'];
+
+export interface RefreshOptions {
+    site: WPSite;
+    postId: number;
+    action: SuggestedAction;
+    campaign: Campaign;               // Supplies aiConfig, niche and budget attribution
+    topic?: string;                   // Defaults to the post title
+    now?: Date;
+    onProgress?: (message: string) => void;
+}
+
+export interface RefreshResult {
+    success: boolean;
+    status: 'pending_review' | 'republished' | 'skipped' | 'failed';
+    reviewItem?: ReviewItem;
+    error?: string;
+}
+
+export interface ContentSection {
+    heading?: string;                 // Plain-text h2, absent for the intro
+    html: string;
+}
+
+const REFRESHABLE_ACTIONS: RefreshAction[] = ['minor_update', 'major_rewrite', 'republish'];
+
+/** How far back a year in a title still counts as "this edition" */
+const TITLE_YEAR_WINDOW = 5;
+
+// ============================================================================
+// Content Helpers
+// ============================================================================
+
+function stripTags(html: string): string {
+    return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function countWords(html: string): number {
+    const text = stripTags(html);
+    return text ? text.split(' ').length : 0;
+}
+
+/**
+ * Freshness-manager content ID for a WordPress post
+ */
+export function freshnessContentId(siteId: string, postId: number): string {
+    return `wp:${siteId}:${postId}`;
+}
+
+/**
+ * Site and post of a freshness-manager content ID; null for other content
+ */
+export function parseFreshnessContentId(contentId: string): { siteId: string; postId: number } | null {
+    const match = contentId.match(/^wp:(.+):(\d+)$/);
+    return match ? { siteId: match[1], postId: Number(match[2]) } : null;
+}
+
+/**
+ * Split HTML at <h2> headings; text before the first heading is the intro
+ */
+export function splitSections(html: string): ContentSection[] {
+    const sections: ContentSection[] = [];
+    const parts = html.split(/(?=<h2[\s>])/i);
+
+    for (const part of parts) {
+        if (!part.trim()) continue;
+        const heading = part.match(/^<h2[^>]*>([\s\S]*?)<\/h2>/i);
+        sections.push({ heading: heading ? stripTags(heading[1]) : undefined, html: part });
+    }
+    return sections;
+}
+
+/**
+ * Sections that cite a past year in their text (links and attributes ignored)
+ */
+export function findOutdatedSections(sections: ContentSection[], year: number): number[] {
+    return sections.flatMap((section, i) => {
+        const years = stripTags(section.html).match(/\b20\d{2}\b/g) || [];
+        return years.some(y => Number(y) < year) ? [i] : [];
+    });
+}
+
+/**
+ * Bump a recent edition year in a title ("Best X in 2024" -> current year)
+ */
+export function refreshTitleYear(title: string, year: number): string {
+    return title.replace(/\b20\d{2}\b/g, y => {
+        const value = Number(y);
+        return value < year && value >= year - TITLE_YEAR_WINDOW ? String(year) : y;
+    });
+}
+
+/**
+ * Internal links of a post as link targets, so they can be restored after rewriting
+ */
+export function collectInternalLinks(html: string, siteUrl: string): PlannedLinkTarget[] {
+    const byUrl = new Map<string, PlannedLinkTarget>();
+    for (const link of extractLinks(html)) {
+        if (!link.anchor || normalizeUrl(link.href, siteUrl) === null || byUrl.has(link.href)) continue;
+        byUrl.set(link.href, { title: link.anchor, keyword: link.anchor.toLowerCase(), url: link.href });
+    }
+    return [...byUrl.values()];
+}
+
+/**
+ * Set dateModified in embedded JSON-LD and the visible "Last updated" line
+ */
+export function stampModifiedDate(html: string, date: Date): string {
+    const label = date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const stamped = html.replace(/("dateModified"\s*:\s*")[^"]*(")/g, `$1${date.toISOString()}$2`);
+
+    if (/Last updated:/i.test(stamped)) {
+        return stamped.replace(/(Last updated:\s*(?:<[^>]+>\s*)*)[^<]*/i, `$1${label}`);
+    }
+    return `<p class="last-updated"><em>Last updated: ${label}</em></p>\n${stamped}`;
+}
+
+// ============================================================================
+// AI Calls
+// ============================================================================
+
+function buildSectionPrompt(section: ContentSection, title: string, research: string, year: number): string {
+    return `You are updating one section of the published article "${title}" so it is accurate as of ${year}.
+
+Rules:
+- Update outdated facts, statistics, prices, dates and recommendations; keep what is still correct
+- Keep the same <h2> heading, HTML structure and roughly the same length
+- Keep every existing <a> link exactly as it is
+- Return ONLY the HTML of the section, no explanations
+${research ? `\nCurrent research:\n${research}\n` : ''}
+Section:
+${section.html}`;
+}
+
+async function regenerateSection(
+    section: ContentSection,
+    title: string,
+    research: string,
+    campaign: Campaign,
+    year: number
+): Promise<string> {
+    const { getGenerateHandler } = await import('./handlerMapping');
+
+    const response = await fetch('/api/capabilities/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            prompt: buildSectionPrompt(section, title, research, year),
+            preferredHandler: getGenerateHandler(campaign.aiConfig),
+            itemType: 'content_refresh',
+            campaignId: campaign.id,
+            bypassCache: true,
+        }),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Section refresh HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    if (!data.success || !data.text) {
+        throw new Error(data.error || 'Section refresh returned no content');
+    }
+
+    return String(data.text).replace(/^```(?:html)?\s*|\s*```$/g, '').trim();
+}
+
+// ============================================================================
+// Refresh Pipeline
+// ============================================================================
+
+/**
+ * Refresh a published post and queue the result for editorial review.
+ * Auto-approved refreshes are republished immediately.
+ */
+export async function runRefreshPipeline(options: RefreshOptions): Promise<RefreshResult> {
+    const { site, postId, action, campaign, onProgress } = options;
+    const now = options.now ?? new Date();
+    const year = now.getFullYear();
+
+    if (!REFRESHABLE_ACTIONS.includes(action as RefreshAction)) {
+        return { success: true, status: 'skipped', error: `Action "${action}" does not refresh content` };
+    }
+
+    try {
+        // 1. Fetch the live post
+        onProgress?.('Fetching published post...');
+        const { getPost } = await import('@/features/wordpress/api/wordpressApi');
+        // context=edit returns content.raw - rendered HTML would flatten blocks and shortcodes on republish
+        const postResult = await getPost(site, postId, 'edit');
+        if (!postResult.success || !postResult.data) {
+            return { success: false, status: 'failed', error: `Failed to fetch post ${postId}: ${postResult.error}` };
+        }
+
+        const post = postResult.data;
+        const beforeTitle = post.title?.raw || post.title?.rendered || options.topic || '';
+        const beforeContent = post.content?.raw ?? post.content?.rendered ?? '';
+        const topic = options.topic || stripTags(beforeTitle);
+        const internalLinks = collectInternalLinks(beforeContent, site.url);
+
+        let content = beforeContent;
+        let refreshedSections: string[] = [];
+
+        if (action !== 'republish') {
+            // 2. Re-research (a failed lookup still lets the AI update from its own knowledge)
+            onProgress?.('Researching current information...');
+            const { performResearchRich } = await import('./researchService');
+            const research = await performResearchRich(topic, campaign.aiConfig, { campaignId: campaign.id });
+            const researchText = research.success ? research.text : '';
+
+            // 3. Patch or regenerate
+            if (action === 'major_rewrite') {
+                onProgress?.('Regenerating article...');
+                const { generateContent } = await import('./contentGenerator');
+                const generated = await generateContent(
+                    { id: `refresh_${postId}`, topic, sourceType: 'manual' },
+                    campaign,
+                    { research: research.success ? research : undefined }
+                );
+                content = generated.body;
+                refreshedSections = splitSections(content).map(s => s.heading || 'Introduction');
+            } else {
+                const sections = splitSections(beforeContent);
+                const outdated = findOutdatedSections(sections, year);
+                // Nothing dated: refreshing the intro still gives readers a real update
+                const targets = outdated.length > 0 ? outdated : [0];
+
+                for (const index of targets) {
+                    const section = sections[index];
+                    if (!section) continue;
+                    onProgress?.(`Updating section: ${section.heading || 'Introduction'}`);
+                    sections[index] = {
+                        ...section,
+                        html: `${await regenerateSection(section, beforeTitle, researchText, campaign, year)}\n`,
+                    };
+                    refreshedSections.push(section.heading || 'Introduction');
+                }
+                content = sections.map(s => s.html).join('');
+            }
+
+            // 4. Restore internal links the rewrite dropped
+            content = injectPlannedLinks(content, internalLinks).content;
+        }
+
+        content = stampModifiedDate(content, now);
+        const title = refreshTitleYear(beforeTitle, year);
+
+        // 5. Record the diff and queue for review
+        const version = (reason: RefreshVersion['reason'], versionTitle: string, versionContent: string): RefreshVersion => ({
+            id: `ver_${now.getTime()}_${reason}`,
+            title: versionTitle,
+            content: versionContent,
+            savedAt: now.getTime(),
+            reason,
+            wordCount: countWords(versionContent),
+        });
+
+        const refresh: ReviewRefreshInfo = {
+            postId,
+            postUrl: post.link,
+            action: action as RefreshAction,
+            before: version('before-refresh', beforeTitle, beforeContent),
+            after: version('refresh', title, content),
+            diff: diffParagraphs(beforeContent, content),
+            refreshedSections,
+            preservedLinks: internalLinks.length,
+        };
+
+        const store = useReviewStore.getState();
+        const reviewItem = store.createReviewItem({
+            campaignId: campaign.id,
+            siteId: site.id,
+            title,
+            content,
+            topic,
+            slug: post.slug,
+            refresh,
+        });
+        console.log(`[Refresh] Post ${postId}: ${refresh.diff.added} paragraphs added, ${refresh.diff.removed} removed`);
+
+        // 6. Republish right away when the review policy allows it
+        if (store.processAutoApproval(reviewItem.id)) {
+            const approved = store.getReviewItem(reviewItem.id)!;
+            const published = await publishRefresh(approved, site, now);
+            return {
+                success: published.success,
+                status: published.success ? 'republished' : 'failed',
+                reviewItem: useReviewStore.getState().getReviewItem(reviewItem.id),
+                error: published.error,
+            };
+        }
+
+        return { success: true, status: 'pending_review', reviewItem };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Refresh failed';
+        console.error(`[Refresh] Post ${postId} failed:`, error);
+        return { success: false, status: 'failed', error: message };
+    }
+}
+
+/**
+ * Push an approved refresh back to WordPress. Only title and content are
+ * sent, so slug, URL, author and status stay as they are.
+ */
+export async function publishRefresh(
+    item: ReviewItem,
+    site: WPSite,
+    now: Date = new Date()
+): Promise<{ success: boolean; error?: string }> {
+    if (!item.refresh) {
+        return { success: false, error: 'Review item is not a content refresh' };
+    }
+    if (item.status !== 'approved' && item.status !== 'auto_approved') {
+        return { success: false, error: `Refresh is ${item.status.replace('_', ' ')}, not approved` };
+    }
+
+    const { updatePost } = await import('@/features/wordpress/api/wordpressApi');
+    const { markAsUpdated } = await import('@/lib/seo/contentFreshnessManager');
+
+    const result = await updatePost(site, item.refresh.postId, {
+        title: item.title,
+        content: stampModifiedDate(item.content, now),
+    });
+
+    if (!result.success) {
+        useReviewStore.getState().updateReviewItem(item.id, {
+            refresh: { ...item.refresh, republishError: result.error },
+        });
+        return { success: false, error: result.error };
+    }
+
+    useReviewStore.getState().updateReviewItem(item.id, {
+        publishedAt: now.getTime(),
+        refresh: { ...item.refresh, republishedAt: now.getTime(), republishError: undefined },
+    });
+    markAsUpdated(freshnessContentId(site.id, item.refresh.postId));
+    console.log(`[Refresh] Republished post ${item.refresh.postId}`);
+
+    return { success: true };
+}
+
+/**
+ * Refresh tracked posts of one site that the freshness manager flagged
+ */
+export async function refreshStaleContent(
+    site: WPSite,
+    campaign: Campaign,
+    entries: ContentFreshness[],
+    onProgress?: (message: string) => void
+): Promise<Array<RefreshResult & { contentId: string }>> {
+    const results: Array<RefreshResult & { contentId: string }> = [];
+
+    for (const entry of entries) {
+        const target = parseFreshnessContentId(entry.contentId);
+        if (!target || target.siteId !== site.id) continue;
+
+        onProgress?.(`Refreshing "${entry.title}"...`);
+        const result = await runRefreshPipeline({
+            site,
+            postId: target.postId,
+            action: entry.suggestedAction,
+            campaign,
+            topic: entry.title,
+            onProgress,
+        });
+        results.push({ ...result, contentId: entry.contentId });
+    }
+
+    return results;
+}
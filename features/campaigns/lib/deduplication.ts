@@ -7,6 +7,7 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { TextFingerprint } from './semanticDedup';
 
 // ============================================================================
 // Types
@@ -23,6 +24,7 @@ export interface PostRecord {
     slug: string;
     wpPostId?: number;
     wpPostUrl?: string;
+    bodyFingerprint?: TextFingerprint;  // For near-duplicate checks (semanticDedup.ts)
     createdAt: number;
 }
 
@@ -249,7 +251,8 @@ export function recordGeneratedPost(
     title: string,
     slug: string,
     wpPostId?: number,
-    wpPostUrl?: string
+    wpPostUrl?: string,
+    bodyFingerprint?: TextFingerprint
 ): void {
     useDeduplicationStore.getState().addRecord({
         campaignId,
@@ -259,5 +262,6 @@ export function recordGeneratedPost(
         slug,
         wpPostId,
         wpPostUrl,
+        bodyFingerprint,
     });
 }
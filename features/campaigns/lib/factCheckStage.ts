@@ -0,0 +1,100 @@
+/**
+ * Fact Check Stage
+ * FSD: features/campaigns/lib/factCheckStage.ts
+ *
+ * Checks each claim of the generated article against the research gathered in
+ * 02-enrichment. Contradicted claims are rewritten from the evidence (or
+ * removed when the rewrite fails), supported claims get inline citations, and
+ * the claim table is kept on the context for the review item.
+ */
+
+import type { Campaign, PipelineContext } from '../model/types';
+import {
+    verifyClaims,
+    applyClaimRepairs,
+    buildEvidencePassages,
+    summarizeClaimChecks,
+    type ClaimCheck,
+    type ClaimCheckReport,
+} from '@/lib/contentQuality';
+
+/**
+ * Research text and citations from the context (string research has no citations)
+ */
+export function getResearchEvidence(ctx: PipelineContext): { text: string; citations: string[] } | null {
+    const research = ctx.research;
+    if (!research) return null;
+    if (typeof research === 'string') return research.trim() ? { text: research, citations: [] } : null;
+    return research.text?.trim() ? { text: research.text, citations: research.citations || [] } : null;
+}
+
+function buildRewritePrompt(check: ClaimCheck): string {
+    return `This sentence from an article contradicts the research it was based on.
+
+SENTENCE:
+${check.claim}
+
+RESEARCH:
+${check.evidence?.text}
+
+Rewrite the sentence so it agrees with the research. Keep the tone and length, change only what is wrong.
+Return ONLY the rewritten sentence as plain text, no quotes or explanation.`;
+}
+
+/**
+ * Ask the AI for a corrected sentence; null when it cannot provide one
+ */
+async function rewriteClaim(check: ClaimCheck, campaign: Campaign): Promise<string | null> {
+    try {
+        const { getGenerateHandler } = await import('./handlerMapping');
+
+        const response = await fetch('/api/capabilities/generate', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                prompt: buildRewritePrompt(check),
+                preferredHandler: getGenerateHandler(campaign.aiConfig),
+                itemType: 'fact_check',
+                campaignId: campaign.id,
+            }),
+        });
+
+        if (!response.ok) return null;
+        const data = await response.json();
+        const text = data.success ? String(data.text || '').replace(/<[^>]+>/g, '').replace(/^["'\s]+|["'\s]+$/g, '') : '';
+        return text || null;
+    } catch (error) {
+        console.warn('[FactCheck] Claim rewrite failed:', error);
+        return null;
+    }
+}
+
+/**
+ * Verify the article's claims, repair the body in place and record the report
+ */
+export async function runClaimFactCheck(
+    ctx: PipelineContext,
+    campaign: Campaign
+): Promise<ClaimCheckReport | null> {
+    const evidence = getResearchEvidence(ctx);
+    if (!ctx.content || !evidence) return null;
+
+    const checks = verifyClaims(ctx.content.body, evidence);
+
+    for (const check of checks) {
+        if (check.verdict !== 'contradicted') continue;
+        const revised = await rewriteClaim(check, campaign);
+        if (revised) check.revisedText = revised;
+    }
+
+    const repaired = applyClaimRepairs(ctx.content.body, checks);
+    ctx.content.body = repaired.content;
+
+    const report = summarizeClaimChecks(
+        repaired.checks,
+        buildEvidencePassages(evidence.text, evidence.citations).length
+    );
+    ctx.factCheckReport = report;
+
+    return report;
+}
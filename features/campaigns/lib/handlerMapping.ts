@@ -9,6 +9,7 @@
  * - lib/ai/providers/deepseek/capabilities.ts  
  * - lib/ai/providers/openrouter/capabilities.ts
  * - lib/ai/providers/perplexity/capabilities.ts
+ * - lib/ai/providers/local/capabilities.ts
  */
 
 import type { Campaign } from '../model/types';
@@ -19,7 +20,7 @@ import type { Campaign } from '../model/types';
 
 type CapabilityType = 'generate' | 'research' | 'images' | 'analyze';
 // Define Provider directly since AIConfig.provider is now optional
-type Provider = 'gemini' | 'deepseek' | 'openrouter' | 'perplexity';
+type Provider = 'gemini' | 'deepseek' | 'openrouter' | 'perplexity' | 'local';
 
 /**
  * Map provider to preferred handler ID for a capability.
@@ -29,6 +30,7 @@ type Provider = 'gemini' | 'deepseek' | 'openrouter' | 'perplexity';
  * - deepseek-generate, deepseek-reason, deepseek-code
  * - openrouter-generate, openrouter-research, openrouter-reason
  * - perplexity-chat, perplexity-reason, perplexity-search
+ * - local-generate
  */
 const HANDLER_MAPPING: Record<Provider, Partial<Record<CapabilityType, string>>> = {
     perplexity: {
@@ -52,6 +54,10 @@ const HANDLER_MAPPING: Record<Provider, Partial<Record<CapabilityType, string>>>
         research: 'openrouter-research',   // FIXED: was 'openrouter'
         analyze: 'openrouter-reason',      // FIXED: was 'openrouter'
     },
+    local: {
+        generate: 'local-generate',
+        analyze: 'local-generate',         // No web access - research stays on the Settings chain
+    },
 };
 
 /**
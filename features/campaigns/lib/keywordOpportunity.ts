@@ -0,0 +1,167 @@
+/**
+ * Keyword Opportunity Source
+ * FSD: features/campaigns/lib/keywordOpportunity.ts
+ *
+ * Server-side half of opportunity rotation: gathers what the target site
+ * already covers, how published posts performed and what is trending, then
+ * turns a keyword source into source items ranked best first. Each item
+ * carries the reason it was picked so the run log can show it.
+ */
+
+import type { KeywordSourceConfig, SourceItem } from '../model/types';
+import type { TrendingTopic, TrendsRegion } from './trendsApi';
+import {
+    createRotator,
+    keywordSimilarity,
+    rankKeywordsByOpportunity,
+    type OpportunityContext,
+} from './keywordRotation';
+import { useDeduplicationStore } from './deduplication';
+import { log } from '@/stores/unifiedLogStore';
+
+// Keywords at least this close to an existing post count as already used
+const USED_SIMILARITY = 0.8;
+// Keyword to trending topic match needed to borrow its momentum
+const TREND_MATCH_SIMILARITY = 0.5;
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+/**
+ * "200K+" / "1.5M+" / "5000" → number of searches
+ */
+function parseSearchVolume(volume?: string): number | undefined {
+    const match = volume?.replace(/,/g, '').match(/([\d.]+)\s*([KkMm])?/);
+    if (!match) return undefined;
+    const multiplier = match[2] ? (match[2].toLowerCase() === 'm' ? 1_000_000 : 1_000) : 1;
+    return parseFloat(match[1]) * multiplier;
+}
+
+/**
+ * Trend momentum (0-100 search volume and freshness) for keywords that match
+ * a currently trending topic or one of its related queries
+ */
+export function trendSignalsFor(
+    keywords: string[],
+    topics: TrendingTopic[],
+    now: number = Date.now()
+): NonNullable<OpportunityContext['trends']> {
+    const signals: NonNullable<OpportunityContext['trends']> = {};
+
+    for (const keyword of keywords) {
+        const topic = topics.find(t =>
+            [t.title, ...(t.relatedQueries || [])].some(text => keywordSimilarity(keyword, text) >= TREND_MATCH_SIMILARITY)
+        );
+        if (!topic) continue;
+
+        const searches = parseSearchVolume(topic.searchVolume);
+        const ageHours = topic.publishedAt ? (now - topic.publishedAt) / 3_600_000 : undefined;
+        signals[keyword.toLowerCase()] = {
+            // 1K ≈ 45, 10K ≈ 60, 100K ≈ 75, 1M ≈ 90
+            searchVolume: searches ? Math.min(100, Math.round(Math.log10(searches) * 15)) : 60,
+            freshness: ageHours !== undefined ? Math.max(0, Math.min(100, Math.round(100 - ageHours * 2))) : 70,
+        };
+    }
+
+    return signals;
+}
+
+/**
+ * Collect coverage, performance and trend signals for a site. Each source is
+ * best effort; a missing one leaves its factor neutral.
+ */
+export async function loadOpportunityContext(
+    siteId: string,
+    keywords: string[],
+    options: { region?: string; fetchTrendTopics?: boolean } = {}
+): Promise<OpportunityContext> {
+    const context: OpportunityContext = {
+        coverage: useDeduplicationStore.getState().getRecordsBySite(siteId)
+            .map(record => ({ title: record.title, topic: record.topic })),
+    };
+
+    try {
+        const { listReviewItems } = await import('@/lib/db/editorialReviewStore');
+        const { getTrackingState } = await import('@/lib/monetization');
+        const { joinPostPerformance, scorePerformance } = await import('@/features/editorial/lib/performanceLearning');
+
+        const items = listReviewItems();
+        context.coverage!.push(...items
+            .filter(item => item.siteId === siteId && (item.publishedUrl || item.publishedPostId !== undefined))
+            .map(item => ({ title: item.title, topic: item.topic })));
+
+        const { joined } = joinPostPerformance(items, [], Object.values(getTrackingState().content));
+        context.performance = scorePerformance(joined).map(sample => ({
+            topic: sample.topic,
+            performanceScore: sample.performanceScore,
+        }));
+    } catch (error) {
+        console.warn('[KeywordOpportunity] Performance signals unavailable:', error);
+    }
+
+    if (options.fetchTrendTopics !== false) {
+        try {
+            const { fetchTrends } = await import('./trendsApi');
+            const result = await fetchTrends({ provider: 'unofficial', region: (options.region || 'US') as TrendsRegion });
+            if (result.success) {
+                context.trends = trendSignalsFor(keywords, result.topics);
+            }
+        } catch (error) {
+            console.warn('[KeywordOpportunity] Trend signals unavailable:', error);
+        }
+    }
+
+    return context;
+}
+
+// ============================================================================
+// Source Items
+// ============================================================================
+
+/**
+ * Rank a keyword source by opportunity before a run. Keywords the site
+ * already covers are dropped when the source skips used keywords.
+ */
+export function rankKeywordSourceItems(
+    config: KeywordSourceConfig,
+    context: OpportunityContext,
+    campaignId?: string
+): SourceItem[] {
+    const rotator = createRotator('opportunity', config.keywords || [], 'opportunity');
+    const ranked = rankKeywordsByOpportunity(rotator.keywords, context)
+        .filter(o => !config.skipUsed || (o.coveredBy?.similarity ?? 0) < USED_SIMILARITY);
+
+    return ranked.map((opportunity, i) => {
+        const selectionReason = `Opportunity ${opportunity.score}/100, rank ${i + 1} of ${ranked.length}: ${opportunity.explanation}`;
+
+        if (i === 0) {
+            log('info', 'campaign', 'keywordRotation', `Picked "${opportunity.keyword.text}" — ${selectionReason}`, {
+                campaignId,
+                metadata: { factors: opportunity.factors, runnerUp: ranked[1]?.keyword.text },
+            });
+        }
+
+        return {
+            id: `kw_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`,
+            topic: opportunity.keyword.text,
+            sourceType: 'keywords' as const,
+            metadata: {
+                opportunityScore: opportunity.score,
+                opportunityFactors: opportunity.factors,
+                selectionReason,
+            },
+        };
+    });
+}
+
+/**
+ * Load the signals for a campaign's target site and rank its keywords
+ */
+export async function getOpportunitySourceItems(
+    campaign: { id: string; targetSiteId: string; source: { config: unknown } }
+): Promise<SourceItem[]> {
+    const config = campaign.source.config as KeywordSourceConfig;
+    const context = await loadOpportunityContext(campaign.targetSiteId, config.keywords || [], { region: config.region });
+    return rankKeywordSourceItems(config, context, campaign.id);
+}
@@ -3,9 +3,13 @@
  * FSD: features/campaigns/lib/keywordRotation.ts
  * 
  * Round-robin and weighted keyword selection for campaigns.
- * Ensures even distribution across keywords.
+ * Ensures even distribution across keywords, or ranks them by opportunity
+ * (CPC, trend momentum, site coverage and past performance).
  */
 
+import { analyzeCPC } from '@/lib/modules/cpcIntelligence';
+import { scoreTrend } from '@/lib/modules/trendScoring';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -33,6 +37,7 @@ export type RotationMode =
     | 'weighted'      // Weight-based probability
     | 'least-used'    // Pick least used keyword
     | 'exhaust-first' // Use each keyword once before repeating
+    | 'opportunity'   // Highest opportunity score, re-ranked on every pick
 
 export interface RotatorState {
     currentIndex: number;
@@ -44,6 +49,41 @@ export interface RotationResult {
     keyword: Keyword;
     reason: string;
     nextKeyword?: Keyword;
+    opportunity?: KeywordOpportunity;    // Opportunity mode only
+}
+
+/**
+ * Signals for opportunity ranking. Everything is optional; missing signals
+ * score neutral (50).
+ */
+export interface OpportunityContext {
+    trends?: Record<string, { searchVolume?: number; freshness?: number }>;  // Keyed by lowercased keyword, 0-100
+    coverage?: { title: string; topic?: string }[];                          // Posts already on the target site
+    performance?: { topic: string; performanceScore: number }[];             // Published posts, 0-100
+    weights?: Partial<OpportunityWeights>;
+}
+
+export interface OpportunityWeights {
+    cpc: number;
+    trend: number;
+    coverage: number;
+    performance: number;
+}
+
+export const DEFAULT_OPPORTUNITY_WEIGHTS: OpportunityWeights = {
+    cpc: 0.35,
+    trend: 0.25,
+    coverage: 0.25,
+    performance: 0.15,
+};
+
+export interface KeywordOpportunity {
+    keyword: Keyword;
+    score: number;                       // 0-100, after the repeat penalty
+    factors: OpportunityWeights;         // 0-100 per factor
+    coveredBy?: { title: string; similarity: number };
+    similarPosts: number;
+    explanation: string;
 }
 
 // ============================================================================
@@ -80,7 +120,7 @@ export function createRotator(
 /**
  * Get next keyword from rotator
  */
-export function getNextKeyword(rotator: KeywordRotator): RotationResult | null {
+export function getNextKeyword(rotator: KeywordRotator, context: OpportunityContext = {}): RotationResult | null {
     const enabledKeywords = rotator.keywords.filter(k => k.enabled);
 
     if (enabledKeywords.length === 0) {
@@ -89,6 +129,7 @@ export function getNextKeyword(rotator: KeywordRotator): RotationResult | null {
 
     let selected: Keyword;
     let reason: string;
+    let opportunity: KeywordOpportunity | undefined;
 
     switch (rotator.mode) {
         case 'sequential':
@@ -106,6 +147,9 @@ export function getNextKeyword(rotator: KeywordRotator): RotationResult | null {
         case 'exhaust-first':
             ({ selected, reason } = selectExhaustFirst(rotator, enabledKeywords));
             break;
+        case 'opportunity':
+            ({ selected, reason, opportunity } = selectOpportunity(enabledKeywords, context));
+            break;
         default:
             ({ selected, reason } = selectSequential(rotator, enabledKeywords));
     }
@@ -124,15 +168,15 @@ export function getNextKeyword(rotator: KeywordRotator): RotationResult | null {
     }
 
     // Peek at next keyword
-    const nextKeyword = peekNextKeyword(rotator);
+    const nextKeyword = peekNextKeyword(rotator, context);
 
-    return { keyword: selected, reason, nextKeyword };
+    return { keyword: selected, reason, nextKeyword, opportunity };
 }
 
 /**
  * Peek at what the next keyword would be without selecting it
  */
-export function peekNextKeyword(rotator: KeywordRotator): Keyword | undefined {
+export function peekNextKeyword(rotator: KeywordRotator, context: OpportunityContext = {}): Keyword | undefined {
     const enabledKeywords = rotator.keywords.filter(k => k.enabled);
     if (enabledKeywords.length === 0) return undefined;
 
@@ -143,6 +187,8 @@ export function peekNextKeyword(rotator: KeywordRotator): Keyword | undefined {
         }
         case 'least-used':
             return [...enabledKeywords].sort((a, b) => a.usage - b.usage)[0];
+        case 'opportunity':
+            return rankKeywordsByOpportunity(enabledKeywords, context)[0]?.keyword;
         default:
             return undefined; // Cannot predict random/weighted
     }
@@ -228,6 +274,111 @@ function selectExhaustFirst(
     };
 }
 
+function selectOpportunity(
+    keywords: Keyword[],
+    context: OpportunityContext
+): { selected: Keyword; reason: string; opportunity: KeywordOpportunity } {
+    const ranked = rankKeywordsByOpportunity(keywords, context);
+    const opportunity = ranked[0];
+    const runnerUp = ranked[1];
+
+    return {
+        selected: opportunity.keyword,
+        reason: `Opportunity ${opportunity.score}/100 (rank 1 of ${ranked.length}`
+            + (runnerUp ? `, next "${runnerUp.keyword.text}" ${runnerUp.score}` : '')
+            + `): ${opportunity.explanation}`,
+        opportunity,
+    };
+}
+
+// ============================================================================
+// Opportunity Scoring
+// ============================================================================
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'how', 'what', 'your', 'best', 'from', 'that', 'this', 'are', 'you']);
+
+function keywordTokens(text: string): Set<string> {
+    return new Set(
+        text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 2 && !STOP_WORDS.has(t))
+    );
+}
+
+function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    const shared = [...a].filter(t => b.has(t)).length;
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Word overlap between two phrases (0-1), ignoring short and filler words
+ */
+export function keywordSimilarity(a: string, b: string): number {
+    return tokenSimilarity(keywordTokens(a), keywordTokens(b));
+}
+
+/**
+ * Score one keyword: CPC potential, trend momentum, how much of it the site
+ * already covers, and how similar published posts performed. Each use of the
+ * keyword costs 10 points so an unpublished pick does not repeat forever.
+ */
+export function scoreKeywordOpportunity(keyword: Keyword, context: OpportunityContext = {}): KeywordOpportunity {
+    const weights = { ...DEFAULT_OPPORTUNITY_WEIGHTS, ...context.weights };
+    const tokens = keywordTokens(keyword.text);
+    const notes: string[] = [];
+
+    const cpcAnalysis = analyzeCPC(keyword.text);
+    notes.push(`CPC ${cpcAnalysis.score} (${cpcAnalysis.primaryNiche}, ${cpcAnalysis.primaryCPC})`);
+
+    const trendSignal = context.trends?.[keyword.text.toLowerCase()];
+    const trend = scoreTrend(keyword.text, trendSignal?.searchVolume, trendSignal?.freshness).overallScore;
+    notes.push(trendSignal ? `trend ${trend} (volume ${trendSignal.searchVolume ?? 50}, freshness ${trendSignal.freshness ?? 50})` : `trend ${trend} (no trend data)`);
+
+    let coveredBy: KeywordOpportunity['coveredBy'];
+    for (const post of context.coverage || []) {
+        const similarity = Math.max(
+            tokenSimilarity(tokens, keywordTokens(post.title)),
+            post.topic ? tokenSimilarity(tokens, keywordTokens(post.topic)) : 0
+        );
+        if (similarity > (coveredBy?.similarity ?? 0)) coveredBy = { title: post.title, similarity };
+    }
+    const coverage = Math.round(100 * (1 - (coveredBy?.similarity ?? 0)));
+    notes.push(coveredBy && coveredBy.similarity >= 0.3
+        ? `already covered by "${coveredBy.title}" (${Math.round(coveredBy.similarity * 100)}% match)`
+        : 'not covered on the site');
+
+    const similar = (context.performance || []).filter(p => tokenSimilarity(tokens, keywordTokens(p.topic)) >= 0.3);
+    const performance = similar.length > 0
+        ? Math.round(similar.reduce((sum, p) => sum + p.performanceScore, 0) / similar.length)
+        : 50;
+    notes.push(similar.length > 0 ? `similar posts score ${performance} (${similar.length} posts)` : 'no similar posts yet');
+
+    const factors = { cpc: cpcAnalysis.score, trend, coverage, performance };
+    const totalWeight = weights.cpc + weights.trend + weights.coverage + weights.performance || 1;
+    const raw = (factors.cpc * weights.cpc + factors.trend * weights.trend
+        + factors.coverage * weights.coverage + factors.performance * weights.performance) / totalWeight;
+    const repeatPenalty = Math.min(50, keyword.usage * 10);
+    if (repeatPenalty > 0) notes.push(`used ${keyword.usage}x (-${repeatPenalty})`);
+
+    return {
+        keyword,
+        score: Math.max(0, Math.round(raw - repeatPenalty)),
+        factors,
+        coveredBy,
+        similarPosts: similar.length,
+        explanation: notes.join(', '),
+    };
+}
+
+/**
+ * Rank keywords by opportunity, best first. Ties keep list order.
+ */
+export function rankKeywordsByOpportunity(keywords: Keyword[], context: OpportunityContext = {}): KeywordOpportunity[] {
+    return keywords
+        .map((keyword, index) => ({ opportunity: scoreKeywordOpportunity(keyword, context), index }))
+        .sort((a, b) => b.opportunity.score - a.opportunity.score || a.index - b.index)
+        .map(({ opportunity }) => opportunity);
+}
+
 // ============================================================================
 // Rotator Management
 // ============================================================================
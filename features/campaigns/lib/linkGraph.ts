@@ -0,0 +1,443 @@
+/**
+ * Internal Link Graph
+ * FSD: features/campaigns/lib/linkGraph.ts
+ *
+ * Site-wide view of internal links, complementing the per-post injection in
+ * internalLinking.ts:
+ * - Builds a graph over all posts of a WPSite (legacy websiteStore sites are
+ *   mapped to GraphPages by /api/seo/link-graph)
+ * - Inbound/outbound counts, orphan pages, cluster hubs, PageRank authority
+ * - Proposes backlinks from existing posts into new content, with
+ *   anchor-text diversity limits, and applies them via updatePost
+ */
+
+import type { WPSite } from '@/features/wordpress';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GraphPage {
+    id: string;                      // WP post id or legacy article id
+    title: string;
+    url: string;
+    content: string;                 // Raw content (HTML for WP, Markdown for legacy)
+    cluster?: string;                // Category - pages in one cluster should interlink
+}
+
+export interface LinkEdge {
+    from: string;
+    to: string;
+    anchor: string;
+}
+
+export interface LinkGraphNode {
+    id: string;
+    title: string;
+    url: string;
+    cluster?: string;
+    inbound: number;                 // Distinct pages linking here
+    outbound: number;                // Distinct internal pages linked to
+    authority: number;               // PageRank, scaled 0-100 relative to the strongest page
+    isOrphan: boolean;               // No inbound internal links
+    isHub: boolean;                  // Best-connected page of its cluster
+}
+
+export interface LinkGraph {
+    nodes: LinkGraphNode[];
+    edges: LinkEdge[];
+    orphans: string[];
+    hubs: Record<string, string>;    // cluster -> hub page id
+    builtAt: number;
+}
+
+export interface BacklinkOptions {
+    maxLinks: number;                // Backlinks proposed per run
+    maxAnchorRepeats: number;        // Times one anchor text may point at the target (incl. existing links)
+    maxExactMatch: number;           // Anchors equal to the full target title
+    maxSourceOutbound: number;       // Skip source pages already linking out this much
+}
+
+export interface BacklinkProposal {
+    sourceId: string;
+    sourceTitle: string;
+    targetId: string;
+    targetUrl: string;
+    anchor: string;
+    context: string;                 // Text around the anchor, for review
+    score: number;
+}
+
+export interface BacklinkApplyResult {
+    applied: BacklinkProposal[];
+    failed: Array<{ proposal: BacklinkProposal; error: string }>;
+}
+
+export const DEFAULT_BACKLINK_OPTIONS: BacklinkOptions = {
+    maxLinks: 5,
+    maxAnchorRepeats: 1,
+    maxExactMatch: 1,
+    maxSourceOutbound: 50,
+};
+
+const MAX_SITE_PAGES = 500;
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_ITERATIONS = 30;
+
+// ============================================================================
+// Loading Pages
+// ============================================================================
+
+/**
+ * Fetch all published posts of a WP site with raw (editable) content
+ */
+export async function loadWPSitePages(site: WPSite, maxPages: number = MAX_SITE_PAGES): Promise<GraphPage[]> {
+    const pages: GraphPage[] = [];
+    const baseUrl = site.url.replace(/\/$/, '');
+    const authHeader = btoa(`${site.username}:${site.appPassword}`);
+
+    for (let page = 1; pages.length < maxPages; page++) {
+        // context=edit returns content.raw - rendered HTML would flatten blocks and shortcodes on update
+        const response = await fetch(
+            `${baseUrl}/wp-json/wp/v2/posts?per_page=100&page=${page}&status=publish&context=edit&_fields=id,title,link,content,categories`,
+            { headers: { 'Authorization': `Basic ${authHeader}` } }
+        );
+        // WordPress answers 400 for pages past the end
+        if (!response.ok) break;
+
+        const batch: Array<{
+            id: number;
+            title?: { raw?: string; rendered?: string };
+            link: string;
+            content?: { raw?: string; rendered?: string };
+            categories?: number[];
+        }> = await response.json();
+
+        for (const post of batch) {
+            pages.push({
+                id: String(post.id),
+                title: post.title?.raw || post.title?.rendered || '',
+                url: post.link,
+                content: post.content?.raw ?? post.content?.rendered ?? '',
+                cluster: post.categories?.length ? String(post.categories[0]) : undefined,
+            });
+        }
+        if (batch.length < 100) break;
+    }
+
+    return pages;
+}
+
+// ============================================================================
+// Graph Building
+// ============================================================================
+
+/**
+ * Links in HTML (<a href>) and Markdown ([anchor](url)) content
+ */
+export function extractLinks(content: string): Array<{ href: string; anchor: string }> {
+    const links: Array<{ href: string; anchor: string }> = [];
+
+    for (const match of content.matchAll(/<a\s[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+        links.push({ href: match[1], anchor: match[2].replace(/<[^>]+>/g, '').trim() });
+    }
+    for (const match of content.matchAll(/(?<!!)\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g)) {
+        links.push({ href: match[2], anchor: match[1].trim() });
+    }
+
+    return links;
+}
+
+/**
+ * Comparable path for an internal URL; null for external or non-page links
+ */
+export function normalizeUrl(href: string, baseUrl: string): string | null {
+    if (href.startsWith('#') || href.startsWith('mailto:') || href.startsWith('tel:')) return null;
+
+    try {
+        const base = new URL(baseUrl.startsWith('http') ? baseUrl : `https://${baseUrl}`);
+        const url = new URL(href, base);
+        if (url.hostname.replace(/^www\./, '') !== base.hostname.replace(/^www\./, '')) return null;
+        return url.pathname.replace(/\/+$/, '').toLowerCase() || '/';
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * PageRank over the internal link graph (dangling pages spread evenly)
+ */
+export function computePageRank(ids: string[], edges: LinkEdge[]): Record<string, number> {
+    const n = ids.length;
+    if (n === 0) return {};
+
+    const outLinks = new Map<string, string[]>(ids.map(id => [id, []]));
+    for (const edge of edges) outLinks.get(edge.from)?.push(edge.to);
+
+    let rank: Record<string, number> = Object.fromEntries(ids.map(id => [id, 1 / n]));
+    for (let i = 0; i < PAGERANK_ITERATIONS; i++) {
+        const dangling = ids.filter(id => outLinks.get(id)!.length === 0).reduce((sum, id) => sum + rank[id], 0);
+        const next: Record<string, number> = Object.fromEntries(
+            ids.map(id => [id, (1 - PAGERANK_DAMPING) / n + PAGERANK_DAMPING * dangling / n])
+        );
+        for (const id of ids) {
+            const targets = outLinks.get(id)!;
+            for (const to of targets) next[to] += PAGERANK_DAMPING * rank[id] / targets.length;
+        }
+        rank = next;
+    }
+    return rank;
+}
+
+/**
+ * Build the internal link graph for a set of pages
+ */
+export function buildLinkGraph(pages: GraphPage[], baseUrl: string): LinkGraph {
+    const byPath = new Map<string, GraphPage>();
+    for (const page of pages) {
+        const path = normalizeUrl(page.url, baseUrl);
+        if (path) byPath.set(path, page);
+    }
+
+    // One edge per source/target pair - repeated links add no authority
+    const edges: LinkEdge[] = [];
+    const seen = new Set<string>();
+    for (const page of pages) {
+        for (const link of extractLinks(page.content)) {
+            const path = normalizeUrl(link.href, baseUrl);
+            const target = path ? byPath.get(path) : undefined;
+            const key = `${page.id}->${target?.id}`;
+            if (!target || target.id === page.id || seen.has(key)) continue;
+            seen.add(key);
+            edges.push({ from: page.id, to: target.id, anchor: link.anchor });
+        }
+    }
+
+    const rank = computePageRank(pages.map(p => p.id), edges);
+    const maxRank = Math.max(...Object.values(rank), 0);
+
+    const count = (ids: string[]) => ids.reduce((m, id) => m.set(id, (m.get(id) || 0) + 1), new Map<string, number>());
+    const inbound = count(edges.map(e => e.to));
+    const outbound = count(edges.map(e => e.from));
+
+    // Links between two pages of the same cluster, per page
+    const clusterOf = new Map(pages.map(p => [p.id, p.cluster]));
+    const intraCluster = count(edges
+        .filter(e => clusterOf.get(e.from) && clusterOf.get(e.from) === clusterOf.get(e.to))
+        .flatMap(e => [e.from, e.to]));
+
+    const nodes: LinkGraphNode[] = pages.map(page => ({
+        id: page.id,
+        title: page.title,
+        url: page.url,
+        cluster: page.cluster,
+        inbound: inbound.get(page.id) || 0,
+        outbound: outbound.get(page.id) || 0,
+        authority: maxRank ? Math.round((rank[page.id] / maxRank) * 100) : 0,
+        isOrphan: !inbound.has(page.id),
+        isHub: false,
+    }));
+
+    // Hub = most links within its own cluster, authority breaks ties
+    const hubs: Record<string, string> = {};
+    const best = new Map<string, LinkGraphNode>();
+    for (const node of nodes) {
+        const links = intraCluster.get(node.id) || 0;
+        if (!node.cluster || links === 0) continue;
+        const current = best.get(node.cluster);
+        const currentLinks = current ? intraCluster.get(current.id) || 0 : -1;
+        if (links > currentLinks || (links === currentLinks && node.authority > current!.authority)) {
+            best.set(node.cluster, node);
+        }
+    }
+    for (const [cluster, node] of best) {
+        hubs[cluster] = node.id;
+        node.isHub = true;
+    }
+
+    return {
+        nodes,
+        edges,
+        orphans: nodes.filter(n => n.isOrphan).map(n => n.id),
+        hubs,
+        builtAt: Date.now(),
+    };
+}
+
+// ============================================================================
+// Backlink Proposals
+// ============================================================================
+
+const STOPWORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+    'from', 'is', 'are', 'how', 'what', 'why', 'your', 'you', 'best', 'guide', 'vs',
+]);
+
+function escapeRegex(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizeAnchor(anchor: string): string {
+    return anchor.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Anchor candidates for a target: the full title, then 3- and 2-word phrases
+ * of its keywords, longest first
+ */
+export function anchorCandidates(title: string): string[] {
+    const words = title.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').split(/\s+/).filter(Boolean);
+    const keywords = words.filter(w => !STOPWORDS.has(w) && !/^\d{4}$/.test(w));
+
+    const phrases = new Set<string>([normalizeAnchor(title)]);
+    for (const size of [3, 2]) {
+        for (let i = 0; i <= keywords.length - size; i++) {
+            phrases.add(keywords.slice(i, i + size).join(' '));
+        }
+    }
+    return [...phrases].filter(p => p.length >= 6);
+}
+
+/**
+ * First occurrence of a phrase that is plain text (not in a link, heading or tag)
+ */
+function findAnchor(content: string, phrase: string): { index: number; text: string } | null {
+    const regex = new RegExp(`\\b(${escapeRegex(phrase)})\\b(?![^<]*<\\/(?:a|h[1-6])>)(?![^<]*>)(?![^[]*\\]\\()`, 'i');
+    const match = regex.exec(content);
+    return match ? { index: match.index, text: match[1] } : null;
+}
+
+/**
+ * Propose backlinks from existing pages into a target page
+ */
+export function proposeBacklinks(
+    graph: LinkGraph,
+    pages: GraphPage[],
+    targetId: string,
+    options: Partial<BacklinkOptions> = {}
+): BacklinkProposal[] {
+    const opts = { ...DEFAULT_BACKLINK_OPTIONS, ...options };
+    const target = pages.find(p => p.id === targetId);
+    if (!target) return [];
+
+    const nodes = new Map(graph.nodes.map(n => [n.id, n]));
+    const linkingAlready = new Set(graph.edges.filter(e => e.to === targetId).map(e => e.from));
+    const exactTitle = normalizeAnchor(target.title);
+    const phrases = anchorCandidates(target.title);
+
+    // Existing anchors count towards the diversity limits
+    const anchorUse = new Map<string, number>();
+    for (const edge of graph.edges.filter(e => e.to === targetId)) {
+        const anchor = normalizeAnchor(edge.anchor);
+        anchorUse.set(anchor, (anchorUse.get(anchor) || 0) + 1);
+    }
+    let exactUse = anchorUse.get(exactTitle) || 0;
+
+    type AnchorMatch = { phrase: string; text: string; index: number };
+    const candidates: Array<{ source: GraphPage; score: number; matches: AnchorMatch[] }> = [];
+    for (const source of pages) {
+        const node = nodes.get(source.id);
+        if (source.id === targetId || linkingAlready.has(source.id) || !node) continue;
+        if (node.outbound >= opts.maxSourceOutbound) continue;
+
+        const matches = phrases
+            .map(phrase => ({ phrase, ...findAnchor(source.content, phrase) }))
+            .filter((m): m is AnchorMatch => typeof m.index === 'number');
+        if (matches.length === 0) continue;
+
+        // Authority passes on through the link; same-cluster links build topical hubs
+        const sameCluster = !!target.cluster && source.cluster === target.cluster;
+        const score = node.authority / 100 * 0.5 + (sameCluster ? 0.3 : 0) + Math.min(matches[0].phrase.split(' ').length / 3, 1) * 0.2;
+        candidates.push({ source, score: Math.round(score * 100) / 100, matches });
+    }
+
+    const proposals: BacklinkProposal[] = [];
+    for (const { source, score, matches } of candidates.sort((a, b) => b.score - a.score)) {
+        if (proposals.length >= opts.maxLinks) break;
+
+        // Longest anchor that still respects the diversity limits
+        const choice = matches.find(({ phrase }) => {
+            if ((anchorUse.get(phrase) || 0) >= opts.maxAnchorRepeats) return false;
+            return phrase !== exactTitle || exactUse < opts.maxExactMatch;
+        });
+        if (!choice) continue;
+
+        anchorUse.set(choice.phrase, (anchorUse.get(choice.phrase) || 0) + 1);
+        if (choice.phrase === exactTitle) exactUse++;
+
+        const context = source.content.substring(Math.max(0, choice.index - 80), choice.index + choice.text.length + 80);
+        proposals.push({
+            sourceId: source.id,
+            sourceTitle: source.title,
+            targetId,
+            targetUrl: target.url,
+            anchor: choice.text,
+            context: context.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim(),
+            score,
+        });
+    }
+
+    return proposals;
+}
+
+/**
+ * Insert a link at the first plain-text occurrence of the anchor
+ */
+export function insertLink(content: string, anchor: string, url: string): string | null {
+    const found = findAnchor(content, anchor);
+    if (!found) return null;
+
+    const isMarkdown = !/<\/?(p|div|h[1-6]|ul|li|!--)[\s>]/i.test(content);
+    const link = isMarkdown ? `[${found.text}](${url})` : `<a href="${url}">${found.text}</a>`;
+    return content.substring(0, found.index) + link + content.substring(found.index + found.text.length);
+}
+
+/**
+ * Apply backlink proposals to a WP site via updatePost
+ */
+export async function applyBacklinks(
+    site: WPSite,
+    pages: GraphPage[],
+    proposals: BacklinkProposal[]
+): Promise<BacklinkApplyResult> {
+    const { updatePost } = await import('@/features/wordpress/api/wordpressApi');
+    const result: BacklinkApplyResult = { applied: [], failed: [] };
+
+    for (const proposal of proposals) {
+        const source = pages.find(p => p.id === proposal.sourceId);
+        const content = source && insertLink(source.content, proposal.anchor, proposal.targetUrl);
+        if (!source || !content) {
+            result.failed.push({ proposal, error: 'Anchor text no longer found in source post' });
+            continue;
+        }
+
+        const response = await updatePost(site, Number(proposal.sourceId), { content });
+        if (response.success) {
+            // Later proposals for the same source build on this edit
+            source.content = content;
+            result.applied.push(proposal);
+        } else {
+            result.failed.push({ proposal, error: response.error || 'Update failed' });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Rebalancing job: link existing posts back to a newly published post
+ */
+export async function rebalanceLinksToPost(
+    site: WPSite,
+    targetPostId: number,
+    options: Partial<BacklinkOptions> & { dryRun?: boolean } = {}
+): Promise<{ graph: LinkGraph; proposals: BacklinkProposal[]; result?: BacklinkApplyResult }> {
+    const pages = await loadWPSitePages(site);
+    const graph = buildLinkGraph(pages, site.url);
+    const proposals = proposeBacklinks(graph, pages, String(targetPostId), options);
+
+    if (options.dryRun || proposals.length === 0) {
+        return { graph, proposals };
+    }
+    return { graph, proposals, result: await applyBacklinks(site, pages, proposals) };
+}
@@ -1,14 +1,71 @@
 /**
  * Checkpoint Management
  * FSD: features/campaigns/lib/pipeline/checkpoints.ts
- * 
+ *
  * Save and load pipeline checkpoints for resume capability.
+ * Storage is pluggable: the browser uses localStorage, server routes
+ * pass the file-backed store from lib/db/pipelineRunStore.
  */
 
-import type { Checkpoint, StageResult } from './types';
+import type { Checkpoint, CheckpointStore, StageResult } from './types';
 import type { PipelineContext } from '../../model/types';
 
 const CHECKPOINT_PREFIX = 'ifrit_pipeline_checkpoint_';
+const MAX_CHECKPOINT_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+// ============================================================================
+// localStorage Backend (default)
+// ============================================================================
+
+export const localCheckpointStore: CheckpointStore = {
+    save(checkpoint) {
+        if (typeof window === 'undefined') return;
+        try {
+            const key = `${CHECKPOINT_PREFIX}${checkpoint.campaignId}_${checkpoint.itemId}`;
+            localStorage.setItem(key, JSON.stringify(checkpoint));
+        } catch {
+            console.warn('[Checkpoint] Failed to save to localStorage');
+        }
+    },
+
+    load(campaignId, itemId) {
+        if (typeof window === 'undefined') return null;
+        try {
+            const stored = localStorage.getItem(`${CHECKPOINT_PREFIX}${campaignId}_${itemId}`);
+            return stored ? JSON.parse(stored) as Checkpoint : null;
+        } catch {
+            return null;
+        }
+    },
+
+    clear(campaignId, itemId) {
+        if (typeof window === 'undefined') return;
+        try {
+            localStorage.removeItem(`${CHECKPOINT_PREFIX}${campaignId}_${itemId}`);
+        } catch {
+            // Ignore errors
+        }
+    },
+
+    list() {
+        if (typeof window === 'undefined') return [];
+        const checkpoints: Checkpoint[] = [];
+        try {
+            for (let i = 0; i < localStorage.length; i++) {
+                const key = localStorage.key(i);
+                if (key?.startsWith(CHECKPOINT_PREFIX)) {
+                    const stored = localStorage.getItem(key);
+                    if (stored) {
+                        checkpoints.push(JSON.parse(stored));
+                    }
+                }
+            }
+        } catch {
+            // Ignore errors
+        }
+        return checkpoints;
+    },
+};
 
 // ============================================================================
 // Save Checkpoint
@@ -19,34 +76,30 @@ export function saveCheckpoint(
     itemId: string,
     completedStages: Set<string>,
     stageResults: Map<string, StageResult>,
-    ctx: PipelineContext
+    ctx: PipelineContext,
+    options?: { store?: CheckpointStore; runId?: string; currentStage?: string }
 ): Checkpoint {
+    const store = options?.store ?? localCheckpointStore;
+    const existing = store.load(campaignId, itemId);
+
+    // Persist the full context except the campaign, which is always re-supplied
+    // by the caller so edits made between attempts take effect on resume.
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { campaign, ...context } = ctx;
+
     const checkpoint: Checkpoint = {
-        runId: `ckpt_${Date.now()}`,
+        runId: options?.runId ?? existing?.runId ?? `ckpt_${Date.now()}`,
         campaignId,
         itemId,
         completedStages: Array.from(completedStages),
+        currentStage: options?.currentStage,
         stageData: Object.fromEntries(stageResults),
-        context: {
-            research: ctx.research,
-            content: ctx.content,
-            images: ctx.images,
-            matchedAuthor: ctx.matchedAuthor,
-            qualityScore: ctx.qualityScore,
-        },
-        createdAt: Date.now(),
+        context,
+        createdAt: existing?.createdAt ?? Date.now(),
         updatedAt: Date.now(),
     };
 
-    // Store in localStorage for client-side persistence
-    if (typeof window !== 'undefined') {
-        try {
-            const key = `${CHECKPOINT_PREFIX}${campaignId}_${itemId}`;
-            localStorage.setItem(key, JSON.stringify(checkpoint));
-        } catch {
-            console.warn('[Checkpoint] Failed to save to localStorage');
-        }
-    }
+    store.save(checkpoint);
 
     return checkpoint;
 }
@@ -55,102 +108,55 @@ export function saveCheckpoint(
 // Load Checkpoint
 // ============================================================================
 
-export function loadCheckpoint(campaignId: string, itemId: string): Checkpoint | null {
-    if (typeof window === 'undefined') return null;
-
-    try {
-        const key = `${CHECKPOINT_PREFIX}${campaignId}_${itemId}`;
-        const stored = localStorage.getItem(key);
-        if (!stored) return null;
-
-        const checkpoint = JSON.parse(stored) as Checkpoint;
-
-        // Validate checkpoint is recent (less than 24 hours old)
-        const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-        if (Date.now() - checkpoint.updatedAt > maxAge) {
-            clearCheckpoint(campaignId, itemId);
-            return null;
-        }
-
-        return checkpoint;
-    } catch {
+export function loadCheckpoint(
+    campaignId: string,
+    itemId: string,
+    store: CheckpointStore = localCheckpointStore
+): Checkpoint | null {
+    const checkpoint = store.load(campaignId, itemId);
+    if (!checkpoint) return null;
+
+    // Validate checkpoint is recent (less than 24 hours old)
+    if (Date.now() - checkpoint.updatedAt > MAX_CHECKPOINT_AGE) {
+        store.clear(campaignId, itemId);
         return null;
     }
+
+    return checkpoint;
 }
 
 // ============================================================================
 // Clear Checkpoint
 // ============================================================================
 
-export function clearCheckpoint(campaignId: string, itemId: string): void {
-    if (typeof window === 'undefined') return;
-
-    try {
-        const key = `${CHECKPOINT_PREFIX}${campaignId}_${itemId}`;
-        localStorage.removeItem(key);
-    } catch {
-        // Ignore errors
-    }
+export function clearCheckpoint(
+    campaignId: string,
+    itemId: string,
+    store: CheckpointStore = localCheckpointStore
+): void {
+    store.clear(campaignId, itemId);
 }
 
 // ============================================================================
 // List All Checkpoints
 // ============================================================================
 
-export function listCheckpoints(): Checkpoint[] {
-    if (typeof window === 'undefined') return [];
-
-    const checkpoints: Checkpoint[] = [];
-
-    try {
-        for (let i = 0; i < localStorage.length; i++) {
-            const key = localStorage.key(i);
-            if (key?.startsWith(CHECKPOINT_PREFIX)) {
-                const stored = localStorage.getItem(key);
-                if (stored) {
-                    checkpoints.push(JSON.parse(stored));
-                }
-            }
-        }
-    } catch {
-        // Ignore errors
-    }
-
-    return checkpoints;
+export function listCheckpoints(store: CheckpointStore = localCheckpointStore): Checkpoint[] {
+    return store.list();
 }
 
 // ============================================================================
 // Clear Expired Checkpoints
 // ============================================================================
 
-export function clearExpiredCheckpoints(): number {
-    if (typeof window === 'undefined') return 0;
-
+export function clearExpiredCheckpoints(store: CheckpointStore = localCheckpointStore): number {
     let cleared = 0;
-    const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-
-    try {
-        const keysToRemove: string[] = [];
-
-        for (let i = 0; i < localStorage.length; i++) {
-            const key = localStorage.key(i);
-            if (key?.startsWith(CHECKPOINT_PREFIX)) {
-                const stored = localStorage.getItem(key);
-                if (stored) {
-                    const checkpoint = JSON.parse(stored) as Checkpoint;
-                    if (Date.now() - checkpoint.updatedAt > maxAge) {
-                        keysToRemove.push(key);
-                    }
-                }
-            }
-        }
 
-        for (const key of keysToRemove) {
-            localStorage.removeItem(key);
+    for (const checkpoint of store.list()) {
+        if (Date.now() - checkpoint.updatedAt > MAX_CHECKPOINT_AGE) {
+            store.clear(checkpoint.campaignId, checkpoint.itemId);
             cleared++;
         }
-    } catch {
-        // Ignore errors
     }
 
     return cleared;
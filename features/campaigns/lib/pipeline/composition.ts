@@ -0,0 +1,356 @@
+/**
+ * Pipeline Composition
+ * FSD: features/campaigns/lib/pipeline/composition.ts
+ *
+ * Turns a campaign's declarative PipelineDefinition into the ordered stage
+ * groups the orchestrator executes. The standard order in stages/index.ts
+ * is the 'default' preset; campaigns without a definition use it unchanged.
+ */
+
+import type {
+    Campaign,
+    PipelineDefinition,
+    PipelineGroupDefinition,
+    StageRetryPolicy,
+} from '../../model/types';
+import type { ResolvedStageGroup, StageGroup, StageOptionField, StageOptions } from './types';
+import { allStages } from './stages';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_RETRY_POLICY: StageRetryPolicy = { maxAttempts: 1, backoffMs: 0 };
+
+const MAX_RETRY_ATTEMPTS = 5;
+const MAX_RETRY_BACKOFF_MS = 60_000;
+
+/**
+ * Groups that must run before the key group when both are enabled.
+ */
+const GROUP_PREREQUISITES: Record<string, string[]> = {
+    enrichment: ['validation'],
+    generation: ['validation', 'enrichment'],
+    enhancement: ['generation'],
+    quality: ['generation'],
+    optimization: ['generation'],
+    compliance: ['generation'],
+    publish: ['generation', 'quality', 'compliance'],
+    distribution: ['generation'],
+    syndication: ['publish'],
+};
+
+/**
+ * Stages that must run before the key stage (group/stage) within its group
+ * when both are enabled
+ */
+const STAGE_PREREQUISITES: Record<string, string[]> = {
+    'quality/quality_score': ['fact_check'],
+    'quality/smart_review': ['quality_score'],
+    'quality/dedup_content': ['smart_review'],
+    'compliance/pre_publish_check': ['adsense_compliance', 'affiliate_disclosure'],
+    'publish/record_dedup': ['publish_wp'],
+    'publish/backlinks': ['publish_wp'],
+    'publish/multisite': ['publish_wp'],
+    'publish/analytics': ['publish_wp'],
+    'publish/ab_testing': ['publish_wp'],
+};
+
+/**
+ * Stages that cannot be disabled (non-optional stages the pipeline depends on).
+ */
+const REQUIRED_STAGES: Array<{ groupId: string; stageId: string }> = allStages.flatMap(group =>
+    group.stages
+        .filter(stage => !stage.optional)
+        .map(stage => ({ groupId: group.id, stageId: stage.id }))
+);
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+function definitionFromGroups(groups: StageGroup[]): PipelineDefinition {
+    return {
+        groups: groups.map(group => ({
+            id: group.id,
+            enabled: true,
+            parallel: group.parallel,
+            stages: group.stages.map(stage => ({ id: stage.id, enabled: true })),
+        })),
+        retryPolicy: { ...DEFAULT_RETRY_POLICY },
+    };
+}
+
+export type PipelinePresetId = 'default' | 'minimal';
+
+export const PIPELINE_PRESETS: Record<PipelinePresetId, { name: string; description: string; build: () => PipelineDefinition }> = {
+    default: {
+        name: 'Standard',
+        description: 'Every stage in the standard order',
+        build: () => definitionFromGroups(allStages),
+    },
+    minimal: {
+        name: 'Minimal',
+        description: 'Dedup, generate and publish only',
+        build: () => {
+            const definition = definitionFromGroups(allStages);
+            const required = new Set(REQUIRED_STAGES.map(r => `${r.groupId}/${r.stageId}`));
+            for (const group of definition.groups) {
+                for (const stage of group.stages) {
+                    stage.enabled = required.has(`${group.id}/${stage.id}`);
+                }
+                group.enabled = group.stages.some(stage => stage.enabled);
+            }
+            return definition;
+        },
+    },
+};
+
+export function getDefaultPipelineDefinition(): PipelineDefinition {
+    return PIPELINE_PRESETS.default.build();
+}
+
+// ============================================================================
+// Catalog (for the editor UI)
+// ============================================================================
+
+export interface PipelineCatalogGroup {
+    id: string;
+    name: string;
+    defaultParallel: boolean;
+    stages: Array<{ id: string; name: string; optional: boolean; optionFields: StageOptionField[] }>;
+}
+
+export function getPipelineCatalog(): PipelineCatalogGroup[] {
+    return allStages.map(group => ({
+        id: group.id,
+        name: group.name,
+        defaultParallel: group.parallel,
+        stages: group.stages.map(stage => ({
+            id: stage.id,
+            name: stage.name,
+            optional: stage.optional,
+            optionFields: stage.optionFields ?? [],
+        })),
+    }));
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export interface PipelineValidationResult {
+    valid: boolean;
+    errors: string[];
+}
+
+function validateRetryPolicy(policy: StageRetryPolicy | undefined, label: string, errors: string[]): void {
+    if (!policy) return;
+    if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1 || policy.maxAttempts > MAX_RETRY_ATTEMPTS) {
+        errors.push(`${label}: maxAttempts must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}`);
+    }
+    if (!(policy.backoffMs >= 0) || policy.backoffMs > MAX_RETRY_BACKOFF_MS) {
+        errors.push(`${label}: backoffMs must be between 0 and ${MAX_RETRY_BACKOFF_MS}`);
+    }
+}
+
+/**
+ * Read an option by its dot path ('thresholds.title')
+ */
+export function getStageOption(options: StageOptions | undefined, key: string): unknown {
+    return key.split('.').reduce<unknown>(
+        (value, part) => (value && typeof value === 'object' ? (value as StageOptions)[part] : undefined),
+        options
+    );
+}
+
+/**
+ * Set or (with undefined) remove an option by its dot path. Emptied
+ * branches are dropped, so clearing every field leaves no options.
+ */
+export function setStageOption(options: StageOptions | undefined, key: string, value: unknown): StageOptions | undefined {
+    const [head, ...rest] = key.split('.');
+    const next: StageOptions = { ...options };
+    const child = rest.length > 0
+        ? setStageOption(next[head] as StageOptions | undefined, rest.join('.'), value)
+        : value;
+
+    if (child === undefined) {
+        delete next[head];
+    } else {
+        next[head] = child;
+    }
+    return Object.keys(next).length > 0 ? next : undefined;
+}
+
+function validateStageOptions(options: StageOptions | undefined, fields: StageOptionField[], label: string, errors: string[]): void {
+    for (const field of fields) {
+        const value = getStageOption(options, field.key);
+        if (value === undefined) continue;
+
+        if (field.type === 'select') {
+            if (!field.choices?.includes(value as string)) {
+                errors.push(`${label}: ${field.label} must be one of ${field.choices?.join(', ')}`);
+            }
+        } else if (typeof value !== 'number' || !Number.isFinite(value) ||
+            (field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+            errors.push(`${label}: ${field.label} must be a number between ${field.min ?? '-∞'} and ${field.max ?? '∞'}`);
+        }
+    }
+}
+
+export function validatePipelineDefinition(definition: PipelineDefinition): PipelineValidationResult {
+    const errors: string[] = [];
+    const registry = new Map(allStages.map(group => [group.id, group]));
+    const seenGroups = new Set<string>();
+
+    validateRetryPolicy(definition.retryPolicy, 'Pipeline retry policy', errors);
+
+    for (const groupDef of definition.groups) {
+        const group = registry.get(groupDef.id);
+        if (!group) {
+            errors.push(`Unknown stage group: ${groupDef.id}`);
+            continue;
+        }
+        if (seenGroups.has(groupDef.id)) {
+            errors.push(`Stage group listed twice: ${groupDef.id}`);
+            continue;
+        }
+        seenGroups.add(groupDef.id);
+
+        const seenStages = new Set<string>();
+        for (const stageDef of groupDef.stages) {
+            const stage = group.stages.find(s => s.id === stageDef.id);
+            if (!stage) {
+                errors.push(`Unknown stage "${stageDef.id}" in group ${groupDef.id}`);
+            } else if (seenStages.has(stageDef.id)) {
+                errors.push(`Stage listed twice: ${groupDef.id}/${stageDef.id}`);
+            } else {
+                validateStageOptions(stageDef.options, stage.optionFields ?? [], `${groupDef.id}/${stageDef.id}`, errors);
+            }
+            seenStages.add(stageDef.id);
+            validateRetryPolicy(stageDef.retry, `${groupDef.id}/${stageDef.id} retry policy`, errors);
+        }
+    }
+
+    // Required stages must be present and enabled
+    for (const { groupId, stageId } of REQUIRED_STAGES) {
+        const groupDef = definition.groups.find(g => g.id === groupId);
+        const stageDef = groupDef?.stages.find(s => s.id === stageId);
+        if (!groupDef?.enabled || !stageDef?.enabled) {
+            errors.push(`Required stage cannot be disabled: ${groupId}/${stageId}`);
+        }
+    }
+
+    // Ordering: prerequisites must come first when enabled
+    const enabledOrder = definition.groups.filter(g => g.enabled).map(g => g.id);
+    enabledOrder.forEach((groupId, index) => {
+        for (const prerequisite of GROUP_PREREQUISITES[groupId] || []) {
+            const prerequisiteIndex = enabledOrder.indexOf(prerequisite);
+            if (prerequisiteIndex > index) {
+                errors.push(`Stage group ${groupId} must run after ${prerequisite}`);
+            }
+        }
+    });
+
+    for (const groupDef of definition.groups.filter(g => g.enabled)) {
+        const stageOrder = groupDef.stages.filter(s => s.enabled).map(s => s.id);
+        stageOrder.forEach((stageId, index) => {
+            for (const prerequisite of STAGE_PREREQUISITES[`${groupDef.id}/${stageId}`] || []) {
+                if (stageOrder.indexOf(prerequisite) > index) {
+                    errors.push(`Stage ${groupDef.id}/${stageId} must run after ${prerequisite}`);
+                }
+            }
+        });
+    }
+
+    return { valid: errors.length === 0, errors };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Add registry groups and stages a saved definition doesn't name, enabled as
+ * in the default preset. A definition only lists what existed when it was
+ * saved, so without this, stages registered later would never run for it.
+ * Each addition goes after its nearest preceding registry neighbour.
+ */
+export function withRegistryStages(definition: PipelineDefinition): PipelineDefinition {
+    const defaults = getDefaultPipelineDefinition();
+    const groups = definition.groups.map(group => ({ ...group, stages: [...group.stages] }));
+
+    defaults.groups.forEach((defaultGroup, groupIndex) => {
+        const existing = groups.find(g => g.id === defaultGroup.id);
+        if (!existing) {
+            const previousIds = defaults.groups.slice(0, groupIndex).map(g => g.id);
+            const after = groups.map(g => g.id).reduce((found, id, i) => (previousIds.includes(id) ? i : found), -1);
+            groups.splice(after + 1, 0, { ...defaultGroup, stages: [...defaultGroup.stages] });
+            return;
+        }
+
+        defaultGroup.stages.forEach((defaultStage, stageIndex) => {
+            if (existing.stages.some(s => s.id === defaultStage.id)) return;
+            const previousIds = defaultGroup.stages.slice(0, stageIndex).map(s => s.id);
+            const after = existing.stages.map(s => s.id).reduce((found, id, i) => (previousIds.includes(id) ? i : found), -1);
+            existing.stages.splice(after + 1, 0, { ...defaultStage });
+        });
+    });
+
+    return { ...definition, groups };
+}
+
+/**
+ * True when a definition runs exactly like the default preset, so it need
+ * not be stored on the campaign
+ */
+export function isDefaultPipelineDefinition(definition: PipelineDefinition): boolean {
+    return JSON.stringify(withRegistryStages(definition)) === JSON.stringify(getDefaultPipelineDefinition());
+}
+
+/**
+ * Apply a campaign's PipelineDefinition to the stage registry.
+ * Throws when the definition is invalid so the run fails before any side effect.
+ */
+export function resolvePipeline(campaign: Pick<Campaign, 'pipeline'>): ResolvedStageGroup[] {
+    const definition = withRegistryStages(campaign.pipeline ?? getDefaultPipelineDefinition());
+
+    const validation = validatePipelineDefinition(definition);
+    if (!validation.valid) {
+        throw new Error(`Invalid pipeline definition: ${validation.errors.join('; ')}`);
+    }
+
+    const registry = new Map(allStages.map(group => [group.id, group]));
+    const defaultRetry = definition.retryPolicy ?? DEFAULT_RETRY_POLICY;
+
+    return definition.groups
+        .filter(groupDef => groupDef.enabled)
+        .map((groupDef: PipelineGroupDefinition): ResolvedStageGroup => {
+            const group = registry.get(groupDef.id)!;
+            return {
+                id: group.id,
+                name: group.name,
+                runItemStatus: group.runItemStatus,
+                parallel: groupDef.parallel ?? group.parallel,
+                stages: groupDef.stages
+                    .filter(stageDef => stageDef.enabled)
+                    .map(stageDef => {
+                        const stage = group.stages.find(s => s.id === stageDef.id)!;
+                        return {
+                            ...stage,
+                            options: stageDef.options,
+                            retry: stage.retryable === false ? DEFAULT_RETRY_POLICY : (stageDef.retry ?? defaultRetry),
+                        };
+                    }),
+            };
+        })
+        .filter(group => group.stages.length > 0);
+}
+
+/**
+ * Total executable stages for progress calculation.
+ */
+export function countResolvedStages(groups: ResolvedStageGroup[]): number {
+    return groups.reduce((sum, group) => sum + group.stages.length, 0);
+}
@@ -0,0 +1,154 @@
+/**
+ * Pipeline Dry-Run
+ * FSD: features/campaigns/lib/pipeline/dryRun.ts
+ *
+ * Runs every generation, enhancement and quality stage for real, but
+ * publishing, newsletter and syndication stages only record what they
+ * would have done. Returns an artifact report for the campaign preview UI.
+ */
+
+import type { Campaign, DryRunIntent, PipelineContext, SourceItem } from '../../model/types';
+import type { WPSite } from '@/features/wordpress';
+import type { PipelineOptions, StageResult } from './types';
+import { runPipeline } from './orchestrator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DryRunReport {
+    campaignId: string;
+    topic: string;
+    status: 'done' | 'failed';
+    error?: string;
+    generatedAt: number;
+    durationMs: number;
+
+    content?: {
+        title: string;
+        slug: string;
+        excerpt: string;
+        html: string;                 // Final body, schema scripts stripped
+        wordCount: number;
+    };
+    images: {
+        cover?: { url: string; alt: string };
+        inline: Array<{ url: string; alt: string; position: string }>;
+        candidates: number;           // All collected image assets
+    };
+    schema: unknown[];                // Parsed JSON-LD blocks
+    author?: PipelineContext['matchedAuthor'];
+    qualityScore?: PipelineContext['qualityScore'];
+    compliance?: PipelineContext['complianceReport'];
+    needsManualReview: boolean;
+    multiFormat?: PipelineContext['multiFormatOutput'];
+    videoScript?: PipelineContext['videoScript'];
+
+    intents: DryRunIntent[];          // What would have been sent where
+    stages: Record<string, StageResult>;
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+/**
+ * Run the campaign pipeline in dry-run mode and build the preview report.
+ * Never throws for stage failures; the report carries the error instead.
+ */
+export async function previewPipeline(
+    campaign: Campaign,
+    sourceItem: SourceItem,
+    wpSite: WPSite,
+    options?: Pick<PipelineOptions, 'onProgress' | 'onStatusChange'> & { parentActionId?: string }
+): Promise<DryRunReport> {
+    const startedAt = Date.now();
+    const stages: Record<string, StageResult> = {};
+    let ctx: PipelineContext | null = null;
+    let error: string | undefined;
+
+    try {
+        ctx = await runPipeline(campaign, sourceItem, wpSite, {
+            ...options,
+            dryRun: true,
+            onStageResult: (stageId, result) => {
+                stages[stageId] = result;
+            },
+        });
+    } catch (err) {
+        error = err instanceof Error ? err.message : 'Preview failed';
+    }
+
+    return buildDryRunReport(ctx, { campaign, sourceItem, stages, startedAt, error });
+}
+
+// ============================================================================
+// Report Building
+// ============================================================================
+
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+/**
+ * Split JSON-LD blocks out of the article body.
+ */
+export function extractSchemaBlocks(html: string): { html: string; schema: unknown[] } {
+    const schema: unknown[] = [];
+
+    const stripped = html.replace(JSON_LD_PATTERN, (_, json: string) => {
+        try {
+            schema.push(JSON.parse(json));
+        } catch {
+            // Keep malformed blocks out of the report but don't fail the preview
+        }
+        return '';
+    });
+
+    return { html: stripped.trim(), schema };
+}
+
+export function buildDryRunReport(
+    ctx: PipelineContext | null,
+    meta: {
+        campaign: Campaign;
+        sourceItem: SourceItem;
+        stages: Record<string, StageResult>;
+        startedAt: number;
+        error?: string;
+    }
+): DryRunReport {
+    const body = ctx?.content?.body || '';
+    const { html, schema } = extractSchemaBlocks(body);
+    const text = html.replace(/<[^>]+>/g, ' ');
+
+    return {
+        campaignId: meta.campaign.id,
+        topic: meta.sourceItem.topic,
+        status: meta.error || !ctx ? 'failed' : 'done',
+        error: meta.error ?? ctx?.error,
+        generatedAt: Date.now(),
+        durationMs: Date.now() - meta.startedAt,
+
+        content: ctx?.content ? {
+            title: ctx.content.title,
+            slug: ctx.content.slug,
+            excerpt: ctx.content.excerpt,
+            html,
+            wordCount: text.split(/\s+/).filter(Boolean).length,
+        } : undefined,
+        images: {
+            cover: ctx?.images?.cover,
+            inline: ctx?.images?.inline || [],
+            candidates: ctx?.allImageAssets?.length || 0,
+        },
+        schema,
+        author: ctx?.matchedAuthor,
+        qualityScore: ctx?.qualityScore,
+        compliance: ctx?.complianceReport,
+        needsManualReview: !!ctx?.needsManualReview,
+        multiFormat: ctx?.multiFormatOutput,
+        videoScript: ctx?.videoScript,
+
+        intents: ctx?.dryRunIntents || [],
+        stages: meta.stages,
+    };
+}
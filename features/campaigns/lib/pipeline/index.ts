@@ -13,13 +13,42 @@ export {
     getCheckpointInfo,
 } from './orchestrator';
 
+// Dry-run preview
+export {
+    previewPipeline,
+    buildDryRunReport,
+    extractSchemaBlocks,
+    type DryRunReport,
+} from './dryRun';
+
+// Composition (per-campaign pipeline definitions)
+export {
+    PIPELINE_PRESETS,
+    DEFAULT_RETRY_POLICY,
+    getDefaultPipelineDefinition,
+    getPipelineCatalog,
+    getStageOption,
+    setStageOption,
+    validatePipelineDefinition,
+    resolvePipeline,
+    countResolvedStages,
+    type PipelinePresetId,
+    type PipelineCatalogGroup,
+    type PipelineValidationResult,
+} from './composition';
+
 // Types
 export type {
     StageStatus,
     StageResult,
     PipelineStage,
+    StageOptions,
+    StageOptionField,
+    ResolvedStage,
+    ResolvedStageGroup,
     StageGroup,
     Checkpoint,
+    CheckpointStore,
     PipelineProgress,
     ProgressCallback,
     PipelineOptions,
@@ -32,6 +61,7 @@ export {
     clearCheckpoint,
     listCheckpoints,
     clearExpiredCheckpoints,
+    localCheckpointStore,
 } from './checkpoints';
 
 // Stages (for testing/customization)
@@ -4,8 +4,9 @@
  * 
  * Unified pipeline orchestration replacing both processor.ts and PipelineRunner.ts.
  * Features:
- * - Stage groups with parallel execution
- * - Checkpointing for resume capability
+ * - Stage groups with parallel execution, composed per campaign (see composition.ts)
+ * - Per-stage retry policy
+ * - Checkpointing for resume capability (pluggable store, durable on the server)
  * - Progress callbacks for UI integration
  * - Graceful fallback on optional stage failures
  * - **Automatic GlobalActionStatus integration**
@@ -13,8 +14,8 @@
 
 import type { Campaign, PipelineContext, SourceItem, CampaignRun } from '../../model/types';
 import type { WPSite } from '@/features/wordpress';
-import type { PipelineOptions, StageResult, PipelineProgress } from './types';
-import { allStages, getTotalStageCount } from './stages';
+import type { PipelineOptions, StageResult, PipelineProgress, CheckpointStore, ResolvedStage } from './types';
+import { resolvePipeline, countResolvedStages } from './composition';
 import { saveCheckpoint, loadCheckpoint, clearCheckpoint } from './checkpoints';
 import { useGlobalActionStatusStore } from '@/stores/globalActionStatusStore';
 import { log, logError } from '@/stores/unifiedLogStore';
@@ -35,11 +36,31 @@ export async function runPipeline(
     wpSite: WPSite,
     options?: PipelineOptions & { parentActionId?: string }
 ): Promise<PipelineContext> {
+    // Resolve the campaign's pipeline definition (throws if invalid, before any side effect)
+    let stageGroups;
+    try {
+        stageGroups = resolvePipeline(campaign);
+    } catch (error) {
+        logError('orchestrator', `Pipeline definition rejected for campaign: ${campaign.name}`, {
+            source: 'orchestrator',
+            rawMessage: error instanceof Error ? error.message : 'Invalid pipeline definition',
+            timestamp: Date.now(),
+        }, {
+            category: 'campaign',
+            campaignId: campaign.id,
+        });
+        throw error;
+    }
+
+    // Dry-run: side-effect stages record intents, nothing is checkpointed
+    const dryRun = !!options?.dryRun;
+
     // Initialize context
     const ctx: PipelineContext = {
         campaign,
         sourceItem,
         status: 'pending',
+        ...(dryRun ? { dryRun: true, dryRunIntents: [] } : {}),
     };
 
     // Get global status store for visibility
@@ -47,7 +68,7 @@ export async function runPipeline(
 
     // Start pipeline action (nested under parent if provided)
     const pipelineActionId = statusStore.startAction(
-        `Pipeline: ${sourceItem.topic.substring(0, 40)}...`,
+        `${dryRun ? 'Preview' : 'Pipeline'}: ${sourceItem.topic.substring(0, 40)}...`,
         'campaign',
         {
             source: 'orchestrator',
@@ -64,12 +85,14 @@ export async function runPipeline(
     });
 
     // Load checkpoint if resuming
-    const checkpoint = options?.resumeFromCheckpoint
-        ? loadCheckpoint(campaign.id, sourceItem.topic)
+    const checkpointStore = options?.checkpointStore;
+    const checkpoint = options?.resumeFromCheckpoint && !dryRun
+        ? loadCheckpoint(campaign.id, sourceItem.topic, checkpointStore)
         : null;
 
     if (checkpoint) {
-        console.log(`[Pipeline] Resuming from checkpoint: ${checkpoint.completedStages.length} stages done`);
+        console.log(`[Pipeline] Resuming from checkpoint: ${checkpoint.completedStages.length} stages done` +
+            (checkpoint.currentStage ? `, interrupted in ${checkpoint.currentStage}` : ''));
         // Restore context from checkpoint
         Object.assign(ctx, checkpoint.context);
         statusStore.addStep(pipelineActionId, `Resuming from checkpoint (${checkpoint.completedStages.length} stages complete)`, 'success');
@@ -80,12 +103,38 @@ export async function runPipeline(
         checkpoint?.stageData ? Object.entries(checkpoint.stageData) : []
     );
 
-    const totalStages = getTotalStageCount();
+    const totalStages = countResolvedStages(stageGroups);
     let processedStages = completedStages.size;
 
     // Helper to calculate progress percentage
     const getPercentage = () => Math.round((processedStages / totalStages) * 100);
 
+    // Helper to persist progress (currentStage marks where a crash would resume)
+    const persistCheckpoint = (currentStage?: string) => {
+        if (dryRun) return;
+        saveCheckpoint(campaign.id, sourceItem.topic, completedStages, stageResults, ctx, {
+            store: checkpointStore,
+            runId: options?.runId,
+            currentStage,
+        });
+    };
+
+    // Helper to record a stage result
+    const setStageResult = (stageId: string, result: StageResult) => {
+        stageResults.set(stageId, result);
+        options?.onStageResult?.(stageId, result);
+    };
+
+    // Helper to run a stage (or its dry-run replacement) with retries
+    const runStage = (stage: ResolvedStage) => executeWithRetry(stage, async () => {
+        if (dryRun && stage.dryRun) {
+            const intents = await stage.dryRun(ctx, campaign, wpSite, stage.options);
+            ctx.dryRunIntents!.push(...intents);
+            return;
+        }
+        await stage.execute(ctx, campaign, wpSite, stage.options);
+    });
+
     // Helper to emit progress
     const emitProgress = (phase: string, status: PipelineContext['status']) => {
         options?.onProgress?.({
@@ -103,7 +152,7 @@ export async function runPipeline(
         statusStore.setProgress(pipelineActionId, processedStages, totalStages);
 
         // Execute stage groups in order
-        for (const group of allStages) {
+        for (const group of stageGroups) {
             // Filter to pending stages in this group
             const pendingStages = group.stages.filter(s => !completedStages.has(s.id));
             if (pendingStages.length === 0) continue;
@@ -112,16 +161,18 @@ export async function runPipeline(
             emitProgress(group.name, group.runItemStatus);
 
             if (group.parallel) {
+                persistCheckpoint(group.id);
+
                 // Run applicable stages in parallel
                 const parallelPromises = pendingStages
-                    .filter(stage => !stage.condition || stage.condition(ctx, campaign))
+                    .filter(stage => !stage.condition || stage.condition(ctx, campaign, stage.options))
                     .map(async (stage) => {
                         const stepId = statusStore.addStep(pipelineActionId, `⏳ ${stage.name}...`, 'running');
                         const startTime = Date.now();
                         try {
-                            await stage.execute(ctx, campaign, wpSite);
+                            await runStage(stage);
                             completedStages.add(stage.id);
-                            stageResults.set(stage.id, {
+                            setStageResult(stage.id, {
                                 success: true,
                                 duration: Date.now() - startTime,
                             });
@@ -130,7 +181,7 @@ export async function runPipeline(
                             statusStore.setProgress(pipelineActionId, processedStages, totalStages);
                         } catch (err) {
                             const error = err instanceof Error ? err.message : 'Stage failed';
-                            stageResults.set(stage.id, {
+                            setStageResult(stage.id, {
                                 success: false,
                                 duration: Date.now() - startTime,
                                 error,
@@ -149,9 +200,9 @@ export async function runPipeline(
                 // Run stages sequentially
                 for (const stage of pendingStages) {
                     // Check condition
-                    if (stage.condition && !stage.condition(ctx, campaign)) {
+                    if (stage.condition && !stage.condition(ctx, campaign, stage.options)) {
                         completedStages.add(stage.id);
-                        stageResults.set(stage.id, {
+                        setStageResult(stage.id, {
                             success: true,
                             duration: 0,
                             data: 'skipped',
@@ -160,12 +211,13 @@ export async function runPipeline(
                         continue;
                     }
 
+                    persistCheckpoint(stage.id);
                     const stepId = statusStore.addStep(pipelineActionId, `⏳ ${stage.name}...`, 'running');
                     const startTime = Date.now();
                     try {
-                        await stage.execute(ctx, campaign, wpSite);
+                        await runStage(stage);
                         completedStages.add(stage.id);
-                        stageResults.set(stage.id, {
+                        setStageResult(stage.id, {
                             success: true,
                             duration: Date.now() - startTime,
                         });
@@ -174,10 +226,10 @@ export async function runPipeline(
                         statusStore.setProgress(pipelineActionId, processedStages, totalStages);
 
                         // Save checkpoint after each sequential stage
-                        saveCheckpoint(campaign.id, sourceItem.topic, completedStages, stageResults, ctx);
+                        persistCheckpoint();
                     } catch (err) {
                         const error = err instanceof Error ? err.message : 'Stage failed';
-                        stageResults.set(stage.id, {
+                        setStageResult(stage.id, {
                             success: false,
                             duration: Date.now() - startTime,
                             error,
@@ -196,7 +248,7 @@ export async function runPipeline(
             }
 
             // Save checkpoint after each group
-            saveCheckpoint(campaign.id, sourceItem.topic, completedStages, stageResults, ctx);
+            persistCheckpoint();
         }
 
         // Pipeline complete
@@ -204,7 +256,9 @@ export async function runPipeline(
         emitProgress('Complete', 'done');
 
         // Clear checkpoint on success
-        clearCheckpoint(campaign.id, sourceItem.topic);
+        if (!dryRun) {
+            clearCheckpoint(campaign.id, sourceItem.topic, checkpointStore);
+        }
 
         // Complete the pipeline action
         statusStore.completeAction(pipelineActionId, `✅ Pipeline complete for "${sourceItem.topic.substring(0, 30)}..."`);
@@ -238,10 +292,39 @@ export async function runPipeline(
             campaignId: campaign.id,
         });
 
+        // Keep the checkpoint so a retry resumes after the last completed stage
+        persistCheckpoint();
+
         throw error;
     }
 }
 
+// ============================================================================
+// Retry
+// ============================================================================
+
+/**
+ * Execute a stage according to its retry policy (exponential backoff).
+ */
+async function executeWithRetry(stage: ResolvedStage, run: () => Promise<void>): Promise<void> {
+    const { maxAttempts, backoffMs } = stage.retry;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await run();
+            return;
+        } catch (err) {
+            if (attempt >= maxAttempts) throw err;
+
+            const delay = backoffMs * 2 ** (attempt - 1);
+            console.warn(`[Pipeline] Stage ${stage.id} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms`);
+            if (delay > 0) {
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+}
+
 // ============================================================================
 // Run Factory (backward compatibility with processor.ts)
 // ============================================================================
@@ -269,19 +352,20 @@ export function createRun(campaignId: string): CampaignRun {
 /**
  * Check if a checkpoint exists for resuming.
  */
-export function hasCheckpoint(campaignId: string, itemId: string): boolean {
-    return loadCheckpoint(campaignId, itemId) !== null;
+export function hasCheckpoint(campaignId: string, itemId: string, store?: CheckpointStore): boolean {
+    return loadCheckpoint(campaignId, itemId, store) !== null;
 }
 
 /**
  * Get checkpoint info without loading full context.
  */
-export function getCheckpointInfo(campaignId: string, itemId: string) {
-    const checkpoint = loadCheckpoint(campaignId, itemId);
+export function getCheckpointInfo(campaignId: string, itemId: string, store?: CheckpointStore) {
+    const checkpoint = loadCheckpoint(campaignId, itemId, store);
     if (!checkpoint) return null;
 
     return {
         completedStages: checkpoint.completedStages,
+        currentStage: checkpoint.currentStage,
         updatedAt: checkpoint.updatedAt,
         canResume: true,
     };
@@ -0,0 +1,236 @@
+/**
+ * Run Queue Worker (server-only)
+ * FSD: features/campaigns/lib/pipeline/queueWorker.ts
+ *
+ * Drains the durable run queue from lib/db/pipelineRunStore.
+ * Each item is leased, run with server-side checkpoints and resumed at the
+ * stage it died in if a previous worker crashed. Not exported from the
+ * client barrel because it touches the filesystem.
+ */
+
+import type { Campaign, CampaignRun, PipelineContext, RunItem } from '../../model/types';
+import type { WPSite } from '@/features/wordpress';
+import { useWPSitesStore } from '@/features/wordpress/model/wpSiteStore';
+import { useCampaignStore } from '../../model/campaignStore';
+import { runPipeline } from './orchestrator';
+import {
+    fileCheckpointStore,
+    leaseNextRunItem,
+    renewRunItemLease,
+    completeRunItem,
+    failRunItem,
+    getRunRecord,
+    updateRunRecord,
+    upsertRunItem,
+    listRunQueue,
+    cancelQueuedRunItems,
+    DEFAULT_LEASE_MS,
+    DEFAULT_RETRY_BACKOFF_MS,
+    type RunQueueEntry,
+} from '@/lib/db/pipelineRunStore';
+import { log } from '@/stores/unifiedLogStore';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QueueWorkerOptions {
+    workerId?: string;
+    maxItems?: number;
+    leaseMs?: number;
+    /** Delay before a failed item may be leased again, doubled per attempt */
+    retryBackoffMs?: number;
+    getCampaign: (campaignId: string) => Campaign | undefined;
+    getSite: (siteId: string) => WPSite | undefined;
+    onItemComplete?: (entry: RunQueueEntry, ctx: PipelineContext) => void;
+    onItemFailed?: (entry: RunQueueEntry, error: string, willRetry: boolean) => void | Promise<void>;
+}
+
+export interface QueueWorkerResult {
+    processed: number;
+    succeeded: number;
+    failed: number;
+    resumed: number;
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+export async function processRunQueue(options: QueueWorkerOptions): Promise<QueueWorkerResult> {
+    const workerId = options.workerId || `worker_${process.pid}_${Date.now()}`;
+    const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    const retryBackoffMs = options.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS;
+    const maxItems = options.maxItems ?? Infinity;
+    const result: QueueWorkerResult = { processed: 0, succeeded: 0, failed: 0, resumed: 0 };
+    const touchedRuns = new Set<string>();
+
+    while (result.processed < maxItems) {
+        const entry = await leaseNextRunItem(workerId, leaseMs);
+        if (!entry) break;
+
+        result.processed++;
+        touchedRuns.add(entry.runId);
+        if (entry.attempts > 1) result.resumed++;
+
+        const campaign = options.getCampaign(entry.campaignId);
+        const wpSite = campaign ? options.getSite(campaign.targetSiteId) : undefined;
+
+        if (!campaign || !wpSite) {
+            const error = !campaign ? 'Campaign no longer exists' : 'WordPress site not found';
+            const failed = await failRunItem(entry.id, workerId, error, retryBackoffMs);
+            recordItem(entry, { status: 'failed', error, completedAt: Date.now() });
+            await options.onItemFailed?.(entry, error, failed?.status === 'queued');
+            result.failed++;
+            continue;
+        }
+
+        recordItem(entry, { status: 'pending' });
+
+        // Keep the lease alive while the pipeline runs
+        const heartbeat = setInterval(() => {
+            renewRunItemLease(entry.id, workerId, leaseMs).catch(error => {
+                console.warn(`[QueueWorker] Could not renew lease for ${entry.id}:`, error);
+            });
+        }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+        try {
+            const ctx = await runPipeline(campaign, entry.sourceItem, wpSite, {
+                resumeFromCheckpoint: true,
+                checkpointStore: fileCheckpointStore,
+                runId: entry.runId,
+                onStatusChange: (status) => recordItem(entry, { status }),
+            });
+
+            await completeRunItem(entry.id, workerId);
+            recordItem(entry, {
+                status: 'done',
+                title: ctx.content?.title,
+                wordCount: ctx.content?.body ? ctx.content.body.split(/\s+/).length : undefined,
+                wpPostId: ctx.wpResult?.postId,
+                wpPostUrl: ctx.wpResult?.postUrl,
+                completedAt: Date.now(),
+            });
+            options.onItemComplete?.(entry, ctx);
+            result.succeeded++;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const failed = await failRunItem(entry.id, workerId, message, retryBackoffMs);
+            const willRetry = failed?.status === 'queued';
+
+            recordItem(entry, {
+                status: willRetry ? 'pending' : 'failed',
+                error: message,
+                completedAt: willRetry ? undefined : Date.now(),
+            });
+            appendRunError(entry.runId, message);
+            await options.onItemFailed?.(entry, message, willRetry);
+            result.failed++;
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+
+    for (const runId of touchedRuns) {
+        finalizeRunIfDone(runId);
+    }
+
+    if (result.processed > 0) {
+        log('info', 'campaign', 'queueWorker', `Run queue drained: ${result.succeeded}/${result.processed} succeeded`, {
+            metadata: { workerId, ...result },
+        });
+    }
+
+    return result;
+}
+
+// ============================================================================
+// Store Bindings
+// ============================================================================
+
+/**
+ * Worker options backed by the campaign and site stores: item outcomes are
+ * mirrored into the campaign (counters, manual topic status) and a final
+ * failure pauses campaigns set to pause on error. Every route that drains
+ * the queue uses these so resumed items are accounted for the same way.
+ */
+export function storeQueueOptions(): Pick<QueueWorkerOptions, 'getCampaign' | 'getSite' | 'onItemComplete' | 'onItemFailed'> {
+    return {
+        getCampaign: (id) => useCampaignStore.getState().getCampaign(id),
+        getSite: (id) => useWPSitesStore.getState().getSite(id),
+        onItemComplete: (entry, ctx) => {
+            const store = useCampaignStore.getState();
+            store.incrementPublished(entry.campaignId);
+
+            if (entry.sourceItem.sourceType === 'manual') {
+                store.updateManualTopic(entry.campaignId, entry.sourceItem.id, {
+                    status: ctx.wpResult ? 'published' : 'generated',
+                    postId: ctx.wpResult?.postId,
+                    postUrl: ctx.wpResult?.postUrl,
+                });
+            }
+        },
+        onItemFailed: async (entry, error, willRetry) => {
+            if (willRetry) return;
+            const store = useCampaignStore.getState();
+            store.incrementFailed(entry.campaignId);
+            store.addErrorToRun(entry.runId, 'generate', error);
+
+            const campaign = store.getCampaign(entry.campaignId);
+            if (campaign?.schedule.pauseOnError) {
+                store.pauseCampaign(entry.campaignId);
+                await cancelQueuedRunItems(entry.campaignId, 'Campaign paused on error');
+            }
+        },
+    };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordItem(entry: RunQueueEntry, updates: Partial<RunItem>): void {
+    const run = getRunRecord(entry.runId);
+    const existing = run?.items.find(i => i.id === entry.sourceItem.id);
+
+    upsertRunItem(entry.runId, {
+        id: entry.sourceItem.id,
+        topic: entry.sourceItem.topic,
+        status: 'pending',
+        selectionReason: entry.sourceItem.metadata?.selectionReason as string | undefined,
+        startedAt: Date.now(),
+        ...existing,
+        ...updates,
+    });
+}
+
+function appendRunError(runId: string, message: string): void {
+    const run = getRunRecord(runId);
+    if (!run) return;
+
+    updateRunRecord(runId, {
+        errors: [...run.errors, { stage: 'generate', message, timestamp: Date.now() }],
+    });
+}
+
+/**
+ * Close a run once none of its queue entries are waiting or leased.
+ */
+function finalizeRunIfDone(runId: string): void {
+    const run = getRunRecord(runId);
+    if (!run || run.status !== 'running') return;
+
+    const entries = listRunQueue().filter(e => e.runId === runId);
+    if (entries.some(e => e.status === 'queued' || e.status === 'leased')) return;
+
+    const done = entries.filter(e => e.status === 'completed').length;
+    const status: CampaignRun['status'] =
+        done === entries.length ? 'completed' : done === 0 ? 'failed' : 'partial';
+
+    updateRunRecord(runId, {
+        status,
+        completedAt: Date.now(),
+        postsGenerated: done,
+        postsPublished: run.items.filter(i => i.wpPostId).length,
+    });
+}
@@ -2,10 +2,22 @@
  * Stage 01: Validation
  * FSD: features/campaigns/lib/pipeline/stages/01-validation.ts
  * 
- * Deduplication check to prevent duplicate content.
+ * Deduplication check to prevent duplicate content: exact/similar topics
+ * from campaign history, then near-duplicates of posts already on the site.
  */
 
-import type { StageGroup } from '../types';
+import type { StageGroup, StageOptionField } from '../types';
+import type { DedupThresholds } from '../../semanticDedup';
+
+/**
+ * Similarity above which a post counts as a duplicate (semanticDedup defaults apply when unset)
+ */
+export const DEDUP_THRESHOLD_FIELDS: StageOptionField[] = [
+    { key: 'thresholds.title', label: 'Title similarity', type: 'number', min: 0, max: 1, step: 0.05 },
+    { key: 'thresholds.body', label: 'Body similarity', type: 'number', min: 0, max: 1, step: 0.05 },
+    { key: 'thresholds.simHash', label: 'SimHash similarity', type: 'number', min: 0, max: 1, step: 0.01 },
+    { key: 'thresholds.embedding', label: 'Embedding similarity', type: 'number', min: 0, max: 1, step: 0.01 },
+];
 
 export const validationStages: StageGroup = {
     id: 'validation',
@@ -17,7 +29,8 @@ export const validationStages: StageGroup = {
             id: 'dedup',
             name: 'Deduplication Check',
             optional: false,
-            execute: async (ctx, campaign) => {
+            optionFields: DEDUP_THRESHOLD_FIELDS,
+            execute: async (ctx, campaign, wpSite, options) => {
                 const { shouldSkipTopic } = await import('../../deduplication');
                 const result = shouldSkipTopic(
                     ctx.sourceItem.topic,
@@ -27,6 +40,23 @@ export const validationStages: StageGroup = {
                 if (result.skip) {
                     throw new Error(result.reason || 'Duplicate content detected');
                 }
+
+                const { findNearestDuplicate } = await import('../../semanticDedup');
+                const report = await findNearestDuplicate({ title: ctx.sourceItem.topic }, wpSite, {
+                    siteId: campaign.targetSiteId,
+                    thresholds: options?.thresholds as Partial<DedupThresholds> | undefined,
+                });
+                ctx.dedupReport = report;
+
+                const nearest = report.nearest;
+                if (nearest) {
+                    console.log(`[Pipeline] Nearest existing post: "${nearest.title}" (${Math.round(nearest.score * 100)}% ${nearest.method}, ${report.checked} checked)`);
+                }
+                if (report.duplicate && nearest) {
+                    throw new Error(
+                        `Near-duplicate of "${nearest.title}" (${Math.round(nearest.score * 100)}% ${nearest.method} similarity)${nearest.url ? ` - ${nearest.url}` : ''}`
+                    );
+                }
             },
         },
     ],
@@ -20,7 +20,7 @@ export const enrichmentStages: StageGroup = {
             condition: (_, campaign) => !!campaign.aiConfig.useResearch,
             execute: async (ctx, campaign) => {
                 const { performResearchRich } = await import('../../researchService');
-                const result = await performResearchRich(ctx.sourceItem.topic, campaign.aiConfig);
+                const result = await performResearchRich(ctx.sourceItem.topic, campaign.aiConfig, { campaignId: campaign.id });
 
                 if (!result.success) {
                     throw new Error(result.error || 'Research failed');
@@ -19,9 +19,23 @@ export const generationStages: StageGroup = {
             optional: false,
             execute: async (ctx, campaign) => {
                 const { generateContent } = await import('../../contentGenerator');
+
+                // Cluster plan items carry their own article type and length
+                const plan = ctx.sourceItem.metadata;
+                const effectiveCampaign = plan?.role
+                    ? {
+                        ...campaign,
+                        aiConfig: {
+                            ...campaign.aiConfig,
+                            articleType: plan.role === 'pillar' ? 'pillar' as const : 'cluster' as const,
+                            targetLength: Number(plan.targetWordCount) || campaign.aiConfig.targetLength,
+                        },
+                    }
+                    : campaign;
+
                 ctx.content = await generateContent(
                     ctx.sourceItem,
-                    campaign,
+                    effectiveCampaign,
                     { research: ctx.research }
                 );
                 console.log(`[Pipeline] Content generated: ${ctx.content.title}`);
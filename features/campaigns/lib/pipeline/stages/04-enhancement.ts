@@ -61,17 +61,20 @@ export const enhancementStages: StageGroup = {
                 // Store ALL collected assets for MediaAssetLibrary (A/B testing, refresh)
                 ctx.allImageAssets = result.allAssets;
 
-                // Persist to MediaAssetLibrary for future use (A/B testing, refresh, etc.)
-                const { persistPipelineAssets } = await import('../../mediaAssetLibrary');
-                await persistPipelineAssets(
-                    campaign.id,
-                    ctx.content!.title,
-                    result.allAssets,
-                    result.cover,
-                    result.inline
-                );
+                // Persist to MediaAssetLibrary for future use (A/B testing, refresh, etc.).
+                // A preview keeps the images on the context only.
+                if (!ctx.dryRun) {
+                    const { persistPipelineAssets } = await import('../../mediaAssetLibrary');
+                    await persistPipelineAssets(
+                        campaign.id,
+                        ctx.content!.title,
+                        result.allAssets,
+                        result.cover,
+                        result.inline
+                    );
+                }
 
-                console.log(`[Pipeline] Images: ${result.metadata.totalCollected} collected from ${Object.keys(result.metadata.sourceCounts).join('+')}, AI=${result.metadata.aiSuccess}, Search=${result.metadata.searchSuccess}, persisted to MediaAssetLibrary`);
+                console.log(`[Pipeline] Images: ${result.metadata.totalCollected} collected from ${Object.keys(result.metadata.sourceCounts).join('+')}, AI=${result.metadata.aiSuccess}, Search=${result.metadata.searchSuccess}${ctx.dryRun ? '' : ', persisted to MediaAssetLibrary'}`);
             },
         },
         {
@@ -79,9 +82,18 @@ export const enhancementStages: StageGroup = {
             name: 'Internal Linking',
             optional: true,
             condition: (ctx, campaign) => !!campaign.aiConfig.optimizeForSEO && !!ctx.content,
-            execute: async (ctx, _, wpSite) => {
+            execute: async (ctx, campaign, wpSite) => {
                 const { fetchExistingPosts, findLinkOpportunities, injectInternalLinks } =
                     await import('../../internalLinking');
+                const { resolvePlannedLinks, injectPlannedLinks } = await import('../../clusterPlanner');
+
+                // Cluster plan links (pillar, neighbouring spokes) come first
+                const planned = resolvePlannedLinks(campaign, ctx.sourceItem);
+                if (planned.length > 0) {
+                    const result = injectPlannedLinks(ctx.content!.body, planned);
+                    ctx.content!.body = result.content;
+                    console.log(`[Pipeline] Added ${result.linksAdded} planned cluster links`);
+                }
 
                 const existingPosts = await fetchExistingPosts(wpSite);
                 if (existingPosts.length > 0) {
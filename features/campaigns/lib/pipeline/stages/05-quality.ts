@@ -2,17 +2,39 @@
  * Stage 05: Quality Gate
  * FSD: features/campaigns/lib/pipeline/stages/05-quality.ts
  * 
- * Sequential quality scoring and smart review gate.
+ * Claim-level fact check first (it edits the body, so scoring sees the
+ * repaired article), then sequential quality scoring and smart review gate,
+ * then a near-duplicate body check. Near-duplicates are held for manual review
+ * (after smart review, so an auto-approval cannot clear the flag).
  */
 
 import type { StageGroup } from '../types';
+import type { DedupThresholds } from '../../semanticDedup';
+import { DEDUP_THRESHOLD_FIELDS } from './01-validation';
 
 export const qualityStages: StageGroup = {
     id: 'quality',
     name: 'Quality Gate',
-    parallel: false,  // Must be sequential: score -> review
+    parallel: false,  // Must be sequential: fact check -> score -> review -> dedup
     runItemStatus: 'generating',
     stages: [
+        {
+            id: 'fact_check',
+            name: 'Claim Fact Check',
+            optional: true,
+            condition: (ctx, campaign) => !!campaign.aiConfig.factCheckClaims && !!ctx.content && !!ctx.research,
+            execute: async (ctx, campaign) => {
+                const { runClaimFactCheck } = await import('../../factCheckStage');
+
+                const report = await runClaimFactCheck(ctx, campaign);
+                if (!report) return;
+
+                console.log(`[Pipeline] Fact check: ${report.supported} supported, ${report.contradicted} contradicted, ${report.unverifiable} unverifiable (${report.citationsAdded} citations added)`);
+                if (report.removed > 0) {
+                    console.warn(`[Pipeline] Removed ${report.removed} contradicted claim(s) that could not be rewritten`);
+                }
+            },
+        },
         {
             id: 'quality_score',
             name: 'Quality Scoring',
@@ -55,6 +77,54 @@ export const qualityStages: StageGroup = {
                     console.log('[Pipeline] Content requires manual review');
                 }
             },
+            // Same decision as execute(), so publish_wp previews the real post status;
+            // only the review queue write is skipped
+            dryRun: async (ctx, campaign) => {
+                const { processSmartReview } = await import('../../qualityScoreStage');
+
+                const decision = await processSmartReview(ctx, campaign, { dryRun: true });
+                if (decision.action === 'retry') {
+                    throw new Error(`Quality too low: ${decision.reasons.join(', ')}`);
+                }
+
+                const status = ctx.needsManualReview ? 'draft' : campaign.postStatus;
+                return [{
+                    stageId: 'smart_review',
+                    action: 'create_review_item',
+                    target: 'editorial review queue',
+                    summary: `Submit "${ctx.content?.title}" for smart review: ${decision.action} (${decision.confidence}%), post as ${status}`,
+                    payload: {
+                        decision: decision.action,
+                        confidence: decision.confidence,
+                        reasons: decision.reasons,
+                        needsManualReview: !!ctx.needsManualReview,
+                        postStatus: status,
+                    },
+                }];
+            },
+        },
+        {
+            id: 'dedup_content',
+            name: 'Near-Duplicate Content Check',
+            optional: true,
+            optionFields: DEDUP_THRESHOLD_FIELDS,
+            condition: (ctx) => !!ctx.content?.body,
+            execute: async (ctx, campaign, wpSite, options) => {
+                const { findNearestDuplicate } = await import('../../semanticDedup');
+                const report = await findNearestDuplicate(
+                    { title: ctx.content!.title, body: ctx.content!.body },
+                    wpSite,
+                    { siteId: campaign.targetSiteId, thresholds: options?.thresholds as Partial<DedupThresholds> | undefined }
+                );
+                ctx.dedupReport = report;
+
+                // The article is already paid for - hold it as a draft instead of failing the item
+                const nearest = report.nearest;
+                if (report.duplicate && nearest) {
+                    ctx.needsManualReview = true;
+                    console.warn(`[Pipeline] Near-duplicate of "${nearest.title}" (${Math.round(nearest.score * 100)}% ${nearest.method}) - requires manual review`);
+                }
+            },
         },
     ],
 };
@@ -17,12 +17,17 @@ export const optimizationStages: StageGroup = {
             id: 'spinner',
             name: 'Content Spinning',
             optional: true,
+            optionFields: [
+                { key: 'mode', label: 'Spinning mode', type: 'select', choices: ['light', 'moderate', 'heavy'] },
+            ],
             condition: (ctx, campaign) => !!campaign.aiConfig.enableSpinner && !!ctx.content,
-            execute: async (ctx, campaign) => {
+            execute: async (ctx, campaign, _wpSite, options) => {
                 const { spinContent } = await import('../../contentSpinner');
+                const mode = (options?.mode as 'light' | 'moderate' | 'heavy' | undefined)
+                    || campaign.aiConfig.spinnerMode || 'moderate';
                 const result = await spinContent(
                     ctx.content!.body,
-                    { mode: campaign.aiConfig.spinnerMode || 'moderate' },
+                    { mode },
                     campaign.aiConfig
                 );
                 if (result.success) {
@@ -2,10 +2,11 @@
  * Stage 07: Publish
  * FSD: features/campaigns/lib/pipeline/stages/07-publish.ts
  * 
- * Sequential publishing: WordPress publish, dedup record, multi-site.
+ * Sequential publishing: WordPress publish, dedup record, backlinks, multi-site.
  */
 
 import type { StageGroup } from '../types';
+import type { BacklinkOptions } from '../../linkGraph';
 
 export const publishStages: StageGroup = {
     id: 'publish',
@@ -17,6 +18,7 @@ export const publishStages: StageGroup = {
             id: 'publish_wp',
             name: 'WordPress Publishing',
             optional: false,
+            retryable: false,
             execute: async (ctx, campaign, wpSite) => {
                 const { publishToWordPress } = await import('../../wpPublisher');
 
@@ -26,6 +28,36 @@ export const publishStages: StageGroup = {
                     : campaign;
 
                 ctx.wpResult = await publishToWordPress(wpSite, effectiveCampaign, ctx);
+                ctx.publishedUrl = ctx.wpResult.postUrl;
+
+                // Link the review item to its post so performance can be learned from.
+                // The performance-learning cron reads the server copy, so store the
+                // item there first (a no-op once it was synced) and record the link.
+                if (ctx.reviewItemId) {
+                    const { useReviewStore } = await import('@/features/editorial');
+                    const publication = { postId: ctx.wpResult.postId, url: ctx.wpResult.postUrl, publishedAt: Date.now() };
+                    const store = useReviewStore.getState();
+                    store.updateReviewItem(ctx.reviewItemId, {
+                        publishedPostId: publication.postId,
+                        publishedUrl: publication.url,
+                        publishedAt: publication.publishedAt,
+                    });
+
+                    const item = store.getReviewItem(ctx.reviewItemId);
+                    try {
+                        if (typeof window === 'undefined') {
+                            const { importReviewItem, recordReviewPublication } = await import('@/features/editorial/lib/reviewService');
+                            if (item) importReviewItem(item);
+                            recordReviewPublication(ctx.reviewItemId, publication);
+                        } else {
+                            const { pushReviewItems, recordReviewPublication } = await import('@/features/editorial/lib/reviewApi');
+                            if (item) await pushReviewItems([item]);
+                            await recordReviewPublication(ctx.reviewItemId, publication);
+                        }
+                    } catch (error) {
+                        console.warn('[Pipeline] Could not record publication on the review:', error);
+                    }
+                }
 
                 if (ctx.needsManualReview) {
                     console.log(`[Pipeline] Published as DRAFT for manual review`);
@@ -33,6 +65,26 @@ export const publishStages: StageGroup = {
                     console.log(`[Pipeline] Published: ${ctx.wpResult.postUrl}`);
                 }
             },
+            dryRun: (ctx, campaign, wpSite) => {
+                const slug = ctx.content?.slug || '';
+                // Predicted permalink so downstream preview stages (syndication) can run
+                ctx.publishedUrl = `${wpSite.url.replace(/\/$/, '')}/${slug}/`;
+
+                return [{
+                    stageId: 'publish_wp',
+                    action: 'publish_post',
+                    target: wpSite.url,
+                    summary: `Create ${ctx.needsManualReview ? 'draft' : campaign.postStatus} post "${ctx.content?.title}"`,
+                    payload: {
+                        title: ctx.content?.title,
+                        slug,
+                        status: ctx.needsManualReview ? 'draft' : campaign.postStatus,
+                        categoryId: campaign.targetCategoryId,
+                        authorId: campaign.targetAuthorId,
+                        featuredImage: ctx.images?.cover?.url,
+                    },
+                }];
+            },
         },
         {
             id: 'record_dedup',
@@ -40,6 +92,7 @@ export const publishStages: StageGroup = {
             optional: false,
             execute: async (ctx, campaign) => {
                 const { recordGeneratedPost } = await import('../../deduplication');
+                const { fingerprintText } = await import('../../semanticDedup');
                 if (ctx.content && ctx.wpResult) {
                     recordGeneratedPost(
                         campaign.id,
@@ -48,16 +101,68 @@ export const publishStages: StageGroup = {
                         ctx.content.title,
                         ctx.content.slug,
                         ctx.wpResult.postId,
-                        ctx.wpResult.postUrl
+                        ctx.wpResult.postUrl,
+                        fingerprintText(ctx.content.body, 'body')
                     );
                     console.log('[Pipeline] Post recorded for deduplication');
+
+                    // Freshness tracking drives later refreshes (see contentRefresh)
+                    const { trackContent } = await import('@/lib/seo/contentFreshnessManager');
+                    const { freshnessContentId } = await import('../../contentRefresh');
+                    trackContent(
+                        freshnessContentId(campaign.targetSiteId, ctx.wpResult.postId),
+                        ctx.content.title,
+                        new Date(),
+                        { url: ctx.wpResult.postUrl }
+                    );
                 }
             },
+            dryRun: (ctx) => [{
+                stageId: 'record_dedup',
+                action: 'record_post',
+                target: 'deduplication store',
+                summary: `Record "${ctx.sourceItem.topic}" as generated`,
+            }],
+        },
+        {
+            id: 'backlinks',
+            name: 'Backlinks From Existing Posts',
+            optional: true,
+            optionFields: [
+                { key: 'maxLinks', label: 'Backlinks per post', type: 'number', min: 0, max: 20, step: 1 },
+                { key: 'maxAnchorRepeats', label: 'Max anchor repeats', type: 'number', min: 1, max: 10, step: 1 },
+                { key: 'maxExactMatch', label: 'Max exact-match anchors', type: 'number', min: 0, max: 10, step: 1 },
+                { key: 'maxSourceOutbound', label: 'Max outbound links on source', type: 'number', min: 1, max: 500, step: 1 },
+            ],
+            // Drafts are not public yet - links to them would 404. A preview has no
+            // post yet; it reports the backlinks the publish would add.
+            condition: (ctx, campaign) =>
+                !!campaign.aiConfig.optimizeForSEO && (!!ctx.wpResult || !!ctx.dryRun) && !ctx.needsManualReview,
+            execute: async (ctx, _, wpSite, options) => {
+                const { rebalanceLinksToPost } = await import('../../linkGraph');
+
+                const { graph, proposals, result } = await rebalanceLinksToPost(
+                    wpSite,
+                    ctx.wpResult!.postId,
+                    options as Partial<BacklinkOptions> | undefined
+                );
+                console.log(`[Pipeline] Backlinks: ${result?.applied.length ?? 0}/${proposals.length} added (${graph.orphans.length} orphan posts on site)`);
+                if (result?.failed.length) {
+                    console.warn(`[Pipeline] Backlink failures: ${result.failed.map(f => `${f.proposal.sourceTitle}: ${f.error}`).join(', ')}`);
+                }
+            },
+            dryRun: (ctx, _, wpSite) => [{
+                stageId: 'backlinks',
+                action: 'update_posts',
+                target: wpSite.url,
+                summary: `Add links from existing posts to "${ctx.content?.title}"`,
+            }],
         },
         {
             id: 'multisite',
             name: 'Multi-Site Publishing',
             optional: true,
+            retryable: false,
             condition: (_, campaign) =>
                 !!campaign.aiConfig.enableMultiSite &&
                 (campaign.aiConfig.additionalSiteIds?.length || 0) > 0,
@@ -104,6 +209,13 @@ export const publishStages: StageGroup = {
                 // Store report in context for run history
                 ctx.multiSiteReport = report;
             },
+            dryRun: (ctx, campaign) => (campaign.aiConfig.additionalSiteIds || []).map(siteId => ({
+                stageId: 'multisite',
+                action: 'publish_post',
+                target: siteId,
+                summary: `Publish ${campaign.aiConfig.enableSpinner ? 'spun copy' : 'copy'} of "${ctx.content?.title}"`,
+                payload: { staggerMinutes: campaign.aiConfig.multiSiteStaggerMinutes || 0 },
+            })),
         },
         {
             id: 'analytics',
@@ -149,6 +261,12 @@ export const publishStages: StageGroup = {
                     }
                 }
             },
+            dryRun: (ctx) => [{
+                stageId: 'analytics',
+                action: 'track_event',
+                target: 'GA4',
+                summary: `Send post_published event for "${ctx.content?.title}"`,
+            }],
         },
         {
             id: 'ab_testing',
@@ -160,6 +278,7 @@ export const publishStages: StageGroup = {
                 const {
                     createComprehensiveABTest,
                     generateContentRespinVariants,
+                    saveExperiment,
                 } = await import('../../abTesting');
 
                 // Build A/B test config from campaign settings
@@ -218,6 +337,17 @@ export const publishStages: StageGroup = {
                     }
                 }
 
+                if (test.variants.length < 2) {
+                    console.log('[Pipeline] A/B test skipped: fewer than two variants');
+                    return;
+                }
+
+                // Persist server-side so assignment and webhook events can reach it
+                test.siteUrl = wpSite.url;
+                test.autoApply = campaign.aiConfig.abTestAutoApply ?? true;
+                test.evaluation = { method: campaign.aiConfig.abTestMethod || 'bayesian' };
+                await saveExperiment(test);
+
                 // Store test ID in context for tracking
                 ctx.abTestId = test.id;
 
@@ -229,6 +359,19 @@ export const publishStages: StageGroup = {
 
                 console.log(`[Pipeline] A/B Test created: ${test.id}`, variantCounts);
             },
+            dryRun: (ctx, campaign) => [{
+                stageId: 'ab_testing',
+                action: 'create_ab_test',
+                target: '/api/ab-tests',
+                summary: `Create A/B test for "${ctx.content?.title}"`,
+                payload: {
+                    testTitles: campaign.aiConfig.abTestTitles ?? true,
+                    testCovers: campaign.aiConfig.abTestCovers ?? false,
+                    testRespins: campaign.aiConfig.abTestRespins ?? false,
+                    method: campaign.aiConfig.abTestMethod || 'bayesian',
+                    autoApply: campaign.aiConfig.abTestAutoApply ?? true,
+                },
+            }],
         },
     ],
 };
@@ -18,6 +18,7 @@ export const syndicationStages: StageGroup = {
             id: 'newsletter_publish',
             name: 'Newsletter Publishing',
             optional: true,
+            retryable: false,
             condition: (ctx, campaign) =>
                 !!campaign.aiConfig.enableNewsletterPublish &&
                 !!ctx.publishedUrl &&
@@ -56,11 +57,29 @@ export const syndicationStages: StageGroup = {
                     console.warn(`[Pipeline] Newsletter failed: ${result.error}`);
                 }
             },
+            dryRun: async (ctx) => {
+                const { useSettingsStore } = await import('@/stores/settingsStore');
+                const config = useSettingsStore.getState().newsletterConfig;
+                const newsletterContent = ctx.multiFormatOutput?.newsletter;
+
+                return [{
+                    stageId: 'newsletter_publish',
+                    action: 'send_newsletter',
+                    target: config?.provider || 'newsletter (not configured)',
+                    summary: `Send "${newsletterContent?.subject || ctx.content!.title}"`,
+                    payload: {
+                        listId: config?.listId,
+                        subject: newsletterContent?.subject || ctx.content!.title,
+                        previewText: newsletterContent?.preview || ctx.content!.excerpt,
+                    },
+                }];
+            },
         },
         {
             id: 'platform_syndication',
             name: 'Platform Syndication',
             optional: true,
+            retryable: false,
             condition: (ctx, campaign) =>
                 !!campaign.aiConfig.enableSyndication &&
                 !!ctx.publishedUrl &&
@@ -118,6 +137,18 @@ export const syndicationStages: StageGroup = {
                     }
                 }
             },
+            dryRun: (ctx, campaign) => {
+                const delay = campaign.aiConfig.syndicationDelay || 0;
+                return (campaign.aiConfig.syndicationPlatforms || []).map(platform => ({
+                    stageId: 'platform_syndication',
+                    action: 'syndicate_post',
+                    target: platform,
+                    summary: delay > 0
+                        ? `Syndicate "${ctx.content!.title}" in ${delay} day(s)`
+                        : `Syndicate "${ctx.content!.title}"`,
+                    payload: { canonicalUrl: ctx.publishedUrl, delayDays: delay },
+                }));
+            },
         },
     ],
 };
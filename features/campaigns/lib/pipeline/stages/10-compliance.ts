@@ -32,6 +32,13 @@ export const complianceStages: StageGroup = {
                     minWordCount: 500,
                 });
 
+                ctx.complianceReport = {
+                    ...ctx.complianceReport,
+                    score: result.score,
+                    isCompliant: result.isCompliant,
+                    issues: result.issues.map(({ severity, category, description }) => ({ severity, category, description })),
+                };
+
                 // Log issues
                 if (result.issues.length > 0) {
                     console.log(`[Pipeline] Found ${result.issues.length} compliance issue(s):`);
@@ -82,6 +89,12 @@ export const complianceStages: StageGroup = {
                 const { prePublishCheck } = await import('../../adsenseCompliance');
 
                 const check = prePublishCheck(ctx.content!.body);
+                ctx.complianceReport = {
+                    score: ctx.complianceReport?.score ?? check.score,
+                    isCompliant: ctx.complianceReport?.isCompliant ?? check.ready,
+                    issues: ctx.complianceReport?.issues ?? [],
+                    prePublish: check,
+                };
 
                 if (!check.ready) {
                     console.warn('[Pipeline] Pre-publish check failed:', check.blockers);
@@ -5,7 +5,7 @@
  * Type definitions for the unified campaign pipeline.
  */
 
-import type { Campaign, PipelineContext, RunItem } from '../../model/types';
+import type { Campaign, DryRunIntent, PipelineContext, RunItem, StageRetryPolicy } from '../../model/types';
 import type { WPSite } from '@/features/wordpress';
 
 // ============================================================================
@@ -21,12 +21,43 @@ export interface StageResult {
     data?: unknown;
 }
 
+/** Per-stage options from the campaign's PipelineDefinition */
+export type StageOptions = Record<string, unknown>;
+
+/**
+ * An option the pipeline editor lets a campaign set. Unset options fall
+ * back to the stage's own default.
+ */
+export interface StageOptionField {
+    key: string;                        // Dot path into StageOptions ('thresholds.title')
+    label: string;
+    type: 'number' | 'select';
+    min?: number;
+    max?: number;
+    step?: number;
+    choices?: string[];                 // For 'select'
+}
+
 export interface PipelineStage {
     id: string;
     name: string;
     optional: boolean;
-    condition?: (ctx: PipelineContext, campaign: Campaign) => boolean;
-    execute: (ctx: PipelineContext, campaign: Campaign, wpSite: WPSite) => Promise<void>;
+    /**
+     * False for stages whose side effects are not idempotent (creating a post,
+     * sending a newsletter). They run once regardless of the retry policy, so a
+     * timeout after the remote write can't produce a duplicate.
+     */
+    retryable?: boolean;
+    /** Options editable per campaign, passed to condition/execute/dryRun */
+    optionFields?: StageOptionField[];
+    condition?: (ctx: PipelineContext, campaign: Campaign, options?: StageOptions) => boolean;
+    execute: (ctx: PipelineContext, campaign: Campaign, wpSite: WPSite, options?: StageOptions) => Promise<void>;
+    /**
+     * Replacement for execute() in dry-run mode. Stages with external side
+     * effects (publishing, sending, syndicating) must implement it and return
+     * what they would have done; stages without it run normally.
+     */
+    dryRun?: (ctx: PipelineContext, campaign: Campaign, wpSite: WPSite, options?: StageOptions) => DryRunIntent[] | Promise<DryRunIntent[]>;
 }
 
 export interface StageGroup {
@@ -37,6 +68,18 @@ export interface StageGroup {
     stages: PipelineStage[];
 }
 
+/**
+ * A stage after the campaign's PipelineDefinition has been applied.
+ */
+export interface ResolvedStage extends PipelineStage {
+    options?: StageOptions;
+    retry: StageRetryPolicy;
+}
+
+export interface ResolvedStageGroup extends Omit<StageGroup, 'stages'> {
+    stages: ResolvedStage[];
+}
+
 // ============================================================================
 // Checkpoint Types
 // ============================================================================
@@ -46,12 +89,24 @@ export interface Checkpoint {
     campaignId: string;
     itemId: string;
     completedStages: string[];
+    currentStage?: string;              // Stage that was executing when the checkpoint was written
     stageData: Record<string, StageResult>;
     context: Partial<PipelineContext>;
     createdAt: number;
     updatedAt: number;
 }
 
+/**
+ * Storage backend for checkpoints.
+ * The default backend uses localStorage; server routes pass a durable one.
+ */
+export interface CheckpointStore {
+    save: (checkpoint: Checkpoint) => void;
+    load: (campaignId: string, itemId: string) => Checkpoint | null;
+    clear: (campaignId: string, itemId: string) => void;
+    list: () => Checkpoint[];
+}
+
 // ============================================================================
 // Progress Types
 // ============================================================================
@@ -75,4 +130,8 @@ export interface PipelineOptions {
     onProgress?: ProgressCallback;
     onStatusChange?: (status: RunItem['status']) => void;
     resumeFromCheckpoint?: boolean;
+    checkpointStore?: CheckpointStore;  // Defaults to localStorage
+    runId?: string;                     // Run this item belongs to (recorded on checkpoints)
+    dryRun?: boolean;                   // Record side effects as intents instead of performing them
+    onStageResult?: (stageId: string, result: StageResult) => void;
 }
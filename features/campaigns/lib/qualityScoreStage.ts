@@ -9,10 +9,13 @@
 import type { Campaign, PipelineContext } from '../model/types';
 import { calculateEEATScore, quickFactCheckScore } from '@/lib/contentQuality';
 import {
+    buildReviewItem,
     makeAutoReviewDecision,
     recordReviewFeedback,
+    getPromptImprovements,
     type ReviewItem,
     type CreateReviewInput,
+    type GenerationSnapshot,
 } from '@/features/editorial';
 import { useReviewStore } from '@/features/editorial';
 
@@ -119,6 +122,33 @@ export function applyQualityScoreToContext(
 /**
  * Create review item from pipeline context
  */
+/**
+ * Generation settings and learned prompt additions behind a post, kept on the
+ * review item so published performance can be traced back to them
+ */
+export function snapshotGeneration(aiConfig: Campaign['aiConfig']): GenerationSnapshot {
+    const settings: GenerationSnapshot['settings'] = {};
+    const tracked = {
+        provider: aiConfig.provider,
+        model: aiConfig.model,
+        articleType: aiConfig.articleType,
+        tone: aiConfig.tone,
+        targetLength: aiConfig.targetLength,
+        useResearch: aiConfig.useResearch,
+        includeImages: aiConfig.includeImages,
+        includeFAQ: aiConfig.includeFAQ,
+        injectEEATSignals: aiConfig.injectEEATSignals,
+        humanize: aiConfig.humanize,
+        optimizeReadability: aiConfig.optimizeReadability,
+        factCheckClaims: aiConfig.factCheckClaims,
+    };
+    for (const [key, value] of Object.entries(tracked)) {
+        if (value !== undefined) settings[key] = value;
+    }
+
+    return { settings, promptAdditions: getPromptImprovements() };
+}
+
 export function createReviewItemFromContext(ctx: PipelineContext): CreateReviewInput {
     const qualityScore = ctx.qualityScore;
 
@@ -130,6 +160,8 @@ export function createReviewItemFromContext(ctx: PipelineContext): CreateReviewI
         topic: ctx.sourceItem.topic,
         authorId: ctx.matchedAuthor?.id,
         authorName: ctx.matchedAuthor?.name,
+        claimChecks: ctx.factCheckReport,
+        generation: snapshotGeneration(ctx.campaign.aiConfig),
     };
 }
 
@@ -140,10 +172,14 @@ export function createReviewItemFromContext(ctx: PipelineContext): CreateReviewI
  * - approve: Auto-approved, publish normally
  * - flag: Below threshold but acceptable, publish and flag for learning
  * - retry: Very low quality, trigger regeneration
+ *
+ * With dryRun the item is scored and decided the same way but never added
+ * to the review queue, so a preview can show the resulting post status.
  */
 export async function processSmartReview(
     ctx: PipelineContext,
-    campaign: Campaign
+    campaign: Campaign,
+    options: { dryRun?: boolean } = {}
 ): Promise<ReviewDecisionResult> {
     if (!ctx.content) {
         return {
@@ -159,19 +195,25 @@ export async function processSmartReview(
 
     // Get store and create review item
     const store = useReviewStore.getState();
-    const reviewItem = store.createReviewItem(reviewInput);
+    const reviewItem = options.dryRun
+        ? buildReviewItem(reviewInput, store.policy)
+        : store.createReviewItem(reviewInput);
 
     // Make smart decision
     const decision = makeAutoReviewDecision(reviewItem);
 
     // Update context
-    ctx.reviewItemId = reviewItem.id;
+    if (!options.dryRun) {
+        ctx.reviewItemId = reviewItem.id;
+    }
 
     if (decision.action === 'approve') {
         ctx.autoApproved = true;
         ctx.needsManualReview = false;
         // Process auto-approval in store
-        store.processAutoApproval(reviewItem.id);
+        if (!options.dryRun) {
+            store.processAutoApproval(reviewItem.id);
+        }
     } else if (decision.action === 'flag') {
         // Flag for learning, but still publish
         ctx.autoApproved = false;
@@ -187,7 +229,7 @@ export async function processSmartReview(
         action: decision.action,
         confidence: decision.confidence,
         reasons: decision.reasons,
-        reviewItemId: reviewItem.id,
+        reviewItemId: options.dryRun ? undefined : reviewItem.id,
         shouldRetryGeneration: decision.shouldRetryGeneration,
     };
 }
@@ -16,6 +16,7 @@ import { buildResearchPrompt } from './prompts';
 export interface ResearchOptions {
     maxTokens?: number;
     onProgress?: (message: string) => void;
+    campaignId?: string;          // Attributes spend to the campaign budget
 }
 
 export interface ResearchResult {
@@ -72,6 +73,7 @@ export async function performResearch(
             maxTokens: options?.maxTokens ?? 2000,
             topic,
             itemType: 'research',
+            campaignId: options?.campaignId,
             preferredHandler,  // ← Now passed to API
             // Pass ALL provider keys so each handler can use its own key
             context: Object.keys(providerKeys).length > 0 ? { providerKeys } : undefined,
@@ -147,6 +149,7 @@ export async function performResearchRich(
                 maxTokens: options?.maxTokens ?? 2000,
                 topic,
                 itemType: 'research',
+                campaignId: options?.campaignId,
                 preferredHandler,
                 // Pass ALL provider keys so each handler can use its own key
                 context: Object.keys(providerKeys).length > 0 ? { providerKeys } : undefined,
@@ -0,0 +1,569 @@
+/**
+ * Campaign Scheduler
+ * FSD: features/campaigns/lib/scheduler.ts
+ *
+ * Evaluates campaign schedules: standard 5-field cron expressions in an
+ * IANA time zone (DST-aware), interval schedules, missed-window policy and
+ * the per-run / per-site-per-day post caps. The campaign cron route asks
+ * this module which campaigns are due and how many posts each may queue.
+ */
+
+import type { Campaign, CampaignRun, ScheduleConfig } from '../model/types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Leap-day expressions can go 8 years without a match (e.g. 2096 → 2104) */
+const MAX_SEARCH_DAYS = 366 * 8 + 1;
+
+/** Upper bound when counting missed windows after long downtime */
+const MAX_COUNTED_WINDOWS = 1000;
+
+export const DEFAULT_TIMEZONE = 'UTC';
+export const DEFAULT_MAX_CATCH_UP_RUNS = 1;
+export const DEFAULT_MISSED_RUN_GRACE_MINUTES = 60;
+
+const CRON_MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+interface CronFieldSpec {
+    name: string;
+    min: number;
+    max: number;
+    names?: Record<string, number>;
+}
+
+const CRON_FIELDS: CronFieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    {
+        name: 'month', min: 1, max: 12,
+        names: { jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12 },
+    },
+    {
+        name: 'day of week', min: 0, max: 7,
+        names: { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 },
+    },
+];
+
+// ============================================================================
+// Cron Parsing
+// ============================================================================
+
+export interface CronSchedule {
+    expression: string;
+    minutes: number[];
+    hours: number[];
+    daysOfMonth: number[];
+    months: number[];
+    daysOfWeek: number[];           // 0 = Sunday (7 is normalized to 0)
+    dayOfMonthRestricted: boolean;  // When both day fields are restricted, either may match
+    dayOfWeekRestricted: boolean;
+}
+
+function parseCronValue(raw: string, spec: CronFieldSpec, expression: string): number {
+    const lower = raw.toLowerCase();
+    const value = spec.names?.[lower] ?? (/^\d+$/.test(raw) ? Number(raw) : NaN);
+
+    if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+        throw new Error(`Invalid cron expression "${expression}": bad ${spec.name} value "${raw}"`);
+    }
+    return value;
+}
+
+function parseCronField(field: string, spec: CronFieldSpec, expression: string): number[] {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [rangePart, stepPart, ...extra] = part.split('/');
+        const step = stepPart === undefined ? 1 : Number(stepPart);
+
+        if (extra.length > 0 || !rangePart || !Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid cron expression "${expression}": bad ${spec.name} field "${field}"`);
+        }
+
+        let start: number;
+        let end: number;
+        if (rangePart === '*') {
+            start = spec.min;
+            end = spec.max;
+        } else if (rangePart.includes('-')) {
+            const [from, to] = rangePart.split('-');
+            start = parseCronValue(from, spec, expression);
+            end = parseCronValue(to, spec, expression);
+        } else {
+            start = parseCronValue(rangePart, spec, expression);
+            end = stepPart === undefined ? start : spec.max;
+        }
+
+        if (start > end) {
+            throw new Error(`Invalid cron expression "${expression}": ${spec.name} range ${rangePart} is reversed`);
+        }
+
+        for (let v = start; v <= end; v += step) {
+            values.add(v);
+        }
+    }
+
+    return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month
+ * day-of-week) or one of the @hourly/@daily/@weekly/@monthly/@yearly macros.
+ * Throws with a descriptive message when the expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+    const trimmed = expression.trim();
+    const expanded = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+    const fields = expanded.split(/\s+/);
+
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+        parseCronField(field, CRON_FIELDS[i], expression)
+    );
+
+    return {
+        expression: trimmed,
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek: [...new Set(daysOfWeek.map(d => d % 7))].sort((a, b) => a - b),
+        dayOfMonthRestricted: !fields[2].startsWith('*'),
+        dayOfWeekRestricted: !fields[4].startsWith('*'),
+    };
+}
+
+export function validateCronExpression(expression: string): { valid: boolean; error?: string } {
+    try {
+        parseCronExpression(expression);
+        return { valid: true };
+    } catch (error) {
+        return { valid: false, error: error instanceof Error ? error.message : 'Invalid cron expression' };
+    }
+}
+
+function matchesDay(cron: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+    const domMatch = cron.daysOfMonth.includes(dayOfMonth);
+    const dowMatch = cron.daysOfWeek.includes(dayOfWeek);
+
+    if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+        return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+}
+
+// ============================================================================
+// Time Zones
+// ============================================================================
+
+interface WallTime {
+    year: number;
+    month: number;      // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function getWallTime(timestamp: number, timeZone: string): WallTime {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+        if (part.type !== 'literal') {
+            parts[part.type] = Number(part.value);
+        }
+    }
+
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour % 24,
+        minute: parts.minute,
+        second: parts.second,
+    };
+}
+
+/** Offset of the zone from UTC at an instant, in ms (local = utc + offset) */
+function getZoneOffset(timestamp: number, timeZone: string): number {
+    const wall = getWallTime(timestamp, timeZone);
+    const wallMs = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    return wallMs - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a local wall-clock time to an instant.
+ * - Ambiguous times (DST fall-back) resolve to the first occurrence, so a
+ *   window inside the repeated hour runs once.
+ * - Nonexistent times (DST spring-forward gap) are shifted forward by the
+ *   gap length, so the window still runs just after the transition.
+ */
+function wallTimeToInstant(wall: Omit<WallTime, 'second'>, timeZone: string): number {
+    const wallMs = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+    const offsetBefore = getZoneOffset(wallMs - DAY_MS, timeZone);
+    const offsetAfter = getZoneOffset(wallMs + DAY_MS, timeZone);
+
+    const candidates = [wallMs - offsetBefore, wallMs - offsetAfter]
+        .filter(t => getZoneOffset(t, timeZone) === wallMs - t);
+
+    return candidates.length > 0 ? Math.min(...candidates) : wallMs - offsetBefore;
+}
+
+/**
+ * Start of the local calendar day containing the timestamp.
+ */
+export function getStartOfDay(timestamp: number, timeZone = DEFAULT_TIMEZONE): number {
+    const wall = getWallTime(timestamp, timeZone);
+    return wallTimeToInstant({ ...wall, hour: 0, minute: 0 }, timeZone);
+}
+
+// ============================================================================
+// Cron Evaluation
+// ============================================================================
+
+/**
+ * First cron window strictly after `after`, evaluated in the given time zone.
+ */
+export function getNextCronRun(
+    expression: string | CronSchedule,
+    after: number,
+    timeZone = DEFAULT_TIMEZONE
+): number {
+    const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+    const start = getWallTime(after, timeZone);
+    let dayMs = Date.UTC(start.year, start.month - 1, start.day);
+
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++, dayMs += DAY_MS) {
+        const date = new Date(dayMs);
+        const month = date.getUTCMonth() + 1;
+        const day = date.getUTCDate();
+
+        if (!cron.months.includes(month) || !matchesDay(cron, day, date.getUTCDay())) continue;
+
+        for (const hour of cron.hours) {
+            if (i === 0 && hour < start.hour) continue;
+
+            for (const minute of cron.minutes) {
+                if (i === 0 && hour === start.hour && minute < start.minute) continue;
+
+                const instant = wallTimeToInstant(
+                    { year: date.getUTCFullYear(), month, day, hour, minute },
+                    timeZone
+                );
+                if (instant > after) return instant;
+            }
+        }
+    }
+
+    throw new Error(`Cron expression "${cron.expression}" never matches`);
+}
+
+/**
+ * Cron windows in (from, to], oldest first.
+ */
+export function getCronRunsBetween(
+    expression: string | CronSchedule,
+    from: number,
+    to: number,
+    timeZone = DEFAULT_TIMEZONE,
+    limit = MAX_COUNTED_WINDOWS
+): number[] {
+    const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+    const runs: number[] = [];
+
+    let cursor = from;
+    while (runs.length < limit) {
+        const next = getNextCronRun(cron, cursor, timeZone);
+        if (next > to) break;
+        runs.push(next);
+        cursor = next;
+    }
+
+    return runs;
+}
+
+// ============================================================================
+// Schedule Evaluation
+// ============================================================================
+
+const MAX_CATCH_UP_RUNS = 24;
+
+/**
+ * Validate a schedule before saving it (editor) or acting on it.
+ */
+export function validateSchedule(schedule: ScheduleConfig): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (schedule.type === 'cron') {
+        if (!schedule.cronExpression?.trim()) {
+            errors.push('Cron expression is required');
+        } else {
+            const cron = validateCronExpression(schedule.cronExpression);
+            if (!cron.valid) errors.push(cron.error!);
+        }
+        if (schedule.timezone && !isValidTimeZone(schedule.timezone)) {
+            errors.push(`Unknown time zone: ${schedule.timezone}`);
+        }
+    }
+
+    if (schedule.type === 'interval' && !(schedule.intervalHours === undefined || schedule.intervalHours >= 1)) {
+        errors.push('Interval must be at least 1 hour');
+    }
+
+    if (schedule.maxCatchUpRuns !== undefined &&
+        (!Number.isInteger(schedule.maxCatchUpRuns) || schedule.maxCatchUpRuns < 1 || schedule.maxCatchUpRuns > MAX_CATCH_UP_RUNS)) {
+        errors.push(`Catch-up runs must be between 1 and ${MAX_CATCH_UP_RUNS}`);
+    }
+
+    if (schedule.maxPostsPerSitePerDay !== undefined &&
+        (!Number.isInteger(schedule.maxPostsPerSitePerDay) || schedule.maxPostsPerSitePerDay < 1)) {
+        errors.push('Daily site cap must be a positive whole number');
+    }
+
+    return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Next window strictly after `after`. Undefined for manual schedules.
+ */
+export function computeNextRunAt(schedule: ScheduleConfig, after: number): number | undefined {
+    if (schedule.type === 'cron') {
+        if (!schedule.cronExpression) {
+            throw new Error('Cron schedule has no cron expression');
+        }
+        return getNextCronRun(schedule.cronExpression, after, schedule.timezone || DEFAULT_TIMEZONE);
+    }
+
+    if (schedule.type === 'interval') {
+        return after + (schedule.intervalHours || 24) * HOUR_MS;
+    }
+
+    return undefined;
+}
+
+export interface ScheduleDecision {
+    due: boolean;
+    reason: 'inactive' | 'manual' | 'not_due' | 'due' | 'missed_window_skipped' | 'invalid_schedule';
+    runs: number;               // Windows to execute now
+    missedWindows: number;      // Windows that elapsed since the last run
+    skippedWindows: number;     // Elapsed windows dropped by the missed-run policy
+    scheduledFor?: number;      // Latest elapsed window
+    nextRunAt?: number;         // Next window after now
+    error?: string;
+}
+
+function countElapsedWindows(schedule: ScheduleConfig, first: number, now: number): { count: number; latest: number } {
+    if (schedule.type === 'interval') {
+        const intervalMs = (schedule.intervalHours || 24) * HOUR_MS;
+        const count = Math.min(Math.floor((now - first) / intervalMs) + 1, MAX_COUNTED_WINDOWS);
+        return { count, latest: first + (count - 1) * intervalMs };
+    }
+
+    const rest = getCronRunsBetween(
+        schedule.cronExpression!,
+        first,
+        now,
+        schedule.timezone || DEFAULT_TIMEZONE,
+        MAX_COUNTED_WINDOWS - 1
+    );
+    return { count: rest.length + 1, latest: rest[rest.length - 1] ?? first };
+}
+
+/**
+ * Decide whether a campaign should run now and how many windows to execute.
+ *
+ * Missed windows (server down, cron endpoint not called) are handled by
+ * `schedule.missedRunPolicy`:
+ * - 'catch_up' (default): run up to `maxCatchUpRuns` of them now.
+ * - 'skip': run the latest window only if it is at most
+ *   `missedRunGraceMinutes` late; otherwise wait for the next one.
+ */
+export function evaluateSchedule(
+    campaign: Pick<Campaign, 'status' | 'schedule' | 'createdAt'>,
+    now = Date.now()
+): ScheduleDecision {
+    const { schedule } = campaign;
+    const base = { runs: 0, missedWindows: 0, skippedWindows: 0 };
+
+    if (campaign.status !== 'active') return { ...base, due: false, reason: 'inactive' };
+    if (schedule.type === 'manual') return { ...base, due: false, reason: 'manual' };
+
+    try {
+        // Interval campaigns that never ran are due immediately
+        if (schedule.type === 'interval' && !schedule.nextRunAt) {
+            return {
+                ...base,
+                due: true,
+                reason: 'due',
+                runs: 1,
+                missedWindows: 1,
+                scheduledFor: now,
+                nextRunAt: computeNextRunAt(schedule, now),
+            };
+        }
+
+        const first = schedule.nextRunAt
+            ?? computeNextRunAt(schedule, schedule.lastRunAt ?? campaign.createdAt)!;
+
+        if (first > now) {
+            return { ...base, due: false, reason: 'not_due', nextRunAt: first };
+        }
+
+        const { count, latest } = countElapsedWindows(schedule, first, now);
+        const nextRunAt = computeNextRunAt(schedule, now);
+
+        if (schedule.missedRunPolicy === 'skip') {
+            const graceMs = (schedule.missedRunGraceMinutes ?? DEFAULT_MISSED_RUN_GRACE_MINUTES) * MINUTE_MS;
+            if (now - latest > graceMs) {
+                return {
+                    ...base,
+                    due: false,
+                    reason: 'missed_window_skipped',
+                    missedWindows: count,
+                    skippedWindows: count,
+                    scheduledFor: latest,
+                    nextRunAt,
+                };
+            }
+            return {
+                due: true,
+                reason: 'due',
+                runs: 1,
+                missedWindows: count,
+                skippedWindows: count - 1,
+                scheduledFor: latest,
+                nextRunAt,
+            };
+        }
+
+        const runs = Math.min(count, Math.max(1, schedule.maxCatchUpRuns ?? DEFAULT_MAX_CATCH_UP_RUNS));
+        return {
+            due: true,
+            reason: 'due',
+            runs,
+            missedWindows: count,
+            skippedWindows: count - runs,
+            scheduledFor: latest,
+            nextRunAt,
+        };
+    } catch (error) {
+        return {
+            ...base,
+            due: false,
+            reason: 'invalid_schedule',
+            error: error instanceof Error ? error.message : 'Invalid schedule',
+        };
+    }
+}
+
+// ============================================================================
+// Post Caps
+// ============================================================================
+
+/**
+ * Posts for the given campaigns published since `since` (completed run items
+ * with a WordPress post id).
+ */
+export function countSitePostsSince(runs: CampaignRun[], campaignIds: Iterable<string>, since: number): number {
+    const ids = new Set(campaignIds);
+    let count = 0;
+
+    for (const run of runs) {
+        if (!ids.has(run.campaignId)) continue;
+        for (const item of run.items) {
+            if (item.wpPostId && (item.completedAt ?? item.startedAt) >= since) {
+                count++;
+            }
+        }
+    }
+
+    return count;
+}
+
+export interface PostAllowance {
+    allowed: number;
+    limitedBy?: 'maxPostsPerRun' | 'siteDailyCap' | 'sourceItems';
+}
+
+/**
+ * How many items a due campaign may queue now: `maxPostsPerRun` per executed
+ * window, bounded by available source items and by the target site's daily
+ * cap (which counts posts from every campaign publishing to that site).
+ */
+export function computePostAllowance(input: {
+    schedule: ScheduleConfig;
+    runs: number;
+    availableItems: number;
+    sitePostsToday: number;
+}): PostAllowance {
+    const { schedule, runs, availableItems, sitePostsToday } = input;
+    const requested = Math.max(0, schedule.maxPostsPerRun) * Math.max(1, runs);
+
+    let allowed = requested;
+    let limitedBy: PostAllowance['limitedBy'];
+
+    if (availableItems < allowed) {
+        allowed = availableItems;
+        limitedBy = 'sourceItems';
+    }
+
+    if (schedule.maxPostsPerSitePerDay !== undefined) {
+        const remaining = Math.max(0, schedule.maxPostsPerSitePerDay - sitePostsToday);
+        if (remaining < allowed) {
+            allowed = remaining;
+            limitedBy = 'siteDailyCap';
+        }
+    }
+
+    if (!limitedBy && runs > 0 && allowed === requested && availableItems > requested) {
+        limitedBy = 'maxPostsPerRun';
+    }
+
+    return { allowed, limitedBy };
+}
@@ -0,0 +1,408 @@
+/**
+ * Semantic Deduplication
+ * FSD: features/campaigns/lib/semanticDedup.ts
+ *
+ * Near-duplicate detection for topics and article bodies, on top of the
+ * exact/word-overlap checks in deduplication.ts:
+ * - Titles are normalized (synonyms, plurals, years dropped) so
+ *   "best budget running shoes 2026" and "top cheap running shoes this year"
+ *   compare as the same title
+ * - Bodies are shingled into MinHash signatures (shared passages) and
+ *   SimHash fingerprints (same vocabulary after spinning/rewording)
+ * - When an 'embed' handler is configured, the closest lexical matches are
+ *   re-scored with embedding cosine similarity
+ *
+ * Candidates are compared against everything published on the target
+ * WPSite plus the campaign history in the deduplication store.
+ */
+
+import type { WPSite } from '@/features/wordpress';
+import type { DedupMatch, DedupReport } from '../model/types';
+import { useDeduplicationStore } from './deduplication';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TextFingerprint {
+    minHash: number[];
+    simHash: string;                 // 64-bit, hex
+    tokens: number;
+}
+
+export interface DedupThresholds {
+    title: number;                   // MinHash Jaccard of normalized title words
+    body: number;                    // MinHash Jaccard of 3-word shingles
+    simHash: number;                 // 1 - Hamming distance / 64
+    embedding: number;               // Cosine similarity
+}
+
+export interface DedupCandidate {
+    title: string;
+    body?: string;
+}
+
+export interface DedupOptions {
+    siteId?: string;                 // Defaults to site.id (history records are keyed by campaign.targetSiteId)
+    thresholds?: Partial<DedupThresholds>;
+    useEmbeddings?: boolean;         // Default true - ignored when no embed handler exists
+}
+
+interface IndexedPost {
+    id: string;
+    title: string;
+    url?: string;
+    source: DedupMatch['source'];
+    titleFingerprint: TextFingerprint;
+    bodyFingerprint?: TextFingerprint;
+    embedText: string;
+    embedding?: number[];
+}
+
+export const DEFAULT_DEDUP_THRESHOLDS: DedupThresholds = {
+    title: 0.75,
+    body: 0.4,
+    simHash: 0.9,
+    embedding: 0.9,
+};
+
+const NUM_HASHES = 64;
+const BODY_SHINGLE_SIZE = 3;
+const MAX_SITE_POSTS = 500;
+const SITE_INDEX_TTL_MS = 15 * 60 * 1000;
+const EMBEDDING_CANDIDATES = 5;
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+const STOPWORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+    'is', 'are', 'was', 'be', 'your', 'you', 'how', 'what', 'why', 'this', 'that', 'from', 'it',
+]);
+
+// Title words that mean the same thing for search intent
+const SYNONYMS: Record<string, string> = {
+    top: 'best', greatest: 'best', ultimate: 'best', finest: 'best',
+    cheap: 'budget', cheapest: 'budget', affordable: 'budget', inexpensive: 'budget',
+    tutorial: 'guide', handbook: 'guide',
+    trick: 'tip', hack: 'tip',
+    reviewed: 'review', comparison: 'review', vs: 'review', versus: 'review',
+    newbie: 'beginner', starter: 'beginner',
+};
+
+// "2026", "this year", "in 2025" say nothing about the topic itself
+const TIME_PATTERN = /\b(?:(?:this|current|next)\s+year|(?:19|20)\d{2})\b/g;
+
+function stem(word: string): string {
+    if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+}
+
+/**
+ * Plain-text tokens: HTML stripped, stopwords removed, synonyms folded
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&[a-z#0-9]+;/gi, ' ')
+        .toLowerCase()
+        .replace(TIME_PATTERN, ' ')
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(w => w && !STOPWORDS.has(w))
+        .map(w => {
+            const stemmed = stem(w);
+            return SYNONYMS[stemmed] || stemmed;
+        });
+}
+
+/**
+ * Word shingles of the given size (short texts fall back to single words)
+ */
+export function shingle(tokens: string[], size: number): Set<string> {
+    if (tokens.length < size) return new Set(tokens);
+    const shingles = new Set<string>();
+    for (let i = 0; i <= tokens.length - size; i++) {
+        shingles.add(tokens.slice(i, i + size).join(' '));
+    }
+    return shingles;
+}
+
+// ============================================================================
+// Fingerprints
+// ============================================================================
+
+/**
+ * FNV-1a 32-bit hash with a seed
+ */
+function hash32(text: string, seed = 0x811c9dc5): number {
+    let h = seed >>> 0;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * MinHash signature - the share of equal slots estimates Jaccard similarity
+ */
+export function minHash(shingles: Set<string>, numHashes = NUM_HASHES): number[] {
+    const signature = new Array<number>(numHashes).fill(0xffffffff);
+    for (const s of shingles) {
+        // Double hashing: h_i = h1 + i * h2 gives independent-enough permutations
+        const h1 = hash32(s);
+        const h2 = hash32(s, 0x9747b28c) | 1;
+        for (let i = 0; i < numHashes; i++) {
+            const h = (h1 + Math.imul(i, h2)) >>> 0;
+            if (h < signature[i]) signature[i] = h;
+        }
+    }
+    return signature;
+}
+
+export function minHashSimilarity(a: number[], b: number[]): number {
+    const n = Math.min(a.length, b.length);
+    if (n === 0) return 0;
+    let equal = 0;
+    for (let i = 0; i < n; i++) {
+        if (a[i] === b[i] && a[i] !== 0xffffffff) equal++;
+    }
+    return equal / n;
+}
+
+/**
+ * 64-bit SimHash over token frequencies, as 16 hex chars
+ */
+export function simHash(tokens: string[]): string {
+    const weights = new Array<number>(64).fill(0);
+    const counts = new Map<string, number>();
+    tokens.forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+
+    for (const [token, count] of counts) {
+        const halves = [hash32(token), hash32(token, 0x01234567)];
+        for (let bit = 0; bit < 64; bit++) {
+            const set = (halves[bit >> 5] >>> (bit & 31)) & 1;
+            weights[bit] += set ? count : -count;
+        }
+    }
+
+    const half = (offset: number) => {
+        let value = 0;
+        for (let bit = 0; bit < 32; bit++) {
+            if (weights[offset + bit] > 0) value |= 1 << bit;
+        }
+        return (value >>> 0).toString(16).padStart(8, '0');
+    };
+    return half(32) + half(0);
+}
+
+export function simHashSimilarity(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < 16; i += 8) {
+        let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+        while (x) {
+            distance += x & 1;
+            x >>>= 1;
+        }
+    }
+    return 1 - distance / 64;
+}
+
+/**
+ * Fingerprint a title (word set) or article body (3-word shingles)
+ */
+export function fingerprintText(text: string, kind: 'title' | 'body'): TextFingerprint {
+    const tokens = tokenize(text);
+    return {
+        minHash: minHash(shingle(tokens, kind === 'title' ? 1 : BODY_SHINGLE_SIZE)),
+        simHash: simHash(tokens),
+        tokens: tokens.length,
+    };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ============================================================================
+// Site Index
+// ============================================================================
+
+const siteIndexCache = new Map<string, { posts: IndexedPost[]; expiresAt: number }>();
+
+function embedTextFor(title: string, body?: string): string {
+    const plain = (body || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    return `${title}\n${plain.substring(0, 1000)}`;
+}
+
+/**
+ * Fetch and fingerprint published posts (cached per site for 15 minutes)
+ */
+async function getSitePosts(site: WPSite): Promise<IndexedPost[]> {
+    const cached = siteIndexCache.get(site.id);
+    if (cached && cached.expiresAt > Date.now()) return cached.posts;
+
+    const posts: IndexedPost[] = [];
+    const baseUrl = site.url.replace(/\/$/, '');
+    const authHeader = btoa(`${site.username}:${site.appPassword}`);
+
+    try {
+        for (let page = 1; posts.length < MAX_SITE_POSTS; page++) {
+            const response = await fetch(
+                `${baseUrl}/wp-json/wp/v2/posts?per_page=100&page=${page}&status=publish&_fields=id,title,link,content`,
+                { headers: { 'Authorization': `Basic ${authHeader}` } }
+            );
+            // WordPress answers 400 for pages past the end
+            if (!response.ok) break;
+
+            const batch: Array<{ id: number; title?: { rendered: string }; link: string; content?: { rendered: string } }> =
+                await response.json();
+
+            for (const post of batch) {
+                const title = (post.title?.rendered || '').replace(/<[^>]+>/g, '');
+                const body = post.content?.rendered || '';
+                posts.push({
+                    id: String(post.id),
+                    title,
+                    url: post.link,
+                    source: 'site',
+                    titleFingerprint: fingerprintText(title, 'title'),
+                    bodyFingerprint: body ? fingerprintText(body, 'body') : undefined,
+                    embedText: embedTextFor(title, body),
+                });
+            }
+            if (batch.length < 100) break;
+        }
+    } catch (error) {
+        console.warn(`[SemanticDedup] Could not load posts from ${site.url}:`, error);
+    }
+
+    siteIndexCache.set(site.id, { posts, expiresAt: Date.now() + SITE_INDEX_TTL_MS });
+    return posts;
+}
+
+/**
+ * Campaign-generated posts for the site (covers posts not yet in the site cache)
+ */
+function getHistoryPosts(siteId: string): IndexedPost[] {
+    return useDeduplicationStore.getState().getRecordsBySite(siteId).map(record => ({
+        id: record.id,
+        title: record.title,
+        url: record.wpPostUrl,
+        source: 'history' as const,
+        titleFingerprint: fingerprintText(record.title || record.topic, 'title'),
+        bodyFingerprint: record.bodyFingerprint,
+        embedText: record.title || record.topic,
+    }));
+}
+
+export function clearSiteIndexCache(siteId?: string): void {
+    if (siteId) siteIndexCache.delete(siteId);
+    else siteIndexCache.clear();
+}
+
+// ============================================================================
+// Embeddings
+// ============================================================================
+
+/**
+ * Embed text via the capability system; null when no embed handler works
+ */
+async function embed(text: string): Promise<number[] | null> {
+    try {
+        const { aiServices } = await import('@/lib/ai/services');
+        await aiServices.initialize();
+
+        const hasHandler = aiServices.getHandlers().some(h => h.isAvailable && h.capabilities.includes('embed'));
+        if (!hasHandler) return null;
+
+        const result = await aiServices.execute({ capability: 'embed', prompt: text });
+        return result.success && Array.isArray(result.data) ? result.data as number[] : null;
+    } catch {
+        return null;
+    }
+}
+
+// ============================================================================
+// Duplicate Check
+// ============================================================================
+
+/**
+ * Best match against one post; ratio > 1 means over its threshold
+ */
+function scorePost(
+    post: IndexedPost,
+    titleFp: TextFingerprint,
+    bodyFp: TextFingerprint | undefined,
+    thresholds: DedupThresholds
+): { match: DedupMatch; ratio: number } {
+    const scores: Array<{ score: number; method: DedupMatch['method']; threshold: number }> = [
+        { score: minHashSimilarity(titleFp.minHash, post.titleFingerprint.minHash), method: 'title', threshold: thresholds.title },
+    ];
+    if (bodyFp && post.bodyFingerprint) {
+        scores.push(
+            { score: minHashSimilarity(bodyFp.minHash, post.bodyFingerprint.minHash), method: 'body', threshold: thresholds.body },
+            { score: simHashSimilarity(bodyFp.simHash, post.bodyFingerprint.simHash), method: 'simhash', threshold: thresholds.simHash },
+        );
+    }
+
+    const best = scores.reduce((a, b) => (b.score / b.threshold > a.score / a.threshold ? b : a));
+    return {
+        match: { id: post.id, title: post.title, url: post.url, source: post.source, score: best.score, method: best.method },
+        ratio: best.score / best.threshold,
+    };
+}
+
+/**
+ * Find the existing post closest to a candidate topic/article
+ */
+export async function findNearestDuplicate(
+    candidate: DedupCandidate,
+    site: WPSite,
+    options: DedupOptions = {}
+): Promise<DedupReport> {
+    const thresholds = { ...DEFAULT_DEDUP_THRESHOLDS, ...options.thresholds };
+    const posts = [...(await getSitePosts(site)), ...getHistoryPosts(options.siteId || site.id)];
+    if (posts.length === 0) return { duplicate: false, checked: 0 };
+
+    const titleFp = fingerprintText(candidate.title, 'title');
+    const bodyFp = candidate.body ? fingerprintText(candidate.body, 'body') : undefined;
+
+    const ranked = posts
+        .map(post => ({ post, ...scorePost(post, titleFp, bodyFp, thresholds) }))
+        .sort((a, b) => b.ratio - a.ratio);
+
+    // Re-score the closest lexical matches semantically
+    if (options.useEmbeddings !== false && ranked[0].ratio < 1) {
+        const candidateEmbedding = await embed(embedTextFor(candidate.title, candidate.body));
+        if (candidateEmbedding) {
+            for (const entry of ranked.slice(0, EMBEDDING_CANDIDATES)) {
+                entry.post.embedding ??= (await embed(entry.post.embedText)) || undefined;
+                if (!entry.post.embedding) continue;
+
+                const score = cosineSimilarity(candidateEmbedding, entry.post.embedding);
+                if (score / thresholds.embedding > entry.ratio) {
+                    entry.ratio = score / thresholds.embedding;
+                    entry.match = { ...entry.match, score, method: 'embedding' };
+                }
+            }
+            ranked.sort((a, b) => b.ratio - a.ratio);
+        }
+    }
+
+    const nearest = ranked[0];
+    return {
+        duplicate: nearest.ratio >= 1,
+        nearest: { ...nearest.match, score: Math.round(nearest.match.score * 100) / 100 },
+        checked: posts.length,
+    };
+}
@@ -9,8 +9,11 @@ import type {
     Campaign,
     CampaignRun,
     CampaignStats,
+    ManualSourceConfig,
+    ManualTopic,
     ScheduleConfig
 } from './types';
+import { computeNextRunAt, evaluateSchedule } from '../lib/scheduler';
 
 // ============================================================================
 // Store Interface
@@ -26,6 +29,7 @@ interface CampaignStore {
     createCampaign: (campaign: Omit<Campaign, 'id' | 'createdAt' | 'updatedAt' | 'stats'>) => Campaign;
     updateCampaign: (id: string, updates: Partial<Campaign>) => void;
     deleteCampaign: (id: string) => void;
+    updateManualTopic: (campaignId: string, topicId: string, updates: Partial<ManualTopic>) => void;
 
     // Getters
     getCampaign: (id: string) => Campaign | undefined;
@@ -110,6 +114,22 @@ export const useCampaignStore = create<CampaignStore>()(
                 }));
             },
 
+            updateManualTopic: (campaignId, topicId, updates) => {
+                const campaign = get().getCampaign(campaignId);
+                if (!campaign || campaign.source.type !== 'manual') return;
+
+                const config = campaign.source.config as ManualSourceConfig;
+                get().updateCampaign(campaignId, {
+                    source: {
+                        ...campaign.source,
+                        config: {
+                            ...config,
+                            topics: config.topics.map(t => t.id === topicId ? { ...t, ...updates } : t),
+                        },
+                    },
+                });
+            },
+
             // ----------------------------------------------------------------
             // Getters
             // ----------------------------------------------------------------
@@ -220,20 +240,19 @@ export const useCampaignStore = create<CampaignStore>()(
 
             getDueCampaigns: () => {
                 const now = Date.now();
-                return get().campaigns.filter((c) => {
-                    if (c.status !== 'active') return false;
-                    if (c.schedule.type === 'manual') return false;
-                    if (!c.schedule.nextRunAt) return true; // Never run
-                    return c.schedule.nextRunAt <= now;
-                });
+                return get().campaigns.filter((c) => evaluateSchedule(c, now).due);
             },
 
             updateNextRun: (id) => {
                 const campaign = get().getCampaign(id);
                 if (!campaign || campaign.schedule.type === 'manual') return;
 
-                const intervalMs = (campaign.schedule.intervalHours || 24) * 60 * 60 * 1000;
-                const nextRunAt = Date.now() + intervalMs;
+                let nextRunAt: number | undefined;
+                try {
+                    nextRunAt = computeNextRunAt(campaign.schedule, Date.now());
+                } catch {
+                    nextRunAt = undefined; // Invalid cron expression; evaluateSchedule reports it
+                }
 
                 set((state) => ({
                     campaigns: state.campaigns.map((c) =>
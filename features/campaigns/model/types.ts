@@ -4,6 +4,7 @@
  */
 
 import type { CampaignContext, HuntCampaignContext } from './campaignContext';
+import type { ClaimCheckReport } from '@/lib/contentQuality';
 
 // ============================================================================
 // Campaign Entity
@@ -34,6 +35,9 @@ export interface Campaign {
     // Schedule configuration
     schedule: ScheduleConfig;
 
+    // Pipeline composition (defaults to the standard stage order when omitted)
+    pipeline?: PipelineDefinition;
+
     // Statistics
     stats: CampaignStats;
 
@@ -62,9 +66,10 @@ export interface CampaignSource {
 export interface KeywordSourceConfig {
     type: 'keywords';
     keywords: string[];
-    rotateMode: 'sequential' | 'random';
+    rotateMode: 'sequential' | 'random' | 'opportunity';  // opportunity: re-ranked before every run (keywordOpportunity.ts)
     currentIndex: number;
     skipUsed: boolean;
+    region?: string;                     // Trends region for opportunity momentum (default US)
 }
 
 export interface RSSSourceConfig {
@@ -91,6 +96,21 @@ export interface ManualTopic {
     id: string;
     topic: string;
     status: 'pending' | 'generated' | 'published';
+
+    // Topical cluster plan (set by the cluster planner)
+    clusterId?: string;
+    role?: 'pillar' | 'spoke';
+    pillarId?: string;                   // Spokes: topic id of their pillar
+    keyword?: string;                    // Target keyword (topic is the working title)
+    intent?: 'informational' | 'commercial' | 'transactional' | 'navigational';
+    contentType?: string;                // ContentTypeConfig id from the content strategy
+    targetWordCount?: number;
+    linksTo?: string[];                  // Topic ids to link to once they are published
+    publishAt?: number;                  // Not picked up before this time
+
+    // Set once the topic has been published
+    postId?: number;
+    postUrl?: string;
 }
 
 // Translation source - Translates existing WP posts to multiple languages
@@ -123,7 +143,7 @@ export interface LanguageMapping {
 // ============================================================================
 
 export interface AIConfig {
-    provider?: 'gemini' | 'deepseek' | 'openrouter' | 'perplexity';  // Optional - inherited from Settings
+    provider?: 'gemini' | 'deepseek' | 'openrouter' | 'perplexity' | 'local';  // Optional - inherited from Settings
     model?: string;
     articleType: 'pillar' | 'cluster' | 'how-to' | 'review' | 'listicle';
     tone: 'professional' | 'conversational' | 'authoritative' | 'friendly';
@@ -157,6 +177,7 @@ export interface AIConfig {
     authorHealthRequired?: boolean;      // Require healthy author for generation
     injectEEATSignals?: boolean;         // Auto-inject experience/expertise phrases
     qualityGateEnabled?: boolean;        // Run quality scoring before publish
+    factCheckClaims?: boolean;           // Verify claims against research, repair and cite
 
     // Content optimization (Phase 2)
     humanize?: boolean;                  // Run through humanizer
@@ -179,6 +200,8 @@ export interface AIConfig {
     abTestTitles?: boolean;              // Test title variations
     abTestCovers?: boolean;              // Test cover image variations
     abTestRespins?: boolean;             // Test content respins
+    abTestMethod?: 'bayesian' | 'sequential';  // Winner evaluation (default: bayesian)
+    abTestAutoApply?: boolean;           // Apply the winning title/cover to the post (default: true)
 
     // Hunt integration
     nicheContext?: string;               // Niche context from domain research (e.g., 'technology', 'health & wellness')
@@ -205,6 +228,34 @@ export interface AIConfig {
     syndicationDelay?: number;              // Days after WP publish before syndicating (default: 0)
 }
 
+// ============================================================================
+// Pipeline Composition
+// ============================================================================
+
+export interface PipelineDefinition {
+    groups: PipelineGroupDefinition[];   // Executed in array order
+    retryPolicy?: StageRetryPolicy;      // Default for every stage
+}
+
+export interface PipelineGroupDefinition {
+    id: string;                          // Registered StageGroup id ('enrichment', 'publish', ...)
+    enabled: boolean;
+    parallel?: boolean;                  // Overrides the group's default
+    stages: PipelineStageDefinition[];   // Executed in array order when sequential
+}
+
+export interface PipelineStageDefinition {
+    id: string;                          // Stage id within the group
+    enabled: boolean;
+    options?: Record<string, unknown>;   // Passed to the stage's condition/execute
+    retry?: StageRetryPolicy;            // Overrides the pipeline default
+}
+
+export interface StageRetryPolicy {
+    maxAttempts: number;                 // 1 = no retry
+    backoffMs: number;                   // Delay before the 2nd attempt, doubled after each failure
+}
+
 // ============================================================================
 // Schedule Configuration
 // ============================================================================
@@ -212,13 +263,20 @@ export interface AIConfig {
 export interface ScheduleConfig {
     type: 'manual' | 'interval' | 'cron';
     intervalHours?: number;
-    cronExpression?: string;
+    cronExpression?: string;             // 5-field cron or @daily/@weekly/... macro
+    timezone?: string;                   // IANA zone the cron expression is evaluated in (default UTC)
+    missedRunPolicy?: MissedRunPolicy;   // Windows missed while the cron endpoint was not called
+    maxCatchUpRuns?: number;             // catch_up: max missed windows executed at once (default 1)
+    missedRunGraceMinutes?: number;      // skip: how late a window may still run (default 60)
     maxPostsPerRun: number;
+    maxPostsPerSitePerDay?: number;      // Daily cap across all campaigns publishing to the target site
     pauseOnError: boolean;
     lastRunAt?: number;
     nextRunAt?: number;
 }
 
+export type MissedRunPolicy = 'catch_up' | 'skip';
+
 // ============================================================================
 // Statistics
 // ============================================================================
@@ -257,6 +315,7 @@ export interface RunItem {
     wpPostId?: number;
     wpPostUrl?: string;
     error?: string;
+    selectionReason?: string;            // Why the source picked this topic (opportunity rotation)
     startedAt: number;
     completedAt?: number;
 }
@@ -397,6 +456,47 @@ export interface PipelineContext {
         platforms: string[];
         scheduledFor: Date;
     };
+
+    // Compliance findings from 10-compliance
+    complianceReport?: {
+        score: number;
+        isCompliant: boolean;
+        issues: Array<{ severity: 'critical' | 'warning' | 'info'; category: string; description: string }>;
+        prePublish?: { ready: boolean; blockers: string[]; warnings: string[]; score: number };
+    };
+
+    // Claim-level fact check against research citations (05-quality)
+    factCheckReport?: ClaimCheckReport;
+
+    // Near-duplicate check: topic in 01-validation, article body in 05-quality
+    dedupReport?: DedupReport;
+
+    // Dry-run: side-effect stages record what they would have done instead of doing it
+    dryRun?: boolean;
+    dryRunIntents?: DryRunIntent[];
+}
+
+export interface DedupMatch {
+    id: string;                          // WP post id or dedup record id
+    title: string;
+    url?: string;
+    source: 'site' | 'history';          // Published on the WPSite / generated by a campaign
+    score: number;                       // 0-1 similarity for the method below
+    method: 'title' | 'body' | 'simhash' | 'embedding';
+}
+
+export interface DedupReport {
+    duplicate: boolean;
+    nearest?: DedupMatch;                // Closest existing post relative to its threshold
+    checked: number;                     // Posts compared
+}
+
+export interface DryRunIntent {
+    stageId: string;
+    action: string;                      // 'publish_post', 'send_newsletter', ...
+    target: string;                      // Site URL, provider, platform...
+    summary: string;
+    payload?: Record<string, unknown>;
 }
 
 export interface SourceItem {
@@ -19,6 +19,7 @@ import {
     Globe,
     Zap,
     Image,
+    Eye,
 } from 'lucide-react';
 import type { Campaign } from '../model/types';
 import { useCampaignStore } from '../model/campaignStore';
@@ -28,10 +29,12 @@ interface CampaignCardProps {
     campaign: Campaign;
     onEdit?: (campaign: Campaign) => void;
     onRun?: (campaign: Campaign) => void;
+    onPreview?: (campaign: Campaign) => void;
 }
 
-export function CampaignCard({ campaign, onEdit, onRun }: CampaignCardProps) {
+export function CampaignCard({ campaign, onEdit, onRun, onPreview }: CampaignCardProps) {
     const [running, setRunning] = useState(false);
+    const [previewing, setPreviewing] = useState(false);
     const [retryingImages, setRetryingImages] = useState(false);
     const { pauseCampaign, resumeCampaign, deleteCampaign } = useCampaignStore();
     const { sites } = useWPSitesLegacy();
@@ -55,6 +58,15 @@ export function CampaignCard({ campaign, onEdit, onRun }: CampaignCardProps) {
         }
     };
 
+    const handlePreview = async () => {
+        setPreviewing(true);
+        try {
+            await onPreview?.(campaign);
+        } finally {
+            setPreviewing(false);
+        }
+    };
+
     const handleDelete = () => {
         if (confirm(`Delete campaign "${campaign.name}"? This cannot be undone.`)) {
             deleteCampaign(campaign.id);
@@ -191,7 +203,9 @@ export function CampaignCard({ campaign, onEdit, onRun }: CampaignCardProps) {
         ? 'Manual'
         : campaign.schedule.type === 'interval'
             ? `Every ${campaign.schedule.intervalHours}h`
-            : campaign.schedule.cronExpression || 'Scheduled';
+            : campaign.schedule.cronExpression
+                ? `${campaign.schedule.cronExpression}${campaign.schedule.timezone ? ` (${campaign.schedule.timezone})` : ''}`
+                : 'Scheduled';
 
     return (
         <div className="bg-white rounded-xl border border-neutral-200 shadow-sm overflow-hidden hover:shadow-md transition-shadow">
@@ -300,6 +314,20 @@ export function CampaignCard({ campaign, onEdit, onRun }: CampaignCardProps) {
                     )}
                 </button>
                 <div className="flex items-center gap-1">
+                    {onPreview && (
+                        <button
+                            onClick={handlePreview}
+                            disabled={previewing || running}
+                            className="p-2 text-neutral-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                            title="Preview (dry run, nothing is published)"
+                        >
+                            {previewing ? (
+                                <RefreshCw className="w-4 h-4 animate-spin" />
+                            ) : (
+                                <Eye className="w-4 h-4" />
+                            )}
+                        </button>
+                    )}
                     <button
                         onClick={handleToggleStatus}
                         className={`p-2 rounded-lg transition-colors ${campaign.status === 'active'
@@ -6,24 +6,33 @@
  */
 
 import { useState, useCallback } from 'react';
-import { X, ChevronLeft, ChevronRight, Check, Zap, FileText, Sparkles, Clock } from 'lucide-react';
-import type { Campaign, KeywordSourceConfig, RSSSourceConfig, TrendsSourceConfig, TranslationSourceConfig, AIConfig, ScheduleConfig } from '../model/types';
+import { X, ChevronLeft, ChevronRight, Check, Zap, FileText, Sparkles, Clock, Layers } from 'lucide-react';
+import type { Campaign, KeywordSourceConfig, RSSSourceConfig, TrendsSourceConfig, TranslationSourceConfig, AIConfig } from '../model/types';
 import { useCampaignStore } from '../model/campaignStore';
 import { useWPSitesLegacy } from '@/features/wordpress/model/wpSiteStore';
-import { BasicsStep, SourceStep, AIStep, type EditorFormState } from './EditorSteps';
-import { ScheduleStep, ReviewStep } from './EditorSteps2';
+import { BasicsStep, SourceStep, AIStep, PipelineStep, type EditorFormState } from './EditorSteps';
+import {
+    getDefaultPipelineDefinition,
+    isDefaultPipelineDefinition,
+    validatePipelineDefinition,
+    withRegistryStages
+} from '../lib/pipeline/composition';
+import { ScheduleStep, ReviewStep, buildScheduleConfig } from './EditorSteps2';
+import { validateSchedule } from '../lib/scheduler';
+import { LiveArticlePreview } from './LiveArticlePreview';
 
 interface CampaignEditorProps {
     campaign?: Campaign | null;
     onClose: () => void;
 }
 
-type Step = 'basics' | 'source' | 'ai' | 'schedule' | 'review';
+type Step = 'basics' | 'source' | 'ai' | 'pipeline' | 'schedule' | 'review';
 
 const STEPS: { id: Step; label: string; icon: React.ReactNode }[] = [
     { id: 'basics', label: 'Basics', icon: <Zap className="w-4 h-4" /> },
     { id: 'source', label: 'Source', icon: <FileText className="w-4 h-4" /> },
     { id: 'ai', label: 'AI Config', icon: <Sparkles className="w-4 h-4" /> },
+    { id: 'pipeline', label: 'Pipeline', icon: <Layers className="w-4 h-4" /> },
     { id: 'schedule', label: 'Schedule', icon: <Clock className="w-4 h-4" /> },
     { id: 'review', label: 'Review', icon: <Check className="w-4 h-4" /> },
 ];
@@ -44,6 +53,7 @@ export function CampaignEditor({ campaign, onClose }: CampaignEditorProps) {
         postStatus: campaign?.postStatus || 'draft',
         sourceType: campaign?.source.type || 'keywords',
         keywords: (campaign?.source.config as KeywordSourceConfig)?.keywords?.join('\n') || '',
+        keywordRotateMode: (campaign?.source.config as KeywordSourceConfig)?.rotateMode || 'sequential',
         rssFeedUrls: (campaign?.source.config as RSSSourceConfig)?.feedUrls?.join('\n') || '',
         rssAiRewrite: (campaign?.source.config as RSSSourceConfig)?.aiRewrite ?? true,
         trendsRegion: (campaign?.source.config as TrendsSourceConfig)?.region || 'US',
@@ -74,18 +84,29 @@ export function CampaignEditor({ campaign, onClose }: CampaignEditorProps) {
         abTestTitles: true,
         abTestCovers: false,
         abTestRespins: false,
+        abTestMethod: campaign?.aiConfig.abTestMethod || 'bayesian',
+        abTestAutoApply: campaign?.aiConfig.abTestAutoApply ?? true,
         // Analytics defaults
         analyticsEnabled: false,
         // Phase 2: Quality & Author defaults
         authorId: campaign?.authorId || '',
         injectEEATSignals: campaign?.aiConfig.injectEEATSignals ?? false,
         qualityGateEnabled: campaign?.aiConfig.qualityGateEnabled ?? false,
+        factCheckClaims: campaign?.aiConfig.factCheckClaims ?? false,
         humanize: campaign?.aiConfig.humanize ?? false,
         optimizeReadability: campaign?.aiConfig.optimizeReadability ?? false,
+        // Pipeline composition
+        // Saved definitions gain stages registered since they were saved
+        pipeline: campaign?.pipeline ? withRegistryStages(campaign.pipeline) : getDefaultPipelineDefinition(),
         // Schedule
         scheduleType: campaign?.schedule.type || 'manual',
         intervalHours: campaign?.schedule.intervalHours || 24,
+        cronExpression: campaign?.schedule.cronExpression || '0 9 * * 1-5',
+        timezone: campaign?.schedule.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+        missedRunPolicy: campaign?.schedule.missedRunPolicy || 'catch_up',
+        maxCatchUpRuns: campaign?.schedule.maxCatchUpRuns || 1,
         maxPostsPerRun: campaign?.schedule.maxPostsPerRun || 1,
+        maxPostsPerSitePerDay: campaign?.schedule.maxPostsPerSitePerDay || 0,
         // Translation source defaults
         translationSourceSiteId: (campaign?.source.config as TranslationSourceConfig)?.sourceSiteId || '',
         translationTargetLanguages: (campaign?.source.config as TranslationSourceConfig)?.targetLanguages || [],
@@ -101,6 +122,8 @@ export function CampaignEditor({ campaign, onClose }: CampaignEditorProps) {
     const isFirst = stepIndex === 0;
     const isLast = stepIndex === STEPS.length - 1;
     const selectedSite = connectedSites.find(s => s.id === form.targetSiteId);
+    const pipelineValid = validatePipelineDefinition(form.pipeline).valid;
+    const scheduleValid = validateSchedule(buildScheduleConfig(form)).valid;
 
     const goNext = () => { if (!isLast) setStep(STEPS[stepIndex + 1].id); };
     const goBack = () => { if (!isFirst) setStep(STEPS[stepIndex - 1].id); };
@@ -140,8 +163,17 @@ export function CampaignEditor({ campaign, onClose }: CampaignEditorProps) {
                     {step === 'basics' && <BasicsStep form={form} updateField={updateField} sites={connectedSites} selectedSite={selectedSite} />}
                     {step === 'source' && <SourceStep form={form} updateField={updateField} sites={connectedSites} />}
                     {step === 'ai' && <AIStep form={form} updateField={updateField} sites={connectedSites} />}
+                    {step === 'pipeline' && <PipelineStep form={form} updateField={updateField} />}
                     {step === 'schedule' && <ScheduleStep form={form} updateField={updateField} />}
-                    {step === 'review' && <ReviewStep form={form} selectedSite={selectedSite} />}
+                    {step === 'review' && (
+                        <div className="space-y-4">
+                            <ReviewStep form={form} selectedSite={selectedSite} />
+                            <LiveArticlePreview
+                                campaign={{ ...buildCampaignData(form), id: campaign?.id }}
+                                defaultTopic={form.keywords.split('\n').find(k => k.trim())?.trim()}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 {/* Footer */}
@@ -152,7 +184,7 @@ export function CampaignEditor({ campaign, onClose }: CampaignEditorProps) {
                     <div className="flex items-center gap-2">
                         <button onClick={onClose} className="px-4 py-2 text-neutral-600 hover:text-neutral-800">Cancel</button>
                         {isLast ? (
-                            <button onClick={handleSave} disabled={saving || !form.name || !form.targetSiteId} className="px-6 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50">
+                            <button onClick={handleSave} disabled={saving || !form.name || !form.targetSiteId || !pipelineValid || !scheduleValid} className="px-6 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50">
                                 {saving ? 'Saving...' : campaign ? 'Update Campaign' : 'Create Campaign'}
                             </button>
                         ) : (
@@ -220,7 +252,7 @@ function buildCampaignData(form: EditorFormState) {
         sourceConfig = {
             type: 'keywords' as const,
             keywords: form.keywords.split('\n').filter(k => k.trim()),
-            rotateMode: 'sequential' as const,
+            rotateMode: form.keywordRotateMode,
             currentIndex: 0,
             skipUsed: true,
         } as KeywordSourceConfig;
@@ -266,15 +298,20 @@ function buildCampaignData(form: EditorFormState) {
             abTestTitles: form.abTestTitles,
             abTestCovers: form.abTestCovers,
             abTestRespins: form.abTestRespins,
+            abTestMethod: form.abTestMethod,
+            abTestAutoApply: form.abTestAutoApply,
             // Analytics
             analyticsEnabled: form.analyticsEnabled,
             // Phase 2: Quality & E-E-A-T
             injectEEATSignals: form.injectEEATSignals,
             qualityGateEnabled: form.qualityGateEnabled,
+            factCheckClaims: form.factCheckClaims,
             humanize: form.humanize,
             optimizeReadability: form.optimizeReadability,
         } as AIConfig,
-        schedule: { type: form.scheduleType, intervalHours: form.intervalHours, maxPostsPerRun: form.maxPostsPerRun, pauseOnError: true } as ScheduleConfig,
+        // Only customized pipelines are stored, so default campaigns pick up new stages
+        pipeline: isDefaultPipelineDefinition(form.pipeline) ? undefined : form.pipeline,
+        schedule: buildScheduleConfig(form),
         // Multi-site config (stored in campaign for future use)
         multiSite: form.enableMultiSite ? {
             additionalSiteIds: form.additionalSiteIds,
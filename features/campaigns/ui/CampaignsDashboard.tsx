@@ -11,18 +11,23 @@ import { useCampaignStore } from '../model/campaignStore';
 import { useWPSitesLegacy } from '@/features/wordpress/model/wpSiteStore';
 import { CampaignCard } from './CampaignCard';
 import { CampaignEditor } from './CampaignEditor';
-import type { Campaign } from '../model/types';
+import type { Campaign, SourceItem } from '../model/types';
 import { runPipeline, createRun } from '../lib/processor';
-import { ReviewDashboard, useReviewStore } from '@/features/editorial';
+import { ReviewDashboard, useReviewStore, type ReviewItem } from '@/features/editorial';
 import { MediaLibraryPanel } from '../components/MediaLibraryPanel';
 import { useMediaAssetLibrary } from '../lib/mediaAssetLibrary';
+import { previewPipeline, type DryRunReport } from '../lib/pipeline/dryRun';
+import { computeNextRunAt, validateSchedule } from '../lib/scheduler';
+import { getDueManualItems } from '../lib/clusterPlanner';
+import { DryRunPreview } from './DryRunPreview';
 
 export function CampaignsDashboard() {
-    const { campaigns, addRun, updateRun, incrementGenerated, incrementPublished, incrementFailed, updateStats, updateSchedule } = useCampaignStore();
+    const { campaigns, addRun, updateRun, incrementGenerated, incrementPublished, incrementFailed, updateStats, updateSchedule, updateManualTopic } = useCampaignStore();
     const { sites } = useWPSitesLegacy();
     const [showEditor, setShowEditor] = useState(false);
     const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
     const [activeTab, setActiveTab] = useState<'campaigns' | 'review' | 'media'>('campaigns');
+    const [previewReport, setPreviewReport] = useState<DryRunReport | null>(null);
     const pendingReviewCount = useReviewStore(state => state.items.filter(i => i.status === 'pending_review').length);
     // Don't call getStats() in selector - it returns new object each time causing infinite loop
     // Instead, just get totalAssets count directly from libraries
@@ -69,7 +74,7 @@ export function CampaignsDashboard() {
 
         try {
             // Get source items based on campaign source type
-            const sourceItems = getSourceItems(campaign);
+            const sourceItems = await getSourceItems(campaign);
             const maxPosts = campaign.schedule.maxPostsPerRun;
             const itemsToProcess = sourceItems.slice(0, maxPosts);
 
@@ -106,6 +111,13 @@ export function CampaignsDashboard() {
                             lastPostUrl: result.wpResult.postUrl,
                         });
                     }
+                    if (sourceItem.sourceType === 'manual') {
+                        updateManualTopic(campaign.id, sourceItem.id, {
+                            status: result.wpResult ? 'published' : 'generated',
+                            postId: result.wpResult?.postId,
+                            postUrl: result.wpResult?.postUrl,
+                        });
+                    }
 
                     run.postsGenerated++;
                     run.postsPublished++;
@@ -136,10 +148,10 @@ export function CampaignsDashboard() {
             completeAction(actionId, `Complete: ${successCount} published${failCount > 0 ? `, ${failCount} failed` : ''}`);
 
             // Update next run time
-            if (campaign.schedule.type === 'interval' && campaign.schedule.intervalHours) {
+            if (campaign.schedule.type !== 'manual' && validateSchedule(campaign.schedule).valid) {
                 updateSchedule(campaign.id, {
                     lastRunAt: Date.now(),
-                    nextRunAt: Date.now() + (campaign.schedule.intervalHours * 60 * 60 * 1000),
+                    nextRunAt: computeNextRunAt(campaign.schedule, Date.now()),
                 });
             }
 
@@ -152,6 +164,36 @@ export function CampaignsDashboard() {
         }
     };
 
+    const handlePreviewCampaign = async (campaign: Campaign) => {
+        const site = sites.find(s => s.id === campaign.targetSiteId);
+        if (!site) {
+            alert('Target WordPress site not found or not connected.');
+            return;
+        }
+
+        const [sourceItem] = await getSourceItems(campaign);
+        if (!sourceItem) {
+            alert('No pending topics to preview for this campaign.');
+            return;
+        }
+
+        setPreviewReport(await previewPipeline(campaign, sourceItem, site));
+    };
+
+    const handleRepublishRefresh = async (item: ReviewItem) => {
+        const site = sites.find(s => s.id === item.siteId);
+        if (!site) {
+            alert('WordPress site for this post was not found.');
+            return;
+        }
+
+        const { publishRefresh } = await import('../lib/contentRefresh');
+        const result = await publishRefresh(item, site);
+        if (!result.success) {
+            alert(`Republish failed: ${result.error}`);
+        }
+    };
+
     const handleEdit = (campaign: Campaign) => {
         setEditingCampaign(campaign);
         setShowEditor(true);
@@ -283,7 +325,7 @@ export function CampaignsDashboard() {
 
             {/* Tab Content */}
             {activeTab === 'review' ? (
-                <ReviewDashboard />
+                <ReviewDashboard onRepublishRefresh={handleRepublishRefresh} />
             ) : activeTab === 'media' ? (
                 <div className="bg-white rounded-2xl border border-neutral-200 overflow-hidden" style={{ minHeight: '600px' }}>
                     <MediaLibraryPanel />
@@ -319,6 +361,7 @@ export function CampaignsDashboard() {
                                     campaign={campaign}
                                     onEdit={handleEdit}
                                     onRun={handleRunCampaign}
+                                    onPreview={handlePreviewCampaign}
                                 />
                             ))}
                         </div>
@@ -326,6 +369,11 @@ export function CampaignsDashboard() {
                 </>
             )}
 
+            {/* Dry-Run Preview Modal */}
+            {previewReport && (
+                <DryRunPreview report={previewReport} onClose={() => setPreviewReport(null)} />
+            )}
+
             {/* Campaign Editor Modal */}
             {showEditor && (
                 <CampaignEditor
@@ -344,12 +392,19 @@ export function CampaignsDashboard() {
 // Helpers
 // ============================================================================
 
-function getSourceItems(campaign: Campaign) {
+async function getSourceItems(campaign: Campaign): Promise<SourceItem[]> {
     const { source } = campaign;
 
     switch (source.type) {
         case 'keywords': {
             const config = source.config as import('../model/types').KeywordSourceConfig;
+
+            // Re-rank by opportunity, the same as a scheduled run
+            if (config.rotateMode === 'opportunity') {
+                const { getOpportunitySourceItems } = await import('../lib/keywordOpportunity');
+                return getOpportunitySourceItems(campaign);
+            }
+
             return config.keywords.map((kw, i) => ({
                 id: `kw_${i}`,
                 topic: kw,
@@ -357,14 +412,8 @@ function getSourceItems(campaign: Campaign) {
             }));
         }
         case 'manual': {
-            const config = source.config as import('../model/types').ManualSourceConfig;
-            return config.topics
-                .filter(t => t.status === 'pending')
-                .map(t => ({
-                    id: t.id,
-                    topic: t.topic,
-                    sourceType: 'manual' as const,
-                }));
+            // Planned topics wait for their publish date
+            return getDueManualItems(source.config as import('../model/types').ManualSourceConfig);
         }
         default:
             return [];
@@ -0,0 +1,215 @@
+'use client';
+
+/**
+ * Dry-Run Preview Modal
+ * FSD: features/campaigns/ui/DryRunPreview.tsx
+ *
+ * Renders the DryRunReport from previewPipeline(): the article as it would
+ * be published plus every side effect the real run would have performed.
+ */
+
+import { useState } from 'react';
+import { X, Eye, Send, ShieldCheck, Image as ImageIcon, Code, Share2, AlertTriangle } from 'lucide-react';
+import type { DryRunReport } from '../lib/pipeline/dryRun';
+
+interface DryRunPreviewProps {
+    report: DryRunReport;
+    onClose: () => void;
+}
+
+type Tab = 'article' | 'intents' | 'compliance' | 'formats' | 'schema';
+
+export function DryRunPreview({ report, onClose }: DryRunPreviewProps) {
+    const [tab, setTab] = useState<Tab>('article');
+
+    const tabs: { id: Tab; label: string; icon: React.ReactNode; count?: number }[] = [
+        { id: 'article', label: 'Article', icon: <Eye className="w-4 h-4" /> },
+        { id: 'intents', label: 'Would Send', icon: <Send className="w-4 h-4" />, count: report.intents.length },
+        { id: 'compliance', label: 'Compliance', icon: <ShieldCheck className="w-4 h-4" />, count: report.compliance?.issues.length },
+        { id: 'formats', label: 'Formats', icon: <Share2 className="w-4 h-4" /> },
+        { id: 'schema', label: 'Schema', icon: <Code className="w-4 h-4" />, count: report.schema.length },
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="px-6 py-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-semibold">Preview: {report.topic}</h2>
+                        <p className="text-xs text-indigo-100">
+                            Dry run · {Math.round(report.durationMs / 1000)}s · nothing was published
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-white/20 rounded-lg"><X className="w-5 h-5" /></button>
+                </div>
+
+                {report.status === 'failed' && (
+                    <div className="px-6 py-3 bg-red-50 border-b border-red-200 text-sm text-red-700 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        {report.error || 'Preview failed'}
+                    </div>
+                )}
+
+                {/* Tabs */}
+                <div className="px-6 py-2 bg-neutral-50 border-b border-neutral-200 flex gap-1">
+                    {tabs.map(t => (
+                        <button
+                            key={t.id}
+                            onClick={() => setTab(t.id)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm ${tab === t.id ? 'bg-indigo-100 text-indigo-700 font-medium' : 'text-neutral-600 hover:bg-neutral-100'}`}
+                        >
+                            {t.icon}
+                            {t.label}
+                            {t.count !== undefined && t.count > 0 && (
+                                <span className="text-xs px-1.5 rounded-full bg-neutral-200 text-neutral-700">{t.count}</span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6">
+                    {tab === 'article' && <ArticleTab report={report} />}
+                    {tab === 'intents' && <IntentsTab report={report} />}
+                    {tab === 'compliance' && <ComplianceTab report={report} />}
+                    {tab === 'formats' && <FormatsTab report={report} />}
+                    {tab === 'schema' && (
+                        <pre className="text-xs bg-neutral-900 text-neutral-100 p-4 rounded-lg overflow-x-auto">
+                            {JSON.stringify(report.schema, null, 2)}
+                        </pre>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// ============================================================================
+// Tabs
+// ============================================================================
+
+function ArticleTab({ report }: { report: DryRunReport }) {
+    if (!report.content) {
+        return <p className="text-sm text-neutral-500">No content was generated.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-xs">
+                <Badge>{report.content.wordCount} words</Badge>
+                <Badge>/{report.content.slug}</Badge>
+                {report.author && <Badge>Author: {report.author.name}</Badge>}
+                {report.qualityScore && <Badge>E-E-A-T {report.qualityScore.eeat}</Badge>}
+                {report.needsManualReview && <Badge tone="amber">Needs manual review</Badge>}
+            </div>
+
+            {report.images.cover && (
+                <div>
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={report.images.cover.url} alt={report.images.cover.alt} className="w-full max-h-64 object-cover rounded-lg" />
+                </div>
+            )}
+            <div className="flex items-center gap-2 text-xs text-neutral-500">
+                <ImageIcon className="w-3.5 h-3.5" />
+                {report.images.inline.length} inline image(s), {report.images.candidates} candidate(s) collected
+            </div>
+
+            <h1 className="text-2xl font-bold text-neutral-900">{report.content.title}</h1>
+            {report.content.excerpt && <p className="text-neutral-500 italic">{report.content.excerpt}</p>}
+            <div
+                className="prose prose-sm max-w-none"
+                dangerouslySetInnerHTML={{ __html: report.content.html }}
+            />
+        </div>
+    );
+}
+
+function IntentsTab({ report }: { report: DryRunReport }) {
+    if (report.intents.length === 0) {
+        return <p className="text-sm text-neutral-500">No external side effects would have run.</p>;
+    }
+
+    return (
+        <div className="space-y-2">
+            {report.intents.map((intent, i) => (
+                <div key={`${intent.stageId}_${i}`} className="p-3 border border-neutral-200 rounded-lg">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-neutral-800">{intent.summary}</span>
+                        <Badge>{intent.action}</Badge>
+                    </div>
+                    <div className="text-xs text-neutral-500 mt-1">→ {intent.target} · stage {intent.stageId}</div>
+                    {intent.payload && (
+                        <pre className="text-xs text-neutral-600 mt-2 bg-neutral-50 p-2 rounded overflow-x-auto">
+                            {JSON.stringify(intent.payload, null, 2)}
+                        </pre>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function ComplianceTab({ report }: { report: DryRunReport }) {
+    const compliance = report.compliance;
+    if (!compliance) {
+        return <p className="text-sm text-neutral-500">Compliance stage did not run.</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex gap-2 text-xs">
+                <Badge tone={compliance.isCompliant ? 'green' : 'amber'}>
+                    Score {compliance.score}/100 · {compliance.isCompliant ? 'Compliant' : 'Needs review'}
+                </Badge>
+                {compliance.prePublish && (
+                    <Badge tone={compliance.prePublish.ready ? 'green' : 'amber'}>
+                        Pre-publish {compliance.prePublish.ready ? 'ready' : 'blocked'}
+                    </Badge>
+                )}
+            </div>
+            {compliance.prePublish?.blockers.map(blocker => (
+                <div key={blocker} className="text-sm text-red-700">• {blocker}</div>
+            ))}
+            {compliance.issues.map((issue, i) => (
+                <div key={i} className="p-2 border border-neutral-200 rounded text-sm">
+                    <span className="font-medium">[{issue.severity}] {issue.category}:</span> {issue.description}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function FormatsTab({ report }: { report: DryRunReport }) {
+    if (!report.multiFormat && !report.videoScript) {
+        return <p className="text-sm text-neutral-500">No multi-format outputs were generated.</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            {report.multiFormat && Object.entries(report.multiFormat).map(([format, output]) => output && (
+                <div key={format} className="p-3 border border-neutral-200 rounded-lg">
+                    <div className="text-sm font-medium text-neutral-800 mb-1">{format}</div>
+                    <pre className="text-xs text-neutral-600 whitespace-pre-wrap">{JSON.stringify(output, null, 2)}</pre>
+                </div>
+            ))}
+            {report.videoScript && (
+                <div className="p-3 border border-neutral-200 rounded-lg">
+                    <div className="text-sm font-medium text-neutral-800 mb-1">
+                        Video script ({report.videoScript.platform}, {report.videoScript.targetDuration}s)
+                    </div>
+                    <p className="text-sm text-neutral-700">{report.videoScript.title}</p>
+                    <p className="text-xs text-neutral-500 mt-1">Hook: {report.videoScript.hook}</p>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function Badge({ children, tone = 'neutral' }: { children: React.ReactNode; tone?: 'neutral' | 'green' | 'amber' }) {
+    const tones = {
+        neutral: 'bg-neutral-100 text-neutral-700',
+        green: 'bg-green-100 text-green-700',
+        amber: 'bg-amber-100 text-amber-700',
+    };
+    return <span className={`px-2 py-0.5 rounded-full ${tones[tone]}`}>{children}</span>;
+}
@@ -5,10 +5,26 @@
  * FSD: features/campaigns/ui/EditorSteps.tsx
  */
 
-import { Globe, Languages } from 'lucide-react';
+import { Globe, Languages, ChevronUp, ChevronDown, AlertTriangle } from 'lucide-react';
 import type { WPSite } from '@/features/wordpress';
-import type { AIConfig, LanguageMapping } from '../model/types';
+import type {
+    AIConfig,
+    LanguageMapping,
+    MissedRunPolicy,
+    PipelineDefinition,
+    PipelineGroupDefinition,
+    PipelineStageDefinition,
+} from '../model/types';
 import { AuthorSelector } from '../components/AuthorSelector';
+import {
+    PIPELINE_PRESETS,
+    getPipelineCatalog,
+    getStageOption,
+    setStageOption,
+    validatePipelineDefinition,
+    type PipelinePresetId,
+} from '../lib/pipeline/composition';
+import type { StageOptionField } from '../lib/pipeline/types';
 
 // ============================================================================
 // Types
@@ -22,6 +38,7 @@ export interface EditorFormState {
     postStatus: 'publish' | 'draft' | 'pending';
     sourceType: 'keywords' | 'rss' | 'trends' | 'manual' | 'translation';
     keywords: string;
+    keywordRotateMode: 'sequential' | 'random' | 'opportunity';  // Keywords: pick order
     rssFeedUrls: string;  // RSS: one URL per line
     rssAiRewrite: boolean; // RSS: AI rewrite content
     trendsRegion: string;  // Trends: region code
@@ -58,18 +75,28 @@ export interface EditorFormState {
     abTestTitles: boolean;
     abTestCovers: boolean;
     abTestRespins: boolean;
+    abTestMethod: 'bayesian' | 'sequential';
+    abTestAutoApply: boolean;
     // Analytics
     analyticsEnabled: boolean;
     // Phase 2: Quality & Author
     authorId: string;           // Selected author profile
     injectEEATSignals: boolean; // Auto-inject E-E-A-T phrases
     qualityGateEnabled: boolean; // Enable quality scoring
+    factCheckClaims: boolean;   // Verify claims against research
     humanize: boolean;          // Run through humanizer
     optimizeReadability: boolean; // Optimize readability
+    // Pipeline composition
+    pipeline: PipelineDefinition;
     // Schedule
     scheduleType: 'manual' | 'interval' | 'cron';
     intervalHours: number;
+    cronExpression: string;
+    timezone: string;
+    missedRunPolicy: MissedRunPolicy;
+    maxCatchUpRuns: number;
     maxPostsPerRun: number;
+    maxPostsPerSitePerDay: number;  // 0 = no cap
 }
 
 type FormUpdater = <K extends keyof EditorFormState>(
@@ -235,6 +262,16 @@ export function SourceStep({ form, updateField, sites }: SourceStepProps & { sit
                     <p className="mt-1 text-xs text-neutral-500">
                         {form.keywords.split('\n').filter(k => k.trim()).length} keywords
                     </p>
+                    <label className="block text-sm font-medium text-neutral-700 mt-3 mb-1">Rotation</label>
+                    <select
+                        value={form.keywordRotateMode}
+                        onChange={(e) => updateField('keywordRotateMode', e.target.value as EditorFormState['keywordRotateMode'])}
+                        className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                    >
+                        <option value="sequential">Sequential (in list order)</option>
+                        <option value="random">Random</option>
+                        <option value="opportunity">Opportunity (CPC, trends, site coverage, past performance)</option>
+                    </select>
                 </div>
             )}
             {form.sourceType === 'rss' && (
@@ -507,6 +544,11 @@ export function AIStep({ form, updateField, sites = [] }: AIStepProps) {
                         checked={form.qualityGateEnabled}
                         onChange={(v) => updateField('qualityGateEnabled', v)}
                     />
+                    <Checkbox
+                        label="Fact-check claims against research (fix contradictions, add citations)"
+                        checked={form.factCheckClaims}
+                        onChange={(v) => updateField('factCheckClaims', v)}
+                    />
                     <Checkbox
                         label="Humanize content (reduce AI detection)"
                         checked={form.humanize}
@@ -627,6 +669,22 @@ export function AIStep({ form, updateField, sites = [] }: AIStepProps) {
                                 checked={form.abTestRespins}
                                 onChange={(v) => updateField('abTestRespins', v)}
                             />
+                            <Checkbox
+                                label="Apply the winning title/cover automatically"
+                                checked={form.abTestAutoApply}
+                                onChange={(v) => updateField('abTestAutoApply', v)}
+                            />
+                            <div>
+                                <label className="block text-xs text-neutral-500 mb-1">Winner evaluation</label>
+                                <select
+                                    value={form.abTestMethod}
+                                    onChange={(e) => updateField('abTestMethod', e.target.value as 'bayesian' | 'sequential')}
+                                    className="px-3 py-1.5 text-sm border border-neutral-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    <option value="bayesian">Bayesian (95% probability to be best)</option>
+                                    <option value="sequential">Sequential (95% confidence, safe to monitor)</option>
+                                </select>
+                            </div>
                         </div>
                     )}
                 </div>
@@ -652,6 +710,254 @@ export function AIStep({ form, updateField, sites = [] }: AIStepProps) {
     );
 }
 
+// ============================================================================
+// Step 3b: Pipeline
+// ============================================================================
+
+interface PipelineStepProps {
+    form: EditorFormState;
+    updateField: FormUpdater;
+}
+
+export function PipelineStep({ form, updateField }: PipelineStepProps) {
+    const catalog = getPipelineCatalog();
+    const definition = form.pipeline;
+    const validation = validatePipelineDefinition(definition);
+    const retry = definition.retryPolicy ?? { maxAttempts: 1, backoffMs: 0 };
+
+    const setGroups = (groups: PipelineGroupDefinition[]) => {
+        updateField('pipeline', { ...definition, groups });
+    };
+
+    const updateGroup = (groupId: string, updates: Partial<PipelineGroupDefinition>) => {
+        setGroups(definition.groups.map(g => (g.id === groupId ? { ...g, ...updates } : g)));
+    };
+
+    const moveGroup = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= definition.groups.length) return;
+        const groups = [...definition.groups];
+        [groups[index], groups[target]] = [groups[target], groups[index]];
+        setGroups(groups);
+    };
+
+    const updateStage = (groupId: string, stageId: string, updates: Partial<PipelineStageDefinition>) => {
+        const group = definition.groups.find(g => g.id === groupId);
+        if (!group) return;
+        updateGroup(groupId, {
+            stages: group.stages.map(s => (s.id === stageId ? { ...s, ...updates } : s)),
+        });
+    };
+
+    const moveStage = (groupId: string, index: number, direction: -1 | 1) => {
+        const group = definition.groups.find(g => g.id === groupId);
+        const target = index + direction;
+        if (!group || target < 0 || target >= group.stages.length) return;
+        const stages = [...group.stages];
+        [stages[index], stages[target]] = [stages[target], stages[index]];
+        updateGroup(groupId, { stages });
+    };
+
+    const setOption = (groupId: string, stage: PipelineStageDefinition, field: StageOptionField, raw: string) => {
+        const value = raw === '' ? undefined : field.type === 'number' ? Number(raw) : raw;
+        updateStage(groupId, stage.id, { options: setStageOption(stage.options, field.key, value) });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-2">Preset</label>
+                <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(PIPELINE_PRESETS) as PipelinePresetId[]).map(id => (
+                        <button
+                            key={id}
+                            onClick={() => updateField('pipeline', PIPELINE_PRESETS[id].build())}
+                            className="px-4 py-3 rounded-lg border border-neutral-200 hover:border-indigo-400 text-left transition-colors"
+                        >
+                            <div className="font-medium">{PIPELINE_PRESETS[id].name}</div>
+                            <div className="text-xs text-neutral-500">{PIPELINE_PRESETS[id].description}</div>
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                {definition.groups.map((group, index) => {
+                    const meta = catalog.find(c => c.id === group.id);
+                    return (
+                        <div
+                            key={group.id}
+                            className={`p-3 rounded-lg border ${group.enabled ? 'border-neutral-200 bg-white' : 'border-neutral-100 bg-neutral-50 opacity-60'}`}
+                        >
+                            <div className="flex items-center justify-between">
+                                <label className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={group.enabled}
+                                        onChange={(e) => updateGroup(group.id, { enabled: e.target.checked })}
+                                        className="rounded border-neutral-300 text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    <span className="text-sm font-medium text-neutral-800">
+                                        {index + 1}. {meta?.name || group.id}
+                                    </span>
+                                </label>
+                                <div className="flex items-center gap-2">
+                                    <label className="flex items-center gap-1 text-xs text-neutral-500">
+                                        <input
+                                            type="checkbox"
+                                            checked={group.parallel ?? meta?.defaultParallel ?? false}
+                                            onChange={(e) => updateGroup(group.id, { parallel: e.target.checked })}
+                                            className="rounded border-neutral-300 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                        Parallel
+                                    </label>
+                                    <button
+                                        onClick={() => moveGroup(index, -1)}
+                                        disabled={index === 0}
+                                        className="p-1 text-neutral-500 hover:text-neutral-800 disabled:opacity-30"
+                                        title="Move up"
+                                    >
+                                        <ChevronUp className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => moveGroup(index, 1)}
+                                        disabled={index === definition.groups.length - 1}
+                                        className="p-1 text-neutral-500 hover:text-neutral-800 disabled:opacity-30"
+                                        title="Move down"
+                                    >
+                                        <ChevronDown className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                            {group.enabled && (
+                                <div className="mt-2 ml-6 space-y-1">
+                                    {group.stages.map((stage, stageIndex) => {
+                                        const stageMeta = meta?.stages.find(s => s.id === stage.id);
+                                        const optionFields = stageMeta?.optionFields ?? [];
+                                        return (
+                                            <div key={stage.id}>
+                                                <div className="flex items-center justify-between">
+                                                    <label className="flex items-center gap-2 text-sm text-neutral-700">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={stage.enabled}
+                                                            disabled={stageMeta ? !stageMeta.optional : false}
+                                                            onChange={(e) => updateStage(group.id, stage.id, { enabled: e.target.checked })}
+                                                            className="rounded border-neutral-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-50"
+                                                        />
+                                                        {stageMeta?.name || stage.id}
+                                                    </label>
+                                                    {!(group.parallel ?? meta?.defaultParallel) && (
+                                                        <div className="flex items-center">
+                                                            <button
+                                                                onClick={() => moveStage(group.id, stageIndex, -1)}
+                                                                disabled={stageIndex === 0}
+                                                                className="p-0.5 text-neutral-400 hover:text-neutral-800 disabled:opacity-30"
+                                                                title="Move stage up"
+                                                            >
+                                                                <ChevronUp className="w-3.5 h-3.5" />
+                                                            </button>
+                                                            <button
+                                                                onClick={() => moveStage(group.id, stageIndex, 1)}
+                                                                disabled={stageIndex === group.stages.length - 1}
+                                                                className="p-0.5 text-neutral-400 hover:text-neutral-800 disabled:opacity-30"
+                                                                title="Move stage down"
+                                                            >
+                                                                <ChevronDown className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                                {stage.enabled && optionFields.length > 0 && (
+                                                    <div className="ml-6 mt-1 mb-2 grid grid-cols-2 gap-2">
+                                                        {optionFields.map(field => {
+                                                            const value = getStageOption(stage.options, field.key);
+                                                            return (
+                                                                <label key={field.key} className="block text-xs text-neutral-500">
+                                                                    {field.label}
+                                                                    {field.type === 'select' ? (
+                                                                        <select
+                                                                            value={typeof value === 'string' ? value : ''}
+                                                                            onChange={(e) => setOption(group.id, stage, field, e.target.value)}
+                                                                            className="mt-0.5 w-full px-2 py-1 border border-neutral-300 rounded text-sm"
+                                                                        >
+                                                                            <option value="">Default</option>
+                                                                            {field.choices?.map(choice => (
+                                                                                <option key={choice} value={choice}>{choice}</option>
+                                                                            ))}
+                                                                        </select>
+                                                                    ) : (
+                                                                        <input
+                                                                            type="number"
+                                                                            min={field.min}
+                                                                            max={field.max}
+                                                                            step={field.step}
+                                                                            value={typeof value === 'number' ? value : ''}
+                                                                            placeholder="Default"
+                                                                            onChange={(e) => setOption(group.id, stage, field, e.target.value)}
+                                                                            className="mt-0.5 w-full px-2 py-1 border border-neutral-300 rounded text-sm"
+                                                                        />
+                                                                    )}
+                                                                </label>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 pt-2 border-t border-neutral-200">
+                <div>
+                    <label className="block text-sm font-medium text-neutral-700 mb-1">Attempts per Stage</label>
+                    <input
+                        type="number"
+                        min={1}
+                        max={5}
+                        value={retry.maxAttempts}
+                        onChange={(e) => updateField('pipeline', {
+                            ...definition,
+                            retryPolicy: { ...retry, maxAttempts: Number(e.target.value) || 1 },
+                        })}
+                        className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-neutral-700 mb-1">Retry Backoff (ms)</label>
+                    <input
+                        type="number"
+                        min={0}
+                        step={500}
+                        value={retry.backoffMs}
+                        onChange={(e) => updateField('pipeline', {
+                            ...definition,
+                            retryPolicy: { ...retry, backoffMs: Number(e.target.value) || 0 },
+                        })}
+                        className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                    />
+                </div>
+            </div>
+
+            {!validation.valid && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 space-y-1">
+                    {validation.errors.map(error => (
+                        <div key={error} className="flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span>{error}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
 function Checkbox({ label, checked, onChange }: { label: string; checked: boolean; onChange: (v: boolean) => void }) {
     return (
         <label className="flex items-center gap-2">
@@ -5,9 +5,13 @@
  * FSD: features/campaigns/ui/EditorSteps2.tsx
  */
 
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
 import type { EditorFormState } from './EditorSteps';
 import type { WPSite } from '@/features/wordpress';
+import type { ScheduleConfig } from '../model/types';
 import { ROIPredictionCard } from '../components/ROIPredictionCard';
+import { computeNextRunAt, getCronRunsBetween, validateSchedule } from '../lib/scheduler';
 
 type FormUpdater = <K extends keyof EditorFormState>(
     field: K,
@@ -23,13 +27,46 @@ interface ScheduleStepProps {
     updateField: FormUpdater;
 }
 
+/**
+ * Schedule config from the editor form. Cron schedules get their first
+ * window computed up front; interval schedules run on the next cron tick.
+ */
+export function buildScheduleConfig(form: EditorFormState): ScheduleConfig {
+    const schedule: ScheduleConfig = {
+        type: form.scheduleType,
+        intervalHours: form.intervalHours,
+        maxPostsPerRun: form.maxPostsPerRun,
+        maxPostsPerSitePerDay: form.maxPostsPerSitePerDay > 0 ? form.maxPostsPerSitePerDay : undefined,
+        pauseOnError: true,
+    };
+
+    if (form.scheduleType === 'cron') {
+        schedule.cronExpression = form.cronExpression.trim();
+        schedule.timezone = form.timezone.trim() || 'UTC';
+        schedule.missedRunPolicy = form.missedRunPolicy;
+        schedule.maxCatchUpRuns = form.maxCatchUpRuns;
+        if (validateSchedule(schedule).valid) {
+            schedule.nextRunAt = computeNextRunAt(schedule, Date.now());
+        }
+    }
+
+    return schedule;
+}
+
 export function ScheduleStep({ form, updateField }: ScheduleStepProps) {
     const scheduleOptions = [
         { id: 'manual', label: 'Manual', desc: 'Run manually' },
         { id: 'interval', label: 'Interval', desc: 'Run every X hours' },
-        { id: 'cron', label: 'Cron', desc: 'Coming soon' },
+        { id: 'cron', label: 'Cron', desc: 'Cron expression in a time zone' },
     ] as const;
 
+    const [openedAt] = useState(() => Date.now());
+    const schedule = buildScheduleConfig(form);
+    const { errors } = validateSchedule(schedule);
+    const upcomingRuns = form.scheduleType === 'cron' && errors.length === 0
+        ? getCronRunsBetween(schedule.cronExpression!, openedAt, Infinity, schedule.timezone, 3)
+        : [];
+
     return (
         <div className="space-y-4">
             <div>
@@ -39,11 +76,10 @@ export function ScheduleStep({ form, updateField }: ScheduleStepProps) {
                         <button
                             key={opt.id}
                             onClick={() => updateField('scheduleType', opt.id)}
-                            disabled={opt.id === 'cron'}
                             className={`px-4 py-3 rounded-lg border text-left transition-colors ${form.scheduleType === opt.id
                                 ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
                                 : 'border-neutral-200 hover:border-neutral-300'
-                                } ${opt.id === 'cron' ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                }`}
                         >
                             <div className="font-medium">{opt.label}</div>
                             <div className="text-xs text-neutral-500">{opt.desc}</div>
@@ -64,6 +100,78 @@ export function ScheduleStep({ form, updateField }: ScheduleStepProps) {
                     />
                 </div>
             )}
+            {form.scheduleType === 'cron' && (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-neutral-700 mb-1">Cron Expression</label>
+                            <input
+                                type="text"
+                                value={form.cronExpression}
+                                onChange={(e) => updateField('cronExpression', e.target.value)}
+                                placeholder="0 9 * * 1-5"
+                                className="w-full px-4 py-2 border border-neutral-300 rounded-lg font-mono focus:ring-2 focus:ring-indigo-500"
+                            />
+                            <p className="mt-1 text-xs text-neutral-500">minute hour day month weekday, or @daily / @weekly</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-neutral-700 mb-1">Time Zone</label>
+                            <input
+                                type="text"
+                                value={form.timezone}
+                                onChange={(e) => updateField('timezone', e.target.value)}
+                                placeholder="America/New_York"
+                                className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                            />
+                            <p className="mt-1 text-xs text-neutral-500">IANA name; DST is handled automatically</p>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-neutral-700 mb-1">Missed Runs</label>
+                            <select
+                                value={form.missedRunPolicy}
+                                onChange={(e) => updateField('missedRunPolicy', e.target.value as EditorFormState['missedRunPolicy'])}
+                                className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                            >
+                                <option value="catch_up">Catch up</option>
+                                <option value="skip">Skip (run only if under 1h late)</option>
+                            </select>
+                        </div>
+                        {form.missedRunPolicy === 'catch_up' && (
+                            <div>
+                                <label className="block text-sm font-medium text-neutral-700 mb-1">Max Catch-up Runs</label>
+                                <input
+                                    type="number"
+                                    value={form.maxCatchUpRuns}
+                                    onChange={(e) => updateField('maxCatchUpRuns', Number(e.target.value))}
+                                    min={1}
+                                    max={24}
+                                    className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                                />
+                            </div>
+                        )}
+                    </div>
+                    {upcomingRuns.length > 0 && (
+                        <div className="p-3 bg-neutral-50 rounded-lg text-xs text-neutral-600">
+                            <div className="font-medium text-neutral-700 mb-1">Next runs ({schedule.timezone})</div>
+                            {upcomingRuns.map(ts => (
+                                <div key={ts}>{new Date(ts).toLocaleString(undefined, { timeZone: schedule.timezone, dateStyle: 'medium', timeStyle: 'short' })}</div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+            {errors.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+                    {errors.map(error => (
+                        <div key={error} className="flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            {error}
+                        </div>
+                    ))}
+                </div>
+            )}
             <div>
                 <label className="block text-sm font-medium text-neutral-700 mb-1">Max Posts Per Run</label>
                 <input
@@ -76,6 +184,17 @@ export function ScheduleStep({ form, updateField }: ScheduleStepProps) {
                 />
                 <p className="mt-1 text-xs text-neutral-500">Limit posts per run to manage costs</p>
             </div>
+            <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-1">Max Posts Per Site Per Day</label>
+                <input
+                    type="number"
+                    value={form.maxPostsPerSitePerDay}
+                    onChange={(e) => updateField('maxPostsPerSitePerDay', Number(e.target.value))}
+                    min={0}
+                    className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                />
+                <p className="mt-1 text-xs text-neutral-500">Counts posts from every campaign on the target site. 0 = no cap</p>
+            </div>
         </div>
     );
 }
@@ -91,7 +210,11 @@ interface ReviewStepProps {
 
 export function ReviewStep({ form, selectedSite }: ReviewStepProps) {
     const keywordCount = form.keywords.split('\n').filter(k => k.trim()).length;
-    const scheduleLabel = form.scheduleType === 'manual' ? 'Manual' : `Every ${form.intervalHours}h`;
+    const scheduleLabel = form.scheduleType === 'manual'
+        ? 'Manual'
+        : form.scheduleType === 'cron'
+            ? `${form.cronExpression} (${form.timezone})`
+            : `Every ${form.intervalHours}h`;
 
     // Build ROI prediction attributes from form
     const roiAttributes = {
@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Live Article Preview - streams a sample article for the campaign being edited
+ * FSD: features/campaigns/ui/LiveArticlePreview.tsx
+ *
+ * Uses the same prompt as the pipeline's content stage (buildContentRequest)
+ * but streams it, so tone/length/provider choices can be judged while the
+ * article is being written. Nothing is saved or published.
+ */
+
+import { useState } from 'react';
+import { Sparkles, Square, RotateCcw, AlertTriangle } from 'lucide-react';
+import type { Campaign } from '../model/types';
+import { buildContentRequest } from '../lib/contentGenerator';
+import { useGenerationStream } from '@/lib/shared/hooks/useGenerationStream';
+import { sanitizeHtml } from '@/lib/security/sanitize';
+
+interface LiveArticlePreviewProps {
+    campaign: Pick<Campaign, 'name' | 'aiConfig'> & { id?: string };
+    defaultTopic?: string;
+}
+
+export function LiveArticlePreview({ campaign, defaultTopic = '' }: LiveArticlePreviewProps) {
+    const [topic, setTopic] = useState(defaultTopic);
+    const { text, status, handlerName, result, error, start, cancel, reset } = useGenerationStream();
+    const streaming = status === 'streaming';
+
+    const handleStart = async () => {
+        const request = await buildContentRequest(topic.trim(), campaign);
+        await start(request);
+    };
+
+    // Strip code fences some models wrap HTML in
+    const html = text.replace(/^```(?:html)?\s*/i, '').replace(/```\s*$/, '');
+    const wordCount = html.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+
+    return (
+        <div className="border border-neutral-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-3 bg-neutral-50 border-b border-neutral-200 flex items-center gap-2">
+                <Sparkles className="w-4 h-4 text-indigo-600" />
+                <h3 className="font-semibold text-neutral-900 text-sm">Live Preview</h3>
+                <input
+                    value={topic}
+                    onChange={e => setTopic(e.target.value)}
+                    placeholder="Topic or keyword"
+                    disabled={streaming}
+                    className="flex-1 ml-2 px-2 py-1 text-sm border border-neutral-300 rounded"
+                />
+                {streaming ? (
+                    <button onClick={cancel} className="flex items-center gap-1 px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700">
+                        <Square className="w-3 h-3" /> Stop
+                    </button>
+                ) : (
+                    <button onClick={handleStart} disabled={!topic.trim()} className="flex items-center gap-1 px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50">
+                        <Sparkles className="w-3 h-3" /> Write sample
+                    </button>
+                )}
+                {status !== 'idle' && !streaming && (
+                    <button onClick={reset} className="p-1 text-neutral-500 hover:bg-neutral-100 rounded" title="Clear">
+                        <RotateCcw className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+
+            {status !== 'idle' && (
+                <div className="px-4 py-1.5 text-xs text-neutral-500 border-b border-neutral-100 flex justify-between">
+                    <span>
+                        {streaming ? 'Writing' : status === 'cancelled' ? 'Stopped' : status === 'done' ? 'Finished' : 'Failed'}
+                        {handlerName && ` · ${handlerName}`}
+                    </span>
+                    <span>
+                        {wordCount} words
+                        {result?.latencyMs ? ` · ${Math.round(result.latencyMs / 1000)}s` : ''}
+                    </span>
+                </div>
+            )}
+
+            {error && (
+                <div className="px-4 py-2 text-sm text-red-700 bg-red-50 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" /> {error}
+                </div>
+            )}
+
+            {html && (
+                <div
+                    className="prose prose-sm max-w-none p-4 max-h-96 overflow-y-auto"
+                    dangerouslySetInnerHTML={{ __html: sanitizeHtml(html) }}
+                />
+            )}
+        </div>
+    );
+}
@@ -157,6 +157,11 @@ function RunCard({ run, expanded, onToggle }: RunCardProps) {
                                                 {item.wordCount} words
                                             </span>
                                         )}
+                                        {item.selectionReason && (
+                                            <span className="text-xs text-neutral-400 truncate max-w-md" title={item.selectionReason}>
+                                                {item.selectionReason}
+                                            </span>
+                                        )}
                                     </div>
                                     <div className="flex items-center gap-2">
                                         {item.status === 'done' && item.wpPostUrl && (
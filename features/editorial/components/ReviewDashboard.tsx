@@ -8,7 +8,7 @@
  * Shows queue statistics, pending items, and quick actions.
  */
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     CheckCircle,
     XCircle,
@@ -28,6 +28,11 @@ import {
 } from 'lucide-react';
 import { useReviewStore, selectPendingReviews, selectHighPriorityItems } from '../model/reviewStore';
 import type { ReviewItem, ReviewStatus, ReviewPriority } from '../model/reviewTypes';
+import type { Reviewer } from '../model/workflowTypes';
+import type { ClaimCheckReport, ClaimVerdict } from '@/lib/contentQuality';
+import { fetchReviewers } from '../lib/reviewApi';
+import { ReviewWorkflowPanel } from './ReviewWorkflowPanel';
+import { RevisionEditor } from './RevisionEditor';
 
 // ============================================================================
 // Utility Functions
@@ -109,6 +114,60 @@ function StatsCard({
     );
 }
 
+// ============================================================================
+// Claim Table
+// ============================================================================
+
+const VERDICT_STYLES: Record<ClaimVerdict, string> = {
+    supported: 'bg-green-100 text-green-700',
+    contradicted: 'bg-red-100 text-red-700',
+    unverifiable: 'bg-neutral-100 text-neutral-600',
+};
+
+function ClaimCheckTable({ report }: { report: ClaimCheckReport }) {
+    return (
+        <div className="mt-3 text-sm">
+            <p className="text-neutral-600">
+                Fact check:{' '}
+                <span className="text-green-600">{report.supported} supported</span> •{' '}
+                <span className="text-red-600">{report.contradicted} contradicted</span> •{' '}
+                {report.unverifiable} unverifiable • {report.citationsAdded} citations added
+            </p>
+            {report.checks.length > 0 && (
+                <table className="mt-2 w-full text-xs">
+                    <tbody>
+                        {report.checks.map(check => (
+                            <tr key={check.id} className="border-t border-neutral-100 align-top">
+                                <td className="py-1 pr-2 w-24">
+                                    <span className={`px-1.5 py-0.5 rounded ${VERDICT_STYLES[check.verdict]}`}>
+                                        {check.verdict}
+                                    </span>
+                                </td>
+                                <td className="py-1 pr-2 text-neutral-700">
+                                    <span className={check.resolution === 'removed' ? 'line-through' : ''}>{check.claim}</span>
+                                    {check.resolution === 'rewritten' && (
+                                        <span className="block text-green-700">→ {check.revisedText}</span>
+                                    )}
+                                    {check.evidence && (
+                                        <span className="block text-neutral-400" title={check.reason}>
+                                            {check.evidence.sourceUrl ? (
+                                                <a href={check.evidence.sourceUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                                    {check.evidence.text}
+                                                </a>
+                                            ) : check.evidence.text}
+                                        </span>
+                                    )}
+                                </td>
+                                <td className="py-1 text-neutral-500 w-20">{check.resolution}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
+
 // ============================================================================
 // Review Item Row
 // ============================================================================
@@ -117,10 +176,30 @@ interface ReviewItemRowProps {
     item: ReviewItem;
     onSelect: (id: string) => void;
     isSelected: boolean;
+    reviewer: Reviewer | null;
+    onRepublishRefresh?: (item: ReviewItem) => Promise<void>;
 }
 
-function ReviewItemRow({ item, onSelect, isSelected }: ReviewItemRowProps) {
+function ReviewItemRow({ item, onSelect, isSelected, reviewer, onRepublishRefresh }: ReviewItemRowProps) {
     const [expanded, setExpanded] = useState(false);
+    const [republishing, setRepublishing] = useState(false);
+    const [editing, setEditing] = useState(false);
+    const submitDecision = useReviewStore(state => state.submitDecision);
+
+    const canRepublish = !!item.refresh && !item.refresh.republishedAt && item.status !== 'rejected' && !!onRepublishRefresh;
+
+    const handleRepublish = async () => {
+        if (!onRepublishRefresh) return;
+        setRepublishing(true);
+        try {
+            if (item.status !== 'approved' && item.status !== 'auto_approved') {
+                submitDecision(item.id, { status: 'approved' });
+            }
+            await onRepublishRefresh(useReviewStore.getState().getReviewItem(item.id) || item);
+        } finally {
+            setRepublishing(false);
+        }
+    };
 
     return (
         <div
@@ -155,6 +234,11 @@ function ReviewItemRow({ item, onSelect, isSelected }: ReviewItemRowProps) {
                                 <AlertTriangle className="w-4 h-4 text-red-500" />
                             </span>
                         )}
+                        {item.refresh && (
+                            <span className="px-1.5 py-0.5 text-xs rounded bg-indigo-100 text-indigo-700" title="Refresh of a published post">
+                                Refresh
+                            </span>
+                        )}
                     </div>
                     <p className="text-sm text-neutral-500 truncate">
                         {item.topic} • {item.wordCount} words • {formatTimeAgo(item.createdAt)}
@@ -236,6 +320,33 @@ function ReviewItemRow({ item, onSelect, isSelected }: ReviewItemRowProps) {
                         </div>
                     )}
 
+                    {/* Refresh Diff */}
+                    {item.refresh && (
+                        <div className="mt-3 text-sm">
+                            <p className="text-neutral-600">
+                                {item.refresh.action.replace('_', ' ')} •{' '}
+                                <span className="text-green-600">+{item.refresh.diff.added}</span>{' / '}
+                                <span className="text-red-600">-{item.refresh.diff.removed}</span> paragraphs •{' '}
+                                {item.refresh.before.wordCount} → {item.refresh.after.wordCount} words •{' '}
+                                {item.refresh.preservedLinks} internal links kept
+                            </p>
+                            {item.refresh.refreshedSections.length > 0 && (
+                                <p className="text-xs text-neutral-500 mt-1">
+                                    Updated: {item.refresh.refreshedSections.join(', ')}
+                                </p>
+                            )}
+                            {item.refresh.republishError && (
+                                <p className="text-xs text-red-600 mt-1">Republish failed: {item.refresh.republishError}</p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Claim Table */}
+                    {item.claimChecks && <ClaimCheckTable report={item.claimChecks} />}
+
+                    {/* Approval Chain, Comments & Audit Trail */}
+                    {item.workflow && <ReviewWorkflowPanel item={item} reviewer={reviewer} />}
+
                     {/* Actions */}
                     <div className="mt-4 flex gap-2">
                         <button className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-1">
@@ -248,13 +359,45 @@ function ReviewItemRow({ item, onSelect, isSelected }: ReviewItemRowProps) {
                                 Auto-Approve
                             </button>
                         )}
-                        {item.status !== 'approved' && item.status !== 'auto_approved' && (
-                            <button className="px-3 py-1.5 text-sm border border-neutral-300 rounded-lg hover:bg-neutral-50 flex items-center gap-1">
+                        {item.status !== 'approved' && item.status !== 'auto_approved' && item.status !== 'rejected' && (
+                            <button
+                                onClick={() => setEditing(!editing)}
+                                className={`px-3 py-1.5 text-sm border rounded-lg flex items-center gap-1 ${editing ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-neutral-300 hover:bg-neutral-50'}`}
+                            >
                                 <Edit className="w-3.5 h-3.5" />
                                 Edit Content
+                                {item.changeRequests.some(cr => !cr.resolved) && (
+                                    <span className="text-xs text-orange-600">
+                                        ({item.changeRequests.filter(cr => !cr.resolved).length} requested)
+                                    </span>
+                                )}
                             </button>
                         )}
+                        {canRepublish && (
+                            <button
+                                onClick={handleRepublish}
+                                disabled={republishing}
+                                className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"
+                            >
+                                <RefreshCw className={`w-3.5 h-3.5 ${republishing ? 'animate-spin' : ''}`} />
+                                {item.status === 'approved' || item.status === 'auto_approved' ? 'Republish' : 'Approve & Republish'}
+                            </button>
+                        )}
+                        {item.refresh?.postUrl && (
+                            <a
+                                href={item.refresh.postUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="px-3 py-1.5 text-sm border border-neutral-300 rounded-lg hover:bg-neutral-50 flex items-center gap-1"
+                            >
+                                <ExternalLink className="w-3.5 h-3.5" />
+                                Live Post
+                            </a>
+                        )}
                     </div>
+
+                    {/* Revision Editor */}
+                    {editing && <RevisionEditor item={item} reviewer={reviewer} onClose={() => setEditing(false)} />}
                 </div>
             )}
         </div>
@@ -265,7 +408,12 @@ function ReviewItemRow({ item, onSelect, isSelected }: ReviewItemRowProps) {
 // Main Dashboard
 // ============================================================================
 
-export function ReviewDashboard() {
+interface ReviewDashboardProps {
+    /** Pushes an approved content refresh back to its published post */
+    onRepublishRefresh?: (item: ReviewItem) => Promise<void>;
+}
+
+export function ReviewDashboard({ onRepublishRefresh }: ReviewDashboardProps = {}) {
     const {
         items,
         selectedItemId,
@@ -277,12 +425,26 @@ export function ReviewDashboard() {
         sort,
         setSort,
         clearFilters,
+        currentReviewerId,
+        setCurrentReviewer,
+        syncWithServer,
+        isLoading,
+        error,
     } = useReviewStore();
 
     const stats = useMemo(() => getQueueStats(), [items]);
     const filteredItems = useMemo(() => getFilteredItems(), [items, filter, sort]);
 
     const [showFilters, setShowFilters] = useState(false);
+    const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+    const reviewer = reviewers.find(r => r.id === currentReviewerId) || null;
+
+    useEffect(() => {
+        syncWithServer();
+        fetchReviewers()
+            .then(setReviewers)
+            .catch(err => console.warn('[ReviewDashboard] Failed to load reviewers:', err));
+    }, [syncWithServer]);
 
     return (
         <div className="space-y-6">
@@ -295,6 +457,17 @@ export function ReviewDashboard() {
                     </p>
                 </div>
                 <div className="flex gap-2">
+                    <select
+                        value={currentReviewerId || ''}
+                        onChange={(e) => setCurrentReviewer(e.target.value || null)}
+                        className="px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+                        title="Act as reviewer"
+                    >
+                        <option value="">Reviewer…</option>
+                        {reviewers.filter(r => r.active).map(r => (
+                            <option key={r.id} value={r.id}>{r.name} ({r.roles.join(', ')})</option>
+                        ))}
+                    </select>
                     <button
                         onClick={() => setShowFilters(!showFilters)}
                         className={`px-3 py-2 border rounded-lg flex items-center gap-2 ${Object.keys(filter).length > 0
@@ -311,14 +484,20 @@ export function ReviewDashboard() {
                         )}
                     </button>
                     <button
+                        onClick={() => syncWithServer()}
+                        disabled={isLoading}
                         className="px-3 py-2 border border-neutral-300 rounded-lg hover:bg-neutral-50 flex items-center gap-2"
                     >
-                        <RefreshCw className="w-4 h-4" />
+                        <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
                         Refresh
                     </button>
                 </div>
             </div>
 
+            {error && (
+                <p className="text-sm text-red-600">Review sync failed: {error}</p>
+            )}
+
             {/* Stats */}
             <div className="grid grid-cols-4 gap-4">
                 <StatsCard
@@ -427,6 +606,8 @@ export function ReviewDashboard() {
                                 item={item}
                                 onSelect={selectItem}
                                 isSelected={selectedItemId === item.id}
+                                reviewer={reviewer}
+                                onRepublishRefresh={onRepublishRefresh}
                             />
                         ))}
                     </div>
@@ -0,0 +1,244 @@
+'use client';
+
+/**
+ * Review Workflow Panel
+ * FSD: features/editorial/components/ReviewWorkflowPanel.tsx
+ *
+ * Approval chain, SLA, paragraph comments and audit trail of a
+ * server-persisted review. Actions are taken as the reviewer selected in the
+ * dashboard header.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircle, XCircle, Clock, MessageSquare, History, RotateCcw } from 'lucide-react';
+import { useReviewStore } from '../model/reviewStore';
+import type { ReviewItem } from '../model/reviewTypes';
+import type { Reviewer, ReviewActionRequest, ReviewDetail } from '../model/workflowTypes';
+import { splitParagraphs } from '../lib/contentDiff';
+import { getCurrentStep, hasPermission } from '../lib/reviewWorkflow';
+import {
+    addReviewComment,
+    fetchReviewDetail,
+    resolveReviewComment,
+    submitReviewAction,
+} from '../lib/reviewApi';
+
+const STEP_STYLES = {
+    pending: 'bg-neutral-100 text-neutral-600',
+    approved: 'bg-green-100 text-green-700',
+    changes_requested: 'bg-orange-100 text-orange-700',
+    rejected: 'bg-red-100 text-red-700',
+};
+
+function formatDue(dueAt: number): { label: string; overdue: boolean } {
+    const hours = Math.round((dueAt - Date.now()) / 3600000);
+    return hours >= 0
+        ? { label: `Due in ${hours}h`, overdue: false }
+        : { label: `Overdue by ${-hours}h`, overdue: true };
+}
+
+function excerpt(html: string, length = 60): string {
+    const text = html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    return text.length > length ? `${text.substring(0, length)}…` : text;
+}
+
+interface ReviewWorkflowPanelProps {
+    item: ReviewItem;
+    reviewer: Reviewer | null;
+}
+
+export function ReviewWorkflowPanel({ item, reviewer }: ReviewWorkflowPanelProps) {
+    const applyServerItem = useReviewStore(state => state.applyServerItem);
+    const [detail, setDetail] = useState<ReviewDetail | null>(null);
+    const [notes, setNotes] = useState('');
+    const [commentParagraph, setCommentParagraph] = useState(0);
+    const [commentBody, setCommentBody] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadDetail = useCallback(async () => {
+        try {
+            setDetail(await fetchReviewDetail(item.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load review');
+        }
+    }, [item.id]);
+
+    useEffect(() => {
+        loadDetail();
+    }, [loadDetail, item.updatedAt]);
+
+    const run = async (task: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await task();
+            await loadDetail();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Action failed');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const act = (action: ReviewActionRequest) => run(async () => {
+        if (!reviewer) return;
+        applyServerItem(await submitReviewAction(item.id, reviewer.id, action));
+        setNotes('');
+    });
+
+    const comment = () => run(async () => {
+        if (!reviewer || !commentBody.trim()) return;
+        await addReviewComment(item.id, reviewer.id, commentParagraph, commentBody);
+        setCommentBody('');
+    });
+
+    const workflow = item.workflow;
+    if (!workflow) return null;
+
+    const step = getCurrentStep(item);
+    const due = formatDue(workflow.dueAt);
+    const paragraphs = splitParagraphs(item.content);
+    const canDecide = !!reviewer && !!step && reviewer.roles.includes(step.role) && item.status !== 'changes_requested';
+    const canResubmit = !!reviewer && item.status === 'changes_requested' && hasPermission(reviewer, 'resubmit');
+
+    return (
+        <div className="mt-3 space-y-3 text-sm">
+            {/* Approval Chain */}
+            <div className="flex items-center gap-2 flex-wrap">
+                {workflow.chain.map((s, i) => (
+                    <span
+                        key={i}
+                        className={`px-2 py-0.5 rounded text-xs ${STEP_STYLES[s.status]} ${i === workflow.currentStep ? 'ring-1 ring-blue-400' : ''}`}
+                        title={s.decidedByName ? `${s.decidedByName}${s.notes ? `: ${s.notes}` : ''}` : undefined}
+                    >
+                        {i + 1}. {s.role} • {s.status.replace('_', ' ')}
+                    </span>
+                ))}
+                {step && (
+                    <span className={`flex items-center gap-1 text-xs ${due.overdue ? 'text-red-600' : 'text-neutral-500'}`}>
+                        <Clock className="w-3 h-3" />
+                        {due.label}
+                        {workflow.escalations > 0 && ` • escalated ${workflow.escalations}×`}
+                    </span>
+                )}
+            </div>
+
+            {/* Decision */}
+            {(canDecide || canResubmit) && (
+                <div className="flex gap-2 items-center">
+                    {canDecide && (
+                        <>
+                            <input
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="Notes / requested changes"
+                                className="flex-1 px-2 py-1 border border-neutral-300 rounded"
+                            />
+                            <button
+                                disabled={busy}
+                                onClick={() => act({ type: 'decide', decision: { status: 'approved', notes: notes || undefined } })}
+                                className="px-2 py-1 bg-green-600 text-white rounded flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <CheckCircle className="w-3.5 h-3.5" /> Approve {step?.role}
+                            </button>
+                            <button
+                                disabled={busy || !notes.trim()}
+                                onClick={() => act({ type: 'decide', decision: { status: 'changes_requested', changeRequest: notes } })}
+                                className="px-2 py-1 border border-orange-300 text-orange-700 rounded disabled:opacity-50"
+                            >
+                                Request changes
+                            </button>
+                            <button
+                                disabled={busy}
+                                onClick={() => act({ type: 'decide', decision: { status: 'rejected', rejectionReason: notes || undefined } })}
+                                className="px-2 py-1 border border-red-300 text-red-700 rounded flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <XCircle className="w-3.5 h-3.5" /> Reject
+                            </button>
+                        </>
+                    )}
+                    {canResubmit && (
+                        <button
+                            disabled={busy}
+                            onClick={() => act({ type: 'resubmit' })}
+                            className="px-2 py-1 bg-blue-600 text-white rounded flex items-center gap-1 disabled:opacity-50"
+                        >
+                            <RotateCcw className="w-3.5 h-3.5" /> Resubmit for review
+                        </button>
+                    )}
+                </div>
+            )}
+            {!reviewer && (
+                <p className="text-xs text-neutral-500">Select a reviewer to take action.</p>
+            )}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            {/* Comments */}
+            <div>
+                <p className="text-xs text-neutral-500 mb-1 flex items-center gap-1">
+                    <MessageSquare className="w-3 h-3" /> Comments
+                </p>
+                {detail?.comments.map(c => (
+                    <div key={c.id} className={`text-xs py-1 border-t border-neutral-100 ${c.resolved ? 'opacity-50' : ''}`}>
+                        <span className="text-neutral-400">
+                            {c.anchor.paragraphIndex >= 0 ? `¶${c.anchor.paragraphIndex + 1}` : '¶ removed'} • {c.authorName}:
+                        </span>{' '}
+                        {c.body}
+                        {!c.resolved && reviewer && (
+                            <button
+                                onClick={() => run(async () => { await resolveReviewComment(item.id, reviewer.id, c.id); })}
+                                className="ml-2 text-blue-600 hover:underline"
+                            >
+                                Resolve
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {reviewer && paragraphs.length > 0 && (
+                    <div className="flex gap-2 mt-1">
+                        <select
+                            value={commentParagraph}
+                            onChange={(e) => setCommentParagraph(Number(e.target.value))}
+                            className="w-48 px-2 py-1 border border-neutral-300 rounded text-xs"
+                        >
+                            {paragraphs.map((p, i) => (
+                                <option key={i} value={i}>¶{i + 1} {excerpt(p, 30)}</option>
+                            ))}
+                        </select>
+                        <input
+                            value={commentBody}
+                            onChange={(e) => setCommentBody(e.target.value)}
+                            placeholder="Comment on this paragraph"
+                            className="flex-1 px-2 py-1 border border-neutral-300 rounded text-xs"
+                        />
+                        <button
+                            disabled={busy || !commentBody.trim()}
+                            onClick={comment}
+                            className="px-2 py-1 border border-neutral-300 rounded text-xs disabled:opacity-50"
+                        >
+                            Add
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {/* Audit Trail */}
+            {detail && detail.audit.length > 0 && (
+                <div>
+                    <p className="text-xs text-neutral-500 mb-1 flex items-center gap-1">
+                        <History className="w-3 h-3" /> Audit trail
+                    </p>
+                    <ul className="text-xs text-neutral-600 space-y-0.5">
+                        {detail.audit.map(entry => (
+                            <li key={entry.id}>
+                                <span className="text-neutral-400">{new Date(entry.at).toLocaleString()}</span>{' '}
+                                {entry.actorName}{entry.role ? ` (${entry.role})` : ''} — {entry.action.replace('_', ' ')}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+/**
+ * Revision Editor
+ * FSD: features/editorial/components/RevisionEditor.tsx
+ *
+ * Paragraph-level editor for answering change requests: edit or ask the AI
+ * to fix single paragraphs, accept or reject each proposal, and save the
+ * result as a revision that records the change requests it resolved.
+ * Revisions are compared with a paragraph diff.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Check, X, Sparkles, Link2, Pencil, Save, GitCompare } from 'lucide-react';
+import { useReviewStore } from '../model/reviewStore';
+import type { AppliedFix, ProposedFix, ProposedFixKind, ReviewItem } from '../model/reviewTypes';
+import type { Reviewer } from '../model/workflowTypes';
+import { diffParagraphs, splitParagraphs } from '../lib/contentDiff';
+import { getRevisions, proposeFix, replaceParagraphs } from '../lib/revisionEditor';
+import { submitReviewAction } from '../lib/reviewApi';
+
+const CHANGE_STYLES = {
+    unchanged: 'text-neutral-500',
+    added: 'bg-green-50 text-green-800 border-l-2 border-green-400',
+    removed: 'bg-red-50 text-red-800 border-l-2 border-red-400 line-through',
+};
+
+function plainText(html: string): string {
+    return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// ============================================================================
+// Revision Diff
+// ============================================================================
+
+function RevisionDiff({ item }: { item: ReviewItem }) {
+    const revisions = getRevisions(item);
+    const [fromNumber, setFromNumber] = useState(Math.max(1, revisions.length - 1));
+    const [toNumber, setToNumber] = useState(revisions.length);
+
+    const from = revisions.find(r => r.number === fromNumber) || revisions[0];
+    const to = revisions.find(r => r.number === toNumber) || revisions[revisions.length - 1];
+    const diff = diffParagraphs(from.content, to.content);
+
+    const revisionSelect = (value: number, onChange: (n: number) => void) => (
+        <select
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="px-2 py-1 border border-neutral-300 rounded text-xs"
+        >
+            {revisions.map(r => <option key={r.id} value={r.number}>Rev {r.number}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-neutral-600">
+                <GitCompare className="w-3.5 h-3.5" />
+                {revisionSelect(from.number, setFromNumber)} → {revisionSelect(to.number, setToNumber)}
+                <span className="text-green-600">+{diff.added}</span>
+                <span className="text-red-600">-{diff.removed}</span>
+            </div>
+            <div className="space-y-1 max-h-80 overflow-y-auto">
+                {diff.changes.map((change, i) => (
+                    <p key={i} className={`text-xs px-2 py-1 rounded ${CHANGE_STYLES[change.type]}`}>
+                        {plainText(change.html)}
+                    </p>
+                ))}
+            </div>
+            <ul className="text-xs text-neutral-500 space-y-0.5">
+                {revisions.map(r => (
+                    <li key={r.id}>
+                        Rev {r.number} • {r.authorName || 'pipeline'} • {new Date(r.createdAt).toLocaleString()} • {r.wordCount} words
+                        {r.resolvedChangeRequestIds.length > 0 && ` • resolved ${r.resolvedChangeRequestIds.length} change request(s)`}
+                        {r.appliedFixes.length > 0 && ` • ${r.appliedFixes.length} AI fix(es)`}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+// ============================================================================
+// Editor
+// ============================================================================
+
+interface RevisionEditorProps {
+    item: ReviewItem;
+    reviewer: Reviewer | null;
+    onClose: () => void;
+}
+
+export function RevisionEditor({ item, reviewer, onClose }: RevisionEditorProps) {
+    const reviseContent = useReviewStore(state => state.reviseContent);
+    const applyServerItem = useReviewStore(state => state.applyServerItem);
+
+    const paragraphs = useMemo(() => splitParagraphs(item.content), [item.content]);
+    const openRequests = item.changeRequests.filter(cr => !cr.resolved);
+
+    const [edits, setEdits] = useState<Record<number, string>>({});
+    const [fixes, setFixes] = useState<ProposedFix[]>([]);
+    const [editing, setEditing] = useState<number | null>(null);
+    const [resolves, setResolves] = useState<string[]>([]);
+    const [targetRequestId, setTargetRequestId] = useState('');
+    const [pending, setPending] = useState<number | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const dirty = Object.keys(edits).length > 0;
+
+    const requestFix = async (index: number, kind: ProposedFixKind) => {
+        const request = openRequests.find(cr => cr.id === targetRequestId);
+        setPending(index);
+        setError(null);
+        try {
+            const fix = await proposeFix(item, index, kind, { instruction: request?.changes, changeRequestId: request?.id });
+            setFixes(prev => [...prev.filter(f => !(f.paragraphIndex === index && f.status === 'pending')), fix]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Fix request failed');
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const decideFix = (fix: ProposedFix, accepted: boolean) => {
+        setFixes(prev => prev.map(f => {
+            if (f.id === fix.id) return { ...f, status: accepted ? 'accepted' : 'rejected' };
+            // Only one accepted fix per paragraph
+            if (accepted && f.paragraphIndex === fix.paragraphIndex && f.status === 'accepted') return { ...f, status: 'rejected' };
+            return f;
+        }));
+        setEdits(prev => {
+            const next = { ...prev };
+            if (accepted) next[fix.paragraphIndex] = fix.proposed;
+            else if (next[fix.paragraphIndex] === fix.proposed) delete next[fix.paragraphIndex];
+            return next;
+        });
+        if (accepted && fix.changeRequestId && !resolves.includes(fix.changeRequestId)) {
+            setResolves(prev => [...prev, fix.changeRequestId!]);
+        }
+    };
+
+    const save = async () => {
+        const content = replaceParagraphs(item.content, edits);
+        const appliedFixes: AppliedFix[] = fixes
+            .filter(f => f.status === 'accepted' && edits[f.paragraphIndex] === f.proposed)
+            .map(f => ({ kind: f.kind, paragraphIndex: f.paragraphIndex, changeRequestId: f.changeRequestId }));
+
+        setSaving(true);
+        setError(null);
+        try {
+            if (item.workflow) {
+                if (!reviewer) throw new Error('Select a reviewer to save a revision');
+                applyServerItem(await submitReviewAction(item.id, reviewer.id, {
+                    type: 'edit',
+                    content,
+                    resolvesChangeRequestIds: resolves,
+                    appliedFixes,
+                }));
+            } else {
+                reviseContent(item.id, {
+                    content,
+                    authorId: reviewer?.id,
+                    authorName: reviewer?.name,
+                    resolvesChangeRequestIds: resolves,
+                    appliedFixes,
+                });
+            }
+            setEdits({});
+            setFixes([]);
+            setResolves([]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save revision');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="mt-3 space-y-4 text-sm border-t border-neutral-100 pt-3">
+            {/* Change Requests */}
+            {openRequests.length > 0 && (
+                <div>
+                    <p className="text-xs text-neutral-500 mb-1">Open change requests — tick the ones this revision resolves:</p>
+                    {openRequests.map(cr => (
+                        <label key={cr.id} className="flex items-start gap-2 text-xs py-0.5">
+                            <input
+                                type="checkbox"
+                                checked={resolves.includes(cr.id)}
+                                onChange={(e) => setResolves(prev => e.target.checked ? [...prev, cr.id] : prev.filter(id => id !== cr.id))}
+                            />
+                            <span><span className="text-neutral-400">{cr.reviewerName}:</span> {cr.changes}</span>
+                        </label>
+                    ))}
+                    <select
+                        value={targetRequestId}
+                        onChange={(e) => setTargetRequestId(e.target.value)}
+                        className="mt-1 px-2 py-1 border border-neutral-300 rounded text-xs"
+                        title="Change request passed to AI fixes"
+                    >
+                        <option value="">AI fixes: no specific request</option>
+                        {openRequests.map(cr => (
+                            <option key={cr.id} value={cr.id}>AI fixes for: {cr.changes.substring(0, 50)}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {/* Paragraphs */}
+            <div className="space-y-2">
+                {paragraphs.map((paragraph, index) => {
+                    const paragraphFixes = fixes.filter(f => f.paragraphIndex === index && f.status === 'pending');
+                    const edited = index in edits;
+                    return (
+                        <div key={index} className={`rounded border px-2 py-1.5 ${edited ? 'border-blue-300 bg-blue-50/40' : 'border-neutral-200'}`}>
+                            {editing === index ? (
+                                <textarea
+                                    value={edits[index] ?? paragraph}
+                                    onChange={(e) => setEdits(prev => ({ ...prev, [index]: e.target.value }))}
+                                    onBlur={() => setEditing(null)}
+                                    rows={4}
+                                    className="w-full px-2 py-1 border border-neutral-300 rounded font-mono text-xs"
+                                    autoFocus
+                                />
+                            ) : (
+                                <p className="text-xs text-neutral-700">{plainText(edits[index] ?? paragraph) || <em>removed</em>}</p>
+                            )}
+                            <div className="flex gap-3 mt-1 text-xs">
+                                <button onClick={() => setEditing(index)} className="text-neutral-500 hover:text-neutral-800 flex items-center gap-1">
+                                    <Pencil className="w-3 h-3" /> Edit
+                                </button>
+                                <button
+                                    onClick={() => requestFix(index, 'regenerate_section')}
+                                    disabled={pending !== null}
+                                    className="text-purple-600 hover:text-purple-800 flex items-center gap-1 disabled:opacity-50"
+                                >
+                                    <Sparkles className={`w-3 h-3 ${pending === index ? 'animate-pulse' : ''}`} /> Regenerate
+                                </button>
+                                <button
+                                    onClick={() => requestFix(index, 'add_citation')}
+                                    disabled={pending !== null}
+                                    className="text-blue-600 hover:text-blue-800 flex items-center gap-1 disabled:opacity-50"
+                                >
+                                    <Link2 className="w-3 h-3" /> Add citation
+                                </button>
+                                {edited && (
+                                    <button
+                                        onClick={() => setEdits(prev => { const next = { ...prev }; delete next[index]; return next; })}
+                                        className="text-neutral-500 hover:text-neutral-800"
+                                    >
+                                        Undo
+                                    </button>
+                                )}
+                            </div>
+                            {paragraphFixes.map(fix => (
+                                <div key={fix.id} className="mt-2 text-xs space-y-1">
+                                    <p className={`px-2 py-1 rounded ${CHANGE_STYLES.removed}`}>{plainText(fix.original)}</p>
+                                    <p className={`px-2 py-1 rounded ${CHANGE_STYLES.added}`}>{plainText(fix.proposed)}</p>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => decideFix(fix, true)} className="px-2 py-0.5 bg-green-600 text-white rounded flex items-center gap-1">
+                                            <Check className="w-3 h-3" /> Accept
+                                        </button>
+                                        <button onClick={() => decideFix(fix, false)} className="px-2 py-0.5 border border-neutral-300 rounded flex items-center gap-1">
+                                            <X className="w-3 h-3" /> Reject
+                                        </button>
+                                        <span className="text-neutral-400">{fix.kind.replace('_', ' ')}</span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            <div className="flex gap-2">
+                <button
+                    onClick={save}
+                    disabled={saving || (!dirty && resolves.length === 0)}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+                >
+                    <Save className="w-3.5 h-3.5" /> Save revision {getRevisions(item).length + 1}
+                </button>
+                <button onClick={onClose} className="px-3 py-1.5 text-sm border border-neutral-300 rounded-lg hover:bg-neutral-50">
+                    Close
+                </button>
+            </div>
+
+            {/* Revision History */}
+            <RevisionDiff key={getRevisions(item).length} item={item} />
+        </div>
+    );
+}
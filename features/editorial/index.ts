@@ -30,6 +30,19 @@ export type {
     // Actions
     CreateReviewInput,
     ReviewDecision,
+
+    // Refresh
+    RefreshVersion,
+    ReviewRefreshInfo,
+
+    // Performance learning
+    GenerationSnapshot,
+
+    // Revisions
+    ReviewRevision,
+    ProposedFix,
+    ProposedFixKind,
+    AppliedFix,
 } from './model/reviewTypes';
 
 export {
@@ -38,12 +51,39 @@ export {
     ReviewRequiredError,
 } from './model/reviewTypes';
 
+export type {
+    // Workflow
+    ReviewerRole,
+    Reviewer,
+    WorkflowAction,
+    ApprovalChainPolicy,
+    ApprovalStep,
+    ApprovalStepStatus,
+    ReviewSLAPolicy,
+    ReviewWorkflowState,
+    AuditAction,
+    AuditEntry,
+    CommentAnchor,
+    ReviewComment,
+    ReviewActionRequest,
+    ReviewPublication,
+    ReviewDetail,
+} from './model/workflowTypes';
+
+export {
+    ROLE_PERMISSIONS,
+    DEFAULT_APPROVAL_CHAINS,
+    DEFAULT_REVIEW_SLA,
+    ReviewWorkflowError,
+} from './model/workflowTypes';
+
 // ============================================================================
 // Store
 // ============================================================================
 
 export {
     useReviewStore,
+    buildReviewItem,
     selectPendingReviews,
     selectApprovedReviews,
     selectHighPriorityItems,
@@ -67,6 +107,71 @@ export {
     calculateQualityScore,
 } from './lib/qualityGate';
 
+// ============================================================================
+// Content Diff
+// ============================================================================
+
+export type {
+    ParagraphChange,
+    ParagraphChangeType,
+    ParagraphDiff,
+} from './lib/contentDiff';
+
+export {
+    splitParagraphs,
+    diffParagraphs,
+} from './lib/contentDiff';
+
+// ============================================================================
+// Review Workflow (roles, approval chains, SLA, comments)
+// ============================================================================
+
+export type { WorkflowTransition } from './lib/reviewWorkflow';
+
+export {
+    hasPermission,
+    computeDueAt,
+    initializeWorkflow,
+    getCurrentStep,
+    decideReview,
+    editReviewContent,
+    resubmitReview,
+    assignReview,
+    escalateIfOverdue,
+    anchorComment,
+    reanchorComments,
+} from './lib/reviewWorkflow';
+
+// ============================================================================
+// Revision Editor (paragraph edits, AI fixes, resolved change requests)
+// ============================================================================
+
+export type {
+    RevisionInput,
+    ProposeFixOptions,
+} from './lib/revisionEditor';
+
+export {
+    getRevisions,
+    createRevision,
+    getResolvingRevision,
+    replaceParagraphs,
+    applyAcceptedFixes,
+    buildFixPrompt,
+    proposeFix,
+} from './lib/revisionEditor';
+
+export {
+    fetchServerReviews,
+    pushReviewItems,
+    fetchReviewDetail,
+    submitReviewAction,
+    recordReviewPublication,
+    addReviewComment,
+    resolveReviewComment,
+    fetchReviewers,
+} from './lib/reviewApi';
+
 // ============================================================================
 // Smart Review System (Auto-approval with Learning)
 // ============================================================================
@@ -77,6 +182,7 @@ export type {
     LearningState,
     ContentImprovement,
     AutoReviewDecision,
+    PerformanceOutcome,
 } from './lib/smartReview';
 
 export {
@@ -95,6 +201,8 @@ export {
     // Learning
     recordReviewFeedback,
     recordContentImprovement,
+    recordPerformanceFeedback,
+    recordPerformanceSignal,
 
     // Content generation improvement
     getTopImprovementSignals,
@@ -105,9 +213,31 @@ export {
     getLearningStats,
 } from './lib/smartReview';
 
+// ============================================================================
+// Performance Learning (published performance → smart review)
+// ============================================================================
+
+export type {
+    PerformanceBand,
+    PerformanceSample,
+    SettingCorrelation,
+    PerformanceFeedbackReport,
+    PerformanceFeedbackOptions,
+} from './lib/performanceLearning';
+
+export {
+    joinPostPerformance,
+    scorePerformance,
+    correlateSettings,
+    settingPromptAddition,
+    runPerformanceFeedback,
+} from './lib/performanceLearning';
+
 // ============================================================================
 // Components
 // ============================================================================
 
 export { ReviewDashboard } from './components/ReviewDashboard';
+export { ReviewWorkflowPanel } from './components/ReviewWorkflowPanel';
+export { RevisionEditor } from './components/RevisionEditor';
 
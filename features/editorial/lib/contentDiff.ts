@@ -0,0 +1,87 @@
+/**
+ * Content Diff
+ * FSD: features/editorial/lib/contentDiff.ts
+ *
+ * Paragraph-level diff between two revisions of an article's HTML, so
+ * reviewers see which blocks were added or removed instead of the whole body.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ParagraphChangeType = 'unchanged' | 'added' | 'removed';
+
+export interface ParagraphChange {
+    type: ParagraphChangeType;
+    html: string;
+}
+
+export interface ParagraphDiff {
+    changes: ParagraphChange[];
+    added: number;
+    removed: number;
+    unchanged: number;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+const BLOCK_PATTERN = /<(p|h[1-6]|li|blockquote|pre|table|figure)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+/**
+ * Block-level paragraphs of HTML (or blank-line separated blocks of plain text)
+ */
+export function splitParagraphs(html: string): string[] {
+    const blocks = html.match(BLOCK_PATTERN);
+    if (blocks) return blocks.map(b => b.trim());
+
+    return html.split(/\n\s*\n/).map(b => b.trim()).filter(Boolean);
+}
+
+function comparable(html: string): string {
+    return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Longest-common-subsequence diff over paragraphs (text compared without markup)
+ */
+export function diffParagraphs(before: string, after: string): ParagraphDiff {
+    const a = splitParagraphs(before);
+    const b = splitParagraphs(after);
+    const keyA = a.map(comparable);
+    const keyB = b.map(comparable);
+
+    // lcs[i][j] = common length of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = keyA[i] === keyB[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const changes: ParagraphChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && keyA[i] === keyB[j]) {
+            changes.push({ type: 'unchanged', html: b[j] });
+            i++;
+            j++;
+        } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            changes.push({ type: 'added', html: b[j++] });
+        } else {
+            changes.push({ type: 'removed', html: a[i++] });
+        }
+    }
+
+    return {
+        changes,
+        added: changes.filter(c => c.type === 'added').length,
+        removed: changes.filter(c => c.type === 'removed').length,
+        unchanged: changes.filter(c => c.type === 'unchanged').length,
+    };
+}
@@ -0,0 +1,397 @@
+/**
+ * Performance Learning
+ * FSD: features/editorial/lib/performanceLearning.ts
+ *
+ * Closes the loop from published performance back into smartReview: joins
+ * each published review item (settings, prompt additions, author, quality
+ * score) with its traffic and revenue, bands posts into winners and losers,
+ * reports which settings correlate with winners and feeds the result into
+ * the learning state.
+ */
+
+import type { ReviewItem } from '../model/reviewTypes';
+import type { PostPerformance } from '@/features/campaigns/lib/analytics';
+import type { AdSenseCredentials } from '@/lib/monetization/adsenseClient';
+import type { ContentRevenue } from '@/lib/monetization/types';
+import {
+    calculateEffectiveThreshold,
+    getPromptImprovements,
+    recordPerformanceFeedback,
+    recordPerformanceSignal,
+} from './smartReview';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PerformanceBand = 'winner' | 'average' | 'loser';
+
+/**
+ * A published review item joined with its performance
+ */
+export interface PerformanceSample {
+    reviewItemId: string;
+    title: string;
+    topic: string;
+    campaignId: string;
+    siteId: string;
+    authorName?: string;
+    qualityScore: number;
+    autoApproved: boolean;
+    belowThreshold: boolean;
+    isYMYL: boolean;
+    settings: Record<string, string | number | boolean>;
+    promptAdditions: string[];
+
+    pageViews: number;
+    revenue: number;
+    rpm: number;
+    avgTimeOnPage?: number;
+
+    performanceScore: number;            // 0-100, composite percentile
+    band: PerformanceBand;
+}
+
+/**
+ * How one setting value (or author / prompt addition) relates to winners
+ */
+export interface SettingCorrelation {
+    setting: string;
+    value: string;
+    posts: number;
+    winners: number;
+    winnerRate: number;                  // %
+    avgRPM: number;
+    avgPageViews: number;
+    lift: number;                        // winnerRate / overall winner rate
+}
+
+export interface PerformanceFeedbackReport {
+    samples: PerformanceSample[];
+    unmatched: number;                   // Published items without performance data
+    winners: number;
+    losers: number;
+    qualityCorrelation: number;          // Pearson r, quality score vs. performance score
+    correlations: SettingCorrelation[];  // Sorted by lift, strongest first
+    thresholdChanges: string[];
+    promptSignals: string[];             // Prompt additions reinforced by this run
+    promptImprovements: string[];        // getPromptImprovements() after the run
+}
+
+export interface PerformanceSourceConfig {
+    plausibleApiKey?: string;            // Each site is queried by its domain
+    adsense?: AdSenseCredentials;        // Page-level earnings
+    days?: number;                       // Revenue window (default 30)
+}
+
+export interface PerformanceFeedbackOptions {
+    minSamples?: number;                 // Per setting value before it counts (default 3)
+    minLift?: number;                    // Lift needed to become a prompt signal (default 1.25)
+}
+
+// ============================================================================
+// Join
+// ============================================================================
+
+function normalizeUrl(url: string): string {
+    return url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Join published review items with analytics and revenue. Analytics match
+ * by URL or site + post ID; revenue by URL or content ID (post ID or
+ * wp:site:post).
+ */
+export function joinPostPerformance(
+    items: ReviewItem[],
+    performances: PostPerformance[],
+    revenue: ContentRevenue[]
+): { joined: Omit<PerformanceSample, 'performanceScore' | 'band'>[]; unmatched: number } {
+    const joined: Omit<PerformanceSample, 'performanceScore' | 'band'>[] = [];
+    let unmatched = 0;
+
+    for (const item of items) {
+        if (!item.publishedUrl && item.publishedPostId === undefined) continue;
+        const url = item.publishedUrl ? normalizeUrl(item.publishedUrl) : undefined;
+        const contentIds = item.publishedPostId !== undefined
+            ? [String(item.publishedPostId), `wp:${item.siteId}:${item.publishedPostId}`]
+            : [];
+
+        const traffic = performances.find(p =>
+            (url && p.url && normalizeUrl(p.url) === url) ||
+            (p.siteId === item.siteId && p.postId === item.publishedPostId)
+        );
+        const earnings = revenue.find(r =>
+            (url && r.contentUrl && normalizeUrl(r.contentUrl) === url) || contentIds.includes(r.contentId)
+        );
+
+        if (!traffic && !earnings) {
+            unmatched++;
+            continue;
+        }
+
+        const isYMYL = item.riskLevel === 'ymyl';
+        const pageViews = traffic?.metrics.pageViews ?? earnings?.pageViews ?? 0;
+        const itemRevenue = earnings?.revenue ?? 0;
+
+        joined.push({
+            reviewItemId: item.id,
+            title: item.title,
+            topic: item.topic,
+            campaignId: item.campaignId,
+            siteId: item.siteId,
+            authorName: item.authorName,
+            qualityScore: item.overallQualityScore,
+            autoApproved: item.status === 'auto_approved',
+            belowThreshold: item.overallQualityScore < calculateEffectiveThreshold(item.topic, isYMYL),
+            isYMYL,
+            settings: item.generation?.settings ?? {},
+            promptAdditions: item.generation?.promptAdditions ?? [],
+            pageViews,
+            revenue: itemRevenue,
+            rpm: earnings?.rpm ?? (pageViews > 0 ? (itemRevenue / pageViews) * 1000 : 0),
+            avgTimeOnPage: traffic?.metrics.avgTimeOnPage,
+        });
+    }
+
+    return { joined, unmatched };
+}
+
+// ============================================================================
+// Banding
+// ============================================================================
+
+function percentileRanks(values: number[]): number[] {
+    if (values.length < 2) return values.map(() => 50);
+    const sorted = [...values].sort((a, b) => a - b);
+    return values.map(v => {
+        const below = sorted.filter(s => s < v).length;
+        const equal = sorted.filter(s => s === v).length;
+        return ((below + (equal - 1) / 2) / (values.length - 1)) * 100;
+    });
+}
+
+/**
+ * Score posts by revenue, traffic and time on page (percentiles within the
+ * batch) and band the top and bottom quarter. Fewer than four posts are all
+ * "average".
+ */
+export function scorePerformance(joined: Omit<PerformanceSample, 'performanceScore' | 'band'>[]): PerformanceSample[] {
+    const revenueRanks = percentileRanks(joined.map(s => s.revenue));
+    const viewRanks = percentileRanks(joined.map(s => s.pageViews));
+    const hasTime = joined.some(s => s.avgTimeOnPage !== undefined);
+    const timeRanks = percentileRanks(joined.map(s => s.avgTimeOnPage ?? 0));
+
+    const scored = joined.map((s, i) => ({
+        ...s,
+        performanceScore: Math.round(hasTime
+            ? revenueRanks[i] * 0.5 + viewRanks[i] * 0.3 + timeRanks[i] * 0.2
+            : revenueRanks[i] * 0.6 + viewRanks[i] * 0.4),
+        band: 'average' as PerformanceBand,
+    }));
+
+    if (scored.length < 4) return scored;
+
+    const quarter = Math.max(1, Math.floor(scored.length / 4));
+    const order = [...scored].sort((a, b) => b.performanceScore - a.performanceScore);
+    const winners = new Set(order.slice(0, quarter).map(s => s.reviewItemId));
+    const losers = new Set(order.slice(-quarter).map(s => s.reviewItemId));
+
+    return scored.map(s => ({
+        ...s,
+        band: winners.has(s.reviewItemId) ? 'winner' : losers.has(s.reviewItemId) ? 'loser' : 'average',
+    }));
+}
+
+// ============================================================================
+// Correlation
+// ============================================================================
+
+function pearson(xs: number[], ys: number[]): number {
+    const n = xs.length;
+    if (n < 3) return 0;
+    const mx = xs.reduce((a, b) => a + b, 0) / n;
+    const my = ys.reduce((a, b) => a + b, 0) / n;
+    let cov = 0;
+    let vx = 0;
+    let vy = 0;
+    for (let i = 0; i < n; i++) {
+        cov += (xs[i] - mx) * (ys[i] - my);
+        vx += (xs[i] - mx) ** 2;
+        vy += (ys[i] - my) ** 2;
+    }
+    return vx === 0 || vy === 0 ? 0 : Math.round((cov / Math.sqrt(vx * vy)) * 100) / 100;
+}
+
+function sampleDimensions(sample: PerformanceSample): Array<[string, string]> {
+    return [
+        ...Object.entries(sample.settings).map(([key, value]) => [key, String(value)] as [string, string]),
+        ...(sample.authorName ? [['author', sample.authorName] as [string, string]] : []),
+        ...sample.promptAdditions.map(addition => ['prompt', addition] as [string, string]),
+    ];
+}
+
+/**
+ * Winner rate, RPM and traffic per setting value, author and prompt addition
+ */
+export function correlateSettings(samples: PerformanceSample[], minSamples = 3): SettingCorrelation[] {
+    const overallWinnerRate = samples.filter(s => s.band === 'winner').length / Math.max(1, samples.length);
+    const groups = new Map<string, { setting: string; value: string; members: PerformanceSample[] }>();
+
+    for (const sample of samples) {
+        for (const [setting, value] of sampleDimensions(sample)) {
+            const key = `${setting}\u0000${value}`;
+            const group = groups.get(key) || { setting, value, members: [] };
+            group.members.push(sample);
+            groups.set(key, group);
+        }
+    }
+
+    return [...groups.values()]
+        .filter(g => g.members.length >= minSamples)
+        .map(({ setting, value, members }) => {
+            const winners = members.filter(s => s.band === 'winner').length;
+            const winnerRate = winners / members.length;
+            const pageViews = members.reduce((sum, s) => sum + s.pageViews, 0);
+            const revenue = members.reduce((sum, s) => sum + s.revenue, 0);
+            return {
+                setting,
+                value,
+                posts: members.length,
+                winners,
+                winnerRate: Math.round(winnerRate * 100),
+                avgRPM: pageViews > 0 ? Math.round((revenue / pageViews) * 1000 * 100) / 100 : 0,
+                avgPageViews: Math.round(pageViews / members.length),
+                lift: overallWinnerRate > 0 ? Math.round((winnerRate / overallWinnerRate) * 100) / 100 : 0,
+            };
+        })
+        .sort((a, b) => b.lift - a.lift || b.posts - a.posts);
+}
+
+/**
+ * Prompt addition that reproduces a winning setting, if it maps to one
+ */
+export function settingPromptAddition(setting: string, value: string): string | undefined {
+    switch (setting) {
+        case 'prompt': return value;
+        case 'tone': return `Write in a ${value} tone.`;
+        case 'articleType': return `Structure the article as a ${value.replace('-', ' ')}.`;
+        case 'targetLength': return `Aim for about ${value} words.`;
+        case 'includeFAQ': return value === 'true' ? 'Include an FAQ section answering common reader questions.' : undefined;
+        default: return undefined;
+    }
+}
+
+// ============================================================================
+// Feedback Job
+// ============================================================================
+
+/**
+ * Join, score and correlate published posts, then feed the outcomes and the
+ * winning settings into the smartReview learning state
+ */
+export function runPerformanceFeedback(
+    items: ReviewItem[],
+    performances: PostPerformance[],
+    revenue: ContentRevenue[],
+    options: PerformanceFeedbackOptions = {}
+): PerformanceFeedbackReport {
+    const minSamples = options.minSamples ?? 3;
+    const minLift = options.minLift ?? 1.25;
+
+    const { joined, unmatched } = joinPostPerformance(items, performances, revenue);
+    const samples = scorePerformance(joined);
+    const correlations = correlateSettings(samples, minSamples);
+
+    const promptSignals: string[] = [];
+    for (const correlation of correlations) {
+        if (correlation.lift < minLift || correlation.winners < 2) continue;
+        const addition = settingPromptAddition(correlation.setting, correlation.value);
+        if (!addition) continue;
+        recordPerformanceSignal(`Winning ${correlation.setting}: ${correlation.value}`, addition, correlation.lift);
+        promptSignals.push(addition);
+    }
+
+    // Saves the learning state, including the signals above
+    const thresholdChanges = recordPerformanceFeedback(samples.map(s => ({
+        topic: s.topic,
+        isYMYL: s.isYMYL,
+        autoApproved: s.autoApproved,
+        belowThreshold: s.belowThreshold,
+        pageViews: s.pageViews,
+        rpm: s.rpm,
+        avgTimeOnPage: s.avgTimeOnPage,
+        band: s.band,
+    })));
+
+    return {
+        samples,
+        unmatched,
+        winners: samples.filter(s => s.band === 'winner').length,
+        losers: samples.filter(s => s.band === 'loser').length,
+        qualityCorrelation: pearson(samples.map(s => s.qualityScore), samples.map(s => s.performanceScore)),
+        correlations,
+        thresholdChanges,
+        promptSignals,
+        promptImprovements: getPromptImprovements(),
+    };
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+/**
+ * Fetch traffic (Plausible, 30 days) and page earnings (AdSense) for the
+ * published review items. A source that is not configured or fails
+ * contributes nothing.
+ */
+export async function loadPerformanceData(
+    items: ReviewItem[],
+    config: PerformanceSourceConfig,
+    now = new Date()
+): Promise<{ performances: PostPerformance[]; revenue: ContentRevenue[] }> {
+    const urlsByDomain = new Map<string, string[]>();
+    for (const item of items) {
+        if (!item.publishedUrl) continue;
+        try {
+            const domain = new URL(item.publishedUrl).hostname.replace(/^www\./, '');
+            urlsByDomain.set(domain, [...(urlsByDomain.get(domain) ?? []), item.publishedUrl]);
+        } catch {
+            // Not an absolute URL; only the post ID can match it
+        }
+    }
+
+    const performances: PostPerformance[] = [];
+    if (config.plausibleApiKey && urlsByDomain.size > 0) {
+        const { fetchPlausibleAnalytics } = await import('@/features/campaigns/lib/analytics');
+        for (const [domain, urls] of urlsByDomain) {
+            performances.push(...await fetchPlausibleAnalytics(
+                { provider: 'plausible', apiKey: config.plausibleApiKey, siteId: domain },
+                urls,
+                '30d'
+            ));
+        }
+    }
+
+    const revenue: ContentRevenue[] = [];
+    if (config.adsense && urlsByDomain.size > 0) {
+        try {
+            const { getEarningsByPage } = await import('@/lib/monetization/adsenseClient');
+            const start = new Date(now.getTime() - (config.days ?? 30) * 24 * 60 * 60 * 1000);
+            const pages = await getEarningsByPage(config.adsense, start, now, 1000);
+            revenue.push(...pages.map(page => ({
+                contentId: page.url,
+                contentTitle: page.url,
+                contentUrl: page.url,
+                pageViews: page.pageViews,
+                revenue: page.revenue,
+                rpm: page.rpm,
+            })));
+        } catch (error) {
+            console.warn('[PerformanceLearning] AdSense page earnings unavailable:', error);
+        }
+    }
+
+    return { performances, revenue };
+}
@@ -0,0 +1,87 @@
+/**
+ * Review API Client
+ * FSD: features/editorial/lib/reviewApi.ts
+ *
+ * Browser-side calls to the /api/editorial routes. The server copy of a
+ * review is authoritative; the zustand store caches it.
+ */
+
+import type { ReviewItem } from '../model/reviewTypes';
+import type {
+    Reviewer,
+    ReviewActionRequest,
+    ReviewComment,
+    ReviewDetail,
+    ReviewPublication,
+} from '../model/workflowTypes';
+
+async function request<T>(url: string, init: RequestInit | undefined, fallbackError: string): Promise<T> {
+    const response = await fetch(url, init && {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+        throw new Error(data.error || `${fallbackError} (HTTP ${response.status})`);
+    }
+    return data as T;
+}
+
+export async function fetchServerReviews(): Promise<ReviewItem[]> {
+    const data = await request<{ items: ReviewItem[] }>('/api/editorial/reviews', undefined, 'Failed to load reviews');
+    return data.items;
+}
+
+export async function pushReviewItems(items: ReviewItem[]): Promise<ReviewItem[]> {
+    const data = await request<{ items: ReviewItem[] }>(
+        '/api/editorial/reviews',
+        { method: 'POST', body: JSON.stringify({ items }) },
+        'Failed to save reviews'
+    );
+    return data.items;
+}
+
+export async function fetchReviewDetail(id: string): Promise<ReviewDetail> {
+    return request<ReviewDetail>(`/api/editorial/reviews/${encodeURIComponent(id)}`, undefined, 'Failed to load review');
+}
+
+export async function submitReviewAction(id: string, reviewerId: string, action: ReviewActionRequest): Promise<ReviewItem> {
+    const data = await request<{ item: ReviewItem }>(
+        `/api/editorial/reviews/${encodeURIComponent(id)}`,
+        { method: 'PATCH', body: JSON.stringify({ reviewerId, action }) },
+        'Failed to update review'
+    );
+    return data.item;
+}
+
+export async function recordReviewPublication(id: string, publication: ReviewPublication): Promise<ReviewItem> {
+    const data = await request<{ item: ReviewItem }>(
+        `/api/editorial/reviews/${encodeURIComponent(id)}/publication`,
+        { method: 'POST', body: JSON.stringify(publication) },
+        'Failed to record publication'
+    );
+    return data.item;
+}
+
+export async function addReviewComment(id: string, reviewerId: string, paragraphIndex: number, body: string): Promise<ReviewComment> {
+    const data = await request<{ comment: ReviewComment }>(
+        `/api/editorial/reviews/${encodeURIComponent(id)}/comments`,
+        { method: 'POST', body: JSON.stringify({ reviewerId, paragraphIndex, body }) },
+        'Failed to add comment'
+    );
+    return data.comment;
+}
+
+export async function resolveReviewComment(id: string, reviewerId: string, commentId: string): Promise<ReviewComment> {
+    const data = await request<{ comment: ReviewComment }>(
+        `/api/editorial/reviews/${encodeURIComponent(id)}/comments`,
+        { method: 'PATCH', body: JSON.stringify({ reviewerId, commentId }) },
+        'Failed to resolve comment'
+    );
+    return data.comment;
+}
+
+export async function fetchReviewers(): Promise<Reviewer[]> {
+    const data = await request<{ reviewers: Reviewer[] }>('/api/editorial/reviewers', undefined, 'Failed to load reviewers');
+    return data.reviewers;
+}
@@ -0,0 +1,246 @@
+/**
+ * Review Service (server only)
+ * FSD: features/editorial/lib/reviewService.ts
+ *
+ * Applies workflow transitions to server-persisted review items and records
+ * every one of them in the audit log. Used by the /api/editorial routes; not
+ * exported from the feature barrel because it reads and writes .data files.
+ */
+
+import {
+    appendAuditEntry,
+    getReviewItem,
+    getReviewer,
+    hashContent,
+    listAuditEntries,
+    listComments,
+    listReviewItems,
+    saveComment,
+    saveReviewItem,
+} from '@/lib/db/editorialReviewStore';
+import { buildReviewItem } from '../model/reviewStore';
+import { DEFAULT_REVIEW_POLICY, type ReviewItem } from '../model/reviewTypes';
+import {
+    ReviewWorkflowError,
+    type Reviewer,
+    type ReviewActionRequest,
+    type ReviewComment,
+    type ReviewDetail,
+    type ReviewPublication,
+} from '../model/workflowTypes';
+import {
+    anchorComment,
+    assignReview,
+    decideReview,
+    editReviewContent,
+    escalateIfOverdue,
+    hasPermission,
+    initializeWorkflow,
+    reanchorComments,
+    resubmitReview,
+    type WorkflowTransition,
+} from './reviewWorkflow';
+
+const SYSTEM_ACTOR = { actorId: 'system', actorName: 'System' };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function requireItem(itemId: string): ReviewItem {
+    const item = getReviewItem(itemId);
+    if (!item) throw new ReviewWorkflowError(`Review not found: ${itemId}`, 'not_found');
+    return item;
+}
+
+function requireReviewer(reviewerId: string): Reviewer {
+    const reviewer = getReviewer(reviewerId);
+    if (!reviewer) throw new ReviewWorkflowError(`Reviewer not found: ${reviewerId}`, 'not_found');
+    return reviewer;
+}
+
+function commit(transition: WorkflowTransition, actor: { actorId: string; actorName: string; role?: Reviewer['roles'][number] }): ReviewItem {
+    saveReviewItem(transition.item);
+    appendAuditEntry({
+        ...actor,
+        itemId: transition.item.id,
+        at: transition.item.updatedAt,
+        action: transition.action,
+        details: transition.details,
+        contentHash: hashContent(transition.item.content),
+    });
+    return transition.item;
+}
+
+function actorOf(reviewer: Reviewer, role?: Reviewer['roles'][number]) {
+    return { actorId: reviewer.id, actorName: reviewer.name, role: role ?? reviewer.roles[0] };
+}
+
+// ============================================================================
+// Items
+// ============================================================================
+
+/**
+ * Store a review item created by the pipeline or the browser queue.
+ * Items already on the server are returned unchanged. The submitted workflow
+ * and decisions are ignored: the chain starts at its first step, and an
+ * auto-approval stands only if the server's policy accepts the content too.
+ */
+export function importReviewItem(item: ReviewItem, now = Date.now()): ReviewItem {
+    const existing = getReviewItem(item.id);
+    if (existing) return existing;
+
+    const { autoApprovalEligible, autoApprovalBlocked } = buildReviewItem(item, DEFAULT_REVIEW_POLICY);
+    const autoApproved = item.status === 'auto_approved' && autoApprovalEligible;
+    const stored = initializeWorkflow({
+        ...item,
+        status: autoApproved ? 'auto_approved' : 'pending_review',
+        autoApprovalEligible,
+        autoApprovalBlocked,
+        workflow: undefined,
+        reviewedAt: undefined,
+        approvedAt: autoApproved ? item.approvedAt : undefined,
+        approvedBy: undefined,
+        rejectionReason: undefined,
+    }, { now });
+    return commit(
+        { item: { ...stored, updatedAt: now }, action: 'created', details: { status: stored.status, riskLevel: stored.riskLevel } },
+        SYSTEM_ACTOR
+    );
+}
+
+/**
+ * Escalate every overdue review; returns the escalated items
+ */
+export function escalateOverdueReviews(now = Date.now()): ReviewItem[] {
+    const escalated: ReviewItem[] = [];
+    for (const item of listReviewItems()) {
+        const transition = escalateIfOverdue(item, now);
+        if (transition) escalated.push(commit(transition, SYSTEM_ACTOR));
+    }
+    return escalated;
+}
+
+export function getReviewDetail(itemId: string): ReviewDetail {
+    const item = requireItem(itemId);
+    return {
+        item,
+        audit: listAuditEntries(itemId),
+        comments: reanchorComments(item.content, listComments(itemId)),
+    };
+}
+
+/**
+ * Apply a reviewer's action to a review and audit it
+ */
+export function performReviewAction(itemId: string, reviewerId: string, request: ReviewActionRequest, now = Date.now()): ReviewItem {
+    const item = requireItem(itemId);
+    const reviewer = requireReviewer(reviewerId);
+
+    switch (request.type) {
+        case 'decide': {
+            const stepRole = item.workflow?.chain[item.workflow.currentStep]?.role;
+            return commit(decideReview(item, reviewer, request.decision, now), actorOf(reviewer, stepRole));
+        }
+        case 'edit': {
+            const { content, title, resolvesChangeRequestIds, appliedFixes } = request;
+            return commit(
+                editReviewContent(item, reviewer, { content, title, resolvesChangeRequestIds, appliedFixes }, now),
+                actorOf(reviewer)
+            );
+        }
+        case 'resubmit':
+            return commit(resubmitReview(item, reviewer, now), actorOf(reviewer));
+        case 'assign':
+            return commit(assignReview(item, reviewer, requireReviewer(request.assigneeId), now), actorOf(reviewer));
+        default:
+            throw new ReviewWorkflowError('Unknown review action', 'invalid_state');
+    }
+}
+
+/**
+ * Link a review to the post it went live as, so the performance-learning
+ * cron can join the post's traffic and revenue back to it
+ */
+export function recordReviewPublication(itemId: string, publication: ReviewPublication, now = Date.now()): ReviewItem {
+    const item = requireItem(itemId);
+    const published: ReviewItem = {
+        ...item,
+        publishedPostId: publication.postId,
+        publishedUrl: publication.url,
+        publishedAt: publication.publishedAt ?? now,
+        updatedAt: now,
+    };
+    return commit(
+        { item: published, action: 'published', details: { postId: publication.postId, url: publication.url } },
+        SYSTEM_ACTOR
+    );
+}
+
+// ============================================================================
+// Comments
+// ============================================================================
+
+export function addReviewComment(
+    itemId: string,
+    reviewerId: string,
+    paragraphIndex: number,
+    body: string,
+    now = Date.now()
+): ReviewComment {
+    const item = requireItem(itemId);
+    const reviewer = requireReviewer(reviewerId);
+    if (!hasPermission(reviewer, 'comment')) {
+        throw new ReviewWorkflowError(`${reviewer.name} may not comment`, 'forbidden');
+    }
+
+    const comment: ReviewComment = {
+        id: `comment_${now}_${Math.random().toString(36).substring(2, 8)}`,
+        itemId,
+        anchor: anchorComment(item.content, paragraphIndex),
+        authorId: reviewer.id,
+        authorName: reviewer.name,
+        role: reviewer.roles[0],
+        body,
+        createdAt: now,
+        resolved: false,
+    };
+    saveComment(comment);
+    appendAuditEntry({
+        ...actorOf(reviewer),
+        itemId,
+        at: now,
+        action: 'commented',
+        details: { commentId: comment.id, paragraphIndex, body },
+        contentHash: hashContent(item.content),
+    });
+    return comment;
+}
+
+export function resolveReviewComment(itemId: string, commentId: string, reviewerId: string, now = Date.now()): ReviewComment {
+    const reviewer = requireReviewer(reviewerId);
+    const comment = listComments(itemId).find(c => c.id === commentId);
+    if (!comment) throw new ReviewWorkflowError(`Comment not found: ${commentId}`, 'not_found');
+    if (!hasPermission(reviewer, 'comment')) {
+        throw new ReviewWorkflowError(`${reviewer.name} may not resolve comments`, 'forbidden');
+    }
+
+    const resolved = { ...comment, resolved: true, resolvedAt: now, resolvedBy: reviewer.id };
+    saveComment(resolved);
+    appendAuditEntry({
+        ...actorOf(reviewer),
+        itemId,
+        at: now,
+        action: 'comment_resolved',
+        details: { commentId },
+    });
+    return resolved;
+}
+
+/**
+ * HTTP status for an error thrown by the service
+ */
+export function getWorkflowErrorStatus(error: unknown): number {
+    if (!(error instanceof ReviewWorkflowError)) return 500;
+    return error.code === 'not_found' ? 404 : error.code === 'forbidden' ? 403 : 409;
+}
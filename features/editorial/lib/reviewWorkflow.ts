@@ -0,0 +1,344 @@
+/**
+ * Review Workflow
+ * FSD: features/editorial/lib/reviewWorkflow.ts
+ *
+ * Pure state transitions for multi-reviewer approval: each risk level has an
+ * ordered chain of roles, each step runs against an SLA deadline, and overdue
+ * steps escalate the item's priority. Persistence and auditing live in
+ * reviewService (server only).
+ */
+
+import type { ReviewDecision, ReviewItem, ReviewPriority, ReviewStatus } from '../model/reviewTypes';
+import {
+    DEFAULT_APPROVAL_CHAINS,
+    DEFAULT_REVIEW_SLA,
+    ROLE_PERMISSIONS,
+    ReviewWorkflowError,
+    type ApprovalChainPolicy,
+    type ApprovalStep,
+    type AuditAction,
+    type CommentAnchor,
+    type Reviewer,
+    type ReviewComment,
+    type ReviewSLAPolicy,
+    type WorkflowAction,
+} from '../model/workflowTypes';
+import { splitParagraphs } from './contentDiff';
+import { createRevision, type RevisionInput } from './revisionEditor';
+
+const HOUR_MS = 60 * 60 * 1000;
+const PRIORITY_LADDER: ReviewPriority[] = ['low', 'normal', 'high', 'urgent'];
+const CLOSED_STATUSES: ReviewStatus[] = ['approved', 'auto_approved', 'rejected'];
+
+/**
+ * Result of a transition: the updated item and what to write to the audit log
+ */
+export interface WorkflowTransition {
+    item: ReviewItem;
+    action: AuditAction;
+    details?: Record<string, unknown>;
+}
+
+// ============================================================================
+// Permissions
+// ============================================================================
+
+export function hasPermission(reviewer: Reviewer, action: WorkflowAction): boolean {
+    return reviewer.active && reviewer.roles.some(role => ROLE_PERMISSIONS[role].includes(action));
+}
+
+function requirePermission(reviewer: Reviewer, action: WorkflowAction): void {
+    if (!hasPermission(reviewer, action)) {
+        throw new ReviewWorkflowError(`${reviewer.name} may not ${action.replace('_', ' ')}`, 'forbidden');
+    }
+}
+
+function requireOpen(item: ReviewItem): void {
+    if (CLOSED_STATUSES.includes(item.status)) {
+        throw new ReviewWorkflowError(`Review is already ${item.status.replace('_', ' ')}`, 'invalid_state');
+    }
+}
+
+// ============================================================================
+// Chain & SLA
+// ============================================================================
+
+export function computeDueAt(priority: ReviewPriority, from: number, sla: ReviewSLAPolicy = DEFAULT_REVIEW_SLA): number {
+    return from + sla[priority] * HOUR_MS;
+}
+
+/**
+ * Attach the approval chain for the item's risk level and start its SLA clock.
+ * Only auto-approved items enter with a completed chain; any other status is
+ * reset to pending so every human decision goes through the chain.
+ */
+export function initializeWorkflow(
+    item: ReviewItem,
+    options: { chains?: ApprovalChainPolicy; sla?: ReviewSLAPolicy; now?: number } = {}
+): ReviewItem {
+    const now = options.now ?? Date.now();
+    const roles = (options.chains ?? DEFAULT_APPROVAL_CHAINS)[item.riskLevel];
+    const autoApproved = item.status === 'auto_approved';
+
+    return {
+        ...item,
+        status: autoApproved ? 'auto_approved' : 'pending_review',
+        workflow: {
+            chain: roles.map(role => ({ role, status: autoApproved ? 'approved' : 'pending' })),
+            currentStep: autoApproved ? roles.length : 0,
+            dueAt: computeDueAt(item.priority, now, options.sla),
+            escalations: 0,
+        },
+    };
+}
+
+export function getCurrentStep(item: ReviewItem): ApprovalStep | null {
+    const workflow = item.workflow;
+    if (!workflow || workflow.currentStep >= workflow.chain.length) return null;
+    return workflow.chain[workflow.currentStep];
+}
+
+function requireWorkflow(item: ReviewItem) {
+    if (!item.workflow) {
+        throw new ReviewWorkflowError('Review has no approval chain', 'invalid_state');
+    }
+    return item.workflow;
+}
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+/**
+ * Approve, request changes or reject the current step of the chain.
+ * Only a reviewer holding the step's role may decide it.
+ */
+export function decideReview(
+    item: ReviewItem,
+    reviewer: Reviewer,
+    decision: ReviewDecision,
+    now = Date.now(),
+    sla: ReviewSLAPolicy = DEFAULT_REVIEW_SLA
+): WorkflowTransition {
+    requireOpen(item);
+    const workflow = requireWorkflow(item);
+    const step = getCurrentStep(item);
+    if (!step) {
+        throw new ReviewWorkflowError('Approval chain is already complete', 'invalid_state');
+    }
+    if (!reviewer.roles.includes(step.role)) {
+        throw new ReviewWorkflowError(`The ${step.role} step needs a reviewer with the ${step.role} role`, 'forbidden');
+    }
+    if (item.status === 'changes_requested') {
+        throw new ReviewWorkflowError('Waiting for the requested changes to be resubmitted', 'invalid_state');
+    }
+
+    const permission: WorkflowAction = decision.status === 'approved' ? 'approve'
+        : decision.status === 'rejected' ? 'reject'
+            : 'request_changes';
+    requirePermission(reviewer, permission);
+
+    const decided: ApprovalStep = {
+        ...step,
+        status: decision.status,
+        decidedBy: reviewer.id,
+        decidedByName: reviewer.name,
+        decidedAt: now,
+        notes: decision.notes,
+    };
+    const chain = workflow.chain.map((s, i) => i === workflow.currentStep ? decided : s);
+    const base = { ...item, reviewedAt: now, updatedAt: now, reviewNotes: decision.notes ?? item.reviewNotes };
+    const details = { step: workflow.currentStep, role: step.role, notes: decision.notes };
+
+    if (decision.status === 'approved') {
+        const currentStep = workflow.currentStep + 1;
+        const complete = currentStep >= chain.length;
+        return {
+            item: {
+                ...base,
+                status: complete ? 'approved' : 'in_review',
+                approvedAt: complete ? now : item.approvedAt,
+                approvedBy: complete ? reviewer.id : item.approvedBy,
+                workflow: { ...workflow, chain, currentStep, dueAt: computeDueAt(item.priority, now, sla) },
+            },
+            action: 'approved',
+            details: { ...details, complete },
+        };
+    }
+
+    if (decision.status === 'rejected') {
+        return {
+            item: { ...base, status: 'rejected', rejectionReason: decision.rejectionReason, workflow: { ...workflow, chain } },
+            action: 'rejected',
+            details: { ...details, reason: decision.rejectionReason },
+        };
+    }
+
+    const changes = decision.changeRequest || decision.notes || '';
+    return {
+        item: {
+            ...base,
+            status: 'changes_requested',
+            changeRequests: [...item.changeRequests, {
+                id: `cr_${now}_${item.changeRequests.length + 1}`,
+                reviewerId: reviewer.id,
+                reviewerName: reviewer.name,
+                createdAt: now,
+                changes,
+                resolved: false,
+            }],
+            workflow: { ...workflow, chain, dueAt: computeDueAt(item.priority, now, sla) },
+        },
+        action: 'changes_requested',
+        details: { ...details, changes },
+    };
+}
+
+/**
+ * Save new content (and optionally title) of an open review as the next
+ * revision, resolving the change requests it answers
+ */
+export function editReviewContent(
+    item: ReviewItem,
+    reviewer: Reviewer,
+    edit: Omit<RevisionInput, 'authorId' | 'authorName'>,
+    now = Date.now()
+): WorkflowTransition {
+    requireOpen(item);
+    requirePermission(reviewer, 'edit');
+
+    const revised = createRevision(item, { ...edit, authorId: reviewer.id, authorName: reviewer.name }, now);
+    const revision = revised.revisions![revised.revisions!.length - 1];
+    return {
+        item: revised,
+        action: 'edited',
+        details: {
+            revision: revision.number,
+            previousWordCount: item.wordCount,
+            wordCount: revised.wordCount,
+            titleChanged: revised.title !== item.title,
+            resolvedChangeRequests: revision.resolvedChangeRequestIds,
+            appliedFixes: revision.appliedFixes.length,
+        },
+    };
+}
+
+/**
+ * Send a review back to the step that requested changes
+ */
+export function resubmitReview(
+    item: ReviewItem,
+    reviewer: Reviewer,
+    now = Date.now(),
+    sla: ReviewSLAPolicy = DEFAULT_REVIEW_SLA
+): WorkflowTransition {
+    const workflow = requireWorkflow(item);
+    if (item.status !== 'changes_requested') {
+        throw new ReviewWorkflowError('Only reviews with requested changes can be resubmitted', 'invalid_state');
+    }
+    requirePermission(reviewer, 'resubmit');
+
+    const chain = workflow.chain.map((s, i) => i === workflow.currentStep ? { role: s.role, status: 'pending' as const } : s);
+    const resolvedCount = item.changeRequests.filter(cr => !cr.resolved).length;
+    const latestRevision = item.revisions?.[item.revisions.length - 1]?.number;
+
+    return {
+        item: {
+            ...item,
+            status: workflow.currentStep === 0 ? 'pending_review' : 'in_review',
+            changeRequests: item.changeRequests.map(cr => cr.resolved
+                ? cr
+                : { ...cr, resolved: true, resolvedAt: now, resolvedInRevision: latestRevision }),
+            workflow: { ...workflow, chain, dueAt: computeDueAt(item.priority, now, sla) },
+            updatedAt: now,
+        },
+        action: 'resubmitted',
+        details: { step: workflow.currentStep, resolvedChangeRequests: resolvedCount },
+    };
+}
+
+/**
+ * Assign the review to a reviewer who can decide the current step
+ */
+export function assignReview(
+    item: ReviewItem,
+    actor: Reviewer,
+    assignee: Reviewer,
+    now = Date.now()
+): WorkflowTransition {
+    requireOpen(item);
+    requirePermission(actor, 'assign');
+
+    const step = getCurrentStep(item);
+    if (step && !assignee.roles.includes(step.role)) {
+        throw new ReviewWorkflowError(`${assignee.name} does not have the ${step.role} role`, 'invalid_state');
+    }
+
+    return {
+        item: { ...item, assignedTo: assignee.id, assignedToName: assignee.name, assignedAt: now, updatedAt: now },
+        action: 'assigned',
+        details: { assigneeId: assignee.id, previousAssignee: item.assignedTo },
+    };
+}
+
+/**
+ * Bump the priority of an open review whose current step missed its SLA.
+ * Returns null when the review is on time.
+ */
+export function escalateIfOverdue(
+    item: ReviewItem,
+    now = Date.now(),
+    sla: ReviewSLAPolicy = DEFAULT_REVIEW_SLA
+): WorkflowTransition | null {
+    const workflow = item.workflow;
+    if (!workflow || CLOSED_STATUSES.includes(item.status) || now <= workflow.dueAt) return null;
+
+    const rank = PRIORITY_LADDER.indexOf(item.priority);
+    const priority = PRIORITY_LADDER[Math.min(rank + 1, PRIORITY_LADDER.length - 1)];
+
+    return {
+        item: {
+            ...item,
+            priority,
+            workflow: { ...workflow, dueAt: computeDueAt(priority, now, sla), escalations: workflow.escalations + 1 },
+            updatedAt: now,
+        },
+        action: 'escalated',
+        details: { from: item.priority, to: priority, overdueMs: now - workflow.dueAt },
+    };
+}
+
+// ============================================================================
+// Comment Anchors
+// ============================================================================
+
+function anchorText(html: string): string {
+    return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Anchor for a comment on the given paragraph of the content
+ */
+export function anchorComment(content: string, paragraphIndex: number): CommentAnchor {
+    const paragraphs = splitParagraphs(content);
+    if (paragraphIndex < 0 || paragraphIndex >= paragraphs.length) {
+        throw new ReviewWorkflowError(`Paragraph ${paragraphIndex} does not exist`, 'invalid_state');
+    }
+    return { paragraphIndex, quote: anchorText(paragraphs[paragraphIndex]) };
+}
+
+/**
+ * Re-anchor comments after an edit: follow the quoted paragraph to its new
+ * position, or mark the comment detached (-1) when the paragraph is gone
+ */
+export function reanchorComments(content: string, comments: ReviewComment[]): ReviewComment[] {
+    const paragraphs = splitParagraphs(content).map(anchorText);
+
+    return comments.map(comment => {
+        const { paragraphIndex, quote } = comment.anchor;
+        if (paragraphs[paragraphIndex] === quote) return comment;
+
+        const moved = paragraphs.indexOf(quote);
+        return { ...comment, anchor: { ...comment.anchor, paragraphIndex: moved } };
+    });
+}
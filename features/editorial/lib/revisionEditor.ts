@@ -0,0 +1,221 @@
+/**
+ * Revision Editor
+ * FSD: features/editorial/lib/revisionEditor.ts
+ *
+ * Paragraph-level editing of a review: AI fixes are proposed for single
+ * paragraphs, accepted or rejected one by one, and saved as a numbered
+ * revision that records which change requests it resolved.
+ */
+
+import type {
+    AppliedFix,
+    ProposedFix,
+    ProposedFixKind,
+    ReviewItem,
+    ReviewRevision,
+} from '../model/reviewTypes';
+import { splitParagraphs } from './contentDiff';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RevisionInput {
+    content: string;
+    title?: string;
+    authorId?: string;
+    authorName?: string;
+    resolvesChangeRequestIds?: string[];
+    appliedFixes?: AppliedFix[];
+}
+
+export interface ProposeFixOptions {
+    instruction?: string;
+    changeRequestId?: string;
+}
+
+// ============================================================================
+// Revisions
+// ============================================================================
+
+function countWords(html: string): number {
+    return html.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Revisions of an item, oldest first. Items that were never edited get a
+ * single revision holding the content as queued.
+ */
+export function getRevisions(item: ReviewItem): ReviewRevision[] {
+    if (item.revisions?.length) return item.revisions;
+    return [{
+        id: `rev_1_${item.createdAt}`,
+        number: 1,
+        title: item.title,
+        content: item.content,
+        wordCount: item.wordCount,
+        createdAt: item.createdAt,
+        authorId: item.authorId,
+        authorName: item.authorName,
+        resolvedChangeRequestIds: [],
+        appliedFixes: [],
+    }];
+}
+
+/**
+ * Save new content as the next revision and mark the change requests it
+ * answers as resolved. Unknown or already resolved request IDs are ignored.
+ */
+export function createRevision(item: ReviewItem, input: RevisionInput, now = Date.now()): ReviewItem {
+    const revisions = getRevisions(item);
+    const number = revisions[revisions.length - 1].number + 1;
+
+    const open = new Set(item.changeRequests.filter(cr => !cr.resolved).map(cr => cr.id));
+    const resolvedIds = (input.resolvesChangeRequestIds ?? []).filter(id => open.has(id));
+
+    const title = input.title ?? item.title;
+    const wordCount = countWords(input.content);
+    const revision: ReviewRevision = {
+        id: `rev_${number}_${now}`,
+        number,
+        title,
+        content: input.content,
+        wordCount,
+        createdAt: now,
+        authorId: input.authorId,
+        authorName: input.authorName,
+        resolvedChangeRequestIds: resolvedIds,
+        appliedFixes: input.appliedFixes ?? [],
+    };
+
+    return {
+        ...item,
+        title,
+        content: input.content,
+        wordCount,
+        revisions: [...revisions, revision],
+        changeRequests: item.changeRequests.map(cr => resolvedIds.includes(cr.id)
+            ? { ...cr, resolved: true, resolvedAt: now, resolvedInRevision: number }
+            : cr),
+        updatedAt: now,
+    };
+}
+
+/**
+ * Revision that resolved a change request, if any
+ */
+export function getResolvingRevision(item: ReviewItem, changeRequestId: string): ReviewRevision | undefined {
+    const request = item.changeRequests.find(cr => cr.id === changeRequestId);
+    if (!request?.resolvedInRevision) return undefined;
+    return getRevisions(item).find(r => r.number === request.resolvedInRevision);
+}
+
+// ============================================================================
+// Paragraph Edits
+// ============================================================================
+
+/**
+ * Replace paragraphs by index, keeping everything between them untouched.
+ * An empty replacement removes the paragraph.
+ */
+export function replaceParagraphs(content: string, replacements: Record<number, string>): string {
+    const paragraphs = splitParagraphs(content);
+    let result = '';
+    let cursor = 0;
+
+    paragraphs.forEach((paragraph, i) => {
+        const at = content.indexOf(paragraph, cursor);
+        if (at === -1) return;
+        result += content.slice(cursor, at) + (i in replacements ? replacements[i] : paragraph);
+        cursor = at + paragraph.length;
+    });
+
+    return result + content.slice(cursor);
+}
+
+/**
+ * Content with every accepted fix applied
+ */
+export function applyAcceptedFixes(content: string, fixes: ProposedFix[]): string {
+    const replacements: Record<number, string> = {};
+    for (const fix of fixes) {
+        if (fix.status === 'accepted') replacements[fix.paragraphIndex] = fix.proposed;
+    }
+    return replaceParagraphs(content, replacements);
+}
+
+// ============================================================================
+// AI Fixes
+// ============================================================================
+
+const FIX_INSTRUCTIONS: Record<ProposedFixKind, string> = {
+    regenerate_section: 'Rewrite this paragraph so it is clearer, more specific and more useful to the reader. Keep the facts that are correct.',
+    add_citation: 'Add a citation to a credible, real source for the main claim in this paragraph as an <a href> link. Do not invent statistics.',
+};
+
+export function buildFixPrompt(
+    item: ReviewItem,
+    paragraph: string,
+    kind: ProposedFixKind,
+    instruction?: string
+): string {
+    return `You are revising one paragraph of the article "${item.title}" (topic: ${item.topic}) after editorial review.
+
+Task: ${FIX_INSTRUCTIONS[kind]}
+${instruction ? `Reviewer request: ${instruction}\n` : ''}
+Rules:
+- Keep the same HTML tag and roughly the same length
+- Keep every existing <a> link exactly as it is
+- Return ONLY the HTML of the paragraph, no explanations
+
+Paragraph:
+${paragraph}`;
+}
+
+/**
+ * Ask the AI for a replacement of one paragraph. The fix starts pending and
+ * changes nothing until accepted.
+ */
+export async function proposeFix(
+    item: ReviewItem,
+    paragraphIndex: number,
+    kind: ProposedFixKind,
+    options: ProposeFixOptions = {}
+): Promise<ProposedFix> {
+    const paragraph = splitParagraphs(item.content)[paragraphIndex];
+    if (!paragraph) {
+        throw new Error(`Paragraph ${paragraphIndex} does not exist`);
+    }
+
+    const response = await fetch('/api/capabilities/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            prompt: buildFixPrompt(item, paragraph, kind, options.instruction),
+            itemType: 'review_fix',
+            campaignId: item.campaignId,
+            bypassCache: true,
+        }),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Fix request HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    if (!data.success || !data.text) {
+        throw new Error(data.error || 'Fix request returned no content');
+    }
+
+    const now = Date.now();
+    return {
+        id: `fix_${now}_${paragraphIndex}`,
+        kind,
+        paragraphIndex,
+        original: paragraph,
+        proposed: String(data.text).replace(/^```(?:html)?\s*|\s*```$/g, '').trim(),
+        instruction: options.instruction,
+        changeRequestId: options.changeRequestId,
+        status: 'pending',
+        createdAt: now,
+    };
+}
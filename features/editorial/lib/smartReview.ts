@@ -47,7 +47,9 @@ export interface TopicPerformance {
     // Outcome tracking (post-publish)
     publishedCount: number;
     avgPageViews?: number;
-    avgEngagement?: number;
+    avgEngagement?: number;              // Avg time on page (seconds)
+    avgRPM?: number;
+    winnerRate?: number;                 // % of published posts in the top performance band
 
     // Calculated metrics
     autoApprovalAccuracy: number;        // % of auto-approved that performed well
@@ -81,13 +83,28 @@ export interface LearningState {
  */
 export interface ContentImprovement {
     id: string;
-    category: 'experience' | 'expertise' | 'citations' | 'structure' | 'trust';
+    category: 'experience' | 'expertise' | 'citations' | 'structure' | 'trust' | 'performance';
     signal: string;                      // What to improve
     frequency: number;                   // How often this issue appears
     suggestedPromptAddition?: string;    // Addition to AI prompt
+    performanceLift?: number;            // Winner rate vs. average (performance signals only)
     lastSeen: number;
 }
 
+/**
+ * Published outcome of one reviewed post (see performanceLearning)
+ */
+export interface PerformanceOutcome {
+    topic: string;
+    isYMYL: boolean;
+    autoApproved: boolean;
+    belowThreshold: boolean;             // Published although under the auto-approve threshold
+    pageViews: number;
+    rpm: number;
+    avgTimeOnPage?: number;
+    band: 'winner' | 'average' | 'loser';
+}
+
 /**
  * Auto-review decision
  */
@@ -428,6 +445,14 @@ export function recordReviewFeedback(feedback: ReviewFeedback): void {
     saveLearningState();
 }
 
+/**
+ * Adjust threshold downward (less strict) for a topic
+ */
+function adjustThresholdDown(topic: string, factor: number = 1): void {
+    const current = learningState.thresholdAdjustments.byTopic[topic] || 0;
+    learningState.thresholdAdjustments.byTopic[topic] = Math.max(-10, current - 2 * factor);
+}
+
 /**
  * Adjust threshold upward (more strict) for a topic
  */
@@ -474,16 +499,119 @@ export function recordContentImprovement(
     }
 }
 
+// ============================================================================
+// Performance Learning
+// ============================================================================
+
+const MIN_TOPIC_OUTCOMES = 3;
+
+/**
+ * Feed published outcomes back into the learning state. Topics whose
+ * auto-approved posts mostly lose get a stricter threshold; topics whose
+ * below-threshold posts mostly win get a looser one.
+ *
+ * @returns Human-readable threshold changes
+ */
+export function recordPerformanceFeedback(outcomes: PerformanceOutcome[]): string[] {
+    const changes: string[] = [];
+    const byTopic = new Map<string, PerformanceOutcome[]>();
+    for (const outcome of outcomes) {
+        const key = outcome.topic.toLowerCase();
+        byTopic.set(key, [...(byTopic.get(key) || []), outcome]);
+    }
+
+    for (const [topicKey, topicOutcomes] of byTopic) {
+        if (!learningState.topicPerformance[topicKey]) {
+            learningState.topicPerformance[topicKey] = {
+                topic: topicOutcomes[0].topic,
+                totalReviewed: 0,
+                autoApproved: 0,
+                humanApproved: 0,
+                humanRejected: 0,
+                changesRequested: 0,
+                publishedCount: 0,
+                autoApprovalAccuracy: 100,
+                humanOverrideRate: 0,
+                avgEEATScore: 0,
+            };
+        }
+
+        // Performance data is a snapshot per post, so averages are recomputed
+        const perf = learningState.topicPerformance[topicKey];
+        const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+        const withTime = topicOutcomes.filter(o => o.avgTimeOnPage !== undefined).map(o => o.avgTimeOnPage!);
+
+        perf.publishedCount = topicOutcomes.length;
+        perf.avgPageViews = average(topicOutcomes.map(o => o.pageViews));
+        perf.avgRPM = average(topicOutcomes.map(o => o.rpm));
+        perf.avgEngagement = average(withTime);
+        perf.winnerRate = (topicOutcomes.filter(o => o.band === 'winner').length / topicOutcomes.length) * 100;
+
+        const autoApproved = topicOutcomes.filter(o => o.autoApproved);
+        const autoLosers = autoApproved.filter(o => o.band === 'loser').length;
+        if (autoApproved.length > 0) {
+            perf.autoApprovalAccuracy = ((autoApproved.length - autoLosers) / autoApproved.length) * 100;
+        }
+
+        if (autoApproved.length >= MIN_TOPIC_OUTCOMES && autoLosers / autoApproved.length > 0.5) {
+            adjustThresholdUp(topicKey, topicOutcomes[0].isYMYL);
+            changes.push(`${perf.topic}: stricter (${autoLosers}/${autoApproved.length} auto-approved posts underperform)`);
+        }
+
+        const belowThreshold = topicOutcomes.filter(o => o.belowThreshold);
+        const belowWinners = belowThreshold.filter(o => o.band === 'winner').length;
+        if (belowThreshold.length >= MIN_TOPIC_OUTCOMES && belowWinners / belowThreshold.length > 0.5) {
+            adjustThresholdDown(topicKey);
+            changes.push(`${perf.topic}: looser (${belowWinners}/${belowThreshold.length} below-threshold posts are winners)`);
+        }
+    }
+
+    learningState.lastUpdated = Date.now();
+    saveLearningState();
+    return changes;
+}
+
+/**
+ * Record (or refresh) a performance-backed prompt signal
+ */
+export function recordPerformanceSignal(
+    signal: string,
+    suggestedPromptAddition: string,
+    performanceLift: number
+): void {
+    const existing = learningState.contentImprovements.find(
+        i => i.category === 'performance' && i.signal === signal
+    );
+
+    if (existing) {
+        existing.frequency++;
+        existing.performanceLift = performanceLift;
+        existing.lastSeen = Date.now();
+    } else {
+        learningState.contentImprovements.push({
+            id: `imp_${Date.now()}_${learningState.contentImprovements.length}`,
+            category: 'performance',
+            signal,
+            frequency: 1,
+            suggestedPromptAddition,
+            performanceLift,
+            lastSeen: Date.now(),
+        });
+    }
+}
+
 // ============================================================================
 // Content Generation Improvement
 // ============================================================================
 
 /**
- * Get top improvement signals for content generation prompts
+ * Get top improvement signals for content generation prompts.
+ * Signals backed by published performance are weighted by their lift.
  */
 export function getTopImprovementSignals(limit: number = 5): ContentImprovement[] {
+    const weight = (i: ContentImprovement) => i.frequency * (i.performanceLift ?? 1);
     return [...learningState.contentImprovements]
-        .sort((a, b) => b.frequency - a.frequency)
+        .sort((a, b) => weight(b) - weight(a))
         .slice(0, limit);
 }
 
@@ -25,6 +25,7 @@ import type {
 import { DEFAULT_REVIEW_CHECKLIST } from './reviewTypes';
 import { calculateEEATScore } from '@/lib/contentQuality';
 import { quickAIOverviewCheck } from '@/lib/seo';
+import { createRevision, type RevisionInput } from '../lib/revisionEditor';
 
 // ============================================================================
 // Store State
@@ -64,6 +65,7 @@ interface ReviewState {
     submitDecision: (itemId: string, decision: ReviewDecision) => void;
     requestChanges: (itemId: string, changes: string, reviewerName: string) => void;
     resolveChangeRequest: (itemId: string, requestId: string) => void;
+    reviseContent: (itemId: string, input: RevisionInput) => void;
 
     // Checklist
     toggleChecklistItem: (itemId: string, checklistId: string) => void;
@@ -76,6 +78,12 @@ interface ReviewState {
     // Policy
     updatePolicy: (updates: Partial<ReviewPolicy>) => void;
 
+    // Server sync (server copy is authoritative)
+    currentReviewerId: string | null;
+    setCurrentReviewer: (reviewerId: string | null) => void;
+    syncWithServer: () => Promise<void>;
+    applyServerItem: (item: ReviewItem) => void;
+
     // UI
     selectItem: (id: string | null) => void;
     setError: (error: string | null) => void;
@@ -140,6 +148,89 @@ function initializeChecklist(): ReviewChecklistItem[] {
     }));
 }
 
+/**
+ * Score a draft and build its review item without adding it to the queue.
+ * Dry runs use this to predict the review decision.
+ */
+export function buildReviewItem(input: CreateReviewInput, policy: ReviewPolicy): ReviewItem {
+    // Calculate scores
+    const eeatScore = calculateEEATScore(input.content);
+    const aiOverview = quickAIOverviewCheck(input.content);
+    const overallQualityScore = Math.round(
+        (eeatScore.overall * 0.7) + (aiOverview.score * 0.3)
+    );
+
+    // Validate citations
+    const citationValidation = validateCitations(input.content);
+
+    // Determine risk level and priority
+    const riskLevel = detectRiskLevel(input.topic, policy);
+    const priority = calculatePriority(riskLevel, overallQualityScore);
+
+    // Check auto-approval eligibility
+    let autoApprovalEligible = false;
+    let autoApprovalBlocked: string | undefined;
+
+    if (policy.enableAutoApproval) {
+        if (overallQualityScore >= policy.autoApproveAboveScore) {
+            if (riskLevel === 'ymyl' && policy.ymylRequiresManualReview) {
+                autoApprovalBlocked = 'YMYL content requires manual review';
+            } else if (policy.autoApproveRequiresCitations &&
+                citationValidation.totalCitations < policy.minCitationCount) {
+                autoApprovalBlocked = `Minimum ${policy.minCitationCount} citations required`;
+            } else if (citationValidation.overallStatus === 'issues') {
+                autoApprovalBlocked = 'Citation issues need resolution';
+            } else if (input.claimChecks && input.claimChecks.removed > 0) {
+                autoApprovalBlocked = `${input.claimChecks.removed} contradicted claim(s) removed by fact check`;
+            } else {
+                autoApprovalEligible = true;
+            }
+        } else {
+            autoApprovalBlocked = `Score ${overallQualityScore} below threshold ${policy.autoApproveAboveScore}`;
+        }
+    }
+
+    return {
+        id: generateId(),
+        runItemId: input.runItemId,
+        campaignId: input.campaignId,
+        siteId: input.siteId,
+
+        title: input.title,
+        content: input.content,
+        excerpt: input.excerpt,
+        slug: input.slug,
+        wordCount: input.content.replace(/<[^>]+>/g, ' ').split(/\s+/).length,
+
+        topic: input.topic,
+        authorId: input.authorId,
+        authorName: input.authorName,
+
+        eeatScore,
+        aiOverviewScore: aiOverview.score,
+        overallQualityScore,
+
+        citationValidation,
+
+        status: 'pending_review',
+        priority,
+        riskLevel,
+
+        checklist: initializeChecklist(),
+        checklistComplete: false,
+        changeRequests: [],
+        refresh: input.refresh,
+        claimChecks: input.claimChecks,
+        generation: input.generation,
+
+        autoApprovalEligible,
+        autoApprovalBlocked,
+
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+    };
+}
+
 // ============================================================================
 // Store Implementation
 // ============================================================================
@@ -168,6 +259,7 @@ export const useReviewStore = create<ReviewState>()(
                 maxChangeRequestRounds: 3,
             },
             selectedItemId: null,
+            currentReviewerId: null,
             filter: {},
             sort: 'priority',
             isLoading: false,
@@ -178,79 +270,7 @@ export const useReviewStore = create<ReviewState>()(
             // ─────────────────────────────────────────────────────────────────
 
             createReviewItem: (input) => {
-                const { policy } = get();
-
-                // Calculate scores
-                const eeatScore = calculateEEATScore(input.content);
-                const aiOverview = quickAIOverviewCheck(input.content);
-                const overallQualityScore = Math.round(
-                    (eeatScore.overall * 0.7) + (aiOverview.score * 0.3)
-                );
-
-                // Validate citations
-                const citationValidation = validateCitations(input.content);
-
-                // Determine risk level and priority
-                const riskLevel = detectRiskLevel(input.topic, policy);
-                const priority = calculatePriority(riskLevel, overallQualityScore);
-
-                // Check auto-approval eligibility
-                let autoApprovalEligible = false;
-                let autoApprovalBlocked: string | undefined;
-
-                if (policy.enableAutoApproval) {
-                    if (overallQualityScore >= policy.autoApproveAboveScore) {
-                        if (riskLevel === 'ymyl' && policy.ymylRequiresManualReview) {
-                            autoApprovalBlocked = 'YMYL content requires manual review';
-                        } else if (policy.autoApproveRequiresCitations &&
-                            citationValidation.totalCitations < policy.minCitationCount) {
-                            autoApprovalBlocked = `Minimum ${policy.minCitationCount} citations required`;
-                        } else if (citationValidation.overallStatus === 'issues') {
-                            autoApprovalBlocked = 'Citation issues need resolution';
-                        } else {
-                            autoApprovalEligible = true;
-                        }
-                    } else {
-                        autoApprovalBlocked = `Score ${overallQualityScore} below threshold ${policy.autoApproveAboveScore}`;
-                    }
-                }
-
-                const newItem: ReviewItem = {
-                    id: generateId(),
-                    runItemId: input.runItemId,
-                    campaignId: input.campaignId,
-                    siteId: input.siteId,
-
-                    title: input.title,
-                    content: input.content,
-                    excerpt: input.excerpt,
-                    slug: input.slug,
-                    wordCount: input.content.replace(/<[^>]+>/g, ' ').split(/\s+/).length,
-
-                    topic: input.topic,
-                    authorId: input.authorId,
-                    authorName: input.authorName,
-
-                    eeatScore,
-                    aiOverviewScore: aiOverview.score,
-                    overallQualityScore,
-
-                    citationValidation,
-
-                    status: 'pending_review',
-                    priority,
-                    riskLevel,
-
-                    checklist: initializeChecklist(),
-                    checklistComplete: false,
-                    changeRequests: [],
-
-                    autoApprovalEligible,
-                    autoApprovalBlocked,
-
-                    createdAt: Date.now(),
-                    updatedAt: Date.now(),
-                };
+                const newItem = buildReviewItem(input, get().policy);
 
                 set(state => ({
                     items: [...state.items, newItem]
@@ -496,6 +516,14 @@ export const useReviewStore = create<ReviewState>()(
                 }));
             },
 
+            reviseContent: (itemId, input) => {
+                set(state => ({
+                    items: state.items.map(item =>
+                        item.id === itemId ? createRevision(item, input) : item
+                    )
+                }));
+            },
+
             // ─────────────────────────────────────────────────────────────────
             // Checklist
             // ─────────────────────────────────────────────────────────────────
@@ -578,6 +606,42 @@ export const useReviewStore = create<ReviewState>()(
                 }));
             },
 
+            // ─────────────────────────────────────────────────────────────────
+            // Server Sync
+            // ─────────────────────────────────────────────────────────────────
+
+            setCurrentReviewer: (reviewerId) => set({ currentReviewerId: reviewerId }),
+
+            syncWithServer: async () => {
+                set({ isLoading: true, error: null });
+                try {
+                    const { pushReviewItems, fetchServerReviews } = await import('../lib/reviewApi');
+
+                    // Items without a workflow were created locally and never stored
+                    const unsynced = get().items.filter(item => !item.workflow);
+                    if (unsynced.length > 0) {
+                        await pushReviewItems(unsynced);
+                    }
+
+                    const serverItems = await fetchServerReviews();
+                    const serverIds = new Set(serverItems.map(item => item.id));
+                    set(state => ({
+                        items: [...serverItems, ...state.items.filter(item => !serverIds.has(item.id))],
+                        isLoading: false,
+                    }));
+                } catch (error) {
+                    set({ isLoading: false, error: error instanceof Error ? error.message : 'Review sync failed' });
+                }
+            },
+
+            applyServerItem: (serverItem) => {
+                set(state => ({
+                    items: state.items.some(item => item.id === serverItem.id)
+                        ? state.items.map(item => item.id === serverItem.id ? serverItem : item)
+                        : [...state.items, serverItem]
+                }));
+            },
+
             // ─────────────────────────────────────────────────────────────────
             // UI
             // ─────────────────────────────────────────────────────────────────
@@ -590,6 +654,7 @@ export const useReviewStore = create<ReviewState>()(
             partialize: (state) => ({
                 items: state.items,
                 policy: state.policy,
+                currentReviewerId: state.currentReviewerId,
             }),
         }
     )
@@ -6,7 +6,9 @@
  * including review items, policies, and approval gates.
  */
 
-import type { EEATScore, FullContentScore } from '@/lib/contentQuality';
+import type { EEATScore, FullContentScore, ClaimCheckReport } from '@/lib/contentQuality';
+import type { ParagraphDiff } from '../lib/contentDiff';
+import type { ReviewWorkflowState } from './workflowTypes';
 
 // ============================================================================
 // Review Status
@@ -96,6 +98,89 @@ export interface ReviewChangeRequest {
     changes: string;                     // Markdown description of requested changes
     resolved: boolean;
     resolvedAt?: number;
+    resolvedInRevision?: number;         // Revision number that addressed it
+}
+
+/**
+ * Kind of AI fix a reviewer can ask for on a single paragraph
+ */
+export type ProposedFixKind = 'regenerate_section' | 'add_citation';
+
+/**
+ * AI-proposed replacement for one paragraph, accepted or rejected individually
+ */
+export interface ProposedFix {
+    id: string;
+    kind: ProposedFixKind;
+    paragraphIndex: number;
+    original: string;                    // Paragraph HTML being replaced
+    proposed: string;                    // Replacement HTML
+    instruction?: string;
+    changeRequestId?: string;            // Change request the fix answers
+    status: 'pending' | 'accepted' | 'rejected';
+    createdAt: number;
+}
+
+/**
+ * Accepted fix as recorded on a revision
+ */
+export interface AppliedFix {
+    kind: ProposedFixKind;
+    paragraphIndex: number;
+    changeRequestId?: string;
+}
+
+/**
+ * One saved version of the review content and what it addressed
+ */
+export interface ReviewRevision {
+    id: string;                          // rev_<number>_<timestamp>
+    number: number;                      // 1 = content as queued
+    title: string;
+    content: string;
+    wordCount: number;
+    createdAt: number;
+    authorId?: string;
+    authorName?: string;
+    resolvedChangeRequestIds: string[];
+    appliedFixes: AppliedFix[];
+}
+
+/**
+ * Snapshot of a post's content at one point of a refresh
+ */
+export interface RefreshVersion {
+    id: string;                          // ver_timestamp
+    title: string;
+    content: string;
+    savedAt: number;
+    reason: 'before-refresh' | 'refresh';
+    wordCount: number;
+}
+
+/**
+ * Refresh of an already published post: what changed and where it goes back to
+ */
+export interface ReviewRefreshInfo {
+    postId: number;
+    postUrl?: string;
+    action: 'minor_update' | 'major_rewrite' | 'republish';
+    before: RefreshVersion;
+    after: RefreshVersion;
+    diff: ParagraphDiff;
+    refreshedSections: string[];         // Headings of regenerated sections
+    preservedLinks: number;              // Internal links carried over
+    republishedAt?: number;
+    republishError?: string;
+}
+
+/**
+ * Generation settings and learned prompt additions that produced the content,
+ * joined with post performance by the learning loop
+ */
+export interface GenerationSnapshot {
+    settings: Record<string, string | number | boolean>;
+    promptAdditions: string[];
 }
 
 /**
@@ -157,6 +242,23 @@ export interface ReviewItem {
     // Change requests
     changeRequests: ReviewChangeRequest[];
 
+    // Saved revisions, oldest first (absent until the first edit)
+    revisions?: ReviewRevision[];
+
+    // Refresh of a published post (absent for new content)
+    refresh?: ReviewRefreshInfo;
+
+    // Claim table from the pipeline fact check (absent when it did not run)
+    claimChecks?: ClaimCheckReport;
+
+    // Approval chain and SLA (server-persisted reviews only)
+    workflow?: ReviewWorkflowState;
+
+    // What produced the content and where it went live (performance learning)
+    generation?: GenerationSnapshot;
+    publishedPostId?: number;
+    publishedUrl?: string;
+
     // ─────────────────────────────────────────────────────────────────────────
     // Auto-approval
     // ─────────────────────────────────────────────────────────────────────────
@@ -309,6 +411,9 @@ export interface CreateReviewInput {
     authorId?: string;
     authorName?: string;
     runItemId?: string;
+    refresh?: ReviewRefreshInfo;
+    claimChecks?: ClaimCheckReport;
+    generation?: GenerationSnapshot;
 }
 
 /**
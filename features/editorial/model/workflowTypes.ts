@@ -0,0 +1,213 @@
+/**
+ * Editorial Workflow Types
+ * FSD: features/editorial/model/workflowTypes.ts
+ *
+ * Server-side review workflow: reviewer roles, approval chains per risk
+ * level, SLA escalation, the audit log and paragraph-anchored comments.
+ */
+
+import type { AppliedFix, ContentRiskLevel, ReviewDecision, ReviewItem, ReviewPriority } from './reviewTypes';
+
+// ============================================================================
+// Reviewers
+// ============================================================================
+
+/**
+ * Reviewer role
+ * - writer: edits content and resubmits after change requests
+ * - editor: approves the editorial stage, assigns reviewers
+ * - legal: approves the legal / YMYL stage
+ */
+export type ReviewerRole = 'writer' | 'editor' | 'legal';
+
+export interface Reviewer {
+    id: string;
+    name: string;
+    email?: string;
+    roles: ReviewerRole[];
+    active: boolean;
+    createdAt: number;
+}
+
+/**
+ * Action a reviewer can take on a review item
+ */
+export type WorkflowAction =
+    | 'approve'
+    | 'request_changes'
+    | 'reject'
+    | 'edit'
+    | 'resubmit'
+    | 'assign'
+    | 'comment';
+
+export const ROLE_PERMISSIONS: Record<ReviewerRole, WorkflowAction[]> = {
+    writer: ['edit', 'resubmit', 'comment'],
+    editor: ['approve', 'request_changes', 'reject', 'edit', 'resubmit', 'assign', 'comment'],
+    legal: ['approve', 'request_changes', 'reject', 'comment'],
+};
+
+// ============================================================================
+// Approval Chains
+// ============================================================================
+
+/**
+ * Roles that must approve, in order, per content risk level
+ */
+export type ApprovalChainPolicy = Record<ContentRiskLevel, ReviewerRole[]>;
+
+export const DEFAULT_APPROVAL_CHAINS: ApprovalChainPolicy = {
+    standard: ['editor'],
+    sensitive: ['editor', 'legal'],
+    ymyl: ['editor', 'legal', 'editor'],   // Final editor sign-off after legal edits
+};
+
+export type ApprovalStepStatus = 'pending' | 'approved' | 'changes_requested' | 'rejected';
+
+export interface ApprovalStep {
+    role: ReviewerRole;
+    status: ApprovalStepStatus;
+    decidedBy?: string;                  // Reviewer ID
+    decidedByName?: string;
+    decidedAt?: number;
+    notes?: string;
+}
+
+// ============================================================================
+// SLA
+// ============================================================================
+
+/**
+ * Hours a review may wait at each priority before it escalates
+ */
+export type ReviewSLAPolicy = Record<ReviewPriority, number>;
+
+export const DEFAULT_REVIEW_SLA: ReviewSLAPolicy = {
+    urgent: 4,
+    high: 24,
+    normal: 48,
+    low: 96,
+};
+
+/**
+ * Workflow state stored on a server-persisted review item
+ */
+export interface ReviewWorkflowState {
+    chain: ApprovalStep[];
+    currentStep: number;                 // Index into chain; chain.length when complete
+    dueAt: number;                       // SLA deadline for the current step
+    escalations: number;
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export type AuditAction =
+    | 'created'
+    | 'assigned'
+    | 'approved'
+    | 'changes_requested'
+    | 'rejected'
+    | 'edited'
+    | 'resubmitted'
+    | 'commented'
+    | 'comment_resolved'
+    | 'escalated'
+    | 'published';
+
+/**
+ * Append-only audit record. Each entry hashes the previous one, so any
+ * rewrite of history breaks the chain.
+ */
+export interface AuditEntry {
+    id: string;
+    seq: number;
+    itemId: string;
+    at: number;
+    actorId: string;                     // Reviewer ID or 'system'
+    actorName: string;
+    role?: ReviewerRole;
+    action: AuditAction;
+    details?: Record<string, unknown>;
+    contentHash?: string;                // Content at the time of the action
+    prevHash: string;
+    hash: string;
+}
+
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'seq' | 'prevHash' | 'hash'>;
+
+// ============================================================================
+// Comments
+// ============================================================================
+
+/**
+ * Paragraph a comment is attached to. The quote re-anchors the comment
+ * when edits move the paragraph.
+ */
+export interface CommentAnchor {
+    paragraphIndex: number;              // -1 when the paragraph no longer exists
+    quote: string;                       // Paragraph text when the comment was made
+}
+
+export interface ReviewComment {
+    id: string;
+    itemId: string;
+    anchor: CommentAnchor;
+    authorId: string;
+    authorName: string;
+    role?: ReviewerRole;
+    body: string;
+    createdAt: number;
+    resolved: boolean;
+    resolvedAt?: number;
+    resolvedBy?: string;
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Workflow action submitted to the review API
+ */
+export type ReviewActionRequest =
+    | { type: 'decide'; decision: ReviewDecision }
+    | { type: 'edit'; content: string; title?: string; resolvesChangeRequestIds?: string[]; appliedFixes?: AppliedFix[] }
+    | { type: 'resubmit' }
+    | { type: 'assign'; assigneeId: string };
+
+/**
+ * Post a review went live as, reported by the publish stage
+ */
+export interface ReviewPublication {
+    postId: number;
+    url: string;
+    publishedAt?: number;
+}
+
+/**
+ * Review with its audit trail and comments, as returned by the review API
+ */
+export interface ReviewDetail {
+    item: ReviewItem;
+    audit: AuditEntry[];
+    comments: ReviewComment[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when a reviewer may not perform an action
+ */
+export class ReviewWorkflowError extends Error {
+    constructor(
+        message: string,
+        public readonly code: 'forbidden' | 'invalid_state' | 'not_found'
+    ) {
+        super(message);
+        this.name = 'ReviewWorkflowError';
+    }
+}
@@ -2,9 +2,12 @@
  * Hostinger MCP Service Wrapper
  * 
  * Provides typed wrappers for Hostinger MCP tools.
- * Handles API calls via the /api/mcp/execute endpoint.
+ * Handles API calls via the /api/mcp/execute endpoint. DNS record reads and
+ * writes go through the shared DNS provider layer (/api/dns) instead.
  */
 
+import { applyDomainRecords, listDomainRecords } from '@/lib/dns/dnsProviders';
+
 // ============ TYPES ============
 
 export interface HostingWebsite {
@@ -218,28 +221,42 @@ export async function purchaseDomain(
  * Get DNS records for a domain
  */
 export async function getDnsRecords(domain: string): Promise<DnsRecord[]> {
-    const result = await callHostingerTool('DNS_getDNSRecordsV1', {
-        domain
-    });
-
-    if (!result.success || !result.result) return [];
-
-    const data = result.result as { records?: DnsRecord[] };
-    return data.records || [];
+    try {
+        const records = await listDomainRecords('hostinger', domain);
+        return records.map(record => ({
+            type: record.type,
+            name: record.host,
+            value: record.value,
+            ttl: record.ttl,
+            priority: record.priority,
+        }));
+    } catch {
+        return [];
+    }
 }
 
 /**
- * Update DNS records for a domain
+ * Update DNS records for a domain (existing records in other slots are kept)
  */
 export async function updateDnsRecords(
     domain: string,
     records: DnsRecord[]
 ): Promise<{ success: boolean; error?: string }> {
-    const result = await callHostingerTool('DNS_updateDNSRecordsV1', {
-        domain,
-        records
-    });
-    return { success: result.success, error: result.error };
+    try {
+        await applyDomainRecords('hostinger', domain, records.map(record => ({
+            type: record.type,
+            host: record.name,
+            value: record.value,
+            ttl: record.ttl,
+            priority: record.priority,
+        })));
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
 }
 
 /**
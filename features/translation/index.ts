@@ -177,3 +177,17 @@ export async function translateBatch(
 
     return results;
 }
+
+// ============================================================================
+// Multilingual Static Sites
+// ============================================================================
+
+export {
+    syncSiteTranslations,
+    resolveTranslationTarget,
+} from './lib/siteLocaleSync';
+export type {
+    SiteTranslationProvider,
+    SiteLocaleSyncOptions,
+    SiteLocaleSyncResult,
+} from './lib/siteLocaleSync';
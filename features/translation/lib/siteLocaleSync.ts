@@ -0,0 +1,148 @@
+/**
+ * Site Locale Sync
+ * FSD: features/translation/lib/siteLocaleSync.ts
+ *
+ * Fills the additional locales of a multilingual static site: asks the
+ * server which websiteStore articles have missing or stale translations,
+ * translates them here in the browser with DeepL or Google Translate, and
+ * stores the results so the next deploy writes content/<locale>/<slug>.md.
+ */
+
+import { COMMON_LANGUAGES, getLanguageByCode } from '../index';
+import { isDeepLConfigured } from '@/lib/ai/handlers/deeplHandler';
+import { isGoogleTranslateConfigured } from '@/lib/ai/handlers/googleTranslateHandler';
+import type { PendingTranslation } from '@/lib/websiteStore/translationCrud';
+
+export type SiteTranslationProvider = 'deepl' | 'google';
+
+export interface SiteLocaleSyncOptions {
+    /** Preferred provider; falls back to the other when it can't handle a locale */
+    provider?: SiteTranslationProvider;
+    /** Language of the source articles (the site's default locale) */
+    sourceLocale?: string;
+    onProgress?: (message: string, done: number, total: number) => void;
+}
+
+export interface SiteLocaleSyncResult {
+    translated: number;
+    failed: number;
+    errors: Array<{ articleId: string; locale: string; error: string }>;
+}
+
+const HANDLER_IDS: Record<SiteTranslationProvider, string> = {
+    deepl: 'deepl-translate',
+    google: 'google-translate',
+};
+
+/**
+ * Pick the handler and provider language code for a site locale
+ */
+export function resolveTranslationTarget(
+    locale: string,
+    preferred?: SiteTranslationProvider
+): { provider: SiteTranslationProvider; code: string } | null {
+    const language = getLanguageByCode(locale);
+    const deeplCode = language?.deeplCode;
+    const googleCode = language?.googleCode || locale;
+
+    const canDeepL = isDeepLConfigured() && !!deeplCode;
+    const canGoogle = isGoogleTranslateConfigured();
+
+    const order: SiteTranslationProvider[] = preferred === 'google' ? ['google', 'deepl'] : ['deepl', 'google'];
+    for (const provider of order) {
+        if (provider === 'deepl' && canDeepL) return { provider, code: deeplCode as string };
+        if (provider === 'google' && canGoogle) return { provider, code: googleCode };
+    }
+    return null;
+}
+
+async function translateField(text: string, provider: SiteTranslationProvider, targetLanguage: string, sourceLanguage?: string): Promise<string> {
+    if (!text.trim()) return text;
+
+    // Dynamic import ai client to avoid circular deps
+    const { ai } = await import('@/lib/ai/client');
+    const result = await ai.translate(text, {
+        targetLanguage,
+        sourceLanguage,
+        preferredHandler: HANDLER_IDS[provider],
+    });
+
+    if (!result.success || !result.text) {
+        throw new Error(result.error || 'Translation failed');
+    }
+    return result.text;
+}
+
+function sourceCode(locale: string | undefined, provider: SiteTranslationProvider): string | undefined {
+    if (!locale) return undefined;
+    const language = COMMON_LANGUAGES.find(l => l.code === locale.toLowerCase());
+    if (!language) return undefined;
+    // DeepL source languages have no regional variant
+    return provider === 'deepl' ? language.deeplCode?.split('-')[0] : language.googleCode;
+}
+
+/**
+ * Translate every pending article into the given locales and save the results
+ */
+export async function syncSiteTranslations(
+    domain: string,
+    locales: string[],
+    options: SiteLocaleSyncOptions = {}
+): Promise<SiteLocaleSyncResult> {
+    const result: SiteLocaleSyncResult = { translated: 0, failed: 0, errors: [] };
+
+    const params = new URLSearchParams({ domain, locales: locales.join(',') });
+    const response = await fetch(`/api/site-translations?${params}`);
+    const data = await response.json();
+    if (!data.success) {
+        throw new Error(data.error || 'Failed to load pending translations');
+    }
+
+    const pending: PendingTranslation[] = data.pending;
+
+    for (let i = 0; i < pending.length; i++) {
+        const item = pending[i];
+        options.onProgress?.(`Translating "${item.title}" to ${item.locale}`, i, pending.length);
+
+        try {
+            const target = resolveTranslationTarget(item.locale, options.provider);
+            if (!target) {
+                throw new Error(`No translation provider configured for ${item.locale}`);
+            }
+            const source = sourceCode(options.sourceLocale, target.provider);
+
+            const [title, description, content] = await Promise.all([
+                translateField(item.title, target.provider, target.code, source),
+                translateField(item.description, target.provider, target.code, source),
+                translateField(item.content, target.provider, target.code, source),
+            ]);
+
+            const saveResponse = await fetch('/api/site-translations', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    domain,
+                    articleId: item.articleId,
+                    locale: item.locale,
+                    translation: { title, description, content, provider: HANDLER_IDS[target.provider] },
+                }),
+            });
+            const saved = await saveResponse.json();
+            if (!saved.success) {
+                throw new Error(saved.error || 'Failed to save translation');
+            }
+
+            result.translated++;
+        } catch (error) {
+            result.failed++;
+            result.errors.push({
+                articleId: item.articleId,
+                locale: item.locale,
+                error: error instanceof Error ? error.message : 'Translation failed',
+            });
+        }
+    }
+
+    options.onProgress?.('Done', pending.length, pending.length);
+    return result;
+}
@@ -191,13 +191,15 @@ export async function getPosts(
 }
 
 /**
- * Get a single post by ID
+ * Get a single post by ID. context 'edit' adds the raw title and content
+ * (blocks and shortcodes intact), which is what an update must write back.
  */
 export async function getPost(
     site: WPSite,
-    postId: number
+    postId: number,
+    context: 'view' | 'edit' = 'view'
 ): Promise<WPApiResponse<WPPostResult>> {
-    return wpFetch<WPPostResult>(site, `/posts/${postId}`);
+    return wpFetch<WPPostResult>(site, context === 'edit' ? `/posts/${postId}?context=edit` : `/posts/${postId}`);
 }
 
 // ============================================================================
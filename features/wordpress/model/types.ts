@@ -39,8 +39,8 @@ export interface WPPostResult {
     link: string;
     slug: string;
     status: string;
-    title?: { rendered: string };         // WP returns title as object
-    content?: { rendered: string };       // WP post content
+    title?: { rendered: string; raw?: string };    // WP returns title as object; raw with context=edit
+    content?: { rendered: string; raw?: string };  // WP post content; raw with context=edit
     excerpt?: { rendered: string };       // WP post excerpt
     featured_media?: number;              // Featured image media ID
 }
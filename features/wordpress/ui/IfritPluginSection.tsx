@@ -27,6 +27,7 @@ import {
 import type { WPSite } from '../model/wpSiteTypes';
 import { useWPSitesLegacy } from '../model/wpSiteStore';
 import { checkPluginHealth, setPluginWebhookUrl } from '../api/ifritPluginApi';
+import { connectorTokenSecretName, storeSecrets } from '@/lib/security/secretsClient';
 
 interface IfritPluginSectionProps {
     site: WPSite;
@@ -82,6 +83,8 @@ export function IfritPluginSection({ site }: IfritPluginSectionProps) {
                 try {
                     const webhookUrl = `${window.location.origin}/api/webhooks/wordpress`;
                     await setPluginWebhookUrl({ ...site, ifritToken: tokenInput }, webhookUrl);
+                    // The webhook route verifies event signatures with this token
+                    await storeSecrets({ [connectorTokenSecretName(siteUrl)]: tokenInput });
                     updateSite(site.id, { ifritWebhookConfigured: true });
                 } catch {
                     console.warn('[IfritPlugin] Webhook configuration failed');
@@ -0,0 +1,299 @@
+/**
+ * AI Spend Budgets
+ *
+ * Daily/monthly spend limits per provider, per capability and per campaign.
+ * CapabilityExecutor asks a BudgetGuard before every handler call:
+ * - Cost is estimated up front from lib/providerPricing
+ * - Crossing a rule's soft limit logs a warning to the unified log
+ * - Crossing the hard limit either refuses the call ('refuse') or skips
+ *   the handler so a cheaper one that still fits can run ('fallback')
+ *
+ * Free handlers (estimated cost 0) are never blocked.
+ */
+
+import { calculateCost } from '@/lib/providerPricing';
+import { log } from '@/stores/unifiedLogStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BudgetScope = 'provider' | 'capability' | 'campaign';
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetAction = 'refuse' | 'fallback';
+
+export interface BudgetRule {
+    id: string;
+    scope: BudgetScope;
+    target: string;               // providerId, capabilityId or campaignId ('*' = all)
+    period: BudgetPeriod;
+    limitUsd: number;             // Hard limit
+    softLimitPercent: number;     // Warn when spend crosses this share of the limit
+    action: BudgetAction;
+    enabled: boolean;
+}
+
+export interface SpendRecord {
+    timestamp: number;
+    providerId: string;
+    handlerId: string;
+    capability: string;
+    campaignId?: string;
+    costUsd: number;
+    estimated: boolean;           // No token usage reported; cost came from the estimate
+}
+
+export interface BudgetRequest {
+    providerId: string;
+    handlerId: string;
+    capability: string;
+    campaignId?: string;
+    estimatedCostUsd: number;
+}
+
+export interface BudgetStatus {
+    rule: BudgetRule;
+    periodStart: number;
+    spentUsd: number;
+    remainingUsd: number;
+    percentUsed: number;
+    state: 'ok' | 'warning' | 'exceeded';
+}
+
+export interface BudgetCheck {
+    allowed: boolean;
+    action?: BudgetAction;        // Set when not allowed
+    reason?: string;
+    warnings: BudgetStatus[];     // Rules past their soft limit (call still allowed)
+    exceeded: BudgetStatus[];     // Rules this call would push past the hard limit
+}
+
+/**
+ * Rules and spend ledger backing a guard.
+ * Server: lib/db/budgetStore.ts (file-backed). Tests: in-memory.
+ */
+export interface BudgetStore {
+    getRules(): BudgetRule[];
+    listSpend(since: number): SpendRecord[];
+    recordSpend(record: SpendRecord): void;
+}
+
+export interface BudgetGuard {
+    check(request: BudgetRequest): BudgetCheck;
+    record(record: SpendRecord): void;
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_SOFT_LIMIT_PERCENT = 80;
+
+/** Assumed completion length when the caller sets no maxTokens */
+const DEFAULT_OUTPUT_TOKENS: Record<string, number> = {
+    generate: 4000,
+    research: 2000,
+    reasoning: 2000,
+};
+const FALLBACK_OUTPUT_TOKENS = 1000;
+
+// ============================================
+// ESTIMATION
+// ============================================
+
+/** Approx 4 characters per token for English */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Worst-case cost of a call before it is made: prompt tokens plus the
+ * requested (or typical) completion length, priced by providerPricing.
+ */
+export function estimateCallCost(
+    providerId: string,
+    options: { capability: string; prompt: string; systemPrompt?: string; maxTokens?: number }
+): number {
+    const inputTokens = estimateTokens(options.prompt + (options.systemPrompt || ''));
+    const outputTokens = options.maxTokens ?? DEFAULT_OUTPUT_TOKENS[options.capability] ?? FALLBACK_OUTPUT_TOKENS;
+    return calculateCost(providerId, inputTokens, outputTokens);
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Start of the budget period containing `now` (server local time).
+ */
+export function getPeriodStart(period: BudgetPeriod, now = Date.now()): number {
+    const date = new Date(now);
+    if (period === 'monthly') {
+        date.setDate(1);
+    }
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+}
+
+function ruleMatches(rule: BudgetRule, record: Pick<SpendRecord, 'providerId' | 'capability' | 'campaignId'>): boolean {
+    const value = rule.scope === 'provider'
+        ? record.providerId
+        : rule.scope === 'capability'
+            ? record.capability
+            : record.campaignId;
+
+    if (!value) return false;
+    return rule.target === '*' || rule.target === value;
+}
+
+function buildStatus(rule: BudgetRule, spend: SpendRecord[], now: number, extraUsd = 0): BudgetStatus {
+    const periodStart = getPeriodStart(rule.period, now);
+    const spentUsd = spend
+        .filter(r => r.timestamp >= periodStart && ruleMatches(rule, r))
+        .reduce((sum, r) => sum + r.costUsd, 0) + extraUsd;
+
+    const percentUsed = rule.limitUsd > 0 ? (spentUsd / rule.limitUsd) * 100 : 100;
+    const state: BudgetStatus['state'] = spentUsd > rule.limitUsd
+        ? 'exceeded'
+        : percentUsed >= rule.softLimitPercent ? 'warning' : 'ok';
+
+    return {
+        rule,
+        periodStart,
+        spentUsd,
+        remainingUsd: Math.max(0, rule.limitUsd - spentUsd),
+        percentUsed,
+        state,
+    };
+}
+
+/**
+ * Current spend against every enabled rule (for the settings budget view).
+ */
+export function getBudgetStatuses(rules: BudgetRule[], spend: SpendRecord[], now = Date.now()): BudgetStatus[] {
+    return rules.filter(r => r.enabled).map(rule => buildStatus(rule, spend, now));
+}
+
+/**
+ * Would this call stay within every matching budget?
+ */
+export function evaluateBudgets(
+    request: BudgetRequest,
+    rules: BudgetRule[],
+    spend: SpendRecord[],
+    now = Date.now()
+): BudgetCheck {
+    const warnings: BudgetStatus[] = [];
+    const exceeded: BudgetStatus[] = [];
+
+    for (const rule of rules) {
+        if (!rule.enabled || !ruleMatches(rule, request)) continue;
+
+        const status = buildStatus(rule, spend, now, request.estimatedCostUsd);
+        if (status.state === 'exceeded' && request.estimatedCostUsd > 0) {
+            exceeded.push(status);
+        } else if (status.state !== 'ok') {
+            warnings.push(status);
+        }
+    }
+
+    if (exceeded.length === 0) {
+        return { allowed: true, warnings, exceeded };
+    }
+
+    const action: BudgetAction = exceeded.some(s => s.rule.action === 'refuse') ? 'refuse' : 'fallback';
+    return {
+        allowed: false,
+        action,
+        reason: exceeded.map(describeBudget).join('; '),
+        warnings,
+        exceeded,
+    };
+}
+
+export function describeBudget(status: BudgetStatus): string {
+    const { rule } = status;
+    const target = rule.target === '*' ? `all ${rule.scope}s` : `${rule.scope} ${rule.target}`;
+    return `${rule.period} budget for ${target}: $${status.spentUsd.toFixed(4)} of $${rule.limitUsd.toFixed(2)}`;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export function validateBudgetRule(rule: BudgetRule): string[] {
+    const errors: string[] = [];
+    if (!rule.target.trim()) errors.push('Budget target is required');
+    if (!(rule.limitUsd >= 0)) errors.push('Budget limit must be zero or more');
+    if (!(rule.softLimitPercent > 0 && rule.softLimitPercent <= 100)) {
+        errors.push('Soft limit must be between 1 and 100 percent');
+    }
+    return errors;
+}
+
+// ============================================
+// GUARD
+// ============================================
+
+/**
+ * Guard that reads rules and spend from a store and logs soft-limit
+ * warnings to the unified log once per rule per period.
+ */
+export function createBudgetGuard(store: BudgetStore): BudgetGuard {
+    const warned = new Set<string>();
+
+    const warnOnce = (status: BudgetStatus, request: BudgetRequest) => {
+        const key = `${status.rule.id}:${status.periodStart}:${status.state}`;
+        if (warned.has(key)) return;
+        warned.add(key);
+
+        const message = status.state === 'exceeded'
+            ? `Budget exceeded - ${describeBudget(status)}`
+            : `Budget at ${Math.round(status.percentUsed)}% - ${describeBudget(status)}`;
+
+        console.warn(`[BudgetGuard] ${message}`);
+        log(status.state === 'exceeded' ? 'error' : 'warn', 'ai', 'BudgetGuard', message, {
+            campaignId: request.campaignId,
+            metadata: {
+                ruleId: status.rule.id,
+                handlerId: request.handlerId,
+                capability: request.capability,
+                spentUsd: status.spentUsd,
+                limitUsd: status.rule.limitUsd,
+            },
+        });
+    };
+
+    return {
+        check(request) {
+            const rules = store.getRules();
+            if (!rules.some(r => r.enabled)) {
+                return { allowed: true, warnings: [], exceeded: [] };
+            }
+
+            const since = Math.min(getPeriodStart('monthly'), getPeriodStart('daily'));
+            const result = evaluateBudgets(request, rules, store.listSpend(since));
+
+            for (const status of [...result.warnings, ...result.exceeded]) {
+                warnOnce(status, request);
+            }
+            return result;
+        },
+        record(record) {
+            store.recordSpend(record);
+        },
+    };
+}
+
+/**
+ * In-memory store (tests and client-side previews).
+ */
+export function createMemoryBudgetStore(rules: BudgetRule[] = []): BudgetStore & { spend: SpendRecord[] } {
+    const spend: SpendRecord[] = [];
+    return {
+        spend,
+        getRules: () => rules,
+        listSpend: (since) => spend.filter(r => r.timestamp >= since),
+        recordSpend: (record) => { spend.push(record); },
+    };
+}
@@ -0,0 +1,105 @@
+/**
+ * File-System Cache Backend (server only)
+ *
+ * Persists AI response cache entries under .data/ai-cache so they
+ * survive restarts and are shared by every process on the host.
+ * - index.json: entry metadata (small, rewritten on access for LRU)
+ * - entries/<key>.json: cached ExecuteResult
+ *
+ * @module lib/ai/cache/fileCacheBackend
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CacheBackend, CacheEntry, CacheEntryMeta } from './responseCache';
+
+type CacheIndex = Record<string, CacheEntryMeta>;
+
+export class FileCacheBackend implements CacheBackend {
+    readonly name = 'file';
+    private readonly dir: string;
+
+    constructor(dir = path.join(process.cwd(), '.data', 'ai-cache')) {
+        this.dir = dir;
+    }
+
+    get(key: string): CacheEntry | null {
+        const meta = this.readIndex()[key];
+        if (!meta) return null;
+
+        const entryPath = this.entryPath(key);
+        if (!fs.existsSync(entryPath)) return null;
+
+        const result = JSON.parse(fs.readFileSync(entryPath, 'utf-8'));
+        return { ...meta, result };
+    }
+
+    set(entry: CacheEntry): void {
+        const { result, ...meta } = entry;
+        this.writeJson(this.entryPath(entry.key), result);
+
+        const index = this.readIndex();
+        index[entry.key] = meta;
+        this.writeJson(this.indexPath(), index);
+    }
+
+    delete(key: string): void {
+        const index = this.readIndex();
+        if (index[key]) {
+            delete index[key];
+            this.writeJson(this.indexPath(), index);
+        }
+        const entryPath = this.entryPath(key);
+        if (fs.existsSync(entryPath)) {
+            fs.unlinkSync(entryPath);
+        }
+    }
+
+    touch(key: string, accessedAt: number): void {
+        const index = this.readIndex();
+        if (!index[key]) return;
+        index[key].lastAccessedAt = accessedAt;
+        this.writeJson(this.indexPath(), index);
+    }
+
+    list(): CacheEntryMeta[] {
+        return Object.values(this.readIndex());
+    }
+
+    clear(): void {
+        if (fs.existsSync(this.dir)) {
+            fs.rmSync(this.dir, { recursive: true, force: true });
+        }
+    }
+
+    // ============ File Helpers ============
+
+    private indexPath(): string {
+        return path.join(this.dir, 'index.json');
+    }
+
+    private entryPath(key: string): string {
+        return path.join(this.dir, 'entries', `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+    }
+
+    private readIndex(): CacheIndex {
+        const indexPath = this.indexPath();
+        if (!fs.existsSync(indexPath)) return {};
+        try {
+            return JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as CacheIndex;
+        } catch (error) {
+            console.error('[FileCacheBackend] Corrupt index, starting empty:', error);
+            return {};
+        }
+    }
+
+    private writeJson(filePath: string, data: unknown): void {
+        const dir = path.dirname(filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(data));
+        fs.renameSync(tmpPath, filePath);
+    }
+}
@@ -1,9 +1,14 @@
 /**
- * AI Response Cache - In-Memory TTL Cache
- * 
+ * AI Response Cache - Pluggable TTL + LRU Cache
+ *
  * Caches AI provider responses to reduce API costs and latency.
- * Uses a simple hash of (capability + prompt + model) as cache key.
- * 
+ * Keys are a hash of (capability + handler + model + sampling settings +
+ * normalized prompt).
+ *
+ * Storage is pluggable via CacheBackend:
+ * - MemoryCacheBackend (default, browser-safe)
+ * - FileCacheBackend / SqliteCacheBackend (server, see serverCache.ts)
+ *
  * @module lib/ai/cache/responseCache
  */
 
@@ -13,91 +18,266 @@ import type { ExecuteResult } from '../services/types';
 // CACHE CONFIGURATION
 // ============================================
 
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
 /**
  * Default TTL in milliseconds (5 minutes)
  */
-const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_TTL_MS = 5 * MINUTE;
+
+/**
+ * Per-capability TTLs. Research and keyword data change slowly enough
+ * that re-paying for identical calls within hours is waste.
+ */
+export const DEFAULT_CAPABILITY_TTLS: Record<string, number> = {
+    research: 6 * HOUR,
+    keywords: DAY,
+    analyze: HOUR,
+    summarize: DAY,
+    translate: 7 * DAY,
+    'search-images': 6 * HOUR,
+    generate: 15 * MINUTE,
+};
 
 /**
- * Maximum cache entries to prevent memory bloat
+ * Maximum cache entries / total size before LRU eviction
  */
 const MAX_CACHE_ENTRIES = 100;
+const MAX_CACHE_BYTES = 20 * 1024 * 1024;
 
 /**
  * Capabilities that should NOT be cached (always need fresh data)
  */
 const BYPASS_CACHE_CAPABILITIES = [
-    'research',      // Web search needs fresh data
     'trend-scan',    // Real-time trends
     'scrape',        // Live web scraping
     'domain-search', // Real-time domain availability
 ];
 
 // ============================================
-// CACHE ENTRY TYPE
+// TYPES
 // ============================================
 
-interface CacheEntry {
-    result: ExecuteResult;
-    expiresAt: number;
+export interface CacheKeyParts {
+    capability: string;
+    handlerId?: string;
+    model?: string;                 // Model the handler will use (explicit or configured)
+    temperature?: number;
+    maxTokens?: number;
+    prompt: string;
+    systemPrompt?: string;
+    responseSchema?: string;        // Serialized JSON Schema (structured output)
+}
+
+export interface CacheEntryMeta {
+    key: string;
+    capability: string;
     createdAt: number;
+    expiresAt: number;
+    lastAccessedAt: number;
+    sizeBytes: number;
+}
+
+export interface CacheEntry extends CacheEntryMeta {
+    result: ExecuteResult;
+}
+
+/**
+ * Storage for cache entries. Implementations are synchronous so the
+ * cache can be consulted without awaiting on the hot path.
+ */
+export interface CacheBackend {
+    readonly name: string;
+    get(key: string): CacheEntry | null;
+    set(entry: CacheEntry): void;
+    delete(key: string): void;
+    touch(key: string, accessedAt: number): void;
+    list(): CacheEntryMeta[];
+    clear(): void;
+}
+
+export interface ResponseCacheOptions {
+    defaultTtlMs?: number;
+    ttlByCapability?: Record<string, number>;
+    maxEntries?: number;
+    maxBytes?: number;
+    bypassCapabilities?: string[];
+}
+
+export interface CacheStats {
+    backend: string;
+    size: number;
+    maxSize: number;
+    bytes: number;
+    maxBytes: number;
+    ttlMs: number;
+    hits: number;
+    misses: number;
+    writes: number;
+    evictions: number;
+    hitRate: number;              // 0-100
+    byCapability: Record<string, { hits: number; misses: number }>;
 }
 
 // ============================================
-// CACHE IMPLEMENTATION
+// KEYING
+// ============================================
+
+/**
+ * Normalize a prompt so trivially different requests share a key:
+ * unicode forms, whitespace and embedded timestamps. Case is kept - it can
+ * change the answer (acronyms, code, quoted titles).
+ */
+export function normalizePrompt(text: string): string {
+    return text
+        .normalize('NFKC')
+        .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/gi, '<ts>')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * 53-bit string hash (cyrb53). Fast, browser-compatible, not cryptographic.
+ */
+function hashString(input: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export function buildCacheKey(parts: CacheKeyParts): string {
+    const input = [
+        parts.capability,
+        parts.handlerId || 'any',
+        parts.model || 'default',
+        normalizePrompt(parts.systemPrompt || ''),
+        normalizePrompt(parts.prompt),
+        // Only appended when set so existing keys stay valid
+        ...(parts.responseSchema ? [parts.responseSchema] : []),
+        ...(parts.temperature !== undefined ? [`t=${parts.temperature}`] : []),
+        ...(parts.maxTokens !== undefined ? [`max=${parts.maxTokens}`] : []),
+    ].join('\u0000');
+
+    return `cache_${parts.capability}_${hashString(input)}`;
+}
+
+// ============================================
+// MEMORY BACKEND
 // ============================================
 
-class ResponseCacheClass {
-    private cache: Map<string, CacheEntry> = new Map();
-    private defaultTtlMs: number = DEFAULT_TTL_MS;
+function toMeta(entry: CacheEntry): CacheEntryMeta {
+    const { key, capability, createdAt, expiresAt, lastAccessedAt, sizeBytes } = entry;
+    return { key, capability, createdAt, expiresAt, lastAccessedAt, sizeBytes };
+}
 
-    /**
-     * Generate a cache key from request parameters
-     */
-    private generateKey(capability: string, prompt: string, model?: string): string {
-        // Simple hash: Base64 of concatenated string (fast, not cryptographic)
-        const input = `${capability}:${model || 'default'}:${prompt.slice(0, 500)}`;
-
-        // Simple hash function for browser compatibility
-        let hash = 0;
-        for (let i = 0; i < input.length; i++) {
-            const char = input.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash; // Convert to 32bit integer
-        }
+export class MemoryCacheBackend implements CacheBackend {
+    readonly name = 'memory';
+    private entries: Map<string, CacheEntry> = new Map();
+
+    get(key: string): CacheEntry | null {
+        return this.entries.get(key) || null;
+    }
 
-        return `cache_${capability}_${hash}`;
+    set(entry: CacheEntry): void {
+        this.entries.set(entry.key, entry);
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    touch(key: string, accessedAt: number): void {
+        const entry = this.entries.get(key);
+        if (entry) entry.lastAccessedAt = accessedAt;
+    }
+
+    list(): CacheEntryMeta[] {
+        return Array.from(this.entries.values()).map(toMeta);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+// ============================================
+// CACHE IMPLEMENTATION
+// ============================================
+
+export class ResponseCache {
+    private backend: CacheBackend;
+    private defaultTtlMs: number;
+    private ttlByCapability: Record<string, number>;
+    private maxEntries: number;
+    private maxBytes: number;
+    private bypassCapabilities: string[];
+    private counters = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+    private byCapability: Record<string, { hits: number; misses: number }> = {};
+
+    constructor(backend: CacheBackend = new MemoryCacheBackend(), options: ResponseCacheOptions = {}) {
+        this.backend = backend;
+        this.defaultTtlMs = options.defaultTtlMs ?? DEFAULT_TTL_MS;
+        this.ttlByCapability = { ...DEFAULT_CAPABILITY_TTLS, ...options.ttlByCapability };
+        this.maxEntries = options.maxEntries ?? MAX_CACHE_ENTRIES;
+        this.maxBytes = options.maxBytes ?? MAX_CACHE_BYTES;
+        this.bypassCapabilities = options.bypassCapabilities ?? BYPASS_CACHE_CAPABILITIES;
     }
 
     /**
      * Check if a capability should bypass the cache
      */
     shouldBypassCache(capability: string): boolean {
-        return BYPASS_CACHE_CAPABILITIES.includes(capability);
+        return this.bypassCapabilities.includes(capability);
+    }
+
+    /**
+     * TTL applied to new entries for a capability
+     */
+    getTtl(capability: string): number {
+        return this.ttlByCapability[capability] ?? this.defaultTtlMs;
     }
 
     /**
      * Get a cached result if available and not expired
      */
-    get(capability: string, prompt: string, model?: string): ExecuteResult | null {
+    get(parts: CacheKeyParts): ExecuteResult | null {
         // Don't cache certain capabilities
-        if (this.shouldBypassCache(capability)) {
+        if (this.shouldBypassCache(parts.capability)) {
             return null;
         }
 
-        const key = this.generateKey(capability, prompt, model);
-        const entry = this.cache.get(key);
-
-        if (!entry) {
-            return null;
+        const key = buildCacheKey(parts);
+        const now = Date.now();
+        let entry: CacheEntry | null = null;
+        try {
+            entry = this.backend.get(key);
+        } catch (error) {
+            console.warn(`[ResponseCache] ${this.backend.name} read failed:`, error);
         }
 
         // Check expiration
-        if (Date.now() > entry.expiresAt) {
-            this.cache.delete(key);
+        if (entry && now > entry.expiresAt) {
+            this.safely(() => this.backend.delete(key));
+            entry = null;
+        }
+
+        if (!entry) {
+            this.count(parts.capability, 'misses');
             return null;
         }
 
+        this.count(parts.capability, 'hits');
+        this.safely(() => this.backend.touch(key, now));
+
         // Return cached result with cache metadata
         return {
             ...entry.result,
@@ -105,6 +285,7 @@ class ResponseCacheClass {
                 ...entry.result.metadata,
                 fromCache: true,
                 cachedAt: entry.createdAt,
+                cacheBackend: this.backend.name,
             }
         };
     }
@@ -112,15 +293,9 @@ class ResponseCacheClass {
     /**
      * Store a result in the cache
      */
-    set(
-        capability: string,
-        prompt: string,
-        result: ExecuteResult,
-        model?: string,
-        ttlMs?: number
-    ): void {
+    set(parts: CacheKeyParts, result: ExecuteResult, ttlMs?: number): void {
         // Don't cache certain capabilities
-        if (this.shouldBypassCache(capability)) {
+        if (this.shouldBypassCache(parts.capability)) {
             return;
         }
 
@@ -129,38 +304,60 @@ class ResponseCacheClass {
             return;
         }
 
-        // Evict old entries if at capacity
-        if (this.cache.size >= MAX_CACHE_ENTRIES) {
-            this.evictOldest();
-        }
-
-        const key = this.generateKey(capability, prompt, model);
         const now = Date.now();
-        const ttl = ttlMs || this.defaultTtlMs;
+        // Diagnostics are per-call; don't persist them with the response
+        const cacheable: ExecuteResult & { diagnostics?: unknown } = { ...result };
+        delete cacheable.diagnostics;
+        const sizeBytes = JSON.stringify(cacheable).length;
+        if (sizeBytes > this.maxBytes) {
+            return;
+        }
 
-        this.cache.set(key, {
-            result,
+        const entry: CacheEntry = {
+            key: buildCacheKey(parts),
+            capability: parts.capability,
+            result: cacheable,
             createdAt: now,
-            expiresAt: now + ttl,
+            expiresAt: now + (ttlMs || this.getTtl(parts.capability)),
+            lastAccessedAt: now,
+            sizeBytes,
+        };
+
+        this.safely(() => {
+            this.backend.set(entry);
+            this.counters.writes++;
+            this.enforceLimits();
         });
     }
 
     /**
-     * Evict the oldest entry (LRU-style)
+     * Drop expired entries, then least-recently-used entries until
+     * both the entry and byte limits are met.
      */
-    private evictOldest(): void {
-        let oldestKey: string | null = null;
-        let oldestTime = Infinity;
-
-        for (const [key, entry] of this.cache.entries()) {
-            if (entry.createdAt < oldestTime) {
-                oldestTime = entry.createdAt;
-                oldestKey = key;
+    private enforceLimits(): void {
+        const now = Date.now();
+        const entries = this.backend.list();
+        const live: CacheEntryMeta[] = [];
+
+        for (const entry of entries) {
+            if (now > entry.expiresAt) {
+                this.backend.delete(entry.key);
+            } else {
+                live.push(entry);
             }
         }
 
-        if (oldestKey) {
-            this.cache.delete(oldestKey);
+        let bytes = live.reduce((sum, e) => sum + e.sizeBytes, 0);
+        if (live.length <= this.maxEntries && bytes <= this.maxBytes) return;
+
+        live.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+        let count = live.length;
+        for (const entry of live) {
+            if (count <= this.maxEntries && bytes <= this.maxBytes) break;
+            this.backend.delete(entry.key);
+            this.counters.evictions++;
+            count--;
+            bytes -= entry.sizeBytes;
         }
     }
 
@@ -168,7 +365,7 @@ class ResponseCacheClass {
      * Clear all cached entries
      */
     clear(): void {
-        this.cache.clear();
+        this.safely(() => this.backend.clear());
     }
 
     /**
@@ -178,37 +375,72 @@ class ResponseCacheClass {
         const now = Date.now();
         let pruned = 0;
 
-        for (const [key, entry] of this.cache.entries()) {
-            if (now > entry.expiresAt) {
-                this.cache.delete(key);
-                pruned++;
+        this.safely(() => {
+            for (const entry of this.backend.list()) {
+                if (now > entry.expiresAt) {
+                    this.backend.delete(entry.key);
+                    pruned++;
+                }
             }
-        }
+        });
 
         return pruned;
     }
 
     /**
-     * Get cache statistics
+     * Get cache statistics (hit/miss counters are per process)
      */
-    getStats(): { size: number; maxSize: number; ttlMs: number } {
+    getStats(): CacheStats {
+        let entries: CacheEntryMeta[] = [];
+        this.safely(() => { entries = this.backend.list(); });
+        const lookups = this.counters.hits + this.counters.misses;
+
         return {
-            size: this.cache.size,
-            maxSize: MAX_CACHE_ENTRIES,
+            backend: this.backend.name,
+            size: entries.length,
+            maxSize: this.maxEntries,
+            bytes: entries.reduce((sum, e) => sum + e.sizeBytes, 0),
+            maxBytes: this.maxBytes,
             ttlMs: this.defaultTtlMs,
+            ...this.counters,
+            hitRate: lookups > 0 ? Math.round((this.counters.hits / lookups) * 100) : 0,
+            byCapability: { ...this.byCapability },
         };
     }
 
+    /**
+     * Reset hit/miss counters (entries are kept)
+     */
+    resetStats(): void {
+        this.counters = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+        this.byCapability = {};
+    }
+
     /**
      * Set default TTL
      */
     setDefaultTtl(ttlMs: number): void {
         this.defaultTtlMs = ttlMs;
     }
+
+    private count(capability: string, kind: 'hits' | 'misses'): void {
+        this.counters[kind]++;
+        const stats = this.byCapability[capability] ||= { hits: 0, misses: 0 };
+        stats[kind]++;
+    }
+
+    /** Backend failures degrade to a cache miss instead of failing the call */
+    private safely(fn: () => void): void {
+        try {
+            fn();
+        } catch (error) {
+            console.warn(`[ResponseCache] ${this.backend.name} backend error:`, error);
+        }
+    }
 }
 
 // ============================================
 // SINGLETON EXPORT
 // ============================================
 
-export const responseCache = new ResponseCacheClass();
+export const responseCache = new ResponseCache();
@@ -0,0 +1,47 @@
+/**
+ * Server Response Cache
+ *
+ * Shared, persistent response cache for API routes. Backend is chosen by
+ * AI_CACHE_BACKEND ('sqlite' | 'file' | 'memory', default 'file').
+ * If SQLite can't be opened the file backend is used instead.
+ *
+ * @module lib/ai/cache/serverCache
+ */
+
+import { MemoryCacheBackend, ResponseCache, type CacheBackend } from './responseCache';
+import { FileCacheBackend } from './fileCacheBackend';
+
+const SERVER_MAX_ENTRIES = 2000;
+const SERVER_MAX_BYTES = 200 * 1024 * 1024;
+
+let serverCache: ResponseCache | null = null;
+
+function createBackend(): CacheBackend {
+    const kind = process.env.AI_CACHE_BACKEND || 'file';
+
+    if (kind === 'memory') {
+        return new MemoryCacheBackend();
+    }
+
+    if (kind === 'sqlite') {
+        try {
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            const { SqliteCacheBackend } = require('./sqliteCacheBackend') as typeof import('./sqliteCacheBackend');
+            return new SqliteCacheBackend();
+        } catch (error) {
+            console.warn('[ServerCache] SQLite backend unavailable, using file backend:', error);
+        }
+    }
+
+    return new FileCacheBackend();
+}
+
+export function getServerResponseCache(): ResponseCache {
+    if (!serverCache) {
+        serverCache = new ResponseCache(createBackend(), {
+            maxEntries: SERVER_MAX_ENTRIES,
+            maxBytes: SERVER_MAX_BYTES,
+        });
+    }
+    return serverCache;
+}
@@ -0,0 +1,103 @@
+/**
+ * SQLite Cache Backend (server only)
+ *
+ * Stores AI response cache entries in .data/ai-cache.db using the same
+ * better-sqlite3 driver as lib/db/settingsDb. Preferred over the file
+ * backend when many entries are cached.
+ *
+ * @module lib/ai/cache/sqliteCacheBackend
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CacheBackend, CacheEntry, CacheEntryMeta } from './responseCache';
+
+interface CacheRow {
+    key: string;
+    capability: string;
+    result: string;
+    created_at: number;
+    expires_at: number;
+    last_accessed_at: number;
+    size_bytes: number;
+}
+
+function rowToMeta(row: Omit<CacheRow, 'result'>): CacheEntryMeta {
+    return {
+        key: row.key,
+        capability: row.capability,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+        lastAccessedAt: row.last_accessed_at,
+        sizeBytes: row.size_bytes,
+    };
+}
+
+export class SqliteCacheBackend implements CacheBackend {
+    readonly name = 'sqlite';
+    private db: Database.Database;
+
+    constructor(dbPath = path.join(process.cwd(), '.data', 'ai-cache.db')) {
+        const dir = path.dirname(dbPath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        this.db = new Database(dbPath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS response_cache (
+                key TEXT PRIMARY KEY,
+                capability TEXT NOT NULL,
+                result TEXT NOT NULL,
+                created_at INTEGER NOT NULL,
+                expires_at INTEGER NOT NULL,
+                last_accessed_at INTEGER NOT NULL,
+                size_bytes INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_response_cache_accessed ON response_cache(last_accessed_at);
+        `);
+    }
+
+    get(key: string): CacheEntry | null {
+        const row = this.db.prepare('SELECT * FROM response_cache WHERE key = ?').get(key) as CacheRow | undefined;
+        if (!row) return null;
+        return { ...rowToMeta(row), result: JSON.parse(row.result) };
+    }
+
+    set(entry: CacheEntry): void {
+        this.db.prepare(`
+            INSERT OR REPLACE INTO response_cache
+                (key, capability, result, created_at, expires_at, last_accessed_at, size_bytes)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            entry.key,
+            entry.capability,
+            JSON.stringify(entry.result),
+            entry.createdAt,
+            entry.expiresAt,
+            entry.lastAccessedAt,
+            entry.sizeBytes
+        );
+    }
+
+    delete(key: string): void {
+        this.db.prepare('DELETE FROM response_cache WHERE key = ?').run(key);
+    }
+
+    touch(key: string, accessedAt: number): void {
+        this.db.prepare('UPDATE response_cache SET last_accessed_at = ? WHERE key = ?').run(accessedAt, key);
+    }
+
+    list(): CacheEntryMeta[] {
+        const rows = this.db.prepare(
+            'SELECT key, capability, created_at, expires_at, last_accessed_at, size_bytes FROM response_cache'
+        ).all() as Omit<CacheRow, 'result'>[];
+        return rows.map(rowToMeta);
+    }
+
+    clear(): void {
+        this.db.exec('DELETE FROM response_cache');
+    }
+}
@@ -0,0 +1,293 @@
+/**
+ * AI Circuit Breakers
+ *
+ * One circuit per handler (CapabilityExecutor) or per API key (KeyManager
+ * rotation), keyed by an arbitrary id:
+ * - closed:    calls flow; outcomes go into a sliding window
+ * - open:      the window's error rate or slow-call rate crossed its
+ *              threshold - calls are skipped until the cool-down ends
+ * - half-open: cool-down over; one trial call decides between closing
+ *              again and re-opening (with a doubled cool-down)
+ *
+ * Routing uses getHealthScore() to prefer healthy circuits and skips
+ * open ones instead of retrying a dead provider.
+ */
+
+import { log } from '@/stores/unifiedLogStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+    windowSize: number;            // Recent calls considered for rates
+    minCalls: number;              // Calls needed in the window before tripping
+    errorRateThreshold: number;    // 0-1 share of failed calls that opens the circuit
+    slowCallMs: number;            // Calls slower than this count as slow
+    slowCallRateThreshold: number; // 0-1 share of slow calls that opens the circuit
+    openDurationMs: number;        // First cool-down; doubles on each failed trial
+    maxOpenDurationMs: number;
+}
+
+export interface CircuitCall {
+    timestamp: number;
+    success: boolean;
+    latencyMs: number;
+    error?: string;
+}
+
+export interface CircuitSnapshot {
+    id: string;
+    label?: string;                // Handler name for display
+    provider?: string;             // Provider the handler or key belongs to
+    state: CircuitState;
+    calls: number;                 // Calls in the window
+    errorRate: number;
+    slowRate: number;
+    avgLatencyMs: number;
+    openedAt?: number;
+    retryAt?: number;              // When an open circuit allows a trial call
+    lastStateChange?: number;
+    recentFailures: Array<{ timestamp: number; error: string }>;
+}
+
+export interface CircuitInfo {
+    label?: string;
+    provider?: string;
+}
+
+export interface CircuitBreaker {
+    /** True when a call may go through (does not claim the half-open trial) */
+    canRequest(id: string): boolean;
+    /** Claim permission for a call; an expired open circuit becomes half-open */
+    acquire(id: string, info?: CircuitInfo): boolean;
+    recordSuccess(id: string, latencyMs: number): void;
+    recordFailure(id: string, error: string, latencyMs?: number): void;
+    /** Give back a claimed half-open trial without an outcome (cancelled calls) */
+    release(id: string): void;
+    getState(id: string): CircuitState;
+    /** 0 (open) to 1 (no failures, fast) - for ordering fallbacks and keys */
+    getHealthScore(id: string): number;
+    getSnapshot(id: string): CircuitSnapshot;
+    list(): CircuitSnapshot[];
+    reset(id?: string): void;
+}
+
+export const DEFAULT_CIRCUIT_CONFIG: CircuitBreakerConfig = {
+    windowSize: 20,
+    minCalls: 5,
+    errorRateThreshold: 0.5,
+    slowCallMs: 120000,            // Long articles legitimately take a minute or more
+    slowCallRateThreshold: 0.8,
+    openDurationMs: 60000,
+    maxOpenDurationMs: 10 * 60 * 1000,
+};
+
+const RECENT_FAILURES = 5;
+
+// ============================================
+// CIRCUIT BREAKER
+// ============================================
+
+interface Circuit extends CircuitInfo {
+    state: CircuitState;
+    calls: CircuitCall[];
+    openedAt?: number;
+    openDurationMs: number;
+    trialInFlight: boolean;
+    lastStateChange?: number;
+    recentFailures: Array<{ timestamp: number; error: string }>;
+}
+
+/**
+ * In-memory circuit breaker. State is per process - the server shares one
+ * via getCircuitBreaker(), KeyManager uses the same instance client-side.
+ */
+export function createCircuitBreaker(config: Partial<CircuitBreakerConfig> = {}): CircuitBreaker {
+    const cfg: CircuitBreakerConfig = { ...DEFAULT_CIRCUIT_CONFIG, ...config };
+    const circuits = new Map<string, Circuit>();
+
+    const getCircuit = (id: string): Circuit => {
+        let circuit = circuits.get(id);
+        if (!circuit) {
+            circuit = { state: 'closed', calls: [], openDurationMs: cfg.openDurationMs, trialInFlight: false, recentFailures: [] };
+            circuits.set(id, circuit);
+        }
+        return circuit;
+    };
+
+    const rates = (circuit: Circuit) => {
+        const n = circuit.calls.length;
+        if (n === 0) return { errorRate: 0, slowRate: 0, avgLatencyMs: 0 };
+        return {
+            errorRate: circuit.calls.filter(c => !c.success).length / n,
+            slowRate: circuit.calls.filter(c => c.latencyMs >= cfg.slowCallMs).length / n,
+            avgLatencyMs: Math.round(circuit.calls.reduce((sum, c) => sum + c.latencyMs, 0) / n),
+        };
+    };
+
+    const transition = (id: string, circuit: Circuit, state: CircuitState, reason: string) => {
+        circuit.state = state;
+        circuit.lastStateChange = Date.now();
+        circuit.trialInFlight = false;
+
+        if (state === 'open') {
+            circuit.openedAt = Date.now();
+        } else if (state === 'closed') {
+            circuit.openedAt = undefined;
+            circuit.calls = [];
+            circuit.openDurationMs = cfg.openDurationMs;
+        }
+
+        const name = circuit.label || id;
+        const message = `Circuit ${state} for ${name}: ${reason}`;
+        console.warn(`[CircuitBreaker] ${message}`);
+        log(state === 'open' ? 'warn' : 'info', 'ai', 'CircuitBreaker', message, {
+            metadata: { circuitId: id, state, ...rates(circuit) },
+        });
+    };
+
+    const cooledDown = (circuit: Circuit) =>
+        circuit.state === 'open' && Date.now() >= (circuit.openedAt || 0) + circuit.openDurationMs;
+
+    const record = (id: string, call: CircuitCall) => {
+        const circuit = getCircuit(id);
+
+        if (circuit.state === 'half-open') {
+            if (call.success) {
+                transition(id, circuit, 'closed', 'trial call succeeded');
+            } else {
+                circuit.openDurationMs = Math.min(circuit.openDurationMs * 2, cfg.maxOpenDurationMs);
+                transition(id, circuit, 'open', `trial call failed (${call.error || 'error'})`);
+            }
+            return;
+        }
+
+        circuit.calls.push(call);
+        if (circuit.calls.length > cfg.windowSize) {
+            circuit.calls.splice(0, circuit.calls.length - cfg.windowSize);
+        }
+
+        if (circuit.state !== 'closed' || circuit.calls.length < cfg.minCalls) return;
+
+        const { errorRate, slowRate } = rates(circuit);
+        if (errorRate >= cfg.errorRateThreshold) {
+            transition(id, circuit, 'open', `${Math.round(errorRate * 100)}% of the last ${circuit.calls.length} calls failed`);
+        } else if (slowRate >= cfg.slowCallRateThreshold) {
+            transition(id, circuit, 'open', `${Math.round(slowRate * 100)}% of the last ${circuit.calls.length} calls took over ${cfg.slowCallMs / 1000}s`);
+        }
+    };
+
+    const snapshot = (id: string, circuit: Circuit): CircuitSnapshot => ({
+        id,
+        label: circuit.label,
+        provider: circuit.provider || keyCircuitProvider(id),
+        state: circuit.state,
+        calls: circuit.calls.length,
+        ...rates(circuit),
+        openedAt: circuit.openedAt,
+        retryAt: circuit.state === 'open' ? (circuit.openedAt || 0) + circuit.openDurationMs : undefined,
+        lastStateChange: circuit.lastStateChange,
+        recentFailures: [...circuit.recentFailures],
+    });
+
+    return {
+        canRequest(id) {
+            const circuit = circuits.get(id);
+            if (!circuit || circuit.state === 'closed') return true;
+            if (circuit.state === 'half-open') return !circuit.trialInFlight;
+            return cooledDown(circuit);
+        },
+
+        acquire(id, info) {
+            const circuit = getCircuit(id);
+            if (info?.label) circuit.label = info.label;
+            if (info?.provider) circuit.provider = info.provider;
+
+            if (circuit.state === 'open') {
+                if (!cooledDown(circuit)) return false;
+                transition(id, circuit, 'half-open', 'cool-down elapsed, allowing a trial call');
+            }
+            if (circuit.state === 'half-open') {
+                if (circuit.trialInFlight) return false;
+                circuit.trialInFlight = true;
+            }
+            return true;
+        },
+
+        recordSuccess(id, latencyMs) {
+            record(id, { timestamp: Date.now(), success: true, latencyMs });
+        },
+
+        recordFailure(id, error, latencyMs = 0) {
+            const circuit = getCircuit(id);
+            circuit.recentFailures.unshift({ timestamp: Date.now(), error: error.substring(0, 300) });
+            circuit.recentFailures.splice(RECENT_FAILURES);
+            record(id, { timestamp: Date.now(), success: false, latencyMs, error });
+        },
+
+        release(id) {
+            const circuit = circuits.get(id);
+            if (circuit) circuit.trialInFlight = false;
+        },
+
+        getState(id) {
+            return circuits.get(id)?.state || 'closed';
+        },
+
+        getHealthScore(id) {
+            const circuit = circuits.get(id);
+            if (!circuit) return 1;
+            if (circuit.state === 'open') return 0;
+
+            const { errorRate, slowRate } = rates(circuit);
+            const score = 1 - errorRate - slowRate * 0.5;
+            // Half-open circuits rank below any closed circuit that is still working
+            return Math.max(0, circuit.state === 'half-open' ? score * 0.5 : score);
+        },
+
+        getSnapshot(id) {
+            return snapshot(id, getCircuit(id));
+        },
+
+        list() {
+            return [...circuits.entries()].map(([id, circuit]) => snapshot(id, circuit));
+        },
+
+        reset(id) {
+            if (id) circuits.delete(id);
+            else circuits.clear();
+        },
+    };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Circuit id for an API key - never contains the full key
+ */
+export function keyCircuitId(provider: string, key: string): string {
+    return `key:${provider}:…${key.slice(-4)}`;
+}
+
+function keyCircuitProvider(id: string): string | undefined {
+    return id.startsWith('key:') ? id.split(':')[1] : undefined;
+}
+
+declare global {
+    var __aiCircuitBreaker: CircuitBreaker | undefined;
+}
+
+/**
+ * Process-wide breaker (persists across module contexts in Next.js)
+ */
+export function getCircuitBreaker(): CircuitBreaker {
+    if (!globalThis.__aiCircuitBreaker) {
+        globalThis.__aiCircuitBreaker = createCircuitBreaker();
+    }
+    return globalThis.__aiCircuitBreaker;
+}
@@ -2,7 +2,7 @@
  * AI Provider Base Interface & Types
  * 
  * This module defines the standard interface that all AI providers must implement.
- * Each provider (Gemini, DeepSeek, OpenRouter, Perplexity, Vercel) has its own file
+ * Each provider (Gemini, DeepSeek, OpenRouter, Perplexity, Vercel, Local) has its own file
  * that implements ProviderAdapter.
  * 
  * @module lib/ai/providers/base
@@ -67,6 +67,8 @@ export interface GenerateOptions {
     temperature?: number;          // 0-1 creativity
     systemPrompt?: string;         // System/context prompt
     mode?: ModelMode;              // Specific mode to use
+    signal?: AbortSignal;          // Cancels the request (and closes streams)
+    jsonSchema?: Record<string, unknown>; // Native structured output (JSON mode where schemas are unsupported)
 }
 
 /**
@@ -130,6 +132,7 @@ export interface ProviderAdapter {
 
     /**
      * Stream content generation (optional - not all providers support)
+     * Aborting options.signal ends the stream early without throwing.
      * 
      * @param apiKey - API key
      * @param options - Generation options
@@ -270,3 +273,65 @@ export function parseModelModes(capabilities: string[] | undefined): ModelMode[]
 export function errorResult(error: string, model: string = 'unknown'): GenerateResult {
     return { success: false, error, model };
 }
+
+/**
+ * OpenAI-compatible response_format for GenerateOptions.jsonSchema
+ * (undefined when no schema was requested, so it can be spread into a body)
+ */
+export function jsonResponseFormat(jsonSchema?: Record<string, unknown>): Record<string, unknown> | undefined {
+    if (!jsonSchema) return undefined;
+    return { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema } };
+}
+
+/**
+ * Read an OpenAI-compatible chat completion SSE body and yield content deltas.
+ * Events may be split across network chunks, so the partial last line is
+ * buffered until the next read. Stops quietly when the signal is aborted.
+ */
+export async function* readChatCompletionStream(
+    body: ReadableStream<Uint8Array>,
+    signal?: AbortSignal
+): AsyncGenerator<string, void, unknown> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (!signal?.aborted) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await reader.read();
+            } catch (error) {
+                // fetch() rejects pending reads once its signal aborts
+                if (signal?.aborted) return;
+                throw error;
+            }
+
+            const { done, value } = chunk;
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                const trimmed = line.trim();
+                if (!trimmed.startsWith('data:')) continue;
+
+                const payload = trimmed.slice(5).trim();
+                if (payload === '[DONE]') return;
+
+                try {
+                    const data = JSON.parse(payload);
+                    const text = data.choices?.[0]?.delta?.content;
+                    if (text) yield text;
+                } catch {
+                    // Skip invalid JSON (keep-alive comments, partial events)
+                }
+            }
+        }
+    } finally {
+        // Close the connection if the consumer stopped early
+        reader.cancel().catch(() => { });
+    }
+}
@@ -14,7 +14,8 @@ import {
     KeyTestResult,
     GenerateOptions,
     GenerateResult,
-    errorResult
+    errorResult,
+    readChatCompletionStream
 } from './base';
 
 const BASE_URL = 'https://api.deepseek.com/v1';
@@ -116,6 +117,8 @@ export class DeepSeekProvider implements ProviderAdapter {
                     messages,
                     max_tokens: options.maxTokens || 4000,
                     temperature: options.temperature ?? 0.7,
+                    // DeepSeek only supports JSON mode; the schema itself goes in the prompt
+                    response_format: options.jsonSchema ? { type: 'json_object' } : undefined,
                 })
             });
 
@@ -203,6 +206,42 @@ export class DeepSeekProvider implements ProviderAdapter {
             );
         }
     }
+
+    /**
+     * Stream content generation via DeepSeek (OpenAI-compatible SSE)
+     */
+    async *stream(apiKey: string, options: GenerateOptions): AsyncGenerator<string, void, unknown> {
+        const model = options.model || 'deepseek-chat';
+        const url = `${BASE_URL}/chat/completions`;
+
+        const messages = [];
+        if (options.systemPrompt) {
+            messages.push({ role: 'system', content: options.systemPrompt });
+        }
+        messages.push({ role: 'user', content: options.prompt });
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${apiKey}`
+            },
+            body: JSON.stringify({
+                model,
+                messages,
+                max_tokens: options.maxTokens || 4000,
+                temperature: options.temperature ?? 0.7,
+                stream: true
+            }),
+            signal: options.signal
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error(`DeepSeek stream error: ${response.status}`);
+        }
+
+        yield* readChatCompletionStream(response.body, options.signal);
+    }
 }
 
 // Export singleton instance
@@ -11,6 +11,7 @@
  */
 
 import type { CapabilityHandler, ExecuteOptions, ExecuteResult } from '../../services/types';
+import { toJsonSchema } from '../../services/structuredOutput';
 import { deepseekProvider } from '../deepseek';
 
 // ============================================
@@ -132,6 +133,7 @@ export const deepseekGenerateHandler: CapabilityHandler = {
                 maxTokens: opts.maxTokens,
                 temperature: opts.temperature,
                 systemPrompt: opts.systemPrompt,
+                jsonSchema: opts.responseSchema && toJsonSchema(opts.responseSchema),
             });
 
             if (!result.success) {
@@ -154,6 +156,24 @@ export const deepseekGenerateHandler: CapabilityHandler = {
                 startTime
             );
         }
+    },
+
+    async *stream(opts: ExecuteOptions): AsyncGenerator<string, void, unknown> {
+        const apiKey = await getApiKey(opts);
+        if (!apiKey) {
+            throw new Error('DeepSeek API key not configured');
+        }
+
+        const model = await getUserSelectedModel(opts);
+
+        yield* deepseekProvider.stream(apiKey, {
+            prompt: opts.prompt,
+            model: model || 'deepseek-chat',
+            maxTokens: opts.maxTokens,
+            temperature: opts.temperature,
+            systemPrompt: opts.systemPrompt,
+            signal: opts.signal,
+        });
     }
 };
 
@@ -109,6 +109,10 @@ export class GeminiProvider implements ProviderAdapter {
                     temperature: options.temperature ?? 0.7,
                     // Use proper systemInstruction config
                     systemInstruction: options.systemPrompt,
+                    ...(options.jsonSchema && {
+                        responseMimeType: 'application/json',
+                        responseJsonSchema: options.jsonSchema,
+                    }),
                 }
             });
 
@@ -210,16 +214,20 @@ export class GeminiProvider implements ProviderAdapter {
                     temperature: options.temperature ?? 0.7,
                     // Use proper systemInstruction config
                     systemInstruction: options.systemPrompt,
+                    abortSignal: options.signal,
                 }
             });
 
             for await (const chunk of response) {
+                if (options.signal?.aborted) return;
                 const text = chunk.text;
                 if (text) {
                     yield text;
                 }
             }
         } catch (error) {
+            // Cancellation is not a failure - the consumer asked to stop
+            if (options.signal?.aborted) return;
             throw new Error(
                 error instanceof Error ? error.message : 'Gemini streaming failed'
             );
@@ -10,6 +10,7 @@
  */
 
 import type { CapabilityHandler, ExecuteOptions, ExecuteResult } from '../../services/types';
+import { toJsonSchema } from '../../services/structuredOutput';
 import { geminiProvider } from '../gemini';
 
 // ============================================
@@ -117,6 +118,7 @@ export const geminiGenerateHandler: CapabilityHandler = {
     priority: 90,
     isAvailable: true,
     requiresApiKey: true,
+    structuredOutput: true,
 
     async execute(opts: ExecuteOptions): Promise<ExecuteResult> {
         const startTime = Date.now();
@@ -139,6 +141,7 @@ export const geminiGenerateHandler: CapabilityHandler = {
                 maxTokens: opts.maxTokens,
                 temperature: opts.temperature,
                 systemPrompt: opts.systemPrompt,
+                jsonSchema: opts.responseSchema && toJsonSchema(opts.responseSchema),
             });
 
             if (!result.success) {
@@ -161,6 +164,27 @@ export const geminiGenerateHandler: CapabilityHandler = {
                 startTime
             );
         }
+    },
+
+    async *stream(opts: ExecuteOptions): AsyncGenerator<string, void, unknown> {
+        const apiKey = await getApiKey(opts);
+        if (!apiKey) {
+            throw new Error('Gemini API key not configured');
+        }
+
+        const model = await getUserSelectedModel(opts);
+        if (!model) {
+            throw new Error('No Gemini model selected in Settings');
+        }
+
+        yield* geminiProvider.stream(apiKey, {
+            prompt: opts.prompt,
+            model,
+            maxTokens: opts.maxTokens,
+            temperature: opts.temperature,
+            systemPrompt: opts.systemPrompt,
+            signal: opts.signal,
+        });
     }
 };
 
@@ -328,6 +352,7 @@ export const geminiStructuredHandler: CapabilityHandler = {
     priority: 85,
     isAvailable: true,
     requiresApiKey: true,
+    structuredOutput: true,
 
     async execute(opts: ExecuteOptions): Promise<ExecuteResult> {
         const startTime = Date.now();
@@ -343,8 +368,8 @@ export const geminiStructuredHandler: CapabilityHandler = {
             return errorResult('No Gemini model selected in Settings', handlerId, startTime);
         }
 
-        // Schema must be provided in context
-        const schema = opts.schema || opts.context?.schema;
+        // Schema from responseSchema (or legacy context.schema)
+        const schema = opts.responseSchema ? toJsonSchema(opts.responseSchema) : opts.context?.schema;
         if (!schema) {
             return errorResult('No schema provided for structured output', handlerId, startTime);
         }
@@ -358,7 +383,7 @@ export const geminiStructuredHandler: CapabilityHandler = {
                 contents: opts.prompt,
                 config: {
                     responseMimeType: 'application/json',
-                    responseSchema: schema as object,
+                    responseJsonSchema: schema,
                     systemInstruction: opts.systemPrompt,
                 }
             });
@@ -452,6 +477,64 @@ export const geminiImageHandler: CapabilityHandler = {
     }
 };
 
+/**
+ * gemini-embed: Text embeddings for semantic similarity
+ * Uses a dedicated embedding model, not the user's chat model
+ */
+export const geminiEmbedHandler: CapabilityHandler = {
+    id: 'gemini-embed',
+    name: 'Gemini Embeddings',
+    source: 'ai-provider',
+    providerId: 'gemini',
+    capabilities: ['embed'],
+    priority: 85,
+    isAvailable: true,
+    requiresApiKey: true,
+
+    async execute(opts: ExecuteOptions): Promise<ExecuteResult> {
+        const startTime = Date.now();
+        const handlerId = 'gemini-embed';
+
+        const apiKey = await getApiKey(opts);
+        if (!apiKey) {
+            return errorResult('Gemini API key not configured', handlerId, startTime);
+        }
+
+        const model = opts.model || 'text-embedding-004';
+
+        try {
+            const { GoogleGenAI } = await import('@google/genai');
+            const genai = new GoogleGenAI({ apiKey });
+
+            const response = await genai.models.embedContent({
+                model,
+                contents: opts.prompt,
+                config: { taskType: 'SEMANTIC_SIMILARITY' },
+            });
+
+            const values = response.embeddings?.[0]?.values;
+            if (!values?.length) {
+                return errorResult('No embedding returned', handlerId, startTime);
+            }
+
+            return {
+                success: true,
+                data: values,
+                handlerUsed: handlerId,
+                source: 'ai-provider',
+                latencyMs: Date.now() - startTime,
+                model,
+            };
+        } catch (error) {
+            return errorResult(
+                error instanceof Error ? error.message : 'Embedding failed',
+                handlerId,
+                startTime
+            );
+        }
+    }
+};
+
 // ============================================
 // ALL HANDLERS
 // ============================================
@@ -462,4 +545,5 @@ export const geminiHandlers: CapabilityHandler[] = [
     geminiReasonHandler,
     geminiStructuredHandler,
     geminiImageHandler,
+    geminiEmbedHandler,
 ];
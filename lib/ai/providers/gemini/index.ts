@@ -12,4 +12,5 @@ export {
     geminiReasonHandler,
     geminiStructuredHandler,
     geminiImageHandler,
+    geminiEmbedHandler,
 } from './capabilities';
@@ -47,6 +47,7 @@ export { DeepSeekProvider, deepseekProvider } from './deepseek';
 export { OpenRouterProvider, openrouterProvider } from './openrouter';
 export { PerplexityProvider, perplexityProvider } from './perplexity';
 export { VercelGatewayProvider, vercelGatewayProvider } from './vercel';
+export { LocalProvider, localProvider, parseLocalEndpoint, DEFAULT_LOCAL_ENDPOINT } from './local';
 
 // Registry and provider management
 export {
@@ -0,0 +1,234 @@
+/**
+ * Local / OpenAI-Compatible Provider
+ *
+ * Talks to any server exposing OpenAI-compatible /v1/chat/completions:
+ * Ollama, llama.cpp server, LM Studio, vLLM. No network key or cost.
+ *
+ * The "API key" is the endpoint: `http://localhost:11434/v1`, optionally
+ * followed by `|token` for servers started with an API key (vLLM --api-key).
+ *
+ * @see https://github.com/ollama/ollama/blob/main/docs/openai.md
+ */
+
+import {
+    ProviderAdapter,
+    ProviderMeta,
+    ModelInfo,
+    ModelMode,
+    KeyTestResult,
+    GenerateOptions,
+    GenerateResult,
+    errorResult,
+    readChatCompletionStream,
+    jsonResponseFormat
+} from './base';
+
+export const DEFAULT_LOCAL_ENDPOINT = 'http://localhost:11434/v1';
+
+export interface LocalEndpoint {
+    baseUrl: string;               // Always ends in /v1, no trailing slash
+    apiKey?: string;
+}
+
+/**
+ * Parse the stored key value into base URL and optional bearer token
+ */
+export function parseLocalEndpoint(value: string | undefined): LocalEndpoint {
+    const [rawUrl, token] = (value || '').split('|');
+    let baseUrl = (rawUrl || DEFAULT_LOCAL_ENDPOINT).trim().replace(/\/+$/, '');
+
+    // Accept bare host URLs (http://localhost:11434) and chat URLs pasted from docs
+    baseUrl = baseUrl.replace(/\/chat\/completions$/, '');
+    if (!/\/v1$/.test(baseUrl)) {
+        baseUrl = `${baseUrl}/v1`;
+    }
+
+    return { baseUrl, apiKey: token?.trim() || undefined };
+}
+
+function headers(endpoint: LocalEndpoint): Record<string, string> {
+    return {
+        'Content-Type': 'application/json',
+        ...(endpoint.apiKey && { 'Authorization': `Bearer ${endpoint.apiKey}` }),
+    };
+}
+
+function modesForModel(id: string): ModelMode[] {
+    const modes: ModelMode[] = ['chat', 'stream'];
+    if (/r1|reason|think|qwq/i.test(id)) modes.push('reason');
+    if (/code|coder/i.test(id)) modes.push('code');
+    if (/llava|vision|-vl/i.test(id)) modes.push('image');
+    return modes;
+}
+
+/**
+ * Local Provider Implementation
+ */
+export class LocalProvider implements ProviderAdapter {
+    readonly meta: ProviderMeta = {
+        id: 'local',
+        name: 'Local (OpenAI-compatible)',
+        description: 'Ollama, llama.cpp, LM Studio or vLLM on your machine - offline and free',
+        signupUrl: 'https://ollama.com/download',
+        docsUrl: 'https://github.com/ollama/ollama/blob/main/docs/openai.md',
+        keyPrefix: 'http://'
+    };
+
+    /**
+     * "Test key" = reach the endpoint and discover installed models.
+     * Falls back to Ollama's native /api/tags when /v1/models is missing.
+     */
+    async testKey(apiKey: string): Promise<KeyTestResult> {
+        const startTime = Date.now();
+        const endpoint = parseLocalEndpoint(apiKey);
+
+        try {
+            const models = await this.listModels(endpoint);
+
+            if (models.length === 0) {
+                return {
+                    valid: false,
+                    models: [],
+                    error: `Local: server at ${endpoint.baseUrl} has no models installed (e.g. run "ollama pull llama3.1")`
+                };
+            }
+
+            return {
+                valid: true,
+                models,
+                responseTimeMs: Date.now() - startTime
+            };
+        } catch (error) {
+            return {
+                valid: false,
+                models: [],
+                error: `Local: cannot reach ${endpoint.baseUrl} - ${error instanceof Error ? error.message : 'Network error'}`
+            };
+        }
+    }
+
+    private async listModels(endpoint: LocalEndpoint): Promise<ModelInfo[]> {
+        const response = await fetch(`${endpoint.baseUrl}/models`, { headers: headers(endpoint) });
+
+        if (response.ok) {
+            const data = await response.json();
+            return (data.data || []).map((m: { id: string; owned_by?: string }) => ({
+                id: m.id,
+                name: m.id,
+                description: m.owned_by ? `Served by ${m.owned_by}` : undefined,
+                modes: modesForModel(m.id),
+                pricing: { input: 0, output: 0 }
+            }));
+        }
+
+        // Older Ollama builds: native tags endpoint at the server root
+        const root = endpoint.baseUrl.replace(/\/v1$/, '');
+        const tags = await fetch(`${root}/api/tags`);
+        if (!tags.ok) {
+            const error = await response.text();
+            throw new Error(`${response.status} - ${error.substring(0, 150)}`);
+        }
+
+        const data = await tags.json();
+        return (data.models || []).map((m: { name: string; details?: { parameter_size?: string } }) => ({
+            id: m.name,
+            name: m.name,
+            description: m.details?.parameter_size,
+            modes: modesForModel(m.name),
+            pricing: { input: 0, output: 0 }
+        }));
+    }
+
+    private buildMessages(options: GenerateOptions) {
+        const messages = [];
+        if (options.systemPrompt) {
+            messages.push({ role: 'system', content: options.systemPrompt });
+        }
+        messages.push({ role: 'user', content: options.prompt });
+        return messages;
+    }
+
+    /**
+     * Generate content using chat completion
+     */
+    async chat(apiKey: string, options: GenerateOptions): Promise<GenerateResult> {
+        const endpoint = parseLocalEndpoint(apiKey);
+        const model = options.model;
+
+        if (!model) {
+            return errorResult('Local: no model selected - test the endpoint to discover models', 'unknown');
+        }
+
+        try {
+            const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: headers(endpoint),
+                body: JSON.stringify({
+                    model,
+                    messages: this.buildMessages(options),
+                    max_tokens: options.maxTokens || 4000,
+                    temperature: options.temperature ?? 0.7,
+                    response_format: jsonResponseFormat(options.jsonSchema),
+                })
+            });
+
+            if (!response.ok) {
+                const error = await response.text();
+                return errorResult(`Local: ${response.status} - ${error.substring(0, 200)}`, model);
+            }
+
+            const data = await response.json();
+            const message = data.choices?.[0]?.message;
+            const content = message?.content;
+
+            if (!content) {
+                return errorResult('No content in response', model);
+            }
+
+            return {
+                success: true,
+                content,
+                reasoning: message?.reasoning_content,
+                model: data.model || model,
+                usage: data.usage ? {
+                    inputTokens: data.usage.prompt_tokens || 0,
+                    outputTokens: data.usage.completion_tokens || 0
+                } : undefined
+            };
+        } catch (error) {
+            return errorResult(
+                error instanceof Error ? error.message : 'Network error',
+                model
+            );
+        }
+    }
+
+    /**
+     * Stream content generation (Server-Sent Events, OpenAI delta format)
+     */
+    async *stream(apiKey: string, options: GenerateOptions): AsyncGenerator<string, void, unknown> {
+        const endpoint = parseLocalEndpoint(apiKey);
+
+        const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: headers(endpoint),
+            body: JSON.stringify({
+                model: options.model,
+                messages: this.buildMessages(options),
+                max_tokens: options.maxTokens || 4000,
+                temperature: options.temperature ?? 0.7,
+                stream: true
+            }),
+            signal: options.signal
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error(`Local stream error: ${response.status}`);
+        }
+
+        yield* readChatCompletionStream(response.body, options.signal);
+    }
+}
+
+// Export singleton instance
+export const localProvider = new LocalProvider();
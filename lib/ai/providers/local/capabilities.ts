@@ -0,0 +1,179 @@
+/**
+ * Local Model Capability Handlers
+ *
+ * Maps the OpenAI-compatible local provider (Ollama, llama.cpp, LM Studio,
+ * vLLM) to AIServices capabilities. Runs offline at zero cost, so it is
+ * a natural fallback and a good fit for cheap tasks like SEO metadata.
+ *
+ * Handler IDs follow pattern: {provider}-{action}
+ */
+
+import type { CapabilityHandler, ExecuteOptions, ExecuteResult } from '../../services/types';
+import { toJsonSchema } from '../../services/structuredOutput';
+import { localProvider } from '../local';
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Get endpoint ("API key") from options context
+ * Follows same pattern as deepseek/capabilities.ts
+ */
+async function getEndpoint(options: ExecuteOptions): Promise<string | undefined> {
+    // Server-side: providerKeys passed from client or loaded from DB
+    const providerKeys = options.context?.providerKeys as Record<string, string> | undefined;
+    if (providerKeys?.local) {
+        return providerKeys.local;
+    }
+
+    // Try from settings store (client-side only)
+    if (typeof window !== 'undefined') {
+        try {
+            const { useSettingsStore } = await import('@/stores/settingsStore');
+            const keys = useSettingsStore.getState().providerKeys.local;
+            if (keys?.length) {
+                const firstKey = keys[0];
+                return typeof firstKey === 'string' ? firstKey : (firstKey as { key: string })?.key;
+            }
+        } catch {
+            // Settings not available
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Get user-selected model. Local servers have no universal default model,
+ * so this is whatever the user picked after model discovery.
+ */
+async function getUserSelectedModel(options: ExecuteOptions): Promise<string | undefined> {
+    if (options.model) {
+        return options.model;
+    }
+
+    // Try from context.selectedModels (passed from server-side DB via capabilities route)
+    const selectedModels = options.context?.selectedModels as Record<string, string> | undefined;
+    if (selectedModels?.local) {
+        return selectedModels.local;
+    }
+
+    // Try from settings store (client-side only)
+    if (typeof window !== 'undefined') {
+        try {
+            const { useSettingsStore } = await import('@/stores/settingsStore');
+            return useSettingsStore.getState().selectedModels?.local;
+        } catch {
+            // Settings not available
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Create error result with required fields
+ */
+function errorResult(error: string, handlerId: string, startTime: number): ExecuteResult {
+    return {
+        success: false,
+        error,
+        handlerUsed: handlerId,
+        source: 'ai-provider',
+        latencyMs: Date.now() - startTime
+    };
+}
+
+// ============================================
+// CAPABILITY HANDLERS
+// ============================================
+
+/**
+ * local-generate: Text generation on a local model server
+ */
+export const localGenerateHandler: CapabilityHandler = {
+    id: 'local-generate',
+    name: 'Local Model',
+    source: 'ai-provider',
+    providerId: 'local',
+    capabilities: ['generate', 'summarize', 'translate', 'keywords', 'analyze', 'code'],
+    priority: 60,  // Below hosted providers; assign explicitly or use as free fallback
+    isAvailable: true,
+    requiresApiKey: true,
+
+    async execute(opts: ExecuteOptions): Promise<ExecuteResult> {
+        const startTime = Date.now();
+        const handlerId = 'local-generate';
+
+        const endpoint = await getEndpoint(opts);
+        if (!endpoint) {
+            return errorResult('Local model endpoint not configured', handlerId, startTime);
+        }
+
+        const model = await getUserSelectedModel(opts);
+        if (!model) {
+            return errorResult('No local model selected', handlerId, startTime);
+        }
+
+        try {
+            const result = await localProvider.chat(endpoint, {
+                prompt: opts.prompt,
+                model,
+                maxTokens: opts.maxTokens,
+                temperature: opts.temperature,
+                systemPrompt: opts.systemPrompt,
+                jsonSchema: opts.responseSchema && toJsonSchema(opts.responseSchema),
+            });
+
+            if (!result.success) {
+                return errorResult(result.error || 'Generation failed', handlerId, startTime);
+            }
+
+            return {
+                success: true,
+                text: result.content,
+                handlerUsed: handlerId,
+                source: 'ai-provider',
+                latencyMs: Date.now() - startTime,
+                model: result.model,
+                usage: result.usage,
+            };
+        } catch (error) {
+            return errorResult(
+                error instanceof Error ? error.message : 'Generation failed',
+                handlerId,
+                startTime
+            );
+        }
+    },
+
+    async *stream(opts: ExecuteOptions): AsyncGenerator<string, void, unknown> {
+        const endpoint = await getEndpoint(opts);
+        if (!endpoint) {
+            throw new Error('Local model endpoint not configured');
+        }
+
+        const model = await getUserSelectedModel(opts);
+        if (!model) {
+            throw new Error('No local model selected');
+        }
+
+        yield* localProvider.stream(endpoint, {
+            prompt: opts.prompt,
+            model,
+            maxTokens: opts.maxTokens,
+            temperature: opts.temperature,
+            systemPrompt: opts.systemPrompt,
+            signal: opts.signal,
+        });
+    }
+};
+
+// ============================================
+// ALL HANDLERS
+// ============================================
+
+export const localHandlers: CapabilityHandler[] = [
+    localGenerateHandler,
+];
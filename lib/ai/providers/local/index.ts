@@ -0,0 +1,16 @@
+/**
+ * Local Provider Module
+ * 
+ * Re-exports the OpenAI-compatible local provider and capability handlers
+ */
+
+export {
+    localProvider,
+    LocalProvider,
+    parseLocalEndpoint,
+    DEFAULT_LOCAL_ENDPOINT,
+} from '../local';
+export {
+    localHandlers,
+    localGenerateHandler,
+} from './capabilities';
@@ -92,6 +92,18 @@ export const PROVIDER_METADATA: Record<ProviderId, ProviderMetadata> = {
         features: ['Auto-failover', 'Caching', 'Analytics'],
         signupUrl: 'https://vercel.com/',
         pricing: '$5 free credits/month'
+    },
+    local: {
+        id: 'local',
+        name: 'Local (OpenAI-compatible)',
+        description: 'Ollama, llama.cpp, LM Studio or vLLM running on your machine',
+        baseUrl: 'http://localhost:11434/v1',
+        models: [],
+        defaultModel: '',
+        rateLimit: { requestsPerMinute: 600, requestsPerDay: 100000, cooldownMs: 0 },
+        features: ['Offline', 'No cost', 'Private'],
+        signupUrl: 'https://ollama.com/download',
+        pricing: 'Free (your hardware)'
     }
 };
 
@@ -15,7 +15,9 @@ import {
     GenerateOptions,
     GenerateResult,
     ModelMode,
-    errorResult
+    errorResult,
+    readChatCompletionStream,
+    jsonResponseFormat
 } from './base';
 
 const BASE_URL = 'https://openrouter.ai/api/v1';
@@ -129,6 +131,7 @@ export class OpenRouterProvider implements ProviderAdapter {
                     messages,
                     max_tokens: options.maxTokens || 4000,
                     temperature: options.temperature ?? 0.7,
+                    response_format: jsonResponseFormat(options.jsonSchema),
                 })
             });
 
@@ -169,6 +172,12 @@ export class OpenRouterProvider implements ProviderAdapter {
         const model = options.model || 'deepseek/deepseek-chat:free';
         const url = `${BASE_URL}/chat/completions`;
 
+        const messages = [];
+        if (options.systemPrompt) {
+            messages.push({ role: 'system', content: options.systemPrompt });
+        }
+        messages.push({ role: 'user', content: options.prompt });
+
         const response = await fetch(url, {
             method: 'POST',
             headers: {
@@ -179,39 +188,19 @@ export class OpenRouterProvider implements ProviderAdapter {
             },
             body: JSON.stringify({
                 model,
-                messages: [{ role: 'user', content: options.prompt }],
+                messages,
                 max_tokens: options.maxTokens || 4000,
                 temperature: options.temperature ?? 0.7,
                 stream: true
-            })
+            }),
+            signal: options.signal
         });
 
         if (!response.ok || !response.body) {
             throw new Error(`OpenRouter stream error: ${response.status}`);
         }
 
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-                if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-                    try {
-                        const data = JSON.parse(line.slice(6));
-                        const text = data.choices?.[0]?.delta?.content;
-                        if (text) yield text;
-                    } catch {
-                        // Skip invalid JSON
-                    }
-                }
-            }
-        }
+        yield* readChatCompletionStream(response.body, options.signal);
     }
 }
 
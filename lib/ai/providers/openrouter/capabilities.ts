@@ -14,6 +14,7 @@
  */
 
 import type { CapabilityHandler, ExecuteOptions, ExecuteResult } from '../../services/types';
+import { toJsonSchema } from '../../services/structuredOutput';
 import { openrouterProvider } from '../openrouter';
 
 // ============================================
@@ -140,6 +141,7 @@ export const openrouterGenerateHandler: CapabilityHandler = {
                 maxTokens: opts.maxTokens,
                 temperature: opts.temperature,
                 systemPrompt: opts.systemPrompt,
+                jsonSchema: opts.responseSchema && toJsonSchema(opts.responseSchema),
             });
 
             if (!result.success) {
@@ -162,6 +164,24 @@ export const openrouterGenerateHandler: CapabilityHandler = {
                 startTime
             );
         }
+    },
+
+    async *stream(opts: ExecuteOptions): AsyncGenerator<string, void, unknown> {
+        const apiKey = await getApiKey(opts);
+        if (!apiKey) {
+            throw new Error('OpenRouter API key not configured');
+        }
+
+        const model = await getUserSelectedModel(opts);
+
+        yield* openrouterProvider.stream(apiKey, {
+            prompt: opts.prompt,
+            model: model || 'deepseek/deepseek-chat:free',
+            maxTokens: opts.maxTokens,
+            temperature: opts.temperature,
+            systemPrompt: opts.systemPrompt,
+            signal: opts.signal,
+        });
     }
 };
 
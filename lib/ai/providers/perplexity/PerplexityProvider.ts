@@ -189,6 +189,30 @@ export class PerplexityProvider implements ProviderAdapter {
         yield* sdk.chatStream(request);
     }
 
+    /**
+     * Stream content generation (ProviderAdapter contract - text deltas only)
+     * Leaving the loop early closes the SDK stream.
+     */
+    async *stream(apiKey: string, options: GenerateOptions): AsyncGenerator<string, void, unknown> {
+        const request: ChatCompletionRequest = {
+            model: (options.model || 'sonar') as PerplexityModel,
+            messages: [
+                ...(options.systemPrompt
+                    ? [{ role: 'system' as const, content: options.systemPrompt }]
+                    : []),
+                { role: 'user' as const, content: options.prompt }
+            ],
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+        };
+
+        for await (const chunk of this.chatStream(apiKey, request)) {
+            if (options.signal?.aborted) return;
+            const text = chunk.choices[0]?.delta?.content;
+            if (text) yield text;
+        }
+    }
+
     /**
      * Start async deep research
      */
@@ -6,6 +6,7 @@
  */
 
 import type { CapabilityHandler, ExecuteOptions, ExecuteResult } from '../../services/types';
+import { toJsonSchema } from '../../services/structuredOutput';
 import { perplexityProvider } from './PerplexityProvider';
 import type {
     SearchRequest,
@@ -171,6 +172,7 @@ export const perplexityChatHandler: CapabilityHandler = {
     priority: 75,
     isAvailable: true,
     requiresApiKey: true,
+    structuredOutput: true,
 
     async execute(opts: ExecuteOptions): Promise<ExecuteResult> {
         const startTime = Date.now();
@@ -197,7 +199,10 @@ export const perplexityChatHandler: CapabilityHandler = {
                 return_images: getContext<boolean>(opts, 'returnImages', true),
                 return_related_questions: getContext<boolean>(opts, 'returnRelatedQuestions', true),
                 search_domain_filter: getContext<string[]>(opts, 'domainFilter'),
-                search_recency_filter: getContext<'day' | 'week' | 'month' | 'year'>(opts, 'recencyFilter')
+                search_recency_filter: getContext<'day' | 'week' | 'month' | 'year'>(opts, 'recencyFilter'),
+                ...(opts.responseSchema && {
+                    response_format: { type: 'json_schema' as const, json_schema: { schema: toJsonSchema(opts.responseSchema) } }
+                })
             };
 
             const result = await perplexityProvider.chatComplete(apiKey, request);
@@ -227,6 +232,22 @@ export const perplexityChatHandler: CapabilityHandler = {
                 startTime
             );
         }
+    },
+
+    async *stream(opts: ExecuteOptions): AsyncGenerator<string, void, unknown> {
+        const apiKey = await getApiKey(opts);
+        if (!apiKey) {
+            throw new Error('Perplexity API key not configured');
+        }
+
+        yield* perplexityProvider.stream(apiKey, {
+            prompt: opts.prompt,
+            model: opts.model || 'sonar',
+            maxTokens: opts.maxTokens,
+            temperature: opts.temperature,
+            systemPrompt: opts.systemPrompt,
+            signal: opts.signal,
+        });
     }
 };
 
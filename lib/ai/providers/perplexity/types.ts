@@ -210,6 +210,12 @@ export interface ChatCompletionRequest {
     /** Web search options (alternative format) */
     web_search_options?: WebSearchOptions;
 
+    /** Structured output - response matches the JSON Schema */
+    response_format?: {
+        type: 'json_schema';
+        json_schema: { schema: Record<string, unknown> };
+    };
+
     // ---- Streaming ----
 
     /** Enable streaming response */
@@ -21,6 +21,7 @@ import { deepseekProvider } from './deepseek';
 import { openrouterProvider } from './openrouter';
 import { perplexityProvider } from './perplexity';
 import { vercelGatewayProvider } from './vercel';
+import { localProvider } from './local';
 
 // ============================================
 // PROVIDER INSTANCES
@@ -34,7 +35,8 @@ export const PROVIDER_ADAPTERS: Record<ProviderId, ProviderAdapter> = {
     deepseek: deepseekProvider,
     openrouter: openrouterProvider,
     perplexity: perplexityProvider,
-    vercel: vercelGatewayProvider
+    vercel: vercelGatewayProvider,
+    local: localProvider
 };
 
 // ============================================
@@ -46,7 +48,7 @@ export const PROVIDER_ADAPTERS: Record<ProviderId, ProviderAdapter> = {
  */
 export class ProviderRegistry {
     private states: Map<ProviderId, ProviderState> = new Map();
-    private providerOrder: ProviderId[] = ['gemini', 'deepseek', 'openrouter', 'vercel', 'perplexity'];
+    private providerOrder: ProviderId[] = ['gemini', 'deepseek', 'openrouter', 'vercel', 'perplexity', 'local'];
 
     constructor() {
         // Initialize states for all providers
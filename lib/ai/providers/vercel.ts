@@ -14,7 +14,9 @@ import {
     KeyTestResult,
     GenerateOptions,
     GenerateResult,
-    errorResult
+    errorResult,
+    readChatCompletionStream,
+    jsonResponseFormat
 } from './base';
 
 const BASE_URL = 'https://ai-gateway.vercel.sh/v1';
@@ -124,6 +126,7 @@ export class VercelGatewayProvider implements ProviderAdapter {
                     messages,
                     max_tokens: options.maxTokens || 4000,
                     temperature: options.temperature ?? 0.7,
+                    response_format: jsonResponseFormat(options.jsonSchema),
                 })
             });
 
@@ -156,6 +159,42 @@ export class VercelGatewayProvider implements ProviderAdapter {
             );
         }
     }
+
+    /**
+     * Stream content generation via Vercel AI Gateway (OpenAI-compatible SSE)
+     */
+    async *stream(apiKey: string, options: GenerateOptions): AsyncGenerator<string, void, unknown> {
+        const model = options.model || 'anthropic/claude-3-haiku';
+        const url = `${BASE_URL}/chat/completions`;
+
+        const messages = [];
+        if (options.systemPrompt) {
+            messages.push({ role: 'system', content: options.systemPrompt });
+        }
+        messages.push({ role: 'user', content: options.prompt });
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${apiKey}`
+            },
+            body: JSON.stringify({
+                model,
+                messages,
+                max_tokens: options.maxTokens || 4000,
+                temperature: options.temperature ?? 0.7,
+                stream: true
+            }),
+            signal: options.signal
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error(`Vercel stream error: ${response.status}`);
+        }
+
+        yield* readChatCompletionStream(response.body, options.signal);
+    }
 }
 
 // Export singleton instance
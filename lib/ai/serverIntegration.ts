@@ -8,7 +8,8 @@
  */
 
 import { aiServices as aiServicesInstance } from './services';
-import type { Capability, CapabilityHandler } from './services/types';
+import { getCapabilityExecutor, type CapabilityExecutor } from './services/CapabilityExecutor';
+import type { Capability, CapabilityHandler, CapabilitiesConfig } from './services/types';
 
 /**
  * Execute a research task using AIServices if available, with fallback
@@ -95,3 +96,70 @@ export function getAvailableCapabilities(): string[] {
         .filter((c: Capability) => c.isEnabled)
         .map((c: Capability) => c.id);
 }
+
+export interface ServerExecution {
+    executor: CapabilityExecutor;
+    handlers: CapabilityHandler[];
+    config: CapabilitiesConfig;
+    providerKeys: Record<string, string>;
+    selectedModels: Record<string, string>;
+}
+
+/**
+ * Prepare the shared executor for an API route: spend budgets, circuit
+ * breakers, persistent response cache, and capability/provider settings
+ * from the server DB.
+ * Used by both the JSON and the streaming capability routes.
+ */
+export async function prepareServerExecution(): Promise<ServerExecution> {
+    // Ensure aiServices is fully initialized (handlers registered)
+    await aiServicesInstance.initialize();
+
+    const executor = getCapabilityExecutor();
+
+    // Enforce spend budgets configured in Settings
+    try {
+        const { getServerBudgetGuard } = await import('@/lib/db/budgetStore');
+        executor.updateConfig({ budgetGuard: getServerBudgetGuard() });
+    } catch (e) {
+        console.warn('[ServerExecution] Failed to load budget guard, budgets not enforced:', e);
+    }
+
+    // Process-wide circuit breakers: skip handlers that keep failing
+    const { getCircuitBreaker } = await import('./circuitBreaker');
+    executor.updateConfig({ circuitBreaker: getCircuitBreaker() });
+
+    // Shared persistent response cache (survives restarts)
+    const { getServerResponseCache } = await import('./cache/serverCache');
+    executor.updateConfig({ responseCache: getServerResponseCache() });
+
+    // Get base config and merge with server-side settings (from SQLite DB)
+    let config = aiServicesInstance.getConfig();
+    let providerKeys: Record<string, string> = {};
+    let selectedModels: Record<string, string> = {};
+    try {
+        const { getAllCapabilitySettings, getAllHandlerModels, getAllProviderKeys, getAllSelectedModels } = await import('@/lib/db/settingsDb');
+        providerKeys = getAllProviderKeys();
+        selectedModels = getAllSelectedModels();
+
+        config = {
+            ...config,
+            capabilitySettings: {
+                ...config.capabilitySettings,
+                ...getAllCapabilitySettings(),
+            },
+            // Store handler models for handlers to read
+            handlerModels: getAllHandlerModels(),
+        } as typeof config;
+    } catch (e) {
+        console.warn('[ServerExecution] Failed to load server settings, using defaults:', e);
+    }
+
+    return {
+        executor,
+        handlers: aiServicesInstance.getHandlers(),
+        config,
+        providerKeys,
+        selectedModels,
+    };
+}
@@ -4,7 +4,13 @@
  * Responsible for:
  * - Getting user's selected handler from Settings
  * - Executing capability with retry/fallback logic
- * - Validating responses per capability type
+ * - Serving identical requests from the response cache (optional ResponseCache)
+ * - Enforcing spend budgets before each handler call (optional BudgetGuard)
+ * - Skipping handlers whose circuit is open and trying healthy ones first
+ *   (optional CircuitBreaker)
+ * - Streaming token output with cancellation (executeStream)
+ * - Validating responses per capability type, or against options.responseSchema
+ *   with repair re-prompts when the JSON does not match
  * - Logging diagnostics for debugging
  * 
  * The executor NEVER knows which provider will run - it just requests
@@ -18,6 +24,17 @@ import {
     CapabilitiesConfig,
     Capability
 } from './types';
+import { estimateCallCost, estimateTokens, type BudgetCheck, type BudgetGuard } from '../budgets';
+import { calculateCost } from '@/lib/providerPricing';
+import type { CacheKeyParts, ResponseCache } from '../cache/responseCache';
+import type { CircuitBreaker } from '../circuitBreaker';
+import { redactSecrets } from '@/lib/security/redact';
+import {
+    buildRepairPrompt,
+    buildSchemaInstruction,
+    parseStructuredOutput,
+    toJsonSchema,
+} from './structuredOutput';
 
 // ============================================
 // DIAGNOSTICS
@@ -33,18 +50,32 @@ export interface ProviderDiagnostics {
     tokensInput?: number;
     tokensOutput?: number;
     retryCount: number;
+    estimatedCostUsd?: number;    // Pre-call estimate used for the budget check
+    costUsd?: number;             // Recorded spend for this attempt
     rawResponse?: string;         // Only in verbose mode
     errors: string[];             // Any errors encountered
 }
 
 export type VerbosityLevel = 'none' | 'basic' | 'standard' | 'verbose';
 
+/**
+ * Events from executeStream(): a 'start' per handler tried, 'chunk' per
+ * text delta, and exactly one final 'done' with the full result.
+ */
+export type StreamEvent =
+    | { type: 'start'; handlerId: string; handlerName: string }
+    | { type: 'chunk'; text: string }
+    | { type: 'done'; result: ExecuteResult & { diagnostics?: ProviderDiagnostics } };
+
 export interface ExecutorConfig {
     verbosity: VerbosityLevel;
     defaultMaxRetries: number;
     defaultTimeout: number;       // in ms
     logToConsole: boolean;
     onDiagnostics?: (diagnostics: ProviderDiagnostics) => void;
+    budgetGuard?: BudgetGuard;    // Spend limits; server routes use lib/db/budgetStore
+    circuitBreaker?: CircuitBreaker; // Health-aware routing; server routes use getCircuitBreaker()
+    responseCache?: ResponseCache; // Server routes use lib/ai/cache/serverCache
 }
 
 const DEFAULT_EXECUTOR_CONFIG: ExecutorConfig = {
@@ -63,6 +94,10 @@ interface ValidationRule {
     errorMessage: string;
 }
 
+type OutputCheck =
+    | { ok: true; result: ExecuteResult }
+    | { ok: false; error: string; schemaErrors?: string[] };
+
 const CAPABILITY_VALIDATORS: Record<string, ValidationRule[]> = {
     generate: [
         {
@@ -124,6 +159,12 @@ const CAPABILITY_VALIDATORS: Record<string, ValidationRule[]> = {
             errorMessage: 'Code result is too short or empty'
         }
     ],
+    embed: [
+        {
+            validate: (data) => Array.isArray(data) && data.length > 0 && data.every(v => typeof v === 'number'),
+            errorMessage: 'Embedding is not a numeric vector'
+        }
+    ],
     scrape: [
         {
             validate: (data) => typeof data === 'string' && data.length > 0,
@@ -199,14 +240,71 @@ export class CapabilityExecutor {
 
         this.log('standard', `[CapabilityExecutor] Found ${eligibleHandlers.length} handlers for ${capability}`);
 
-        // 2. Try handlers in order (with fallback)
+        // 2. Serve from cache if any eligible handler already answered this prompt
+        const cache = options.bypassCache ? undefined : this.config.responseCache;
+        if (cache && !cache.shouldBypassCache(capability)) {
+            for (const handler of eligibleHandlers) {
+                const cached = cache.get(this.cacheKey(handler, options, capabilitiesConfig));
+                if (cached) {
+                    this.log('basic', `[CapabilityExecutor] ${capability} served from cache (${handler.id})`);
+                    return { ...cached, latencyMs: Date.now() - startTime };
+                }
+            }
+        }
+
+        // 3. Try handlers in order (with fallback)
         const attemptedHandlers: string[] = [];
         const handlerErrors: Record<string, string> = {}; // Collect actual error from each handler
         let lastError = '';
+        let budgetSkipped = 0;
+        const queue = this.routeByHealth(eligibleHandlers);
+
+        for (let i = 0; i < queue.length; i++) {
+            const handler = queue[i];
+
+            // Budget check before spending anything on this handler
+            const estimatedCostUsd = this.estimateCost(handler, options);
+            const budget = this.checkBudget(handler, options, estimatedCostUsd);
+
+            if (budget && !budget.allowed) {
+                const reason = `Budget limit reached (${budget.reason})`;
+                this.log('basic', `[CapabilityExecutor] ${handler.id} skipped: ${reason}`);
+                handlerErrors[handler.id] = reason;
+                lastError = reason;
+                budgetSkipped++;
+
+                if (budget.action === 'refuse' || !useFallback) {
+                    return {
+                        ...this.errorResult(`${capability} refused: ${reason}`, startTime, attemptedHandlers),
+                        handlerErrors,
+                        budgetBlocked: true,
+                    };
+                }
+
+                // Fall back to the cheapest remaining handler
+                const remaining = queue.splice(i + 1)
+                    .sort((a, b) => this.estimateCost(a, options) - this.estimateCost(b, options));
+                queue.push(...remaining);
+                continue;
+            }
+
+            // Skip handlers whose circuit is open instead of retrying a dead provider
+            if (!this.acquireCircuit(handler)) {
+                const reason = this.circuitOpenReason(handler);
+                this.log('basic', `[CapabilityExecutor] ${handler.id} skipped: ${reason}`);
+                handlerErrors[handler.id] = reason;
+                lastError = reason;
+                if (!useFallback) break;
+                continue;
+            }
 
-        for (const handler of eligibleHandlers) {
             attemptedHandlers.push(handler.id);
 
+            // Schema instructions for handlers without native structured output;
+            // attemptOptions switches to a repair prompt after invalid JSON
+            const handlerOptions = this.withResponseSchema(handler, options);
+            let attemptOptions = handlerOptions;
+
             // Try with retries
             for (let attempt = 0; attempt <= maxRetries; attempt++) {
                 const diagnostics: ProviderDiagnostics = {
@@ -216,6 +314,7 @@ export class CapabilityExecutor {
                     responseTime: 0,
                     latencyMs: 0,
                     retryCount: attempt,
+                    estimatedCostUsd,
                     errors: [],
                 };
 
@@ -227,8 +326,8 @@ export class CapabilityExecutor {
                         throw new Error(`Handler ${handler.id} has no execute function`);
                     }
 
-                    const result = await Promise.race([
-                        handler.execute(options),
+                    let result = await Promise.race([
+                        handler.execute(attemptOptions),
                         this.timeout(options.timeout || this.config.defaultTimeout)
                     ]) as ExecuteResult;
 
@@ -242,18 +341,36 @@ export class CapabilityExecutor {
                         diagnostics.tokensUsed = result.usage.inputTokens + result.usage.outputTokens;
                     }
 
+                    // Successful responses are billed even if validation rejects them
+                    if (result.success) {
+                        diagnostics.costUsd = this.recordSpend(handler, options, result);
+                    }
+
+                    // Invalid output still means the provider is up
+                    this.recordCircuit(handler, diagnostics.latencyMs, result.success ? undefined : result.error || 'Unknown error');
+
                     // Validate result
                     if (result.success) {
-                        const validationError = this.validateResult(capability, result.data || result.text);
-                        if (validationError) {
-                            this.log('standard', `[CapabilityExecutor] Validation failed: ${validationError}`);
-                            diagnostics.errors.push(validationError);
-                            lastError = validationError;
+                        const check = this.validateOutput(options, result);
+                        if (!check.ok) {
+                            this.log('standard', `[CapabilityExecutor] Validation failed: ${check.error}`);
+                            diagnostics.errors.push(check.error);
+                            lastError = check.error;
+
+                            if (check.schemaErrors) {
+                                handlerErrors[handler.id] = check.error;
+                                attemptOptions = {
+                                    ...handlerOptions,
+                                    prompt: buildRepairPrompt(handlerOptions.prompt, this.outputText(result), check.schemaErrors),
+                                };
+                            }
                             continue; // Retry
                         }
+                        result = check.result;
 
                         // Success!
                         this.logDiagnostics(diagnostics);
+                        cache?.set(this.cacheKey(handler, options, capabilitiesConfig), result);
                         return {
                             ...result,
                             fallbacksAttempted: attemptedHandlers.slice(0, -1),
@@ -272,11 +389,17 @@ export class CapabilityExecutor {
                     diagnostics.errors.push(errorMsg);
                     lastError = errorMsg;
                     handlerErrors[handler.id] = errorMsg; // Store actual API error
+                    this.recordCircuit(handler, diagnostics.latencyMs, errorMsg);
 
                     this.log('standard', `[CapabilityExecutor] ${handler.id} error: ${errorMsg}`);
                 }
 
                 this.logDiagnostics(diagnostics);
+
+                // Circuit just opened - stop retrying this handler
+                if (this.config.circuitBreaker?.getState(handler.id) === 'open') {
+                    break;
+                }
             }
 
             // All retries failed for this handler, try next
@@ -297,9 +420,345 @@ export class CapabilityExecutor {
                 attemptedHandlers
             ),
             handlerErrors, // Include raw errors for status panel
+            budgetBlocked: attemptedHandlers.length === 0 && budgetSkipped > 0,
         };
     }
 
+    /**
+     * Execute a capability as a token stream
+     *
+     * Same handler selection, cache and budget rules as execute(). Falls back
+     * to the next handler only while nothing has been streamed yet - partial
+     * output already shown to the user cannot be retracted. Handlers without
+     * stream() run through execute() and arrive as a single chunk.
+     *
+     * options.timeout is an idle timeout between chunks here, so long
+     * articles are not cut off while tokens keep arriving. Aborting
+     * options.signal ends with a cancelled result holding the partial text.
+     */
+    async *executeStream(
+        options: ExecuteOptions,
+        handlers: CapabilityHandler[],
+        capabilitiesConfig: CapabilitiesConfig
+    ): AsyncGenerator<StreamEvent, void, unknown> {
+        const startTime = Date.now();
+        const { capability, useFallback = true } = options;
+        const idleTimeoutMs = options.timeout || this.config.defaultTimeout;
+
+        this.log('basic', `[CapabilityExecutor] Streaming ${capability}`);
+
+        const eligibleHandlers = this.getEligibleHandlers(
+            capability,
+            handlers,
+            capabilitiesConfig,
+            options.preferredHandler
+        );
+
+        if (eligibleHandlers.length === 0) {
+            yield { type: 'done', result: this.errorResult(`No handlers available for capability: ${capability}`, startTime) };
+            return;
+        }
+
+        // Cached responses replay as a single chunk
+        const cache = options.bypassCache ? undefined : this.config.responseCache;
+        if (cache && !cache.shouldBypassCache(capability)) {
+            for (const handler of eligibleHandlers) {
+                const cached = cache.get(this.cacheKey(handler, options, capabilitiesConfig));
+                if (cached) {
+                    yield { type: 'start', handlerId: handler.id, handlerName: handler.name };
+                    if (cached.text) yield { type: 'chunk', text: cached.text };
+                    yield { type: 'done', result: { ...cached, latencyMs: Date.now() - startTime } };
+                    return;
+                }
+            }
+        }
+
+        const attemptedHandlers: string[] = [];
+        const handlerErrors: Record<string, string> = {};
+        let budgetSkipped = 0;
+        const queue = this.routeByHealth(eligibleHandlers);
+
+        for (let i = 0; i < queue.length; i++) {
+            const handler = queue[i];
+
+            const estimatedCostUsd = this.estimateCost(handler, options);
+            const budget = this.checkBudget(handler, options, estimatedCostUsd);
+
+            if (budget && !budget.allowed) {
+                const reason = `Budget limit reached (${budget.reason})`;
+                this.log('basic', `[CapabilityExecutor] ${handler.id} skipped: ${reason}`);
+                handlerErrors[handler.id] = reason;
+                budgetSkipped++;
+
+                if (budget.action === 'refuse' || !useFallback) {
+                    yield {
+                        type: 'done',
+                        result: {
+                            ...this.errorResult(`${capability} refused: ${reason}`, startTime, attemptedHandlers),
+                            handlerErrors,
+                            budgetBlocked: true,
+                        },
+                    };
+                    return;
+                }
+
+                const remaining = queue.splice(i + 1)
+                    .sort((a, b) => this.estimateCost(a, options) - this.estimateCost(b, options));
+                queue.push(...remaining);
+                continue;
+            }
+
+            if (!this.acquireCircuit(handler)) {
+                const reason = this.circuitOpenReason(handler);
+                this.log('basic', `[CapabilityExecutor] ${handler.id} skipped: ${reason}`);
+                handlerErrors[handler.id] = reason;
+                if (!useFallback) break;
+                continue;
+            }
+
+            attemptedHandlers.push(handler.id);
+            yield { type: 'start', handlerId: handler.id, handlerName: handler.name };
+
+            const diagnostics: ProviderDiagnostics = {
+                providerId: handler.providerId || handler.id,
+                model: options.model,
+                requestTime: Date.now(),
+                responseTime: 0,
+                latencyMs: 0,
+                retryCount: 0,
+                estimatedCostUsd,
+                errors: [],
+            };
+
+            // Streamed output cannot be repaired - the schema is only checked at the end
+            const handlerOptions = this.withResponseSchema(handler, options);
+            let text = '';
+            let executed: ExecuteResult | undefined;
+            let structuredData: unknown;
+            let failure: string | null = null;
+            let providerFailed = false;   // Provider error (vs. output rejected by validation)
+
+            try {
+                if (handler.stream) {
+                    for await (const chunk of this.streamWithIdleTimeout(handler.stream(handlerOptions), idleTimeoutMs, options.signal)) {
+                        text += chunk;
+                        yield { type: 'chunk', text: chunk };
+                    }
+                } else if (handler.execute) {
+                    executed = await Promise.race([
+                        handler.execute(handlerOptions),
+                        this.timeout(idleTimeoutMs)
+                    ]) as ExecuteResult;
+
+                    if (!executed.success) {
+                        throw new Error(executed.error || 'Unknown error');
+                    }
+                    text = executed.text || (typeof executed.data === 'string' ? executed.data : '');
+                    if (text) yield { type: 'chunk', text };
+                } else {
+                    throw new Error(`Handler ${handler.id} has no execute function`);
+                }
+
+                if (!options.signal?.aborted) {
+                    const check = this.validateOutput(options, executed || {
+                        success: true, text, handlerUsed: handler.id, source: handler.source, latencyMs: 0,
+                    });
+                    if (check.ok) structuredData = check.result.data;
+                    else failure = check.error;
+                }
+            } catch (error) {
+                if (!options.signal?.aborted) {
+                    failure = error instanceof Error ? error.message : String(error);
+                    providerFailed = true;
+                }
+            }
+
+            diagnostics.responseTime = Date.now();
+            diagnostics.latencyMs = diagnostics.responseTime - diagnostics.requestTime;
+
+            if (options.signal?.aborted && !text) {
+                // Cancelled before any output - says nothing about provider health
+                this.config.circuitBreaker?.release(handler.id);
+            } else {
+                this.recordCircuit(handler, diagnostics.latencyMs, providerFailed ? failure || undefined : undefined);
+            }
+
+            const result: ExecuteResult = {
+                success: true,
+                text,
+                handlerUsed: handler.id,
+                source: handler.source,
+                latencyMs: Date.now() - startTime,
+                fallbacksAttempted: attemptedHandlers.slice(0, -1),
+                model: executed?.model || options.model,
+                usage: executed?.usage,
+                ...(structuredData !== undefined && { data: structuredData }),
+            };
+
+            if (result.usage) {
+                diagnostics.tokensInput = result.usage.inputTokens;
+                diagnostics.tokensOutput = result.usage.outputTokens;
+                diagnostics.tokensUsed = result.usage.inputTokens + result.usage.outputTokens;
+            }
+
+            // Streamed tokens are billed even when cancelled or rejected
+            if (text) {
+                diagnostics.costUsd = this.recordSpend(handler, options, result);
+            }
+
+            if (options.signal?.aborted) {
+                this.log('basic', `[CapabilityExecutor] ${capability} stream cancelled after ${text.length} chars`);
+                diagnostics.errors.push('Cancelled');
+                this.logDiagnostics(diagnostics);
+                yield { type: 'done', result: { ...result, success: false, cancelled: true, error: 'Cancelled', diagnostics } };
+                return;
+            }
+
+            if (failure) {
+                this.log('standard', `[CapabilityExecutor] ${handler.id} stream error: ${failure}`);
+                diagnostics.errors.push(failure);
+                handlerErrors[handler.id] = failure;
+                this.logDiagnostics(diagnostics);
+
+                if (text || !useFallback) {
+                    yield { type: 'done', result: { ...result, success: false, error: failure, handlerErrors, diagnostics } };
+                    return;
+                }
+                continue;
+            }
+
+            this.logDiagnostics(diagnostics);
+            cache?.set(this.cacheKey(handler, options, capabilitiesConfig), result);
+            yield { type: 'done', result: { ...result, diagnostics } };
+            return;
+        }
+
+        const errorBreakdown = Object.entries(handlerErrors)
+            .map(([id, err]) => `${id}: ${err}`)
+            .join(' | ');
+
+        yield {
+            type: 'done',
+            result: {
+                ...this.errorResult(
+                    `All handlers failed for ${capability}. Errors: ${errorBreakdown}`,
+                    startTime,
+                    attemptedHandlers
+                ),
+                handlerErrors,
+                budgetBlocked: attemptedHandlers.length === 0 && budgetSkipped > 0,
+            },
+        };
+    }
+
+    /**
+     * Relay a handler stream, failing if no chunk arrives within idleMs and
+     * ending early (closing the source) when the signal aborts.
+     */
+    private async *streamWithIdleTimeout(
+        source: AsyncGenerator<string, void, unknown>,
+        idleMs: number,
+        signal?: AbortSignal
+    ): AsyncGenerator<string, void, unknown> {
+        const aborted = new Promise<IteratorResult<string, void>>(resolve => {
+            if (signal?.aborted) resolve({ done: true, value: undefined });
+            signal?.addEventListener('abort', () => resolve({ done: true, value: undefined }), { once: true });
+        });
+
+        try {
+            while (true) {
+                let timer: ReturnType<typeof setTimeout> | undefined;
+                const idle = new Promise<never>((_, reject) => {
+                    timer = setTimeout(() => reject(new Error(`No output for ${idleMs}ms`)), idleMs);
+                });
+
+                try {
+                    const next = await Promise.race([source.next(), aborted, idle]);
+                    if (next.done) return;
+                    yield next.value;
+                } finally {
+                    clearTimeout(timer);
+                }
+            }
+        } finally {
+            // Don't wait on a provider that may be blocked mid-read
+            source.return(undefined).catch(() => { });
+        }
+    }
+
+    private checkBudget(handler: CapabilityHandler, options: ExecuteOptions, estimatedCostUsd: number): BudgetCheck | undefined {
+        return this.config.budgetGuard?.check({
+            providerId: handler.providerId || handler.id,
+            handlerId: handler.id,
+            capability: options.capability,
+            campaignId: options.campaignId,
+            estimatedCostUsd,
+        });
+    }
+
+    /**
+     * Cache key for a handler. The model is the one the handler will actually
+     * call: explicit, else the handler or provider model picked in Settings,
+     * so switching models never serves the old model's answers.
+     */
+    private cacheKey(handler: CapabilityHandler, options: ExecuteOptions, capabilitiesConfig: CapabilitiesConfig): CacheKeyParts {
+        const handlerModels = (capabilitiesConfig as CapabilitiesConfig & { handlerModels?: Record<string, string> }).handlerModels;
+        const selectedModels = options.context?.selectedModels as Record<string, string> | undefined;
+
+        return {
+            capability: options.capability,
+            handlerId: handler.id,
+            model: options.model
+                || handlerModels?.[handler.id]
+                || (handler.providerId ? selectedModels?.[handler.providerId] : undefined),
+            temperature: options.temperature,
+            maxTokens: options.maxTokens,
+            prompt: options.prompt,
+            systemPrompt: options.systemPrompt,
+            responseSchema: options.responseSchema && JSON.stringify(toJsonSchema(options.responseSchema)),
+        };
+    }
+
+    /**
+     * Estimated cost of running this request on a handler (0 for unpriced handlers)
+     */
+    private estimateCost(handler: CapabilityHandler, options: ExecuteOptions): number {
+        return estimateCallCost(handler.providerId || handler.id, options);
+    }
+
+    /**
+     * Append actual (or, without token usage, estimated) spend to the budget ledger
+     */
+    private recordSpend(handler: CapabilityHandler, options: ExecuteOptions, result: ExecuteResult): number | undefined {
+        if (!this.config.budgetGuard) return undefined;
+
+        const providerId = handler.providerId || handler.id;
+        const estimated = !result.usage;
+        const costUsd = result.usage
+            ? calculateCost(providerId, result.usage.inputTokens, result.usage.outputTokens)
+            : calculateCost(
+                providerId,
+                estimateTokens(options.prompt + (options.systemPrompt || '')),
+                estimateTokens(result.text || (typeof result.data === 'string' ? result.data : ''))
+            );
+
+        try {
+            this.config.budgetGuard.record({
+                timestamp: Date.now(),
+                providerId,
+                handlerId: handler.id,
+                capability: options.capability,
+                campaignId: options.campaignId,
+                costUsd,
+                estimated,
+            });
+        } catch (error) {
+            this.log('basic', `[CapabilityExecutor] Failed to record spend: ${error instanceof Error ? error.message : error}`);
+        }
+
+        return costUsd;
+    }
+
     /**
      * Get handlers sorted by user preference and priority
      */
@@ -457,6 +916,80 @@ export class CapabilityExecutor {
         };
     }
 
+    /**
+     * Order handlers by circuit health: healthy circuits keep the configured
+     * order, degraded ones (score < 0.5) move behind them, and circuits that
+     * cannot take a call right now go last (they are skipped when reached).
+     */
+    private routeByHealth(handlers: CapabilityHandler[]): CapabilityHandler[] {
+        const breaker = this.config.circuitBreaker;
+        if (!breaker) return [...handlers];
+
+        const tier = (handler: CapabilityHandler) => {
+            if (!breaker.canRequest(handler.id)) return 2;
+            return breaker.getHealthScore(handler.id) < 0.5 ? 1 : 0;
+        };
+        return handlers
+            .map((handler, index) => ({ handler, index, tier: tier(handler) }))
+            .sort((a, b) => a.tier - b.tier || a.index - b.index)
+            .map(entry => entry.handler);
+    }
+
+    private acquireCircuit(handler: CapabilityHandler): boolean {
+        return this.config.circuitBreaker?.acquire(handler.id, { label: handler.name, provider: handler.providerId || handler.source }) ?? true;
+    }
+
+    private recordCircuit(handler: CapabilityHandler, latencyMs: number, error?: string): void {
+        const breaker = this.config.circuitBreaker;
+        if (!breaker) return;
+        if (error) breaker.recordFailure(handler.id, error, latencyMs);
+        else breaker.recordSuccess(handler.id, latencyMs);
+    }
+
+    private circuitOpenReason(handler: CapabilityHandler): string {
+        const snapshot = this.config.circuitBreaker?.getSnapshot(handler.id);
+        if (snapshot?.state === 'half-open') return 'Circuit half-open (trial call in progress)';
+        const retryIn = snapshot?.retryAt ? Math.max(0, Math.ceil((snapshot.retryAt - Date.now()) / 1000)) : 0;
+        const lastError = snapshot?.recentFailures[0]?.error;
+        return `Circuit open (retry in ${retryIn}s${lastError ? `, last error: ${lastError}` : ''})`;
+    }
+
+    /**
+     * Validate a successful result. With options.responseSchema the output is
+     * parsed as JSON and checked against the schema instead of the capability
+     * rules; the parsed value becomes result.data.
+     */
+    private validateOutput(options: ExecuteOptions, result: ExecuteResult): OutputCheck {
+        if (!options.responseSchema) {
+            const error = this.validateResult(options.capability, result.data || result.text);
+            return error ? { ok: false, error } : { ok: true, result };
+        }
+
+        // Prefer text - some handlers put metadata (citations etc.) in data
+        const parsed = parseStructuredOutput(result.text || result.data, options.responseSchema);
+        if (!parsed.ok) {
+            return {
+                ok: false,
+                error: `Response does not match schema: ${parsed.errors.slice(0, 5).join('; ')}`,
+                schemaErrors: parsed.errors,
+            };
+        }
+        return { ok: true, result: { ...result, data: parsed.data } };
+    }
+
+    /**
+     * Append schema instructions for handlers that cannot enforce it natively
+     */
+    private withResponseSchema(handler: CapabilityHandler, options: ExecuteOptions): ExecuteOptions {
+        if (!options.responseSchema || handler.structuredOutput) return options;
+        return { ...options, prompt: options.prompt + buildSchemaInstruction(options.responseSchema) };
+    }
+
+    private outputText(result: ExecuteResult): string {
+        if (result.text) return result.text;
+        return typeof result.data === 'string' ? result.data : JSON.stringify(result.data ?? '');
+    }
+
     /**
      * Validate result based on capability type
      */
@@ -481,7 +1014,7 @@ export class CapabilityExecutor {
         const messageLevel = levels.indexOf(level);
 
         if (messageLevel <= currentLevel && this.config.logToConsole) {
-            console.log(message);
+            console.log(redactSecrets(message));
         }
     }
 
@@ -489,6 +1022,10 @@ export class CapabilityExecutor {
      * Log diagnostics for analysis
      */
     private logDiagnostics(diagnostics: ProviderDiagnostics): void {
+        // Provider errors can echo request URLs and keys; redact in place so
+        // the diagnostics returned to callers are clean too
+        diagnostics.errors = diagnostics.errors.map(redactSecrets);
+        if (diagnostics.rawResponse) diagnostics.rawResponse = redactSecrets(diagnostics.rawResponse);
         this.diagnosticsLog.push(diagnostics);
 
         if (this.config.onDiagnostics) {
@@ -31,6 +31,14 @@ export {
     type ExecutorConfig,
 } from './CapabilityExecutor';
 
+// Structured output (ExecuteOptions.responseSchema)
+export {
+    parseStructuredOutput,
+    toJsonSchema,
+    type ResponseSchema,
+    type JsonSchema,
+} from './structuredOutput';
+
 // Types
 export type {
     Capability,
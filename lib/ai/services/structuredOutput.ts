@@ -0,0 +1,203 @@
+/**
+ * Structured Output - JSON schema enforcement for capabilities
+ *
+ * ExecuteOptions.responseSchema accepts either a plain JSON Schema object or
+ * a zod schema (same style as lib/config/schemas.ts). Handlers that support
+ * native structured output (structuredOutput: true) receive the JSON Schema
+ * via toJsonSchema(); everyone else gets schema instructions appended to the
+ * prompt. Either way CapabilityExecutor parses and validates the response,
+ * and re-prompts with the validation errors when it does not match.
+ */
+
+import { z } from 'zod';
+
+// ============================================
+// Types
+// ============================================
+
+export type JsonSchema = Record<string, unknown>;
+
+/** JSON Schema object or zod schema */
+export type ResponseSchema = JsonSchema | z.ZodType;
+
+export type StructuredParseResult =
+    | { ok: true; data: unknown }
+    | { ok: false; errors: string[] };
+
+// ============================================
+// Schema conversion
+// ============================================
+
+export function isZodSchema(schema: ResponseSchema): schema is z.ZodType {
+    return typeof (schema as z.ZodType).safeParse === 'function';
+}
+
+/**
+ * JSON Schema for a response schema (zod schemas are converted)
+ */
+export function toJsonSchema(schema: ResponseSchema): JsonSchema {
+    if (!isZodSchema(schema)) return schema;
+
+    // Providers reject the $schema meta key
+    const json = { ...(z.toJSONSchema(schema) as JsonSchema) };
+    delete json.$schema;
+    return json;
+}
+
+/**
+ * Prompt suffix for handlers without native structured output
+ */
+export function buildSchemaInstruction(schema: ResponseSchema): string {
+    return `\n\nRespond with a single JSON value that matches this JSON Schema:
+${JSON.stringify(toJsonSchema(schema), null, 2)}
+
+Output JSON only - no prose, no comments, no code fences.`;
+}
+
+/**
+ * Follow-up prompt asking the model to fix output that failed validation
+ */
+export function buildRepairPrompt(prompt: string, output: string, errors: string[]): string {
+    return `${prompt}
+
+Your previous response did not match the required JSON Schema:
+${output.substring(0, 4000)}
+
+Validation errors:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Return the corrected JSON only.`;
+}
+
+// ============================================
+// Parsing & validation
+// ============================================
+
+/**
+ * Pull a JSON value out of model output (code fences, leading prose)
+ */
+export function extractJson(text: string): unknown {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1].trim() : trimmed;
+
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        // Fall back to the outermost object/array in the text
+    }
+
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+        throw new Error('Response contains no JSON');
+    }
+    return JSON.parse(candidate.substring(start, end + 1));
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+/**
+ * Validate against the JSON Schema subset models are asked to produce:
+ * type, enum, const, required, properties, additionalProperties: false,
+ * items, minItems/maxItems, minLength/maxLength, minimum/maximum, anyOf.
+ */
+export function validateJsonSchema(data: unknown, schema: JsonSchema, path = '$'): string[] {
+    const errors: string[] = [];
+
+    if (Array.isArray(schema.anyOf)) {
+        const matches = (schema.anyOf as JsonSchema[]).some(s => validateJsonSchema(data, s, path).length === 0);
+        return matches ? [] : [`${path}: does not match any allowed schema`];
+    }
+
+    if (schema.type) {
+        const allowed = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+        const actual = typeOf(data);
+        const ok = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+        if (!ok) return [`${path}: expected ${allowed.join(' | ')}, got ${actual}`];
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some(v => v === data)) {
+        errors.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+    if ('const' in schema && schema.const !== data) {
+        errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof data === 'string') {
+        if (typeof schema.minLength === 'number' && data.length < schema.minLength) {
+            errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        }
+        if (typeof schema.maxLength === 'number' && data.length > schema.maxLength) {
+            errors.push(`${path}: longer than ${schema.maxLength} characters`);
+        }
+    }
+
+    if (typeof data === 'number') {
+        if (typeof schema.minimum === 'number' && data < schema.minimum) {
+            errors.push(`${path}: below minimum ${schema.minimum}`);
+        }
+        if (typeof schema.maximum === 'number' && data > schema.maximum) {
+            errors.push(`${path}: above maximum ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(data)) {
+        if (typeof schema.minItems === 'number' && data.length < schema.minItems) {
+            errors.push(`${path}: needs at least ${schema.minItems} items, got ${data.length}`);
+        }
+        if (typeof schema.maxItems === 'number' && data.length > schema.maxItems) {
+            errors.push(`${path}: allows at most ${schema.maxItems} items, got ${data.length}`);
+        }
+        if (schema.items && typeof schema.items === 'object') {
+            data.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${i}]`)));
+        }
+    }
+
+    if (typeOf(data) === 'object') {
+        const obj = data as Record<string, unknown>;
+        const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+
+        for (const key of (schema.required as string[] | undefined) || []) {
+            if (obj[key] === undefined) errors.push(`${path}.${key}: is required`);
+        }
+        for (const [key, value] of Object.entries(obj)) {
+            if (properties[key]) {
+                errors.push(...validateJsonSchema(value, properties[key], `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: is not allowed`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Parse handler output (text or already-parsed data) and validate it
+ */
+export function parseStructuredOutput(output: unknown, schema: ResponseSchema): StructuredParseResult {
+    let data: unknown = output;
+    if (typeof output === 'string') {
+        try {
+            data = extractJson(output);
+        } catch (error) {
+            return { ok: false, errors: [error instanceof Error ? error.message : 'Response is not valid JSON'] };
+        }
+    }
+
+    if (isZodSchema(schema)) {
+        const result = schema.safeParse(data);
+        return result.success
+            ? { ok: true, data: result.data }
+            : { ok: false, errors: result.error.issues.map(i => `$${i.path.map(p => `.${String(p)}`).join('')}: ${i.message}`) };
+    }
+
+    const errors = validateJsonSchema(data, schema);
+    return errors.length === 0 ? { ok: true, data } : { ok: false, errors };
+}
@@ -11,6 +11,7 @@
 
 // Import from single source of truth
 import { TextProviderId } from '../types/providers';
+import type { ResponseSchema } from './structuredOutput';
 
 /**
  * Supported AI provider IDs for type-safe key management
@@ -120,6 +121,13 @@ export const DEFAULT_CAPABILITIES: Omit<Capability, 'isEnabled' | 'defaultHandle
         icon: 'Code',
         isDefault: true,
     },
+    {
+        id: 'embed',
+        name: 'Text Embeddings',
+        description: 'Vector embeddings for semantic similarity (duplicate detection)',
+        icon: 'Binary',
+        isDefault: true,
+    },
     // Hunt Feature Capabilities
     {
         id: 'trend-scan',
@@ -255,6 +263,12 @@ export interface CapabilityHandler {
 
     // The actual execution function (set at runtime)
     execute?: (options: ExecuteOptions) => Promise<ExecuteResult>;
+
+    // Optional token streaming (CapabilityExecutor.executeStream); yields text deltas
+    stream?: (options: ExecuteOptions) => AsyncGenerator<string, void, unknown>;
+
+    // Enforces options.responseSchema natively (no schema instructions added to the prompt)
+    structuredOutput?: boolean;
 }
 
 // ============================================
@@ -271,6 +285,9 @@ export interface ExecuteOptions {
     useFallback?: boolean;           // Allow fallback chain (default: true)
     maxRetries?: number;             // Retry count (default: 2)
     timeout?: number;                // Timeout in ms
+    campaignId?: string;             // Attributes spend to a campaign budget
+    bypassCache?: boolean;           // Skip the response cache (output must be fresh)
+    signal?: AbortSignal;            // Cancels a streaming execution mid-flight
 
     // Progress callbacks for real-time status
     onProgress?: (status: {
@@ -289,8 +306,7 @@ export interface ExecuteOptions {
     maxTokens?: number;
     temperature?: number;
     systemPrompt?: string;
-    structured?: boolean;            // Request structured JSON output
-    schema?: Record<string, unknown>; // JSON schema for structured output
+    responseSchema?: ResponseSchema; // JSON/zod schema - result.data holds the validated JSON
 }
 
 export interface ExecuteResult {
@@ -309,6 +325,12 @@ export interface ExecuteResult {
     // Rate limit flag (for retry logic)
     isRateLimited?: boolean;
 
+    // Refused or no handler fit within the configured spend budgets
+    budgetBlocked?: boolean;
+
+    // Streaming execution stopped by the caller (text holds the partial output)
+    cancelled?: boolean;
+
     // Per-handler errors (for debugging when all handlers fail)
     handlerErrors?: Record<string, string>; // Map of handlerId -> actual error message
 
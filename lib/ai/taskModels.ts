@@ -7,6 +7,9 @@
  * - Site planning (reasoning capability)
  * - Research queries (web search)
  * 
+ * Any task can be assigned to the 'local' provider (Ollama or another
+ * OpenAI-compatible server) for offline, cost-free generation.
+ * 
  * Persisted to localStorage
  */
 
@@ -43,7 +46,7 @@ export const TASK_DESCRIPTIONS: Record<TaskType, { name: string; description: st
     seoMetadata: {
         name: 'SEO Metadata',
         description: 'Titles, descriptions, meta tags',
-        recommendation: 'Fast models work well (DeepSeek Chat, Gemini Flash)'
+        recommendation: 'Fast models work well (DeepSeek Chat, Gemini Flash, local Llama/Qwen)'
     },
     sitePlanning: {
         name: 'Site Planning',
@@ -53,7 +56,7 @@ export const TASK_DESCRIPTIONS: Record<TaskType, { name: string; description: st
     imagePrompts: {
         name: 'Image Prompts',
         description: 'Generating prompts for cover images',
-        recommendation: 'Any capable model works'
+        recommendation: 'Any capable model works - a local model keeps this free'
     },
     researchQueries: {
         name: 'Research Queries',
@@ -140,6 +143,18 @@ export function hasTaskModel(taskType: TaskType): boolean {
     return config[taskType] !== null;
 }
 
+/**
+ * Providers that run without network keys or per-token cost
+ */
+export const COST_FREE_PROVIDERS: ProviderId[] = ['local'];
+
+/**
+ * Check if a task is assigned to an offline, cost-free model
+ */
+export function isCostFreeAssignment(assignment: TaskModelAssignment | null): boolean {
+    return !!assignment && COST_FREE_PROVIDERS.includes(assignment.providerId);
+}
+
 /**
  * Get all task types as array
  */
@@ -15,19 +15,19 @@
  * Unique identifier for each AI provider.
  * This is the canonical definition - all other modules re-export from here.
  */
-export type ProviderId = 'gemini' | 'deepseek' | 'openrouter' | 'perplexity' | 'vercel';
+export type ProviderId = 'gemini' | 'deepseek' | 'openrouter' | 'perplexity' | 'vercel' | 'local';
 
 /**
  * Provider IDs that support text generation (excludes vercel gateway)
  */
-export type TextProviderId = 'gemini' | 'deepseek' | 'openrouter' | 'perplexity';
+export type TextProviderId = 'gemini' | 'deepseek' | 'openrouter' | 'perplexity' | 'local';
 
 /**
  * Array of all provider IDs for iteration
  */
-export const ALL_PROVIDER_IDS: ProviderId[] = ['gemini', 'deepseek', 'openrouter', 'perplexity', 'vercel'];
+export const ALL_PROVIDER_IDS: ProviderId[] = ['gemini', 'deepseek', 'openrouter', 'perplexity', 'vercel', 'local'];
 
 /**
  * Array of text provider IDs for iteration
  */
-export const TEXT_PROVIDER_IDS: TextProviderId[] = ['gemini', 'deepseek', 'openrouter', 'perplexity'];
+export const TEXT_PROVIDER_IDS: TextProviderId[] = ['gemini', 'deepseek', 'openrouter', 'perplexity', 'local'];
@@ -53,7 +53,8 @@ const PRICING: Record<ProviderId, { input: number; output: number }> = {
     deepseek: { input: 0.28, output: 0.42 },   // V3 pricing
     openrouter: { input: 0.10, output: 0.10 }, // Varies by model
     perplexity: { input: 1.00, output: 1.00 }, // Sonar pricing
-    vercel: { input: 0.50, output: 0.50 }      // Gateway average
+    vercel: { input: 0.50, output: 0.50 },     // Gateway average
+    local: { input: 0, output: 0 }             // Own hardware
 };
 
 // ============================================
@@ -4,9 +4,12 @@
  * 
  * Standalone backup utilities for settings.
  * Separated from settingsStore to maintain clean data/feature separation.
+ * Downloaded backups are sealed with the server's secrets vault when it has
+ * a master key, and plain exports otherwise.
  */
 
 import { useSettingsStore, type ExportedSettings } from '@/stores/settingsStore';
+import { getVaultStatus, openExport, sealExport } from '@/lib/security/secretsClient';
 
 // ============================================================================
 // Export Functions
@@ -21,15 +24,34 @@ export function exportSettingsToJson(): ExportedSettings {
 }
 
 /**
- * Export settings and trigger browser download
+ * Export settings with the profile sealed by the secrets vault. Without
+ * SECRETS_MASTER_KEY the profile is exported in plain text, as the server
+ * backup does.
  */
-export function downloadSettingsBackup(): void {
+export async function exportEncryptedSettings(): Promise<ExportedSettings> {
     const exportData = exportSettingsToJson();
+    const { profile, ...header } = exportData;
 
-    if (!exportData.profile) {
+    if (!profile) {
         throw new Error('No settings to export');
     }
 
+    if (!(await getVaultStatus()).configured) {
+        return exportData;
+    }
+
+    return {
+        ...header,
+        encrypted: await sealExport(JSON.stringify({ profile })),
+    };
+}
+
+/**
+ * Export encrypted settings and trigger browser download
+ */
+export async function downloadSettingsBackup(): Promise<void> {
+    const exportData = await exportEncryptedSettings();
+
     const jsonString = JSON.stringify(exportData, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -45,10 +67,14 @@ export function downloadSettingsBackup(): void {
 // ============================================================================
 
 /**
- * Import settings from JSON object
+ * Import settings from JSON object (plain or encrypted export)
  * Writes to Data Storage
  */
-export function importSettingsFromJson(data: ExportedSettings): { success: boolean; restored: number } {
+export async function importSettingsFromJson(data: ExportedSettings): Promise<{ success: boolean; restored: number }> {
+    if (data.encrypted) {
+        const { profile } = JSON.parse(await openExport(data.encrypted)) as Pick<ExportedSettings, 'profile'>;
+        return useSettingsStore.getState().importSettings({ ...data, encrypted: undefined, profile });
+    }
     return useSettingsStore.getState().importSettings(data);
 }
 
@@ -94,7 +120,7 @@ export async function restoreFromServer(): Promise<boolean> {
         const data = await res.json();
 
         if (data.success && data.hasBackup && data.backup?.profile) {
-            importSettingsFromJson({
+            await importSettingsFromJson({
                 version: '4.0.0',
                 exportedAt: new Date().toISOString(),
                 app: 'AdSense Ifrit V3',
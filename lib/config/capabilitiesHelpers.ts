@@ -26,6 +26,7 @@ export const DEFAULT_CAPABILITIES: Array<{
         { id: 'images', name: 'Images', description: 'Generate or find images', icon: 'image' },
         { id: 'reasoning', name: 'Reasoning', description: 'Complex reasoning and analysis', icon: 'brain' },
         { id: 'code', name: 'Code', description: 'Generate or analyze code', icon: 'code' },
+        { id: 'embed', name: 'Embeddings', description: 'Vector embeddings for semantic similarity', icon: 'binary' },
 
         // E-E-A-T & Quality Capabilities
         { id: 'eeat-scoring', name: 'E-E-A-T Scoring', description: 'Score content for Experience, Expertise, Authority, Trust', icon: 'shield-check' },
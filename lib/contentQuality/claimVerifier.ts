@@ -0,0 +1,346 @@
+/**
+ * Claim Verifier
+ * FSD: lib/contentQuality/claimVerifier.ts
+ *
+ * Claim-level fact checking against the research a piece was written from.
+ * Each atomic claim in the HTML is matched to the closest research passage,
+ * labelled supported / contradicted / unverifiable, and the HTML is repaired:
+ * contradicted claims are rewritten (or removed) and supported claims without
+ * a source link get an inline citation to the passage's source URL.
+ */
+
+import { classifyClaim, type ExtractedClaim } from './factChecker';
+import { extractCitations } from './citationValidator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ClaimVerdict = 'supported' | 'contradicted' | 'unverifiable';
+
+/**
+ * What was done to the claim in the published HTML
+ */
+export type ClaimResolution = 'kept' | 'cited' | 'rewritten' | 'removed';
+
+/**
+ * Single verifiable sentence (or clause) from the content
+ */
+export interface AtomicClaim {
+    id: string;
+    text: string;                        // Plain text as it appears in the HTML
+    category: ExtractedClaim['category'];
+    hasCitation: boolean;                // Its paragraph already links an external source
+}
+
+/**
+ * Research sentence a claim can be checked against
+ */
+export interface EvidencePassage {
+    text: string;
+    sourceUrl?: string;                  // Citation URL the passage is attributed to
+    sourceIndex?: number;                // 1-based position in research citations
+}
+
+/**
+ * Claim table row
+ */
+export interface ClaimCheck {
+    id: string;
+    claim: string;
+    category: ExtractedClaim['category'];
+    verdict: ClaimVerdict;
+    confidence: number;                  // 0-1 overlap with the evidence
+    reason: string;
+    evidence?: EvidencePassage;
+    hadCitation: boolean;
+    resolution: ClaimResolution;
+    revisedText?: string;                // Replacement for a contradicted claim
+}
+
+/**
+ * Result of a claim-level fact check
+ */
+export interface ClaimCheckReport {
+    checks: ClaimCheck[];
+    supported: number;
+    contradicted: number;
+    unverifiable: number;
+    citationsAdded: number;
+    rewritten: number;
+    removed: number;
+    passagesSearched: number;
+    checkedAt: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const SUPPORT_THRESHOLD = 0.6;           // Share of claim terms found in the passage
+const RELATED_THRESHOLD = 0.45;          // Same subject - enough to contradict on numbers
+const MAX_CLAIMS = 25;
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'from', 'have', 'has',
+    'had', 'been', 'their', 'they', 'them', 'than', 'then', 'into', 'about', 'which', 'while',
+    'will', 'would', 'can', 'could', 'also', 'more', 'most', 'some', 'such', 'its', 'our',
+    'your', 'you', 'who', 'what', 'when', 'where', 'how', 'all', 'any', 'each', 'per', 'but',
+    'not', 'according',
+]);
+
+const NEGATION = /\b(?:not|no|never|none|cannot|without)\b|n't\b/i;
+const BLOCK_PATTERN = /<(p|li|td|blockquote)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+const SENTENCE_SPLIT = /(?<=[.!?]["”]?(?:\[\d+\])*)\s+(?=["“A-Z0-9])/;
+
+// ============================================================================
+// Text Helpers
+// ============================================================================
+
+function plainText(html: string): string {
+    return html.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function terms(text: string): Set<string> {
+    const words = text.toLowerCase().match(/[a-z][a-z'-]+/g) || [];
+    return new Set(
+        words
+            .filter(w => w.length >= 3 && !STOPWORDS.has(w))
+            .map(w => w.replace(/'s$/, '').replace(/s$/, ''))
+    );
+}
+
+function numbers(text: string): Set<number> {
+    const matches = text.match(/\d[\d,]*(?:\.\d+)?/g) || [];
+    return new Set(matches.map(n => parseFloat(n.replace(/,/g, ''))));
+}
+
+function overlap(claimTerms: Set<string>, passageTerms: Set<string>): number {
+    if (claimTerms.size === 0) return 0;
+    let shared = 0;
+    for (const term of claimTerms) {
+        if (passageTerms.has(term)) shared++;
+    }
+    return shared / claimTerms.size;
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches the claim's plain text in HTML, allowing inline tags anywhere in it
+ */
+function claimPattern(text: string): RegExp {
+    const chars = [...text];
+    const source = chars.map((ch, i) => {
+        if (/\s/.test(ch)) return '(?:\\s|<[^>]+>)+';
+        return escapeRegex(ch) + (i < chars.length - 1 ? '(?:<[^>]+>)*' : '');
+    }).join('');
+    return new RegExp(source);
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Split content into sentence-level claims worth checking: sentences that
+ * match a claim pattern or state a number
+ */
+export function extractAtomicClaims(html: string, maxClaims = MAX_CLAIMS): AtomicClaim[] {
+    const claims: AtomicClaim[] = [];
+    const blockPattern = new RegExp(BLOCK_PATTERN.source, BLOCK_PATTERN.flags);
+    let block;
+
+    while ((block = blockPattern.exec(html)) !== null && claims.length < maxClaims) {
+        const hasCitation = extractCitations(block[2]).some(c => !!c.url);
+        const clauses = plainText(block[2])
+            .split(SENTENCE_SPLIT)
+            .flatMap(sentence => sentence.split(/;\s+/))
+            .map(s => s.trim())
+            .filter(s => s.length > 20);
+
+        for (const text of clauses) {
+            const category = classifyClaim(text) ?? (/\d/.test(text) ? 'statistic' : null);
+            if (!category || claims.some(c => c.text === text)) continue;
+
+            claims.push({ id: `claim_${claims.length + 1}`, text, category, hasCitation });
+            if (claims.length >= maxClaims) break;
+        }
+    }
+
+    return claims;
+}
+
+/**
+ * Split research text into sentences attributed to their citation.
+ * Perplexity-style markers ([1], [2][3]) point into `citations`; with a single
+ * citation every passage is attributed to it.
+ */
+export function buildEvidencePassages(researchText: string, citations: string[] = []): EvidencePassage[] {
+    return plainText(researchText)
+        .split(SENTENCE_SPLIT)
+        .map(sentence => {
+            const marker = sentence.match(/\[(\d+)\]/);
+            const index = marker ? Number(marker[1]) : citations.length === 1 ? 1 : undefined;
+            const sourceUrl = index ? citations[index - 1] : undefined;
+            return {
+                text: sentence.replace(/\s*\[\d+\]/g, '').trim(),
+                sourceUrl,
+                sourceIndex: sourceUrl ? index : undefined,
+            };
+        })
+        .filter(p => p.text.length > 20);
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Label one claim against the research passages
+ */
+export function verifyClaim(claim: AtomicClaim, passages: EvidencePassage[]): ClaimCheck {
+    const base = {
+        id: claim.id,
+        claim: claim.text,
+        category: claim.category,
+        hadCitation: claim.hasCitation,
+        resolution: 'kept' as const,
+    };
+    const claimTerms = terms(claim.text);
+    const claimNumbers = numbers(claim.text);
+    const claimNegated = NEGATION.test(claim.text);
+
+    const ranked = passages
+        .map(passage => ({ passage, score: overlap(claimTerms, terms(passage.text)) }))
+        .filter(r => r.score >= RELATED_THRESHOLD)
+        .sort((a, b) => b.score - a.score);
+
+    let conflict: { passage: EvidencePassage; score: number; reason: string } | undefined;
+
+    for (const { passage, score } of ranked) {
+        const passageNumbers = numbers(passage.text);
+        const missing = [...claimNumbers].filter(n => !passageNumbers.has(n));
+        const extra = [...passageNumbers].filter(n => !claimNumbers.has(n));
+
+        // A missing number only conflicts when the passage states a different one
+        if (missing.length > 0 && extra.length > 0) {
+            conflict ??= { passage, score, reason: `Source states ${extra.join(', ')} where the claim says ${missing.join(', ')}` };
+            continue;
+        }
+        if (score >= SUPPORT_THRESHOLD && NEGATION.test(passage.text) !== claimNegated) {
+            conflict ??= { passage, score, reason: 'Source states the opposite' };
+            continue;
+        }
+        if (score >= SUPPORT_THRESHOLD) {
+            return {
+                ...base,
+                verdict: 'supported',
+                confidence: Math.round(score * 100) / 100,
+                reason: passage.sourceUrl ? 'Matches cited research' : 'Matches research notes',
+                evidence: passage,
+            };
+        }
+    }
+
+    if (conflict) {
+        return {
+            ...base,
+            verdict: 'contradicted',
+            confidence: Math.round(conflict.score * 100) / 100,
+            reason: conflict.reason,
+            evidence: conflict.passage,
+        };
+    }
+
+    const closest = ranked[0];
+    return {
+        ...base,
+        verdict: 'unverifiable',
+        confidence: closest ? Math.round(closest.score * 100) / 100 : 0,
+        reason: 'No research passage covers this claim',
+    };
+}
+
+/**
+ * Extract and label every claim in the content
+ */
+export function verifyClaims(
+    html: string,
+    research: { text: string; citations?: string[] },
+    maxClaims = MAX_CLAIMS
+): ClaimCheck[] {
+    const passages = buildEvidencePassages(research.text, research.citations);
+    return extractAtomicClaims(html, maxClaims).map(claim => verifyClaim(claim, passages));
+}
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+function citationMarkup(evidence: EvidencePassage): string {
+    return `<sup class="claim-citation"><a href="${evidence.sourceUrl}" target="_blank" rel="noopener nofollow">[${evidence.sourceIndex}]</a></sup>`;
+}
+
+/**
+ * Apply the fact check to the HTML: contradicted claims are replaced by their
+ * `revisedText` or removed, supported claims without a source get a citation.
+ * Returns the repaired HTML and the checks with their resolution filled in.
+ */
+export function applyClaimRepairs(html: string, checks: ClaimCheck[]): { content: string; checks: ClaimCheck[] } {
+    let content = html;
+
+    const resolved = checks.map((check): ClaimCheck => {
+        const match = claimPattern(check.claim).exec(content);
+        if (!match) return check;
+
+        const before = content.slice(0, match.index);
+        const after = content.slice(match.index + match[0].length);
+
+        if (check.verdict === 'contradicted') {
+            if (check.revisedText) {
+                content = before + check.revisedText + after;
+                return { ...check, resolution: 'rewritten' };
+            }
+            content = before.replace(/[ \t]+$/, '') + after.replace(/^[ \t]+/, before.endsWith('>') ? '' : ' ');
+            return { ...check, resolution: 'removed' };
+        }
+
+        if (check.verdict === 'supported' && !check.hadCitation && check.evidence?.sourceUrl) {
+            content = before + match[0] + citationMarkup(check.evidence) + after;
+            return { ...check, resolution: 'cited' };
+        }
+
+        return check;
+    });
+
+    // Drop blocks emptied by removals
+    content = content.replace(/<(p|li)\b[^>]*>\s*<\/\1>\s*/gi, '');
+
+    return { content, checks: resolved };
+}
+
+/**
+ * Summarize checks into the report attached to the review item
+ */
+export function summarizeClaimChecks(
+    checks: ClaimCheck[],
+    passagesSearched: number,
+    checkedAt = Date.now()
+): ClaimCheckReport {
+    const count = (predicate: (c: ClaimCheck) => boolean) => checks.filter(predicate).length;
+
+    return {
+        checks,
+        supported: count(c => c.verdict === 'supported'),
+        contradicted: count(c => c.verdict === 'contradicted'),
+        unverifiable: count(c => c.verdict === 'unverifiable'),
+        citationsAdded: count(c => c.resolution === 'cited'),
+        rewritten: count(c => c.resolution === 'rewritten'),
+        removed: count(c => c.resolution === 'removed'),
+        passagesSearched,
+        checkedAt,
+    };
+}
@@ -143,6 +143,17 @@ const CLAIM_PATTERNS = [
     { pattern: /(causes?|prevents?|cures?|treats?)\s+\w+/gi, category: 'claim' as const },
 ];
 
+/**
+ * Category of the first claim pattern a sentence matches, or null
+ */
+export function classifyClaim(sentence: string): ExtractedClaim['category'] | null {
+    for (const { pattern, category } of CLAIM_PATTERNS) {
+        pattern.lastIndex = 0; // Global patterns keep state between test() calls
+        if (pattern.test(sentence)) return category;
+    }
+    return null;
+}
+
 /**
  * Extract verifiable claims from content
  */
@@ -153,19 +164,15 @@ export function extractClaims(html: string): ExtractedClaim[] {
 
     for (const sentence of sentences) {
         const trimmed = sentence.trim();
-
-        for (const { pattern, category } of CLAIM_PATTERNS) {
-            if (pattern.test(trimmed)) {
-                // Avoid duplicates
-                if (!claims.some(c => c.text === trimmed)) {
-                    claims.push({
-                        text: trimmed.substring(0, 300),
-                        confidence: 0.7,
-                        category,
-                    });
-                }
-                break;
-            }
+        const category = classifyClaim(trimmed);
+
+        // Avoid duplicates
+        if (category && !claims.some(c => c.text === trimmed)) {
+            claims.push({
+                text: trimmed.substring(0, 300),
+                confidence: 0.7,
+                category,
+            });
         }
     }
 
@@ -86,9 +86,31 @@ export type {
 
 export {
     extractClaims,
+    classifyClaim,
     searchFactChecks,
     checkClaim,
     factCheckContent,
     quickFactCheckScore,
 } from './factChecker';
 
+// ============================================================================
+// Claim Verification (against research citations)
+// ============================================================================
+
+export type {
+    ClaimVerdict,
+    ClaimResolution,
+    AtomicClaim,
+    EvidencePassage,
+    ClaimCheck,
+    ClaimCheckReport,
+} from './claimVerifier';
+
+export {
+    extractAtomicClaims,
+    buildEvidencePassages,
+    verifyClaim,
+    verifyClaims,
+    applyClaimRepairs,
+    summarizeClaimChecks,
+} from './claimVerifier';
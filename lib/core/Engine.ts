@@ -287,7 +287,15 @@ export class IfritEngine {
         // import { responseCache } from '@/lib/ai/cache/responseCache';
         // We will assume responseCache is globally available or imported at top
         const { responseCache } = await import('@/lib/ai/cache/responseCache');
-        const cachedResult = responseCache.get(capability, options.prompt, options.model);
+        const cacheKey = {
+            capability,
+            prompt: options.prompt,
+            systemPrompt: options.systemPrompt,
+            model: options.model,
+            temperature: options.temperature,
+            maxTokens: options.maxTokens,
+        };
+        const cachedResult = options.bypassCache ? null : responseCache.get(cacheKey);
         if (cachedResult) {
             cachedResult.latencyMs = Date.now() - startTime;
             this.emit({ type: 'execution-complete', result: cachedResult, cached: true });
@@ -308,7 +316,9 @@ export class IfritEngine {
                         : undefined;
 
                     // Cache successful result
-                    responseCache.set(capability, options.prompt, result, options.model);
+                    if (!options.bypassCache) {
+                        responseCache.set(cacheKey, result);
+                    }
 
                     this.emit({ type: 'execution-complete', result });
                     return result;
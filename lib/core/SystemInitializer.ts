@@ -57,6 +57,15 @@ export async function initializeSystemHandlers(): Promise<void> {
         console.log('[SystemInitializer] OpenRouter handlers registered:', openrouterHandlers.length);
     } catch (e) { console.warn('[SystemInitializer] OpenRouter handlers not available:', e); }
 
+    // Register local model handlers (Ollama / OpenAI-compatible servers)
+    try {
+        const { localHandlers } = await import('@/lib/ai/providers/local/capabilities');
+        for (const handler of localHandlers) {
+            engine.registerHandler(handler);
+        }
+        console.log('[SystemInitializer] Local model handlers registered:', localHandlers.length);
+    } catch (e) { console.warn('[SystemInitializer] Local model handlers not available:', e); }
+
     // Register handlers from existing modules
     try {
         const { imageSearchHandlers } = await import('@/lib/ai/handlers/imageSearchHandlers');
@@ -0,0 +1,89 @@
+/**
+ * Server-Side A/B Test Store
+ *
+ * File-based persistence for A/B experiments, so impressions and clicks
+ * ingested by the assignment route and the WordPress webhook accumulate on
+ * one record. Files live under .data/ab-tests next to the pipeline store.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ABTest } from '@/features/campaigns/lib/abTesting';
+
+// ============ Paths ============
+
+function getStoreDir(): string {
+    return path.join(process.cwd(), '.data', 'ab-tests');
+}
+
+function getTestsPath(): string {
+    return path.join(getStoreDir(), 'tests.json');
+}
+
+// ============ File Helpers ============
+
+function readTests(): ABTest[] {
+    const filePath = getTestsPath();
+    if (!fs.existsSync(filePath)) return [];
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ABTest[];
+    } catch (error) {
+        console.error(`[ABTestStore] Failed to read ${filePath}:`, error);
+        return [];
+    }
+}
+
+function writeTests(tests: ABTest[]): void {
+    const filePath = getTestsPath();
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(tests, null, 2));
+    fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Comparable site URL: no protocol, www or trailing slash
+ */
+function normalizeSiteUrl(url: string): string {
+    return url.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+// ============ Tests ============
+
+export function listABTests(): ABTest[] {
+    return readTests().sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function getABTest(id: string): ABTest | null {
+    return readTests().find(t => t.id === id) || null;
+}
+
+export function saveABTest(test: ABTest): void {
+    const tests = readTests().filter(t => t.id !== test.id);
+    tests.push({ ...test, updatedAt: Date.now() });
+    writeTests(tests);
+}
+
+export function deleteABTest(id: string): boolean {
+    const tests = readTests();
+    const remaining = tests.filter(t => t.id !== id);
+    if (remaining.length === tests.length) return false;
+    writeTests(remaining);
+    return true;
+}
+
+/**
+ * Latest running or completed test for a post on a site (matched by URL,
+ * since the connector and static templates only know their own address)
+ */
+export function findABTestForPost(siteUrl: string, postId: number): ABTest | null {
+    const site = normalizeSiteUrl(siteUrl);
+    return listABTests().find(t =>
+        t.postId === postId &&
+        t.status !== 'paused' &&
+        !!t.siteUrl && normalizeSiteUrl(t.siteUrl) === site
+    ) || null;
+}
@@ -0,0 +1,112 @@
+/**
+ * Server-Side Budget Store
+ *
+ * File-based persistence for AI spend budgets: the rules configured in
+ * Settings and the spend ledger CapabilityExecutor appends to after each
+ * call. Files live under .data/budgets next to the pipeline store.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    createBudgetGuard,
+    validateBudgetRule,
+    type BudgetGuard,
+    type BudgetRule,
+    type BudgetStore,
+    type SpendRecord,
+} from '@/lib/ai/budgets';
+
+// ============ Paths ============
+
+/** Ledger keeps a little over one monthly period */
+const SPEND_RETENTION_MS = 40 * 24 * 60 * 60 * 1000;
+
+function getStoreDir(): string {
+    return path.join(process.cwd(), '.data', 'budgets');
+}
+
+function getRulesPath(): string {
+    return path.join(getStoreDir(), 'rules.json');
+}
+
+function getSpendPath(): string {
+    return path.join(getStoreDir(), 'spend.json');
+}
+
+// ============ File Helpers ============
+
+function readJson<T>(filePath: string, fallback: T): T {
+    if (!fs.existsSync(filePath)) return fallback;
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+    } catch (error) {
+        console.error(`[BudgetStore] Failed to read ${filePath}:`, error);
+        return fallback;
+    }
+}
+
+function writeJson(filePath: string, data: unknown): void {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, filePath);
+}
+
+// ============ Rules ============
+
+export function getBudgetRules(): BudgetRule[] {
+    return readJson<BudgetRule[]>(getRulesPath(), []);
+}
+
+/**
+ * Replace all rules. Returns validation errors instead of saving when any rule is invalid.
+ */
+export function saveBudgetRules(rules: BudgetRule[]): { success: boolean; errors: string[] } {
+    const errors = rules.flatMap(rule =>
+        validateBudgetRule(rule).map(error => `${rule.scope} ${rule.target || '?'}: ${error}`)
+    );
+    if (errors.length > 0) {
+        return { success: false, errors };
+    }
+
+    writeJson(getRulesPath(), rules);
+    return { success: true, errors: [] };
+}
+
+// ============ Spend Ledger ============
+
+export function listSpendRecords(since = 0): SpendRecord[] {
+    return readJson<SpendRecord[]>(getSpendPath(), []).filter(r => r.timestamp >= since);
+}
+
+export function recordSpend(record: SpendRecord): void {
+    const cutoff = Date.now() - SPEND_RETENTION_MS;
+    const records = readJson<SpendRecord[]>(getSpendPath(), []).filter(r => r.timestamp >= cutoff);
+    records.push(record);
+    writeJson(getSpendPath(), records);
+}
+
+// ============ Guard ============
+
+export const fileBudgetStore: BudgetStore = {
+    getRules: getBudgetRules,
+    listSpend: listSpendRecords,
+    recordSpend,
+};
+
+let serverGuard: BudgetGuard | null = null;
+
+/**
+ * Guard for CapabilityExecutor in API routes (shared so soft-limit
+ * warnings are logged once per rule per period).
+ */
+export function getServerBudgetGuard(): BudgetGuard {
+    if (!serverGuard) {
+        serverGuard = createBudgetGuard(fileBudgetStore);
+    }
+    return serverGuard;
+}
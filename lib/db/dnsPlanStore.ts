@@ -0,0 +1,73 @@
+/**
+ * Server-Side DNS Plan Store
+ *
+ * File-based persistence for desired-state DNS plans (one per domain) and
+ * their latest drift check, so the scheduled drift check can run without a
+ * browser.
+ *
+ * Files live under .data/dns next to the pipeline store.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DnsPlan, DriftReport } from '@/lib/dns/dnsPlan';
+
+// ============ Paths ============
+
+function getPlansPath(): string {
+    return path.join(process.cwd(), '.data', 'dns', 'plans.json');
+}
+
+// ============ File Helpers ============
+
+function readPlans(): DnsPlan[] {
+    const filePath = getPlansPath();
+    if (!fs.existsSync(filePath)) return [];
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as DnsPlan[];
+    } catch (error) {
+        console.error(`[DnsPlanStore] Failed to read ${filePath}:`, error);
+        return [];
+    }
+}
+
+function writePlans(plans: DnsPlan[]): void {
+    const filePath = getPlansPath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(plans, null, 2));
+    fs.renameSync(tmpPath, filePath);
+}
+
+// ============ Plans ============
+
+export function listDnsPlans(): DnsPlan[] {
+    return readPlans().sort((a, b) => a.domain.localeCompare(b.domain));
+}
+
+export function getDnsPlan(domain: string): DnsPlan | null {
+    return readPlans().find(p => p.domain === domain.toLowerCase()) || null;
+}
+
+export function saveDnsPlan(plan: DnsPlan): void {
+    const plans = readPlans().filter(p => p.domain !== plan.domain);
+    plans.push(plan);
+    writePlans(plans);
+}
+
+export function deleteDnsPlan(domain: string): boolean {
+    const plans = readPlans();
+    const remaining = plans.filter(p => p.domain !== domain.toLowerCase());
+    if (remaining.length === plans.length) return false;
+    writePlans(remaining);
+    return true;
+}
+
+/**
+ * Store the latest drift check (and apply time) without touching the records
+ */
+export function recordDnsCheck(domain: string, check: DriftReport, appliedAt?: number): void {
+    const plan = getDnsPlan(domain);
+    if (!plan) return;
+    saveDnsPlan({ ...plan, lastCheck: check, ...(appliedAt ? { lastAppliedAt: appliedAt } : {}) });
+}
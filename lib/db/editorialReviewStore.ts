@@ -0,0 +1,183 @@
+/**
+ * Server-Side Editorial Review Store
+ *
+ * File-based persistence for review items, reviewers, comments and the
+ * review audit log, so the review queue no longer lives only in browser
+ * storage. The audit log is append-only JSON lines; each entry carries the
+ * hash of the previous one and verifyAuditLog() detects any rewrite.
+ *
+ * Files live under .data/editorial next to the pipeline store.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ReviewItem } from '@/features/editorial/model/reviewTypes';
+import type {
+    AuditEntry,
+    AuditEntryInput,
+    Reviewer,
+    ReviewComment,
+} from '@/features/editorial/model/workflowTypes';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// ============ Paths ============
+
+function getStoreDir(): string {
+    return path.join(process.cwd(), '.data', 'editorial');
+}
+
+function getItemsPath(): string {
+    return path.join(getStoreDir(), 'items.json');
+}
+
+function getReviewersPath(): string {
+    return path.join(getStoreDir(), 'reviewers.json');
+}
+
+function getCommentsPath(): string {
+    return path.join(getStoreDir(), 'comments.json');
+}
+
+function getAuditPath(): string {
+    return path.join(getStoreDir(), 'audit.jsonl');
+}
+
+// ============ File Helpers ============
+
+function readJson<T>(filePath: string, fallback: T): T {
+    if (!fs.existsSync(filePath)) return fallback;
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+    } catch (error) {
+        console.error(`[EditorialReviewStore] Failed to read ${filePath}:`, error);
+        return fallback;
+    }
+}
+
+function ensureDir(filePath: string): void {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+}
+
+function writeJson(filePath: string, data: unknown): void {
+    ensureDir(filePath);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, filePath);
+}
+
+export function hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// ============ Review Items ============
+
+export function listReviewItems(): ReviewItem[] {
+    return readJson<ReviewItem[]>(getItemsPath(), []).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getReviewItem(id: string): ReviewItem | null {
+    return readJson<ReviewItem[]>(getItemsPath(), []).find(i => i.id === id) || null;
+}
+
+export function saveReviewItem(item: ReviewItem): void {
+    const items = readJson<ReviewItem[]>(getItemsPath(), []).filter(i => i.id !== item.id);
+    items.push(item);
+    writeJson(getItemsPath(), items);
+}
+
+// ============ Reviewers ============
+
+export function listReviewers(): Reviewer[] {
+    return readJson<Reviewer[]>(getReviewersPath(), []);
+}
+
+export function getReviewer(id: string): Reviewer | null {
+    return listReviewers().find(r => r.id === id) || null;
+}
+
+export function saveReviewer(reviewer: Reviewer): void {
+    const reviewers = listReviewers().filter(r => r.id !== reviewer.id);
+    reviewers.push(reviewer);
+    writeJson(getReviewersPath(), reviewers);
+}
+
+// ============ Comments ============
+
+export function listComments(itemId: string): ReviewComment[] {
+    return readJson<ReviewComment[]>(getCommentsPath(), [])
+        .filter(c => c.itemId === itemId)
+        .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function saveComment(comment: ReviewComment): void {
+    const comments = readJson<ReviewComment[]>(getCommentsPath(), []).filter(c => c.id !== comment.id);
+    comments.push(comment);
+    writeJson(getCommentsPath(), comments);
+}
+
+// ============ Audit Log ============
+
+function readAuditLog(): AuditEntry[] {
+    const filePath = getAuditPath();
+    if (!fs.existsSync(filePath)) return [];
+    return fs.readFileSync(filePath, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as AuditEntry);
+}
+
+function entryHash(entry: Omit<AuditEntry, 'hash'>): string {
+    const { id, seq, itemId, at, actorId, actorName, role, action, details, contentHash, prevHash } = entry;
+    return hashContent(JSON.stringify([id, seq, itemId, at, actorId, actorName, role ?? null, action, details ?? null, contentHash ?? null, prevHash]));
+}
+
+/**
+ * Append an entry to the audit log. There is no update or delete.
+ */
+export function appendAuditEntry(input: AuditEntryInput): AuditEntry {
+    const log = readAuditLog();
+    const last = log[log.length - 1];
+    const seq = last ? last.seq + 1 : 1;
+
+    const unsigned = {
+        ...input,
+        id: `audit_${seq}_${input.at}`,
+        seq,
+        prevHash: last ? last.hash : GENESIS_HASH,
+    };
+    const entry: AuditEntry = { ...unsigned, hash: entryHash(unsigned) };
+
+    const filePath = getAuditPath();
+    ensureDir(filePath);
+    fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`);
+    return entry;
+}
+
+export function listAuditEntries(itemId?: string): AuditEntry[] {
+    const log = readAuditLog();
+    return itemId ? log.filter(e => e.itemId === itemId) : log;
+}
+
+/**
+ * Recompute the hash chain; brokenAt is the first entry whose hash or link
+ * no longer matches
+ */
+export function verifyAuditLog(): { valid: boolean; entries: number; brokenAt?: number } {
+    const log = readAuditLog();
+    let prevHash = GENESIS_HASH;
+
+    for (const entry of log) {
+        const { hash, ...unsigned } = entry;
+        if (entry.prevHash !== prevHash || entryHash(unsigned) !== hash) {
+            return { valid: false, entries: log.length, brokenAt: entry.seq };
+        }
+        prevHash = hash;
+    }
+
+    return { valid: true, entries: log.length };
+}
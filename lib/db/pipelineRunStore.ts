@@ -0,0 +1,487 @@
+/**
+ * Server-Side Pipeline Run Store
+ *
+ * File-based persistence for campaign pipeline runs, so work started by
+ * the cron routes survives a crashed or restarted Node process:
+ * - Checkpoints: full PipelineContext + StageResult map per item
+ * - Runs: CampaignRun / RunItem history
+ * - Queue: run items with leases; an expired lease means the worker died
+ *   and the item is handed to the next worker, which resumes from its checkpoint.
+ *   Every queue read-modify-write holds queue.json.lock, so cron routes in
+ *   separate processes can't lease the same item.
+ *
+ * Files live under .data/pipeline next to settings.db.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CampaignRun, RunItem, SourceItem } from '@/features/campaigns/model/types';
+import type { Checkpoint, CheckpointStore } from '@/features/campaigns/lib/pipeline/types';
+
+// ============ Types ============
+
+export type RunQueueStatus = 'queued' | 'leased' | 'completed' | 'failed';
+
+export interface RunQueueEntry {
+    id: string;
+    campaignId: string;
+    runId: string;
+    sourceItem: SourceItem;
+    status: RunQueueStatus;
+    attempts: number;
+    maxAttempts: number;
+    leaseOwner?: string;
+    leaseExpiresAt?: number;
+    notBefore?: number;                 // Retry backoff: not leased before this time
+    lastError?: string;
+    enqueuedAt: number;
+    updatedAt: number;
+}
+
+export const DEFAULT_LEASE_MS = 10 * 60 * 1000;   // 10 minutes
+export const DEFAULT_RETRY_BACKOFF_MS = 60 * 1000;   // doubled per attempt
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_RETRY_BACKOFF_MS = 60 * 60 * 1000;
+
+const LOCK_STALE_MS = 30 * 1000;
+const LOCK_TIMEOUT_MS = 10 * 1000;
+const LOCK_RETRY_MS = 25;
+
+// ============ Paths ============
+
+function getStoreDir(): string {
+    return path.join(process.cwd(), '.data', 'pipeline');
+}
+
+function getRunsDir(): string {
+    return path.join(getStoreDir(), 'runs');
+}
+
+function getCheckpointsDir(): string {
+    return path.join(getStoreDir(), 'checkpoints');
+}
+
+function getQueuePath(): string {
+    return path.join(getStoreDir(), 'queue.json');
+}
+
+function getQueueLockPath(): string {
+    return `${getQueuePath()}.lock`;
+}
+
+function safeName(value: string): string {
+    return value.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 120);
+}
+
+function getCheckpointPath(campaignId: string, itemId: string): string {
+    return path.join(getCheckpointsDir(), `${safeName(campaignId)}__${safeName(itemId)}.json`);
+}
+
+function getRunPath(runId: string): string {
+    return path.join(getRunsDir(), `${safeName(runId)}.json`);
+}
+
+// ============ File Helpers ============
+
+function readJson<T>(filePath: string): T | null {
+    if (!fs.existsSync(filePath)) return null;
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+    } catch (error) {
+        console.error(`[PipelineRunStore] Failed to read ${filePath}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Write via temp file + rename so a crash mid-write never leaves a
+ * truncated JSON file behind.
+ */
+function writeJson(filePath: string, data: unknown): void {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, filePath);
+}
+
+function listJsonFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+        .filter(f => f.endsWith('.json'))
+        .map(f => path.join(dir, f));
+}
+
+// ============ Checkpoints ============
+
+/**
+ * Durable checkpoint backend for runPipeline({ checkpointStore }).
+ */
+export const fileCheckpointStore: CheckpointStore = {
+    save(checkpoint) {
+        writeJson(getCheckpointPath(checkpoint.campaignId, checkpoint.itemId), checkpoint);
+    },
+
+    load(campaignId, itemId) {
+        return readJson<Checkpoint>(getCheckpointPath(campaignId, itemId));
+    },
+
+    clear(campaignId, itemId) {
+        const filePath = getCheckpointPath(campaignId, itemId);
+        if (fs.existsSync(filePath)) {
+            fs.unlinkSync(filePath);
+        }
+    },
+
+    list() {
+        return listJsonFiles(getCheckpointsDir())
+            .map(f => readJson<Checkpoint>(f))
+            .filter((c): c is Checkpoint => c !== null);
+    },
+};
+
+// ============ Run History ============
+
+export function saveRunRecord(run: CampaignRun): void {
+    writeJson(getRunPath(run.id), run);
+}
+
+export function getRunRecord(runId: string): CampaignRun | null {
+    return readJson<CampaignRun>(getRunPath(runId));
+}
+
+export function listRunRecords(campaignId?: string, limit = 50): CampaignRun[] {
+    return listJsonFiles(getRunsDir())
+        .map(f => readJson<CampaignRun>(f))
+        .filter((r): r is CampaignRun => r !== null && (!campaignId || r.campaignId === campaignId))
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(0, limit);
+}
+
+export function updateRunRecord(runId: string, updates: Partial<CampaignRun>): CampaignRun | null {
+    const run = getRunRecord(runId);
+    if (!run) return null;
+
+    const updated = { ...run, ...updates };
+    saveRunRecord(updated);
+    return updated;
+}
+
+/**
+ * Insert or replace a RunItem (matched by id) on a stored run.
+ */
+export function upsertRunItem(runId: string, item: RunItem): CampaignRun | null {
+    const run = getRunRecord(runId);
+    if (!run) return null;
+
+    const exists = run.items.some(i => i.id === item.id);
+    const items = exists
+        ? run.items.map(i => (i.id === item.id ? { ...i, ...item } : i))
+        : [...run.items, item];
+
+    return updateRunRecord(runId, { items });
+}
+
+// ============ Run Queue ============
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function readLockToken(filePath: string): string | null {
+    try {
+        return fs.readFileSync(filePath, 'utf-8');
+    } catch {
+        return null;
+    }
+}
+
+// Token of the lock this process holds while a queue update runs (updates are synchronous)
+let heldLockToken: string | null = null;
+
+/**
+ * Move a stale lock out of the way. The lock is renamed to a name only this
+ * caller uses and checked against the token that was seen as stale; if a
+ * fresh lock was moved instead (another process took over first), it is
+ * put back.
+ */
+function breakStaleLock(lockPath: string, staleToken: string, ownToken: string): void {
+    const moved = `${lockPath}.${ownToken.replace(/[^a-zA-Z0-9]/g, '_')}.stale`;
+    try {
+        fs.renameSync(lockPath, moved);
+    } catch {
+        return;     // Released or broken by someone else
+    }
+
+    if (readLockToken(moved) !== staleToken) {
+        try {
+            fs.linkSync(moved, lockPath);
+        } catch {
+            // Someone locked in between; the displaced owner's save check now fails
+        }
+    }
+    fs.rmSync(moved, { force: true });
+}
+
+/**
+ * Run a queue read-modify-write under an exclusive lock file holding the
+ * owner's pid and a random token. A lock left behind by a crashed process
+ * is broken once it is LOCK_STALE_MS old, and saveQueue() refuses to write
+ * unless the lock file still holds this caller's token.
+ */
+async function withQueueLock<T>(fn: () => T): Promise<T> {
+    const lockPath = getQueueLockPath();
+    const dir = path.dirname(lockPath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).substring(2, 10)}`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+        try {
+            fs.writeFileSync(lockPath, token, { flag: 'wx' });
+            break;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        }
+
+        const staleToken = readLockToken(lockPath);
+        let stale = false;
+        try {
+            stale = staleToken !== null && Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+        } catch {
+            continue;   // Released between open and stat
+        }
+
+        if (stale) {
+            breakStaleLock(lockPath, staleToken!, token);
+            continue;
+        }
+        if (Date.now() > deadline) {
+            throw new Error('[PipelineRunStore] Timed out waiting for the run queue lock');
+        }
+        await sleep(LOCK_RETRY_MS);
+    }
+
+    heldLockToken = token;
+    try {
+        return fn();
+    } finally {
+        heldLockToken = null;
+        if (readLockToken(lockPath) === token) {
+            fs.rmSync(lockPath, { force: true });
+        }
+    }
+}
+
+function loadQueue(): RunQueueEntry[] {
+    return readJson<RunQueueEntry[]>(getQueuePath()) || [];
+}
+
+function saveQueue(queue: RunQueueEntry[]): void {
+    if (!heldLockToken || readLockToken(getQueueLockPath()) !== heldLockToken) {
+        throw new Error('[PipelineRunStore] Run queue lock was lost; update discarded');
+    }
+    writeJson(getQueuePath(), queue);
+}
+
+function isLeaseExpired(entry: RunQueueEntry, now: number): boolean {
+    return entry.status === 'leased' && (entry.leaseExpiresAt ?? 0) <= now;
+}
+
+function isReady(entry: RunQueueEntry, now: number): boolean {
+    return entry.status === 'queued' && (entry.notBefore ?? 0) <= now;
+}
+
+export async function enqueueRunItems(
+    campaignId: string,
+    runId: string,
+    sourceItems: SourceItem[],
+    maxAttempts = DEFAULT_MAX_ATTEMPTS
+): Promise<RunQueueEntry[]> {
+    const now = Date.now();
+
+    const entries: RunQueueEntry[] = sourceItems.map((sourceItem, i) => ({
+        id: `rq_${now}_${i}_${Math.random().toString(36).substring(2, 8)}`,
+        campaignId,
+        runId,
+        sourceItem,
+        status: 'queued',
+        attempts: 0,
+        maxAttempts,
+        enqueuedAt: now,
+        updatedAt: now,
+    }));
+
+    await withQueueLock(() => saveQueue([...loadQueue(), ...entries]));
+    return entries;
+}
+
+/**
+ * Lease the oldest available item. Items whose lease expired (worker crashed
+ * mid-pipeline) are re-leased before fresh ones so interrupted work finishes first,
+ * unless they have used up their attempts - those are marked failed instead.
+ * Queued retries wait until their notBefore time.
+ */
+export function leaseNextRunItem(
+    workerId: string,
+    leaseMs = DEFAULT_LEASE_MS,
+    now = Date.now()
+): Promise<RunQueueEntry | null> {
+    return withQueueLock(() => {
+        const queue = loadQueue();
+        let changed = false;
+
+        for (const entry of queue) {
+            if (isLeaseExpired(entry, now) && entry.attempts >= entry.maxAttempts) {
+                entry.status = 'failed';
+                entry.lastError = `Lease expired after ${entry.attempts} attempt(s)${entry.lastError ? `: ${entry.lastError}` : ''}`;
+                entry.leaseOwner = undefined;
+                entry.leaseExpiresAt = undefined;
+                entry.updatedAt = now;
+                changed = true;
+            }
+        }
+
+        const candidate =
+            queue.find(e => isLeaseExpired(e, now)) ||
+            queue.find(e => isReady(e, now));
+
+        if (candidate) {
+            candidate.status = 'leased';
+            candidate.leaseOwner = workerId;
+            candidate.leaseExpiresAt = now + leaseMs;
+            candidate.notBefore = undefined;
+            candidate.attempts++;
+            candidate.updatedAt = now;
+            changed = true;
+        }
+
+        if (changed) {
+            saveQueue(queue);
+        }
+        return candidate ?? null;
+    });
+}
+
+/**
+ * Extend a lease while a long pipeline is still making progress.
+ * Returns false if the lease was lost to another worker.
+ */
+export function renewRunItemLease(
+    entryId: string,
+    workerId: string,
+    leaseMs = DEFAULT_LEASE_MS,
+    now = Date.now()
+): Promise<boolean> {
+    return withQueueLock(() => {
+        const queue = loadQueue();
+        const entry = queue.find(e => e.id === entryId);
+        if (!entry || entry.status !== 'leased' || entry.leaseOwner !== workerId) return false;
+
+        entry.leaseExpiresAt = now + leaseMs;
+        entry.updatedAt = now;
+        saveQueue(queue);
+        return true;
+    });
+}
+
+export function completeRunItem(entryId: string, workerId: string): Promise<boolean> {
+    return withQueueLock(() => {
+        const queue = loadQueue();
+        const entry = queue.find(e => e.id === entryId);
+        if (!entry || entry.leaseOwner !== workerId) return false;
+
+        entry.status = 'completed';
+        entry.leaseOwner = undefined;
+        entry.leaseExpiresAt = undefined;
+        entry.updatedAt = Date.now();
+        saveQueue(queue);
+        return true;
+    });
+}
+
+/**
+ * Record a failure. The item goes back to the queue until maxAttempts is reached,
+ * becoming leasable again after backoffMs, doubled for every attempt already made.
+ */
+export function failRunItem(
+    entryId: string,
+    workerId: string,
+    error: string,
+    backoffMs = DEFAULT_RETRY_BACKOFF_MS,
+    now = Date.now()
+): Promise<RunQueueEntry | null> {
+    return withQueueLock(() => {
+        const queue = loadQueue();
+        const entry = queue.find(e => e.id === entryId);
+        if (!entry || entry.leaseOwner !== workerId) return null;
+
+        const willRetry = entry.attempts < entry.maxAttempts;
+        entry.status = willRetry ? 'queued' : 'failed';
+        entry.notBefore = willRetry
+            ? now + Math.min(backoffMs * 2 ** (entry.attempts - 1), MAX_RETRY_BACKOFF_MS)
+            : undefined;
+        entry.lastError = error;
+        entry.leaseOwner = undefined;
+        entry.leaseExpiresAt = undefined;
+        entry.updatedAt = now;
+        saveQueue(queue);
+        return entry;
+    });
+}
+
+/**
+ * Mark every waiting item of a campaign as failed (e.g. campaign paused on error).
+ * Leased items are left alone; their worker finishes or the lease expires.
+ */
+export function cancelQueuedRunItems(campaignId: string, reason = 'Cancelled'): Promise<number> {
+    return withQueueLock(() => {
+        const queue = loadQueue();
+        let cancelled = 0;
+
+        for (const entry of queue) {
+            if (entry.campaignId === campaignId && entry.status === 'queued') {
+                entry.status = 'failed';
+                entry.notBefore = undefined;
+                entry.lastError = reason;
+                entry.updatedAt = Date.now();
+                cancelled++;
+            }
+        }
+
+        if (cancelled > 0) {
+            saveQueue(queue);
+        }
+        return cancelled;
+    });
+}
+
+export function listRunQueue(filter?: { campaignId?: string; status?: RunQueueStatus }): RunQueueEntry[] {
+    return loadQueue().filter(e =>
+        (!filter?.campaignId || e.campaignId === filter.campaignId) &&
+        (!filter?.status || e.status === filter.status)
+    );
+}
+
+/**
+ * Drop finished entries older than the given age.
+ */
+export function pruneRunQueue(olderThanMs = 7 * 24 * 60 * 60 * 1000): Promise<number> {
+    return withQueueLock(() => {
+        const queue = loadQueue();
+        const cutoff = Date.now() - olderThanMs;
+        const kept = queue.filter(e =>
+            !((e.status === 'completed' || e.status === 'failed') && e.updatedAt < cutoff)
+        );
+
+        if (kept.length !== queue.length) {
+            saveQueue(kept);
+        }
+        return queue.length - kept.length;
+    });
+}
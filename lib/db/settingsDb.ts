@@ -6,10 +6,15 @@
  * 
  * This solves the wiring issue where client settings (localStorage)
  * weren't accessible from server API routes.
+ *
+ * Provider keys and integration secrets are sealed with the secrets vault
+ * (lib/security/secretsVault.ts); rows written before the vault existed are
+ * re-encrypted when the database opens.
  */
 
 import Database from 'better-sqlite3';
 import path from 'path';
+import { isSealed, openSecret, rotateSealedSecret, sealIfConfigured } from '@/lib/security/secretsVault';
 
 // Database instance (singleton)
 let db: Database.Database | null = null;
@@ -65,9 +70,20 @@ function getDb(): Database.Database {
             model TEXT NOT NULL,
             updated_at INTEGER DEFAULT (unixepoch())
         );
+        
+        CREATE TABLE IF NOT EXISTS integration_secrets (
+            name TEXT PRIMARY KEY,
+            value TEXT NOT NULL,
+            updated_at INTEGER DEFAULT (unixepoch())
+        );
     `);
 
     console.log('[SettingsDB] Initialized at:', dbPath);
+
+    const migrated = migrateSecrets(db);
+    if (migrated.sealed || migrated.rewrapped) {
+        console.log(`[SettingsDB] Secrets migrated: ${migrated.sealed} encrypted, ${migrated.rewrapped} re-wrapped`);
+    }
     return db;
 }
 
@@ -196,16 +212,24 @@ export function setSetting(key: string, value: string): void {
 export function getProviderKey(providerId: string): string | undefined {
     const db = getDb();
     const row = db.prepare(`SELECT api_key FROM provider_keys WHERE provider_id = ?`).get(providerId) as { api_key: string } | undefined;
-    return row?.api_key;
+    return row ? openSecret(row.api_key, `provider_keys:${providerId}`) : undefined;
 }
 
+/**
+ * All provider keys that can be opened. A row the vault can't open (wrong
+ * master key, corrupted) is logged and skipped so the other providers keep working.
+ */
 export function getAllProviderKeys(): Record<string, string> {
     const db = getDb();
     const rows = db.prepare(`SELECT provider_id, api_key FROM provider_keys`).all() as { provider_id: string; api_key: string }[];
 
     const result: Record<string, string> = {};
     for (const row of rows) {
-        result[row.provider_id] = row.api_key;
+        try {
+            result[row.provider_id] = openSecret(row.api_key, `provider_keys:${row.provider_id}`);
+        } catch (error) {
+            console.error(`[SettingsDB] Could not open provider key provider_keys:${row.provider_id}:`, error instanceof Error ? error.message : error);
+        }
     }
     return result;
 }
@@ -218,7 +242,89 @@ export function setProviderKey(providerId: string, apiKey: string): void {
         ON CONFLICT(provider_id) DO UPDATE SET
             api_key = excluded.api_key,
             updated_at = unixepoch()
-    `).run(providerId, apiKey);
+    `).run(providerId, sealIfConfigured(apiKey, `provider_keys:${providerId}`));
+}
+
+// ============ Integration Secrets ============
+
+export function getIntegrationSecrets(names: string[]): Record<string, string> {
+    const db = getDb();
+    const result: Record<string, string> = {};
+    const select = db.prepare(`SELECT value FROM integration_secrets WHERE name = ?`);
+
+    for (const name of names) {
+        const row = select.get(name) as { value: string } | undefined;
+        if (row) result[name] = openSecret(row.value, `integration_secrets:${name}`);
+    }
+    return result;
+}
+
+export function getIntegrationSecret(name: string): string | undefined {
+    return getIntegrationSecrets([name])[name];
+}
+
+export function listIntegrationSecretNames(): string[] {
+    const db = getDb();
+    return (db.prepare(`SELECT name FROM integration_secrets ORDER BY name`).all() as { name: string }[]).map(r => r.name);
+}
+
+export function setIntegrationSecret(name: string, value: string): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO integration_secrets (name, value, updated_at)
+        VALUES (?, ?, unixepoch())
+        ON CONFLICT(name) DO UPDATE SET
+            value = excluded.value,
+            updated_at = unixepoch()
+    `).run(name, sealIfConfigured(value, `integration_secrets:${name}`));
+}
+
+export function deleteIntegrationSecret(name: string): void {
+    const db = getDb();
+    db.prepare(`DELETE FROM integration_secrets WHERE name = ?`).run(name);
+}
+
+// ============ Secrets Migration ============
+
+export interface SecretsMigrationResult {
+    sealed: number;       // Plaintext rows encrypted
+    rewrapped: number;    // Rows moved to the current master key version
+    failed: string[];     // Rows that could not be opened (missing retired key)
+}
+
+/**
+ * Encrypt plaintext secret rows and re-wrap rows sealed under a retired
+ * master key. Idempotent; a no-op without SECRETS_MASTER_KEY.
+ */
+export function migrateSecrets(database: Database.Database = getDb()): SecretsMigrationResult {
+    const result: SecretsMigrationResult = { sealed: 0, rewrapped: 0, failed: [] };
+    const tables = [
+        { table: 'provider_keys', id: 'provider_id', value: 'api_key' },
+        { table: 'integration_secrets', id: 'name', value: 'value' },
+    ];
+
+    const migrate = database.transaction(() => {
+        for (const { table, id, value } of tables) {
+            const rows = database.prepare(`SELECT ${id} AS id, ${value} AS value FROM ${table}`).all() as { id: string; value: string }[];
+            const update = database.prepare(`UPDATE ${table} SET ${value} = ?, updated_at = unixepoch() WHERE ${id} = ?`);
+
+            for (const row of rows) {
+                try {
+                    const next = rotateSealedSecret(row.value, `${table}:${row.id}`);
+                    if (next === null) continue;
+                    update.run(next, row.id);
+                    if (isSealed(row.value)) result.rewrapped++;
+                    else result.sealed++;
+                } catch (error) {
+                    result.failed.push(`${table}:${row.id}`);
+                    console.error(`[SettingsDB] Could not migrate secret ${table}:${row.id}:`, error instanceof Error ? error.message : error);
+                }
+            }
+        }
+    });
+
+    migrate();
+    return result;
 }
 
 // ============ Selected Models ============
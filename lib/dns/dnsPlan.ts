@@ -0,0 +1,287 @@
+/**
+ * DNS Plans
+ * FSD: lib/dns/dnsPlan.ts
+ *
+ * Desired-state DNS per domain. A plan is derived from the site's hosting
+ * target and its email setup (EmailDNSConfig) plus any custom records, and is
+ * diffed against the live zone:
+ * - adds:    planned records missing from the zone
+ * - changes: live records in a planned slot with the wrong value
+ * - deletes: live records that conflict with the plan (a stray apex A, a
+ *            second SPF, MX hosts of a previous mail provider)
+ * Records the plan says nothing about are never touched.
+ *
+ * Isomorphic: the diff runs in the browser for previews and on the server for
+ * apply and drift checks.
+ */
+
+import type { EmailDNSConfig } from '@/lib/domains/emailDeliverability';
+import { VERCEL_DNS_RECORDS, type DNSProvider, type DNSRecord } from './dnsProviders';
+import type { ManagedDnsRecord } from './providers/types';
+import { isSameRecord, normalizeValue, occupiesSameSlot, toRelativeHost, txtTag } from './records';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HostingTarget =
+    | { type: 'vercel' }
+    | { type: 'hostinger'; ip: string }
+    | { type: 'none' };
+
+export interface PlannedRecord extends DNSRecord {
+    source: 'hosting' | 'email' | 'custom';
+    purpose?: string;
+}
+
+export interface DriftReport {
+    checkedAt: number;
+    inSync: boolean;
+    missing: number;
+    changed: number;
+    unexpected: number;
+    fingerprint: string;
+    summary: string;
+    error?: string;
+}
+
+export interface DnsPlan {
+    domain: string;
+    siteId?: string;
+    provider: DNSProvider;
+    hosting: HostingTarget;
+    records: PlannedRecord[];
+    createdAt: number;
+    updatedAt: number;
+    lastAppliedAt?: number;
+    lastCheck?: DriftReport;
+}
+
+export interface DnsPlanInput {
+    domain: string;
+    siteId?: string;
+    provider: DNSProvider;
+    hosting: HostingTarget;
+    email?: EmailDNSConfig | null;
+    custom?: DNSRecord[];
+}
+
+export interface DnsDiff {
+    adds: PlannedRecord[];
+    changes: Array<{ from: ManagedDnsRecord; to: PlannedRecord }>;
+    deletes: ManagedDnsRecord[];
+    unchanged: PlannedRecord[];
+    inSync: boolean;
+    /** Identifies this exact set of changes; apply must confirm it */
+    fingerprint: string;
+}
+
+export class DnsPlanError extends Error {
+    constructor(
+        message: string,
+        public code: 'invalid_plan' | 'not_found' | 'stale_confirmation'
+    ) {
+        super(message);
+        this.name = 'DnsPlanError';
+    }
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * Web records for a hosting target
+ */
+export function hostingRecords(target: HostingTarget, domain: string): DNSRecord[] {
+    switch (target.type) {
+        case 'vercel':
+            return VERCEL_DNS_RECORDS;
+        case 'hostinger':
+            if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(target.ip || '')) {
+                throw new DnsPlanError('Hostinger hosting needs the server IPv4 address', 'invalid_plan');
+            }
+            return [
+                { type: 'A', host: '@', value: target.ip, ttl: 3600 },
+                { type: 'CNAME', host: 'www', value: domain.toLowerCase(), ttl: 3600 },
+            ];
+        default:
+            return [];
+    }
+}
+
+/**
+ * A live record that cannot stay next to a planned one
+ */
+function conflicts(live: DNSRecord, planned: DNSRecord): boolean {
+    if (live.host !== planned.host) return false;
+
+    const web = ['A', 'AAAA', 'CNAME'];
+    switch (planned.type) {
+        case 'CNAME':
+            return web.includes(live.type);
+        case 'A':
+        case 'AAAA':
+            return live.type === planned.type || live.type === 'CNAME';
+        case 'TXT': {
+            const tag = txtTag(planned.value);
+            return live.type === 'TXT' && tag !== null && txtTag(live.value) === tag;
+        }
+        case 'MX':
+            // The planned mail provider owns the host's MX records
+            return live.type === 'MX';
+        default:
+            return false;
+    }
+}
+
+function plannedKey(record: DNSRecord): string {
+    return `${record.type}|${record.host}|${record.type === 'TXT' ? record.value : record.value.toLowerCase()}`;
+}
+
+/**
+ * Derive the desired records for a domain. Later sources win a shared slot
+ * (custom over email over hosting).
+ */
+export function buildDnsPlan(input: DnsPlanInput, previous?: DnsPlan | null): DnsPlan {
+    const domain = input.domain.trim().toLowerCase();
+    if (!domain.includes('.')) {
+        throw new DnsPlanError(`Invalid domain: ${input.domain}`, 'invalid_plan');
+    }
+
+    const normalize = (record: DNSRecord, source: PlannedRecord['source'], purpose?: string): PlannedRecord => ({
+        type: record.type,
+        host: toRelativeHost(record.host, domain),
+        value: normalizeValue(record.type, record.value),
+        ttl: record.ttl,
+        ...(record.type === 'MX' ? { priority: record.priority ?? 10 } : {}),
+        source,
+        ...(purpose ? { purpose } : {}),
+    });
+
+    const candidates: PlannedRecord[] = [
+        ...hostingRecords(input.hosting, domain).map(r => normalize(r, 'hosting', 'web')),
+        ...(input.email?.records || []).map(r => normalize(
+            { type: r.type, host: r.name, value: r.value, ttl: 3600, priority: r.priority },
+            'email',
+            r.purpose
+        )),
+        ...(input.custom || []).map(r => normalize(r, 'custom')),
+    ];
+
+    let records: PlannedRecord[] = [];
+    for (const record of candidates) {
+        records = records.filter(r => r.source === record.source || !conflicts(r, record));
+        if (!records.some(r => plannedKey(r) === plannedKey(record))) {
+            records.push(record);
+        }
+    }
+
+    const now = Date.now();
+    return {
+        domain,
+        siteId: input.siteId ?? previous?.siteId,
+        provider: input.provider,
+        hosting: input.hosting,
+        records,
+        createdAt: previous?.createdAt ?? now,
+        updatedAt: now,
+        lastAppliedAt: previous?.lastAppliedAt,
+        lastCheck: previous?.lastCheck,
+    };
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function recordLabel(record: DNSRecord): string {
+    const priority = record.type === 'MX' ? ` ${record.priority ?? 10}` : '';
+    return `${record.type} ${record.host}${priority} ${record.value}`;
+}
+
+// FNV-1a; a short stable ID for a change set, not a security measure
+function hashString(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Compare a plan with the live zone
+ */
+export function diffDnsPlan(plan: Pick<DnsPlan, 'records'>, live: ManagedDnsRecord[]): DnsDiff {
+    const claimed = new Set<string>();
+    const unchanged: PlannedRecord[] = [];
+    const pending: PlannedRecord[] = [];
+
+    for (const record of plan.records) {
+        const match = live.find(l => !claimed.has(l.id) && isSameRecord(l, record));
+        if (match) {
+            claimed.add(match.id);
+            unchanged.push(record);
+        } else {
+            pending.push(record);
+        }
+    }
+
+    const adds: PlannedRecord[] = [];
+    const changes: DnsDiff['changes'] = [];
+    for (const record of pending) {
+        const slot = live.find(l => !claimed.has(l.id) && occupiesSameSlot(l, record));
+        if (slot) {
+            claimed.add(slot.id);
+            changes.push({ from: slot, to: record });
+        } else {
+            adds.push(record);
+        }
+    }
+
+    const deletes = live.filter(l => !claimed.has(l.id) && plan.records.some(p => conflicts(l, p)));
+
+    const fingerprint = hashString([
+        ...adds.map(r => `+${recordLabel(r)}`),
+        ...changes.map(c => `~${recordLabel(c.from)}>${recordLabel(c.to)}`),
+        ...deletes.map(r => `-${recordLabel(r)}`),
+    ].sort().join('\n'));
+
+    return {
+        adds,
+        changes,
+        deletes,
+        unchanged,
+        inSync: adds.length === 0 && changes.length === 0 && deletes.length === 0,
+        fingerprint,
+    };
+}
+
+/**
+ * One-line description of a diff, for logs and alerts
+ */
+export function summarizeDiff(diff: DnsDiff): string {
+    if (diff.inSync) return 'in sync with plan';
+
+    const parts: string[] = [];
+    if (diff.adds.length) parts.push(`${diff.adds.length} missing (${diff.adds.map(recordLabel).join(', ')})`);
+    if (diff.changes.length) parts.push(`${diff.changes.length} changed (${diff.changes.map(c => `${recordLabel(c.from)} -> ${c.to.value}`).join(', ')})`);
+    if (diff.deletes.length) parts.push(`${diff.deletes.length} unexpected (${diff.deletes.map(recordLabel).join(', ')})`);
+    return parts.join('; ');
+}
+
+/**
+ * Drift report for a completed diff
+ */
+export function toDriftReport(diff: DnsDiff, checkedAt: number = Date.now()): DriftReport {
+    return {
+        checkedAt,
+        inSync: diff.inSync,
+        missing: diff.adds.length,
+        changed: diff.changes.length,
+        unexpected: diff.deletes.length,
+        fingerprint: diff.fingerprint,
+        summary: summarizeDiff(diff),
+    };
+}
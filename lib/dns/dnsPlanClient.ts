@@ -0,0 +1,88 @@
+/**
+ * DNS Plan Client
+ * FSD: lib/dns/dnsPlanClient.ts
+ *
+ * Browser side of /api/dns/plans, plus surfacing drift found by the
+ * scheduled check in the unified log.
+ */
+
+import { log } from '@/stores/unifiedLogStore';
+import type { DnsDiff, DnsPlan, DnsPlanInput } from './dnsPlan';
+
+const DRIFT_SEEN_KEY = 'ifrit_dns_drift_seen';
+
+export interface DnsPlanApplyResult {
+    plan: DnsPlan;
+    diff: DnsDiff;
+    created: number;
+    updated: number;
+    deleted: number;
+}
+
+async function planRequest<T>(init: RequestInit, query = ''): Promise<T> {
+    const res = await fetch(`/api/dns/plans${query}`, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+        throw new Error(data.error || 'DNS plan request failed');
+    }
+    return data as T;
+}
+
+export async function fetchDnsPlan(domain: string): Promise<DnsPlan | null> {
+    return (await planRequest<{ plan: DnsPlan | null }>({ method: 'GET' }, `?domain=${encodeURIComponent(domain)}`)).plan;
+}
+
+// Build (or rebuild) a domain's plan from its hosting target and email setup
+export async function saveDomainPlan(input: DnsPlanInput): Promise<DnsPlan> {
+    return (await planRequest<{ plan: DnsPlan }>({
+        method: 'POST',
+        body: JSON.stringify({ action: 'save', input }),
+    })).plan;
+}
+
+export async function diffDomainPlan(domain: string): Promise<{ plan: DnsPlan; diff: DnsDiff }> {
+    return planRequest({ method: 'POST', body: JSON.stringify({ action: 'diff', domain }) });
+}
+
+// Apply a reviewed diff; fails if live DNS changed since `diff` was fetched
+export async function applyDomainPlan(domain: string, diff: DnsDiff): Promise<DnsPlanApplyResult> {
+    return planRequest({
+        method: 'POST',
+        body: JSON.stringify({ action: 'apply', domain, confirm: diff.fingerprint }),
+    });
+}
+
+export async function removeDomainPlan(domain: string): Promise<void> {
+    await planRequest({ method: 'DELETE' }, `?domain=${encodeURIComponent(domain)}`);
+}
+
+/**
+ * The drift check runs on the server, so its alerts are copied into this
+ * browser's unified log the first time a plan is loaded after it.
+ */
+export function reportDrift(plan: DnsPlan): void {
+    const check = plan.lastCheck;
+    if (typeof window === 'undefined' || !check || check.inSync) return;
+
+    let seen: Record<string, number> = {};
+    try {
+        seen = JSON.parse(localStorage.getItem(DRIFT_SEEN_KEY) || '{}');
+    } catch {
+        seen = {};
+    }
+    if ((seen[plan.domain] ?? 0) >= check.checkedAt) return;
+
+    log(check.error ? 'error' : 'warn', 'hosting', 'dnsDrift', `DNS drift on ${plan.domain}: ${check.summary}`, {
+        siteId: plan.siteId,
+        metadata: {
+            domain: plan.domain,
+            provider: plan.provider,
+            checkedAt: check.checkedAt,
+        },
+    });
+    seen[plan.domain] = check.checkedAt;
+    localStorage.setItem(DRIFT_SEEN_KEY, JSON.stringify(seen));
+}
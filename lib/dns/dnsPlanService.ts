@@ -0,0 +1,165 @@
+/**
+ * DNS Plan Service
+ * FSD: lib/dns/dnsPlanService.ts
+ *
+ * Server-side: diff stored plans against the live zone, apply a confirmed
+ * diff, and run the scheduled drift check.
+ */
+
+import { log } from '@/stores/unifiedLogStore';
+import { getDnsPlan, listDnsPlans, recordDnsCheck } from '@/lib/db/dnsPlanStore';
+import { diffDnsPlan, DnsPlanError, toDriftReport, type DnsDiff, type DnsPlan, type DriftReport } from './dnsPlan';
+import { createStoredDnsProvider, DnsProviderError } from './providers';
+import type { DnsProvider, DnsZone } from './providers/types';
+
+export interface DnsPlanPreview {
+    plan: DnsPlan;
+    diff: DnsDiff;
+}
+
+export interface DnsPlanApplyResult extends DnsPlanPreview {
+    created: number;
+    updated: number;
+    deleted: number;
+}
+
+export interface DriftCheckResult {
+    domain: string;
+    report: DriftReport;
+    alerted: boolean;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function requirePlan(domain: string): DnsPlan {
+    const plan = getDnsPlan(domain);
+    if (!plan) throw new DnsPlanError(`No DNS plan for ${domain}`, 'not_found');
+    return plan;
+}
+
+async function diffLive(plan: DnsPlan): Promise<{ dns: DnsProvider; zone: DnsZone; diff: DnsDiff }> {
+    const dns = await createStoredDnsProvider(plan.provider);
+    const zone = await dns.getZone(plan.domain);
+    if (!zone) {
+        throw new DnsProviderError(`${plan.domain} has no DNS zone at ${plan.provider}`, plan.provider, 'zone_not_found');
+    }
+    return { dns, zone, diff: diffDnsPlan(plan, await dns.listRecords(zone)) };
+}
+
+/**
+ * Diff a plan against the live zone and store the result as its latest check
+ */
+export async function previewDnsPlan(domain: string): Promise<DnsPlanPreview> {
+    const plan = requirePlan(domain);
+    const { diff } = await diffLive(plan);
+    const lastCheck = toDriftReport(diff);
+    recordDnsCheck(plan.domain, lastCheck);
+    return { plan: { ...plan, lastCheck }, diff };
+}
+
+// ============================================================================
+// Apply
+// ============================================================================
+
+/**
+ * Apply the diff the user reviewed. `confirm` is that diff's fingerprint; if
+ * the zone changed since, nothing is written.
+ */
+export async function applyDnsPlan(domain: string, confirm: string): Promise<DnsPlanApplyResult> {
+    const plan = requirePlan(domain);
+    const { dns, zone, diff } = await diffLive(plan);
+
+    if (diff.fingerprint !== confirm) {
+        throw new DnsPlanError(`Live DNS for ${plan.domain} changed since the diff was reviewed`, 'stale_confirmation');
+    }
+
+    // Sequential, deletes first: a stray CNAME must go before an A record can
+    // take its host, and several providers rewrite a whole set per call
+    for (const record of diff.deletes) {
+        await dns.deleteRecord(zone, record.id);
+    }
+    for (const change of diff.changes) {
+        await dns.updateRecord(zone, change.from.id, change.to);
+    }
+    for (const record of diff.adds) {
+        await dns.createRecord(zone, record);
+    }
+
+    const appliedAt = Date.now();
+    const after = diffDnsPlan(plan, await dns.listRecords(zone));
+    const lastCheck = toDriftReport(after, appliedAt);
+    recordDnsCheck(plan.domain, lastCheck, appliedAt);
+
+    log('info', 'hosting', 'dnsPlan', `Applied DNS plan for ${plan.domain}`, {
+        siteId: plan.siteId,
+        metadata: {
+            created: diff.adds.length,
+            updated: diff.changes.length,
+            deleted: diff.deletes.length,
+            inSync: after.inSync,
+        },
+    });
+
+    return {
+        plan: { ...plan, lastCheck, lastAppliedAt: appliedAt },
+        diff: after,
+        created: diff.adds.length,
+        updated: diff.changes.length,
+        deleted: diff.deletes.length,
+    };
+}
+
+// ============================================================================
+// Drift
+// ============================================================================
+
+/**
+ * Check every plan against its live zone. A drift alert is raised once per
+ * distinct drift, not on every run while it persists.
+ */
+export async function checkDnsDrift(): Promise<DriftCheckResult[]> {
+    const results: DriftCheckResult[] = [];
+
+    for (const plan of listDnsPlans()) {
+        let report: DriftReport;
+        try {
+            report = toDriftReport((await diffLive(plan)).diff);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Drift check failed';
+            report = {
+                checkedAt: Date.now(),
+                inSync: false,
+                missing: 0,
+                changed: 0,
+                unexpected: 0,
+                fingerprint: `error:${message}`,
+                summary: `check failed: ${message}`,
+                error: message,
+            };
+        }
+
+        const previous = plan.lastCheck;
+        const alerted = !report.inSync && (!previous || previous.inSync || previous.fingerprint !== report.fingerprint);
+        if (alerted) {
+            const message = `DNS drift on ${plan.domain}: ${report.summary}`;
+            console.warn(`[DNS Drift] ${message}`);
+            log(report.error ? 'error' : 'warn', 'hosting', 'dnsDrift', message, {
+                siteId: plan.siteId,
+                metadata: {
+                    domain: plan.domain,
+                    provider: plan.provider,
+                    missing: report.missing,
+                    changed: report.changed,
+                    unexpected: report.unexpected,
+                },
+            });
+        }
+
+        recordDnsCheck(plan.domain, report);
+        results.push({ domain: plan.domain, report, alerted });
+    }
+
+    return results;
+}
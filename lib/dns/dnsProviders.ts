@@ -2,11 +2,17 @@
  * DNS Provider Interface
  * 
  * Extensible interface for DNS configuration across different registrars.
- * Currently supports Namecheap, designed for easy extension to others.
+ * Record management runs server-side (/api/dns) through the DnsProvider
+ * implementations in lib/dns/providers. Credentials are kept server-side in
+ * the secrets vault.
  */
 
+import { loadSecrets, migrateLocalSecrets, storeSecrets } from '@/lib/security/secretsClient';
+import type { ApplyRecordsResult } from './records';
+import type { DnsZone, ManagedDnsRecord } from './providers/types';
+
 // Supported DNS providers
-export type DNSProvider = 'namecheap' | 'cloudflare' | 'godaddy' | 'route53';
+export type DNSProvider = 'namecheap' | 'cloudflare' | 'godaddy' | 'route53' | 'hostinger';
 
 // DNS record types
 export interface DNSRecord {
@@ -25,12 +31,28 @@ export interface DNSProviderCredentials {
     namecheapApiKey?: string;
     namecheapUsername?: string;
     namecheapClientIp?: string;
-    // Cloudflare (future)
+    // Cloudflare
     cloudflareApiToken?: string;
     cloudflareZoneId?: string;
-    // GoDaddy (future)
+    // GoDaddy
     godaddyKey?: string;
     godaddySecret?: string;
+    // AWS Route53
+    route53AccessKeyId?: string;
+    route53SecretAccessKey?: string;
+    route53HostedZoneId?: string;
+    // Hostinger
+    hostingerApiToken?: string;
+}
+
+export type DNSCredentialField = Exclude<keyof DNSProviderCredentials, 'provider'>;
+
+// Credential form field
+export interface DNSCredentialFieldInfo {
+    key: DNSCredentialField;
+    label: string;
+    placeholder?: string;
+    secret?: boolean;
 }
 
 // Provider info for UI
@@ -40,7 +62,8 @@ export interface DNSProviderInfo {
     description: string;
     icon: string;
     setupUrl: string;
-    requiredFields: string[];
+    requiredFields: DNSCredentialField[];
+    fields: DNSCredentialFieldInfo[];
     implemented: boolean;
 }
 
@@ -52,7 +75,13 @@ export const DNS_PROVIDERS: DNSProviderInfo[] = [
         description: 'Popular registrar with API access',
         icon: '🛒',
         setupUrl: 'https://ap.www.namecheap.com/settings/tools/apiaccess/',
-        requiredFields: ['apiUser', 'apiKey', 'username', 'clientIp'],
+        requiredFields: ['namecheapApiUser', 'namecheapApiKey'],
+        fields: [
+            { key: 'namecheapApiUser', label: 'API User', placeholder: 'Your Namecheap username' },
+            { key: 'namecheapApiKey', label: 'API Key', placeholder: 'Your API key', secret: true },
+            { key: 'namecheapUsername', label: 'Username (optional)', placeholder: 'Same as API User if blank' },
+            { key: 'namecheapClientIp', label: 'Client IP', placeholder: 'Your whitelisted IP' },
+        ],
         implemented: true,
     },
     {
@@ -61,8 +90,12 @@ export const DNS_PROVIDERS: DNSProviderInfo[] = [
         description: 'Free DNS with CDN and security',
         icon: '☁️',
         setupUrl: 'https://dash.cloudflare.com/profile/api-tokens',
-        requiredFields: ['apiToken', 'zoneId'],
-        implemented: false,
+        requiredFields: ['cloudflareApiToken'],
+        fields: [
+            { key: 'cloudflareApiToken', label: 'API Token', placeholder: 'Token with Zone.DNS edit', secret: true },
+            { key: 'cloudflareZoneId', label: 'Zone ID (optional)', placeholder: 'Looked up by domain if blank' },
+        ],
+        implemented: true,
     },
     {
         id: 'godaddy',
@@ -70,8 +103,12 @@ export const DNS_PROVIDERS: DNSProviderInfo[] = [
         description: 'Large registrar with API',
         icon: '🌐',
         setupUrl: 'https://developer.godaddy.com/keys',
-        requiredFields: ['key', 'secret'],
-        implemented: false,
+        requiredFields: ['godaddyKey', 'godaddySecret'],
+        fields: [
+            { key: 'godaddyKey', label: 'API Key', placeholder: 'Production API key' },
+            { key: 'godaddySecret', label: 'API Secret', placeholder: 'API secret', secret: true },
+        ],
+        implemented: true,
     },
     {
         id: 'route53',
@@ -79,8 +116,25 @@ export const DNS_PROVIDERS: DNSProviderInfo[] = [
         description: 'AWS DNS service',
         icon: '📦',
         setupUrl: 'https://console.aws.amazon.com/route53',
-        requiredFields: ['accessKey', 'secretKey', 'hostedZoneId'],
-        implemented: false,
+        requiredFields: ['route53AccessKeyId', 'route53SecretAccessKey'],
+        fields: [
+            { key: 'route53AccessKeyId', label: 'Access Key ID', placeholder: 'AKIA...' },
+            { key: 'route53SecretAccessKey', label: 'Secret Access Key', placeholder: 'IAM secret', secret: true },
+            { key: 'route53HostedZoneId', label: 'Hosted Zone ID (optional)', placeholder: 'Looked up by domain if blank' },
+        ],
+        implemented: true,
+    },
+    {
+        id: 'hostinger',
+        name: 'Hostinger',
+        description: 'Hosting provider DNS zones',
+        icon: '🟣',
+        setupUrl: 'https://hpanel.hostinger.com/profile/api',
+        requiredFields: ['hostingerApiToken'],
+        fields: [
+            { key: 'hostingerApiToken', label: 'API Token', placeholder: 'hPanel API token', secret: true },
+        ],
+        implemented: true,
     },
 ];
 
@@ -90,80 +144,146 @@ export const VERCEL_DNS_RECORDS: DNSRecord[] = [
     { type: 'CNAME', host: 'www', value: 'cname.vercel-dns.com', ttl: 1800 },
 ];
 
-// Get credentials from localStorage
-export function getDNSCredentials(provider: DNSProvider): DNSProviderCredentials | null {
-    if (typeof window === 'undefined') return null;
+// Vault secret names per provider (the former localStorage keys for Namecheap and Cloudflare)
+const CREDENTIAL_SECRETS: Record<DNSProvider, Partial<Record<DNSCredentialField, string>>> = {
+    namecheap: {
+        namecheapApiUser: 'ifrit_namecheap_user',
+        namecheapApiKey: 'ifrit_namecheap_key',
+        namecheapUsername: 'ifrit_namecheap_username',
+        namecheapClientIp: 'ifrit_namecheap_client_ip',
+    },
+    cloudflare: {
+        cloudflareApiToken: 'ifrit_cloudflare_token',
+        cloudflareZoneId: 'ifrit_cloudflare_zone_id',
+    },
+    godaddy: {
+        godaddyKey: 'ifrit_godaddy_key',
+        godaddySecret: 'ifrit_godaddy_secret',
+    },
+    route53: {
+        route53AccessKeyId: 'ifrit_route53_access_key_id',
+        route53SecretAccessKey: 'ifrit_route53_secret_access_key',
+        route53HostedZoneId: 'ifrit_route53_hosted_zone_id',
+    },
+    hostinger: {
+        hostingerApiToken: 'ifrit_hostinger_token',
+    },
+};
+
+// Vault secret names holding a provider's credentials
+export function getCredentialSecretNames(provider: DNSProvider): string[] {
+    return Object.values(CREDENTIAL_SECRETS[provider] || {}) as string[];
+}
+
+// Build credentials from opened vault secrets (null when required fields are missing)
+export function credentialsFromSecrets(
+    provider: DNSProvider,
+    secrets: Record<string, string>
+): DNSProviderCredentials | null {
+    const fields = CREDENTIAL_SECRETS[provider];
+    const info = DNS_PROVIDERS.find(p => p.id === provider);
+    if (!fields || !info) return null;
 
     const credentials: DNSProviderCredentials = { provider };
+    for (const [field, name] of Object.entries(fields) as [DNSCredentialField, string][]) {
+        if (secrets[name]) credentials[field] = secrets[name];
+    }
+
+    if (info.requiredFields.some(field => !credentials[field])) return null;
 
-    switch (provider) {
-        case 'namecheap':
-            const apiUser = localStorage.getItem('ifrit_namecheap_user');
-            const apiKey = localStorage.getItem('ifrit_namecheap_key');
-            const username = localStorage.getItem('ifrit_namecheap_username');
-            const clientIp = localStorage.getItem('ifrit_namecheap_client_ip');
-
-            if (!apiUser || !apiKey) return null;
-
-            credentials.namecheapApiUser = apiUser;
-            credentials.namecheapApiKey = apiKey;
-            credentials.namecheapUsername = username || apiUser;
-            credentials.namecheapClientIp = clientIp || '';
-            break;
-
-        case 'cloudflare':
-            const cfToken = localStorage.getItem('ifrit_cloudflare_token');
-            if (!cfToken) return null;
-            credentials.cloudflareApiToken = cfToken;
-            break;
-
-        // Add other providers as needed
-        default:
-            return null;
+    if (provider === 'namecheap') {
+        credentials.namecheapUsername = credentials.namecheapUsername || credentials.namecheapApiUser;
+        credentials.namecheapClientIp = credentials.namecheapClientIp || '';
     }
 
     return credentials;
 }
 
-// Save credentials to localStorage
-export function saveDNSCredentials(credentials: DNSProviderCredentials): void {
+// Get credentials from the secrets vault (moves any left in localStorage first)
+export async function getDNSCredentials(provider: DNSProvider): Promise<DNSProviderCredentials | null> {
+    if (typeof window === 'undefined') return null;
+
+    const names = getCredentialSecretNames(provider);
+    if (names.length === 0) return null;
+
+    await migrateLocalSecrets(names);
+    return credentialsFromSecrets(provider, await loadSecrets(names));
+}
+
+// Save credentials to the secrets vault
+export async function saveDNSCredentials(credentials: DNSProviderCredentials): Promise<void> {
     if (typeof window === 'undefined') return;
 
-    switch (credentials.provider) {
-        case 'namecheap':
-            if (credentials.namecheapApiUser) {
-                localStorage.setItem('ifrit_namecheap_user', credentials.namecheapApiUser);
-            }
-            if (credentials.namecheapApiKey) {
-                localStorage.setItem('ifrit_namecheap_key', credentials.namecheapApiKey);
-            }
-            if (credentials.namecheapUsername) {
-                localStorage.setItem('ifrit_namecheap_username', credentials.namecheapUsername);
-            }
-            if (credentials.namecheapClientIp) {
-                localStorage.setItem('ifrit_namecheap_client_ip', credentials.namecheapClientIp);
-            }
-            break;
-
-        case 'cloudflare':
-            if (credentials.cloudflareApiToken) {
-                localStorage.setItem('ifrit_cloudflare_token', credentials.cloudflareApiToken);
-            }
-            break;
+    const fields = CREDENTIAL_SECRETS[credentials.provider];
+    if (!fields) return;
+
+    const secrets: Record<string, string> = {};
+    for (const [field, name] of Object.entries(fields) as [DNSCredentialField, string][]) {
+        const value = credentials[field];
+        if (value) secrets[name] = value;
+    }
+
+    if (Object.keys(secrets).length > 0) {
+        await storeSecrets(secrets);
     }
 }
 
 // Check if provider is configured
-export function isDNSProviderConfigured(provider: DNSProvider): boolean {
-    return getDNSCredentials(provider) !== null;
+export async function isDNSProviderConfigured(provider: DNSProvider): Promise<boolean> {
+    return (await getDNSCredentials(provider)) !== null;
 }
 
 // Get the first configured provider
-export function getConfiguredDNSProvider(): DNSProvider | null {
+export async function getConfiguredDNSProvider(): Promise<DNSProvider | null> {
     for (const provider of DNS_PROVIDERS) {
-        if (provider.implemented && isDNSProviderConfigured(provider.id)) {
+        if (provider.implemented && await isDNSProviderConfigured(provider.id)) {
             return provider.id;
         }
     }
     return null;
 }
+
+// ============================================================================
+// Record Management (via /api/dns)
+// ============================================================================
+
+async function dnsRequest<T>(body: Record<string, unknown>): Promise<T> {
+    const res = await fetch('/api/dns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+        throw new Error(data.error || 'DNS request failed');
+    }
+    return data as T;
+}
+
+// Look up the zone for a domain. Pass credentials to test them before saving.
+export async function lookupDomainZone(
+    provider: DNSProvider,
+    domain: string,
+    credentials?: DNSProviderCredentials
+): Promise<DnsZone | null> {
+    return (await dnsRequest<{ zone: DnsZone | null }>({ action: 'zone', provider, domain, credentials })).zone;
+}
+
+// List the records currently in a domain's zone
+export async function listDomainRecords(provider: DNSProvider, domain: string): Promise<ManagedDnsRecord[]> {
+    return (await dnsRequest<{ records: ManagedDnsRecord[] }>({ action: 'list', provider, domain })).records;
+}
+
+// Make sure a domain has the given records, whatever the registrar
+export async function applyDomainRecords(
+    provider: DNSProvider,
+    domain: string,
+    records: DNSRecord[]
+): Promise<ApplyRecordsResult> {
+    return (await dnsRequest<{ result: ApplyRecordsResult }>({ action: 'apply', provider, domain, records })).result;
+}
+
+// Remove one record by the ID returned from listDomainRecords
+export async function deleteDomainRecord(provider: DNSProvider, domain: string, recordId: string): Promise<void> {
+    await dnsRequest({ action: 'delete', provider, domain, recordId });
+}
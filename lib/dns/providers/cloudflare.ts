@@ -0,0 +1,86 @@
+/**
+ * Cloudflare DNS Provider
+ * FSD: lib/dns/providers/cloudflare.ts
+ *
+ * Per-record management through the Cloudflare API client in
+ * lib/domains/cloudflareAPI.
+ */
+
+import {
+    createDNSRecord,
+    deleteDNSRecord,
+    getZoneByDomain,
+    listDNSRecords,
+    updateDNSRecord,
+    type CloudflareConfig,
+    type CloudflareDNSRecord,
+} from '@/lib/domains/cloudflareAPI';
+import type { DNSRecord } from '../dnsProviders';
+import { normalizeValue, toFqdn, toRelativeHost } from '../records';
+import { DnsProviderError, type DnsProvider, type DnsZone, type ManagedDnsRecord } from './types';
+
+// Raw API records use snake_case name_servers; the client types camelCase
+type RawZone = { id: string; name: string; nameServers?: string[]; name_servers?: string[] };
+
+function toManaged(record: CloudflareDNSRecord, zone: DnsZone): ManagedDnsRecord {
+    const type = record.type as DNSRecord['type'];
+    return {
+        id: record.id,
+        type,
+        host: toRelativeHost(record.name, zone.name),
+        value: normalizeValue(type, record.content),
+        ttl: record.ttl,
+        priority: record.priority,
+    };
+}
+
+function toPayload(record: DNSRecord, zone: DnsZone) {
+    return {
+        type: record.type,
+        name: toFqdn(record.host, zone.name),
+        content: record.value,
+        ttl: record.ttl,
+        priority: record.type === 'MX' ? record.priority ?? 10 : undefined,
+    };
+}
+
+export function createCloudflareProvider(config: CloudflareConfig, zoneId?: string): DnsProvider {
+    const fail = (message: string | undefined, fallback: string): never => {
+        throw new DnsProviderError(message || fallback, 'cloudflare', 'api_error');
+    };
+
+    return {
+        id: 'cloudflare',
+
+        async getZone(domain) {
+            if (zoneId) return { id: zoneId, name: domain.toLowerCase() };
+
+            const zone = await getZoneByDomain(config, domain) as RawZone | null;
+            if (!zone) return null;
+            return { id: zone.id, name: zone.name, nameServers: zone.nameServers || zone.name_servers };
+        },
+
+        async listRecords(zone) {
+            const result = await listDNSRecords(config, zone.id);
+            if (!result.success) fail(result.error, 'Failed to list DNS records');
+            return result.records.map(record => toManaged(record, zone));
+        },
+
+        async createRecord(zone, record) {
+            const result = await createDNSRecord(config, zone.id, toPayload(record, zone));
+            if (!result.success || !result.record) fail(result.error, 'Failed to create DNS record');
+            return toManaged(result.record!, zone);
+        },
+
+        async updateRecord(zone, recordId, record) {
+            const result = await updateDNSRecord(config, zone.id, recordId, toPayload(record, zone));
+            if (!result.success || !result.record) fail(result.error, 'Failed to update DNS record');
+            return toManaged(result.record!, zone);
+        },
+
+        async deleteRecord(zone, recordId) {
+            const result = await deleteDNSRecord(config, zone.id, recordId);
+            if (!result.success) fail(result.error, 'Failed to delete DNS record');
+        },
+    };
+}
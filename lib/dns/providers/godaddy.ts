@@ -0,0 +1,103 @@
+/**
+ * GoDaddy DNS Provider
+ * FSD: lib/dns/providers/godaddy.ts
+ *
+ * GoDaddy's v1 API writes records per host and type
+ * (PUT/DELETE /v1/domains/{domain}/records/{type}/{name}).
+ */
+
+import type { DNSRecord } from '../dnsProviders';
+import { normalizeValue, toRelativeHost } from '../records';
+import { createRecordSetProvider } from './recordSets';
+import { DnsProviderError, type DnsProvider } from './types';
+
+const API_BASE = 'https://api.godaddy.com';
+
+// GoDaddy rejects TTLs below 600 seconds
+const MIN_TTL = 600;
+
+interface GoDaddyRecord {
+    type: string;
+    name: string;
+    data: string;
+    ttl?: number;
+    priority?: number;
+}
+
+export interface GoDaddyCredentials {
+    key: string;
+    secret: string;
+}
+
+export function createGoDaddyProvider(credentials: GoDaddyCredentials): DnsProvider {
+    const request = async (path: string, init?: RequestInit): Promise<Response> => {
+        const response = await fetch(`${API_BASE}${path}`, {
+            ...init,
+            headers: {
+                'Authorization': `sso-key ${credentials.key}:${credentials.secret}`,
+                'Content-Type': 'application/json',
+                'Accept': 'application/json',
+                ...init?.headers,
+            },
+        });
+        if (!response.ok && response.status !== 404) {
+            const data = await response.json().catch(() => ({}));
+            throw new DnsProviderError(
+                `GoDaddy ${response.status}: ${data.message || response.statusText}`,
+                'godaddy',
+                'api_error'
+            );
+        }
+        return response;
+    };
+
+    const recordPath = (domain: string, set: Pick<DNSRecord, 'type' | 'host'>) =>
+        `/v1/domains/${encodeURIComponent(domain)}/records/${set.type}/${encodeURIComponent(set.host)}`;
+
+    return createRecordSetProvider({
+        id: 'godaddy',
+
+        async getZone(domain) {
+            const response = await request(`/v1/domains/${encodeURIComponent(domain)}`);
+            if (response.status === 404) return null;
+
+            const data = await response.json() as { domainId?: number; domain: string; nameServers?: string[] };
+            return { id: String(data.domainId ?? data.domain), name: data.domain.toLowerCase(), nameServers: data.nameServers };
+        },
+
+        async listRecords(zone) {
+            const response = await request(`/v1/domains/${encodeURIComponent(zone.name)}/records`);
+            if (response.status === 404) {
+                throw new DnsProviderError(`${zone.name} not found at GoDaddy`, 'godaddy', 'zone_not_found');
+            }
+
+            const records = await response.json() as GoDaddyRecord[];
+            return records.map(record => {
+                const type = record.type as DNSRecord['type'];
+                return {
+                    type,
+                    host: toRelativeHost(record.name, zone.name),
+                    value: normalizeValue(type, record.data),
+                    ttl: record.ttl,
+                    priority: type === 'MX' ? record.priority : undefined,
+                };
+            });
+        },
+
+        async replaceSet(zone, set, records) {
+            if (records.length === 0) {
+                await request(recordPath(zone.name, set), { method: 'DELETE' });
+                return;
+            }
+
+            await request(recordPath(zone.name, set), {
+                method: 'PUT',
+                body: JSON.stringify(records.map(record => ({
+                    data: record.value,
+                    ttl: Math.max(record.ttl || 3600, MIN_TTL),
+                    ...(record.type === 'MX' ? { priority: record.priority ?? 10 } : {}),
+                }))),
+            });
+        },
+    });
+}
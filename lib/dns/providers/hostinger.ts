@@ -0,0 +1,113 @@
+/**
+ * Hostinger DNS Provider
+ * FSD: lib/dns/providers/hostinger.ts
+ *
+ * Hostinger's DNS zone API (the same endpoints the hostinger-api-mcp DNS
+ * tools wrap), called directly with an hPanel API token. Zones are written
+ * per host and type with overwrite enabled.
+ */
+
+import type { DNSRecord } from '../dnsProviders';
+import { normalizeValue, toRelativeHost } from '../records';
+import { createRecordSetProvider } from './recordSets';
+import { DnsProviderError, type DnsProvider } from './types';
+
+const API_BASE = 'https://developers.hostinger.com/api/dns/v1';
+
+interface HostingerRecordSet {
+    name: string;
+    type: string;
+    ttl?: number;
+    records: Array<{ content: string; is_disabled?: boolean }>;
+}
+
+export function createHostingerProvider(apiToken: string): DnsProvider {
+    const request = async (path: string, init?: RequestInit): Promise<Response> => {
+        const response = await fetch(`${API_BASE}${path}`, {
+            ...init,
+            headers: {
+                'Authorization': `Bearer ${apiToken}`,
+                'Content-Type': 'application/json',
+                'Accept': 'application/json',
+                ...init?.headers,
+            },
+        });
+        if (!response.ok && response.status !== 404) {
+            const data = await response.json().catch(() => ({}));
+            throw new DnsProviderError(
+                `Hostinger ${response.status}: ${data.message || response.statusText}`,
+                'hostinger',
+                'api_error'
+            );
+        }
+        return response;
+    };
+
+    const zonePath = (domain: string) => `/zones/${encodeURIComponent(domain)}`;
+
+    return createRecordSetProvider({
+        id: 'hostinger',
+
+        async getZone(domain) {
+            const response = await request(zonePath(domain));
+            if (response.status === 404) return null;
+            return { id: domain.toLowerCase(), name: domain.toLowerCase() };
+        },
+
+        async listRecords(zone) {
+            const response = await request(zonePath(zone.name));
+            if (response.status === 404) {
+                throw new DnsProviderError(`${zone.name} has no Hostinger DNS zone`, 'hostinger', 'zone_not_found');
+            }
+
+            const sets = await response.json() as HostingerRecordSet[];
+            return sets.flatMap(set => {
+                const type = set.type as DNSRecord['type'];
+                return set.records
+                    .filter(record => !record.is_disabled)
+                    .map(record => {
+                        let value = record.content;
+                        let priority: number | undefined;
+                        // MX content is "<priority> <host>"
+                        const mx = type === 'MX' ? value.match(/^(\d+)\s+(.+)$/) : null;
+                        if (mx) {
+                            priority = parseInt(mx[1], 10);
+                            value = mx[2];
+                        }
+                        return {
+                            type,
+                            host: toRelativeHost(set.name, zone.name),
+                            value: normalizeValue(type, value),
+                            ttl: set.ttl,
+                            priority,
+                        };
+                    });
+            });
+        },
+
+        async replaceSet(zone, set, records) {
+            if (records.length === 0) {
+                await request(zonePath(zone.name), {
+                    method: 'DELETE',
+                    body: JSON.stringify({ filters: [{ name: set.host, type: set.type }] }),
+                });
+                return;
+            }
+
+            await request(zonePath(zone.name), {
+                method: 'PUT',
+                body: JSON.stringify({
+                    overwrite: true,
+                    zone: [{
+                        name: set.host,
+                        type: set.type,
+                        ttl: records[0].ttl || 3600,
+                        records: records.map(record => ({
+                            content: record.type === 'MX' ? `${record.priority ?? 10} ${record.value}` : record.value,
+                        })),
+                    }],
+                }),
+            });
+        },
+    });
+}
@@ -0,0 +1,75 @@
+/**
+ * DNS Providers
+ * FSD: lib/dns/providers/index.ts
+ *
+ * Build a DnsProvider from stored credentials. Server-side: the provider APIs
+ * do not allow browser requests, so the client goes through /api/dns.
+ */
+
+import {
+    credentialsFromSecrets,
+    getCredentialSecretNames,
+    type DNSProvider,
+    type DNSProviderCredentials,
+} from '../dnsProviders';
+import { createCloudflareProvider } from './cloudflare';
+import { createGoDaddyProvider } from './godaddy';
+import { createHostingerProvider } from './hostinger';
+import { createNamecheapProvider } from './namecheap';
+import { createRoute53Provider } from './route53';
+import { DnsProviderError, type DnsProvider } from './types';
+
+export { DnsProviderError } from './types';
+export type { DnsProvider, DnsZone, ManagedDnsRecord } from './types';
+
+export function createDnsProvider(credentials: DNSProviderCredentials): DnsProvider {
+    const missing = (): never => {
+        throw new DnsProviderError(`${credentials.provider} credentials are incomplete`, credentials.provider, 'not_configured');
+    };
+
+    switch (credentials.provider) {
+        case 'namecheap':
+            if (!credentials.namecheapApiUser || !credentials.namecheapApiKey) missing();
+            return createNamecheapProvider({
+                apiUser: credentials.namecheapApiUser!,
+                apiKey: credentials.namecheapApiKey!,
+                username: credentials.namecheapUsername || credentials.namecheapApiUser!,
+                clientIp: credentials.namecheapClientIp || '',
+            });
+
+        case 'cloudflare':
+            if (!credentials.cloudflareApiToken) missing();
+            return createCloudflareProvider({ apiToken: credentials.cloudflareApiToken! }, credentials.cloudflareZoneId);
+
+        case 'godaddy':
+            if (!credentials.godaddyKey || !credentials.godaddySecret) missing();
+            return createGoDaddyProvider({ key: credentials.godaddyKey!, secret: credentials.godaddySecret! });
+
+        case 'route53':
+            if (!credentials.route53AccessKeyId || !credentials.route53SecretAccessKey) missing();
+            return createRoute53Provider({
+                accessKeyId: credentials.route53AccessKeyId!,
+                secretAccessKey: credentials.route53SecretAccessKey!,
+                hostedZoneId: credentials.route53HostedZoneId,
+            });
+
+        case 'hostinger':
+            if (!credentials.hostingerApiToken) missing();
+            return createHostingerProvider(credentials.hostingerApiToken!);
+
+        default:
+            throw new DnsProviderError(`Unknown DNS provider: ${credentials.provider}`, credentials.provider, 'not_configured');
+    }
+}
+
+/**
+ * Provider built from the credentials stored in the secrets vault
+ */
+export async function createStoredDnsProvider(provider: DNSProvider): Promise<DnsProvider> {
+    const { getIntegrationSecrets } = await import('@/lib/db/settingsDb');
+    const credentials = credentialsFromSecrets(provider, getIntegrationSecrets(getCredentialSecretNames(provider)));
+    if (!credentials) {
+        throw new DnsProviderError(`${provider} is not configured`, provider, 'not_configured');
+    }
+    return createDnsProvider(credentials);
+}
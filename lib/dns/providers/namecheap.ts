@@ -0,0 +1,230 @@
+/**
+ * Namecheap DNS Provider
+ * FSD: lib/dns/providers/namecheap.ts
+ *
+ * Namecheap's XML API only reads and writes the whole host list
+ * (domains.dns.getHosts / setHosts), so every change rewrites the zone with
+ * the other records preserved. Host types the planner doesn't manage (URL
+ * redirects, CAA, SRV, ALIAS, ...) and the zone's mail mode are carried
+ * through every write unchanged.
+ */
+
+import type { DNSRecord } from '../dnsProviders';
+import { normalizeValue, toRelativeHost } from '../records';
+import { createRecordSetProvider } from './recordSets';
+import { DnsProviderError, type DnsProvider } from './types';
+
+const PRODUCTION_URL = 'https://api.namecheap.com/xml.response';
+const SANDBOX_URL = 'https://api.sandbox.namecheap.com/xml.response';
+
+// Common multi-part TLDs
+const MULTI_PART_TLDS = ['co.uk', 'com.br', 'com.au', 'co.nz', 'co.za'];
+
+const SUPPORTED_TYPES: DNSRecord['type'][] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS'];
+
+/**
+ * A host entry as Namecheap returns it, kept verbatim so it can be written back
+ */
+export interface NamecheapHost {
+    name: string;
+    type: string;
+    address: string;
+    ttl: string;
+    mxPref: string;
+}
+
+export interface NamecheapHostList {
+    records: DNSRecord[];
+    /** Hosts of types outside DNSRecord, resent as-is on every setHosts */
+    unsupported: NamecheapHost[];
+    emailType?: string;
+}
+
+export interface NamecheapCredentials {
+    apiUser: string;
+    apiKey: string;
+    username: string;
+    clientIp: string;
+    sandbox?: boolean;
+}
+
+/**
+ * Split a domain into Namecheap's SLD and TLD parameters
+ */
+export function splitDomain(domain: string): { sld: string; tld: string } | null {
+    const parts = domain.toLowerCase().split('.');
+    if (parts.length < 2) return null;
+
+    const lastTwo = parts.slice(-2).join('.');
+    if (MULTI_PART_TLDS.includes(lastTwo) && parts.length >= 3) {
+        return { sld: parts.slice(0, -2).join('.'), tld: lastTwo };
+    }
+    return { sld: parts.slice(0, -1).join('.'), tld: parts[parts.length - 1] };
+}
+
+function unescapeXml(value: string): string {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse a getHosts response: managed records, every other host verbatim and
+ * the zone's EmailType
+ */
+export function parseHostList(xml: string, domain: string): NamecheapHostList {
+    const records: DNSRecord[] = [];
+    const unsupported: NamecheapHost[] = [];
+    const hostRegex = /<host\s+([^>]+?)\/?>/gi;
+    let match;
+
+    while ((match = hostRegex.exec(xml)) !== null) {
+        const attrs = match[1];
+        const getAttr = (name: string): string => {
+            const attrMatch = attrs.match(new RegExp(`\\b${name}="([^"]*)"`));
+            return attrMatch ? unescapeXml(attrMatch[1]) : '';
+        };
+
+        const host: NamecheapHost = {
+            name: getAttr('Name'),
+            type: getAttr('Type').toUpperCase(),
+            address: getAttr('Address'),
+            ttl: getAttr('TTL'),
+            mxPref: getAttr('MXPref'),
+        };
+        const type = host.type as DNSRecord['type'];
+        if (!SUPPORTED_TYPES.includes(type)) {
+            unsupported.push(host);
+            continue;
+        }
+
+        const ttl = parseInt(host.ttl, 10);
+        const mxPref = parseInt(host.mxPref, 10);
+        records.push({
+            type,
+            host: toRelativeHost(host.name, domain),
+            value: normalizeValue(type, host.address),
+            ttl: Number.isFinite(ttl) ? ttl : undefined,
+            priority: type === 'MX' && Number.isFinite(mxPref) ? mxPref : undefined,
+        });
+    }
+
+    const emailType = xml.match(/<DomainDNSGetHostsResult\b[^>]*\bEmailType="([^"]*)"/)?.[1];
+    return { records, unsupported, emailType: emailType || undefined };
+}
+
+/**
+ * Parse the managed <host .../> entries from a getHosts response
+ */
+export function parseHosts(xml: string, domain: string): DNSRecord[] {
+    return parseHostList(xml, domain).records;
+}
+
+export function createNamecheapProvider(credentials: NamecheapCredentials): DnsProvider {
+    const request = async (command: string, domain: string, params: Record<string, string> = {}): Promise<string> => {
+        const parts = splitDomain(domain);
+        if (!parts) {
+            throw new DnsProviderError(`Invalid domain format: ${domain}`, 'namecheap', 'api_error');
+        }
+
+        // All parameters go in the POST body; setHosts can exceed URL limits
+        const body = new URLSearchParams({
+            ApiUser: credentials.apiUser,
+            ApiKey: credentials.apiKey,
+            UserName: credentials.username || credentials.apiUser,
+            ClientIp: credentials.clientIp,
+            Command: command,
+            SLD: parts.sld,
+            TLD: parts.tld,
+            ...params,
+        });
+        const response = await fetch(credentials.sandbox ? SANDBOX_URL : PRODUCTION_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: body.toString(),
+        });
+        const xml = await response.text();
+
+        const errorMatch = xml.match(/<Error Number="(\d+)">([\s\S]*?)<\/Error>/);
+        if (errorMatch) {
+            throw new DnsProviderError(`Namecheap Error ${errorMatch[1]}: ${errorMatch[2]}`, 'namecheap', 'api_error');
+        }
+        return xml;
+    };
+
+    // Last host list read per zone; the record-set adapter always lists before it writes
+    const hostLists = new Map<string, NamecheapHostList>();
+    const readHostList = async (domain: string): Promise<NamecheapHostList> => {
+        const hostList = parseHostList(await request('namecheap.domains.dns.getHosts', domain), domain);
+        hostLists.set(domain.toLowerCase(), hostList);
+        return hostList;
+    };
+
+    return createRecordSetProvider({
+        id: 'namecheap',
+
+        async getZone(domain) {
+            try {
+                const xml = await request('namecheap.domains.dns.getHosts', domain);
+                if (xml.includes('IsUsingOurDNS="false"')) {
+                    console.warn(`[Namecheap] ${domain} does not use Namecheap DNS; records will not take effect`);
+                }
+                return { id: domain.toLowerCase(), name: domain.toLowerCase() };
+            } catch (error) {
+                // 2019166: domain not found, 2016166: domain not associated with this account
+                if (error instanceof DnsProviderError && /Error (2019166|2016166):/.test(error.message)) {
+                    return null;
+                }
+                throw error;
+            }
+        },
+
+        listRecords: async zone => (await readHostList(zone.name)).records,
+
+        async replaceSet(zone, set, records, current) {
+            const { unsupported, emailType } = hostLists.get(zone.name.toLowerCase()) ?? await readHostList(zone.name);
+            const hosts = [
+                ...current.filter(r => !(r.type === set.type && r.host === set.host)),
+                ...records,
+            ];
+
+            const params: Record<string, string> = {};
+            hosts.forEach((record, index) => {
+                const i = index + 1;
+                params[`HostName${i}`] = record.host;
+                params[`RecordType${i}`] = record.type;
+                params[`Address${i}`] = record.value;
+                params[`TTL${i}`] = String(record.ttl || 1800);
+                if (record.type === 'MX') {
+                    params[`MXPref${i}`] = String(record.priority ?? 10);
+                }
+            });
+            unsupported.forEach((host, index) => {
+                const i = hosts.length + index + 1;
+                params[`HostName${i}`] = host.name;
+                params[`RecordType${i}`] = host.type;
+                params[`Address${i}`] = host.address;
+                params[`TTL${i}`] = host.ttl || '1800';
+                if (host.mxPref) {
+                    params[`MXPref${i}`] = host.mxPref;
+                }
+            });
+
+            // Keep the zone's mail mode (forwarding, private email, ...); MX hosts
+            // are only honoured once it is switched to custom mail
+            if (emailType && emailType !== 'NONE') {
+                params.EmailType = emailType;
+            } else if (hosts.some(r => r.type === 'MX')) {
+                params.EmailType = 'MX';
+            }
+
+            const xml = await request('namecheap.domains.dns.setHosts', zone.name, params);
+            if (!xml.includes('IsSuccess="true"')) {
+                throw new DnsProviderError('Namecheap did not confirm the DNS update', 'namecheap', 'api_error');
+            }
+        },
+    });
+}
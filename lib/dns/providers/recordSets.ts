@@ -0,0 +1,82 @@
+/**
+ * Record-Set Providers
+ * FSD: lib/dns/providers/recordSets.ts
+ *
+ * Namecheap, GoDaddy, Route53 and Hostinger have no per-record IDs: records
+ * are written as whole sets (all values for one host and type), or for
+ * Namecheap as the whole zone. This adapter gives them record-level
+ * create/update/delete on top of a "replace this set" call.
+ */
+
+import type { DNSProvider, DNSRecord } from '../dnsProviders';
+import { parseRecordSetId, recordSetId } from '../records';
+import { DnsProviderError, type DnsProvider, type DnsZone, type ManagedDnsRecord } from './types';
+
+export interface RecordSetBackend {
+    id: DNSProvider;
+    getZone(domain: string): Promise<DnsZone | null>;
+    listRecords(zone: DnsZone): Promise<DNSRecord[]>;
+    /**
+     * Replace every record of one host and type with `records` (empty removes
+     * the set). `current` is the full zone as last listed.
+     */
+    replaceSet(
+        zone: DnsZone,
+        set: Pick<DNSRecord, 'type' | 'host'>,
+        records: DNSRecord[],
+        current: DNSRecord[]
+    ): Promise<void>;
+}
+
+function inSet(record: DNSRecord, set: Pick<DNSRecord, 'type' | 'host'>): boolean {
+    return record.type === set.type && record.host === set.host;
+}
+
+export function createRecordSetProvider(backend: RecordSetBackend): DnsProvider {
+    const findRecord = (records: DNSRecord[], recordId: string): DNSRecord => {
+        const key = parseRecordSetId(recordId);
+        const match = key && records.find(r => inSet(r, key) && r.value === key.value);
+        if (!match) {
+            throw new DnsProviderError(`Record ${recordId} not found`, backend.id, 'record_not_found');
+        }
+        return match;
+    };
+
+    return {
+        id: backend.id,
+
+        getZone: domain => backend.getZone(domain),
+
+        async listRecords(zone): Promise<ManagedDnsRecord[]> {
+            return (await backend.listRecords(zone)).map(record => ({ ...record, id: recordSetId(record) }));
+        },
+
+        async createRecord(zone, record) {
+            const current = await backend.listRecords(zone);
+            await backend.replaceSet(zone, record, [...current.filter(r => inSet(r, record)), record], current);
+            return { ...record, id: recordSetId(record) };
+        },
+
+        async updateRecord(zone, recordId, record) {
+            let current = await backend.listRecords(zone);
+            const old = findRecord(current, recordId);
+
+            if (inSet(old, record)) {
+                const set = current.filter(r => inSet(r, record)).map(r => (r === old ? record : r));
+                await backend.replaceSet(zone, record, set, current);
+            } else {
+                // Host or type changed: the record moves between sets
+                await backend.replaceSet(zone, old, current.filter(r => inSet(r, old) && r !== old), current);
+                current = current.filter(r => r !== old);
+                await backend.replaceSet(zone, record, [...current.filter(r => inSet(r, record)), record], current);
+            }
+            return { ...record, id: recordSetId(record) };
+        },
+
+        async deleteRecord(zone, recordId) {
+            const current = await backend.listRecords(zone);
+            const old = findRecord(current, recordId);
+            await backend.replaceSet(zone, old, current.filter(r => inSet(r, old) && r !== old), current);
+        },
+    };
+}
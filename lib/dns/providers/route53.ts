@@ -0,0 +1,249 @@
+/**
+ * AWS Route53 DNS Provider
+ * FSD: lib/dns/providers/route53.ts
+ *
+ * Route53's REST/XML API with Signature Version 4 request signing. Record
+ * sets are written with UPSERT and DELETE changes. Alias record sets are
+ * left out of listings since they have no plain values.
+ *
+ * Server-only (node crypto).
+ */
+
+import crypto from 'crypto';
+import type { DNSRecord } from '../dnsProviders';
+import { normalizeValue, toFqdn, toRelativeHost } from '../records';
+import { createRecordSetProvider } from './recordSets';
+import { DnsProviderError, type DnsProvider } from './types';
+
+const HOST = 'route53.amazonaws.com';
+const API_VERSION = '2013-04-01';
+// Route53 is a global service signed in us-east-1
+const REGION = 'us-east-1';
+const SERVICE = 'route53';
+
+export interface Route53Credentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    hostedZoneId?: string;
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+function sha256Hex(value: string): string {
+    return crypto.createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+    return crypto.createHmac('sha256', key).update(value, 'utf8').digest();
+}
+
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Authorization headers for one Route53 request (AWS Signature Version 4)
+ */
+export function signRoute53Request(
+    credentials: Pick<Route53Credentials, 'accessKeyId' | 'secretAccessKey'>,
+    method: string,
+    path: string,
+    query: Record<string, string>,
+    body: string,
+    now: Date = new Date()
+): Record<string, string> {
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+
+    const canonicalQuery = Object.keys(query)
+        .sort()
+        .map(key => `${encodeRfc3986(key)}=${encodeRfc3986(query[key])}`)
+        .join('&');
+    const signedHeaders = 'host;x-amz-date';
+    const canonicalRequest = [
+        method,
+        path,
+        canonicalQuery,
+        `host:${HOST}\nx-amz-date:${amzDate}\n`,
+        signedHeaders,
+        sha256Hex(body),
+    ].join('\n');
+
+    const scope = `${dateStamp}/${REGION}/${SERVICE}/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), REGION), SERVICE), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+    return {
+        'X-Amz-Date': amzDate,
+        'Authorization': `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeXml(value: string): string {
+    return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+    const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+    return match ? unescapeXml(match[1]) : undefined;
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+    return xml.match(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'g')) || [];
+}
+
+/**
+ * Record set values in Route53 wire format
+ */
+function toResourceValue(record: DNSRecord): string {
+    switch (record.type) {
+        case 'TXT':
+            // Quoted, in chunks of at most 255 characters
+            return (record.value.match(/[\s\S]{1,255}/g) || [''])
+                .map(chunk => `"${chunk.replace(/"/g, '\\"')}"`)
+                .join(' ');
+        case 'MX':
+            return `${record.priority ?? 10} ${record.value}`;
+        default:
+            return record.value;
+    }
+}
+
+/**
+ * Parse a ListResourceRecordSets page
+ */
+export function parseRecordSets(xml: string, domain: string): DNSRecord[] {
+    const records: DNSRecord[] = [];
+
+    for (const set of xmlBlocks(xml, 'ResourceRecordSet')) {
+        const type = xmlValue(set, 'Type') as DNSRecord['type'];
+        const name = (xmlValue(set, 'Name') || '').replace(/\\052/g, '*');
+        const ttl = parseInt(xmlValue(set, 'TTL') || '', 10);
+
+        for (const resource of xmlBlocks(set, 'ResourceRecord')) {
+            let value = xmlValue(resource, 'Value') || '';
+            let priority: number | undefined;
+            if (type === 'MX') {
+                const [pref, ...rest] = value.split(/\s+/);
+                priority = parseInt(pref, 10);
+                value = rest.join(' ');
+            }
+            records.push({
+                type,
+                host: toRelativeHost(name, domain),
+                value: normalizeValue(type, value),
+                ttl: Number.isFinite(ttl) ? ttl : undefined,
+                priority,
+            });
+        }
+    }
+
+    return records;
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export function createRoute53Provider(credentials: Route53Credentials): DnsProvider {
+    const request = async (method: string, path: string, query: Record<string, string> = {}, body = ''): Promise<string> => {
+        const fullPath = `/${API_VERSION}${path}`;
+        const search = new URLSearchParams(query).toString();
+        const response = await fetch(`https://${HOST}${fullPath}${search ? `?${search}` : ''}`, {
+            method,
+            headers: {
+                ...signRoute53Request(credentials, method, fullPath, query, body),
+                ...(body ? { 'Content-Type': 'application/xml' } : {}),
+            },
+            body: body || undefined,
+        });
+        const xml = await response.text();
+
+        if (!response.ok) {
+            throw new DnsProviderError(
+                `Route53 ${xmlValue(xml, 'Code') || response.status}: ${xmlValue(xml, 'Message') || response.statusText}`,
+                'route53',
+                'api_error'
+            );
+        }
+        return xml;
+    };
+
+    return createRecordSetProvider({
+        id: 'route53',
+
+        async getZone(domain) {
+            const name = domain.toLowerCase().replace(/\.$/, '');
+            if (credentials.hostedZoneId) {
+                return { id: credentials.hostedZoneId.replace(/^\/hostedzone\//, ''), name };
+            }
+
+            const xml = await request('GET', '/hostedzonesbyname', { dnsname: name, maxitems: '1' });
+            const zone = xmlBlocks(xml, 'HostedZone')[0];
+            if (!zone || (xmlValue(zone, 'Name') || '').replace(/\.$/, '') !== name) return null;
+
+            return { id: (xmlValue(zone, 'Id') || '').replace(/^\/hostedzone\//, ''), name };
+        },
+
+        async listRecords(zone) {
+            const records: DNSRecord[] = [];
+            let query: Record<string, string> = { maxitems: '300' };
+
+            // Follow pagination until the listing is no longer truncated
+            for (;;) {
+                const xml = await request('GET', `/hostedzone/${zone.id}/rrset`, query);
+                records.push(...parseRecordSets(xml, zone.name));
+
+                if (xmlValue(xml, 'IsTruncated') !== 'true') break;
+                query = {
+                    maxitems: '300',
+                    name: xmlValue(xml, 'NextRecordName') || '',
+                    type: xmlValue(xml, 'NextRecordType') || '',
+                };
+            }
+            return records;
+        },
+
+        async replaceSet(zone, set, records, current) {
+            const existing = current.filter(r => r.type === set.type && r.host === set.host);
+            const action = records.length > 0 ? 'UPSERT' : 'DELETE';
+            // DELETE must repeat the set exactly as it is
+            const values = records.length > 0 ? records : existing;
+            if (values.length === 0) return;
+
+            const ttl = values[0].ttl || 3600;
+            const body = `<?xml version="1.0" encoding="UTF-8"?>
+<ChangeResourceRecordSetsRequest xmlns="https://route53.amazonaws.com/doc/${API_VERSION}/">
+  <ChangeBatch>
+    <Changes>
+      <Change>
+        <Action>${action}</Action>
+        <ResourceRecordSet>
+          <Name>${toFqdn(set.host, zone.name)}.</Name>
+          <Type>${set.type}</Type>
+          <TTL>${ttl}</TTL>
+          <ResourceRecords>
+${values.map(record => `            <ResourceRecord><Value>${escapeXml(toResourceValue(record))}</Value></ResourceRecord>`).join('\n')}
+          </ResourceRecords>
+        </ResourceRecordSet>
+      </Change>
+    </Changes>
+  </ChangeBatch>
+</ChangeResourceRecordSetsRequest>`;
+
+            await request('POST', `/hostedzone/${zone.id}/rrset`, {}, body);
+        },
+    });
+}
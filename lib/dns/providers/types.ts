@@ -0,0 +1,44 @@
+/**
+ * DNS Provider Types
+ * FSD: lib/dns/providers/types.ts
+ *
+ * One record-management interface for every registrar / DNS host. Records use
+ * hosts relative to the zone ('@' for the apex, 'www', '_dmarc', ...) whatever
+ * the provider's own API expects.
+ */
+
+import type { DNSProvider, DNSRecord } from '../dnsProviders';
+
+export interface DnsZone {
+    id: string;
+    name: string;
+    nameServers?: string[];
+}
+
+/**
+ * A record as it exists at the provider. IDs are the provider's own record
+ * IDs where it has them, otherwise derived from type, host and value.
+ */
+export interface ManagedDnsRecord extends DNSRecord {
+    id: string;
+}
+
+export interface DnsProvider {
+    readonly id: DNSProvider;
+    getZone(domain: string): Promise<DnsZone | null>;
+    listRecords(zone: DnsZone): Promise<ManagedDnsRecord[]>;
+    createRecord(zone: DnsZone, record: DNSRecord): Promise<ManagedDnsRecord>;
+    updateRecord(zone: DnsZone, recordId: string, record: DNSRecord): Promise<ManagedDnsRecord>;
+    deleteRecord(zone: DnsZone, recordId: string): Promise<void>;
+}
+
+export class DnsProviderError extends Error {
+    constructor(
+        message: string,
+        public provider: DNSProvider,
+        public code: 'not_configured' | 'zone_not_found' | 'record_not_found' | 'api_error'
+    ) {
+        super(message);
+        this.name = 'DnsProviderError';
+    }
+}
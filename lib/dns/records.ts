@@ -0,0 +1,217 @@
+/**
+ * DNS Record Helpers
+ * FSD: lib/dns/records.ts
+ *
+ * Provider-neutral record normalization and the "make sure these records
+ * exist" planner behind applyRecords(). Applying is idempotent: records that
+ * already exist are left alone, records that occupy the same slot (the apex
+ * A record, a CNAME, the SPF or DMARC TXT) are updated in place, and
+ * everything else is created. Nothing is ever deleted.
+ */
+
+import type { DNSRecord } from './dnsProviders';
+import type { DnsProvider, DnsZone, ManagedDnsRecord } from './providers/types';
+import { DnsProviderError } from './providers/types';
+
+export interface RecordChange {
+    action: 'create' | 'update' | 'unchanged';
+    record: DNSRecord;
+    existing?: ManagedDnsRecord;
+}
+
+export interface ApplyRecordsResult {
+    zone: DnsZone;
+    created: DNSRecord[];
+    updated: DNSRecord[];
+    unchanged: DNSRecord[];
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Host relative to the zone: "www.example.com." -> "www", "example.com" -> "@"
+ */
+export function toRelativeHost(name: string, domain: string): string {
+    const host = name.trim().toLowerCase().replace(/\.$/, '');
+    const zone = domain.trim().toLowerCase().replace(/\.$/, '');
+
+    if (!host || host === '@' || host === zone) return '@';
+    if (host.endsWith(`.${zone}`)) return host.slice(0, -(zone.length + 1));
+    return host;
+}
+
+/**
+ * Fully qualified name for a relative host (no trailing dot)
+ */
+export function toFqdn(host: string, domain: string): string {
+    const relative = toRelativeHost(host, domain);
+    return relative === '@' ? domain.toLowerCase() : `${relative}.${domain.toLowerCase()}`;
+}
+
+/**
+ * Strip provider formatting from a value: quotes around TXT data, trailing
+ * dots on hostnames.
+ */
+export function normalizeValue(type: DNSRecord['type'], value: string): string {
+    const trimmed = value.trim();
+    if (type === 'TXT') {
+        if (!/^"[\s\S]*"$/.test(trimmed)) return trimmed;
+        // Long TXT data comes back as "chunk one" "chunk two"
+        const chunks = trimmed.match(/"((?:[^"\\]|\\.)*)"/g) || [];
+        return chunks.map(chunk => chunk.slice(1, -1).replace(/\\"/g, '"')).join('');
+    }
+    if (type === 'CNAME' || type === 'MX' || type === 'NS') {
+        return trimmed.replace(/\.$/, '').toLowerCase();
+    }
+    return trimmed;
+}
+
+/**
+ * Stable ID for providers that address records by name and type rather than
+ * by record ID.
+ */
+export function recordSetId(record: DNSRecord): string {
+    return [record.type, record.host, record.value].map(encodeURIComponent).join(':');
+}
+
+export function parseRecordSetId(id: string): Pick<DNSRecord, 'type' | 'host' | 'value'> | null {
+    const parts = id.split(':');
+    if (parts.length !== 3) return null;
+    const [type, host, value] = parts.map(decodeURIComponent);
+    return { type: type as DNSRecord['type'], host, value };
+}
+
+export function isSameRecord(a: DNSRecord, b: DNSRecord): boolean {
+    if (a.type !== b.type || a.host !== b.host) return false;
+    const caseSensitive = a.type === 'TXT';
+    const valueA = caseSensitive ? a.value : a.value.toLowerCase();
+    const valueB = caseSensitive ? b.value : b.value.toLowerCase();
+    if (valueA !== valueB) return false;
+    return a.type !== 'MX' || (a.priority ?? 10) === (b.priority ?? 10);
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+export function txtTag(value: string): string | null {
+    const match = value.trim().match(/^(v=(?:spf1|DMARC1|DKIM1|BIMI1))\b/i);
+    return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Two records that cannot coexist: a desired record replaces the existing one
+ */
+export function occupiesSameSlot(existing: DNSRecord, desired: DNSRecord): boolean {
+    if (existing.host !== desired.host) return false;
+
+    switch (desired.type) {
+        case 'CNAME':
+            return existing.type === 'CNAME';
+        case 'A':
+        case 'AAAA':
+            return existing.type === desired.type;
+        case 'TXT': {
+            const tag = txtTag(desired.value);
+            return existing.type === 'TXT' && tag !== null && txtTag(existing.value) === tag;
+        }
+        case 'MX':
+            return existing.type === 'MX' && existing.value.toLowerCase() === desired.value.toLowerCase();
+        default:
+            return false;
+    }
+}
+
+/**
+ * A domain may only publish one SPF record, so a second sender is merged
+ * into the existing one instead of replacing it.
+ */
+export function mergeSpf(existing: string, desired: string): string {
+    const terms = (value: string) => value.trim().split(/\s+/).filter(term => term && term.toLowerCase() !== 'v=spf1');
+    const isAll = (term: string) => /^[~?+-]?all$/i.test(term);
+
+    const current = terms(existing);
+    const incoming = terms(desired);
+    const merged = current.filter(term => !isAll(term));
+    for (const term of incoming) {
+        if (!isAll(term) && !merged.some(t => t.toLowerCase() === term.toLowerCase())) {
+            merged.push(term);
+        }
+    }
+    const all = current.find(isAll) || incoming.find(isAll) || '~all';
+
+    return ['v=spf1', ...merged, all].join(' ');
+}
+
+/**
+ * Work out which desired records already exist, which replace an existing
+ * record, and which are new.
+ */
+export function planRecordChanges(existing: ManagedDnsRecord[], desired: DNSRecord[]): RecordChange[] {
+    const claimed = new Set<string>();
+    const changes: (RecordChange | null)[] = desired.map(record => {
+        const match = existing.find(e => !claimed.has(e.id) && isSameRecord(e, record));
+        if (!match) return null;
+        claimed.add(match.id);
+        return { action: 'unchanged', record, existing: match };
+    });
+
+    return desired.map((record, index) => {
+        const planned = changes[index];
+        if (planned) return planned;
+
+        const slot = existing.find(e => !claimed.has(e.id) && occupiesSameSlot(e, record));
+        if (!slot) return { action: 'create', record };
+        claimed.add(slot.id);
+
+        if (record.type === 'TXT' && txtTag(record.value) === 'v=spf1') {
+            const value = mergeSpf(slot.value, record.value);
+            return value === slot.value
+                ? { action: 'unchanged', record: { ...record, value }, existing: slot }
+                : { action: 'update', record: { ...record, value }, existing: slot };
+        }
+        return { action: 'update', record, existing: slot };
+    });
+}
+
+// ============================================================================
+// Apply
+// ============================================================================
+
+/**
+ * Make sure a domain has the given records at any provider
+ */
+export async function applyRecords(
+    provider: DnsProvider,
+    domain: string,
+    records: DNSRecord[]
+): Promise<ApplyRecordsResult> {
+    const zone = await provider.getZone(domain);
+    if (!zone) {
+        throw new DnsProviderError(`${domain} has no DNS zone at ${provider.id}`, provider.id, 'zone_not_found');
+    }
+
+    const desired = records.map(record => ({
+        ...record,
+        host: toRelativeHost(record.host, zone.name),
+        value: normalizeValue(record.type, record.value),
+    }));
+    const plan = planRecordChanges(await provider.listRecords(zone), desired);
+
+    const result: ApplyRecordsResult = { zone, created: [], updated: [], unchanged: [] };
+    for (const change of plan) {
+        // Sequential: several providers rewrite a whole record set per call
+        if (change.action === 'create') {
+            await provider.createRecord(zone, change.record);
+            result.created.push(change.record);
+        } else if (change.action === 'update') {
+            await provider.updateRecord(zone, change.existing!.id, change.record);
+            result.updated.push(change.record);
+        } else {
+            result.unchanged.push(change.record);
+        }
+    }
+    return result;
+}
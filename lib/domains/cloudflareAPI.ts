@@ -7,6 +7,8 @@
  * API Documentation: https://developers.cloudflare.com/api/operations/registrar-domains-list-domains
  */
 
+import { deleteSecrets, loadSecrets, migrateLocalSecrets, storeSecrets } from '@/lib/security/secretsClient';
+
 const CF_API_BASE = 'https://api.cloudflare.com/client/v4';
 
 export interface CloudflareConfig {
@@ -372,6 +374,55 @@ export async function createDNSRecord(
     }
 }
 
+/**
+ * Update (overwrite) DNS record
+ */
+export async function updateDNSRecord(
+    config: CloudflareConfig,
+    zoneId: string,
+    recordId: string,
+    record: {
+        type: string;
+        name: string;
+        content: string;
+        ttl?: number;
+        priority?: number;
+        proxied?: boolean;
+    }
+): Promise<{ success: boolean; record?: CloudflareDNSRecord; error?: string }> {
+    try {
+        const response = await cfRequest<CloudflareDNSRecord>(
+            config,
+            `/zones/${zoneId}/dns_records/${recordId}`,
+            {
+                method: 'PUT',
+                body: JSON.stringify({
+                    type: record.type,
+                    name: record.name,
+                    content: record.content,
+                    ttl: record.ttl || 3600,
+                    priority: record.priority,
+                    proxied: record.proxied ?? false,
+                }),
+            }
+        );
+
+        if (!response.success) {
+            return {
+                success: false,
+                error: response.errors[0]?.message || 'Failed to update DNS record',
+            };
+        }
+
+        return { success: true, record: response.result };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        };
+    }
+}
+
 /**
  * Delete DNS record
  */
@@ -500,28 +551,27 @@ export async function validateToken(config: CloudflareConfig): Promise<{
 }
 
 /**
- * Storage key for Cloudflare config
+ * Vault secret name for the Cloudflare config (formerly its localStorage key)
  */
-const STORAGE_KEY = 'ifrit_cloudflare_config';
+const SECRET_NAME = 'ifrit_cloudflare_config';
 
 /**
- * Save Cloudflare config (token encrypted in localStorage)
+ * Save Cloudflare config to the secrets vault
  */
-export function saveCloudflareConfig(config: CloudflareConfig): void {
+export async function saveCloudflareConfig(config: CloudflareConfig): Promise<void> {
     if (typeof window === 'undefined') return;
-
-    // Note: In production, use proper encryption
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    await storeSecrets({ [SECRET_NAME]: JSON.stringify(config) });
 }
 
 /**
- * Get saved Cloudflare config
+ * Get saved Cloudflare config (moves a localStorage copy into the vault first)
  */
-export function getCloudflareConfig(): CloudflareConfig | null {
+export async function getCloudflareConfig(): Promise<CloudflareConfig | null> {
     if (typeof window === 'undefined') return null;
 
     try {
-        const data = localStorage.getItem(STORAGE_KEY);
+        await migrateLocalSecrets([SECRET_NAME]);
+        const data = (await loadSecrets([SECRET_NAME]))[SECRET_NAME];
         return data ? JSON.parse(data) : null;
     } catch {
         return null;
@@ -531,9 +581,9 @@ export function getCloudflareConfig(): CloudflareConfig | null {
 /**
  * Clear Cloudflare config
  */
-export function clearCloudflareConfig(): void {
+export async function clearCloudflareConfig(): Promise<void> {
     if (typeof window === 'undefined') return;
-    localStorage.removeItem(STORAGE_KEY);
+    await deleteSecrets([SECRET_NAME]);
 }
 
 /**
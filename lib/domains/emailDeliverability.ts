@@ -5,6 +5,13 @@
  * Helps fresh domains build email lists for monetization while waiting out sandbox.
  */
 
+import {
+    applyDomainRecords,
+    type DNSProvider,
+    type DNSRecord as ProviderDNSRecord,
+} from '@/lib/dns/dnsProviders';
+import type { ApplyRecordsResult } from '@/lib/dns/records';
+
 export interface EmailDNSConfig {
     domain: string;
     records: DNSRecord[];
@@ -431,6 +438,30 @@ export function combineSPFRecords(includes: string[]): string {
     return `v=spf1 ${uniqueIncludes.map(i => `include:${i}`).join(' ')} ~all`;
 }
 
+/**
+ * Convert generated records to the DNS provider record format
+ */
+export function toProviderRecords(config: EmailDNSConfig): ProviderDNSRecord[] {
+    return config.records.map(record => ({
+        type: record.type,
+        host: record.name,
+        value: record.value,
+        ttl: 3600,
+        priority: record.priority,
+    }));
+}
+
+/**
+ * Publish SPF/DKIM/DMARC/MX records at the domain's DNS provider.
+ * An existing SPF record is merged rather than replaced.
+ */
+export async function applyEmailConfig(
+    config: EmailDNSConfig,
+    provider: DNSProvider
+): Promise<ApplyRecordsResult> {
+    return applyDomainRecords(provider, config.domain, toProviderRecords(config));
+}
+
 /**
  * Storage keys
  */
@@ -86,6 +86,8 @@ export {
     getEmailConfig,
     getProvider,
     getFreeProviders,
+    toProviderRecords,
+    applyEmailConfig,
     type EmailDNSConfig,
     type DNSRecord,
     type EmailProvider,
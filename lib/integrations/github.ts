@@ -1,7 +1,7 @@
 import { generateTemplateFiles as generateNiche, SiteConfig } from '@/templates/niche-authority-blog/generator';
 import { generateTemplateFiles as generateMagazine } from '@/templates/topical-magazine/generator';
 import { generateTemplateFiles as generateExpert } from '@/templates/expert-hub/generator';
-import { getInstalledPlugins, getTheme } from '@/lib/websiteStore';
+import { buildLocaleContentFiles, getInstalledPlugins, getTheme } from '@/lib/websiteStore';
 import { generateDefaultThemeCSS } from '@/templates/shared/themeGenerator';
 
 export interface GitHubUser {
@@ -347,6 +347,20 @@ ${baseCSS}
             }
         }
 
+        // TRANSLATION LAYER: Deploy stored article translations to content/<locale>/
+        // for the additional locales the template was generated with
+        if (options?.mergePlugins && siteConfig?.locales?.length) {
+            const domain = options.mergePlugins;
+            const localeFiles = buildLocaleContentFiles(
+                domain,
+                siteConfig.locales.filter(locale => locale !== (siteConfig.defaultLocale || siteConfig.locales?.[0]))
+            );
+            for (const [filePath, content] of Object.entries(localeFiles)) {
+                templateFiles.push({ path: filePath, content });
+            }
+            console.log(`[GitHub] Added ${Object.keys(localeFiles).length} translated articles for ${domain}`);
+        }
+
         // Add extra files (like essential pages)
         if (extraFiles) {
             for (const [filePath, content] of Object.entries(extraFiles)) {
@@ -8,6 +8,8 @@
  * - Extracts and enhances existing validation from multiProvider.ts
  * - Extracts and enhances existing rotation from contentGenerator.ts
  * - Integrates with healthMonitor.ts for health checks
+ * - Feeds per-key circuit breakers (lib/ai/circuitBreaker.ts); rotation
+ *   picks the healthiest available key
  * - Uses settingsStore for all key storage
  * 
  * Design (per implementation_plan.md):
@@ -19,6 +21,7 @@
 import { useSettingsStore, type ProviderId, type StoredKey } from '@/stores/settingsStore';
 import { checkProviderHealth, type ServiceHealth } from '@/lib/config/healthMonitor';
 import { isValidApiKeyFormat } from '@/lib/config/schemas';
+import { getCircuitBreaker, keyCircuitId } from '@/lib/ai/circuitBreaker';
 
 // ============ TYPES ============
 
@@ -58,6 +61,7 @@ const rotationState: Record<ProviderId, number> = {
     openrouter: 0,
     vercel: 0,
     perplexity: 0,
+    local: 0,
 };
 
 // ============ RATE LIMIT STATE ============
@@ -112,6 +116,15 @@ function isKeyExhausted(provider: ProviderId, keyIndex: number): boolean {
     return (info?.failureCount || 0) >= MAX_CONSECUTIVE_FAILURES;
 }
 
+/**
+ * Circuit id of the key at the current rotation index
+ */
+function currentKeyCircuit(provider: ProviderId): string | null {
+    const keys = useSettingsStore.getState().providerKeys[provider] || [];
+    if (keys.length === 0) return null;
+    return keyCircuitId(provider, keys[rotationState[provider] % keys.length].key);
+}
+
 // ============ KEY MANAGER CLASS ============
 
 /**
@@ -188,6 +201,7 @@ export class KeyManager {
             openrouter: [],
             vercel: [],
             perplexity: [],
+            local: [],
         };
 
         for (const provider of Object.keys(result) as ProviderId[]) {
@@ -262,6 +276,9 @@ export class KeyManager {
         info.isLimited = true;
         info.expiresAt = Date.now() + RATE_LIMIT_COOLDOWN_MS;
 
+        const circuitId = currentKeyCircuit(provider);
+        if (circuitId) getCircuitBreaker().recordFailure(circuitId, 'Rate limited (429)');
+
         console.log(`[KeyManager] Marked ${provider} key ${currentIndex} as rate-limited for 5 minutes`);
 
         // Try to find next available key
@@ -271,7 +288,7 @@ export class KeyManager {
     /**
      * Mark current key as failed (non-429 error)
      */
-    markFailure(provider: ProviderId): void {
+    markFailure(provider: ProviderId, error: string = 'Request failed', latencyMs?: number): void {
         const currentIndex = rotationState[provider];
         const key = getRateLimitKey(provider, currentIndex);
 
@@ -283,12 +300,15 @@ export class KeyManager {
 
         info.failureCount++;
         console.log(`[KeyManager] ${provider} key ${currentIndex} failure count: ${info.failureCount}`);
+
+        const circuitId = currentKeyCircuit(provider);
+        if (circuitId) getCircuitBreaker().recordFailure(circuitId, error, latencyMs);
     }
 
     /**
      * Mark current key as successful (reset failure count)
      */
-    markSuccess(provider: ProviderId): void {
+    markSuccess(provider: ProviderId, latencyMs: number = 0): void {
         const currentIndex = rotationState[provider];
         const key = getRateLimitKey(provider, currentIndex);
 
@@ -296,13 +316,40 @@ export class KeyManager {
         if (info) {
             info.failureCount = 0;
         }
+
+        const circuitId = currentKeyCircuit(provider);
+        if (circuitId) getCircuitBreaker().recordSuccess(circuitId, latencyMs);
     }
 
     /**
-     * Get next available key for a provider (not rate-limited, not exhausted)
+     * Get next available key for a provider (not rate-limited, not exhausted,
+     * circuit not open). The healthiest key wins; ties keep rotation order.
+     * The pick claims the key's circuit, so a cooled-down open circuit goes
+     * half-open and the call's markSuccess/markFailure closes or re-opens it;
+     * call releaseKey() if the call is abandoned instead.
      * Returns null if all keys are exhausted
      */
     getAvailableKey(provider: ProviderId): ValidatedKey | null {
+        return this.findAvailableKey(provider, true);
+    }
+
+    /**
+     * Check if provider has any working keys (claims nothing)
+     */
+    hasWorkingKeys(provider: ProviderId): boolean {
+        return this.findAvailableKey(provider, false) !== null;
+    }
+
+    /**
+     * Give back the current key's circuit trial when a call picked by
+     * getAvailableKey() ends without a success or failure (e.g. cancelled)
+     */
+    releaseKey(provider: ProviderId): void {
+        const circuitId = currentKeyCircuit(provider);
+        if (circuitId) getCircuitBreaker().release(circuitId);
+    }
+
+    private findAvailableKey(provider: ProviderId, claim: boolean): ValidatedKey | null {
         const state = useSettingsStore.getState();
         const keys = state.providerKeys[provider] || [];
 
@@ -310,22 +357,35 @@ export class KeyManager {
             return null;
         }
 
+        const breaker = getCircuitBreaker();
+        const candidates: Array<{ idx: number; circuitId: string; score: number }> = [];
+
         // Try each key starting from current
         const startIndex = rotationState[provider];
         for (let i = 0; i < keys.length; i++) {
             const idx = (startIndex + i) % keys.length;
+            const circuitId = keyCircuitId(provider, keys[idx].key);
 
-            if (!isKeyRateLimited(provider, idx) && !isKeyExhausted(provider, idx)) {
-                rotationState[provider] = idx;
-                const storedKey = keys[idx];
-                return {
-                    key: storedKey.key,
-                    provider,
-                    validated: storedKey.validated || false,
-                    validatedAt: storedKey.validatedAt,
-                    label: storedKey.label,
-                };
+            if (isKeyRateLimited(provider, idx) || isKeyExhausted(provider, idx) || !breaker.canRequest(circuitId)) {
+                continue;
             }
+            candidates.push({ idx, circuitId, score: breaker.getHealthScore(circuitId) });
+        }
+
+        // Stable sort: equal scores keep rotation order
+        candidates.sort((a, b) => b.score - a.score);
+        const best = candidates.find(c => !claim || breaker.acquire(c.circuitId, { provider }));
+
+        if (best) {
+            rotationState[provider] = best.idx;
+            const storedKey = keys[best.idx];
+            return {
+                key: storedKey.key,
+                provider,
+                validated: storedKey.validated || false,
+                validatedAt: storedKey.validatedAt,
+                label: storedKey.label,
+            };
         }
 
         // All keys exhausted
@@ -333,13 +393,6 @@ export class KeyManager {
         return null;
     }
 
-    /**
-     * Check if provider has any working keys
-     */
-    hasWorkingKeys(provider: ProviderId): boolean {
-        return this.getAvailableKey(provider) !== null;
-    }
-
     /**
      * Get status message for handler failures
      */
@@ -348,6 +401,9 @@ export class KeyManager {
         const keys = state.providerKeys[provider] || [];
 
         if (keys.length === 0) {
+            if (provider === 'local') {
+                return 'No local model endpoint configured. Add one (e.g. http://localhost:11434/v1) in Settings → AI Providers.';
+            }
             return `No API keys configured for ${provider}. Add keys in Settings → AI Providers.`;
         }
 
@@ -464,7 +520,15 @@ export class KeyManager {
             };
         }
 
-        return checkProviderHealth(provider, key.key);
+        // Health checks count towards the key's circuit
+        const health = await checkProviderHealth(provider, key.key);
+        const circuitId = keyCircuitId(provider, key.key);
+        if (health.status === 'healthy') {
+            getCircuitBreaker().recordSuccess(circuitId, health.latency || 0);
+        } else if (health.status === 'unhealthy') {
+            getCircuitBreaker().recordFailure(circuitId, health.error || 'Health check failed', health.latency);
+        }
+        return health;
     }
 
     /**
@@ -479,7 +543,7 @@ export class KeyManager {
         }
 
         // Fill in unconfigured for disabled providers
-        const allProviders: ProviderId[] = ['gemini', 'deepseek', 'openrouter', 'vercel', 'perplexity'];
+        const allProviders: ProviderId[] = ['gemini', 'deepseek', 'openrouter', 'vercel', 'perplexity', 'local'];
         for (const provider of allProviders) {
             if (!results[provider]) {
                 results[provider] = {
@@ -516,7 +580,7 @@ export class KeyManager {
      */
     getSummary(): Record<ProviderId, { enabled: boolean; keyCount: number; validated: number }> {
         const state = useSettingsStore.getState();
-        const allProviders: ProviderId[] = ['gemini', 'deepseek', 'openrouter', 'vercel', 'perplexity'];
+        const allProviders: ProviderId[] = ['gemini', 'deepseek', 'openrouter', 'vercel', 'perplexity', 'local'];
 
         const result = {} as Record<ProviderId, { enabled: boolean; keyCount: number; validated: number }>;
 
@@ -53,6 +53,13 @@ export const PROVIDER_PRICING: Record<string, ProviderRate> = {
         outputPerToken: 0.0000006,
         requestFee: 0,
         notes: 'Based on underlying model'
+    },
+    local: {
+        name: 'Local Model',
+        inputPerToken: 0,           // Runs on your own hardware
+        outputPerToken: 0,
+        requestFee: 0,
+        notes: 'Ollama / llama.cpp / LM Studio / vLLM'
     }
 };
 
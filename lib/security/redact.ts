@@ -0,0 +1,84 @@
+/**
+ * Secret Redaction
+ * FSD: lib/security/redact.ts
+ *
+ * Strips API keys, tokens and sealed vault values from anything that ends up
+ * in logs or diagnostics. Known secret shapes are matched by pattern; values
+ * opened from the vault are registered so they are redacted verbatim too.
+ * Runs in the browser and on the server.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+// Shortest value registered for verbatim redaction (avoids masking common words)
+const MIN_REGISTERED_LENGTH = 8;
+
+const SECRET_PATTERNS: RegExp[] = [
+    /vault:v\d+:[A-Za-z0-9_-]+/g,                          // Sealed vault values
+    /\bsk-(?:or-v\d-|ant-|proj-)?[A-Za-z0-9_-]{16,}/g,      // OpenAI / OpenRouter / Anthropic style
+    /\bAIza[0-9A-Za-z_-]{35}\b/g,                          // Google API keys
+    /\bgh[pousr]_[A-Za-z0-9]{20,}\b/g,                     // GitHub tokens
+    /\bgithub_pat_[A-Za-z0-9_]{20,}\b/g,
+    /\bBearer\s+[A-Za-z0-9._~+/-]{12,}=*/gi,               // Authorization headers
+];
+
+// key=value / "key": "value" pairs whose key names a credential
+const KEYED_SECRET = /((?:api[_-]?key|apikey|access[_-]?token|auth[_-]?token|token|secret|password|client[_-]?secret)["']?\s*[:=]\s*["']?)([^"'&\s,;}]{6,})/gi;
+
+const registeredSecrets = new Set<string>();
+
+/**
+ * Register a plaintext secret so later log lines containing it are redacted
+ */
+export function registerSecretForRedaction(value: string | undefined | null): void {
+    if (value && value.length >= MIN_REGISTERED_LENGTH) {
+        registeredSecrets.add(value);
+    }
+}
+
+/**
+ * Forget registered secrets (tests, key rotation)
+ */
+export function clearRegisteredSecrets(): void {
+    registeredSecrets.clear();
+}
+
+/**
+ * Redact secrets from a string
+ */
+export function redactSecrets(text: string): string {
+    if (!text) return text;
+
+    let result = text;
+    for (const secret of registeredSecrets) {
+        if (result.includes(secret)) {
+            result = result.split(secret).join(REDACTED);
+        }
+    }
+    for (const pattern of SECRET_PATTERNS) {
+        result = result.replace(pattern, match => match.toLowerCase().startsWith('bearer') ? `Bearer ${REDACTED}` : REDACTED);
+    }
+    return result.replace(KEYED_SECRET, (_, prefix: string) => `${prefix}${REDACTED}`);
+}
+
+/**
+ * Redact secrets from strings nested anywhere in a value
+ */
+export function redactValue<T>(value: T): T {
+    if (typeof value === 'string') return redactSecrets(value) as T;
+    if (Array.isArray(value)) return value.map(item => redactValue(item)) as T;
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(
+            Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, redactValue(item)])
+        ) as T;
+    }
+    return value;
+}
+
+/**
+ * Show only the ends of a secret, for UIs that confirm which key is stored
+ */
+export function maskSecret(value: string): string {
+    if (value.length <= 8) return '•'.repeat(value.length);
+    return `${value.slice(0, 4)}…${value.slice(-4)}`;
+}
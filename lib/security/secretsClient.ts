@@ -0,0 +1,113 @@
+/**
+ * Secrets Client
+ * FSD: lib/security/secretsClient.ts
+ *
+ * Browser access to server-held integration secrets (/api/settings/secrets)
+ * and to vault encryption of settings exports (/api/settings/vault).
+ */
+
+// ============================================================================
+// Integration Secrets
+// ============================================================================
+
+/**
+ * Secret name holding a WordPress site's ifrit-connector token, used by the
+ * webhook route to verify signed events
+ */
+export function connectorTokenSecretName(siteUrl: string): string {
+    const host = siteUrl.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+    return `wp_connector_token:${host}`;
+}
+
+/**
+ * Open the named secrets. Missing names are absent from the result.
+ */
+export async function loadSecrets(names: string[]): Promise<Record<string, string>> {
+    const res = await fetch(`/api/settings/secrets?names=${encodeURIComponent(names.join(','))}`);
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load secrets');
+    }
+    return data.secrets || {};
+}
+
+/**
+ * Store secrets in the vault. Empty values delete the secret.
+ */
+export async function storeSecrets(secrets: Record<string, string | null>): Promise<void> {
+    const res = await fetch('/api/settings/secrets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ secrets }),
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to store secrets');
+    }
+}
+
+export async function deleteSecrets(names: string[]): Promise<void> {
+    const res = await fetch(`/api/settings/secrets?names=${encodeURIComponent(names.join(','))}`, { method: 'DELETE' });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete secrets');
+    }
+}
+
+/**
+ * Move credentials still sitting in localStorage into the vault, then remove
+ * them from the browser. Keys are used as secret names unchanged.
+ */
+export async function migrateLocalSecrets(keys: string[]): Promise<number> {
+    if (typeof window === 'undefined') return 0;
+
+    const found: Record<string, string> = {};
+    for (const key of keys) {
+        const value = localStorage.getItem(key);
+        if (value) found[key] = value;
+    }
+    if (Object.keys(found).length === 0) return 0;
+
+    await storeSecrets(found);
+    for (const key of Object.keys(found)) {
+        localStorage.removeItem(key);
+    }
+    return Object.keys(found).length;
+}
+
+// ============================================================================
+// Settings Export Encryption
+// ============================================================================
+
+async function vaultRequest<T>(body: Record<string, unknown>): Promise<T> {
+    const res = await fetch('/api/settings/vault', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Vault request failed');
+    }
+    return data as T;
+}
+
+/**
+ * Whether the server has a master key to seal exports with
+ */
+export async function getVaultStatus(): Promise<{ configured: boolean; keyVersion: number }> {
+    const res = await fetch('/api/settings/vault');
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Vault request failed');
+    }
+    return { configured: !!data.configured, keyVersion: data.keyVersion };
+}
+
+export async function sealExport(data: string): Promise<string> {
+    return (await vaultRequest<{ sealed: string }>({ action: 'seal', data })).sealed;
+}
+
+export async function openExport(sealed: string): Promise<string> {
+    return (await vaultRequest<{ data: string }>({ action: 'open', sealed })).data;
+}
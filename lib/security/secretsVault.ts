@@ -0,0 +1,227 @@
+/**
+ * Secrets Vault
+ * FSD: lib/security/secretsVault.ts
+ *
+ * Envelope encryption for provider keys and integration credentials. Every
+ * secret is encrypted with its own random data key (AES-256-GCM) and the data
+ * key is wrapped with the master key from the environment. Sealed values carry
+ * the master key version, so rotating only re-wraps data keys.
+ *
+ * Environment:
+ * - SECRETS_MASTER_KEY          current master key (any string; base64 of 32 bytes recommended)
+ * - SECRETS_MASTER_KEY_VERSION  version number of the current key (default 1)
+ * - SECRETS_MASTER_KEY_V<n>     retired keys, kept until rotateSealedSecret() has run over every value
+ *
+ * Server-only (node crypto).
+ */
+
+import crypto from 'crypto';
+import { registerSecretForRedaction } from './redact';
+
+const SEALED_PREFIX = 'vault:v1:';
+const ALGORITHM = 'aes-256-gcm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Decoded sealed value. All binary fields are base64url.
+ */
+interface SealedEnvelope {
+    kv: number;      // Master key version that wrapped the data key
+    wk: string;      // Wrapped data key
+    wiv: string;
+    wtag: string;
+    iv: string;      // Payload
+    ct: string;
+    tag: string;
+}
+
+export class SecretsVaultError extends Error {
+    constructor(
+        message: string,
+        public code: 'not_configured' | 'unknown_key_version' | 'malformed' | 'decrypt_failed'
+    ) {
+        super(message);
+        this.name = 'SecretsVaultError';
+    }
+}
+
+// ============================================================================
+// Master Keys
+// ============================================================================
+
+function deriveKey(material: string): Buffer {
+    const decoded = Buffer.from(material, 'base64');
+    if (decoded.length === 32 && decoded.toString('base64').replace(/=+$/, '') === material.replace(/=+$/, '')) {
+        return decoded;
+    }
+    return crypto.createHash('sha256').update(material, 'utf8').digest();
+}
+
+/**
+ * Version of the master key new values are sealed with
+ */
+export function getCurrentKeyVersion(): number {
+    const version = parseInt(process.env.SECRETS_MASTER_KEY_VERSION || '1', 10);
+    return Number.isFinite(version) && version > 0 ? version : 1;
+}
+
+function getMasterKey(version: number): Buffer | null {
+    const material = version === getCurrentKeyVersion()
+        ? process.env.SECRETS_MASTER_KEY || process.env[`SECRETS_MASTER_KEY_V${version}`]
+        : process.env[`SECRETS_MASTER_KEY_V${version}`];
+    return material ? deriveKey(material) : null;
+}
+
+/**
+ * Whether a master key is configured. Without one, secrets stay plaintext
+ * until the migration runs with a key set.
+ */
+export function isVaultConfigured(): boolean {
+    return getMasterKey(getCurrentKeyVersion()) !== null;
+}
+
+// ============================================================================
+// Seal / Open
+// ============================================================================
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): { iv: Buffer; ct: Buffer; tag: Buffer } {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+    const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, ct, tag: cipher.getAuthTag() };
+}
+
+function decrypt(key: Buffer, iv: string, ct: string, tag: string, aad: string): Buffer {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ct, 'base64url')), decipher.final()]);
+}
+
+function decode(sealed: string): SealedEnvelope {
+    try {
+        const envelope = JSON.parse(Buffer.from(sealed.slice(SEALED_PREFIX.length), 'base64url').toString('utf8'));
+        if (typeof envelope.kv !== 'number' || !envelope.wk || !envelope.ct) throw new Error('missing fields');
+        return envelope as SealedEnvelope;
+    } catch {
+        throw new SecretsVaultError('Sealed secret is malformed', 'malformed');
+    }
+}
+
+function unwrapDataKey(envelope: SealedEnvelope, context: string): Buffer {
+    const masterKey = getMasterKey(envelope.kv);
+    if (!masterKey) {
+        throw new SecretsVaultError(`Master key version ${envelope.kv} is not configured`, 'unknown_key_version');
+    }
+    try {
+        return decrypt(masterKey, envelope.wiv, envelope.wk, envelope.wtag, `dek:${envelope.kv}:${context}`);
+    } catch {
+        throw new SecretsVaultError('Could not unwrap data key (wrong master key?)', 'decrypt_failed');
+    }
+}
+
+function wrapDataKey(dataKey: Buffer, context: string): Pick<SealedEnvelope, 'kv' | 'wk' | 'wiv' | 'wtag'> {
+    const kv = getCurrentKeyVersion();
+    const masterKey = getMasterKey(kv);
+    if (!masterKey) {
+        throw new SecretsVaultError('SECRETS_MASTER_KEY is not set', 'not_configured');
+    }
+    const wrapped = encrypt(masterKey, dataKey, `dek:${kv}:${context}`);
+    return {
+        kv,
+        wk: wrapped.ct.toString('base64url'),
+        wiv: wrapped.iv.toString('base64url'),
+        wtag: wrapped.tag.toString('base64url'),
+    };
+}
+
+function encode(envelope: SealedEnvelope): string {
+    return SEALED_PREFIX + Buffer.from(JSON.stringify(envelope), 'utf8').toString('base64url');
+}
+
+export function isSealed(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * Encrypt a secret. The context (e.g. "provider_keys:gemini") is bound as
+ * associated data, so a sealed value cannot be moved to another slot.
+ */
+export function sealSecret(plaintext: string, context = ''): string {
+    const dataKey = crypto.randomBytes(32);
+    const payload = encrypt(dataKey, Buffer.from(plaintext, 'utf8'), `secret:${context}`);
+
+    return encode({
+        ...wrapDataKey(dataKey, context),
+        iv: payload.iv.toString('base64url'),
+        ct: payload.ct.toString('base64url'),
+        tag: payload.tag.toString('base64url'),
+    });
+}
+
+/**
+ * Decrypt a sealed secret. Plaintext (not yet migrated) values pass through.
+ */
+export function openSecret(value: string, context = ''): string {
+    if (!isSealed(value)) return value;
+
+    const envelope = decode(value);
+    const dataKey = unwrapDataKey(envelope, context);
+    let plaintext: string;
+    try {
+        plaintext = decrypt(dataKey, envelope.iv, envelope.ct, envelope.tag, `secret:${context}`).toString('utf8');
+    } catch {
+        throw new SecretsVaultError('Could not decrypt secret', 'decrypt_failed');
+    }
+
+    registerSecretForRedaction(plaintext);
+    return plaintext;
+}
+
+let warnedUnconfigured = false;
+
+/**
+ * Seal when a master key is configured, otherwise keep plaintext (warned once)
+ */
+export function sealIfConfigured(plaintext: string, context = ''): string {
+    if (isVaultConfigured()) return sealSecret(plaintext, context);
+    if (!warnedUnconfigured) {
+        console.warn('[SecretsVault] SECRETS_MASTER_KEY is not set; secrets are stored unencrypted');
+        warnedUnconfigured = true;
+    }
+    registerSecretForRedaction(plaintext);
+    return plaintext;
+}
+
+// ============================================================================
+// Rotation
+// ============================================================================
+
+/**
+ * Master key version of a sealed value (undefined for plaintext)
+ */
+export function getSealedKeyVersion(value: string): number | undefined {
+    return isSealed(value) ? decode(value).kv : undefined;
+}
+
+/**
+ * Bring one stored value up to date: seal plaintext and re-wrap data keys
+ * sealed under an older master key. Returns null when nothing changed.
+ */
+export function rotateSealedSecret(value: string, context = ''): string | null {
+    if (!isVaultConfigured()) return null;
+
+    if (!isSealed(value)) {
+        return sealSecret(value, context);
+    }
+
+    const envelope = decode(value);
+    if (envelope.kv === getCurrentKeyVersion()) return null;
+
+    const dataKey = unwrapDataKey(envelope, context);
+    return encode({ ...envelope, ...wrapDataKey(dataKey, context) });
+}
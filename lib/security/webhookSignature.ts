@@ -0,0 +1,26 @@
+/**
+ * Webhook Signatures
+ * FSD: lib/security/webhookSignature.ts
+ *
+ * The ifrit-connector plugin signs every webhook body with HMAC-SHA256 keyed
+ * by the site's connector token. The token is stored in the secrets vault
+ * (see connectorTokenSecretName) when the plugin is connected, so the webhook
+ * route can verify events without the browser-side WP sites store. Server only.
+ */
+
+import crypto from 'crypto';
+
+export function signWebhookBody(body: string, token: string): string {
+    return crypto.createHmac('sha256', token).update(body).digest('hex');
+}
+
+/**
+ * Constant-time check of an X-Ifrit-Signature header against the raw body
+ */
+export function verifyWebhookSignature(body: string, signature: string | null, token: string): boolean {
+    if (!signature || !token) return false;
+
+    const expected = Buffer.from(signWebhookBody(body, token), 'hex');
+    const received = Buffer.from(signature.trim().toLowerCase(), 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
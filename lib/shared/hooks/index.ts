@@ -7,3 +7,4 @@
 export { useActionStatus } from './useActionStatus';
 export { useGlobalActionStatus } from './useGlobalActionStatus';
 export { useStatusStream } from './useStatusStream';
+export { useGenerationStream, readCapabilityStream } from './useGenerationStream';
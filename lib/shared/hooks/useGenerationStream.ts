@@ -0,0 +1,220 @@
+/**
+ * useGenerationStream - Client-side consumer for capability token streams
+ *
+ * POSTs to /api/capabilities/[capability]/stream and accumulates the text
+ * as it arrives. cancel() aborts the request, which stops generation at
+ * the provider; the partial text is kept.
+ *
+ * @example
+ * ```tsx
+ * const { text, status, start, cancel } = useGenerationStream();
+ * start({ prompt: 'Write about...', maxTokens: 8000 });
+ * ```
+ *
+ * @module shared/hooks/useGenerationStream
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// ============================================
+// Types
+// ============================================
+
+export type GenerationStreamStatus = 'idle' | 'streaming' | 'done' | 'error' | 'cancelled';
+
+export interface GenerationStreamResult {
+    success: boolean;
+    text?: string;
+    data?: unknown;                  // Validated JSON when responseSchema was sent
+    error?: string;
+    cancelled?: boolean;
+    handlerUsed?: string;
+    model?: string;
+    latencyMs?: number;
+    fallbacksAttempted?: string[];
+    budgetBlocked?: boolean;
+    fromCache?: boolean;
+    diagnostics?: Record<string, unknown>;
+}
+
+export type GenerationStreamEvent =
+    | { event: 'start'; data: { handlerId: string; handlerName: string } }
+    | { event: 'chunk'; data: { text: string } }
+    | { event: 'done'; data: GenerationStreamResult };
+
+/** Request body - same fields as POST /api/capabilities/[capability] */
+export interface GenerationStreamRequest {
+    prompt: string;
+    systemPrompt?: string;
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    preferredHandler?: string;
+    campaignId?: string;
+    topic?: string;
+    itemType?: string;
+    bypassCache?: boolean;
+    responseSchema?: Record<string, unknown>;
+    context?: Record<string, unknown>;
+}
+
+interface UseGenerationStreamReturn {
+    /** Text received so far */
+    text: string;
+    status: GenerationStreamStatus;
+    /** Handler currently (or last) writing */
+    handlerName: string | null;
+    /** Final result once status is done/error/cancelled */
+    result: GenerationStreamResult | null;
+    error: string | null;
+    start: (request: GenerationStreamRequest) => Promise<GenerationStreamResult | null>;
+    cancel: () => void;
+    reset: () => void;
+}
+
+// ============================================
+// SSE parsing
+// ============================================
+
+/**
+ * Read a capability SSE response, calling onEvent for each parsed event.
+ * Events can span network chunks, so parsing works on a rolling buffer.
+ */
+export async function readCapabilityStream(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: GenerationStreamEvent) => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const dispatch = (block: string) => {
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+        }
+        if (data.length === 0) return;
+
+        try {
+            onEvent({ event, data: JSON.parse(data.join('\n')) } as GenerationStreamEvent);
+        } catch {
+            // Skip malformed events
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+        blocks.forEach(dispatch);
+    }
+
+    if (buffer.trim()) dispatch(buffer);
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export function useGenerationStream(capability: string = 'generate'): UseGenerationStreamReturn {
+    const [text, setText] = useState('');
+    const [status, setStatus] = useState<GenerationStreamStatus>('idle');
+    const [handlerName, setHandlerName] = useState<string | null>(null);
+    const [result, setResult] = useState<GenerationStreamResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const abortRef = useRef<AbortController | null>(null);
+
+    const finish = useCallback((final: GenerationStreamResult) => {
+        setResult(final);
+        setStatus(final.cancelled ? 'cancelled' : final.success ? 'done' : 'error');
+        if (!final.success && !final.cancelled) setError(final.error || 'Generation failed');
+    }, []);
+
+    const start = useCallback(async (request: GenerationStreamRequest) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        setText('');
+        setResult(null);
+        setError(null);
+        setHandlerName(null);
+        setStatus('streaming');
+
+        let received = '';
+        let final: GenerationStreamResult | null = null;
+
+        try {
+            const response = await fetch(`/api/capabilities/${capability}/stream`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+                signal: controller.signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const errorText = await response.text();
+                throw new Error(`Stream HTTP ${response.status}: ${errorText.substring(0, 200)}`);
+            }
+
+            await readCapabilityStream(response.body, (event) => {
+                if (event.event === 'start') {
+                    // Fallback to another handler restarts the text
+                    received = '';
+                    setText('');
+                    setHandlerName(event.data.handlerName);
+                } else if (event.event === 'chunk') {
+                    received += event.data.text;
+                    setText(received);
+                } else if (event.event === 'done') {
+                    final = event.data;
+                }
+            });
+        } catch (err) {
+            if (!controller.signal.aborted) {
+                final = { success: false, text: received, error: err instanceof Error ? err.message : 'Stream failed' };
+            }
+        }
+
+        // Aborted requests never receive the server's done event
+        if (controller.signal.aborted) {
+            final = { success: false, text: received, cancelled: true, error: 'Cancelled' };
+        }
+
+        final ??= { success: false, text: received, error: 'Stream ended unexpectedly' };
+        if (abortRef.current === controller) {
+            abortRef.current = null;
+            finish(final);
+        }
+        return final;
+    }, [capability, finish]);
+
+    const cancel = useCallback(() => {
+        abortRef.current?.abort();
+    }, []);
+
+    const reset = useCallback(() => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+        setText('');
+        setStatus('idle');
+        setHandlerName(null);
+        setResult(null);
+        setError(null);
+    }, []);
+
+    // Stop generating if the component unmounts mid-stream
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    return { text, status, handlerName, result, error, start, cancel, reset };
+}
+
+export default useGenerationStream;
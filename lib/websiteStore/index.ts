@@ -38,4 +38,7 @@ export * from './externalContent';
 // Export selective deploy functions
 export * from './selectiveDeploy';
 
+// Export translation functions
+export * from './translationCrud';
+
 // Note: Website CRUD still in parent
@@ -0,0 +1,158 @@
+/**
+ * Article Translation Operations
+ *
+ * Translated copies of articles for multilingual sites, stored on the
+ * article itself and deployed as content/<locale>/<slug>.md
+ */
+
+import type { Article, ArticleTranslation } from './types';
+import { getArticle, listArticles, saveArticle } from './articleCrud';
+
+// Forward declaration for circular dependency resolution
+let _incrementPendingChanges: (domain: string) => void;
+
+/**
+ * Initialize dependencies from main websiteStore
+ */
+export function _initTranslationCrudDeps(deps: {
+    incrementPendingChanges: typeof _incrementPendingChanges;
+}) {
+    _incrementPendingChanges = deps.incrementPendingChanges;
+}
+
+export interface PendingTranslation {
+    articleId: string;
+    slug: string;
+    locale: string;
+    title: string;
+    description: string;
+    content: string;
+}
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,4})?$/;
+
+export function isValidLocale(locale: string): boolean {
+    return LOCALE_PATTERN.test(locale);
+}
+
+// ============================================
+// TRANSLATIONS
+// ============================================
+
+/**
+ * Articles whose translation into a locale is missing or older than the
+ * article. Drafts are skipped until they are ready.
+ */
+export function getPendingTranslations(domain: string, locales: string[]): PendingTranslation[] {
+    const pending: PendingTranslation[] = [];
+
+    for (const article of listArticles(domain)) {
+        if (article.pageType !== 'article' || article.status === 'draft') continue;
+
+        for (const locale of locales.filter(isValidLocale)) {
+            const existing = article.translations?.[locale];
+            if (existing && existing.sourceModifiedAt >= article.lastModifiedAt) continue;
+
+            pending.push({
+                articleId: article.id,
+                slug: article.slug,
+                locale,
+                title: article.title,
+                description: article.description,
+                content: article.content,
+            });
+        }
+    }
+
+    return pending;
+}
+
+/**
+ * Store a translation against the article version it was made from
+ */
+export function saveArticleTranslation(
+    domain: string,
+    articleId: string,
+    locale: string,
+    translation: Pick<ArticleTranslation, 'title' | 'description' | 'content' | 'provider'>
+): Article | null {
+    if (!isValidLocale(locale)) {
+        throw new Error(`Invalid locale: ${locale}`);
+    }
+
+    const article = getArticle(domain, articleId);
+    if (!article) return null;
+
+    // lastModifiedAt is left alone: a translation does not change the source
+    const updated: Article = {
+        ...article,
+        translations: {
+            ...article.translations,
+            [locale]: {
+                ...translation,
+                translatedAt: Date.now(),
+                sourceModifiedAt: article.lastModifiedAt,
+            },
+        },
+    };
+    saveArticle(domain, updated);
+    _incrementPendingChanges(domain);
+
+    return updated;
+}
+
+/**
+ * Remove one locale's translation from an article
+ */
+export function deleteArticleTranslation(domain: string, articleId: string, locale: string): boolean {
+    const article = getArticle(domain, articleId);
+    if (!article?.translations?.[locale]) return false;
+
+    const translations = { ...article.translations };
+    delete translations[locale];
+    saveArticle(domain, { ...article, translations });
+    _incrementPendingChanges(domain);
+
+    return true;
+}
+
+// ============================================
+// DEPLOY FILES
+// ============================================
+
+function toDateString(timestamp: number): string {
+    return new Date(timestamp).toISOString().split('T')[0];
+}
+
+/**
+ * Markdown files for every translation, keyed by repository path
+ * (content/<locale>/<slug>.md), for use as extra deploy files
+ */
+export function buildLocaleContentFiles(domain: string, locales?: string[]): Record<string, string> {
+    const files: Record<string, string> = {};
+
+    for (const article of listArticles(domain)) {
+        if (article.pageType !== 'article' || article.status === 'draft') continue;
+
+        for (const [locale, translation] of Object.entries(article.translations || {})) {
+            if (!isValidLocale(locale) || (locales && !locales.includes(locale))) continue;
+
+            const frontmatter = [
+                '---',
+                `title: ${JSON.stringify(translation.title)}`,
+                `description: ${JSON.stringify(translation.description)}`,
+                `date: "${toDateString(article.publishedAt ?? article.generatedAt ?? article.lastModifiedAt)}"`,
+                `updated: "${toDateString(translation.translatedAt)}"`,
+                `category: ${JSON.stringify(article.category)}`,
+                ...(article.coverImage ? [`image: ${JSON.stringify(article.coverImage.url)}`] : []),
+                `locale: "${locale}"`,
+                '---',
+                '',
+            ].join('\n');
+
+            files[`content/${locale}/${article.slug}.md`] = `${frontmatter}\n${translation.content}\n`;
+        }
+    }
+
+    return files;
+}
@@ -94,6 +94,10 @@ export interface Website {
         bio?: string;
     };
 
+    // Languages: the default is served at /, the others at /<locale>/
+    defaultLocale?: string;
+    locales?: string[];
+
     status: WebsiteStatus;
     createdAt: number;
     updatedAt: number;
@@ -175,6 +179,18 @@ export interface Article {
 
     // Version history (last 10 versions kept)
     versions?: ArticleVersion[];
+
+    // Translations keyed by locale (served at /<locale>/<slug>)
+    translations?: Record<string, ArticleTranslation>;
+}
+
+export interface ArticleTranslation {
+    title: string;
+    description: string;
+    content: string;
+    provider: string;           // Handler used, e.g. 'deepl-translate'
+    translatedAt: number;
+    sourceModifiedAt: number;   // Article lastModifiedAt that was translated
 }
 
 export interface ArticleVersion {
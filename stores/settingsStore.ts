@@ -170,6 +170,14 @@ export const PROVIDER_CONFIGS: Record<ProviderId, ProviderConfig> = {
         keyPrefix: 'pplx-',
         docsUrl: 'https://docs.perplexity.ai/',
     },
+    local: {
+        id: 'local',
+        name: 'Local (Ollama / OpenAI-compatible)',
+        models: [],             // Discovered from the endpoint's /v1/models
+        defaultModel: '',
+        keyPrefix: 'http://',   // "Key" is the endpoint URL, optionally "|token"
+        docsUrl: 'https://github.com/ollama/ollama/blob/main/docs/openai.md',
+    },
 };
 
 // User Profile - full state for backup/restore
@@ -191,6 +199,7 @@ export interface ExportedSettings {
     app: string;
     profile?: UserProfile;           // New format (v4+)
     settings?: Record<string, string>; // Legacy format (v3.x and earlier)
+    encrypted?: string;              // Vault-sealed JSON of { profile } (encrypted exports)
 }
 
 // ============ STORAGE KEYS ============
@@ -302,6 +311,7 @@ const DEFAULT_PROVIDER_KEYS: Record<ProviderId, StoredKey[]> = {
     openrouter: [],
     vercel: [],
     perplexity: [],
+    local: [],
 };
 
 const DEFAULT_INTEGRATIONS: IntegrationConfig = {
@@ -9,6 +9,7 @@
  * - Filter by campaign, site, level, date
  * - JSON/CSV export
  * - Automatic cleanup of old logs
+ * - API keys and tokens redacted before storage
  * 
  * @module stores/unifiedLogStore
  */
@@ -16,6 +17,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import type { ActionCategory, ErrorDetails, ActionId } from '@/lib/shared/types/globalActionStatus';
+import { redactValue } from '@/lib/security/redact';
 
 // ============================================================================
 // Types
@@ -179,7 +181,7 @@ export const useUnifiedLogStore = create<UnifiedLogStore>()(
             addLog: (entry) => {
                 const id = generateLogId();
                 const newLog: LogEntry = {
-                    ...entry,
+                    ...redactValue(entry),
                     id,
                     timestamp: Date.now(),
                     sessionId: get().currentSessionId,
@@ -200,7 +202,7 @@ export const useUnifiedLogStore = create<UnifiedLogStore>()(
             addLogs: (entries) => {
                 const sessionId = get().currentSessionId;
                 const newLogs = entries.map((entry) => ({
-                    ...entry,
+                    ...redactValue(entry),
                     id: generateLogId(),
                     timestamp: Date.now(),
                     sessionId,
@@ -4,7 +4,9 @@
  */
 
 import { AISiteDecisions, generateAIDecisionCSS } from '@/lib/aiSiteBuilder';
-import { generateAdsTxt } from '@/templates/shared/components/seoFiles';
+import { generateAdsTxt, generateRobotsTxt } from '@/templates/shared/components/seoFiles';
+import { generateFeedFiles } from '@/templates/shared/components/feedFiles';
+import { generateLocaleFiles, isRtlLocale, resolveLocales } from '@/templates/shared/components/i18nFiles';
 
 export interface SiteConfig {
     siteName: string;
@@ -22,6 +24,8 @@ export interface SiteConfig {
     };
     umamiId?: string;
     aiDecisions?: AISiteDecisions; // AI-generated configuration decisions
+    locales?: string[]; // e.g. ['en', 'es', 'fr']: the default at /, the others at /<locale>/
+    defaultLocale?: string; // Defaults to the first locale, or 'en'
 }
 
 export function generateTemplateFiles(repoName: string, config?: Partial<SiteConfig>) {
@@ -34,6 +38,8 @@ export function generateTemplateFiles(repoName: string, config?: Partial<SiteCon
     const secondaryColor = config?.colors?.secondary || '#0ea5e9'; // Sky-500
     const adsensePublisherId = config?.adsensePublisherId || '';
     const umamiId = config?.umamiId;
+    const domain = config?.domain || repoName.replace(/-/g, '.');
+    const { defaultLocale, locales } = resolveLocales(config?.locales, config?.defaultLocale);
     const aiDecisions = config?.aiDecisions;
 
     return [
@@ -91,7 +97,7 @@ export function generateTemplateFiles(repoName: string, config?: Partial<SiteCon
         // Layout
         {
             path: 'app/layout.tsx',
-            content: generateLayoutComponent(siteName, tagline, adsensePublisherId, umamiId)
+            content: generateLayoutComponent(siteName, tagline, defaultLocale, adsensePublisherId, umamiId)
         },
 
         // Homepage
@@ -150,7 +156,19 @@ export function generateTemplateFiles(repoName: string, config?: Partial<SiteCon
         ...(adsensePublisherId ? [{
             path: 'public/ads.txt',
             content: generateAdsTxt(adsensePublisherId)
-        }] : [])
+        }] : []),
+
+        // robots.txt
+        {
+            path: 'public/robots.txt',
+            content: generateRobotsTxt(domain)
+        },
+
+        // sitemap.xml, news sitemap, RSS and Atom feeds (built from content/)
+        ...generateFeedFiles({ siteName, tagline, domain }),
+
+        // Additional locales at /<locale>/ with hreflang alternates
+        ...generateLocaleFiles({ siteName, tagline, domain, defaultLocale, locales })
     ];
 }
 
@@ -230,14 +248,18 @@ function generateGlobalStyles(primary: string, secondary: string): string {
     return generateDefaultThemeCSS(primary, secondary) + generateBaseCSS();
 }
 
-function generateLayoutComponent(siteName: string, tagline: string, adsensePublisherId?: string, umamiId?: string): string {
+function generateLayoutComponent(siteName: string, tagline: string, defaultLocale: string, adsensePublisherId?: string, umamiId?: string): string {
     return `import './globals.css';
 import Link from 'next/link';
-export const metadata = { title: '${siteName}', description: '${tagline}' };
+export const metadata = {
+    title: '${siteName}',
+    description: '${tagline}',
+    alternates: { types: { 'application/rss+xml': '/feed.xml', 'application/atom+xml': '/atom.xml' } },
+};
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
     return (
-        <html lang="en">
+        <html lang="${defaultLocale}" dir="${isRtlLocale(defaultLocale) ? 'rtl' : 'ltr'}">
             <head>
                 ${adsensePublisherId ? `<script async src="https://pagead2.googlesyndication.com/pagead/js/adsbygoogle.js?client=${adsensePublisherId}" crossOrigin="anonymous" />` : ''}
                 ${umamiId ? `<script defer src="https://cloud.umami.is/script.js" data-website-id="${umamiId}"></script>` : ''}
@@ -273,8 +295,13 @@ export default function RootLayout({ children }: { children: React.ReactNode })
 
 function generateHomepage(siteName: string, tagline: string): string {
     return `import { getAllArticles } from '../lib/content';
+import { getAlternates } from '../lib/i18n';
 import Link from 'next/link';
 
+export const metadata = {
+    alternates: getAlternates(),
+};
+
 export default function Home() {
     const articles = getAllArticles();
     
@@ -314,6 +341,7 @@ export default function Home() {
 
 function generateArticlePage(name: string, role: string, bio: string) {
     return `import { getArticleBySlug, getAllArticles } from '../../lib/content';
+import { getAlternates } from '../../lib/i18n';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -324,7 +352,7 @@ export async function generateStaticParams() {
 export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }) {
     const { slug } = await params;
     const article = getArticleBySlug(slug);
-    return { title: article?.title, description: article?.description };
+    return { title: article?.title, description: article?.description, alternates: getAlternates(slug) };
 }
 export default async function ArticlePage({ params }: { params: Promise<{ slug: string }> }) {
     const { slug } = await params;
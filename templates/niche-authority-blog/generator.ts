@@ -15,7 +15,10 @@ import {
     generateThemeCSS,
     generateAdsTxt,
     generateRobotsTxt,
-    generateSitemapXml,
+    generateFeedFiles,
+    generateLocaleFiles,
+    resolveLocales,
+    isRtlLocale,
     generateManifest,
     generateGraphicsFiles
 } from '../shared';
@@ -40,6 +43,8 @@ export interface SiteConfig {
     umamiId?: string; // Optional Umami Website ID
     template?: 'niche' | 'magazine' | 'expert'; // Template selection
     aiDecisions?: AISiteDecisions; // AI-generated configuration decisions
+    locales?: string[]; // e.g. ['en', 'es', 'fr']: the default at /, the others at /<locale>/
+    defaultLocale?: string; // Defaults to the first locale, or 'en'
 }
 
 // Get domain from config or extract from repo name
@@ -71,6 +76,7 @@ export function generateTemplateFiles(repoName: string, config?: Partial<SiteCon
     const primaryColor = config?.colors?.primary || theme.colors.primary;
     const secondaryColor = config?.colors?.secondary || theme.colors.secondary;
     const domain = getDomain(repoName, config);
+    const { defaultLocale, locales } = resolveLocales(config?.locales, config?.defaultLocale);
 
     return [
         // Package.json
@@ -188,7 +194,7 @@ module.exports = nextConfig;
         // Layout with header/footer + AdSense + Analytics
         {
             path: 'app/layout.tsx',
-            content: generateLayoutComponent(siteName, tagline, adsensePublisherId, umamiId)
+            content: generateLayoutComponent(siteName, tagline, defaultLocale, adsensePublisherId, umamiId)
         },
 
         // Homepage
@@ -255,11 +261,11 @@ module.exports = nextConfig;
             content: generateRobotsTxt(domain)
         },
 
-        // sitemap.xml (base - articles added dynamically)
-        {
-            path: 'public/sitemap.xml',
-            content: generateSitemapXml(domain)
-        },
+        // sitemap.xml, news sitemap, RSS and Atom feeds (built from content/)
+        ...generateFeedFiles({ siteName, tagline, domain }),
+
+        // Additional locales at /<locale>/ with hreflang alternates
+        ...generateLocaleFiles({ siteName, tagline, domain, defaultLocale, locales }),
 
         // Web App Manifest (PWA support + theme colors)
         {
@@ -468,7 +474,7 @@ function adjustColor(hex: string, percent: number): string {
     return '#' + (0x1000000 + R * 0x10000 + G * 0x100 + B).toString(16).slice(1);
 }
 
-function generateLayoutComponent(siteName: string, tagline: string, adsensePublisherId?: string, umamiId?: string): string {
+function generateLayoutComponent(siteName: string, tagline: string, defaultLocale: string, adsensePublisherId?: string, umamiId?: string): string {
     const initials = siteName.split(' ').map(w => w[0]).join('').substring(0, 2).toUpperCase();
 
     // Generate AdSense script - uses native script tag for Google verification (not Next.js Script component)
@@ -487,11 +493,17 @@ import Link from 'next/link';
 export const metadata = {
     title: '${siteName}',
     description: '${tagline}',
+    alternates: {
+        types: {
+            'application/rss+xml': '/feed.xml',
+            'application/atom+xml': '/atom.xml',
+        },
+    },
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
     return (
-        <html lang="en">
+        <html lang="${defaultLocale}" dir="${isRtlLocale(defaultLocale) ? 'rtl' : 'ltr'}">
             <head>
                 ${adsensePublisherId ? `{/* Google AdSense - Native script for verification */}
                 <script
@@ -554,8 +566,13 @@ export default function RootLayout({ children }: { children: React.ReactNode })
 
 function generateHomepage(siteName: string, tagline: string): string {
     return `import { getAllArticles } from '../lib/content';
+import { getAlternates } from '../lib/i18n';
 import Link from 'next/link';
 
+export const metadata = {
+    alternates: getAlternates(),
+};
+
 export default function Home() {
     const articles = getAllArticles();
     
@@ -615,6 +632,7 @@ function generateArticlePage(authorName: string, authorRole: string, authorBio:
     const initials = authorName.split(' ').map(w => w[0]).join('').substring(0, 2).toUpperCase();
 
     return `import { getArticleBySlug, getAllArticles } from '../../lib/content';
+import { getAlternates } from '../../lib/i18n';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -629,6 +647,7 @@ export async function generateMetadata({ params }: { params: Promise<{ slug: str
     return {
         title: article?.title || 'Article',
         description: article?.description || '',
+        alternates: getAlternates(slug),
     };
 }
 
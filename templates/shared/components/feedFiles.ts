@@ -0,0 +1,474 @@
+/**
+ * Sitemap & Feed Generator
+ *
+ * Generates the route handlers that build sitemap.xml, the Google News
+ * sitemap and the RSS 2.0 / Atom feeds from the content/ directory when the
+ * site is built, so articles pushed after scaffolding are always listed.
+ *
+ * Generated routes:
+ * - /sitemap.xml           - urlset, or a sitemap index once the site outgrows one file
+ * - /sitemaps/[n].xml      - sitemap pages referenced by the index
+ * - /news-sitemap.xml      - articles published in the last two days
+ * - /feed.xml, /atom.xml   - latest articles for feed readers
+ *
+ * Multilingual sites get one sitemap page set per locale (/sitemaps/es-1.xml)
+ * with hreflang alternates on every URL. lib/feeds.ts reads locales from
+ * lib/i18n.ts, so generateLocaleFiles() must be part of the same template.
+ *
+ * @see https://www.sitemaps.org/protocol.html
+ * @see https://developers.google.com/search/docs/crawling-indexing/sitemaps/news-sitemap
+ */
+
+export interface FeedConfig {
+    siteName: string;
+    tagline: string;
+    domain: string;
+}
+
+export interface GeneratedFile {
+    path: string;
+    content: string;
+}
+
+/**
+ * Generate lib/feeds.ts: reads content/ and renders sitemap and feed XML
+ */
+export function generateFeedLib(config: FeedConfig): string {
+    return `import fs from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import { DEFAULT_LOCALE, LOCALES, getLanguageAlternates, localeContentDir, localizedPath } from './i18n';
+
+export const SITE_URL = ${JSON.stringify(`https://${config.domain}`)};
+export const SITE_NAME = ${JSON.stringify(config.siteName)};
+export const SITE_DESCRIPTION = ${JSON.stringify(config.tagline)};
+export const SITE_LANGUAGE = DEFAULT_LOCALE;
+
+// The protocol allows 50,000 URLs per file; smaller pages keep responses light
+export const SITEMAP_PAGE_SIZE = 10000;
+
+// Google News only accepts articles from the last two days, at most 1,000
+const NEWS_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+const NEWS_LIMIT = 1000;
+const FEED_LIMIT = 50;
+
+// Structural page slugs to exclude from article listings
+const STRUCTURAL_SLUGS = ['about', 'privacy', 'terms', 'contact', 'disclaimer'];
+
+const STATIC_PAGES = [
+    { path: '/', changefreq: 'daily', priority: 1.0 },
+    { path: '/about', changefreq: 'monthly', priority: 0.8 },
+    { path: '/contact', changefreq: 'monthly', priority: 0.5 },
+    { path: '/privacy', changefreq: 'yearly', priority: 0.3 },
+    { path: '/terms', changefreq: 'yearly', priority: 0.3 },
+];
+
+export interface FeedImage {
+    loc: string;
+    title?: string;
+}
+
+export interface FeedEntry {
+    slug: string;
+    locale: string;
+    url: string;
+    title: string;
+    description: string;
+    author?: string;
+    category?: string;
+    images: FeedImage[];
+    published: Date;
+    updated: Date;
+}
+
+export interface SitemapUrl {
+    loc: string;
+    lastmod: Date;
+    changefreq: string;
+    priority: number;
+    images: FeedImage[];
+    alternates: Record<string, string>;
+}
+
+export interface SitemapPage {
+    id: string;
+    urls: SitemapUrl[];
+}
+
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function absoluteUrl(value: string): string {
+    if (/^https?:\\/\\//.test(value)) return value;
+    return SITE_URL + (value.startsWith('/') ? '' : '/') + value;
+}
+
+// gray-matter parses YAML dates as Date objects, quoted dates stay strings
+function toDate(value: unknown, fallback: Date): Date {
+    if (value instanceof Date && !isNaN(value.getTime())) return value;
+    if (typeof value === 'string' || typeof value === 'number') {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) return date;
+    }
+    return fallback;
+}
+
+function collectImages(data: Record<string, unknown>, content: string): FeedImage[] {
+    const images: FeedImage[] = [];
+    const add = (src: unknown, title?: string) => {
+        if (typeof src !== 'string' || !src.trim()) return;
+        const loc = absoluteUrl(src.trim());
+        if (!images.some(image => image.loc === loc)) images.push({ loc, title: title || undefined });
+    };
+
+    add(data.image || data.featuredImage, typeof data.title === 'string' ? data.title : undefined);
+    const pattern = /!\\[([^\\]]*)\\]\\(([^)\\s]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+        add(match[2], match[1]);
+    }
+    return images;
+}
+
+/**
+ * Published articles in a locale, newest first
+ */
+export function getFeedEntries(locale: string = DEFAULT_LOCALE): FeedEntry[] {
+    const contentDir = localeContentDir(locale);
+    if (!fs.existsSync(contentDir)) return [];
+
+    return fs.readdirSync(contentDir)
+        .filter(f => f.endsWith('.md'))
+        .filter(f => !STRUCTURAL_SLUGS.includes(f.replace(/\\.md$/, '')))
+        .map((file): FeedEntry | null => {
+            const fullPath = path.join(contentDir, file);
+            const { data, content } = matter(fs.readFileSync(fullPath, 'utf8'));
+            if (data.draft === true) return null;
+
+            const slug = file.replace(/\\.md$/, '');
+            const published = toDate(data.date, fs.statSync(fullPath).mtime);
+            return {
+                slug,
+                locale,
+                url: absoluteUrl(localizedPath(locale, slug)),
+                title: data.title || slug,
+                description: data.description || '',
+                author: data.author,
+                category: data.category,
+                images: collectImages(data, content),
+                published,
+                updated: toDate(data.updated || data.lastModified || data.dateModified, published),
+            };
+        })
+        .filter((entry): entry is FeedEntry => entry !== null)
+        .sort((a, b) => b.published.getTime() - a.published.getTime());
+}
+
+// ============================================
+// SITEMAPS
+// ============================================
+
+/**
+ * URLs for one locale. The static pages only exist in the default locale;
+ * other locales list their homepage and translated articles.
+ */
+export function getSitemapUrls(locale: string = DEFAULT_LOCALE): SitemapUrl[] {
+    const entries = getFeedEntries(locale);
+    const latest = entries.reduce(
+        (max, entry) => (entry.updated > max ? entry.updated : max),
+        entries.length ? entries[0].updated : new Date()
+    );
+    const pages = locale === DEFAULT_LOCALE ? STATIC_PAGES : STATIC_PAGES.filter(page => page.path === '/');
+
+    return [
+        ...pages.map(page => ({
+            loc: absoluteUrl(page.path === '/' ? localizedPath(locale) : page.path),
+            lastmod: page.path === '/' ? latest : new Date(),
+            changefreq: page.changefreq,
+            priority: page.priority,
+            images: [],
+            alternates: page.path === '/' ? getLanguageAlternates() : {},
+        })),
+        ...entries.map(entry => ({
+            loc: entry.url,
+            lastmod: entry.updated,
+            changefreq: 'weekly',
+            priority: 0.7,
+            images: entry.images,
+            alternates: getLanguageAlternates(entry.slug),
+        })),
+    ];
+}
+
+/**
+ * Sitemap pages across all locales: "1", "2"... for single-language sites,
+ * "en-1", "es-1"... once there is more than one locale
+ */
+export function getSitemapPages(): SitemapPage[] {
+    const pages: SitemapPage[] = [];
+    for (const locale of LOCALES) {
+        const urls = getSitemapUrls(locale);
+        for (let start = 0, page = 1; start < urls.length; start += SITEMAP_PAGE_SIZE, page++) {
+            pages.push({
+                id: LOCALES.length > 1 ? locale + '-' + page : String(page),
+                urls: urls.slice(start, start + SITEMAP_PAGE_SIZE),
+            });
+        }
+    }
+    return pages;
+}
+
+export function getSitemapPage(id: string): SitemapUrl[] {
+    return getSitemapPages().find(page => page.id === id)?.urls || [];
+}
+
+export function renderUrlset(urls: SitemapUrl[]): string {
+    const body = urls.map(url => {
+        const images = url.images.map(image => [
+            '    <image:image>',
+            '      <image:loc>' + escapeXml(image.loc) + '</image:loc>',
+            ...(image.title ? ['      <image:title>' + escapeXml(image.title) + '</image:title>'] : []),
+            '    </image:image>',
+        ].join('\\n'));
+
+        return [
+            '  <url>',
+            '    <loc>' + escapeXml(url.loc) + '</loc>',
+            '    <lastmod>' + url.lastmod.toISOString() + '</lastmod>',
+            '    <changefreq>' + url.changefreq + '</changefreq>',
+            '    <priority>' + url.priority.toFixed(1) + '</priority>',
+            ...Object.entries(url.alternates).map(([hreflang, href]) =>
+                '    <xhtml:link rel="alternate" hreflang="' + hreflang + '" href="' + escapeXml(href) + '" />'
+            ),
+            ...images,
+            '  </url>',
+        ].join('\\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+        ...body,
+        '</urlset>',
+        '',
+    ].join('\\n');
+}
+
+export function renderSitemapIndex(sitemaps: SitemapPage[] = getSitemapPages()): string {
+    const pages = sitemaps.map(page => {
+        const lastmod = page.urls.reduce((max, url) => (url.lastmod > max ? url.lastmod : max), new Date(0));
+        return [
+            '  <sitemap>',
+            '    <loc>' + escapeXml(absoluteUrl('/sitemaps/' + page.id + '.xml')) + '</loc>',
+            '    <lastmod>' + lastmod.toISOString() + '</lastmod>',
+            '  </sitemap>',
+        ].join('\\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        ...pages,
+        '</sitemapindex>',
+        '',
+    ].join('\\n');
+}
+
+export function renderNewsSitemap(now: Date = new Date()): string {
+    const recent = LOCALES.map(locale => getFeedEntries(locale))
+        .reduce((all, entries) => all.concat(entries), [] as FeedEntry[])
+        .filter(entry => now.getTime() - entry.published.getTime() <= NEWS_WINDOW_MS)
+        .sort((a, b) => b.published.getTime() - a.published.getTime())
+        .slice(0, NEWS_LIMIT);
+
+    const body = recent.map(entry => [
+        '  <url>',
+        '    <loc>' + escapeXml(entry.url) + '</loc>',
+        '    <news:news>',
+        '      <news:publication>',
+        '        <news:name>' + escapeXml(SITE_NAME) + '</news:name>',
+        '        <news:language>' + entry.locale + '</news:language>',
+        '      </news:publication>',
+        '      <news:publication_date>' + entry.published.toISOString() + '</news:publication_date>',
+        '      <news:title>' + escapeXml(entry.title) + '</news:title>',
+        '    </news:news>',
+        '  </url>',
+    ].join('\\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">',
+        ...body,
+        '</urlset>',
+        '',
+    ].join('\\n');
+}
+
+// ============================================
+// FEEDS
+// ============================================
+
+export function renderRss(): string {
+    const entries = getFeedEntries().slice(0, FEED_LIMIT);
+    const lastBuild = entries.length ? entries[0].updated : new Date();
+
+    const items = entries.map(entry => [
+        '    <item>',
+        '      <title>' + escapeXml(entry.title) + '</title>',
+        '      <link>' + escapeXml(entry.url) + '</link>',
+        '      <guid isPermaLink="true">' + escapeXml(entry.url) + '</guid>',
+        '      <pubDate>' + entry.published.toUTCString() + '</pubDate>',
+        '      <description>' + escapeXml(entry.description) + '</description>',
+        ...(entry.author ? ['      <dc:creator>' + escapeXml(entry.author) + '</dc:creator>'] : []),
+        ...(entry.category ? ['      <category>' + escapeXml(entry.category) + '</category>'] : []),
+        '    </item>',
+    ].join('\\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+        '  <channel>',
+        '    <title>' + escapeXml(SITE_NAME) + '</title>',
+        '    <link>' + escapeXml(absoluteUrl('/')) + '</link>',
+        '    <description>' + escapeXml(SITE_DESCRIPTION) + '</description>',
+        '    <language>' + SITE_LANGUAGE + '</language>',
+        '    <lastBuildDate>' + lastBuild.toUTCString() + '</lastBuildDate>',
+        '    <atom:link href="' + escapeXml(absoluteUrl('/feed.xml')) + '" rel="self" type="application/rss+xml" />',
+        ...items,
+        '  </channel>',
+        '</rss>',
+        '',
+    ].join('\\n');
+}
+
+export function renderAtom(): string {
+    const entries = getFeedEntries().slice(0, FEED_LIMIT);
+    const updated = entries.reduce(
+        (max, entry) => (entry.updated > max ? entry.updated : max),
+        entries.length ? entries[0].updated : new Date()
+    );
+
+    const items = entries.map(entry => [
+        '  <entry>',
+        '    <id>' + escapeXml(entry.url) + '</id>',
+        '    <title>' + escapeXml(entry.title) + '</title>',
+        '    <link href="' + escapeXml(entry.url) + '" />',
+        '    <published>' + entry.published.toISOString() + '</published>',
+        '    <updated>' + entry.updated.toISOString() + '</updated>',
+        '    <summary>' + escapeXml(entry.description) + '</summary>',
+        '    <author><name>' + escapeXml(entry.author || SITE_NAME) + '</name></author>',
+        ...(entry.category ? ['    <category term="' + escapeXml(entry.category) + '" />'] : []),
+        '  </entry>',
+    ].join('\\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="' + SITE_LANGUAGE + '">',
+        '  <id>' + escapeXml(absoluteUrl('/')) + '</id>',
+        '  <title>' + escapeXml(SITE_NAME) + '</title>',
+        '  <subtitle>' + escapeXml(SITE_DESCRIPTION) + '</subtitle>',
+        '  <updated>' + updated.toISOString() + '</updated>',
+        '  <link href="' + escapeXml(absoluteUrl('/')) + '" />',
+        '  <link href="' + escapeXml(absoluteUrl('/atom.xml')) + '" rel="self" type="application/atom+xml" />',
+        ...items,
+        '</feed>',
+        '',
+    ].join('\\n');
+}
+
+export function xmlResponse(body: string, contentType: string = 'application/xml'): Response {
+    return new Response(body, {
+        headers: {
+            'Content-Type': contentType + '; charset=utf-8',
+            'Cache-Control': 'public, max-age=3600',
+        },
+    });
+}
+`;
+}
+
+/**
+ * Generate the route handlers plus lib/feeds.ts. The routes are rendered at
+ * build time; the news sitemap revalidates hourly so its two-day window
+ * stays current between deploys.
+ */
+export function generateFeedFiles(config: FeedConfig): GeneratedFile[] {
+    return [
+        {
+            path: 'lib/feeds.ts',
+            content: generateFeedLib(config)
+        },
+        {
+            path: 'app/sitemap.xml/route.ts',
+            content: `import { getSitemapPages, renderSitemapIndex, renderUrlset, xmlResponse } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+
+export function GET() {
+    const pages = getSitemapPages();
+    return xmlResponse(pages.length > 1 ? renderSitemapIndex(pages) : renderUrlset(pages[0].urls));
+}
+`
+        },
+        {
+            path: 'app/sitemaps/[page]/route.ts',
+            content: `import { getSitemapPage, getSitemapPages, renderUrlset, xmlResponse } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+    return getSitemapPages().map(page => ({ page: page.id + '.xml' }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ page: string }> }) {
+    const { page } = await params;
+    const urls = getSitemapPage(page.replace(/\\.xml$/, ''));
+    if (urls.length === 0) {
+        return new Response('Not found', { status: 404 });
+    }
+    return xmlResponse(renderUrlset(urls));
+}
+`
+        },
+        {
+            path: 'app/news-sitemap.xml/route.ts',
+            content: `import { renderNewsSitemap, xmlResponse } from '@/lib/feeds';
+
+export const revalidate = 3600;
+
+export function GET() {
+    return xmlResponse(renderNewsSitemap());
+}
+`
+        },
+        {
+            path: 'app/feed.xml/route.ts',
+            content: `import { renderRss, xmlResponse } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+
+export function GET() {
+    return xmlResponse(renderRss(), 'application/rss+xml');
+}
+`
+        },
+        {
+            path: 'app/atom.xml/route.ts',
+            content: `import { renderAtom, xmlResponse } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+
+export function GET() {
+    return xmlResponse(renderAtom(), 'application/atom+xml');
+}
+`
+        }
+    ];
+}
@@ -0,0 +1,389 @@
+/**
+ * Multilingual Site Generator
+ *
+ * Generates locale routing for static templates. The default locale is
+ * served at / from content/, every other locale at /<locale>/ from
+ * content/<locale>/ with the same slugs, so hreflang alternates can be
+ * matched by slug.
+ *
+ * Generated files:
+ * - lib/i18n.ts                   - locales, RTL detection, per-locale content, hreflang alternates
+ * - components/LocalePages.tsx    - localized homepage and article page
+ * - app/<locale>/...              - static routes per additional locale
+ *
+ * Static locale folders take precedence over app/[slug], so no middleware
+ * is needed and everything still renders at build time.
+ *
+ * @see https://developers.google.com/search/docs/specialty/international/localized-versions
+ */
+
+import type { GeneratedFile } from './feedFiles';
+
+export interface LocaleConfig {
+    defaultLocale: string;
+    locales: string[];
+}
+
+export interface LocaleSiteConfig extends LocaleConfig {
+    siteName: string;
+    tagline: string;
+    domain: string;
+}
+
+/** Locales written right to left */
+export const RTL_LOCALES = ['ar', 'he', 'fa', 'ur'];
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,4})?$/;
+
+// Interface strings for the generated locale pages; other locales use English
+const UI_STRINGS: Record<string, { latest: string; empty: string; notFound: string; alsoIn: string }> = {
+    en: { latest: 'Latest articles', empty: 'Fresh content coming soon.', notFound: 'Article not found', alsoIn: 'Also available in' },
+    es: { latest: 'Últimos artículos', empty: 'Pronto habrá contenido nuevo.', notFound: 'Artículo no encontrado', alsoIn: 'También disponible en' },
+    fr: { latest: 'Derniers articles', empty: 'Nouveaux contenus bientôt.', notFound: 'Article introuvable', alsoIn: 'Également disponible en' },
+    de: { latest: 'Neueste Artikel', empty: 'Neue Inhalte folgen in Kürze.', notFound: 'Artikel nicht gefunden', alsoIn: 'Auch verfügbar auf' },
+    it: { latest: 'Ultimi articoli', empty: 'Nuovi contenuti in arrivo.', notFound: 'Articolo non trovato', alsoIn: 'Disponibile anche in' },
+    pt: { latest: 'Artigos recentes', empty: 'Novos conteúdos em breve.', notFound: 'Artigo não encontrado', alsoIn: 'Também disponível em' },
+    nl: { latest: 'Nieuwste artikelen', empty: 'Binnenkort nieuwe inhoud.', notFound: 'Artikel niet gevonden', alsoIn: 'Ook beschikbaar in' },
+    ar: { latest: 'أحدث المقالات', empty: 'محتوى جديد قريبًا.', notFound: 'المقالة غير موجودة', alsoIn: 'متوفر أيضًا بـ' },
+};
+
+/**
+ * Normalize configured locales: lowercase, valid codes only, default first
+ */
+export function resolveLocales(locales?: string[], defaultLocale?: string): LocaleConfig {
+    const valid = (locales || [])
+        .map(locale => locale.trim().toLowerCase())
+        .filter(locale => LOCALE_PATTERN.test(locale));
+    const fallback = (defaultLocale || valid[0] || 'en').trim().toLowerCase();
+    const primary = LOCALE_PATTERN.test(fallback) ? fallback : 'en';
+
+    return {
+        defaultLocale: primary,
+        locales: [primary, ...valid.filter((locale, i) => locale !== primary && valid.indexOf(locale) === i)],
+    };
+}
+
+export function isRtlLocale(locale: string): boolean {
+    return RTL_LOCALES.includes(locale.split('-')[0]);
+}
+
+/**
+ * Generate lib/i18n.ts
+ */
+export function generateI18nLib(config: LocaleSiteConfig): string {
+    const strings = Object.fromEntries(
+        config.locales.map(locale => [locale, UI_STRINGS[locale.split('-')[0]] || UI_STRINGS.en])
+    );
+
+    return `import fs from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+
+export const SITE_URL = ${JSON.stringify(`https://${config.domain}`)};
+export const DEFAULT_LOCALE = ${JSON.stringify(config.defaultLocale)};
+export const LOCALES: string[] = ${JSON.stringify(config.locales)};
+
+const RTL_LOCALES = ${JSON.stringify(RTL_LOCALES)};
+
+const UI_STRINGS: Record<string, { latest: string; empty: string; notFound: string; alsoIn: string }> = ${JSON.stringify(strings, null, 4)};
+
+// Alternate feed links, repeated here because a page's alternates replace the layout's
+const FEED_TYPES = {
+    'application/rss+xml': '/feed.xml',
+    'application/atom+xml': '/atom.xml',
+};
+
+// Structural page slugs to exclude from article listings
+const STRUCTURAL_SLUGS = ['about', 'privacy', 'terms', 'contact', 'disclaimer'];
+
+export interface LocaleArticle {
+    slug: string;
+    title: string;
+    date: string;
+    description: string;
+    image?: string;
+    content: string;
+}
+
+export function isRtl(locale: string): boolean {
+    return RTL_LOCALES.includes(locale.split('-')[0]);
+}
+
+export function t(locale: string) {
+    return UI_STRINGS[locale] || UI_STRINGS[DEFAULT_LOCALE];
+}
+
+export function localeContentDir(locale: string): string {
+    return locale === DEFAULT_LOCALE
+        ? path.join(process.cwd(), 'content')
+        : path.join(process.cwd(), 'content', locale);
+}
+
+export function localizedPath(locale: string, slug?: string): string {
+    const prefix = locale === DEFAULT_LOCALE ? '' : '/' + locale;
+    if (!slug) return prefix || '/';
+    return prefix + '/' + slug;
+}
+
+export function hasLocaleContent(locale: string, slug: string): boolean {
+    return fs.existsSync(path.join(localeContentDir(locale), slug + '.md'));
+}
+
+// gray-matter parses YAML dates as Date objects, convert to string
+function formatDate(date: unknown): string {
+    if (date instanceof Date) return date.toISOString().split('T')[0];
+    if (typeof date === 'string') return date;
+    return new Date().toISOString().split('T')[0];
+}
+
+function readArticle(locale: string, slug: string): LocaleArticle | null {
+    const fullPath = path.join(localeContentDir(locale), slug + '.md');
+    if (!fs.existsSync(fullPath)) return null;
+
+    const { data, content } = matter(fs.readFileSync(fullPath, 'utf8'));
+    return {
+        slug,
+        title: data.title || slug,
+        date: formatDate(data.date),
+        description: data.description || '',
+        image: data.image || data.featuredImage,
+        content,
+    };
+}
+
+export function getLocaleArticles(locale: string): LocaleArticle[] {
+    const dir = localeContentDir(locale);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter(f => f.endsWith('.md'))
+        .filter(f => !STRUCTURAL_SLUGS.includes(f.replace(/\\.md$/, '')))
+        .map(f => readArticle(locale, f.replace(/\\.md$/, '')))
+        .filter((article): article is LocaleArticle => article !== null)
+        .sort((a, b) => (a.date < b.date ? 1 : -1));
+}
+
+export function getLocaleArticle(locale: string, slug: string): LocaleArticle | null {
+    try {
+        return readArticle(locale, slug);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * hreflang URLs for a page (the homepage without a slug), limited to
+ * locales that have it. Empty for single-language sites.
+ */
+export function getLanguageAlternates(slug?: string): Record<string, string> {
+    if (LOCALES.length < 2) return {};
+
+    const languages: Record<string, string> = {};
+    for (const locale of LOCALES) {
+        if (!slug || hasLocaleContent(locale, slug)) {
+            languages[locale] = SITE_URL + localizedPath(locale, slug);
+        }
+    }
+    if (Object.keys(languages).length < 2) return {};
+    if (languages[DEFAULT_LOCALE]) languages['x-default'] = languages[DEFAULT_LOCALE];
+    return languages;
+}
+
+/**
+ * Metadata alternates for a page: hreflang links plus the feeds
+ */
+export function getAlternates(slug?: string) {
+    const languages = getLanguageAlternates(slug);
+    return {
+        ...(Object.keys(languages).length > 0 ? { languages } : {}),
+        types: FEED_TYPES,
+    };
+}
+`;
+}
+
+/**
+ * Generate components/LocalePages.tsx
+ */
+export function generateLocalePagesComponent(): string {
+    return `import Link from 'next/link';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import {
+    getAlternates,
+    getLanguageAlternates,
+    getLocaleArticle,
+    getLocaleArticles,
+    localizedPath,
+    t
+} from '@/lib/i18n';
+
+export function localeHomeMetadata(locale: string) {
+    return {
+        alternates: { ...getAlternates(), canonical: localizedPath(locale) },
+    };
+}
+
+export function localeArticleMetadata(locale: string, slug: string) {
+    const article = getLocaleArticle(locale, slug);
+    return {
+        title: article?.title || t(locale).notFound,
+        description: article?.description || '',
+        alternates: { ...getAlternates(slug), canonical: localizedPath(locale, slug) },
+    };
+}
+
+export function LocaleHome({ locale }: { locale: string }) {
+    const articles = getLocaleArticles(locale);
+    const strings = t(locale);
+
+    return (
+        <section className="container">
+            <h1 style={{ margin: '2rem 0 1rem' }}>{strings.latest}</h1>
+            {articles.length === 0 ? (
+                <p style={{ color: 'var(--color-text-muted)', padding: '2rem 0' }}>{strings.empty}</p>
+            ) : (
+                <div className="articles-grid">
+                    {articles.map((article) => (
+                        <article key={article.slug} className="article-card">
+                            {article.image && (
+                                <div className="article-card-image">
+                                    <img src={article.image} alt={article.title} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                                </div>
+                            )}
+                            <div className="article-card-content">
+                                <h3>
+                                    <Link href={localizedPath(locale, article.slug)}>{article.title}</Link>
+                                </h3>
+                                <p style={{ color: 'var(--color-text-muted)' }}>{article.description}</p>
+                                <div className="article-card-meta">
+                                    <span>{article.date}</span>
+                                </div>
+                            </div>
+                        </article>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
+
+export function LocaleArticle({ locale, slug }: { locale: string; slug: string }) {
+    const article = getLocaleArticle(locale, slug);
+    const strings = t(locale);
+
+    if (!article) {
+        return (
+            <div className="article">
+                <div className="content-wrapper" style={{ textAlign: 'center' }}>
+                    <h1>{strings.notFound}</h1>
+                </div>
+            </div>
+        );
+    }
+
+    const otherLanguages = Object.entries(getLanguageAlternates(slug))
+        .filter(([code]) => code !== locale && code !== 'x-default');
+
+    return (
+        <article className="article">
+            <header className="article-header">
+                <h1>{article.title}</h1>
+                <div className="article-meta">
+                    <span>{article.date}</span>
+                </div>
+            </header>
+
+            <div className="article-content content-wrapper">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>{article.content}</ReactMarkdown>
+            </div>
+
+            {otherLanguages.length > 0 && (
+                <nav className="content-wrapper" style={{ marginTop: '2rem', fontSize: '0.875rem' }}>
+                    {strings.alsoIn}:{' '}
+                    {otherLanguages.map(([code, url], i) => (
+                        <span key={code}>
+                            {i > 0 && ' · '}
+                            <a href={url} hrefLang={code}>{code.toUpperCase()}</a>
+                        </span>
+                    ))}
+                </nav>
+            )}
+        </article>
+    );
+}
+`;
+}
+
+/**
+ * Generate lib/i18n.ts, the locale page component and the static routes
+ * for every non-default locale. Single-language sites only get lib/i18n.ts
+ * (which then reports no alternates).
+ */
+export function generateLocaleFiles(config: LocaleSiteConfig): GeneratedFile[] {
+    const files: GeneratedFile[] = [
+        {
+            path: 'lib/i18n.ts',
+            content: generateI18nLib(config)
+        }
+    ];
+
+    const additional = config.locales.filter(locale => locale !== config.defaultLocale);
+    if (additional.length === 0) return files;
+
+    files.push({
+        path: 'components/LocalePages.tsx',
+        content: generateLocalePagesComponent()
+    });
+
+    for (const locale of additional) {
+        files.push(
+            {
+                path: `app/${locale}/layout.tsx`,
+                content: `export default function LocaleLayout({ children }: { children: React.ReactNode }) {
+    return (
+        <div lang="${locale}" dir="${isRtlLocale(locale) ? 'rtl' : 'ltr'}">
+            {children}
+        </div>
+    );
+}
+`
+            },
+            {
+                path: `app/${locale}/page.tsx`,
+                content: `import { LocaleHome, localeHomeMetadata } from '@/components/LocalePages';
+
+export const metadata = localeHomeMetadata('${locale}');
+
+export default function Home() {
+    return <LocaleHome locale="${locale}" />;
+}
+`
+            },
+            {
+                path: `app/${locale}/[slug]/page.tsx`,
+                content: `import { LocaleArticle, localeArticleMetadata } from '@/components/LocalePages';
+import { getLocaleArticles } from '@/lib/i18n';
+
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+    return getLocaleArticles('${locale}').map((article) => ({ slug: article.slug }));
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }) {
+    const { slug } = await params;
+    return localeArticleMetadata('${locale}', slug);
+}
+
+export default async function ArticlePage({ params }: { params: Promise<{ slug: string }> }) {
+    const { slug } = await params;
+    return <LocaleArticle locale="${locale}" slug={slug} />;
+}
+`
+            }
+        );
+    }
+
+    return files;
+}
@@ -53,8 +53,9 @@ export function generateRobotsTxt(domain: string): string {
 User-agent: *
 Allow: /
 
-# Sitemap location
+# Sitemap locations
 Sitemap: https://${domain}/sitemap.xml
+Sitemap: https://${domain}/news-sitemap.xml
 
 # Block admin/API paths (Next.js internal)
 Disallow: /api/
@@ -62,52 +63,6 @@ Disallow: /_next/
 `;
 }
 
-/**
- * Generate basic sitemap.xml
- * This is a template - actual articles should be added dynamically
- * 
- * @param domain - The website domain
- * @returns sitemap.xml content
- */
-export function generateSitemapXml(domain: string): string {
-    const today = new Date().toISOString().split('T')[0];
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-  <url>
-    <loc>https://${domain}/</loc>
-    <lastmod>${today}</lastmod>
-    <changefreq>daily</changefreq>
-    <priority>1.0</priority>
-  </url>
-  <url>
-    <loc>https://${domain}/about</loc>
-    <lastmod>${today}</lastmod>
-    <changefreq>monthly</changefreq>
-    <priority>0.8</priority>
-  </url>
-  <url>
-    <loc>https://${domain}/contact</loc>
-    <lastmod>${today}</lastmod>
-    <changefreq>monthly</changefreq>
-    <priority>0.5</priority>
-  </url>
-  <url>
-    <loc>https://${domain}/privacy</loc>
-    <lastmod>${today}</lastmod>
-    <changefreq>yearly</changefreq>
-    <priority>0.3</priority>
-  </url>
-  <url>
-    <loc>https://${domain}/terms</loc>
-    <lastmod>${today}</lastmod>
-    <changefreq>yearly</changefreq>
-    <priority>0.3</priority>
-  </url>
-</urlset>
-`;
-}
-
 /**
  * Generate web app manifest for PWA support
  * 
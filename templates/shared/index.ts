@@ -36,10 +36,23 @@ export * from './schema';
 export {
     generateAdsTxt,
     generateRobotsTxt,
-    generateSitemapXml,
     generateManifest
 } from './components/seoFiles';
 
+// Sitemaps & Feeds (sitemap index, news sitemap, RSS, Atom)
+export { generateFeedFiles, generateFeedLib } from './components/feedFiles';
+export type { FeedConfig } from './components/feedFiles';
+
+// Multilingual Sites (locale routes, hreflang alternates)
+export {
+    generateLocaleFiles,
+    generateI18nLib,
+    resolveLocales,
+    isRtlLocale,
+    RTL_LOCALES
+} from './components/i18nFiles';
+export type { LocaleConfig, LocaleSiteConfig } from './components/i18nFiles';
+
 // Site Graphics (logos, favicons, OG images)
 export {
     generateSiteGraphics,
@@ -4,7 +4,9 @@
  */
 
 import { AISiteDecisions, generateAIDecisionCSS } from '@/lib/aiSiteBuilder';
-import { generateAdsTxt } from '@/templates/shared/components/seoFiles';
+import { generateAdsTxt, generateRobotsTxt } from '@/templates/shared/components/seoFiles';
+import { generateFeedFiles } from '@/templates/shared/components/feedFiles';
+import { generateLocaleFiles, isRtlLocale, resolveLocales } from '@/templates/shared/components/i18nFiles';
 
 export interface SiteConfig {
     siteName: string;
@@ -22,6 +24,8 @@ export interface SiteConfig {
     };
     umamiId?: string; // Optional Umami Website ID
     aiDecisions?: AISiteDecisions; // AI-generated configuration decisions
+    locales?: string[]; // e.g. ['en', 'es', 'fr']: the default at /, the others at /<locale>/
+    defaultLocale?: string; // Defaults to the first locale, or 'en'
 }
 
 export function generateTemplateFiles(repoName: string, config?: Partial<SiteConfig>) {
@@ -34,6 +38,8 @@ export function generateTemplateFiles(repoName: string, config?: Partial<SiteCon
     const secondaryColor = config?.colors?.secondary || '#8b5cf6'; // Violet-500
     const adsensePublisherId = config?.adsensePublisherId || '';
     const umamiId = config?.umamiId;
+    const domain = config?.domain || repoName.replace(/-/g, '.');
+    const { defaultLocale, locales } = resolveLocales(config?.locales, config?.defaultLocale);
     const aiDecisions = config?.aiDecisions;
 
     return [
@@ -120,7 +126,7 @@ module.exports = nextConfig;
         // Layout
         {
             path: 'app/layout.tsx',
-            content: generateLayoutComponent(siteName, tagline, adsensePublisherId, umamiId)
+            content: generateLayoutComponent(siteName, tagline, defaultLocale, adsensePublisherId, umamiId)
         },
 
         // Homepage
@@ -179,7 +185,19 @@ module.exports = nextConfig;
         ...(adsensePublisherId ? [{
             path: 'public/ads.txt',
             content: generateAdsTxt(adsensePublisherId)
-        }] : [])
+        }] : []),
+
+        // robots.txt
+        {
+            path: 'public/robots.txt',
+            content: generateRobotsTxt(domain)
+        },
+
+        // sitemap.xml, news sitemap, RSS and Atom feeds (built from content/)
+        ...generateFeedFiles({ siteName, tagline, domain }),
+
+        // Additional locales at /<locale>/ with hreflang alternates
+        ...generateLocaleFiles({ siteName, tagline, domain, defaultLocale, locales })
     ];
 }
 
@@ -278,18 +296,24 @@ function adjustColor(hex: string, percent: number): string {
     return '#' + (0x1000000 + R * 0x10000 + G * 0x100 + B).toString(16).slice(1);
 }
 
-function generateLayoutComponent(siteName: string, tagline: string, adsensePublisherId?: string, umamiId?: string): string {
+function generateLayoutComponent(siteName: string, tagline: string, defaultLocale: string, adsensePublisherId?: string, umamiId?: string): string {
     return `import './globals.css';
 import Link from 'next/link';
 
 export const metadata = {
     title: '${siteName}',
     description: '${tagline}',
+    alternates: {
+        types: {
+            'application/rss+xml': '/feed.xml',
+            'application/atom+xml': '/atom.xml',
+        },
+    },
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
     return (
-        <html lang="en">
+        <html lang="${defaultLocale}" dir="${isRtlLocale(defaultLocale) ? 'rtl' : 'ltr'}">
             <head>
                 ${adsensePublisherId ? `<script async src="https://pagead2.googlesyndication.com/pagead/js/adsbygoogle.js?client=${adsensePublisherId}" crossOrigin="anonymous" />` : ''}
                 {/* Umami Analytics - Optional */}
@@ -333,8 +357,13 @@ export default function RootLayout({ children }: { children: React.ReactNode })
 
 function generateHomepage(_siteName: string, _tagline: string): string {
     return `import { getAllArticles } from '../lib/content';
+import { getAlternates } from '../lib/i18n';
 import Link from 'next/link';
 
+export const metadata = {
+    alternates: getAlternates(),
+};
+
 export default function Home() {
     const articles = getAllArticles();
     const featured = articles[0];
@@ -389,6 +418,7 @@ export default function Home() {
 // Re-use standard generators for pages
 function generateArticlePage(name: string, _role: string, _bio: string) {
     return `import { getArticleBySlug, getAllArticles } from '../../lib/content';
+import { getAlternates } from '../../lib/i18n';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -400,7 +430,7 @@ export async function generateStaticParams() {
 export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }) {
     const { slug } = await params;
     const article = getArticleBySlug(slug);
-    return { title: article?.title, description: article?.description };
+    return { title: article?.title, description: article?.description, alternates: getAlternates(slug) };
 }
 
 export default async function ArticlePage({ params }: { params: Promise<{ slug: string }> }) {
@@ -10,6 +10,7 @@ describe('Settings Store Export/Import Logic (v4 - Profile Format)', () => {
                 openrouter: [],
                 vercel: [],
                 perplexity: [],
+                local: [],
             },
             enabledProviders: ['gemini'],
             selectedModels: {},
@@ -102,7 +103,7 @@ describe('Settings Store Export/Import Logic (v4 - Profile Format)', () => {
             exportedAt: new Date().toISOString(),
             app: 'AdSense Ifrit V3',
             profile: {
-                providerKeys: { gemini: [], deepseek: [], openrouter: [], vercel: [], perplexity: [] },
+                providerKeys: { gemini: [], deepseek: [], openrouter: [], vercel: [], perplexity: [], local: [] },
                 enabledProviders: ['gemini', 'deepseek'],
                 selectedModels: { gemini: 'gemini-3-flash-preview' },
                 handlerModels: {},